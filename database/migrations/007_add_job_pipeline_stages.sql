@@ -0,0 +1,48 @@
+-- =============================================
+-- Migration: Configurable hiring pipeline stages per job
+-- Date: 2025-12-08
+-- =============================================
+
+-- Problem: Application status is a fixed six-value list shared by every job.
+-- Teams need their own ordered stages ("Phone Screen", "Take-home", "Onsite", ...).
+--
+-- Approach: each job stores an ordered JSONB array of stages. Every stage maps
+-- to one of the canonical application statuses (its outcome), so filtering,
+-- reporting and candidate-facing views keep working on the six statuses while
+-- recruiters move applications between the job's own stages.
+--
+--   [{ "id": "phone_screen", "name": "Phone Screen", "status": "under_review" }, ...]
+
+-- 1) Pipeline definition on jobs
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS pipeline_stages JSONB NULL;
+
+-- 2) Current stage on applications (matches a stage id in jobs.pipeline_stages)
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS stage_id TEXT NULL;
+
+-- 3) Back-fill existing jobs with the default pipeline that reproduces today's statuses.
+--    Stage ids equal the status values so existing applications map 1:1.
+UPDATE jobs
+SET pipeline_stages = '[
+  { "id": "applied",      "name": "Applied",      "status": "applied" },
+  { "id": "under_review", "name": "Under Review", "status": "under_review" },
+  { "id": "interview",    "name": "Interview",    "status": "interview" },
+  { "id": "offer",        "name": "Offer",        "status": "offer" },
+  { "id": "hired",        "name": "Hired",        "status": "hired" },
+  { "id": "rejected",     "name": "Rejected",     "status": "rejected" }
+]'::jsonb
+WHERE pipeline_stages IS NULL;
+
+UPDATE applications
+SET stage_id = status::text
+WHERE stage_id IS NULL;
+
+-- Index for per-stage counts on the recruiter job view
+CREATE INDEX IF NOT EXISTS idx_applications_job_stage
+ON applications(job_id, stage_id);
+
+COMMENT ON COLUMN jobs.pipeline_stages IS 'Ordered hiring stages for this job: [{ id, name, status }] where status is the canonical application status (outcome) of the stage';
+COMMENT ON COLUMN applications.stage_id IS 'Current stage id within jobs.pipeline_stages; applications.status mirrors the stage outcome';
+
+-- Verify:
+-- SELECT id, jsonb_array_length(pipeline_stages) FROM jobs LIMIT 10;
+-- SELECT status, stage_id, COUNT(*) FROM applications GROUP BY 1, 2;
@@ -0,0 +1,72 @@
+-- =============================================
+-- Migration: Application status transition history
+-- Date: 2025-12-09
+-- =============================================
+
+-- Problem: PATCH /api/applications/[id] let any caller set any status (a candidate
+-- could mark themselves Hired, a recruiter could move Rejected back to Offer) and
+-- nothing recorded who changed what, or when.
+--
+-- Approach: transitions are validated in the API (src/lib/status-transitions.ts)
+-- and every accepted change appends one row here. Rows are never updated or deleted.
+
+CREATE TABLE IF NOT EXISTS application_status_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID REFERENCES applications(id) ON DELETE CASCADE NOT NULL,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_role TEXT NOT NULL CHECK (actor_role IN ('candidate', 'recruiter', 'system')),
+  from_status TEXT NULL CHECK (from_status IN ('applied', 'under_review', 'interview', 'offer', 'hired', 'rejected')),
+  to_status TEXT NOT NULL CHECK (to_status IN ('applied', 'under_review', 'interview', 'offer', 'hired', 'rejected')),
+  from_stage_id TEXT NULL,
+  to_stage_id TEXT NULL,
+  reason TEXT NULL CHECK (reason IS NULL OR char_length(reason) <= 500),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- History for one application, oldest first
+CREATE INDEX IF NOT EXISTS idx_application_status_events_application
+ON application_status_events(application_id, created_at);
+
+ALTER TABLE application_status_events ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Candidates and the owning recruiter can read an application's history
+CREATE POLICY "Participants can read application status events"
+  ON application_status_events
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM applications a
+      LEFT JOIN jobs j ON j.id = a.job_id
+      WHERE a.id = application_status_events.application_id
+        AND (a.candidate_id = auth.uid() OR j.employer_id = auth.uid())
+    )
+  );
+
+-- Policy: Participants can append events as themselves (no UPDATE/DELETE policies)
+CREATE POLICY "Participants can insert own application status events"
+  ON application_status_events
+  FOR INSERT
+  WITH CHECK (
+    actor_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM applications a
+      LEFT JOIN jobs j ON j.id = a.job_id
+      WHERE a.id = application_status_events.application_id
+        AND (a.candidate_id = auth.uid() OR j.employer_id = auth.uid())
+    )
+  );
+
+-- Back-fill one "applied" event per existing application so every history has a start
+INSERT INTO application_status_events (application_id, actor_id, actor_role, from_status, to_status, to_stage_id, created_at)
+SELECT a.id, a.candidate_id, 'candidate', NULL, 'applied', NULL, a.applied_at
+FROM applications a
+WHERE NOT EXISTS (
+  SELECT 1 FROM application_status_events e WHERE e.application_id = a.id
+);
+
+COMMENT ON TABLE application_status_events IS 'Append-only audit log of application status/stage changes';
+COMMENT ON COLUMN application_status_events.actor_role IS 'Role the actor acted in: candidate, recruiter (job owner) or system';
+
+-- Verify:
+-- SELECT application_id, from_status, to_status, actor_role, created_at
+-- FROM application_status_events ORDER BY created_at DESC LIMIT 20;
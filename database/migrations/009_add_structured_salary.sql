@@ -0,0 +1,199 @@
+-- =============================================
+-- Migration: Structured salary ranges (min/max, currency, pay period)
+-- Date: 2025-12-10
+-- =============================================
+
+-- Problem: jobs.salary_range is free text ("$120k - $150k", "45/hr"), so
+-- compensation can't be filtered, sorted or compared.
+--
+-- Approach: add structured columns next to salary_range. salary_range stays as
+-- the display string. Existing rows are back-filled by parse_salary_range(),
+-- which mirrors parseSalaryRange() in src/lib/salary.ts. Values it can't read
+-- are left untouched and listed in job_salary_backfill_issues for manual review.
+
+-- 1) Structured columns
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS salary_min NUMERIC(12, 2) NULL;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS salary_max NUMERIC(12, 2) NULL;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS salary_currency CHAR(3) NULL;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS salary_period TEXT NULL;
+
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_salary_period_check;
+ALTER TABLE jobs ADD CONSTRAINT jobs_salary_period_check
+  CHECK (salary_period IS NULL OR salary_period IN ('hourly', 'monthly', 'yearly'));
+
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_salary_currency_check;
+ALTER TABLE jobs ADD CONSTRAINT jobs_salary_currency_check
+  CHECK (salary_currency IS NULL OR salary_currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_salary_bounds_check;
+ALTER TABLE jobs ADD CONSTRAINT jobs_salary_bounds_check
+  CHECK (
+    (salary_min IS NULL OR salary_min >= 0)
+    AND (salary_max IS NULL OR salary_max >= 0)
+    AND (salary_min IS NULL OR salary_max IS NULL OR salary_min <= salary_max)
+  );
+
+-- 2) Best-effort parser for the free-text values
+CREATE OR REPLACE FUNCTION parse_salary_range(
+  input TEXT,
+  OUT salary_min NUMERIC,
+  OUT salary_max NUMERIC,
+  OUT salary_currency TEXT,
+  OUT salary_period TEXT,
+  OUT failure TEXT
+)
+LANGUAGE plpgsql IMMUTABLE AS $$
+DECLARE
+  cleaned TEXT;
+  m TEXT[];
+  nums TEXT[] := '{}';
+  units TEXT[] := '{}';
+  shared_unit TEXT;
+  amounts NUMERIC[] := '{}';
+  unit TEXT;
+  amount NUMERIC;
+  ref NUMERIC;
+BEGIN
+  IF input IS NULL OR btrim(input) = '' THEN
+    failure := 'Empty salary';
+    RETURN;
+  END IF;
+
+  -- Drop thousands separators: "80,000" -> "80000"
+  cleaned := regexp_replace(btrim(input), '(\d),(?=\d{3}\y)', '\1', 'g');
+
+  FOR m IN SELECT regexp_matches(cleaned, '(\d+(?:\.\d+)?)\s*([kKmM])?\y', 'g') LOOP
+    nums := nums || m[1];
+    units := units || lower(coalesce(m[2], ''));
+  END LOOP;
+
+  IF cardinality(nums) = 0 THEN
+    failure := 'No amount found';
+    RETURN;
+  ELSIF cardinality(nums) > 2 THEN
+    failure := 'More than two amounts';
+    RETURN;
+  END IF;
+
+  -- "120-150k": a unit on one bound applies to a bare bound too
+  SELECT u INTO shared_unit FROM unnest(units) AS u WHERE u <> '' LIMIT 1;
+  FOR i IN 1 .. cardinality(nums) LOOP
+    unit := units[i];
+    IF unit = '' AND nums[i]::NUMERIC < 1000 THEN
+      unit := coalesce(shared_unit, '');
+    END IF;
+    amount := nums[i]::NUMERIC * CASE unit WHEN 'k' THEN 1000 WHEN 'm' THEN 1000000 ELSE 1 END;
+    IF amount <= 0 OR amount > 100000000 THEN
+      failure := 'Amount out of range';
+      RETURN;
+    END IF;
+    amounts := amounts || amount;
+  END LOOP;
+
+  salary_min := amounts[1];
+  salary_max := amounts[cardinality(amounts)];
+  IF salary_min > salary_max THEN
+    salary_min := NULL;
+    salary_max := NULL;
+    failure := 'Minimum is greater than maximum';
+    RETURN;
+  END IF;
+
+  IF cardinality(amounts) = 1 THEN
+    IF cleaned ~* '\y(up to|max(imum)?)\y' THEN
+      salary_min := NULL;
+    ELSIF cleaned ~* '\+|\y(from|starting( at)?|min(imum)?)\y' THEN
+      salary_max := NULL;
+    END IF;
+  END IF;
+
+  -- Currency: explicit code, then symbol, then USD
+  salary_currency := (regexp_match(
+    cleaned,
+    '\y(USD|EUR|GBP|CAD|AUD|INR|JPY|CHF|SEK|NOK|DKK|NZD|SGD|HKD|MXN|BRL|CNY|ZAR|PLN|ILS)\y'
+  ))[1];
+  IF salary_currency IS NULL THEN
+    salary_currency := CASE
+      WHEN upper(cleaned) LIKE '%CA$%' OR upper(cleaned) LIKE '%C$%' THEN 'CAD'
+      WHEN upper(cleaned) LIKE '%AU$%' OR upper(cleaned) LIKE '%A$%' THEN 'AUD'
+      WHEN cleaned LIKE '%€%' THEN 'EUR'
+      WHEN cleaned LIKE '%£%' THEN 'GBP'
+      WHEN cleaned LIKE '%¥%' THEN 'JPY'
+      WHEN cleaned LIKE '%₹%' THEN 'INR'
+      ELSE 'USD'
+    END;
+  END IF;
+
+  -- Period: explicit keyword, otherwise small amounts are hourly
+  salary_period := CASE
+    WHEN cleaned ~* '(/\s*h(ou)?r?\y|\yhourly\y|\yper hour\y|\yan hour\y|\yhr\y)' THEN 'hourly'
+    WHEN cleaned ~* '(/\s*mo(nth)?\y|\ymonthly\y|\yper month\y|\ya month\y)' THEN 'monthly'
+    WHEN cleaned ~* '(/\s*y(ea)?r?\y|\yyearly\y|\yannual(ly)?\y|\yper year\y|\ya year\y|\yper annum\y|\yp\.?a\y)' THEN 'yearly'
+    ELSE NULL
+  END;
+  IF salary_period IS NULL THEN
+    ref := coalesce(salary_max, salary_min);
+    salary_period := CASE WHEN ref < 1000 THEN 'hourly' ELSE 'yearly' END;
+  END IF;
+END;
+$$;
+
+-- 3) Report table for values the parser can't read
+CREATE TABLE IF NOT EXISTS job_salary_backfill_issues (
+  job_id UUID PRIMARY KEY REFERENCES jobs(id) ON DELETE CASCADE,
+  salary_range TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE job_salary_backfill_issues ENABLE ROW LEVEL SECURITY;
+-- No policies: only readable with the service role / SQL editor
+
+-- 4) Back-fill jobs that have free text but no structured salary yet
+DO $$
+DECLARE
+  job RECORD;
+  parsed RECORD;
+  filled INT := 0;
+  skipped INT := 0;
+BEGIN
+  FOR job IN
+    SELECT id, salary_range FROM jobs
+    WHERE salary_range IS NOT NULL AND btrim(salary_range) <> ''
+      AND salary_min IS NULL AND salary_max IS NULL
+  LOOP
+    parsed := parse_salary_range(job.salary_range);
+    IF parsed.failure IS NULL THEN
+      UPDATE jobs
+      SET salary_min = parsed.salary_min,
+          salary_max = parsed.salary_max,
+          salary_currency = parsed.salary_currency,
+          salary_period = parsed.salary_period
+      WHERE id = job.id;
+      DELETE FROM job_salary_backfill_issues WHERE job_id = job.id;
+      filled := filled + 1;
+    ELSE
+      INSERT INTO job_salary_backfill_issues (job_id, salary_range, reason)
+      VALUES (job.id, job.salary_range, parsed.failure)
+      ON CONFLICT (job_id) DO UPDATE SET salary_range = EXCLUDED.salary_range, reason = EXCLUDED.reason;
+      RAISE NOTICE 'Could not parse salary for job %: "%" (%)', job.id, job.salary_range, parsed.failure;
+      skipped := skipped + 1;
+    END IF;
+  END LOOP;
+  RAISE NOTICE 'Salary back-fill: % parsed, % need review (see job_salary_backfill_issues)', filled, skipped;
+END;
+$$;
+
+-- Index for salary filters/sorting
+CREATE INDEX IF NOT EXISTS idx_jobs_salary
+ON jobs(salary_currency, salary_period, salary_max);
+
+COMMENT ON COLUMN jobs.salary_min IS 'Lower bound of pay in salary_currency per salary_period; NULL for "up to" ranges';
+COMMENT ON COLUMN jobs.salary_max IS 'Upper bound of pay in salary_currency per salary_period; NULL for open-ended ranges';
+COMMENT ON COLUMN jobs.salary_currency IS 'ISO 4217 currency code';
+COMMENT ON COLUMN jobs.salary_period IS 'Pay period: hourly, monthly or yearly';
+COMMENT ON TABLE job_salary_backfill_issues IS 'Free-text salaries the 009 back-fill could not parse';
+
+-- Verify:
+-- SELECT salary_range, salary_min, salary_max, salary_currency, salary_period FROM jobs LIMIT 20;
+-- SELECT * FROM job_salary_backfill_issues;
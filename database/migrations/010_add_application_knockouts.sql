@@ -0,0 +1,28 @@
+-- =============================================
+-- Migration: Knockout question results on applications
+-- Date: 2025-12-12
+-- =============================================
+
+-- Problem: recruiters can't screen out candidates who fail hard requirements
+-- (e.g. "Are you authorized to work in the US?" = No) without reading every
+-- application.
+--
+-- Approach: supplemental questions can be marked as knockouts in the job's
+-- question definitions. POST /api/applications evaluates them (src/lib/knockouts.ts):
+-- a "reject" knockout creates the application in the job's Rejected stage, a
+-- "flag" knockout sets applications.flagged. The failed questions are kept in
+-- knockout_results so recruiters can see why.
+
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS flagged BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS knockout_results JSONB NULL;
+
+-- Flagged applications for a job, for the recruiter review queue
+CREATE INDEX IF NOT EXISTS idx_applications_job_flagged
+ON applications(job_id)
+WHERE flagged;
+
+COMMENT ON COLUMN applications.flagged IS 'Candidate failed a knockout question configured to flag rather than reject';
+COMMENT ON COLUMN applications.knockout_results IS 'Failed knockout questions: [{question_id, question, answer, action}]';
+
+-- Verify:
+-- SELECT id, status, flagged, knockout_results FROM applications WHERE knockout_results IS NOT NULL LIMIT 20;
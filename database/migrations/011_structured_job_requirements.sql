@@ -0,0 +1,47 @@
+-- =============================================
+-- Migration: Structured job requirements and a supplemental questions column
+-- Date: 2025-12-14
+-- =============================================
+
+-- Problem: jobs.requirements is an opaque JSONB blob. In practice it only carried
+-- the supplemental question definitions, so there was nowhere to record what a
+-- job actually requires (skills, experience, degree, ...) for matching.
+--
+-- Approach: supplemental questions move to their own column, and requirements
+-- holds the typed model from src/lib/job-requirements.ts:
+--   {requiredSkills, niceToHaveSkills, minYearsExperience, degreeLevel,
+--    workAuthorization, employmentType}
+-- Existing rows are moved over below. The API still falls back to
+-- requirements.supplementalQuestions (readJobQuestions) for rows this misses.
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS supplemental_questions JSONB NULL;
+
+-- Move question definitions out of requirements
+UPDATE jobs
+SET supplemental_questions = requirements->'supplementalQuestions'
+WHERE supplemental_questions IS NULL
+  AND jsonb_typeof(requirements->'supplementalQuestions') = 'array';
+
+UPDATE jobs
+SET requirements = requirements - 'supplementalQuestions'
+WHERE requirements ? 'supplementalQuestions';
+
+-- Requirements left empty by the move carry no information
+UPDATE jobs
+SET requirements = NULL
+WHERE requirements = '{}'::jsonb;
+
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_requirements_object;
+ALTER TABLE jobs ADD CONSTRAINT jobs_requirements_object
+  CHECK (requirements IS NULL OR jsonb_typeof(requirements) = 'object');
+
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_supplemental_questions_array;
+ALTER TABLE jobs ADD CONSTRAINT jobs_supplemental_questions_array
+  CHECK (supplemental_questions IS NULL OR jsonb_typeof(supplemental_questions) = 'array');
+
+COMMENT ON COLUMN jobs.requirements IS 'Structured requirements: {requiredSkills, niceToHaveSkills, minYearsExperience, degreeLevel, workAuthorization, employmentType}';
+COMMENT ON COLUMN jobs.supplemental_questions IS 'Supplemental question definitions shown on the apply form (see src/lib/supplemental-questions.ts)';
+
+-- Verify:
+-- SELECT id, requirements, jsonb_array_length(supplemental_questions) AS questions FROM jobs LIMIT 20;
+-- SELECT COUNT(*) FROM jobs WHERE requirements ? 'supplementalQuestions';  -- expect 0
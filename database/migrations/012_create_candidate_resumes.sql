@@ -0,0 +1,100 @@
+-- =============================================
+-- Migration: Resume versions and per-application resume snapshots
+-- Date: 2025-12-15
+-- =============================================
+
+-- Problem: each upload through POST /api/resume overwrote the single resume_*
+-- columns on candidate_profiles and orphaned the previous file in storage.
+-- Candidates couldn't keep tailored resumes ("Backend", "ML"), and replacing a
+-- resume changed what recruiters saw on applications that were already submitted.
+--
+-- Approach: every upload becomes a row in candidate_resumes. The resume_*
+-- columns on candidate_profiles keep describing the default version (the one
+-- one-click apply uses). When applying, the chosen version is copied in storage
+-- to <user_id>/applications/<job_id>/... and applications.resume_url/resume_path
+-- point at that copy, so later renames, deletes or re-uploads don't change it.
+
+CREATE TABLE IF NOT EXISTS candidate_resumes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  candidate_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  label TEXT NOT NULL CHECK (char_length(label) BETWEEN 1 AND 100),
+  storage_path TEXT NOT NULL,
+  url TEXT NOT NULL,
+  original_name TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size_bytes BIGINT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- A candidate's versions, newest first
+CREATE INDEX IF NOT EXISTS idx_candidate_resumes_candidate
+ON candidate_resumes(candidate_id, created_at DESC);
+
+ALTER TABLE candidate_resumes ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Candidates manage their own resume versions
+CREATE POLICY "Users can view own resumes"
+  ON candidate_resumes
+  FOR SELECT
+  USING (auth.uid() = candidate_id);
+
+CREATE POLICY "Users can insert own resumes"
+  ON candidate_resumes
+  FOR INSERT
+  WITH CHECK (auth.uid() = candidate_id);
+
+CREATE POLICY "Users can update own resumes"
+  ON candidate_resumes
+  FOR UPDATE
+  USING (auth.uid() = candidate_id);
+
+CREATE POLICY "Users can delete own resumes"
+  ON candidate_resumes
+  FOR DELETE
+  USING (auth.uid() = candidate_id);
+
+CREATE OR REPLACE FUNCTION update_candidate_resumes_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_candidate_resumes_timestamp
+  BEFORE UPDATE ON candidate_resumes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_candidate_resumes_updated_at();
+
+-- Which version an application was submitted with, and the snapshot it points at
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS resume_id UUID NULL REFERENCES candidate_resumes(id) ON DELETE SET NULL;
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS resume_path TEXT NULL;
+
+-- Back-fill one version per existing profile resume
+INSERT INTO candidate_resumes (candidate_id, label, storage_path, url, original_name, mime_type, size_bytes, created_at, updated_at)
+SELECT
+  p.user_id,
+  'Resume',
+  p.resume_path,
+  p.resume_url,
+  COALESCE(p.resume_original_name, 'resume'),
+  COALESCE(p.resume_mime, 'application/pdf'),
+  COALESCE(p.resume_size, 0),
+  COALESCE(p.resume_updated_at, NOW()),
+  COALESCE(p.resume_updated_at, NOW())
+FROM candidate_profiles p
+WHERE p.resume_path IS NOT NULL
+  AND p.resume_url IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM candidate_resumes r
+    WHERE r.candidate_id = p.user_id AND r.storage_path = p.resume_path
+  );
+
+COMMENT ON TABLE candidate_resumes IS 'Named resume versions; the default is the one whose storage_path matches candidate_profiles.resume_path';
+COMMENT ON COLUMN applications.resume_id IS 'Resume version picked when applying (NULL once that version is deleted)';
+COMMENT ON COLUMN applications.resume_path IS 'Storage path of the resume snapshot submitted with the application; never modified';
+
+-- Verify:
+-- SELECT candidate_id, label, original_name, created_at FROM candidate_resumes ORDER BY created_at DESC LIMIT 20;
+-- SELECT id, resume_id, resume_path FROM applications WHERE resume_path IS NOT NULL LIMIT 20;
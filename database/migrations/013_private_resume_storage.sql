@@ -0,0 +1,61 @@
+-- =============================================
+-- Migration: Private resume storage
+-- Date: 2025-12-16
+-- =============================================
+
+-- Problem: supabase/migrations/20251118195500_resumes-bucket-and-policies.sql
+-- created the "resumes" bucket as public with a public-read policy, and the app
+-- handed out getPublicUrl links, so anyone with a link could download a
+-- candidate's resume or supplemental file answers.
+--
+-- Approach: the bucket is private. Downloads go through
+-- GET /api/resume/[applicationId]/download (candidate or the job's recruiter) and
+-- GET /api/resume/versions/[id]/download (the candidate), which redirect to a
+-- signed URL valid for 60 seconds. Signing runs as the caller, so these policies
+-- decide what each user can read:
+--   - candidates: everything in their own <user_id>/ folder
+--   - recruiters: for applications to their jobs, the submitted resume snapshot,
+--     the candidate's supplemental file answers for that job, and (for
+--     applications from before snapshots) the candidate's profile resume, all
+--     inside the candidate's own folder so a path column pointed elsewhere
+--     grants nothing
+-- resume_url columns keep the object URL as an identifier only.
+
+UPDATE storage.buckets SET public = false WHERE id = 'resumes';
+
+DROP POLICY IF EXISTS "resumes-public-read" ON storage.objects;
+
+DROP POLICY IF EXISTS "resumes-read-own-folder" ON storage.objects;
+CREATE POLICY "resumes-read-own-folder"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'resumes'
+    AND name LIKE auth.uid()::text || '/%'
+  );
+
+DROP POLICY IF EXISTS "resumes-read-applicant-files" ON storage.objects;
+CREATE POLICY "resumes-read-applicant-files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'resumes'
+    AND EXISTS (
+      SELECT 1 FROM applications a
+      JOIN jobs j ON j.id = a.job_id
+      WHERE j.employer_id = auth.uid()
+        -- Only the candidate's own folder, whatever the path columns say
+        AND objects.name LIKE a.candidate_id::text || '/%'
+        AND (
+          objects.name = a.resume_path
+          OR objects.name LIKE a.candidate_id::text || '/attachments/' || a.job_id::text || '/%'
+          OR objects.name = (SELECT p.resume_path FROM candidate_profiles p WHERE p.user_id = a.candidate_id)
+        )
+    )
+  );
+
+-- Verify:
+-- SELECT id, public FROM storage.buckets WHERE id = 'resumes';  -- expect public = false
+-- SELECT policyname, cmd FROM pg_policies WHERE schemaname = 'storage' AND tablename = 'objects' AND policyname LIKE 'resumes-%';
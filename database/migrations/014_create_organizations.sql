@@ -0,0 +1,523 @@
+-- =============================================
+-- Migration: Recruiter organizations, members, roles and invites
+-- Date: 2025-12-17
+-- =============================================
+
+-- Problem: every job belonged to the single recruiter in jobs.employer_id, and
+-- recruiter_profiles.company_name was free text. Colleagues couldn't see each
+-- other's pipelines, and when a recruiter left, their jobs and applicants became
+-- invisible to the rest of the team.
+--
+-- Approach: recruiters belong to one organization with a role (admin,
+-- recruiter, hiring_manager, viewer; see src/lib/organizations.ts). Jobs get an
+-- organization_id and access follows membership; employer_id stays as the
+-- creator. Admins invite colleagues by email; the invite link goes to
+-- /auth/recruiter-signup, which accepts it after sign-up.
+--
+-- Creating an organization and accepting an invite run as SECURITY DEFINER
+-- functions, because the caller isn't a member yet when they run. Policies use
+-- organization_role() so that checking membership doesn't recurse into the
+-- organization_members policies.
+--
+-- The hiring team may update their jobs' applications, but status and stage
+-- changes go through move_application(), which enforces the transition rules
+-- and logs the change; a trigger rejects direct edits of those columns and of
+-- the application's candidate, job and resume.
+--
+-- Every existing recruiter gets an organization named after their company_name
+-- with themselves as admin, and their jobs move into it.
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  -- One organization per recruiter
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE UNIQUE NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('admin', 'recruiter', 'hiring_manager', 'viewer')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_organization
+ON organization_members(organization_id);
+
+CREATE TABLE IF NOT EXISTS organization_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('admin', 'recruiter', 'hiring_manager', 'viewer')),
+  token TEXT UNIQUE NOT NULL,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Pending invites for an organization
+CREATE INDEX IF NOT EXISTS idx_organization_invites_organization
+ON organization_invites(organization_id) WHERE accepted_at IS NULL;
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS organization_id UUID NULL REFERENCES organizations(id) ON DELETE SET NULL;
+
+-- A team's jobs, newest first (GET /api/jobs/recruiter)
+CREATE INDEX IF NOT EXISTS idx_jobs_organization
+ON jobs(organization_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION update_organizations_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_organizations_timestamp
+  BEFORE UPDATE ON organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_organizations_updated_at();
+
+-- =============================================
+-- Functions
+-- =============================================
+
+-- The caller's role in an organization, or NULL when they aren't a member
+CREATE OR REPLACE FUNCTION organization_role(org_id UUID)
+RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT role FROM organization_members WHERE organization_id = org_id AND user_id = auth.uid();
+$$;
+
+-- Create an organization with the caller as its admin. Their existing jobs
+-- without an organization move into it.
+CREATE OR REPLACE FUNCTION create_organization(org_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'UNAUTHORIZED';
+  END IF;
+  IF EXISTS (SELECT 1 FROM organization_members WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'ALREADY_IN_ORGANIZATION';
+  END IF;
+
+  INSERT INTO organizations (name, created_by) VALUES (trim(org_name), auth.uid()) RETURNING id INTO new_id;
+  INSERT INTO organization_members (organization_id, user_id, role) VALUES (new_id, auth.uid(), 'admin');
+  UPDATE jobs SET organization_id = new_id WHERE employer_id = auth.uid() AND organization_id IS NULL;
+  RETURN new_id;
+END;
+$$;
+
+-- What an invite link is for; callable before sign-up. Only pending, unexpired invites.
+CREATE OR REPLACE FUNCTION get_organization_invite(invite_token TEXT)
+RETURNS TABLE (organization_name TEXT, email TEXT, role TEXT, expires_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT o.name, i.email, i.role, i.expires_at
+  FROM organization_invites i
+  JOIN organizations o ON o.id = i.organization_id
+  WHERE i.token = invite_token AND i.accepted_at IS NULL AND i.expires_at > NOW();
+$$;
+
+-- Join the invite's organization. The signed-in email must match the invite.
+CREATE OR REPLACE FUNCTION accept_organization_invite(invite_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  invite organization_invites%ROWTYPE;
+  current_org UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'UNAUTHORIZED';
+  END IF;
+
+  SELECT * INTO invite FROM organization_invites
+  WHERE token = invite_token AND accepted_at IS NULL AND expires_at > NOW()
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'INVITE_NOT_FOUND';
+  END IF;
+  IF lower(invite.email) <> lower(coalesce(auth.jwt() ->> 'email', '')) THEN
+    RAISE EXCEPTION 'INVITE_EMAIL_MISMATCH';
+  END IF;
+
+  SELECT organization_id INTO current_org FROM organization_members WHERE user_id = auth.uid();
+  IF current_org IS NOT NULL AND current_org <> invite.organization_id THEN
+    RAISE EXCEPTION 'ALREADY_IN_ORGANIZATION';
+  END IF;
+  IF current_org IS NULL THEN
+    INSERT INTO organization_members (organization_id, user_id, role)
+    VALUES (invite.organization_id, auth.uid(), invite.role);
+  END IF;
+
+  UPDATE organization_invites SET accepted_at = NOW() WHERE id = invite.id;
+  RETURN invite.organization_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_organization_invite(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_organization(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_organization_invite(TEXT) TO authenticated;
+
+-- =============================================
+-- Policies: organizations, members, invites
+-- =============================================
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read their organization"
+  ON organizations
+  FOR SELECT
+  USING (organization_role(id) IS NOT NULL);
+
+CREATE POLICY "Admins can update their organization"
+  ON organizations
+  FOR UPDATE
+  USING (organization_role(id) = 'admin');
+
+CREATE POLICY "Members can read their organization's members"
+  ON organization_members
+  FOR SELECT
+  USING (organization_role(organization_id) IS NOT NULL);
+
+CREATE POLICY "Admins can change member roles"
+  ON organization_members
+  FOR UPDATE
+  USING (organization_role(organization_id) = 'admin');
+
+-- Policy: Admins remove members; anyone can leave
+CREATE POLICY "Admins can remove members"
+  ON organization_members
+  FOR DELETE
+  USING (organization_role(organization_id) = 'admin' OR user_id = auth.uid());
+
+CREATE POLICY "Admins can read invites"
+  ON organization_invites
+  FOR SELECT
+  USING (organization_role(organization_id) = 'admin');
+
+CREATE POLICY "Admins can create invites"
+  ON organization_invites
+  FOR INSERT
+  WITH CHECK (organization_role(organization_id) = 'admin' AND invited_by = auth.uid());
+
+CREATE POLICY "Admins can revoke invites"
+  ON organization_invites
+  FOR DELETE
+  USING (organization_role(organization_id) = 'admin');
+
+-- Policy: Colleagues see each other's names on the team page
+CREATE POLICY "Organization members can read colleagues' recruiter profiles"
+  ON recruiter_profiles
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members m
+      WHERE m.user_id = recruiter_profiles.user_id
+        AND organization_role(m.organization_id) IS NOT NULL
+    )
+  );
+
+-- =============================================
+-- Policies: jobs and applications follow membership
+-- =============================================
+
+CREATE POLICY "Organization members can read organization jobs"
+  ON jobs
+  FOR SELECT
+  USING (organization_role(organization_id) IS NOT NULL);
+
+CREATE POLICY "Organization admins and recruiters can update organization jobs"
+  ON jobs
+  FOR UPDATE
+  USING (organization_role(organization_id) IN ('admin', 'recruiter'));
+
+-- Restrictive: whatever else allows writing a job, writing an organization's
+-- job also requires an admin or recruiter role in it
+CREATE POLICY "Only admins and recruiters write organization jobs"
+  ON jobs
+  AS RESTRICTIVE
+  FOR INSERT
+  WITH CHECK (organization_id IS NULL OR organization_role(organization_id) IN ('admin', 'recruiter'));
+
+CREATE POLICY "Only admins and recruiters update organization jobs"
+  ON jobs
+  AS RESTRICTIVE
+  FOR UPDATE
+  USING (organization_id IS NULL OR organization_role(organization_id) IN ('admin', 'recruiter'));
+
+CREATE POLICY "Organization members can read applications to organization jobs"
+  ON applications
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM jobs j
+      WHERE j.id = applications.job_id AND organization_role(j.organization_id) IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Hiring team can update applications to organization jobs"
+  ON applications
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM jobs j
+      WHERE j.id = applications.job_id
+        AND organization_role(j.organization_id) IN ('admin', 'recruiter', 'hiring_manager')
+    )
+  );
+
+-- The policy above can't limit columns, so a trigger does: through the API
+-- roles, an application's candidate, job and resume never change, and status
+-- and stage only change through move_application(). SECURITY DEFINER functions
+-- (running as their owner) and the service role are exempt.
+CREATE OR REPLACE FUNCTION guard_application_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') AND (
+    NEW.candidate_id IS DISTINCT FROM OLD.candidate_id
+    OR NEW.job_id IS DISTINCT FROM OLD.job_id
+    OR NEW.resume_url IS DISTINCT FROM OLD.resume_url
+    OR NEW.resume_path IS DISTINCT FROM OLD.resume_path
+    OR NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.stage_id IS DISTINCT FROM OLD.stage_id
+  ) THEN
+    RAISE EXCEPTION 'APPLICATION_READ_ONLY'
+      USING HINT = 'Change status and stage with move_application()';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_application_update ON applications;
+CREATE TRIGGER guard_application_update
+  BEFORE UPDATE ON applications
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_application_update();
+
+-- Whether a role may move an application between stages. Mirrors
+-- STATUS_TRANSITIONS and canMoveToStage() in src/lib/status-transitions.ts;
+-- keep the two in sync.
+CREATE OR REPLACE FUNCTION can_move_application(
+  actor_role TEXT,
+  from_status TEXT,
+  from_stage_id TEXT,
+  to_status TEXT,
+  to_stage_id TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN from_stage_id IS NOT DISTINCT FROM to_stage_id THEN FALSE
+    WHEN from_status = to_status THEN actor_role <> 'candidate' AND from_status NOT IN ('hired', 'rejected')
+    WHEN actor_role = 'candidate' THEN from_status IN ('applied', 'under_review', 'interview', 'offer') AND to_status = 'rejected'
+    ELSE (from_status, to_status) IN (
+      ('applied', 'under_review'), ('applied', 'interview'), ('applied', 'offer'), ('applied', 'rejected'),
+      ('under_review', 'applied'), ('under_review', 'interview'), ('under_review', 'offer'), ('under_review', 'rejected'),
+      ('interview', 'under_review'), ('interview', 'offer'), ('interview', 'rejected'),
+      ('offer', 'interview'), ('offer', 'hired'), ('offer', 'rejected')
+    )
+  END;
+$$;
+
+-- Move an application to a stage of its job's pipeline and log the change.
+-- The job's hiring team acts as recruiter, the applicant as candidate.
+-- expected_status guards against a concurrent change (STATUS_CHANGED).
+CREATE OR REPLACE FUNCTION move_application(
+  app_id UUID,
+  target_stage_id TEXT,
+  expected_status TEXT DEFAULT NULL,
+  move_reason TEXT DEFAULT NULL
+)
+RETURNS SETOF applications
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  app applications%ROWTYPE;
+  job jobs%ROWTYPE;
+  stages JSONB;
+  actor TEXT;
+  current_stage_id TEXT;
+  new_status TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'UNAUTHORIZED';
+  END IF;
+
+  SELECT * INTO app FROM applications WHERE id = app_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'APPLICATION_NOT_FOUND';
+  END IF;
+  SELECT * INTO job FROM jobs WHERE id = app.job_id;
+
+  IF (job.organization_id IS NULL AND job.employer_id = auth.uid())
+    OR organization_role(job.organization_id) IN ('admin', 'recruiter', 'hiring_manager') THEN
+    actor := 'recruiter';
+  ELSIF app.candidate_id = auth.uid() THEN
+    actor := 'candidate';
+  ELSE
+    RAISE EXCEPTION 'FORBIDDEN';
+  END IF;
+
+  IF expected_status IS NOT NULL AND app.status <> expected_status THEN
+    RAISE EXCEPTION 'STATUS_CHANGED';
+  END IF;
+
+  -- Jobs without a pipeline use the default one, whose stage ids are the statuses
+  stages := job.pipeline_stages;
+  IF stages IS NULL OR jsonb_typeof(stages) <> 'array' OR jsonb_array_length(stages) = 0 THEN
+    SELECT jsonb_agg(jsonb_build_object('id', s, 'status', s)) INTO stages
+    FROM unnest(ARRAY['applied', 'under_review', 'interview', 'offer', 'hired', 'rejected']) AS s;
+  END IF;
+
+  SELECT s->>'status' INTO new_status
+  FROM jsonb_array_elements(stages) AS s
+  WHERE s->>'id' = target_stage_id
+  LIMIT 1;
+  IF new_status IS NULL THEN
+    RAISE EXCEPTION 'INVALID_STAGE';
+  END IF;
+
+  -- The current stage as currentStage() finds it: the stored id, else the
+  -- first stage with the application's status
+  SELECT e.s->>'id' INTO current_stage_id
+  FROM jsonb_array_elements(stages) WITH ORDINALITY AS e(s, position)
+  WHERE e.s->>'id' = app.stage_id OR e.s->>'status' = app.status
+  ORDER BY COALESCE(e.s->>'id' = app.stage_id, FALSE) DESC, e.position
+  LIMIT 1;
+
+  IF NOT can_move_application(actor, app.status, current_stage_id, new_status, target_stage_id) THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION';
+  END IF;
+
+  UPDATE applications SET status = new_status, stage_id = target_stage_id WHERE id = app.id;
+
+  INSERT INTO application_status_events
+    (application_id, actor_id, actor_role, from_status, to_status, from_stage_id, to_stage_id, reason)
+  VALUES
+    (app.id, auth.uid(), actor, app.status, new_status, current_stage_id, target_stage_id, NULLIF(move_reason, ''));
+
+  RETURN QUERY SELECT * FROM applications WHERE id = app.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION move_application(UUID, TEXT, TEXT, TEXT) TO authenticated;
+
+CREATE POLICY "Organization members can read applicant profiles"
+  ON candidate_profiles
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM applications a
+      JOIN jobs j ON j.id = a.job_id
+      WHERE a.candidate_id = candidate_profiles.user_id
+        AND organization_role(j.organization_id) IS NOT NULL
+    )
+  );
+
+-- Status history (migration 008) and resume files (migration 013) were
+-- limited to the job's employer_id; extend both to the organization
+
+DROP POLICY IF EXISTS "Participants can read application status events" ON application_status_events;
+CREATE POLICY "Participants can read application status events"
+  ON application_status_events
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM applications a
+      LEFT JOIN jobs j ON j.id = a.job_id
+      WHERE a.id = application_status_events.application_id
+        AND (
+          a.candidate_id = auth.uid()
+          OR j.employer_id = auth.uid()
+          OR organization_role(j.organization_id) IS NOT NULL
+        )
+    )
+  );
+
+DROP POLICY IF EXISTS "Participants can insert own application status events" ON application_status_events;
+CREATE POLICY "Participants can insert own application status events"
+  ON application_status_events
+  FOR INSERT
+  WITH CHECK (
+    actor_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM applications a
+      LEFT JOIN jobs j ON j.id = a.job_id
+      WHERE a.id = application_status_events.application_id
+        AND (
+          a.candidate_id = auth.uid()
+          OR (j.organization_id IS NULL AND j.employer_id = auth.uid())
+          OR organization_role(j.organization_id) IN ('admin', 'recruiter', 'hiring_manager')
+        )
+    )
+  );
+
+DROP POLICY IF EXISTS "resumes-read-applicant-files" ON storage.objects;
+CREATE POLICY "resumes-read-applicant-files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'resumes'
+    AND EXISTS (
+      SELECT 1 FROM applications a
+      JOIN jobs j ON j.id = a.job_id
+      WHERE (
+          (j.organization_id IS NULL AND j.employer_id = auth.uid())
+          OR public.organization_role(j.organization_id) IS NOT NULL
+        )
+        -- Only the candidate's own folder, whatever the path columns say
+        AND objects.name LIKE a.candidate_id::text || '/%'
+        AND (
+          objects.name = a.resume_path
+          OR objects.name LIKE a.candidate_id::text || '/attachments/' || a.job_id::text || '/%'
+          OR objects.name = (SELECT p.resume_path FROM candidate_profiles p WHERE p.user_id = a.candidate_id)
+        )
+    )
+  );
+
+-- =============================================
+-- Back-fill: one organization per existing recruiter
+-- =============================================
+
+DO $$
+DECLARE
+  recruiter RECORD;
+  new_id UUID;
+BEGIN
+  FOR recruiter IN
+    SELECT r.user_id, r.company_name FROM recruiter_profiles r
+    WHERE NOT EXISTS (SELECT 1 FROM organization_members m WHERE m.user_id = r.user_id)
+  LOOP
+    INSERT INTO organizations (name, created_by)
+    VALUES (left(coalesce(nullif(trim(recruiter.company_name), ''), 'My organization'), 100), recruiter.user_id)
+    RETURNING id INTO new_id;
+    INSERT INTO organization_members (organization_id, user_id, role) VALUES (new_id, recruiter.user_id, 'admin');
+    UPDATE jobs SET organization_id = new_id WHERE employer_id = recruiter.user_id AND organization_id IS NULL;
+  END LOOP;
+END $$;
+
+COMMENT ON TABLE organizations IS 'Recruiting team workspaces; jobs belong to an organization';
+COMMENT ON TABLE organization_members IS 'Recruiter membership and role (admin, recruiter, hiring_manager, viewer); one organization per recruiter';
+COMMENT ON TABLE organization_invites IS 'Email invites to join an organization, accepted through accept_organization_invite()';
+COMMENT ON FUNCTION move_application IS 'Move an application to a pipeline stage as its hiring team or candidate; checks the transition and logs it';
+COMMENT ON COLUMN jobs.organization_id IS 'Organization whose members manage the job; NULL on legacy jobs managed by employer_id alone';
+
+-- Verify:
+-- SELECT o.name, m.user_id, m.role FROM organizations o JOIN organization_members m ON m.organization_id = o.id ORDER BY o.name;
+-- SELECT COUNT(*) FROM jobs WHERE organization_id IS NULL AND employer_id IS NOT NULL;  -- expect 0
+-- SELECT policyname, cmd, permissive FROM pg_policies WHERE tablename IN ('jobs', 'applications', 'organization_members');
@@ -0,0 +1,179 @@
+-- =============================================
+-- Migration: Interview scheduling
+-- Date: 2025-12-18
+-- =============================================
+
+-- Problem: moving an application to "Interview" only changed its label. Times
+-- were arranged over email, and neither side got a calendar invite.
+--
+-- Approach: the hiring team publishes interview slots on an application; the
+-- candidate books one from their dashboard and the other open slots are
+-- released. Both sides download an iCalendar (.ics) invite for the booked slot
+-- (src/lib/interviews.ts). Times are stored in UTC and shown in the candidate's
+-- candidate_profiles.timezone.
+--
+-- Candidates can read their slots but not write them; booking runs through the
+-- book_interview() SECURITY DEFINER function so the candidate can only pick a
+-- slot, never move or edit one.
+
+CREATE TABLE IF NOT EXISTS interviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID REFERENCES applications(id) ON DELETE CASCADE NOT NULL,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  location TEXT NULL CHECK (location IS NULL OR char_length(location) <= 200),
+  meeting_url TEXT NULL CHECK (meeting_url IS NULL OR char_length(meeting_url) <= 500),
+  notes TEXT NULL CHECK (notes IS NULL OR char_length(notes) <= 1000),
+  status TEXT NOT NULL DEFAULT 'available' CHECK (status IN ('available', 'booked', 'cancelled')),
+  sequence INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  booked_at TIMESTAMP WITH TIME ZONE NULL,
+  cancelled_at TIMESTAMP WITH TIME ZONE NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CHECK (ends_at > starts_at)
+);
+
+-- Slots for one application, soonest first
+CREATE INDEX IF NOT EXISTS idx_interviews_application
+ON interviews(application_id, starts_at);
+
+-- At most one booked interview per application
+CREATE UNIQUE INDEX IF NOT EXISTS idx_interviews_one_booking
+ON interviews(application_id) WHERE status = 'booked';
+
+CREATE OR REPLACE FUNCTION update_interviews_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_interviews_timestamp
+  BEFORE UPDATE ON interviews
+  FOR EACH ROW
+  EXECUTE FUNCTION update_interviews_updated_at();
+
+-- =============================================
+-- Functions
+-- =============================================
+
+-- Book a slot on one of the caller's applications and release the others
+CREATE OR REPLACE FUNCTION book_interview(interview_id UUID)
+RETURNS SETOF interviews
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  slot interviews%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'UNAUTHORIZED';
+  END IF;
+
+  SELECT i.* INTO slot FROM interviews i
+  JOIN applications a ON a.id = i.application_id
+  WHERE i.id = interview_id AND a.candidate_id = auth.uid()
+  FOR UPDATE OF i;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'INTERVIEW_NOT_FOUND';
+  END IF;
+  IF EXISTS (SELECT 1 FROM interviews WHERE application_id = slot.application_id AND status = 'booked') THEN
+    RAISE EXCEPTION 'INTERVIEW_ALREADY_BOOKED';
+  END IF;
+  IF slot.status <> 'available' OR slot.starts_at <= NOW() THEN
+    RAISE EXCEPTION 'INTERVIEW_UNAVAILABLE';
+  END IF;
+
+  UPDATE interviews SET status = 'cancelled', cancelled_at = NOW()
+  WHERE application_id = slot.application_id AND status = 'available' AND id <> slot.id;
+
+  RETURN QUERY
+  UPDATE interviews SET status = 'booked', booked_at = NOW()
+  WHERE id = slot.id
+  RETURNING *;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION book_interview(UUID) TO authenticated;
+
+-- =============================================
+-- Policies
+-- =============================================
+
+ALTER TABLE interviews ENABLE ROW LEVEL SECURITY;
+
+-- Policy: The candidate and everyone on the job's team can read slots
+CREATE POLICY "Participants can read interviews"
+  ON interviews
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM applications a
+      JOIN jobs j ON j.id = a.job_id
+      WHERE a.id = interviews.application_id
+        AND (
+          a.candidate_id = auth.uid()
+          OR (j.organization_id IS NULL AND j.employer_id = auth.uid())
+          OR organization_role(j.organization_id) IS NOT NULL
+        )
+    )
+  );
+
+-- Policy: The hiring team publishes slots as themselves
+CREATE POLICY "Hiring team can create interviews"
+  ON interviews
+  FOR INSERT
+  WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM applications a
+      JOIN jobs j ON j.id = a.job_id
+      WHERE a.id = interviews.application_id
+        AND (
+          (j.organization_id IS NULL AND j.employer_id = auth.uid())
+          OR organization_role(j.organization_id) IN ('admin', 'recruiter', 'hiring_manager')
+        )
+    )
+  );
+
+CREATE POLICY "Hiring team can update interviews"
+  ON interviews
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM applications a
+      JOIN jobs j ON j.id = a.job_id
+      WHERE a.id = interviews.application_id
+        AND (
+          (j.organization_id IS NULL AND j.employer_id = auth.uid())
+          OR organization_role(j.organization_id) IN ('admin', 'recruiter', 'hiring_manager')
+        )
+    )
+  );
+
+-- Policy: Only slots nobody booked are deleted; booked ones are cancelled so
+-- the candidate can still download the cancellation
+CREATE POLICY "Hiring team can delete unbooked interviews"
+  ON interviews
+  FOR DELETE
+  USING (
+    booked_at IS NULL
+    AND EXISTS (
+      SELECT 1 FROM applications a
+      JOIN jobs j ON j.id = a.job_id
+      WHERE a.id = interviews.application_id
+        AND (
+          (j.organization_id IS NULL AND j.employer_id = auth.uid())
+          OR organization_role(j.organization_id) IN ('admin', 'recruiter', 'hiring_manager')
+        )
+    )
+  );
+
+COMMENT ON TABLE interviews IS 'Interview slots offered on an application; the candidate books one through book_interview()';
+COMMENT ON COLUMN interviews.status IS 'available (offered), booked (picked by the candidate) or cancelled';
+COMMENT ON COLUMN interviews.sequence IS 'iCalendar SEQUENCE for the .ics invite; incremented when a booked interview is cancelled';
+
+-- Verify:
+-- SELECT application_id, starts_at, ends_at, status FROM interviews ORDER BY starts_at DESC LIMIT 20;
+-- SELECT policyname, cmd FROM pg_policies WHERE tablename = 'interviews';
@@ -0,0 +1,134 @@
+-- =============================================
+-- Migration: Structured interview scorecards
+-- Date: 2025-12-19
+-- =============================================
+
+-- Problem: interview feedback lived in chat threads and hallway conversations.
+-- Nothing recorded how each interviewer rated the candidate, and whoever spoke
+-- first anchored everyone else.
+--
+-- Approach: each job lists the competencies interviewers rate
+-- (jobs.scorecard_competencies; NULL uses the defaults in src/lib/scorecards.ts).
+-- Every interviewer fills in one scorecard per interview: a 1-4 rating per
+-- competency, notes and a hire/no-hire recommendation. Drafts are private, and
+-- submitted scorecards are final.
+--
+-- To keep feedback independent, an interviewer only sees colleagues' submitted
+-- scorecards once they have submitted their own on the application. Candidates
+-- never see scorecards: there is no candidate policy.
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS scorecard_competencies JSONB NULL;
+
+CREATE TABLE IF NOT EXISTS scorecards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID REFERENCES applications(id) ON DELETE CASCADE NOT NULL,
+  interview_id UUID NULL REFERENCES interviews(id) ON DELETE SET NULL,
+  interviewer_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  ratings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  notes TEXT NULL CHECK (notes IS NULL OR char_length(notes) <= 5000),
+  recommendation TEXT NULL CHECK (recommendation IN ('strong_no_hire', 'no_hire', 'hire', 'strong_hire')),
+  submitted_at TIMESTAMP WITH TIME ZONE NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  -- A submitted scorecard always has a recommendation
+  CHECK (submitted_at IS NULL OR recommendation IS NOT NULL)
+);
+
+-- One scorecard per interviewer per interview (or per application, without an interview)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scorecards_one_per_interviewer
+ON scorecards(application_id, interviewer_id, interview_id) NULLS NOT DISTINCT;
+
+CREATE OR REPLACE FUNCTION update_scorecards_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_scorecards_timestamp
+  BEFORE UPDATE ON scorecards
+  FOR EACH ROW
+  EXECUTE FUNCTION update_scorecards_updated_at();
+
+-- =============================================
+-- Functions
+-- =============================================
+
+-- Whether the caller has submitted a scorecard on an application. SECURITY
+-- DEFINER so the scorecards SELECT policy can use it without recursing.
+CREATE OR REPLACE FUNCTION has_submitted_scorecard(app_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM scorecards
+    WHERE application_id = app_id AND interviewer_id = auth.uid() AND submitted_at IS NOT NULL
+  );
+$$;
+
+-- =============================================
+-- Policies
+-- =============================================
+
+ALTER TABLE scorecards ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Interviewers see their own scorecards, and colleagues' submitted
+-- ones after submitting their own
+CREATE POLICY "Interviewers can read scorecards"
+  ON scorecards
+  FOR SELECT
+  USING (
+    interviewer_id = auth.uid()
+    OR (
+      submitted_at IS NOT NULL
+      AND has_submitted_scorecard(application_id)
+      AND EXISTS (
+        SELECT 1 FROM applications a
+        JOIN jobs j ON j.id = a.job_id
+        WHERE a.id = scorecards.application_id
+          AND (
+            (j.organization_id IS NULL AND j.employer_id = auth.uid())
+            OR organization_role(j.organization_id) IS NOT NULL
+          )
+      )
+    )
+  );
+
+-- Policy: The hiring team writes scorecards as themselves
+CREATE POLICY "Hiring team can create scorecards"
+  ON scorecards
+  FOR INSERT
+  WITH CHECK (
+    interviewer_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM applications a
+      JOIN jobs j ON j.id = a.job_id
+      WHERE a.id = scorecards.application_id
+        AND (
+          (j.organization_id IS NULL AND j.employer_id = auth.uid())
+          OR organization_role(j.organization_id) IN ('admin', 'recruiter', 'hiring_manager')
+        )
+    )
+  );
+
+-- Policy: Only drafts can change, and only by their author
+CREATE POLICY "Interviewers can update their draft scorecards"
+  ON scorecards
+  FOR UPDATE
+  USING (interviewer_id = auth.uid() AND submitted_at IS NULL)
+  WITH CHECK (interviewer_id = auth.uid());
+
+CREATE POLICY "Interviewers can delete their draft scorecards"
+  ON scorecards
+  FOR DELETE
+  USING (interviewer_id = auth.uid() AND submitted_at IS NULL);
+
+COMMENT ON COLUMN jobs.scorecard_competencies IS 'Competencies interviewers rate [{id, name, description?}]; NULL uses the default competencies';
+COMMENT ON TABLE scorecards IS 'Interview feedback: per-competency 1-4 ratings, notes and a hire recommendation; hidden from candidates';
+COMMENT ON COLUMN scorecards.ratings IS 'Competency id -> rating from 1 (strong no) to 4 (strong yes)';
+COMMENT ON COLUMN scorecards.submitted_at IS 'NULL while a draft; submitted scorecards are final and unlock colleagues'' scorecards';
+
+-- Verify:
+-- SELECT application_id, interviewer_id, recommendation, submitted_at FROM scorecards ORDER BY created_at DESC LIMIT 20;
+-- SELECT policyname, cmd FROM pg_policies WHERE tablename = 'scorecards';
@@ -0,0 +1,146 @@
+-- =============================================
+-- Migration: Private recruiter notes on applications
+-- Date: 2025-12-22
+-- =============================================
+
+-- Problem: the application page had nowhere to write anything down, so the
+-- hiring team kept notes about candidates in spreadsheets that drifted out of
+-- sync and couldn't be tied to an application.
+--
+-- Approach: application_notes holds threaded markdown notes. Top-level notes
+-- start a thread and replies point at them through parent_id (one level deep).
+-- @mentions are stored in the body as @[Name](user-id) and copied to
+-- mentioned_user_ids so they can be queried.
+--
+-- Notes are never hard-deleted. Editing or deleting a note copies the previous
+-- body to application_note_revisions (from a trigger, so history can't be
+-- skipped), and deleting sets deleted_at.
+--
+-- Anyone on the job's hiring team can read and write notes, matching who can
+-- view the application. Candidates never see notes: there is no candidate policy.
+
+CREATE TABLE IF NOT EXISTS application_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID REFERENCES applications(id) ON DELETE CASCADE NOT NULL,
+  parent_id UUID NULL REFERENCES application_notes(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 10000),
+  mentioned_user_ids UUID[] NOT NULL DEFAULT '{}',
+  edited_at TIMESTAMP WITH TIME ZONE NULL,
+  deleted_at TIMESTAMP WITH TIME ZONE NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_application_notes_application
+ON application_notes(application_id, created_at);
+
+-- "Notes that mention me"
+CREATE INDEX IF NOT EXISTS idx_application_notes_mentions
+ON application_notes USING GIN (mentioned_user_ids);
+
+CREATE TABLE IF NOT EXISTS application_note_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id UUID REFERENCES application_notes(id) ON DELETE CASCADE NOT NULL,
+  body TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('edited', 'deleted')),
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_application_note_revisions_note
+ON application_note_revisions(note_id, created_at);
+
+-- =============================================
+-- Functions
+-- =============================================
+
+-- Keeps the previous body of an edited or deleted note. SECURITY DEFINER so
+-- revisions can be written without an INSERT policy on the revisions table.
+CREATE OR REPLACE FUNCTION record_application_note_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL THEN
+    INSERT INTO application_note_revisions (note_id, body, action, changed_by)
+    VALUES (OLD.id, OLD.body, 'deleted', auth.uid());
+  ELSIF NEW.body IS DISTINCT FROM OLD.body THEN
+    INSERT INTO application_note_revisions (note_id, body, action, changed_by)
+    VALUES (OLD.id, OLD.body, 'edited', auth.uid());
+    NEW.edited_at = NOW();
+  END IF;
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_application_note_revision
+  BEFORE UPDATE ON application_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION record_application_note_revision();
+
+-- Whether the caller is on the hiring team of an application's job
+CREATE OR REPLACE FUNCTION is_application_team_member(app_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM applications a
+    JOIN jobs j ON j.id = a.job_id
+    WHERE a.id = app_id
+      AND (
+        (j.organization_id IS NULL AND j.employer_id = auth.uid())
+        OR organization_role(j.organization_id) IS NOT NULL
+      )
+  );
+$$;
+
+-- =============================================
+-- Policies
+-- =============================================
+
+ALTER TABLE application_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE application_note_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: The hiring team reads every note on the application, including deleted ones
+CREATE POLICY "Hiring team can read application notes"
+  ON application_notes
+  FOR SELECT
+  USING (is_application_team_member(application_id));
+
+-- Policy: The hiring team writes notes as themselves
+CREATE POLICY "Hiring team can create application notes"
+  ON application_notes
+  FOR INSERT
+  WITH CHECK (author_id = auth.uid() AND is_application_team_member(application_id));
+
+-- Policy: Authors edit and delete (soft) their own notes. There is no DELETE
+-- policy: removing a note sets deleted_at so its history survives.
+CREATE POLICY "Authors can update their application notes"
+  ON application_notes
+  FOR UPDATE
+  USING (author_id = auth.uid() AND deleted_at IS NULL)
+  WITH CHECK (author_id = auth.uid());
+
+CREATE POLICY "Hiring team can read application note history"
+  ON application_note_revisions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM application_notes n
+      WHERE n.id = application_note_revisions.note_id
+        AND is_application_team_member(n.application_id)
+    )
+  );
+
+COMMENT ON TABLE application_notes IS 'Internal hiring-team notes on an application (markdown); never visible to candidates';
+COMMENT ON COLUMN application_notes.parent_id IS 'Top-level note this replies to; NULL starts a thread';
+COMMENT ON COLUMN application_notes.mentioned_user_ids IS 'Teammates @mentioned in the body as @[Name](user-id)';
+COMMENT ON COLUMN application_notes.deleted_at IS 'Set when the author deletes the note; the body is kept in application_note_revisions';
+COMMENT ON TABLE application_note_revisions IS 'Previous bodies of edited and deleted application notes, written by trigger';
+
+-- Verify:
+-- SELECT application_id, author_id, parent_id, edited_at, deleted_at FROM application_notes ORDER BY created_at DESC LIMIT 20;
+-- SELECT note_id, action, changed_by, created_at FROM application_note_revisions ORDER BY created_at DESC LIMIT 20;
+-- SELECT policyname, cmd FROM pg_policies WHERE tablename IN ('application_notes', 'application_note_revisions');
\ No newline at end of file
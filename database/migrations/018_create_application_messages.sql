@@ -0,0 +1,150 @@
+-- =============================================
+-- Migration: Candidate-recruiter messages per application
+-- Date: 2025-12-23
+-- =============================================
+
+-- Problem: candidates and recruiters had no way to talk inside the app. The
+-- only channel was the email address on candidate_profiles, so conversations
+-- about an application lived in personal inboxes nobody else on the team saw.
+--
+-- Approach: every application has one message thread between the candidate and
+-- the job's hiring team (the job's creator for legacy jobs, otherwise the
+-- organization's members). Messages are immutable. Attachments go through the
+-- resume upload checks and are stored in the private "resumes" bucket under the
+-- sender's folder (<user_id>/messages/<application_id>/...); the storage policy
+-- below lets everyone on the thread read them.
+--
+-- application_message_reads keeps how far each participant has read a thread.
+-- It drives read receipts (the other side's last_read_at) and the unread counts
+-- from unread_message_counts().
+
+CREATE TABLE IF NOT EXISTS application_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID REFERENCES applications(id) ON DELETE CASCADE NOT NULL,
+  sender_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  sender_role TEXT NOT NULL CHECK (sender_role IN ('candidate', 'recruiter')),
+  body TEXT NOT NULL DEFAULT '' CHECK (char_length(body) <= 5000),
+  attachment_path TEXT NULL,
+  attachment_name TEXT NULL,
+  attachment_mime TEXT NULL,
+  attachment_size INTEGER NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  -- Every message says something or carries a file
+  CHECK (char_length(body) > 0 OR attachment_path IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_application_messages_application
+ON application_messages(application_id, created_at);
+
+CREATE TABLE IF NOT EXISTS application_message_reads (
+  application_id UUID REFERENCES applications(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  last_read_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (application_id, user_id)
+);
+
+-- =============================================
+-- Functions
+-- =============================================
+
+-- Whether the caller is on an application's message thread: the candidate or
+-- the job's hiring team (is_application_team_member, migration 017)
+CREATE OR REPLACE FUNCTION is_application_participant(app_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM applications WHERE id = app_id AND candidate_id = auth.uid())
+    OR is_application_team_member(app_id);
+$$;
+
+-- Unread messages per thread for the caller: messages from the other side
+-- (the team for candidates, the candidate for the team) newer than the
+-- caller's last read. Runs as the caller, so RLS limits it to their threads.
+CREATE OR REPLACE FUNCTION unread_message_counts()
+RETURNS TABLE (application_id UUID, unread BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT m.application_id, COUNT(*)
+  FROM application_messages m
+  JOIN applications a ON a.id = m.application_id
+  LEFT JOIN application_message_reads r
+    ON r.application_id = m.application_id AND r.user_id = auth.uid()
+  WHERE (a.candidate_id = auth.uid()) = (m.sender_role = 'recruiter')
+    AND (r.last_read_at IS NULL OR m.created_at > r.last_read_at)
+  GROUP BY m.application_id;
+$$;
+
+-- =============================================
+-- Policies
+-- =============================================
+
+ALTER TABLE application_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE application_message_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can read application messages"
+  ON application_messages
+  FOR SELECT
+  USING (is_application_participant(application_id));
+
+-- Policy: Participants post as themselves, on their own side of the thread,
+-- with attachments only from their own upload folder for this application
+-- (the read policy below trusts attachment_path). There are no UPDATE or
+-- DELETE policies: messages are permanent.
+CREATE POLICY "Participants can send application messages"
+  ON application_messages
+  FOR INSERT
+  WITH CHECK (
+    sender_id = auth.uid()
+    AND (
+      (sender_role = 'candidate' AND EXISTS (
+        SELECT 1 FROM applications a WHERE a.id = application_messages.application_id AND a.candidate_id = auth.uid()
+      ))
+      OR (sender_role = 'recruiter' AND is_application_team_member(application_id))
+    )
+    AND (
+      attachment_path IS NULL
+      OR attachment_path LIKE auth.uid()::text || '/messages/' || application_id::text || '/%'
+    )
+  );
+
+-- Policy: Everyone on the thread sees how far the others have read (read receipts)
+CREATE POLICY "Participants can read message receipts"
+  ON application_message_reads
+  FOR SELECT
+  USING (is_application_participant(application_id));
+
+CREATE POLICY "Participants can record their own reads"
+  ON application_message_reads
+  FOR INSERT
+  WITH CHECK (user_id = auth.uid() AND is_application_participant(application_id));
+
+CREATE POLICY "Participants can update their own reads"
+  ON application_message_reads
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Policy: Message attachments are readable by everyone on the thread
+DROP POLICY IF EXISTS "resumes-read-message-attachments" ON storage.objects;
+CREATE POLICY "resumes-read-message-attachments"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'resumes'
+    AND EXISTS (
+      SELECT 1 FROM public.application_messages m
+      WHERE m.attachment_path = objects.name
+        AND public.is_application_participant(m.application_id)
+    )
+  );
+
+COMMENT ON TABLE application_messages IS 'Messages between a candidate and the job''s hiring team, one thread per application';
+COMMENT ON COLUMN application_messages.sender_role IS 'Which side of the thread sent the message: candidate or recruiter (any hiring team member)';
+COMMENT ON COLUMN application_messages.attachment_path IS 'Object in the private resumes bucket, checked like a resume upload';
+COMMENT ON TABLE application_message_reads IS 'How far each participant has read an application''s thread; drives read receipts and unread counts';
+
+-- Verify:
+-- SELECT application_id, sender_role, left(body, 40), attachment_name, created_at FROM application_messages ORDER BY created_at DESC LIMIT 20;
+-- SELECT * FROM unread_message_counts();  -- as a signed-in user
+-- SELECT policyname, cmd FROM pg_policies WHERE tablename IN ('application_messages', 'application_message_reads');
\ No newline at end of file
@@ -0,0 +1,265 @@
+-- =============================================
+-- Migration: Offers with compensation, expiry and candidate response
+-- Date: 2025-12-24
+-- =============================================
+
+-- Problem: the Offer status carried no data. What was offered, when it starts
+-- and when it lapses lived outside the app, and the only deadline recruiters
+-- saw was candidate_profiles.offer_deadline: one profile-wide date that can't
+-- be tied to any particular offer. Candidates couldn't answer an offer in the
+-- app either; a recruiter had to move the application to Hired or Rejected.
+--
+-- Approach: an offers row per offer extended on an application, with the
+-- compensation, start date, expiry and an optional letter (checked like a
+-- resume upload and stored in the private "resumes" bucket). An application has
+-- at most one open (extended) offer; withdrawn and answered offers stay as
+-- history. Expiry is not a stored status: an extended offer past expires_at is
+-- expired.
+--
+-- The candidate answers through respond_to_offer(), which records the answer
+-- and moves the application to hired or rejected in one transaction, so a
+-- candidate can accept an offer without being able to set their own status.
+-- The hiring team's policies only allow open or withdrawn offers with no
+-- answer, so nobody else can record one.
+-- competing_offer_deadlines() lets the hiring team see when the candidate's
+-- other open offers in the app expire, without revealing who made them.
+
+CREATE TABLE IF NOT EXISTS offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID REFERENCES applications(id) ON DELETE CASCADE NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'extended' CHECK (status IN ('extended', 'accepted', 'declined', 'withdrawn')),
+  salary_amount NUMERIC(12, 2) NOT NULL CHECK (salary_amount > 0),
+  salary_currency TEXT NOT NULL DEFAULT 'USD' CHECK (salary_currency ~ '^[A-Z]{3}$'),
+  salary_period TEXT NOT NULL DEFAULT 'yearly' CHECK (salary_period IN ('hourly', 'monthly', 'yearly')),
+  signing_bonus NUMERIC(12, 2) NULL CHECK (signing_bonus IS NULL OR signing_bonus >= 0),
+  equity TEXT NULL CHECK (equity IS NULL OR char_length(equity) <= 200),
+  start_date DATE NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  message TEXT NULL CHECK (message IS NULL OR char_length(message) <= 2000),
+  letter_path TEXT NULL,
+  letter_name TEXT NULL,
+  letter_mime TEXT NULL,
+  letter_size INTEGER NULL,
+  responded_at TIMESTAMP WITH TIME ZONE NULL,
+  response_note TEXT NULL CHECK (response_note IS NULL OR char_length(response_note) <= 500),
+  withdrawn_at TIMESTAMP WITH TIME ZONE NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Offers for one application, newest first
+CREATE INDEX IF NOT EXISTS idx_offers_application
+ON offers(application_id, created_at DESC);
+
+-- At most one open offer per application
+CREATE UNIQUE INDEX IF NOT EXISTS idx_offers_one_open
+ON offers(application_id) WHERE status = 'extended';
+
+CREATE OR REPLACE FUNCTION update_offers_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_offers_timestamp
+  BEFORE UPDATE ON offers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_offers_updated_at();
+
+-- =============================================
+-- Functions
+-- =============================================
+
+-- Accept or decline an open offer on one of the caller's applications. The
+-- application moves from offer to hired (accept) or rejected (decline), into
+-- target_stage_id from the job's pipeline, and the move is logged in
+-- application_status_events as the candidate's. target_stage_id must be a
+-- stage of the job with that outcome (NULL only when the job has none), so a
+-- candidate calling this directly can't put themselves in any other stage.
+CREATE OR REPLACE FUNCTION respond_to_offer(
+  offer_id UUID,
+  accept BOOLEAN,
+  target_stage_id TEXT,
+  note TEXT DEFAULT NULL
+)
+RETURNS SETOF offers
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  target offers%ROWTYPE;
+  app applications%ROWTYPE;
+  next_status TEXT := CASE WHEN accept THEN 'hired' ELSE 'rejected' END;
+  stages JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'UNAUTHORIZED';
+  END IF;
+
+  SELECT o.* INTO target FROM offers o
+  JOIN applications a ON a.id = o.application_id
+  WHERE o.id = offer_id AND a.candidate_id = auth.uid()
+  FOR UPDATE OF o;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'OFFER_NOT_FOUND';
+  END IF;
+  IF target.status <> 'extended' THEN
+    RAISE EXCEPTION 'OFFER_NOT_OPEN';
+  END IF;
+  IF target.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'OFFER_EXPIRED';
+  END IF;
+
+  SELECT * INTO app FROM applications WHERE id = target.application_id FOR UPDATE;
+  IF app.status <> 'offer' THEN
+    RAISE EXCEPTION 'APPLICATION_NOT_AT_OFFER';
+  END IF;
+
+  -- Jobs without a pipeline use the default one, whose stage ids are the statuses
+  SELECT pipeline_stages INTO stages FROM jobs WHERE id = app.job_id;
+  IF stages IS NULL OR jsonb_typeof(stages) <> 'array' THEN
+    stages := jsonb_build_array(jsonb_build_object('id', next_status, 'status', next_status));
+  END IF;
+  IF CASE
+    WHEN target_stage_id IS NULL THEN
+      EXISTS (SELECT 1 FROM jsonb_array_elements(stages) s WHERE s->>'status' = next_status)
+    ELSE
+      NOT EXISTS (SELECT 1 FROM jsonb_array_elements(stages) s WHERE s->>'id' = target_stage_id AND s->>'status' = next_status)
+  END THEN
+    RAISE EXCEPTION 'INVALID_STAGE';
+  END IF;
+
+  UPDATE applications
+  SET status = next_status, stage_id = target_stage_id
+  WHERE id = app.id;
+
+  INSERT INTO application_status_events
+    (application_id, actor_id, actor_role, from_status, to_status, from_stage_id, to_stage_id, reason)
+  VALUES
+    (app.id, auth.uid(), 'candidate', app.status, next_status, app.stage_id, target_stage_id,
+     CASE WHEN accept THEN 'Accepted offer' ELSE COALESCE(NULLIF(note, ''), 'Declined offer') END);
+
+  RETURN QUERY
+  UPDATE offers
+  SET status = CASE WHEN accept THEN 'accepted' ELSE 'declined' END,
+      responded_at = NOW(),
+      response_note = NULLIF(note, '')
+  WHERE id = target.id
+  RETURNING *;
+END;
+$$;
+
+-- When the candidate's other open offers in the app expire, for the hiring team
+-- of one of their applications. Only the timestamps are returned.
+CREATE OR REPLACE FUNCTION competing_offer_deadlines(app_id UUID)
+RETURNS SETOF TIMESTAMP WITH TIME ZONE
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT o.expires_at
+  FROM applications a
+  JOIN applications other ON other.candidate_id = a.candidate_id AND other.id <> a.id
+  JOIN offers o ON o.application_id = other.id
+  WHERE a.id = app_id
+    AND is_application_team_member(app_id)
+    AND o.status = 'extended'
+    AND o.expires_at > NOW()
+  ORDER BY o.expires_at;
+$$;
+
+-- =============================================
+-- Policies
+-- =============================================
+
+ALTER TABLE offers ENABLE ROW LEVEL SECURITY;
+
+-- Policy: The candidate and the job's hiring team see an application's offers
+CREATE POLICY "Participants can read offers"
+  ON offers
+  FOR SELECT
+  USING (is_application_participant(application_id));
+
+-- Policy: The hiring team (not viewers) extends and withdraws offers. Offers
+-- they write are open or withdrawn and unanswered: candidates answer only
+-- through respond_to_offer(). Letters must come from an upload folder for this
+-- application's offers, since the letter read policy trusts letter_path.
+-- There is no DELETE policy: offers are history.
+CREATE POLICY "Hiring team can extend offers"
+  ON offers
+  FOR INSERT
+  WITH CHECK (
+    created_by = auth.uid()
+    AND status IN ('extended', 'withdrawn')
+    AND responded_at IS NULL
+    AND response_note IS NULL
+    AND (letter_path IS NULL OR letter_path LIKE auth.uid()::text || '/offers/' || application_id::text || '/%')
+    AND EXISTS (
+      SELECT 1 FROM applications a
+      JOIN jobs j ON j.id = a.job_id
+      WHERE a.id = offers.application_id
+        AND (
+          (j.organization_id IS NULL AND j.employer_id = auth.uid())
+          OR organization_role(j.organization_id) IN ('admin', 'recruiter', 'hiring_manager')
+        )
+    )
+  );
+
+-- Policy: Only open offers can be edited or withdrawn; an answered one stays answered
+CREATE POLICY "Hiring team can update offers"
+  ON offers
+  FOR UPDATE
+  USING (
+    offers.status = 'extended'
+    AND EXISTS (
+      SELECT 1 FROM applications a
+      JOIN jobs j ON j.id = a.job_id
+      WHERE a.id = offers.application_id
+        AND (
+          (j.organization_id IS NULL AND j.employer_id = auth.uid())
+          OR organization_role(j.organization_id) IN ('admin', 'recruiter', 'hiring_manager')
+        )
+    )
+  )
+  WITH CHECK (
+    status IN ('extended', 'withdrawn')
+    AND responded_at IS NULL
+    AND response_note IS NULL
+    -- Any uploader's offers folder for this application (created_by may since be NULL)
+    AND (letter_path IS NULL OR (split_part(letter_path, '/', 2) = 'offers' AND split_part(letter_path, '/', 3) = application_id::text))
+    AND EXISTS (
+      SELECT 1 FROM applications a
+      JOIN jobs j ON j.id = a.job_id
+      WHERE a.id = offers.application_id
+        AND (
+          (j.organization_id IS NULL AND j.employer_id = auth.uid())
+          OR organization_role(j.organization_id) IN ('admin', 'recruiter', 'hiring_manager')
+        )
+    )
+  );
+
+-- Policy: Offer letters are readable by the candidate and the hiring team
+DROP POLICY IF EXISTS "resumes-read-offer-letters" ON storage.objects;
+CREATE POLICY "resumes-read-offer-letters"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'resumes'
+    AND EXISTS (
+      SELECT 1 FROM public.offers o
+      WHERE o.letter_path = objects.name
+        AND public.is_application_participant(o.application_id)
+    )
+  );
+
+COMMENT ON TABLE offers IS 'Offers extended on applications: compensation, start date, expiry, letter and the candidate''s answer';
+COMMENT ON COLUMN offers.status IS 'extended (open), accepted, declined or withdrawn. An extended offer past expires_at is expired.';
+COMMENT ON COLUMN offers.letter_path IS 'Offer letter in the private resumes bucket, checked like a resume upload';
+COMMENT ON FUNCTION respond_to_offer IS 'Candidate accepts or declines an open offer; moves the application to hired or rejected';
+COMMENT ON FUNCTION competing_offer_deadlines IS 'Expiry of the candidate''s other open offers, for the hiring team of one application';
+
+-- Verify:
+-- SELECT application_id, status, salary_amount, salary_currency, start_date, expires_at FROM offers ORDER BY created_at DESC LIMIT 20;
+-- SELECT * FROM competing_offer_deadlines('<application id>');  -- as a hiring team member
+-- SELECT policyname, cmd FROM pg_policies WHERE tablename = 'offers';
\ No newline at end of file
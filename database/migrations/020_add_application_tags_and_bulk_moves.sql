@@ -0,0 +1,116 @@
+-- =============================================
+-- Migration: Application tags and bulk stage moves
+-- Date: 2025-12-26
+-- =============================================
+
+-- Problem: recruiters changed applications one row at a time, with a PATCH per
+-- row from the dashboard and job pages. Moving or rejecting fifty applicants
+-- meant fifty requests, and a failure halfway left some rows moved, some not
+-- and nothing recording which. There was also no way to label applicants
+-- ("referral", "strong portfolio") for later.
+--
+-- Approach: application_tags holds the hiring team's labels, one row per
+-- (application, tag). Tags are private to the team: they live in their own
+-- table rather than on applications, which the candidate can read.
+--
+-- POST /api/applications/bulk checks every row (role on the job, allowed
+-- transition) and sends the moves that pass to bulk_move_applications() in one
+-- call. The function applies them in a single transaction through
+-- move_application() (migration 014), which checks the caller's role, the
+-- stage and the transition again and logs the event from the stored status, so
+-- calling the function directly can't skip the rules. For templated
+-- rejections it also posts the message to the candidate's thread. A move whose
+-- status changed in the meantime is skipped and reported; any other error
+-- rolls the whole batch back. It runs as the caller, so the message policies
+-- still apply.
+
+CREATE TABLE IF NOT EXISTS application_tags (
+  application_id UUID REFERENCES applications(id) ON DELETE CASCADE NOT NULL,
+  tag TEXT NOT NULL CHECK (char_length(tag) BETWEEN 1 AND 30),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (application_id, tag)
+);
+
+-- Applications with a tag
+CREATE INDEX IF NOT EXISTS idx_application_tags_tag
+ON application_tags(tag);
+
+-- =============================================
+-- Functions
+-- =============================================
+
+-- Apply stage moves in one transaction. moves is a JSON array of
+-- { application_id, from_status, to_stage_id, reason, message }, where
+-- from_status is the status the caller checked; returns whether each one was
+-- applied.
+CREATE OR REPLACE FUNCTION bulk_move_applications(moves JSONB)
+RETURNS TABLE (app_id UUID, applied BOOLEAN)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  move RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'UNAUTHORIZED';
+  END IF;
+
+  FOR move IN
+    SELECT * FROM jsonb_to_recordset(moves) AS m(
+      application_id UUID,
+      from_status TEXT,
+      to_stage_id TEXT,
+      reason TEXT,
+      message TEXT
+    )
+  LOOP
+    BEGIN
+      PERFORM move_application(move.application_id, move.to_stage_id, move.from_status, move.reason);
+      applied := TRUE;
+    EXCEPTION WHEN raise_exception THEN
+      IF SQLERRM <> 'STATUS_CHANGED' THEN
+        RAISE;
+      END IF;
+      applied := FALSE;
+    END;
+
+    IF applied AND COALESCE(move.message, '') <> '' THEN
+      INSERT INTO application_messages (application_id, sender_id, sender_role, body)
+      VALUES (move.application_id, auth.uid(), 'recruiter', move.message);
+    END IF;
+
+    app_id := move.application_id;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- =============================================
+-- Policies
+-- =============================================
+
+ALTER TABLE application_tags ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Tags are visible to the job's hiring team only, never the candidate
+CREATE POLICY "Hiring team can read application tags"
+  ON application_tags
+  FOR SELECT
+  USING (is_application_team_member(application_id));
+
+CREATE POLICY "Hiring team can tag applications"
+  ON application_tags
+  FOR INSERT
+  WITH CHECK (created_by = auth.uid() AND is_application_team_member(application_id));
+
+CREATE POLICY "Hiring team can remove application tags"
+  ON application_tags
+  FOR DELETE
+  USING (is_application_team_member(application_id));
+
+COMMENT ON TABLE application_tags IS 'Hiring team labels on applications; not visible to candidates';
+COMMENT ON FUNCTION bulk_move_applications IS 'Apply stage moves through move_application() in one transaction; skips rows whose status changed';
+
+-- Verify:
+-- SELECT tag, COUNT(*) FROM application_tags GROUP BY tag ORDER BY 2 DESC;
+-- SELECT * FROM bulk_move_applications('[]'::jsonb);  -- as a signed-in recruiter, returns no rows
+-- SELECT policyname, cmd FROM pg_policies WHERE tablename = 'application_tags';
\ No newline at end of file
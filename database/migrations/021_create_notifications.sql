@@ -0,0 +1,170 @@
+-- =============================================
+-- Migration: Email notifications, preferences and outbox
+-- Date: 2025-12-28
+-- =============================================
+
+-- Problem: the app never emailed anyone. Candidates found out about status
+-- changes and booked interviews only by opening their dashboard, recruiters
+-- only saw new applications when they reloaded the job page, and nobody was
+-- warned before a job stopped taking applications.
+--
+-- Approach: the API sends typed notifications (application received, status
+-- changed, interview scheduled, job closing soon, job closed) through a pluggable email
+-- transport. The default transport queues each rendered email in email_outbox;
+-- a delivery worker or email provider integration reads queued rows with the
+-- service role. Local development can write emails to files instead
+-- (EMAIL_TRANSPORT=file).
+--
+-- notification_preferences holds opt-outs, one row per (user, notification
+-- type). A missing row means the email is on.
+--
+-- Recipients' addresses live in auth.users, which API routes can't read.
+-- notification_recipient() returns the address and whether that notification
+-- is on, but only for people the caller works with on an application: the
+-- hiring team and their candidates, in both directions. The outbox insert
+-- policy uses it too, so a signed-in user can't queue mail to arbitrary
+-- addresses.
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  event TEXT NOT NULL CHECK (event IN ('application_received', 'status_changed', 'interview_scheduled', 'job_closing_soon', 'job_closed')),
+  email_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (user_id, event)
+);
+
+CREATE TABLE IF NOT EXISTS email_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  recipient_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  to_address TEXT NOT NULL,
+  event TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  text_body TEXT NOT NULL,
+  html_body TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT NULL,
+  -- Who triggered the email; NULL for scheduled jobs
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  sent_at TIMESTAMP WITH TIME ZONE NULL
+);
+
+-- Delivery picks up the oldest queued emails first
+CREATE INDEX IF NOT EXISTS idx_email_outbox_queued
+ON email_outbox(created_at)
+WHERE status = 'queued';
+
+-- The closing-soon reminder goes out once per job
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS closing_soon_notified_at TIMESTAMP WITH TIME ZONE NULL;
+
+-- =============================================
+-- Functions
+-- =============================================
+
+-- Email address of someone the caller may notify, and whether they want this
+-- notification. Returns no row for anyone else.
+CREATE OR REPLACE FUNCTION notification_recipient(recipient UUID, notification_event TEXT)
+RETURNS TABLE (email TEXT, enabled BOOLEAN)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT u.email::TEXT, COALESCE(p.email_enabled, TRUE)
+  FROM auth.users u
+  LEFT JOIN notification_preferences p ON p.user_id = u.id AND p.event = notification_event
+  WHERE u.id = recipient
+    AND (
+      recipient = auth.uid()
+      OR auth.role() = 'service_role'
+      -- The hiring team notifying one of their candidates
+      OR EXISTS (
+        SELECT 1 FROM applications a
+        WHERE a.candidate_id = recipient AND is_application_team_member(a.id)
+      )
+      -- A candidate notifying the hiring team of a job they applied to
+      OR EXISTS (
+        SELECT 1 FROM applications a
+        JOIN jobs j ON j.id = a.job_id
+        WHERE a.candidate_id = auth.uid()
+          AND (
+            (j.organization_id IS NULL AND j.employer_id = recipient)
+            OR EXISTS (
+              SELECT 1 FROM organization_members m
+              WHERE m.organization_id = j.organization_id AND m.user_id = recipient
+            )
+          )
+      )
+    );
+$$;
+
+-- Members of a job's organization, for choosing who on the team to notify.
+-- Candidates can't read organization_members, so this answers for a job the
+-- caller applied to or works on. Legacy jobs have no members; callers notify
+-- their creator.
+CREATE OR REPLACE FUNCTION job_hiring_team(target_job UUID)
+RETURNS TABLE (user_id UUID, role TEXT)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT m.user_id, m.role
+  FROM jobs j
+  JOIN organization_members m ON m.organization_id = j.organization_id
+  WHERE j.id = target_job
+    AND (
+      auth.role() = 'service_role'
+      OR organization_role(j.organization_id) IS NOT NULL
+      OR EXISTS (
+        SELECT 1 FROM applications a
+        WHERE a.job_id = j.id AND a.candidate_id = auth.uid()
+      )
+    );
+$$;
+
+-- =============================================
+-- Policies
+-- =============================================
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users manage their own notification preferences
+CREATE POLICY "Users can read own notification preferences"
+  ON notification_preferences
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own notification preferences"
+  ON notification_preferences
+  FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own notification preferences"
+  ON notification_preferences
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Policy: Signed-in users queue emails only to people they may notify, at the
+-- address on file, and only when that notification is on. There is no SELECT
+-- policy: delivery reads the outbox with the service role.
+CREATE POLICY "Users can queue notification emails"
+  ON email_outbox
+  FOR INSERT
+  WITH CHECK (
+    created_by = auth.uid()
+    AND status = 'queued'
+    AND EXISTS (
+      SELECT 1 FROM notification_recipient(recipient_id, event) r
+      WHERE r.email = to_address AND r.enabled
+    )
+  );
+
+COMMENT ON TABLE notification_preferences IS 'Per-user opt-outs for notification emails; a missing row means on';
+COMMENT ON TABLE email_outbox IS 'Rendered notification emails waiting for delivery';
+COMMENT ON COLUMN jobs.closing_soon_notified_at IS 'When the owner was reminded that the deadline is near';
+COMMENT ON FUNCTION notification_recipient IS 'Address and preference of a user the caller may notify';
+COMMENT ON FUNCTION job_hiring_team IS 'Organization members of a job the caller applied to or works on';
+
+-- Verify:
+-- SELECT * FROM notification_recipient(auth.uid(), 'status_changed');  -- your own address, enabled
+-- SELECT event, status, COUNT(*) FROM email_outbox GROUP BY 1, 2;
+-- SELECT policyname, cmd FROM pg_policies WHERE tablename IN ('notification_preferences', 'email_outbox');
@@ -0,0 +1,82 @@
+-- =============================================
+-- Migration: In-app notifications
+-- Date: 2025-12-30
+-- =============================================
+
+-- Problem: notifications only went out by email (migration 021). People who
+-- turned emails off, or just had the app open, had no way to see what happened
+-- since their last visit: a status change, new applicants, a booked interview.
+--
+-- Approach: every notification the API sends is also recorded here, one row
+-- per recipient, whatever their email preferences. The bell in the nav lists
+-- a user's recent rows and polls for the unread count. Rows keep the event's
+-- template variables and the message is rendered when listed, so the wording
+-- can change without rewriting rows; link is the app path the row opens.
+--
+-- Inserting uses the same rule as the email outbox: the caller must be the
+-- actor and notification_recipient() must return the recipient, i.e. they work
+-- together on an application. Scheduled jobs insert with the service role.
+-- Recipients can read their rows and mark them read.
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('application_received', 'status_changed', 'interview_scheduled', 'job_closing_soon', 'job_closed')),
+  variables JSONB NOT NULL DEFAULT '{}'::jsonb,
+  link TEXT NULL,
+  application_id UUID REFERENCES applications(id) ON DELETE CASCADE,
+  job_id UUID REFERENCES jobs(id) ON DELETE CASCADE,
+  -- Who triggered the notification; NULL for scheduled jobs
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  read_at TIMESTAMP WITH TIME ZONE NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- A user's most recent notifications
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+ON notifications(user_id, created_at DESC);
+
+-- The unread badge
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+ON notifications(user_id)
+WHERE read_at IS NULL;
+
+-- =============================================
+-- Policies
+-- =============================================
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users read their own notifications
+CREATE POLICY "Users can read own notifications"
+  ON notifications
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+-- Policy: Users mark their own notifications read
+CREATE POLICY "Users can update own notifications"
+  ON notifications
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Policy: Signed-in users notify only people they may notify, as themselves.
+-- Links stay on this site: a path, not "//host" or "/\host", which browsers
+-- open as another origin.
+CREATE POLICY "Users can create notifications for people they work with"
+  ON notifications
+  FOR INSERT
+  WITH CHECK (
+    actor_id = auth.uid()
+    AND read_at IS NULL
+    AND (link IS NULL OR (link LIKE '/%' AND link NOT LIKE '//%' AND link NOT LIKE '/\\%'))
+    AND EXISTS (SELECT 1 FROM notification_recipient(user_id, type))
+  );
+
+COMMENT ON TABLE notifications IS 'In-app notifications shown under the bell in the nav';
+COMMENT ON COLUMN notifications.variables IS 'Template variables of the event; the message is rendered when listed';
+COMMENT ON COLUMN notifications.link IS 'Same-origin app path the notification opens';
+
+-- Verify:
+-- SELECT type, COUNT(*) FILTER (WHERE read_at IS NULL) AS unread, COUNT(*) FROM notifications WHERE user_id = auth.uid() GROUP BY 1;
+-- SELECT policyname, cmd FROM pg_policies WHERE tablename = 'notifications';
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { GET } from "./route";
+
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: vi.fn(),
+}));
+vi.mock("@/lib/storage", () => ({
+  getUserRole: vi.fn(),
+}));
+
+import { createClient } from "@/lib/supabase/server";
+import { getUserRole } from "@/lib/storage";
+
+const JOB_ID = "3f2b8c1e-2d4a-4b6f-9a1c-5e7d8f9a0b1c";
+
+const TABLES: Record<string, Record<string, unknown>[]> = {
+  organization_members: [],
+  jobs: [{ id: JOB_ID, title: "Backend Engineer", employer_id: "rec-1" }],
+  applications: [
+    { id: "a1", job_id: JOB_ID, candidate_id: "cand-1", status: "rejected", applied_at: "2025-12-01T09:00:00Z" },
+    { id: "a2", job_id: JOB_ID, candidate_id: "cand-2", status: "applied", applied_at: "2025-12-02T09:00:00Z" },
+  ],
+  application_status_events: [
+    { application_id: "a1", to_status: "applied", created_at: "2025-12-01T09:00:00Z" },
+    { application_id: "a1", to_status: "interview", created_at: "2025-12-02T09:00:00Z" },
+    { application_id: "a1", to_status: "rejected", created_at: "2025-12-03T09:00:00Z" },
+    { application_id: "a2", to_status: "applied", created_at: "2025-12-02T09:00:00Z" },
+  ],
+  candidate_profiles: [{ user_id: "cand-1", referral_source: "LinkedIn" }],
+  recruiter_profiles: [{ user_id: "rec-1", name: "Riley" }],
+};
+
+// Every table answers with its rows; eq() on jobs narrows by id
+function mockSupabase(userId: string | null) {
+  const calls: { table: string; method: string; args: unknown[] }[] = [];
+  const client = {
+    auth: { getUser: vi.fn().mockResolvedValue({ data: { user: userId ? { id: userId } : null }, error: null }) },
+    from: vi.fn((table: string) => {
+      let rows = TABLES[table] ?? [];
+      const query: any = {};
+      for (const method of ["select", "or", "in", "gte", "lt", "order"]) {
+        query[method] = vi.fn((...args: unknown[]) => {
+          calls.push({ table, method, args });
+          return query;
+        });
+      }
+      query.eq = vi.fn((column: string, value: unknown) => {
+        if (table === "jobs") rows = rows.filter((row) => row[column] === value);
+        return query;
+      });
+      query.maybeSingle = vi.fn(async () => ({ data: rows[0] ?? null, error: null }));
+      query.then = (resolve: (value: unknown) => void) => resolve({ data: rows, error: null });
+      return query;
+    }),
+  };
+  vi.mocked(createClient).mockResolvedValue(client as any);
+  return { calls };
+}
+
+const get = (query = "") => new NextRequest(`http://localhost/api/analytics${query}`);
+
+describe("GET /api/analytics", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getUserRole).mockResolvedValue("recruiter");
+  });
+
+  it("reports the funnel for applications submitted in the range", async () => {
+    const { calls } = mockSupabase("rec-1");
+
+    const res = await GET(get("?from=2025-12-01&to=2025-12-07"));
+    const data = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(data.range).toEqual({ from: "2025-12-01", to: "2025-12-07" });
+    expect(data.overall.funnel.map((step: { reached: number }) => step.reached)).toEqual([2, 1, 1, 0, 0]);
+    expect(data.overall.rejected).toBe(1);
+    expect(data.jobs[0]).toMatchObject({ title: "Backend Engineer", applications: 2 });
+    expect(data.recruiters[0]).toMatchObject({ name: "Riley", jobs: 1 });
+    expect(data.overall.sources.map((s: { source: string }) => s.source)).toEqual(["LinkedIn", "Unknown"]);
+    expect(calls).toContainEqual({ table: "applications", method: "gte", args: ["applied_at", "2025-12-01T00:00:00Z"] });
+    expect(calls).toContainEqual({ table: "applications", method: "lt", args: ["applied_at", "2025-12-08T00:00:00Z"] });
+    expect(calls).toContainEqual({ table: "jobs", method: "or", args: ["and(organization_id.is.null,employer_id.eq.rec-1)"] });
+  });
+
+  it("downloads the report as CSV", async () => {
+    mockSupabase("rec-1");
+
+    const res = await GET(get("?from=2025-12-01&to=2025-12-07&format=csv"));
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toContain("text/csv");
+    expect(res.headers.get("Content-Disposition")).toContain('filename="analytics-2025-12-01-to-2025-12-07.csv"');
+    const lines = (await res.text()).trim().split("\r\n");
+    expect(lines[1]).toMatch(/^All jobs,2025-12-01 to 2025-12-07,2,/);
+  });
+
+  it("404s for a job the recruiter can't see", async () => {
+    mockSupabase("rec-1");
+
+    const res = await GET(get("?jobId=00000000-0000-4000-8000-000000000000"));
+
+    expect(res.status).toBe(404);
+  });
+
+  it("rejects bad ranges, candidates and anonymous callers", async () => {
+    mockSupabase("rec-1");
+    expect((await GET(get("?from=2025-12-07&to=2025-12-01"))).status).toBe(400);
+    expect((await GET(get("?from=2020-01-01&to=2025-12-01"))).status).toBe(400);
+
+    vi.mocked(getUserRole).mockResolvedValue("candidate");
+    expect((await GET(get())).status).toBe(403);
+
+    mockSupabase(null);
+    expect((await GET(get())).status).toBe(401);
+  });
+});
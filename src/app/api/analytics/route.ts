@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getUserRole } from "@/lib/storage";
+import { AnalyticsQuerySchema, analyticsCsv, computeAnalytics, loadAnalyticsInput, resolveRange } from "@/lib/analytics";
+
+export const runtime = "nodejs";
+
+// GET /api/analytics - Hiring funnel metrics for the recruiter's jobs.
+// ?from=YYYY-MM-DD&to=YYYY-MM-DD picks applications submitted in that range
+// (default: the last 90 days), ?jobId= limits to one job, ?interval=day|week|month
+// buckets applicant volume and ?format=csv downloads the report.
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole(user.id);
+    if (role !== 'recruiter') {
+      return NextResponse.json({ error: "Forbidden - Only recruiters can view analytics" }, { status: 403 });
+    }
+
+    const parsed = AnalyticsQuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid analytics query", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const query = parsed.data;
+
+    let range;
+    try {
+      range = resolveRange(query);
+    } catch (error) {
+      return NextResponse.json(
+        { error: "Invalid analytics query", details: { from: [error instanceof Error ? error.message : String(error)] } },
+        { status: 400 }
+      );
+    }
+
+    const input = await loadAnalyticsInput(supabase, user.id, { range, interval: query.interval, jobId: query.jobId });
+    if (query.jobId && input.jobs.length === 0) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+    const report = computeAnalytics(input);
+
+    if (query.format === 'csv') {
+      return new NextResponse(analyticsCsv(report), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="analytics-${range.from}-to-${range.to}.csv"`,
+          "Cache-Control": "private, no-store",
+        },
+      });
+    }
+
+    return NextResponse.json(report);
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
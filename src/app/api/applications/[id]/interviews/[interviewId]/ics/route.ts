@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { buildInterviewIcs, formatInterviewTime, loadInterviewAccess, resolveTimeZone } from "@/lib/interviews";
+import type { Interview } from "@/lib/types/database";
+
+export const runtime = "nodejs";
+
+// GET /api/applications/[id]/interviews/[interviewId]/ics - Calendar invite for a
+// booked interview (a cancellation once it's cancelled). The candidate and the
+// job's team download the same event, so updates replace it in both calendars.
+export async function GET(req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<{ id: string; interviewId: string }> }).params;
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const access = await loadInterviewAccess(supabase, user.id, params.id);
+    if (!access) {
+      return NextResponse.json({ error: "Application not found" }, { status: 404 });
+    }
+
+    const { data } = await supabase
+      .from('interviews')
+      .select('*')
+      .eq('id', params.interviewId)
+      .eq('application_id', params.id)
+      .maybeSingle();
+    const interview = data as Interview | null;
+    if (!interview || !interview.booked_at) {
+      return NextResponse.json({ error: "Interview not found" }, { status: 404 });
+    }
+
+    const { data: candidate } = await supabase
+      .from('candidate_profiles')
+      .select('name, email, timezone')
+      .eq('user_id', access.application.candidate_id)
+      .maybeSingle();
+    const { data: organizer } = interview.created_by
+      ? await supabase
+          .from('recruiter_profiles')
+          .select('name, email')
+          .eq('user_id', interview.created_by)
+          .maybeSingle()
+      : { data: null };
+
+    const timeZone = resolveTimeZone(candidate?.timezone);
+    const description = [
+      `Interview for ${access.job.title} at ${access.job.company}`,
+      `${formatInterviewTime(interview.starts_at, interview.ends_at, timeZone)} (${timeZone})`,
+      interview.meeting_url ? `Join: ${interview.meeting_url}` : null,
+      interview.notes,
+    ].filter(Boolean).join("\n\n");
+
+    const ics = buildInterviewIcs({
+      uid: `interview-${interview.id}@${req.nextUrl.host}`,
+      sequence: interview.sequence,
+      method: interview.status === 'cancelled' ? 'CANCEL' : 'REQUEST',
+      startsAt: interview.starts_at,
+      endsAt: interview.ends_at,
+      stamp: new Date(interview.updated_at),
+      summary: `Interview: ${access.job.title} at ${access.job.company}`,
+      description,
+      location: interview.location || interview.meeting_url,
+      url: interview.meeting_url,
+      organizer: organizer?.email ? { name: organizer.name || organizer.email, email: organizer.email } : null,
+      attendee: candidate?.email ? { name: candidate.name || candidate.email, email: candidate.email } : null,
+    });
+
+    return new NextResponse(ics, {
+      headers: {
+        "Content-Type": `text/calendar; charset=utf-8; method=${interview.status === 'cancelled' ? 'CANCEL' : 'REQUEST'}`,
+        "Content-Disposition": `attachment; filename="interview-${interview.id}.ics"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
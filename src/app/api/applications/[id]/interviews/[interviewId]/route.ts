@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { canMoveApplications } from "@/lib/organizations";
+import {
+  InterviewActionSchema,
+  formatInterviewTime,
+  loadInterviewAccess,
+  resolveTimeZone,
+  toInterviewView,
+} from "@/lib/interviews";
+import { appUrl } from "@/lib/notifications";
+import { sendNotifications } from "@/lib/notification-delivery";
+import type { Interview } from "@/lib/types/database";
+
+export const runtime = "nodejs";
+
+type Params = { id: string; interviewId: string };
+
+// Errors raised by book_interview() (migration 015)
+const BOOK_ERRORS: Record<string, { error: string; status: number }> = {
+  INTERVIEW_NOT_FOUND: { error: "Interview not found", status: 404 },
+  INTERVIEW_ALREADY_BOOKED: { error: "You already booked an interview for this application", status: 409 },
+  INTERVIEW_UNAVAILABLE: { error: "This time is no longer available", status: 409 },
+};
+
+// PATCH /api/applications/[id]/interviews/[interviewId] - Candidate books a slot; hiring team cancels one
+export async function PATCH(req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<Params> }).params;
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const parsed = InterviewActionSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid action", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const access = await loadInterviewAccess(supabase, user.id, params.id);
+    if (!access) {
+      return NextResponse.json({ error: "Application not found" }, { status: 404 });
+    }
+
+    const { data: interview } = await supabase
+      .from('interviews')
+      .select('*')
+      .eq('id', params.interviewId)
+      .eq('application_id', params.id)
+      .maybeSingle();
+    if (!interview) {
+      return NextResponse.json({ error: "Interview not found" }, { status: 404 });
+    }
+
+    if (parsed.data.action === 'book') {
+      if (!access.isCandidate) {
+        return NextResponse.json({ error: "Only the candidate can book an interview" }, { status: 403 });
+      }
+      const { data, error } = await supabase.rpc('book_interview', { interview_id: params.interviewId });
+      if (error) {
+        const known = Object.keys(BOOK_ERRORS).find((code) => error.message.includes(code));
+        if (known) {
+          return NextResponse.json({ error: BOOK_ERRORS[known].error, code: known }, { status: BOOK_ERRORS[known].status });
+        }
+        console.error('Error booking interview:', error);
+        return NextResponse.json({ error: "Failed to book interview", details: error.message }, { status: 500 });
+      }
+      const booked = (Array.isArray(data) ? data[0] : data) as Interview;
+
+      // Confirm to the candidate and tell whoever published the slot, in the candidate's timezone
+      const { data: profile } = await supabase
+        .from('candidate_profiles')
+        .select('name, timezone')
+        .eq('user_id', user.id)
+        .maybeSingle();
+      const variables = {
+        candidate_name: profile?.name || "The candidate",
+        job_title: access.job.title,
+        company: access.job.company,
+        time: formatInterviewTime(booked.starts_at, booked.ends_at, resolveTimeZone(profile?.timezone)),
+        location: [booked.location, booked.meeting_url].filter(Boolean).join(", ") || "To be confirmed",
+      };
+      const about = { applicationId: params.id, jobId: access.job.id };
+      await sendNotifications(supabase, [
+        { type: 'interview_scheduled', recipientId: user.id, ...about, variables: { ...variables, interview_url: appUrl("/candidate") } },
+        ...(booked.created_by && booked.created_by !== user.id
+          ? [{
+              type: 'interview_scheduled' as const,
+              recipientId: booked.created_by,
+              ...about,
+              variables: { ...variables, interview_url: appUrl(`/recruiter/applications/${params.id}`) },
+            }]
+          : []),
+      ], { senderId: user.id });
+
+      return NextResponse.json({ interview: toInterviewView(booked) });
+    }
+
+    if (!canMoveApplications(access.role)) {
+      return NextResponse.json({ error: "Forbidden - You can't cancel interviews for this job" }, { status: 403 });
+    }
+    if (interview.status === 'cancelled') {
+      return NextResponse.json({ error: "Interview is already cancelled" }, { status: 409 });
+    }
+
+    // Bump SEQUENCE so calendars replace the booked event with the cancellation
+    const { data, error } = await supabase
+      .from('interviews')
+      .update({
+        status: 'cancelled',
+        cancelled_at: new Date().toISOString(),
+        sequence: interview.status === 'booked' ? interview.sequence + 1 : interview.sequence,
+      })
+      .eq('id', params.interviewId)
+      .select('*')
+      .single();
+    if (error) {
+      console.error('Error cancelling interview:', error);
+      return NextResponse.json({ error: "Failed to cancel interview", details: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ interview: toInterviewView(data as Interview) });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/applications/[id]/interviews/[interviewId] - Withdraw a slot nobody booked
+export async function DELETE(_req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<Params> }).params;
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const access = await loadInterviewAccess(supabase, user.id, params.id);
+    if (!access) {
+      return NextResponse.json({ error: "Application not found" }, { status: 404 });
+    }
+    if (!canMoveApplications(access.role)) {
+      return NextResponse.json({ error: "Forbidden - You can't change interviews for this job" }, { status: 403 });
+    }
+
+    const { data: interview } = await supabase
+      .from('interviews')
+      .select('id, status, booked_at')
+      .eq('id', params.interviewId)
+      .eq('application_id', params.id)
+      .maybeSingle();
+    if (!interview) {
+      return NextResponse.json({ error: "Interview not found" }, { status: 404 });
+    }
+    // Keep booked interviews so the candidate can still download the cancellation
+    if (interview.booked_at) {
+      return NextResponse.json({ error: "Cancel a booked interview instead of deleting it" }, { status: 409 });
+    }
+
+    const { error } = await supabase.from('interviews').delete().eq('id', params.interviewId);
+    if (error) {
+      console.error('Error deleting interview:', error);
+      return NextResponse.json({ error: "Failed to delete interview", details: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
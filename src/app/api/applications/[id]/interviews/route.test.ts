@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { GET, POST } from "./route";
+import { PATCH } from "./[interviewId]/route";
+
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: vi.fn(),
+}));
+
+vi.mock("@/lib/notification-delivery", () => ({
+  sendNotifications: vi.fn().mockResolvedValue({ recorded: 2, sent: 2, skipped: 0, failed: 0 }),
+}));
+
+import { createClient } from "@/lib/supabase/server";
+import { sendNotifications } from "@/lib/notification-delivery";
+
+const future = (hours: number) => new Date(Date.now() + hours * 3600_000).toISOString();
+
+const interviewRows = [
+  { id: "iv-1", application_id: "app-1", starts_at: future(24), ends_at: future(25), status: "available", booked_at: null },
+  { id: "iv-2", application_id: "app-1", starts_at: future(48), ends_at: future(49), status: "cancelled", booked_at: null },
+];
+
+// Tables answer by filters: maybeSingle() for lookups, awaiting the query for lists
+function mockSupabase(userId: string, { status = "interview", role = "recruiter" } = {}) {
+  const insert = vi.fn();
+  const tables: Record<string, (filters: Record<string, unknown>) => unknown> = {
+    applications: () => ({ id: "app-1", job_id: "job-1", candidate_id: "cand-1", status }),
+    jobs: () => ({ id: "job-1", title: "Engineer", company: "Acme", employer_id: "rec-1", organization_id: "org-1" }),
+    organization_members: (f) => (f.user_id === "rec-1" ? { organization_id: "org-1", user_id: "rec-1", role } : null),
+    candidate_profiles: () => ({ name: "Ada", timezone: "PST" }),
+    interviews: (f) => (f.status === "booked" ? null : interviewRows),
+  };
+  const client = {
+    auth: { getUser: vi.fn().mockResolvedValue({ data: { user: { id: userId } }, error: null }) },
+    rpc: vi.fn(async () => ({
+      data: [{ ...interviewRows[0], status: "booked", booked_at: future(0), location: "HQ", meeting_url: null, created_by: "rec-1", sequence: 0 }],
+      error: null,
+    })),
+    from: vi.fn((table: string) => {
+      const filters: Record<string, unknown> = {};
+      let inserted: Record<string, unknown>[] = [];
+      const query = {
+        select: vi.fn(() => query),
+        order: vi.fn(() => query),
+        eq: vi.fn((column: string, value: unknown) => {
+          filters[column] = value;
+          return query;
+        }),
+        insert: vi.fn((rows: Record<string, unknown>[]) => {
+          inserted = rows.map((row, i) => ({ id: `new-${i}`, status: "available", booked_at: null, ...row }));
+          insert(rows);
+          return query;
+        }),
+        maybeSingle: vi.fn(async () => ({ data: tables[table](filters), error: null })),
+        then: (resolve: (value: unknown) => void) =>
+          resolve({ data: inserted.length ? inserted : tables[table](filters), error: null }),
+      };
+      return query;
+    }),
+  };
+  vi.mocked(createClient).mockResolvedValue(client as any);
+  return { insert };
+}
+
+const context = { params: Promise.resolve({ id: "app-1" }) };
+const post = (body: unknown) =>
+  new NextRequest("http://localhost/api/applications/app-1/interviews", { method: "POST", body: JSON.stringify(body) });
+const get = () => new NextRequest("http://localhost/api/applications/app-1/interviews");
+
+describe("/api/applications/[id]/interviews", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("publishes slots for the hiring team", async () => {
+    const { insert } = mockSupabase("rec-1");
+    const slots = [{ startsAt: future(24), endsAt: future(25) }];
+    const res = await POST(post({ slots, meetingUrl: "https://meet.example.com/x" }), context);
+
+    expect(res.status).toBe(201);
+    expect(insert).toHaveBeenCalledWith([
+      expect.objectContaining({ application_id: "app-1", meeting_url: "https://meet.example.com/x", created_by: "rec-1" }),
+    ]);
+    const body = await res.json();
+    expect(body.interviews[0]).toMatchObject({ applicationId: "app-1", status: "available", icsUrl: null });
+  });
+
+  it("refuses viewers, candidates, past slots and applications outside an interview stage", async () => {
+    const slots = [{ startsAt: future(24), endsAt: future(25) }];
+
+    mockSupabase("rec-1", { role: "viewer" });
+    expect((await POST(post({ slots }), context)).status).toBe(403);
+
+    mockSupabase("cand-1");
+    expect((await POST(post({ slots }), context)).status).toBe(403);
+
+    mockSupabase("rec-1", { status: "under_review" });
+    expect((await POST(post({ slots }), context)).status).toBe(409);
+
+    const { insert } = mockSupabase("rec-1");
+    expect((await POST(post({ slots: [{ startsAt: future(-2), endsAt: future(-1) }] }), context)).status).toBe(400);
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it("shows the candidate open slots in their timezone", async () => {
+    mockSupabase("cand-1");
+    const res = await GET(get(), context);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.timezone).toBe("America/Los_Angeles");
+    expect(body.canSchedule).toBe(false);
+    expect(body.interviews.map((i: { id: string }) => i.id)).toEqual(["iv-1"]);
+
+    mockSupabase("rec-1");
+    const team = await (await GET(get(), context)).json();
+    expect(team.canSchedule).toBe(true);
+    expect(team.interviews).toHaveLength(2);
+  });
+
+  it("hides applications from everyone else", async () => {
+    mockSupabase("stranger");
+    expect((await GET(get(), context)).status).toBe(404);
+  });
+
+  it("emails the candidate and the slot's creator when a slot is booked", async () => {
+    mockSupabase("cand-1");
+    const res = await PATCH(
+      new NextRequest("http://localhost/api/applications/app-1/interviews/iv-1", {
+        method: "PATCH",
+        body: JSON.stringify({ action: "book" }),
+      }),
+      { params: Promise.resolve({ id: "app-1", interviewId: "iv-1" }) }
+    );
+
+    expect(res.status).toBe(200);
+    const [, events] = vi.mocked(sendNotifications).mock.calls[0];
+    expect(events.map((e) => [e.type, e.recipientId])).toEqual([
+      ["interview_scheduled", "cand-1"],
+      ["interview_scheduled", "rec-1"],
+    ]);
+    expect(events[1].variables).toMatchObject({ candidate_name: "Ada", job_title: "Engineer", location: "HQ" });
+    expect((events[1].variables as { time: string }).time).toMatch(/P[SD]T$/);
+  });
+});
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { canMoveApplications } from "@/lib/organizations";
+import { InterviewSlotsSchema, loadInterviewAccess, resolveTimeZone, toInterviewView } from "@/lib/interviews";
+import type { Interview, InterviewInsert } from "@/lib/types/database";
+
+export const runtime = "nodejs";
+
+// GET /api/applications/[id]/interviews - Slots on an application, in the candidate's timezone
+export async function GET(_req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<{ id: string }> }).params;
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const access = await loadInterviewAccess(supabase, user.id, params.id);
+    if (!access) {
+      return NextResponse.json({ error: "Application not found" }, { status: 404 });
+    }
+
+    const { data, error } = await supabase
+      .from('interviews')
+      .select('*')
+      .eq('application_id', params.id)
+      .order('starts_at', { ascending: true });
+    if (error) {
+      console.error('Error fetching interviews:', error);
+      return NextResponse.json({ error: "Failed to fetch interviews", details: error.message }, { status: 500 });
+    }
+
+    const { data: profile } = await supabase
+      .from('candidate_profiles')
+      .select('timezone')
+      .eq('user_id', access.application.candidate_id)
+      .maybeSingle();
+
+    // Candidates don't need slots that were withdrawn before they booked one
+    const rows = ((data ?? []) as Interview[]).filter(
+      (row) => !access.isCandidate || row.status !== 'cancelled' || row.booked_at
+    );
+
+    return NextResponse.json({
+      interviews: rows.map(toInterviewView),
+      job: { title: access.job.title, company: access.job.company },
+      timezone: resolveTimeZone(profile?.timezone),
+      canSchedule: canMoveApplications(access.role),
+    });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/applications/[id]/interviews - Publish interview slots for the candidate to pick from
+export async function POST(req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<{ id: string }> }).params;
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const access = await loadInterviewAccess(supabase, user.id, params.id);
+    if (!access) {
+      return NextResponse.json({ error: "Application not found" }, { status: 404 });
+    }
+    if (!canMoveApplications(access.role)) {
+      return NextResponse.json({ error: "Forbidden - You can't schedule interviews for this job" }, { status: 403 });
+    }
+    if (access.application.status !== 'interview') {
+      return NextResponse.json(
+        { error: "Move the application to an Interview stage before scheduling" },
+        { status: 409 }
+      );
+    }
+
+    const body = await req.json().catch(() => null);
+    const parsed = InterviewSlotsSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid interview slots", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const { slots, location, meetingUrl, notes } = parsed.data;
+    if (slots.some((slot) => Date.parse(slot.startsAt) <= Date.now())) {
+      return NextResponse.json({ error: "Interview slots must start in the future" }, { status: 400 });
+    }
+
+    const { data: booked } = await supabase
+      .from('interviews')
+      .select('id')
+      .eq('application_id', params.id)
+      .eq('status', 'booked')
+      .maybeSingle();
+    if (booked) {
+      return NextResponse.json(
+        { error: "The candidate already booked an interview; cancel it before offering new times" },
+        { status: 409 }
+      );
+    }
+
+    const rows: InterviewInsert[] = slots.map((slot) => ({
+      application_id: params.id,
+      starts_at: new Date(slot.startsAt).toISOString(),
+      ends_at: new Date(slot.endsAt).toISOString(),
+      location: location || null,
+      meeting_url: meetingUrl || null,
+      notes: notes || null,
+      created_by: user.id,
+    }));
+    const { data, error } = await supabase.from('interviews').insert(rows).select('*');
+    if (error) {
+      console.error('Error creating interviews:', error);
+      return NextResponse.json({ error: "Failed to create interview slots", details: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ interviews: ((data ?? []) as Interview[]).map(toInterviewView) }, { status: 201 });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
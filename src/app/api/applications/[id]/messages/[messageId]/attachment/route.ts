@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { signedResumeUrl } from "@/lib/resumes";
+import { loadMessageAccess } from "@/lib/messages";
+
+export const runtime = "nodejs";
+
+// GET /api/applications/[id]/messages/[messageId]/attachment - Redirect to a
+// short-lived signed URL for a message's attachment. Only the candidate and the
+// job's hiring team may download.
+export async function GET(_req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<{ id: string; messageId: string }> }).params;
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const access = await loadMessageAccess(supabase, user.id, params.id);
+    if (!access) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { data: message } = await supabase
+      .from('application_messages')
+      .select('attachment_path')
+      .eq('id', params.messageId)
+      .eq('application_id', params.id)
+      .maybeSingle();
+    if (!message?.attachment_path) {
+      return NextResponse.json({ error: "Attachment not found" }, { status: 404 });
+    }
+
+    const signedUrl = await signedResumeUrl(supabase, message.attachment_path);
+    if (!signedUrl) {
+      return NextResponse.json({ error: "Failed to create download link" }, { status: 500 });
+    }
+    const response = NextResponse.redirect(signedUrl, { status: 302 });
+    response.headers.set('Cache-Control', 'no-store');
+    return response;
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { loadMessageAccess, markThreadRead } from "@/lib/messages";
+
+export const runtime = "nodejs";
+
+// POST /api/applications/[id]/messages/read - Mark the thread read up to now
+// (clears its unread count and shows the other side a read receipt)
+export async function POST(_req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<{ id: string }> }).params;
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const access = await loadMessageAccess(supabase, user.id, params.id);
+    if (!access) {
+      return NextResponse.json({ error: "Application not found" }, { status: 404 });
+    }
+
+    await markThreadRead(supabase, user.id, params.id);
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
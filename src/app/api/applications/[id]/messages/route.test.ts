@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { GET, POST } from "./route";
+
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: vi.fn(),
+}));
+
+import { createClient } from "@/lib/supabase/server";
+
+// Tables answer by filters: maybeSingle() for lookups, awaiting the query for lists
+function mockSupabase(userId: string) {
+  const insert = vi.fn();
+  const upload = vi.fn().mockResolvedValue({ error: null });
+  const tables: Record<string, (filters: Record<string, unknown>) => unknown> = {
+    applications: () => ({ id: "app-1", job_id: "job-1", candidate_id: "cand-1" }),
+    jobs: () => ({ id: "job-1", title: "Engineer", company: "Acme", employer_id: "rec-1", organization_id: "org-1" }),
+    organization_members: (f) => (f.user_id === "rec-1" ? { organization_id: "org-1", user_id: "rec-1", role: "viewer" } : null),
+    application_messages: () => [
+      { id: "m-1", application_id: "app-1", sender_id: "cand-1", sender_role: "candidate", body: "Hi", attachment_path: null, created_at: "2025-12-23T09:00:00Z" },
+    ],
+    application_message_reads: () => [{ application_id: "app-1", user_id: "rec-1", last_read_at: "2025-12-23T10:00:00Z" }],
+    candidate_profiles: () => [{ user_id: "cand-1", name: "Casey" }],
+    recruiter_profiles: () => [],
+  };
+  const client = {
+    auth: { getUser: vi.fn().mockResolvedValue({ data: { user: { id: userId } }, error: null }) },
+    storage: { from: vi.fn(() => ({ upload, remove: vi.fn() })) },
+    from: vi.fn((table: string) => {
+      const filters: Record<string, unknown> = {};
+      let inserted: Record<string, unknown> | null = null;
+      const query = {
+        select: vi.fn(() => query),
+        order: vi.fn(() => query),
+        in: vi.fn(() => query),
+        eq: vi.fn((column: string, value: unknown) => {
+          filters[column] = value;
+          return query;
+        }),
+        insert: vi.fn((row: Record<string, unknown>) => {
+          inserted = row;
+          insert(row);
+          return query;
+        }),
+        single: vi.fn(async () => ({ data: { id: "m-2", created_at: "2025-12-23T11:00:00Z", ...inserted }, error: null })),
+        maybeSingle: vi.fn(async () => ({ data: tables[table](filters), error: null })),
+        then: (resolve: (value: unknown) => void) => resolve({ data: tables[table](filters), error: null }),
+      };
+      return query;
+    }),
+  };
+  vi.mocked(createClient).mockResolvedValue(client as any);
+  return { insert, upload };
+}
+
+const context = { params: Promise.resolve({ id: "app-1" }) };
+const get = () => new NextRequest("http://localhost/api/applications/app-1/messages");
+const post = (fields: Record<string, string | File>) => {
+  const form = new FormData();
+  for (const [key, value] of Object.entries(fields)) form.append(key, value);
+  return new NextRequest("http://localhost/api/applications/app-1/messages", { method: "POST", body: form });
+};
+
+describe("/api/applications/[id]/messages", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("shows the thread to the candidate and the hiring team only", async () => {
+    mockSupabase("rec-1");
+    const res = await GET(get(), context);
+    expect(res.status).toBe(200);
+    const data = await res.json();
+    expect(data.side).toBe("recruiter");
+    expect(data.messages).toEqual([
+      expect.objectContaining({ id: "m-1", senderRole: "candidate", senderName: "Casey", isMine: false, seen: true }),
+    ]);
+
+    mockSupabase("stranger");
+    expect((await GET(get(), context)).status).toBe(404);
+    const { insert } = mockSupabase("stranger");
+    expect((await POST(post({ body: "Hi" }), context)).status).toBe(404);
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it("posts on the sender's side of the thread", async () => {
+    const candidate = mockSupabase("cand-1");
+    expect((await POST(post({ body: "  When do I hear back?  " }), context)).status).toBe(201);
+    expect(candidate.insert).toHaveBeenCalledWith(
+      expect.objectContaining({ sender_id: "cand-1", sender_role: "candidate", body: "When do I hear back?" })
+    );
+
+    const team = mockSupabase("rec-1");
+    expect((await POST(post({ body: "Next week" }), context)).status).toBe(201);
+    expect(team.insert).toHaveBeenCalledWith(expect.objectContaining({ sender_id: "rec-1", sender_role: "recruiter" }));
+
+    expect((await POST(post({ body: "   " }), context)).status).toBe(400);
+  });
+
+  it("checks attachments like resume uploads", async () => {
+    const { insert, upload } = mockSupabase("cand-1");
+    const fake = new File(["MZ not really a pdf"], "portfolio.pdf", { type: "application/pdf" });
+    const res = await POST(post({ body: "", file: fake }), context);
+    expect(res.status).toBe(400);
+    expect((await res.json()).code).toBe("CONTENT_MISMATCH");
+    expect(upload).not.toHaveBeenCalled();
+    expect(insert).not.toHaveBeenCalled();
+
+    const pdf = new File(["%PDF-1.4\n1 0 obj << /Type /Page >> endobj\n%%EOF"], "portfolio.pdf", { type: "application/pdf" });
+    expect((await POST(post({ body: "", file: pdf }), context)).status).toBe(201);
+    expect(upload).toHaveBeenCalledWith(expect.stringMatching(/^cand-1\/messages\/app-1\/\d+-portfolio\.pdf$/), pdf, {
+      contentType: "application/pdf",
+    });
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({ body: "", attachment_name: "portfolio.pdf", attachment_mime: "application/pdf" })
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { validateResumeUpload } from "@/lib/resume-validation";
+import { RESUME_BUCKET, storageFileName } from "@/lib/resumes";
+import { MessageBodySchema, loadMessageAccess, loadThread, toMessageView } from "@/lib/messages";
+import type { ApplicationMessage, ApplicationMessageInsert } from "@/lib/types/database";
+
+export const runtime = "nodejs";
+
+// GET /api/applications/[id]/messages - The application's thread between the
+// candidate and the hiring team, with read receipts
+export async function GET(_req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<{ id: string }> }).params;
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const access = await loadMessageAccess(supabase, user.id, params.id);
+    if (!access) {
+      return NextResponse.json({ error: "Application not found" }, { status: 404 });
+    }
+
+    const { messages, receipts } = await loadThread(supabase, user.id, access);
+    return NextResponse.json({
+      messages,
+      receipts,
+      job: { title: access.job.title, company: access.job.company },
+      side: access.isCandidate ? "candidate" : "recruiter",
+    });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/applications/[id]/messages - Send a message (multipart: body, and an
+// optional file checked like a resume upload)
+export async function POST(req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<{ id: string }> }).params;
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const form = await req.formData().catch(() => null);
+    if (!form) {
+      return NextResponse.json({ error: "Invalid message" }, { status: 400 });
+    }
+    const rawBody = form.get('body');
+    const parsed = MessageBodySchema.safeParse(typeof rawBody === "string" ? rawBody : "");
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid message", details: parsed.error.flatten().formErrors },
+        { status: 400 }
+      );
+    }
+    const file = form.get('file');
+    const attachment = file instanceof File && file.size > 0 ? file : null;
+    if (!parsed.data && !attachment) {
+      return NextResponse.json({ error: "Write a message or attach a file" }, { status: 400 });
+    }
+
+    const access = await loadMessageAccess(supabase, user.id, params.id);
+    if (!access) {
+      return NextResponse.json({ error: "Application not found" }, { status: 404 });
+    }
+
+    const row: ApplicationMessageInsert = {
+      application_id: params.id,
+      sender_id: user.id,
+      sender_role: access.isCandidate ? "candidate" : "recruiter",
+      body: parsed.data,
+    };
+
+    if (attachment) {
+      // Same checks as a resume: content-sniffed type, no encryption or macros, malware scan
+      const bytes = new Uint8Array(await attachment.arrayBuffer());
+      const validation = await validateResumeUpload(bytes, attachment);
+      if (!validation.ok) {
+        const status = validation.code === "SCAN_FAILED" ? 503 : 400;
+        return NextResponse.json({ error: validation.message, code: validation.code }, { status });
+      }
+
+      const path = `${user.id}/messages/${params.id}/${Date.now()}-${storageFileName(attachment.name)}`;
+      const { error: uploadError } = await supabase.storage.from(RESUME_BUCKET).upload(path, attachment, {
+        contentType: validation.mimeType,
+      });
+      if (uploadError) {
+        console.error('Error uploading message attachment:', uploadError);
+        return NextResponse.json({ error: "Failed to upload attachment", details: uploadError.message }, { status: 500 });
+      }
+      row.attachment_path = path;
+      row.attachment_name = attachment.name;
+      row.attachment_mime = validation.mimeType;
+      row.attachment_size = attachment.size;
+    }
+
+    const { data, error } = await supabase.from('application_messages').insert(row).select('*').single();
+    if (error || !data) {
+      console.error('Error sending message:', error);
+      if (row.attachment_path) await supabase.storage.from(RESUME_BUCKET).remove([row.attachment_path]);
+      return NextResponse.json({ error: "Failed to send message", details: error?.message }, { status: 500 });
+    }
+
+    return NextResponse.json(
+      toMessageView(data as ApplicationMessage, {
+        userId: user.id,
+        names: new Map(),
+        receipts: { candidateReadAt: null, teamReadAt: null },
+      }),
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { NoteUpdateSchema, loadNote, loadNotesAccess, loadTeammates, mentionedTeammates } from "@/lib/application-notes";
+
+export const runtime = "nodejs";
+
+type Params = { id: string; noteId: string };
+
+// PATCH /api/applications/[id]/notes/[noteId] - Edit your own note. The previous
+// text is kept in the note's history.
+export async function PATCH(req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<Params> }).params;
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const parsed = NoteUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid note", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const access = await loadNotesAccess(supabase, user.id, params.id);
+    if (!access) {
+      return NextResponse.json({ error: "Forbidden - You don't have permission to view this application" }, { status: 403 });
+    }
+
+    const { data: note } = await supabase
+      .from('application_notes')
+      .select('id, author_id, deleted_at')
+      .eq('id', params.noteId)
+      .eq('application_id', params.id)
+      .maybeSingle();
+    if (!note || note.deleted_at) {
+      return NextResponse.json({ error: "Note not found" }, { status: 404 });
+    }
+    if (note.author_id !== user.id) {
+      return NextResponse.json({ error: "Forbidden - You can only edit your own notes" }, { status: 403 });
+    }
+
+    const teammates = await loadTeammates(supabase, access.job);
+    const { error } = await supabase
+      .from('application_notes')
+      .update({ body: parsed.data.body, mentioned_user_ids: mentionedTeammates(parsed.data.body, teammates) })
+      .eq('id', params.noteId);
+    if (error) {
+      console.error('Error updating note:', error);
+      return NextResponse.json({ error: "Failed to save note", details: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(await loadNote(supabase, user.id, params.noteId));
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/applications/[id]/notes/[noteId] - Delete your own note. It stays
+// in the thread as deleted, with its text in the history.
+export async function DELETE(_req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<Params> }).params;
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: note } = await supabase
+      .from('application_notes')
+      .select('id, author_id, deleted_at')
+      .eq('id', params.noteId)
+      .eq('application_id', params.id)
+      .maybeSingle();
+    if (!note || note.deleted_at) {
+      return NextResponse.json({ error: "Note not found" }, { status: 404 });
+    }
+    if (note.author_id !== user.id) {
+      return NextResponse.json({ error: "Forbidden - You can only delete your own notes" }, { status: 403 });
+    }
+
+    const { error } = await supabase
+      .from('application_notes')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', params.noteId);
+    if (error) {
+      console.error('Error deleting note:', error);
+      return NextResponse.json({ error: "Failed to delete note", details: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
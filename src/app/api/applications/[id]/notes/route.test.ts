@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { GET, POST } from "./route";
+import { PATCH } from "./[noteId]/route";
+
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: vi.fn(),
+}));
+
+import { createClient } from "@/lib/supabase/server";
+
+const dana = "11111111-2222-3333-4444-555555555555";
+const outsider = "aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee";
+
+const noteRow = {
+  id: "note-1",
+  application_id: "app-1",
+  parent_id: null,
+  author_id: "rec-1",
+  body: "Strong systems background",
+  mentioned_user_ids: [],
+  edited_at: null,
+  deleted_at: null,
+  created_at: "2025-12-21T10:00:00Z",
+  updated_at: "2025-12-21T10:00:00Z",
+};
+
+// Tables answer by filters: maybeSingle()/single() for lookups, awaiting the query for lists
+function mockSupabase(userId: string) {
+  const insert = vi.fn();
+  const update = vi.fn();
+  const tables: Record<string, (filters: Record<string, unknown>) => unknown> = {
+    applications: () => ({ id: "app-1", job_id: "job-1", candidate_id: "cand-1" }),
+    jobs: () => ({ id: "job-1", employer_id: "rec-1", organization_id: "org-1" }),
+    organization_members: (f) =>
+      f.user_id
+        ? ["rec-1", dana].includes(f.user_id as string) ? { organization_id: "org-1", user_id: f.user_id, role: "recruiter" } : null
+        : [{ user_id: "rec-1" }, { user_id: dana }],
+    recruiter_profiles: () => [
+      { user_id: "rec-1", name: "Rec One" },
+      { user_id: dana, name: "Dana Lee" },
+    ],
+    application_notes: (f) => (f.id ? noteRow : [noteRow]),
+    application_note_revisions: () => [],
+  };
+  const client = {
+    auth: { getUser: vi.fn().mockResolvedValue({ data: { user: { id: userId } }, error: null }) },
+    from: vi.fn((table: string) => {
+      const filters: Record<string, unknown> = {};
+      const query = {
+        select: vi.fn(() => query),
+        order: vi.fn(() => query),
+        in: vi.fn(() => query),
+        eq: vi.fn((column: string, value: unknown) => {
+          filters[column] = value;
+          return query;
+        }),
+        insert: vi.fn((row: Record<string, unknown>) => {
+          insert(row);
+          return query;
+        }),
+        update: vi.fn((values: Record<string, unknown>) => {
+          update(values);
+          return query;
+        }),
+        single: vi.fn(async () => ({ data: { id: "note-2" }, error: null })),
+        maybeSingle: vi.fn(async () => ({ data: tables[table](filters), error: null })),
+        then: (resolve: (value: unknown) => void) => resolve({ data: tables[table](filters), error: null }),
+      };
+      return query;
+    }),
+  };
+  vi.mocked(createClient).mockResolvedValue(client as any);
+  return { insert, update };
+}
+
+const request = (method: string, body?: unknown) =>
+  new NextRequest("http://localhost/api/applications/app-1/notes", {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+const context = { params: Promise.resolve({ id: "app-1", noteId: "note-1" }) };
+
+describe("/api/applications/[id]/notes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lists notes and teammates for the hiring team", async () => {
+    mockSupabase("rec-1");
+    const res = await GET(request("GET"), context);
+    expect(res.status).toBe(200);
+    const data = await res.json();
+    expect(data.notes).toHaveLength(1);
+    expect(data.notes[0]).toMatchObject({ id: "note-1", authorName: "Rec One", isMine: true, replies: [] });
+    expect(data.teammates).toEqual([
+      { userId: dana, name: "Dana Lee" },
+      { userId: "rec-1", name: "Rec One" },
+    ]);
+  });
+
+  it("never shows notes to the candidate", async () => {
+    mockSupabase("cand-1");
+    expect((await GET(request("GET"), context)).status).toBe(403);
+  });
+
+  it("records mentions of teammates and threads replies", async () => {
+    const { insert } = mockSupabase("rec-1");
+    const body = `Ask @[Dana Lee](${dana}) and @[Nobody](${outsider})`;
+    const res = await POST(request("POST", { body, parentId: "3f0e7c8a-1d2b-4c5d-8e9f-0a1b2c3d4e5f" }), context);
+    expect(res.status).toBe(201);
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({ author_id: "rec-1", body, parent_id: "note-1", mentioned_user_ids: [dana] })
+    );
+  });
+
+  it("only lets authors edit their notes", async () => {
+    const other = mockSupabase(dana);
+    expect((await PATCH(request("PATCH", { body: "Changed" }), context)).status).toBe(403);
+    expect(other.update).not.toHaveBeenCalled();
+
+    const { update } = mockSupabase("rec-1");
+    expect((await PATCH(request("PATCH", { body: "Changed" }), context)).status).toBe(200);
+    expect(update).toHaveBeenCalledWith({ body: "Changed", mentioned_user_ids: [] });
+  });
+});
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  NoteInputSchema,
+  loadApplicationNotes,
+  loadNote,
+  loadNotesAccess,
+  loadTeammates,
+  mentionedTeammates,
+} from "@/lib/application-notes";
+import type { ApplicationNoteInsert } from "@/lib/types/database";
+
+export const runtime = "nodejs";
+
+// GET /api/applications/[id]/notes - The hiring team's notes on an application,
+// threaded, plus the teammates who can be @mentioned
+export async function GET(_req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<{ id: string }> }).params;
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Candidates aren't on the hiring team, so they never get past this
+    const access = await loadNotesAccess(supabase, user.id, params.id);
+    if (!access) {
+      return NextResponse.json({ error: "Forbidden - You don't have permission to view this application" }, { status: 403 });
+    }
+
+    const [notes, teammates] = await Promise.all([
+      loadApplicationNotes(supabase, user.id, params.id),
+      loadTeammates(supabase, access.job),
+    ]);
+    return NextResponse.json({ notes, teammates });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/applications/[id]/notes - Add a note, or reply with { parentId }
+export async function POST(req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<{ id: string }> }).params;
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const parsed = NoteInputSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid note", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const input = parsed.data;
+
+    const access = await loadNotesAccess(supabase, user.id, params.id);
+    if (!access) {
+      return NextResponse.json({ error: "Forbidden - You don't have permission to view this application" }, { status: 403 });
+    }
+
+    // Threads are one level deep: a reply to a reply joins the same thread
+    let parentId: string | null = null;
+    if (input.parentId) {
+      const { data: parent } = await supabase
+        .from('application_notes')
+        .select('id, parent_id')
+        .eq('id', input.parentId)
+        .eq('application_id', params.id)
+        .maybeSingle();
+      if (!parent) {
+        return NextResponse.json({ error: "Note not found" }, { status: 404 });
+      }
+      parentId = parent.parent_id ?? parent.id;
+    }
+
+    const teammates = await loadTeammates(supabase, access.job);
+    const row: ApplicationNoteInsert = {
+      application_id: params.id,
+      parent_id: parentId,
+      author_id: user.id,
+      body: input.body,
+      mentioned_user_ids: mentionedTeammates(input.body, teammates),
+    };
+    const { data, error } = await supabase.from('application_notes').insert(row).select('id').single();
+    if (error || !data) {
+      console.error('Error creating note:', error);
+      return NextResponse.json({ error: "Failed to save note", details: error?.message }, { status: 500 });
+    }
+
+    return NextResponse.json(await loadNote(supabase, user.id, data.id), { status: 201 });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { signedResumeUrl } from "@/lib/resumes";
+import { loadOfferAccess } from "@/lib/offers";
+
+export const runtime = "nodejs";
+
+// GET /api/applications/[id]/offers/[offerId]/letter - Redirect to a
+// short-lived signed URL for an offer letter. Only the candidate and the job's
+// hiring team may download.
+export async function GET(_req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<{ id: string; offerId: string }> }).params;
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const access = await loadOfferAccess(supabase, user.id, params.id);
+    if (!access) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { data: offer } = await supabase
+      .from('offers')
+      .select('letter_path')
+      .eq('id', params.offerId)
+      .eq('application_id', params.id)
+      .maybeSingle();
+    if (!offer?.letter_path) {
+      return NextResponse.json({ error: "Offer letter not found" }, { status: 404 });
+    }
+
+    const signedUrl = await signedResumeUrl(supabase, offer.letter_path);
+    if (!signedUrl) {
+      return NextResponse.json({ error: "Failed to create download link" }, { status: 500 });
+    }
+    const response = NextResponse.redirect(signedUrl, { status: 302 });
+    response.headers.set('Cache-Control', 'no-store');
+    return response;
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
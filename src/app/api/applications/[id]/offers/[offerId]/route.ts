@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { canMoveApplications } from "@/lib/organizations";
+import { resolvePipeline, toStatusLabel } from "@/lib/pipeline";
+import { OfferActionSchema, loadOfferAccess, offerResponseStage, offerState, toOfferView } from "@/lib/offers";
+import type { Offer } from "@/lib/types/database";
+
+export const runtime = "nodejs";
+
+type Params = { id: string; offerId: string };
+
+// Errors raised by respond_to_offer() (migration 019)
+const RESPOND_ERRORS: Record<string, { error: string; status: number }> = {
+  OFFER_NOT_FOUND: { error: "Offer not found", status: 404 },
+  OFFER_NOT_OPEN: { error: "This offer has already been answered or withdrawn", status: 409 },
+  OFFER_EXPIRED: { error: "This offer has expired", status: 409 },
+  APPLICATION_NOT_AT_OFFER: { error: "This application is no longer at the offer stage", status: 409 },
+  INVALID_STAGE: { error: "The job's pipeline has changed; reload and try again", status: 409 },
+};
+
+// PATCH /api/applications/[id]/offers/[offerId] - Candidate accepts or declines
+// (moving the application to hired or rejected); hiring team withdraws
+export async function PATCH(req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<Params> }).params;
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const parsed = OfferActionSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid action", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const access = await loadOfferAccess(supabase, user.id, params.id);
+    if (!access) {
+      return NextResponse.json({ error: "Application not found" }, { status: 404 });
+    }
+
+    const { data: offer } = await supabase
+      .from('offers')
+      .select('*')
+      .eq('id', params.offerId)
+      .eq('application_id', params.id)
+      .maybeSingle();
+    if (!offer) {
+      return NextResponse.json({ error: "Offer not found" }, { status: 404 });
+    }
+
+    if (parsed.data.action !== 'withdraw') {
+      if (!access.isCandidate) {
+        return NextResponse.json({ error: "Only the candidate can answer an offer" }, { status: 403 });
+      }
+      const accept = parsed.data.action === 'accept';
+      const stage = offerResponseStage(resolvePipeline(access.job), accept);
+      const { data, error } = await supabase.rpc('respond_to_offer', {
+        offer_id: params.offerId,
+        accept,
+        target_stage_id: stage?.id ?? null,
+        note: parsed.data.action === 'decline' ? parsed.data.note ?? null : null,
+      });
+      if (error) {
+        const known = Object.keys(RESPOND_ERRORS).find((code) => error.message.includes(code));
+        if (known) {
+          return NextResponse.json({ error: RESPOND_ERRORS[known].error, code: known }, { status: RESPOND_ERRORS[known].status });
+        }
+        console.error('Error responding to offer:', error);
+        return NextResponse.json({ error: "Failed to respond to offer", details: error.message }, { status: 500 });
+      }
+      const answered = (Array.isArray(data) ? data[0] : data) as Offer;
+      return NextResponse.json({
+        offer: toOfferView(answered),
+        application: {
+          status: toStatusLabel(accept ? 'hired' : 'rejected'),
+          stageId: stage?.id ?? null,
+          stageName: stage?.name ?? null,
+        },
+      });
+    }
+
+    if (!canMoveApplications(access.role)) {
+      return NextResponse.json({ error: "Forbidden - You can't withdraw offers for this job" }, { status: 403 });
+    }
+    if (offerState(offer as Offer) !== 'extended') {
+      return NextResponse.json({ error: "Only open offers can be withdrawn" }, { status: 409 });
+    }
+
+    // Guard on status so a candidate's answer in the meantime wins
+    const { data, error } = await supabase
+      .from('offers')
+      .update({ status: 'withdrawn', withdrawn_at: new Date().toISOString() })
+      .eq('id', params.offerId)
+      .eq('status', 'extended')
+      .select('*')
+      .maybeSingle();
+    if (error) {
+      console.error('Error withdrawing offer:', error);
+      return NextResponse.json({ error: "Failed to withdraw offer", details: error.message }, { status: 500 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: "The candidate has already answered this offer" }, { status: 409 });
+    }
+
+    return NextResponse.json({ offer: toOfferView(data as Offer) });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { GET, POST } from "./route";
+import { PATCH } from "./[offerId]/route";
+
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: vi.fn(),
+}));
+
+import { createClient } from "@/lib/supabase/server";
+
+const future = (hours: number) => new Date(Date.now() + hours * 3600_000).toISOString();
+
+const openOffer = {
+  id: "offer-1",
+  application_id: "app-1",
+  status: "extended",
+  salary_amount: 120000,
+  salary_currency: "USD",
+  salary_period: "yearly",
+  start_date: "2026-02-01",
+  expires_at: future(72),
+  created_at: "2025-12-24T09:00:00Z",
+};
+
+// Tables answer by filters: maybeSingle() for lookups, awaiting the query for lists
+function mockSupabase(
+  userId: string,
+  { status = "offer", role = "recruiter", rpcError = null }: { status?: string; role?: string; rpcError?: string | null } = {}
+) {
+  const insert = vi.fn();
+  const rpc = vi.fn(async (name: string) =>
+    name === "respond_to_offer"
+      ? rpcError
+        ? { data: null, error: { message: rpcError } }
+        : { data: [{ ...openOffer, status: "accepted", responded_at: "2025-12-24T12:00:00Z" }], error: null }
+      : { data: [future(24)], error: null }
+  );
+  const tables: Record<string, (filters: Record<string, unknown>) => unknown> = {
+    applications: () => ({ id: "app-1", job_id: "job-1", candidate_id: "cand-1", status, stage_id: status }),
+    jobs: () => ({ id: "job-1", title: "Engineer", company: "Acme", employer_id: "rec-1", organization_id: "org-1", pipeline_stages: null }),
+    organization_members: (f) => (f.user_id === "rec-1" ? { organization_id: "org-1", user_id: "rec-1", role } : null),
+    offers: (f) => (f.id ? (f.id === "offer-1" ? openOffer : null) : [openOffer]),
+    candidate_profiles: () => ({ offer_deadline: "2025-12-01T00:00:00.000Z" }),
+  };
+  const client = {
+    auth: { getUser: vi.fn().mockResolvedValue({ data: { user: { id: userId } }, error: null }) },
+    storage: { from: vi.fn(() => ({ upload: vi.fn().mockResolvedValue({ error: null }), remove: vi.fn() })) },
+    rpc,
+    from: vi.fn((table: string) => {
+      const filters: Record<string, unknown> = {};
+      let written: Record<string, unknown> | null = null;
+      const query = {
+        select: vi.fn(() => query),
+        order: vi.fn(() => query),
+        eq: vi.fn((column: string, value: unknown) => {
+          filters[column] = value;
+          return query;
+        }),
+        insert: vi.fn((row: Record<string, unknown>) => {
+          written = row;
+          insert(row);
+          return query;
+        }),
+        update: vi.fn((row: Record<string, unknown>) => {
+          written = row;
+          return query;
+        }),
+        single: vi.fn(async () => ({ data: { id: "offer-2", created_at: "2025-12-24T12:00:00Z", ...written }, error: null })),
+        maybeSingle: vi.fn(async () => ({
+          data: written ? { ...openOffer, ...written } : tables[table](filters),
+          error: null,
+        })),
+        then: (resolve: (value: unknown) => void) => resolve({ data: tables[table](filters), error: null }),
+      };
+      return query;
+    }),
+  };
+  vi.mocked(createClient).mockResolvedValue(client as any);
+  return { insert, rpc };
+}
+
+const context = { params: Promise.resolve({ id: "app-1" }) };
+const offerContext = { params: Promise.resolve({ id: "app-1", offerId: "offer-1" }) };
+const url = "http://localhost/api/applications/app-1/offers";
+const post = (fields: Record<string, string>) => {
+  const form = new FormData();
+  for (const [key, value] of Object.entries(fields)) form.append(key, value);
+  return new NextRequest(url, { method: "POST", body: form });
+};
+const patch = (body: unknown) =>
+  new NextRequest(`${url}/offer-1`, { method: "PATCH", body: JSON.stringify(body), headers: { "Content-Type": "application/json" } });
+
+const validOffer = { salaryAmount: "120000", salaryCurrency: "usd", startDate: "2026-02-01", expiresAt: future(72), equity: "" };
+
+describe("/api/applications/[id]/offers", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("gives the hiring team the candidate's upcoming competing deadlines", async () => {
+    mockSupabase("rec-1");
+    const data = await (await GET(new NextRequest(url), context)).json();
+    expect(data.canManage).toBe(true);
+    expect(data.offers).toEqual([expect.objectContaining({ id: "offer-1", state: "extended", compensation: "$120,000 per year" })]);
+    // The profile deadline has passed; only the other open offer is left
+    expect(data.competingDeadlines).toEqual([{ source: "offer", at: expect.any(String) }]);
+
+    const candidate = mockSupabase("cand-1");
+    const own = await (await GET(new NextRequest(url), context)).json();
+    expect(own.competingDeadlines).toEqual([]);
+    expect(candidate.rpc).not.toHaveBeenCalled();
+  });
+
+  it("extends offers only from an Offer stage and for roles that move applications", async () => {
+    const recruiter = mockSupabase("rec-1");
+    expect((await POST(post(validOffer), context)).status).toBe(201);
+    expect(recruiter.insert).toHaveBeenCalledWith(
+      expect.objectContaining({ salary_amount: 120000, salary_currency: "USD", salary_period: "yearly", equity: null, created_by: "rec-1" })
+    );
+
+    const viewer = mockSupabase("rec-1", { role: "viewer" });
+    expect((await POST(post(validOffer), context)).status).toBe(403);
+    const early = mockSupabase("rec-1", { status: "interview" });
+    expect((await POST(post(validOffer), context)).status).toBe(409);
+    expect((await POST(post({ ...validOffer, salaryAmount: "" }), context)).status).toBe(400);
+    expect(viewer.insert).not.toHaveBeenCalled();
+    expect(early.insert).not.toHaveBeenCalled();
+  });
+
+  it("lets only the candidate answer, into the pipeline's Hired stage", async () => {
+    mockSupabase("rec-1");
+    expect((await PATCH(patch({ action: "accept" }), offerContext)).status).toBe(403);
+
+    const candidate = mockSupabase("cand-1");
+    const res = await PATCH(patch({ action: "accept" }), offerContext);
+    expect(res.status).toBe(200);
+    expect(candidate.rpc).toHaveBeenCalledWith("respond_to_offer", {
+      offer_id: "offer-1",
+      accept: true,
+      target_stage_id: "hired",
+      note: null,
+    });
+    expect((await res.json()).application).toEqual({ status: "Hired", stageId: "hired", stageName: "Hired" });
+
+    mockSupabase("cand-1", { rpcError: "OFFER_EXPIRED" });
+    const expired = await PATCH(patch({ action: "decline", note: "Took another role" }), offerContext);
+    expect(expired.status).toBe(409);
+    expect((await expired.json()).code).toBe("OFFER_EXPIRED");
+  });
+
+  it("lets the hiring team withdraw an open offer", async () => {
+    mockSupabase("cand-1");
+    expect((await PATCH(patch({ action: "withdraw" }), offerContext)).status).toBe(403);
+
+    mockSupabase("rec-1");
+    const res = await PATCH(patch({ action: "withdraw" }), offerContext);
+    expect(res.status).toBe(200);
+    expect((await res.json()).offer.state).toBe("withdrawn");
+  });
+});
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { canMoveApplications } from "@/lib/organizations";
+import { validateResumeUpload } from "@/lib/resume-validation";
+import { RESUME_BUCKET, storageFileName } from "@/lib/resumes";
+import { OfferInputSchema, loadCompetingDeadlines, loadOfferAccess, loadOffers, toOfferView } from "@/lib/offers";
+import type { Offer, OfferInsert } from "@/lib/types/database";
+
+export const runtime = "nodejs";
+
+const OFFER_FIELDS = [
+  "salaryAmount",
+  "salaryCurrency",
+  "salaryPeriod",
+  "signingBonus",
+  "equity",
+  "startDate",
+  "expiresAt",
+  "message",
+] as const;
+
+// GET /api/applications/[id]/offers - The application's offers, newest first.
+// The hiring team also gets the candidate's competing deadlines.
+export async function GET(_req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<{ id: string }> }).params;
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const access = await loadOfferAccess(supabase, user.id, params.id);
+    if (!access) {
+      return NextResponse.json({ error: "Application not found" }, { status: 404 });
+    }
+
+    const offers = await loadOffers(supabase, params.id);
+    return NextResponse.json({
+      offers,
+      job: { title: access.job.title, company: access.job.company },
+      canManage: !access.isCandidate && canMoveApplications(access.role),
+      competingDeadlines: access.isCandidate ? [] : await loadCompetingDeadlines(supabase, access),
+    });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/applications/[id]/offers - Extend an offer (multipart: the offer
+// fields, and an optional letter checked like a resume upload)
+export async function POST(req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<{ id: string }> }).params;
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const form = await req.formData().catch(() => null);
+    if (!form) {
+      return NextResponse.json({ error: "Invalid offer" }, { status: 400 });
+    }
+    // Blank optional fields are left out rather than validated as empty
+    const fields: Record<string, string> = {};
+    for (const key of OFFER_FIELDS) {
+      const value = form.get(key);
+      if (typeof value === "string" && value.trim()) fields[key] = value;
+    }
+    const parsed = OfferInputSchema.safeParse(fields);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid offer", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const access = await loadOfferAccess(supabase, user.id, params.id);
+    if (!access) {
+      return NextResponse.json({ error: "Application not found" }, { status: 404 });
+    }
+    if (access.isCandidate || !canMoveApplications(access.role)) {
+      return NextResponse.json({ error: "Forbidden - You can't extend offers for this job" }, { status: 403 });
+    }
+    if (access.application.status !== 'offer') {
+      return NextResponse.json({ error: "Move the application to an Offer stage before extending an offer" }, { status: 409 });
+    }
+
+    const input = parsed.data;
+    const row: OfferInsert = {
+      application_id: params.id,
+      created_by: user.id,
+      salary_amount: input.salaryAmount,
+      salary_currency: input.salaryCurrency,
+      salary_period: input.salaryPeriod,
+      signing_bonus: input.signingBonus ?? null,
+      equity: input.equity || null,
+      start_date: input.startDate,
+      expires_at: new Date(input.expiresAt).toISOString(),
+      message: input.message || null,
+    };
+
+    const file = form.get('letter');
+    const letter = file instanceof File && file.size > 0 ? file : null;
+    if (letter) {
+      // Same checks as a resume: content-sniffed type, no encryption or macros, malware scan
+      const bytes = new Uint8Array(await letter.arrayBuffer());
+      const validation = await validateResumeUpload(bytes, letter);
+      if (!validation.ok) {
+        const status = validation.code === "SCAN_FAILED" ? 503 : 400;
+        return NextResponse.json({ error: validation.message, code: validation.code }, { status });
+      }
+
+      const path = `${user.id}/offers/${params.id}/${Date.now()}-${storageFileName(letter.name)}`;
+      const { error: uploadError } = await supabase.storage.from(RESUME_BUCKET).upload(path, letter, {
+        contentType: validation.mimeType,
+      });
+      if (uploadError) {
+        console.error('Error uploading offer letter:', uploadError);
+        return NextResponse.json({ error: "Failed to upload offer letter", details: uploadError.message }, { status: 500 });
+      }
+      row.letter_path = path;
+      row.letter_name = letter.name;
+      row.letter_mime = validation.mimeType;
+      row.letter_size = letter.size;
+    }
+
+    const { data, error } = await supabase.from('offers').insert(row).select('*').single();
+    if (error || !data) {
+      if (row.letter_path) await supabase.storage.from(RESUME_BUCKET).remove([row.letter_path]);
+      if (error?.code === '23505') {
+        return NextResponse.json({ error: "This application already has an open offer. Withdraw it first." }, { status: 409 });
+      }
+      console.error('Error extending offer:', error);
+      return NextResponse.json({ error: "Failed to extend offer", details: error?.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ offer: toOfferView(data as Offer) }, { status: 201 });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
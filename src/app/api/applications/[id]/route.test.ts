@@ -0,0 +1,263 @@
+// =============================================
+// API ENDPOINT TESTS
+// Tests for GET /api/applications/[id] and its PATCH status transitions
+// =============================================
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET, PATCH } from "./route";
+import { NextRequest } from "next/server";
+
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: vi.fn(),
+}));
+
+vi.mock("@/lib/notification-delivery", () => ({
+  sendNotifications: vi.fn().mockResolvedValue({ recorded: 1, sent: 1, skipped: 0, failed: 0 }),
+}));
+
+import { createClient } from "@/lib/supabase/server";
+import { sendNotifications } from "@/lib/notification-delivery";
+
+const APPLICATION_ID = "1c43cdc0-ec21-4d25-8723-6ccf0246eda3";
+const CANDIDATE_ID = "550e8400-e29b-41d4-a716-446655440001";
+const RECRUITER_ID = "550e8400-e29b-41d4-a716-446655440002";
+
+function createMockRequest(body: any): NextRequest {
+  return {
+    json: async () => body,
+  } as NextRequest;
+}
+
+const params = { params: Promise.resolve({ id: APPLICATION_ID }) };
+
+// Supabase mock for one application in `status`, owned by RECRUITER_ID's job.
+// With `membership`, the job belongs to org-1 and the caller has that membership.
+function createMockSupabase(userId: string, status: string, membership?: { organization_id: string; role: string }) {
+  // move_application() on the default pipeline, where stage ids are the statuses
+  const rpc = vi.fn(async (_name: string, args: { target_stage_id: string }) => ({
+    data: [{ id: APPLICATION_ID, job_id: "job-1", applied_at: "2025-10-28T00:00:00Z", status: args.target_stage_id, stage_id: args.target_stage_id }],
+    error: null,
+  }));
+  const supabase = {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({ data: { user: { id: userId } }, error: null }),
+    },
+    rpc,
+    from: vi.fn((table: string) => {
+      if (table === "applications") {
+        return {
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          single: vi.fn().mockResolvedValue({
+            data: { candidate_id: CANDIDATE_ID, job_id: "job-1", status, stage_id: status },
+            error: null,
+          }),
+        };
+      }
+      if (table === "jobs") {
+        return {
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          single: vi.fn().mockResolvedValue({
+            data: { title: "Engineer", company: "Acme", employer_id: RECRUITER_ID, organization_id: membership ? "org-1" : null, pipeline_stages: null },
+            error: null,
+          }),
+        };
+      }
+      if (table === "candidate_profiles") {
+        return {
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          maybeSingle: vi.fn().mockResolvedValue({ data: { name: "Ada" }, error: null }),
+        };
+      }
+      if (table === "organization_members") {
+        return {
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          maybeSingle: vi.fn().mockResolvedValue({ data: membership ? { user_id: userId, ...membership } : null, error: null }),
+        };
+      }
+      return {};
+    }),
+  };
+  return { supabase, rpc };
+}
+
+describe("PATCH /api/applications/[id] - status transitions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lets the recruiter advance an application through move_application", async () => {
+    const { supabase, rpc } = createMockSupabase(RECRUITER_ID, "applied");
+    vi.mocked(createClient).mockResolvedValue(supabase as any);
+
+    const response = await PATCH(createMockRequest({ stageId: "interview", reason: "Strong resume" }), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.status).toBe("Interview");
+    expect(rpc).toHaveBeenCalledWith("move_application", {
+      app_id: APPLICATION_ID,
+      target_stage_id: "interview",
+      expected_status: "applied",
+      move_reason: "Strong resume",
+    });
+    expect(sendNotifications).toHaveBeenCalledWith(
+      supabase,
+      [
+        expect.objectContaining({
+          type: "status_changed",
+          recipientId: CANDIDATE_ID,
+          applicationId: APPLICATION_ID,
+          jobId: "job-1",
+          variables: expect.objectContaining({ candidate_name: "Ada", job_title: "Engineer", status: "Interview" }),
+        }),
+      ],
+      { senderId: RECRUITER_ID }
+    );
+  });
+
+  it("rejects a candidate marking themselves hired", async () => {
+    const { supabase, rpc } = createMockSupabase(CANDIDATE_ID, "offer");
+    vi.mocked(createClient).mockResolvedValue(supabase as any);
+
+    const response = await PATCH(createMockRequest({ status: "Hired" }), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(data.error).toBe("Invalid status transition");
+    expect(data.allowedStageIds).toEqual(["rejected"]);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it("lets a candidate withdraw", async () => {
+    const { supabase } = createMockSupabase(CANDIDATE_ID, "interview");
+    vi.mocked(createClient).mockResolvedValue(supabase as any);
+
+    const response = await PATCH(createMockRequest({ status: "Rejected" }), params);
+    expect(response.status).toBe(200);
+    // Candidates aren't emailed about their own changes
+    expect(sendNotifications).not.toHaveBeenCalled();
+  });
+
+  it("rejects a recruiter moving Rejected back to Offer", async () => {
+    const { supabase, rpc } = createMockSupabase(RECRUITER_ID, "rejected");
+    vi.mocked(createClient).mockResolvedValue(supabase as any);
+
+    const response = await PATCH(createMockRequest({ stageId: "offer" }), params);
+
+    expect(response.status).toBe(409);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it("reports a status changed in the meantime", async () => {
+    const { supabase, rpc } = createMockSupabase(RECRUITER_ID, "applied");
+    rpc.mockResolvedValueOnce({ data: null, error: { message: "STATUS_CHANGED" } } as any);
+    vi.mocked(createClient).mockResolvedValue(supabase as any);
+
+    const response = await PATCH(createMockRequest({ stageId: "interview" }), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(data.code).toBe("STATUS_CHANGED");
+    expect(sendNotifications).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 for an overly long reason", async () => {
+    const { supabase } = createMockSupabase(RECRUITER_ID, "applied");
+    vi.mocked(createClient).mockResolvedValue(supabase as any);
+
+    const response = await PATCH(createMockRequest({ stageId: "interview", reason: "x".repeat(501) }), params);
+    expect(response.status).toBe(400);
+  });
+
+  it("lets a colleague on the hiring team move applications for their organization's job", async () => {
+    const COLLEAGUE_ID = "550e8400-e29b-41d4-a716-446655440003";
+    const { supabase, rpc } = createMockSupabase(COLLEAGUE_ID, "applied", { organization_id: "org-1", role: "hiring_manager" });
+    vi.mocked(createClient).mockResolvedValue(supabase as any);
+
+    const response = await PATCH(createMockRequest({ stageId: "interview" }), params);
+
+    expect(response.status).toBe(200);
+    expect(rpc).toHaveBeenCalledWith("move_application", expect.objectContaining({ target_stage_id: "interview" }));
+  });
+
+  it("rejects viewers and members of other organizations", async () => {
+    const COLLEAGUE_ID = "550e8400-e29b-41d4-a716-446655440003";
+    const viewer = createMockSupabase(COLLEAGUE_ID, "applied", { organization_id: "org-1", role: "viewer" });
+    vi.mocked(createClient).mockResolvedValue(viewer.supabase as any);
+    expect((await PATCH(createMockRequest({ stageId: "interview" }), params)).status).toBe(403);
+    expect(viewer.rpc).not.toHaveBeenCalled();
+
+    const outsider = createMockSupabase(COLLEAGUE_ID, "applied", { organization_id: "org-2", role: "admin" });
+    vi.mocked(createClient).mockResolvedValue(outsider.supabase as any);
+    expect((await PATCH(createMockRequest({ stageId: "interview" }), params)).status).toBe(403);
+  });
+});
+
+describe("GET /api/applications/[id] - candidate details", () => {
+  const PROFILE = {
+    user_id: CANDIDATE_ID,
+    name: "Ada",
+    email: "ada@example.com",
+    skills: ["TypeScript"],
+    eeo_gender: "Woman",
+    eeo_race_ethnicity: "Asian",
+    eeo_veteran_status: "Protected Veteran",
+    eeo_disability_status: "Yes",
+  };
+
+  // Every table answers with one row; candidate_profiles only returns the selected columns
+  function createGetSupabase() {
+    const profileSelect = vi.fn();
+    const rows: Record<string, unknown> = {
+      applications: { id: APPLICATION_ID, job_id: "job-1", candidate_id: CANDIDATE_ID, status: "applied", stage_id: "applied" },
+      jobs: { id: "job-1", title: "Engineer", company: "Acme", employer_id: RECRUITER_ID, organization_id: null, pipeline_stages: null },
+    };
+    const supabase = {
+      auth: {
+        getUser: vi.fn().mockResolvedValue({ data: { user: { id: RECRUITER_ID } }, error: null }),
+      },
+      from: vi.fn((table: string) => {
+        let row = rows[table] ?? null;
+        const query: any = {};
+        for (const method of ["eq", "in", "order"]) query[method] = vi.fn(() => query);
+        query.select = vi.fn((columns: string) => {
+          if (table === "candidate_profiles") {
+            profileSelect(columns);
+            const selected = columns.split(",").map((column) => column.trim());
+            row = Object.fromEntries(Object.entries(PROFILE).filter(([key]) => selected.includes(key)));
+          }
+          return query;
+        });
+        query.single = vi.fn(async () => ({ data: row, error: null }));
+        query.maybeSingle = query.single;
+        query.then = (resolve: (value: unknown) => void) => resolve({ data: [], error: null });
+        return query;
+      }),
+    };
+    return { supabase, profileSelect };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("never reads or returns the candidate's EEO answers", async () => {
+    const { supabase, profileSelect } = createGetSupabase();
+    vi.mocked(createClient).mockResolvedValue(supabase as any);
+
+    const response = await GET({} as NextRequest, params);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.candidate).toMatchObject({ userId: CANDIDATE_ID, name: "Ada", email: "ada@example.com" });
+    expect(profileSelect).toHaveBeenCalledTimes(1);
+    expect(profileSelect.mock.calls[0][0]).not.toMatch(/eeo|\*/);
+    const body = JSON.stringify(data);
+    expect(body).not.toMatch(/eeo/i);
+    for (const answer of ["Woman", "Asian", "Protected Veteran"]) expect(body).not.toContain(answer);
+  });
+});
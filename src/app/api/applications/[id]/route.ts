@@ -1,8 +1,33 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { currentStage, findStage, resolvePipeline, resolveTargetStage, toStatusLabel } from "@/lib/pipeline";
+import {
+  MAX_TRANSITION_REASON_LENGTH,
+  allowedTargetStages,
+  canMoveToStage,
+  fetchStatusHistory,
+} from "@/lib/status-transitions";
+import { parseJobRequirements } from "@/lib/job-requirements";
+import { isFileAnswer, readJobQuestions } from "@/lib/supplemental-questions";
+import { resumeDownloadPath } from "@/lib/resumes";
+import { canMoveApplications, jobRole } from "@/lib/organizations";
+import { loadApplicationScorecards, resolveCompetencies } from "@/lib/scorecards";
+import { appUrl } from "@/lib/notifications";
+import { sendNotifications } from "@/lib/notification-delivery";
+import { RECRUITER_CANDIDATE_COLUMNS } from "@/lib/eeo";
+import type { ApplicationStatus, StatusActorRole } from "@/lib/types/database";
 
 export const runtime = "nodejs";
 
+// move_application() errors
+const MOVE_ERRORS: Record<string, { error: string; status: number }> = {
+  APPLICATION_NOT_FOUND: { error: "Application not found", status: 404 },
+  FORBIDDEN: { error: "Forbidden", status: 403 },
+  STATUS_CHANGED: { error: "Application was updated by someone else, please reload", status: 409 },
+  INVALID_STAGE: { error: "Invalid status", status: 400 },
+  INVALID_TRANSITION: { error: "Invalid status transition", status: 409 },
+};
+
 // GET - Fetch single application with full candidate details
 export async function GET(
   req: NextRequest,
@@ -40,25 +65,19 @@ export async function GET(
       return NextResponse.json({ error: "Job not found" }, { status: 404 });
     }
 
-    // Debug logging
-    console.log('[Application Detail] Auth check:', {
-      userId: user.id,
-      jobEmployerId: job.employer_id,
-      match: job.employer_id === user.id
-    });
-
-    // Verify recruiter owns this job
-    // If employer_id is null, allow any authenticated recruiter (legacy jobs)
-    if (job.employer_id && job.employer_id !== user.id) {
+    // Verify the job belongs to the recruiter's organization
+    // If the job has neither an organization nor an employer_id, allow any authenticated recruiter (legacy jobs)
+    const role = job.organization_id || job.employer_id ? await jobRole(supabase, user.id, job) : "recruiter";
+    if (!role) {
       return NextResponse.json({ 
         error: "Forbidden - You don't have permission to view this application" 
       }, { status: 403 });
     }
 
-    // Fetch candidate profile with all details
+    // Fetch the candidate's profile; EEO answers stay out of recruiter views
     const { data: candidate, error: candidateError } = await supabase
       .from('candidate_profiles')
-      .select('*')
+      .select(RECRUITER_CANDIDATE_COLUMNS)
       .eq('user_id', application.candidate_id)
       .single();
 
@@ -66,15 +85,18 @@ export async function GET(
       return NextResponse.json({ error: "Candidate not found" }, { status: 404 });
     }
 
-    // Transform status from DB format to API format
-    const statusMap: Record<string, string> = {
-      applied: 'Applied',
-      under_review: 'Under Review',
-      interview: 'Interview',
-      offer: 'Offer',
-      hired: 'Hired',
-      rejected: 'Rejected',
-    };
+    const pipelineStages = resolvePipeline(job);
+    const stage = currentStage(pipelineStages, application);
+    const history = await fetchStatusHistory(supabase, application.id);
+    // Viewers see the pipeline but can't move applications
+    const allowedStageIds = canMoveApplications(role)
+      ? allowedTargetStages("recruiter", pipelineStages, {
+          status: application.status,
+          stageId: stage?.id ?? null,
+        }).map((s) => s.id)
+      : [];
+    // Each interviewer only sees colleagues' scorecards after submitting their own
+    const scorecards = await loadApplicationScorecards(supabase, user.id, application.id, resolveCompetencies(job));
 
     // Return full application details
     return NextResponse.json({
@@ -82,12 +104,35 @@ export async function GET(
         id: application.id,
         jobId: application.job_id,
         candidateId: application.candidate_id,
-        status: statusMap[application.status] || 'Applied',
-        resumeUrl: application.resume_url,
+        status: toStatusLabel(application.status),
+        stageId: stage?.id ?? null,
+        stageName: stage?.name ?? null,
+        // Files live in a private bucket; link them through the download route
+        resumeUrl: application.resume_url || application.resume_path ? resumeDownloadPath(application.id) : null,
         coverLetter: application.cover_letter,
-        supplementalAnswers: application.supplemental_answers,
+        supplementalAnswers: application.supplemental_answers
+          ? Object.fromEntries(
+              Object.entries(application.supplemental_answers as Record<string, unknown>).map(([questionId, answer]) => [
+                questionId,
+                isFileAnswer(answer) ? { ...answer, url: resumeDownloadPath(application.id, questionId) } : answer,
+              ])
+            )
+          : application.supplemental_answers,
+        flagged: application.flagged ?? false,
+        knockoutResults: application.knockout_results ?? [],
         appliedAt: application.applied_at,
         updatedAt: application.updated_at,
+        allowedStageIds,
+        statusHistory: history.map((event) => ({
+          id: event.id,
+          fromStatus: event.from_status ? toStatusLabel(event.from_status) : null,
+          toStatus: toStatusLabel(event.to_status),
+          fromStageName: findStage(pipelineStages, event.from_stage_id)?.name ?? null,
+          toStageName: findStage(pipelineStages, event.to_stage_id)?.name ?? null,
+          actorRole: event.actor_role,
+          reason: event.reason,
+          createdAt: event.created_at,
+        })),
       },
       job: {
         id: job.id,
@@ -96,11 +141,14 @@ export async function GET(
         location: job.location,
         description: job.description,
         salaryRange: job.salary_range,
-        requirements: job.requirements,
-        supplementalQuestions: job.requirements && typeof job.requirements === 'object' 
-          ? (job.requirements as any).supplementalQuestions 
-          : undefined,
+        requirements: parseJobRequirements(job.requirements),
+        supplementalQuestions: readJobQuestions(job),
         status: job.status,
+        pipelineStages,
+      },
+      scorecards: {
+        ...scorecards,
+        canSubmit: canMoveApplications(role),
       },
       candidate: {
         userId: candidate.user_id,
@@ -108,7 +156,7 @@ export async function GET(
         email: candidate.email,
         phone: candidate.phone,
         education: candidate.education,
-        resumeUrl: candidate.resume_url,
+        resumeUrl: candidate.resume_url ? resumeDownloadPath(application.id) : null,
         skills: candidate.skills,
         experience: candidate.experience,
         certifications: candidate.certifications,
@@ -133,14 +181,20 @@ export async function PATCH(
     const supabase = await createClient();
     const { id: applicationId } = await params;
     const body = await req.json();
-    const status = body?.status as string;
 
-    // Validate status
-    const validStatuses = ["Applied", "Under Review", "Interview", "Offer", "Hired", "Rejected"];
-    if (!status || !validStatuses.includes(status)) {
+    // Accept either a pipeline stage id or a legacy status label
+    if (!body?.stageId && !body?.status) {
       return NextResponse.json({ error: "Invalid status" }, { status: 400 });
     }
 
+    // Optional note stored with the history entry (e.g. rejection or withdrawal reason)
+    const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+    if (reason.length > MAX_TRANSITION_REASON_LENGTH) {
+      return NextResponse.json({
+        error: `Reason must be ${MAX_TRANSITION_REASON_LENGTH} characters or less`,
+      }, { status: 400 });
+    }
+
     // Authenticate user
     const { data: authData, error: authError } = await supabase.auth.getUser();
     if (authError || !authData.user) {
@@ -150,7 +204,7 @@ export async function PATCH(
     // Get the application to check authorization
     const { data: application, error: appError } = await supabase
       .from("applications")
-      .select("candidate_id, job_id")
+      .select("candidate_id, job_id, status, stage_id")
       .eq("id", applicationId)
       .single();
 
@@ -158,62 +212,94 @@ export async function PATCH(
       return NextResponse.json({ error: "Application not found" }, { status: 404 });
     }
 
-    // Check if user owns this application OR owns the job (recruiter)
+    // Check if user owns this application OR is on the job's hiring team
     const { data: job } = await supabase
       .from("jobs")
-      .select("employer_id")
+      .select("title, company, employer_id, organization_id, pipeline_stages")
       .eq("id", application.job_id)
       .single();
 
-    const isJobOwner = job?.employer_id === authData.user.id;
+    const isHiringTeam = job ? canMoveApplications(await jobRole(supabase, authData.user.id, job)) : false;
     const isCandidate = application.candidate_id === authData.user.id;
 
-    if (!isJobOwner && !isCandidate) {
+    if (!isHiringTeam && !isCandidate) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    // Map frontend status to DB enum format
-    const statusMap: Record<string, string> = {
-      "Applied": "applied",
-      "Under Review": "under_review",
-      "Interview": "interview",
-      "Offer": "offer",
-      "Hired": "hired",
-      "Rejected": "rejected",
-    };
+    // The hiring team acts as recruiters, even on their own application
+    const role: StatusActorRole = isHiringTeam ? "recruiter" : "candidate";
 
-    const dbStatus = statusMap[status];
+    // Resolve the target stage against this job's pipeline
+    const pipelineStages = resolvePipeline(job);
+    const targetStage = resolveTargetStage(pipelineStages, { stageId: body.stageId, status: body.status });
+    if (!targetStage) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
 
-    // Update the application
-    const { data: updated, error: updateError } = await supabase
-      .from("applications")
-      .update({ status: dbStatus })
-      .eq("id", applicationId)
-      .select()
-      .single();
+    const fromStatus = application.status as ApplicationStatus;
+    const fromStage = currentStage(pipelineStages, application);
+    const from = { status: fromStatus, stageId: fromStage?.id ?? null };
 
-    if (updateError) {
-      return NextResponse.json({ error: updateError.message }, { status: 400 });
+    if (!canMoveToStage(role, from, targetStage)) {
+      return NextResponse.json({
+        error: "Invalid status transition",
+        message: `${role === "candidate" ? "Candidates" : "Recruiters"} cannot move an application from ${fromStage?.name ?? toStatusLabel(fromStatus)} to ${targetStage.name}`,
+        allowedStageIds: allowedTargetStages(role, pipelineStages, from).map((s) => s.id),
+      }, { status: 409 });
     }
 
+    // move_application() checks the transition again in the database, logs it
+    // and only applies it if the status is still the one we checked.
+    const { data, error: moveError } = await supabase.rpc("move_application", {
+      app_id: applicationId,
+      target_stage_id: targetStage.id,
+      expected_status: fromStatus,
+      move_reason: reason || null,
+    });
+
+    if (moveError) {
+      const known = Object.keys(MOVE_ERRORS).find((code) => moveError.message.includes(code));
+      if (known) {
+        return NextResponse.json({ error: MOVE_ERRORS[known].error, code: known }, { status: MOVE_ERRORS[known].status });
+      }
+      return NextResponse.json({ error: moveError.message }, { status: 400 });
+    }
+    const updated = Array.isArray(data) ? data[0] : data;
     if (!updated) {
       return NextResponse.json({ error: "Application not found" }, { status: 404 });
     }
 
-    // Return in frontend format
-    const reverseMap: Record<string, string> = {
-      "applied": "Applied",
-      "under_review": "Under Review",
-      "interview": "Interview",
-      "offer": "Offer",
-      "hired": "Hired",
-      "rejected": "Rejected",
-    };
+    // Tell the candidate when the hiring team changes their status; moves
+    // between stages with the same outcome look the same to them
+    if (role === "recruiter" && targetStage.status !== fromStatus && job && application.candidate_id) {
+      const { data: candidate } = await supabase
+        .from("candidate_profiles")
+        .select("name")
+        .eq("user_id", application.candidate_id)
+        .maybeSingle();
+      await sendNotifications(supabase, [{
+        type: "status_changed",
+        recipientId: application.candidate_id,
+        applicationId,
+        jobId: application.job_id,
+        variables: {
+          candidate_name: candidate?.name || "there",
+          job_title: job.title,
+          company: job.company,
+          status: toStatusLabel(targetStage.status),
+          dashboard_url: appUrl("/candidate"),
+        },
+      }], { senderId: authData.user.id });
+    }
 
+    // Return in frontend format
+    const stage = currentStage(pipelineStages, updated);
     return NextResponse.json({
       id: updated.id,
       jobId: updated.job_id,
-      status: reverseMap[updated.status] || "Applied",
+      status: toStatusLabel(updated.status),
+      stageId: stage?.id ?? null,
+      stageName: stage?.name ?? null,
       appliedAt: updated.applied_at,
     });
   } catch (error) {
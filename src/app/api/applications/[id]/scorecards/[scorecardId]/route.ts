@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { ScorecardInputSchema, checkScorecard, resolveCompetencies, toScorecardView } from "@/lib/scorecards";
+import type { Scorecard } from "@/lib/types/database";
+
+export const runtime = "nodejs";
+
+type Params = { id: string; scorecardId: string };
+
+// PATCH /api/applications/[id]/scorecards/[scorecardId] - Update a draft scorecard,
+// or submit it with { submit: true }. Submitted scorecards are final.
+export async function PATCH(req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<Params> }).params;
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const parsed = ScorecardInputSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid scorecard", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const input = parsed.data;
+
+    // Only the author can see a draft, so anyone else gets a 404
+    const { data: scorecard } = await supabase
+      .from('scorecards')
+      .select('*')
+      .eq('id', params.scorecardId)
+      .eq('application_id', params.id)
+      .maybeSingle();
+    if (!scorecard || scorecard.interviewer_id !== user.id) {
+      return NextResponse.json({ error: "Scorecard not found" }, { status: 404 });
+    }
+    if (scorecard.submitted_at) {
+      return NextResponse.json({ error: "Submitted scorecards can't be changed" }, { status: 409 });
+    }
+
+    const { data: application } = await supabase
+      .from('applications')
+      .select('job_id')
+      .eq('id', params.id)
+      .maybeSingle();
+    const { data: job } = application
+      ? await supabase.from('jobs').select('scorecard_competencies').eq('id', application.job_id).maybeSingle()
+      : { data: null };
+    const problem = checkScorecard(resolveCompetencies(job), input);
+    if (problem) {
+      return NextResponse.json({ error: problem }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('scorecards')
+      .update({
+        ratings: input.ratings,
+        notes: input.notes || null,
+        recommendation: input.recommendation ?? null,
+        submitted_at: input.submit ? new Date().toISOString() : null,
+      })
+      .eq('id', params.scorecardId)
+      .select('*')
+      .single();
+    if (error) {
+      console.error('Error updating scorecard:', error);
+      return NextResponse.json({ error: "Failed to save scorecard", details: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(toScorecardView(data as Scorecard));
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/applications/[id]/scorecards/[scorecardId] - Discard a draft
+export async function DELETE(_req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<Params> }).params;
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: scorecard } = await supabase
+      .from('scorecards')
+      .select('id, interviewer_id, submitted_at')
+      .eq('id', params.scorecardId)
+      .eq('application_id', params.id)
+      .maybeSingle();
+    if (!scorecard || scorecard.interviewer_id !== user.id) {
+      return NextResponse.json({ error: "Scorecard not found" }, { status: 404 });
+    }
+    if (scorecard.submitted_at) {
+      return NextResponse.json({ error: "Submitted scorecards can't be deleted" }, { status: 409 });
+    }
+
+    const { error } = await supabase.from('scorecards').delete().eq('id', params.scorecardId);
+    if (error) {
+      console.error('Error deleting scorecard:', error);
+      return NextResponse.json({ error: "Failed to delete scorecard", details: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { POST } from "./route";
+import { PATCH } from "./[scorecardId]/route";
+
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: vi.fn(),
+}));
+
+import { createClient } from "@/lib/supabase/server";
+
+const competencies = [
+  { id: "coding", name: "Coding" },
+  { id: "design", name: "System design" },
+];
+
+// One application on org-1's job; `existing` is the scorecard PATCH loads
+function mockSupabase(userId: string, role: string | null, existing?: Record<string, unknown>) {
+  const insert = vi.fn();
+  const update = vi.fn();
+  const tables: Record<string, () => unknown> = {
+    applications: () => ({ id: "app-1", job_id: "job-1" }),
+    jobs: () => ({ employer_id: "someone", organization_id: "org-1", scorecard_competencies: competencies }),
+    organization_members: () => (role ? { organization_id: "org-1", user_id: userId, role } : null),
+    scorecards: () => existing ?? null,
+  };
+  const client = {
+    auth: { getUser: vi.fn().mockResolvedValue({ data: { user: { id: userId } }, error: null }) },
+    from: vi.fn((table: string) => {
+      let written: Record<string, unknown> | null = null;
+      const query = {
+        select: vi.fn(() => query),
+        eq: vi.fn(() => query),
+        insert: vi.fn((row: Record<string, unknown>) => {
+          written = row;
+          insert(row);
+          return query;
+        }),
+        update: vi.fn((values: Record<string, unknown>) => {
+          written = { ...existing, ...values };
+          update(values);
+          return query;
+        }),
+        maybeSingle: vi.fn(async () => ({ data: tables[table](), error: null })),
+        single: vi.fn(async () => ({ data: { id: "sc-1", updated_at: "2025-12-19T10:00:00Z", ...written }, error: null })),
+      };
+      return query;
+    }),
+  };
+  vi.mocked(createClient).mockResolvedValue(client as any);
+  return { insert, update };
+}
+
+const request = (method: string, body: unknown) =>
+  new NextRequest("http://localhost/api/applications/app-1/scorecards", { method, body: JSON.stringify(body) });
+const context = { params: Promise.resolve({ id: "app-1", scorecardId: "sc-1" }) };
+
+describe("/api/applications/[id]/scorecards", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lets a hiring manager submit a complete scorecard", async () => {
+    const { insert } = mockSupabase("hm-1", "hiring_manager");
+    const res = await POST(
+      request("POST", { ratings: { coding: 3, design: 4 }, notes: "Solid", recommendation: "hire", submit: true }),
+      context
+    );
+
+    expect(res.status).toBe(201);
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({ application_id: "app-1", interviewer_id: "hm-1", recommendation: "hire", submitted_at: expect.any(String) })
+    );
+    expect(await res.json()).toMatchObject({ interviewerId: "hm-1", ratings: { coding: 3, design: 4 } });
+  });
+
+  it("refuses viewers and incomplete submissions", async () => {
+    const viewer = mockSupabase("v-1", "viewer");
+    expect((await POST(request("POST", { ratings: { coding: 3 } }), context)).status).toBe(403);
+    expect(viewer.insert).not.toHaveBeenCalled();
+
+    const { insert } = mockSupabase("hm-1", "hiring_manager");
+    const res = await POST(request("POST", { ratings: { coding: 3 }, recommendation: "hire", submit: true }), context);
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("Rate System design before submitting");
+    expect(insert).not.toHaveBeenCalled();
+
+    // Drafts can be partial
+    expect((await POST(request("POST", { ratings: { coding: 3 } }), context)).status).toBe(201);
+  });
+
+  it("keeps submitted scorecards final and drafts private", async () => {
+    const submitted = { id: "sc-1", application_id: "app-1", interviewer_id: "hm-1", submitted_at: "2025-12-19T10:00:00Z" };
+    const { update } = mockSupabase("hm-1", "hiring_manager", submitted);
+    expect((await PATCH(request("PATCH", { ratings: { coding: 1 } }), context)).status).toBe(409);
+    expect(update).not.toHaveBeenCalled();
+
+    mockSupabase("hm-2", "hiring_manager", { ...submitted, submitted_at: null });
+    expect((await PATCH(request("PATCH", { ratings: { coding: 1 } }), context)).status).toBe(404);
+
+    const draft = mockSupabase("hm-1", "hiring_manager", { ...submitted, submitted_at: null });
+    const res = await PATCH(request("PATCH", { ratings: { coding: 2, design: 2 }, recommendation: "no_hire", submit: true }), context);
+    expect(res.status).toBe(200);
+    expect(draft.update).toHaveBeenCalledWith(expect.objectContaining({ recommendation: "no_hire", submitted_at: expect.any(String) }));
+  });
+});
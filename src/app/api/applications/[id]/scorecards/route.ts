@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { canMoveApplications, jobRole } from "@/lib/organizations";
+import { ScorecardInputSchema, checkScorecard, resolveCompetencies, toScorecardView } from "@/lib/scorecards";
+import type { Scorecard, ScorecardInsert } from "@/lib/types/database";
+
+export const runtime = "nodejs";
+
+// POST /api/applications/[id]/scorecards - Start (or submit) the caller's scorecard
+// for an interview. Scorecards are listed on GET /api/applications/[id].
+export async function POST(req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<{ id: string }> }).params;
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const parsed = ScorecardInputSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid scorecard", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const input = parsed.data;
+
+    const { data: application } = await supabase
+      .from('applications')
+      .select('id, job_id')
+      .eq('id', params.id)
+      .maybeSingle();
+    if (!application) {
+      return NextResponse.json({ error: "Application not found" }, { status: 404 });
+    }
+    const { data: job } = await supabase
+      .from('jobs')
+      .select('employer_id, organization_id, scorecard_competencies')
+      .eq('id', application.job_id)
+      .maybeSingle();
+    if (!job || !canMoveApplications(await jobRole(supabase, user.id, job))) {
+      return NextResponse.json({ error: "Forbidden - You can't review applications for this job" }, { status: 403 });
+    }
+
+    const problem = checkScorecard(resolveCompetencies(job), input);
+    if (problem) {
+      return NextResponse.json({ error: problem }, { status: 400 });
+    }
+
+    if (input.interviewId) {
+      const { data: interview } = await supabase
+        .from('interviews')
+        .select('id')
+        .eq('id', input.interviewId)
+        .eq('application_id', params.id)
+        .maybeSingle();
+      if (!interview) {
+        return NextResponse.json({ error: "Interview not found" }, { status: 404 });
+      }
+    }
+
+    const row: ScorecardInsert = {
+      application_id: params.id,
+      interview_id: input.interviewId ?? null,
+      interviewer_id: user.id,
+      ratings: input.ratings as ScorecardInsert["ratings"],
+      notes: input.notes || null,
+      recommendation: input.recommendation ?? null,
+      submitted_at: input.submit ? new Date().toISOString() : null,
+    };
+    const { data, error } = await supabase.from('scorecards').insert(row).select('*').single();
+    if (error) {
+      // idx_scorecards_one_per_interviewer
+      if (error.code === '23505') {
+        return NextResponse.json({ error: "You already have a scorecard for this interview" }, { status: 409 });
+      }
+      console.error('Error creating scorecard:', error);
+      return NextResponse.json({ error: "Failed to save scorecard", details: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(toScorecardView(data as Scorecard), { status: 201 });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { POST } from "./route";
+
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: vi.fn(),
+}));
+
+import { createClient } from "@/lib/supabase/server";
+
+const JOB = {
+  id: "job-1",
+  requirements: null,
+  supplemental_questions: [
+    { id: "portfolio", question: "Portfolio", type: "file", required: true, rules: { acceptedFileTypes: ["pdf", "png"] } },
+  ],
+};
+
+function mockSupabase() {
+  const upload = vi.fn().mockResolvedValue({ error: null });
+  const supabase = {
+    auth: { getUser: vi.fn().mockResolvedValue({ data: { user: { id: "cand-1" } }, error: null }) },
+    from: vi.fn(() => {
+      const query: any = {};
+      query.select = vi.fn(() => query);
+      query.eq = vi.fn(() => query);
+      query.single = vi.fn(async () => ({ data: JOB, error: null }));
+      return query;
+    }),
+    storage: {
+      from: vi.fn(() => ({
+        upload,
+      })),
+    },
+  };
+  vi.mocked(createClient).mockResolvedValue(supabase as any);
+  return { upload };
+}
+
+function upload(file: File) {
+  const form = new FormData();
+  form.append("file", file);
+  form.append("jobId", "job-1");
+  form.append("questionId", "portfolio");
+  return POST({ formData: async () => form } as unknown as NextRequest);
+}
+
+describe("POST /api/applications/attachments", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("stores a file whose contents match its type", async () => {
+    const { upload: storageUpload } = mockSupabase();
+    const pdf = "%PDF-1.7\n1 0 obj\n<< /Type /Catalog >>\nendobj\ntrailer\n<< /Root 1 0 R >>\n%%EOF\n";
+
+    const res = await upload(new File([pdf], "work.pdf", { type: "application/pdf" }));
+    const data = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(data).toMatchObject({ name: "work.pdf", mime: "application/pdf" });
+    // Only the path is kept; readers link to the download route
+    expect(data.url).toBeUndefined();
+    expect(data.path).toMatch(/^cand-1\/attachments\/job-1\/portfolio-\d+-work\.pdf$/);
+    expect(storageUpload).toHaveBeenCalledWith(data.path, expect.any(File), { contentType: "application/pdf", upsert: false });
+  });
+
+  it("sniffs the contents instead of trusting the extension and browser type", async () => {
+    const { upload: storageUpload } = mockSupabase();
+
+    const res = await upload(new File(["MZ\x90\x00 not an image"], "screenshot.png", { type: "image/png" }));
+    const data = await res.json();
+
+    expect(res.status).toBe(400);
+    expect(data).toMatchObject({ error: "Invalid file", code: "CONTENT_MISMATCH" });
+    expect(storageUpload).not.toHaveBeenCalled();
+  });
+
+  it("checks the question's rules first", async () => {
+    mockSupabase();
+
+    const res = await upload(new File(["hello"], "notes.txt", { type: "text/plain" }));
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).message).toBe("File must be one of: .pdf, .png");
+  });
+});
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { FILE_TYPES, checkFileAgainstRules, fileExtension, readJobQuestions } from "@/lib/supplemental-questions";
+import type { FileAnswer } from "@/lib/supplemental-questions";
+import { validateAttachmentUpload } from "@/lib/resume-validation";
+
+export const runtime = "nodejs";
+
+// POST /api/applications/attachments - Upload a file answer to a supplemental question
+// multipart/form-data: file, jobId, questionId. Returns the FileAnswer to submit
+// with the application; POST /api/applications checks it again.
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - You must be logged in to upload files" },
+        { status: 401 }
+      );
+    }
+
+    const form = await req.formData();
+    const file = form.get("file");
+    const jobId = form.get("jobId");
+    const questionId = form.get("questionId");
+    if (!(file instanceof File) || typeof jobId !== "string" || typeof questionId !== "string") {
+      return NextResponse.json(
+        { error: "Validation failed", message: "file, jobId and questionId are required" },
+        { status: 400 }
+      );
+    }
+
+    const { data: job, error: jobError } = await supabase
+      .from('jobs')
+      .select('id, requirements, supplemental_questions')
+      .eq('id', jobId)
+      .single();
+    if (jobError || !job) {
+      return NextResponse.json(
+        { error: "Job not found", message: "The specified job does not exist" },
+        { status: 404 }
+      );
+    }
+
+    const questions = readJobQuestions(job);
+    const question = questions.find((q) => q.id === questionId);
+    if (!question || question.type !== "file") {
+      return NextResponse.json(
+        { error: "Validation failed", message: "This question does not accept files" },
+        { status: 400 }
+      );
+    }
+
+    const fileError = checkFileAgainstRules(file, question.rules);
+    if (fileError) {
+      return NextResponse.json({ error: "Invalid file", message: fileError }, { status: 400 });
+    }
+
+    // Same checks as a resume: content-sniffed type, no encryption or macros, malware scan
+    const expectedMime = FILE_TYPES[fileExtension(file.name)];
+    const validation = await validateAttachmentUpload(new Uint8Array(await file.arrayBuffer()), {
+      name: file.name,
+      type: expectedMime,
+    });
+    if (!validation.ok) {
+      const status = validation.code === "SCAN_FAILED" ? 503 : 400;
+      return NextResponse.json({ error: "Invalid file", code: validation.code, message: validation.message }, { status });
+    }
+
+    const path = `${user.id}/attachments/${jobId}/${questionId}-${Date.now()}-${file.name.replace(/[^a-zA-Z0-9._-]/g, "_")}`;
+    const { error: uploadError } = await supabase.storage.from("resumes").upload(path, file, {
+      contentType: validation.mimeType,
+      upsert: false,
+    });
+    if (uploadError) {
+      console.error('Error uploading attachment:', uploadError);
+      return NextResponse.json(
+        { error: "Upload failed", message: uploadError.message },
+        { status: 500 }
+      );
+    }
+
+    // The bucket is private: the answer keeps the path, and readers link to resumeDownloadPath()
+    const answer: FileAnswer = {
+      path,
+      name: file.name,
+      size: file.size,
+      mime: validation.mimeType,
+    };
+    return NextResponse.json(answer, { status: 201 });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
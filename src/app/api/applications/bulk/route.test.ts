@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { POST } from "./route";
+
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: vi.fn(),
+}));
+
+vi.mock("@/lib/notification-delivery", () => ({
+  sendNotifications: vi.fn().mockResolvedValue({ recorded: 1, sent: 1, skipped: 0, failed: 0 }),
+}));
+
+import { createClient } from "@/lib/supabase/server";
+import { sendNotifications } from "@/lib/notification-delivery";
+
+// job-1 is rec-1's legacy job; job-2 belongs to an organization where rec-1 is a viewer
+const applications = [
+  { id: "app-1", job_id: "job-1", candidate_id: "cand-1", status: "applied", stage_id: "applied", applied_at: "2025-12-01T00:00:00Z" },
+  { id: "app-2", job_id: "job-1", candidate_id: "cand-2", status: "interview", stage_id: "interview", applied_at: "2025-12-02T00:00:00Z" },
+  { id: "app-3", job_id: "job-2", candidate_id: "cand-3", status: "applied", stage_id: "applied", applied_at: "2025-12-03T00:00:00Z" },
+];
+const jobs = [
+  { id: "job-1", title: "Engineer", company: "Acme", employer_id: "rec-1", organization_id: null, pipeline_stages: null },
+  { id: "job-2", title: "Designer", company: "Globex", employer_id: "rec-2", organization_id: "org-1", pipeline_stages: null },
+];
+
+// Lists answer by the ids passed to in(); rpc() answers with whether each move applied
+function mockSupabase(userId: string, { skipped = [] as string[] } = {}) {
+  const writes: { table: string; op: string; rows?: unknown; filters: Record<string, unknown> }[] = [];
+  const rpc = vi.fn(async (_name: string, args: { moves: { application_id: string }[] }) => ({
+    data: args.moves.map((m) => ({ app_id: m.application_id, applied: !skipped.includes(m.application_id) })),
+    error: null,
+  }));
+  const tables: Record<string, (filters: Record<string, unknown>) => unknown> = {
+    applications: (f) => applications.filter((a) => (f.id as string[]).includes(a.id)),
+    jobs: (f) => jobs.filter((j) => (f.id as string[]).includes(j.id)),
+    organization_members: (f) => (f.user_id === "rec-1" ? { organization_id: "org-1", user_id: "rec-1", role: "viewer" } : null),
+    candidate_profiles: () => [
+      { user_id: "cand-1", name: "Ada Lovelace", email: "ada@example.com", phone: null },
+      { user_id: "cand-2", name: "=cmd()", email: "x@example.com", phone: "555" },
+    ],
+    application_tags: () => [{ application_id: "app-2", tag: "referral" }],
+  };
+  const client = {
+    auth: { getUser: vi.fn().mockResolvedValue({ data: { user: { id: userId } }, error: null }) },
+    rpc,
+    from: vi.fn((table: string) => {
+      const filters: Record<string, unknown> = {};
+      const query = {
+        select: vi.fn(() => query),
+        eq: vi.fn((column: string, value: unknown) => {
+          filters[column] = value;
+          return query;
+        }),
+        in: vi.fn((column: string, values: unknown[]) => {
+          filters[column] = values;
+          return query;
+        }),
+        upsert: vi.fn((rows: unknown) => {
+          writes.push({ table, op: "upsert", rows, filters });
+          return query;
+        }),
+        delete: vi.fn(() => {
+          writes.push({ table, op: "delete", filters });
+          return query;
+        }),
+        maybeSingle: vi.fn(async () => ({ data: tables[table](filters), error: null })),
+        then: (resolve: (value: unknown) => void) => resolve({ data: tables[table](filters), error: null }),
+      };
+      return query;
+    }),
+  };
+  vi.mocked(createClient).mockResolvedValue(client as any);
+  return { rpc, writes };
+}
+
+const post = (body: unknown) =>
+  new NextRequest("http://localhost/api/applications/bulk", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+describe("POST /api/applications/bulk", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("moves allowed rows in one call and reports the rest per application", async () => {
+    const { rpc } = mockSupabase("rec-1", { skipped: ["app-2"] });
+
+    const res = await POST(post({ action: "move", applicationIds: ["app-1", "app-2", "app-3", "app-9"], status: "offer" }));
+    const json = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(rpc).toHaveBeenCalledTimes(1);
+    expect(rpc.mock.calls[0][1].moves.map((m: { application_id: string }) => m.application_id)).toEqual(["app-1", "app-2"]);
+    expect(json.results).toEqual([
+      { applicationId: "app-1", ok: true, status: "offer", stageId: "offer", stageName: "Offer" },
+      expect.objectContaining({ applicationId: "app-2", ok: false, code: "CONFLICT" }),
+      expect.objectContaining({ applicationId: "app-3", ok: false, code: "FORBIDDEN" }),
+      expect.objectContaining({ applicationId: "app-9", ok: false, code: "NOT_FOUND" }),
+    ]);
+    expect(json).toMatchObject({ succeeded: 1, failed: 3 });
+    // Only the applied move is emailed
+    expect(vi.mocked(sendNotifications).mock.calls[0][1]).toEqual([
+      expect.objectContaining({ type: "status_changed", recipientId: "cand-1", variables: expect.objectContaining({ status: "Offer" }) }),
+    ]);
+  });
+
+  it("renders the rejection message for each candidate", async () => {
+    const { rpc } = mockSupabase("rec-1");
+
+    const res = await POST(
+      post({ action: "reject", applicationIds: ["app-1"], message: "Hi {{candidate_name}}, thanks for applying to {{job_title}}." })
+    );
+
+    expect(res.status).toBe(200);
+    expect(rpc.mock.calls[0][1].moves[0]).toMatchObject({
+      to_status: "rejected",
+      message: "Hi Ada Lovelace, thanks for applying to Engineer.",
+    });
+  });
+
+  it("tags and untags the allowed applications", async () => {
+    const { writes } = mockSupabase("rec-1");
+
+    await POST(post({ action: "tag", applicationIds: ["app-1", "app-3"], tags: ["Referral"] }));
+    await POST(post({ action: "tag", applicationIds: ["app-1"], tags: ["referral"], remove: true }));
+
+    expect(writes[0]).toMatchObject({
+      table: "application_tags",
+      op: "upsert",
+      rows: [{ application_id: "app-1", tag: "referral", created_by: "rec-1" }],
+    });
+    expect(writes[1]).toMatchObject({ op: "delete", filters: { application_id: ["app-1"], tag: ["referral"] } });
+  });
+
+  it("exports a CSV that viewers may download", async () => {
+    mockSupabase("rec-1");
+
+    const res = await POST(post({ action: "export", applicationIds: ["app-2", "app-3"] }));
+    const json = await res.json();
+
+    expect(json.succeeded).toBe(2);
+    const lines = json.csv.trim().split("\r\n");
+    expect(lines[0]).toBe("Candidate,Email,Phone,Job,Company,Stage,Status,Applied,Tags");
+    expect(lines[1]).toBe("'=cmd(),x@example.com,555,Engineer,Acme,Interview,Interview,2025-12-02T00:00:00Z,referral");
+    expect(lines).toHaveLength(3);
+  });
+
+  it("rejects invalid requests", async () => {
+    mockSupabase("rec-1");
+
+    const res = await POST(post({ action: "move", applicationIds: ["app-1"] }));
+
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { canMoveApplications } from "@/lib/organizations";
+import { currentStage, resolvePipeline, toStatusLabel } from "@/lib/pipeline";
+import {
+  BulkActionSchema,
+  loadApplicationTags,
+  loadBulkTargets,
+  planMove,
+  renderTemplate,
+  toCsv,
+} from "@/lib/bulk-actions";
+import type { BulkItemResult, BulkTarget, PlannedMove } from "@/lib/bulk-actions";
+import { appUrl } from "@/lib/notifications";
+import type { NotificationEvent } from "@/lib/notifications";
+import { sendNotifications } from "@/lib/notification-delivery";
+
+export const runtime = "nodejs";
+
+const CSV_HEADER = ["Candidate", "Email", "Phone", "Job", "Company", "Stage", "Status", "Applied", "Tags"];
+
+type CandidateRow = { user_id: string; name: string | null; email: string | null; phone: string | null };
+
+// POST /api/applications/bulk - Move, reject, tag or export many applications.
+// Each application is authorized and checked on its own; the response has a
+// result per application so partial failures can be shown row by row.
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const parsed = BulkActionSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid bulk action", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const input = parsed.data;
+
+    const targets = await loadBulkTargets(supabase, user.id, input.applicationIds);
+    const results = new Map<string, BulkItemResult>();
+    const allowed: BulkTarget[] = [];
+    for (const applicationId of input.applicationIds) {
+      const target = targets.get(applicationId);
+      if (!target) {
+        results.set(applicationId, { applicationId, ok: false, code: "NOT_FOUND", error: "Application not found" });
+      } else if (input.action !== 'export' && !canMoveApplications(target.role)) {
+        results.set(applicationId, { applicationId, ok: false, code: "FORBIDDEN", error: "You can't change applications for this job" });
+      } else {
+        allowed.push(target);
+      }
+    }
+
+    const candidateIds = [...new Set(allowed.flatMap((t) => (t.application.candidate_id ? [t.application.candidate_id] : [])))];
+    const loadCandidates = async () => {
+      if (candidateIds.length === 0) return new Map<string, CandidateRow>();
+      const { data } = await supabase
+        .from('candidate_profiles')
+        .select('user_id, name, email, phone')
+        .in('user_id', candidateIds);
+      return new Map(((data ?? []) as CandidateRow[]).map((c) => [c.user_id, c]));
+    };
+
+    if (input.action === 'move' || input.action === 'reject') {
+      // Names fill the rejection message and the status emails
+      const candidates = await loadCandidates();
+      const moves: PlannedMove[] = [];
+      for (const target of allowed) {
+        const message =
+          input.action === 'reject' && input.message
+            ? renderTemplate(input.message, {
+                candidate_name: target.application.candidate_id ? candidates.get(target.application.candidate_id)?.name : null,
+                job_title: target.job.title,
+                company: target.job.company,
+              })
+            : null;
+        const planned = planMove(
+          target,
+          input.action === 'move' ? { stageId: input.stageId, status: input.status } : { status: 'rejected' },
+          { reason: input.reason, message }
+        );
+        if ('move' in planned) moves.push(planned);
+        else results.set(planned.applicationId, planned);
+      }
+
+      if (moves.length > 0) {
+        const { data, error } = await supabase.rpc('bulk_move_applications', { moves: moves.map((m) => m.move) });
+        if (error) {
+          // The batch rolled back; nothing was moved
+          console.error('Error applying bulk moves:', error);
+          for (const { move } of moves) {
+            results.set(move.application_id, { applicationId: move.application_id, ok: false, code: "FAILED", error: "Failed to update application" });
+          }
+        } else {
+          const applied = new Set(
+            ((data ?? []) as { app_id: string; applied: boolean }[]).filter((row) => row.applied).map((row) => row.app_id)
+          );
+          for (const { move, stage } of moves) {
+            results.set(
+              move.application_id,
+              applied.has(move.application_id)
+                ? { applicationId: move.application_id, ok: true, status: move.to_status, stageId: stage.id, stageName: stage.name }
+                : { applicationId: move.application_id, ok: false, code: "CONFLICT", error: "Application was updated by someone else, please reload" }
+            );
+          }
+
+          // Same as the single-row PATCH: candidates hear about outcome changes
+          const notifications: NotificationEvent[] = [];
+          for (const { move } of moves) {
+            const target = allowed.find((t) => t.application.id === move.application_id);
+            const candidateId = target?.application.candidate_id;
+            if (!target || !candidateId || !applied.has(move.application_id) || move.to_status === move.from_status) continue;
+            notifications.push({
+              type: 'status_changed',
+              recipientId: candidateId,
+              applicationId: move.application_id,
+              jobId: target.application.job_id,
+              variables: {
+                candidate_name: candidates.get(candidateId)?.name || "there",
+                job_title: target.job.title,
+                company: target.job.company,
+                status: toStatusLabel(move.to_status),
+                dashboard_url: appUrl("/candidate"),
+              },
+            });
+          }
+          await sendNotifications(supabase, notifications, { senderId: user.id });
+        }
+      }
+    }
+
+    if (input.action === 'tag' && allowed.length > 0) {
+      const ids = allowed.map((t) => t.application.id);
+      const { error } = input.remove
+        ? await supabase.from('application_tags').delete().in('application_id', ids).in('tag', input.tags)
+        : await supabase.from('application_tags').upsert(
+            ids.flatMap((id) => input.tags.map((tag) => ({ application_id: id, tag, created_by: user.id }))),
+            { onConflict: 'application_id,tag', ignoreDuplicates: true }
+          );
+      if (error) console.error('Error updating application tags:', error);
+      for (const id of ids) {
+        results.set(id, error ? { applicationId: id, ok: false, code: "FAILED", error: "Failed to update tags" } : { applicationId: id, ok: true });
+      }
+    }
+
+    let csv: string | undefined;
+    if (input.action === 'export') {
+      const [candidates, tags] = await Promise.all([
+        loadCandidates(),
+        loadApplicationTags(supabase, allowed.map((t) => t.application.id)),
+      ]);
+      const rows = allowed.map(({ application, job }) => {
+        const candidate = application.candidate_id ? candidates.get(application.candidate_id) : undefined;
+        const stage = currentStage(resolvePipeline(job), application);
+        results.set(application.id, { applicationId: application.id, ok: true });
+        return [
+          candidate?.name ?? "",
+          candidate?.email ?? "",
+          candidate?.phone ?? "",
+          job.title,
+          job.company,
+          stage?.name ?? "",
+          toStatusLabel(application.status),
+          application.applied_at,
+          (tags.get(application.id) ?? []).join("; "),
+        ];
+      });
+      csv = toCsv([CSV_HEADER, ...rows]);
+    }
+
+    const ordered = input.applicationIds.map((id) => results.get(id) as BulkItemResult);
+    const succeeded = ordered.filter((r) => r.ok).length;
+    return NextResponse.json({
+      results: ordered,
+      succeeded,
+      failed: ordered.length - succeeded,
+      ...(csv !== undefined ? { csv } : {}),
+    });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
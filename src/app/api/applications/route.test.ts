@@ -12,7 +12,12 @@ vi.mock("@/lib/supabase/server", () => ({
   createClient: vi.fn(),
 }));
 
+vi.mock("@/lib/notification-delivery", () => ({
+  sendNotifications: vi.fn().mockResolvedValue({ recorded: 1, sent: 1, skipped: 0, failed: 0 }),
+}));
+
 import { createClient } from "@/lib/supabase/server";
+import { sendNotifications } from "@/lib/notification-delivery";
 
 // Helper to create a mock NextRequest
 function createMockRequest(body: any): NextRequest {
@@ -622,6 +627,335 @@ describe("POST /api/applications - Error Handling", () => {
   });
 });
 
+describe("POST /api/applications - Deadline (403)", () => {
+  const mockJobId = "f4b5c6bb-d5c1-44c1-81fa-927378202352";
+  const mockCandidateId = "550e8400-e29b-41d4-a716-446655440001";
+
+  function mockJob(deadline: string) {
+    const insert = vi.fn().mockReturnThis();
+    const mockSupabase = {
+      from: vi.fn((table: string) => {
+        if (table === "applications") {
+          return {
+            select: vi.fn().mockReturnThis(),
+            insert,
+            eq: vi.fn().mockReturnThis(),
+            maybeSingle: vi.fn().mockResolvedValue({ data: null, error: null }),
+            single: vi.fn().mockResolvedValue({
+              data: { id: "app-1", job_id: mockJobId, status: "applied", applied_at: "2025-12-01T00:00:00Z" },
+              error: null,
+            }),
+          };
+        }
+        if (table === "jobs") {
+          return {
+            select: vi.fn().mockReturnThis(),
+            eq: vi.fn().mockReturnThis(),
+            single: vi.fn().mockResolvedValue({
+              data: { id: mockJobId, title: "Engineer", company: "Acme", status: "open", deadline, requirements: null },
+              error: null,
+            }),
+          };
+        }
+        return {};
+      }),
+    };
+    vi.mocked(createClient).mockResolvedValue(mockSupabase as any);
+    return insert;
+  }
+
+  const body = {
+    job_id: mockJobId,
+    candidate_id: mockCandidateId,
+    resume_url: "https://example.com/resume.pdf",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("rejects applications after the deadline even if the job is still open", async () => {
+    vi.setSystemTime(new Date("2025-12-02T00:00:00Z"));
+    const insert = mockJob("2025-12-01T12:00:00Z");
+
+    const response = await POST(createMockRequest(body));
+    const data = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(data.message).toContain("deadline");
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it("accepts applications on the last day of a date-only deadline", async () => {
+    vi.setSystemTime(new Date("2025-12-01T22:00:00Z"));
+    const insert = mockJob("2025-12-01");
+
+    const response = await POST(createMockRequest(body));
+
+    expect(response.status).toBe(201);
+    expect(insert).toHaveBeenCalled();
+  });
+});
+
+describe("POST /api/applications - Supplemental Answers", () => {
+  const mockJobId = "f4b5c6bb-d5c1-44c1-81fa-927378202352";
+  const mockCandidateId = "550e8400-e29b-41d4-a716-446655440001";
+
+  const supplementalQuestions = [
+    { id: "auth", question: "Authorized to work?", type: "yes_no", required: true },
+    { id: "visa", question: "Which visa?", type: "text", required: true, showIf: { questionId: "auth", equals: ["no"] } },
+    { id: "years", question: "Years of experience", type: "number", required: false, rules: { min: 0, integer: true } },
+  ];
+
+  function mockJobWithQuestions(questions: Record<string, unknown>[] = supplementalQuestions) {
+    const insert = vi.fn().mockReturnThis();
+    const mockSupabase = {
+      from: vi.fn((table: string) => {
+        if (table === "applications") {
+          return {
+            select: vi.fn().mockReturnThis(),
+            insert,
+            eq: vi.fn().mockReturnThis(),
+            maybeSingle: vi.fn().mockResolvedValue({ data: null, error: null }),
+            single: vi.fn().mockResolvedValue({
+              data: { id: "app-1", job_id: mockJobId, status: "applied", applied_at: "2025-12-01T00:00:00Z" },
+              error: null,
+            }),
+          };
+        }
+        if (table === "jobs") {
+          return {
+            select: vi.fn().mockReturnThis(),
+            eq: vi.fn().mockReturnThis(),
+            single: vi.fn().mockResolvedValue({
+              data: { id: mockJobId, title: "Engineer", company: "Acme", status: "open", deadline: null, requirements: null, supplemental_questions: questions },
+              error: null,
+            }),
+          };
+        }
+        return {};
+      }),
+    };
+    vi.mocked(createClient).mockResolvedValue(mockSupabase as any);
+    return insert;
+  }
+
+  const body = (supplemental_answers: Record<string, unknown>) => ({
+    job_id: mockJobId,
+    candidate_id: mockCandidateId,
+    resume_url: "https://example.com/resume.pdf",
+    supplemental_answers,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns 400 with per-question errors for invalid answers", async () => {
+    const insert = mockJobWithQuestions();
+
+    const response = await POST(createMockRequest(body({ auth: "no", years: "-1" })));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Invalid supplemental answers");
+    expect(data.missing_required_questions).toEqual(["visa"]);
+    expect(Object.keys(data.question_errors).sort()).toEqual(["visa", "years"]);
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it("creates knocked-out applications as rejected with the configured message", async () => {
+    const insert = mockJobWithQuestions([
+      {
+        ...supplementalQuestions[0],
+        knockout: { failingAnswers: ["no"], action: "reject", message: "US work authorization is required." },
+      },
+      ...supplementalQuestions.slice(1),
+    ]);
+
+    const response = await POST(createMockRequest(body({ auth: "no", visa: "None" })));
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data.knockout_message).toBe("US work authorization is required.");
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: "rejected",
+        stage_id: "rejected",
+        flagged: false,
+        knockout_results: [expect.objectContaining({ question_id: "auth", action: "reject" })],
+      })
+    );
+  });
+
+  it("stores normalized answers and drops answers to hidden questions", async () => {
+    const insert = mockJobWithQuestions();
+
+    const response = await POST(createMockRequest(body({ auth: "yes", visa: "H-1B", years: "3" })));
+
+    expect(response.status).toBe(201);
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({ supplemental_answers: { auth: true, years: 3 } })
+    );
+  });
+});
+
+describe("POST /api/applications - Resume versions", () => {
+  const mockJobId = "f4b5c6bb-d5c1-44c1-81fa-927378202352";
+  const mockUserId = "550e8400-e29b-41d4-a716-446655440001";
+  const resumeId = "7d9f3b2a-1c4e-4f6a-9b8d-2e5c7a1f3d4b";
+
+  function mockAuthenticatedApply(version: Record<string, unknown> | null, organizationId: string | null = null) {
+    const insert = vi.fn().mockReturnThis();
+    const copy = vi.fn().mockResolvedValue({ error: null });
+    const mockSupabase = {
+      rpc: vi.fn().mockResolvedValue({
+        data: [
+          { user_id: "admin-1", role: "admin" },
+          { user_id: "hm-1", role: "hiring_manager" },
+          { user_id: "viewer-1", role: "viewer" },
+        ],
+        error: null,
+      }),
+      auth: { getUser: vi.fn().mockResolvedValue({ data: { user: { id: mockUserId } } }) },
+      storage: {
+        from: vi.fn(() => ({
+          copy,
+          getPublicUrl: vi.fn((path: string) => ({ data: { publicUrl: `https://abc.supabase.co/storage/v1/object/public/resumes/${path}` } })),
+        })),
+      },
+      from: vi.fn((table: string) => {
+        if (table === "candidate_profiles") {
+          return {
+            select: vi.fn().mockReturnThis(),
+            eq: vi.fn().mockReturnThis(),
+            maybeSingle: vi.fn().mockResolvedValue({
+              data: { name: "Ada", resume_url: "https://abc.supabase.co/storage/v1/object/public/resumes/default.pdf", resume_path: `${mockUserId}/default.pdf`, resume_original_name: "default.pdf" },
+              error: null,
+            }),
+          };
+        }
+        if (table === "candidate_resumes") {
+          return {
+            select: vi.fn().mockReturnThis(),
+            eq: vi.fn().mockReturnThis(),
+            maybeSingle: vi.fn().mockResolvedValue({ data: version, error: null }),
+          };
+        }
+        if (table === "applications") {
+          return {
+            select: vi.fn().mockReturnThis(),
+            insert,
+            eq: vi.fn().mockReturnThis(),
+            maybeSingle: vi.fn().mockResolvedValue({ data: null, error: null }),
+            single: vi.fn().mockResolvedValue({
+              data: { id: "app-1", job_id: mockJobId, status: "applied", applied_at: "2025-12-01T00:00:00Z" },
+              error: null,
+            }),
+          };
+        }
+        if (table === "jobs") {
+          return {
+            select: vi.fn().mockReturnThis(),
+            eq: vi.fn().mockReturnThis(),
+            single: vi.fn().mockResolvedValue({
+              data: { id: mockJobId, title: "Engineer", company: "Acme", employer_id: "rec-1", organization_id: organizationId, status: "open", deadline: null },
+              error: null,
+            }),
+          };
+        }
+        return {};
+      }),
+    };
+    vi.mocked(createClient).mockResolvedValue(mockSupabase as any);
+    return { insert, copy, rpc: mockSupabase.rpc };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("submits a snapshot of the picked resume version", async () => {
+    const { insert, copy } = mockAuthenticatedApply({
+      id: resumeId,
+      url: "https://abc.supabase.co/storage/v1/object/public/resumes/ml.pdf",
+      storage_path: `${mockUserId}/ml.pdf`,
+      original_name: "ML Resume.pdf",
+    });
+
+    const response = await POST(createMockRequest({ jobId: mockJobId, resume_id: resumeId }));
+
+    expect(response.status).toBe(201);
+    expect(copy).toHaveBeenCalledWith(`${mockUserId}/ml.pdf`, expect.stringMatching(`^${mockUserId}/applications/${mockJobId}/\\d+-ML_Resume\\.pdf$`));
+    const inserted = insert.mock.calls[0][0];
+    expect(inserted.resume_id).toBe(resumeId);
+    expect(inserted.resume_path).toBe(copy.mock.calls[0][1]);
+    // The bucket is private; a public object URL would be a dead link
+    expect(inserted.resume_url).toBeNull();
+  });
+
+  it("emails the job's owner about the new application", async () => {
+    mockAuthenticatedApply({
+      id: resumeId,
+      url: "https://abc.supabase.co/storage/v1/object/public/resumes/ml.pdf",
+      storage_path: `${mockUserId}/ml.pdf`,
+      original_name: "ML Resume.pdf",
+    });
+
+    await POST(createMockRequest({ jobId: mockJobId, resume_id: resumeId }));
+
+    expect(sendNotifications).toHaveBeenCalledWith(
+      expect.anything(),
+      [
+        {
+          type: "application_received",
+          recipientId: "rec-1",
+          applicationId: "app-1",
+          jobId: mockJobId,
+          variables: expect.objectContaining({
+            candidate_name: "Ada",
+            job_title: "Engineer",
+            application_url: expect.stringMatching(/\/recruiter\/applications\/app-1$/),
+          }),
+        },
+      ],
+      { senderId: mockUserId }
+    );
+  });
+
+  it("notifies an organization job's hiring team, not its viewers", async () => {
+    const { rpc } = mockAuthenticatedApply({
+      id: resumeId,
+      url: "https://abc.supabase.co/storage/v1/object/public/resumes/ml.pdf",
+      storage_path: `${mockUserId}/ml.pdf`,
+      original_name: "ML Resume.pdf",
+    }, "org-1");
+
+    await POST(createMockRequest({ jobId: mockJobId, resume_id: resumeId }));
+
+    expect(rpc).toHaveBeenCalledWith("job_hiring_team", { target_job: mockJobId });
+    const [, events, options] = vi.mocked(sendNotifications).mock.calls[0];
+    expect(events.map((event) => event.recipientId)).toEqual(["admin-1", "hm-1"]);
+    expect(options).toEqual({ senderId: mockUserId });
+  });
+
+  it("returns 400 when the picked version doesn't belong to the candidate", async () => {
+    const { insert } = mockAuthenticatedApply(null);
+
+    const response = await POST(createMockRequest({ jobId: mockJobId, resume_id: resumeId }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Resume not found");
+    expect(insert).not.toHaveBeenCalled();
+  });
+});
+
 describe("GET /api/applications", () => {
   beforeEach(() => {
     vi.clearAllMocks();
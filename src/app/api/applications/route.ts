@@ -2,6 +2,16 @@ import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { z } from "zod";
 import type { ApplicationInsert } from "@/lib/types/database";
+import { initialStage, resolvePipeline, toStatusLabel } from "@/lib/pipeline";
+import { recordStatusEvent } from "@/lib/status-transitions";
+import { isPastDeadline } from "@/lib/job-deadlines";
+import { readJobQuestions, validateSupplementalAnswers } from "@/lib/supplemental-questions";
+import { evaluateKnockouts, prefillFromProfile } from "@/lib/knockouts";
+import type { KnockoutProfile } from "@/lib/knockouts";
+import { snapshotResume } from "@/lib/resumes";
+import { appUrl } from "@/lib/notifications";
+import { sendNotifications } from "@/lib/notification-delivery";
+import { canMoveApplications, jobRecipients } from "@/lib/organizations";
 
 export const runtime = "nodejs";
 
@@ -46,8 +56,11 @@ const ApplicationCreateSchema = z.object({
       },
       { message: "resume_url must point to a valid document (.pdf, .doc, .docx, .txt, .rtf) or cloud storage" }
     ),
+  // Resume version to submit; defaults to the profile's default resume
+  resume_id: z.string().uuid({ message: "resume_id must be a valid UUID" }).optional(),
   cover_letter: z.string().max(5000, { message: "cover_letter must be less than 5000 characters" }).nullable().optional(),
-  supplemental_answers: z.record(z.string(), z.any()).nullable().optional(),
+  // Shape only; answers are checked against the job's questions once the job is loaded
+  supplemental_answers: z.record(z.string(), z.unknown()).nullable().optional(),
 });
 
 // =============================================
@@ -74,19 +87,6 @@ export async function GET() {
   }
 }
 
-// Helper to convert database status to frontend format
-function capitalizeStatus(status: string) {
-  const map: Record<string, string> = {
-    'applied': 'Applied',
-    'under_review': 'Under Review',
-    'interview': 'Interview',
-    'offer': 'Offer',
-    'hired': 'Hired',
-    'rejected': 'Rejected'
-  };
-  return map[status] || 'Applied';
-}
-
 // =============================================
 // POST /api/applications
 // Create a new application (SECURE VERSION)
@@ -127,10 +127,15 @@ export async function POST(req: NextRequest) {
     }
 
     // ===== STEP 2.5: For authenticated users, require resume in candidate profile and inject it =====
+    // The profile also pre-answers work authorization / sponsorship questions
+    let candidateProfile: KnockoutProfile | null = null;
+    // Stored resume being submitted; it is snapshotted once the application is accepted
+    let resumeSource: { id: string | null; storage_path: string; original_name: string } | null = null;
+    let candidateName: string | null = null;
     if (userId) {
       const { data: profile, error: profileError } = await supabase
         .from('candidate_profiles')
-        .select('resume_url')
+        .select('name, resume_url, resume_path, resume_original_name, work_authorization, requires_sponsorship')
         .eq('user_id', userId)
         .maybeSingle();
       if (profileError) {
@@ -139,15 +144,52 @@ export async function POST(req: NextRequest) {
           { status: 500 }
         );
       }
-      const resumeFromProfile = profile?.resume_url;
-      if (!resumeFromProfile || typeof resumeFromProfile !== 'string' || !resumeFromProfile.trim()) {
-        return NextResponse.json(
-          { error: "Resume required", message: "Please add your resume in your profile before applying." },
-          { status: 400 }
-        );
+
+      if (normalizedBody.resume_id) {
+        // A specific version picked in the apply flow
+        const { data: version } = await supabase
+          .from('candidate_resumes')
+          .select('id, url, storage_path, original_name')
+          .eq('id', normalizedBody.resume_id)
+          .eq('candidate_id', userId)
+          .maybeSingle();
+        if (!version) {
+          return NextResponse.json(
+            { error: "Resume not found", message: "The selected resume no longer exists. Please pick another one." },
+            { status: 400 }
+          );
+        }
+        normalizedBody.resume_url = version.url;
+        resumeSource = version;
+      } else {
+        const resumeFromProfile = profile?.resume_url;
+        if (!resumeFromProfile || typeof resumeFromProfile !== 'string' || !resumeFromProfile.trim()) {
+          return NextResponse.json(
+            { error: "Resume required", message: "Please add your resume in your profile before applying." },
+            { status: 400 }
+          );
+        }
+        // Force use of profile resume for authenticated flow
+        normalizedBody.resume_url = resumeFromProfile;
+        if (profile?.resume_path) {
+          const { data: version } = await supabase
+            .from('candidate_resumes')
+            .select('id')
+            .eq('candidate_id', userId)
+            .eq('storage_path', profile.resume_path)
+            .maybeSingle();
+          resumeSource = {
+            id: version?.id ?? null,
+            storage_path: profile.resume_path,
+            original_name: profile.resume_original_name || 'resume',
+          };
+        }
       }
-      // Force use of profile resume for authenticated flow
-      normalizedBody.resume_url = resumeFromProfile;
+      candidateName = profile?.name ?? null;
+      candidateProfile = {
+        work_authorization: profile?.work_authorization ?? null,
+        requires_sponsorship: profile?.requires_sponsorship ?? null,
+      };
     }
 
     // Validate payload
@@ -192,21 +234,21 @@ export async function POST(req: NextRequest) {
     // 1) supplemental_answers: Record<string, any>
     // 2) supplementalAnswers: Array<{ questionId: string; answer: string }>
     // 3) details: { answers: Record<string, string> }
-    const answersRecord: Record<string, string> | null = (() => {
+    const answersRecord: Record<string, unknown> | null = (() => {
       if (normalizedBody.supplemental_answers && typeof normalizedBody.supplemental_answers === 'object') {
-        return normalizedBody.supplemental_answers as Record<string, string>;
+        return normalizedBody.supplemental_answers as Record<string, unknown>;
       }
       if (Array.isArray(normalizedBody.supplementalAnswers)) {
-        const out: Record<string, string> = {};
+        const out: Record<string, unknown> = {};
         for (const item of normalizedBody.supplementalAnswers) {
           if (item && typeof item === 'object' && typeof item.questionId === 'string') {
-            out[item.questionId] = String(item.answer ?? '').trim();
+            out[item.questionId] = item.answer;
           }
         }
         return out;
       }
       if (normalizedBody.details && typeof normalizedBody.details === 'object' && normalizedBody.details.answers) {
-        return normalizedBody.details.answers as Record<string, string>;
+        return normalizedBody.details.answers as Record<string, unknown>;
       }
       return null;
     })();
@@ -242,7 +284,7 @@ export async function POST(req: NextRequest) {
     // ===== STEP 4: Verify Job Exists =====
     const { data: job, error: jobError } = await supabase
       .from('jobs')
-      .select('id, title, company, status, requirements')
+      .select('id, title, company, employer_id, organization_id, status, deadline, requirements, supplemental_questions, pipeline_stages')
       .eq('id', validatedData.job_id)
       .single();
     
@@ -265,42 +307,77 @@ export async function POST(req: NextRequest) {
       );
     }
     
-    // Enforce required supplemental questions if present
-    const reqs = job.requirements && typeof job.requirements === 'object' ? (job.requirements as any) : null;
-    const supplemental = reqs?.supplementalQuestions;
-    if (Array.isArray(supplemental) && supplemental.length > 0) {
-      const requiredIds: string[] = supplemental.filter((q: any) => q && q.required).map((q: any) => q.id).filter((id: any) => typeof id === 'string');
-      if (requiredIds.length > 0) {
-        const provided = answersRecord || {};
-        const missing: string[] = [];
-        for (const qid of requiredIds) {
-          const val = (provided[qid] ?? '').toString().trim();
-          if (!val) missing.push(qid);
-        }
-        if (missing.length > 0) {
-          return NextResponse.json(
-            { 
-              error: "Supplemental questions required",
-              missing_required_questions: missing,
-              message: "Please complete all required supplemental questions before applying."
-            },
-            { status: 400 }
-          );
-        }
-      }
+    // Jobs stop accepting applications at their deadline, even before the sweeper closes them
+    if (isPastDeadline(job.deadline)) {
+      return NextResponse.json(
+        {
+          error: "Job not accepting applications",
+          message: "The application deadline for this job has passed",
+          job_status: "closed"
+        },
+        { status: 403 }
+      );
     }
     
+    // Validate supplemental answers against the job's question definitions.
+    // Answers to unknown or hidden questions are dropped; uploads must be the candidate's own.
+    const questions = readJobQuestions(job);
+    const answerCheck = validateSupplementalAnswers(questions, prefillFromProfile(questions, answersRecord, candidateProfile), {
+      filePathPrefix: `${userId}/attachments/${validatedData.job_id}/`,
+    });
+    if (!answerCheck.ok) {
+      const onlyMissing = answerCheck.missing.length === Object.keys(answerCheck.errors).length;
+      return NextResponse.json(
+        { 
+          error: onlyMissing ? "Supplemental questions required" : "Invalid supplemental answers",
+          missing_required_questions: answerCheck.missing,
+          question_errors: answerCheck.errors,
+          message: onlyMissing
+            ? "Please complete all required supplemental questions before applying."
+            : "Some answers to the supplemental questions are invalid."
+        },
+        { status: 400 }
+      );
+    }
+    const supplementalAnswers = Object.keys(answerCheck.answers).length > 0 ? answerCheck.answers : null;
+
+    // Failed knockout questions reject the application or flag it for the recruiter
+    const knockouts = evaluateKnockouts(questions, answerCheck.answers);
+    
     // ===== STEP 5: Use provided resume_url (required by validation above) =====
-    const resumeUrl = validatedData.resume_url;
+    // Stored resumes are copied so the application keeps the submitted file
+    let resumeUrl: string | null = validatedData.resume_url;
+    let resumePath: string | null = null;
+    if (resumeSource) {
+      const snapshot = await snapshotResume(supabase, userId, validatedData.job_id, resumeSource);
+      if (!snapshot) {
+        return NextResponse.json(
+          { error: "Failed to save resume", message: "Could not attach your resume to the application. Please try again." },
+          { status: 500 }
+        );
+      }
+      // The bucket is private, so the snapshot is identified by its path alone
+      resumeUrl = null;
+      resumePath = snapshot.path;
+    }
     
     // ===== STEP 6: Insert New Application =====
+    // New applications start in the first non-terminal stage of the job's pipeline,
+    // or in its Rejected stage when a knockout question rejected them
+    const pipeline = resolvePipeline(job);
+    const startStage = (knockouts.rejected && pipeline.find((stage) => stage.status === 'rejected')) || initialStage(pipeline);
     const applicationData: ApplicationInsert = {
       job_id: validatedData.job_id,
       candidate_id: userId,  // 🔒 SECURE: Use authenticated user's ID
       resume_url: resumeUrl,
+      resume_id: resumeSource?.id ?? null,
+      resume_path: resumePath,
       cover_letter: (normalizedBody.details?.coverLetter ?? validatedData.cover_letter) || null,
-      supplemental_answers: answersRecord || null,
-      status: 'applied',
+      supplemental_answers: supplementalAnswers,
+      status: startStage.status,
+      stage_id: startStage.id,
+      flagged: knockouts.flagged,
+      knockout_results: knockouts.results.length > 0 ? knockouts.results : null,
     };
     
     const { data: newApplication, error: insertError } = await supabase
@@ -316,13 +393,48 @@ export async function POST(req: NextRequest) {
         { status: 500 }
       );
     }
+
+    // Start the application's status history
+    await recordStatusEvent(supabase, {
+      application_id: newApplication.id,
+      actor_id: userId,
+      actor_role: knockouts.rejected ? 'system' : 'candidate',
+      from_status: null,
+      to_status: newApplication.status,
+      to_stage_id: newApplication.stage_id ?? startStage.id,
+      reason: knockouts.rejected
+        ? `Knockout question: ${knockouts.results.filter((r) => r.action === 'reject').map((r) => r.question).join('; ')}`.slice(0, 500)
+        : null,
+    });
+
+    // Tell the job's hiring team; knockout rejections don't need their attention
+    // The application is saved either way, so a failed lookup is only logged
+    if (!knockouts.rejected) {
+      const recipients = await jobRecipients(supabase, job, canMoveApplications).catch((error: unknown) => {
+        console.error('Failed to load the hiring team to notify:', error);
+        return [];
+      });
+      await sendNotifications(supabase, recipients.map((recipientId) => ({
+        type: 'application_received' as const,
+        recipientId,
+        applicationId: newApplication.id,
+        jobId: job.id,
+        variables: {
+          candidate_name: candidateName || 'A candidate',
+          job_title: job.title,
+          company: job.company,
+          application_url: appUrl(`/recruiter/applications/${newApplication.id}`),
+        },
+      })), { senderId: userId });
+    }
     
     // ===== STEP 7: Return Success (Frontend-compatible format) =====
     return NextResponse.json(
       { 
         created: true,
-        status: capitalizeStatus(newApplication.status),
-        message: "Application created successfully",
+        status: toStatusLabel(newApplication.status),
+        message: knockouts.message ?? "Application created successfully",
+        knockout_message: knockouts.message,
         application: newApplication,
         job: {
           id: job.id,
@@ -1,5 +1,8 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { currentStage, resolvePipeline, toStatusLabel } from "@/lib/pipeline";
+import { resumeDownloadPath } from "@/lib/resumes";
+import { loadApplicationTags } from "@/lib/bulk-actions";
 
 export const runtime = "nodejs";
 
@@ -7,12 +10,12 @@ export async function GET() {
   try {
     const supabase = await createClient();
 
-    type DbApplication = { id: string; job_id: string; status: string; applied_at: string; candidate_id: string };
+    type DbApplication = { id: string; job_id: string; status: string; stage_id: string | null; applied_at: string; candidate_id: string; resume_url: string | null; resume_path: string | null };
     type CandidateProfile = { user_id: string; name: string | null; email: string | null; offer_deadline: string | null; resume_url: string | null };
 
     const { data: apps, error: appsError } = await supabase
       .from('applications')
-      .select('id, job_id, status, applied_at, candidate_id')
+      .select('id, job_id, status, stage_id, applied_at, candidate_id, resume_url, resume_path')
       .order('applied_at', { ascending: false });
 
     if (appsError || !apps) {
@@ -30,27 +33,38 @@ export async function GET() {
       for (const p of profiles || []) profilesMap.set(p.user_id, p);
     }
 
-    const statusMap: Record<string, string> = {
-      applied: 'Applied',
-      under_review: 'Under Review',
-      interview: 'Interview',
-      offer: 'Offer',
-      hired: 'Hired',
-      rejected: 'Rejected',
-    };
+    // Load each job's pipeline so rows can report their stage
+    const jobIds = Array.from(new Set(apps.map(a => a.job_id))).filter(Boolean);
+    const pipelinesMap = new Map<string, ReturnType<typeof resolvePipeline>>();
+    if (jobIds.length > 0) {
+      const { data: jobs } = await supabase
+        .from('jobs')
+        .select('id, pipeline_stages')
+        .in('id', jobIds);
+      for (const j of jobs || []) pipelinesMap.set(j.id, resolvePipeline(j));
+    }
+
+    // Hiring team tags (none for applications the caller only applied to)
+    const tagsMap = await loadApplicationTags(supabase, apps.map(a => a.id));
 
     const transformed = (apps as DbApplication[]).map(row => {
       const prof = profilesMap.get(row.candidate_id);
+      const stage = currentStage(pipelinesMap.get(row.job_id) ?? resolvePipeline(null), row);
       return {
         id: row.id,
         jobId: row.job_id,
-        status: statusMap[row.status] || 'Applied',
+        status: toStatusLabel(row.status),
+        stageId: stage?.id ?? null,
+        stageName: stage?.name ?? null,
         appliedAt: row.applied_at,
+        tags: tagsMap.get(row.id) ?? [],
         candidateInfo: prof ? {
           name: prof.name || 'Anonymous',
           email: prof.email || '',
           offerDeadline: prof.offer_deadline || null,
-          resumeUrl: prof.resume_url || null,
+          // The resume submitted with the application (or the profile resume for older
+          // applications), served through the private download route
+          resumeUrl: row.resume_url || row.resume_path || prof.resume_url ? resumeDownloadPath(row.id) : null,
         } : undefined,
       };
     });
@@ -0,0 +1,120 @@
+// =============================================
+// API ENDPOINT TESTS
+// Tests for GET /api/cron/close-expired-jobs
+// =============================================
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { GET } from "./route";
+import { NextRequest } from "next/server";
+
+// The admin client only looks up the hiring team for the notifier
+const MEMBERS = [
+  { user_id: "a1", role: "admin" },
+  { user_id: "r2", role: "recruiter" },
+  { user_id: "h1", role: "hiring_manager" },
+];
+vi.mock("@/lib/supabase/admin", () => ({
+  createAdminClient: vi.fn(() => ({
+    rpc: vi.fn(async () => ({ data: MEMBERS, error: null })),
+  })),
+}));
+
+vi.mock("@/lib/job-deadlines", () => ({
+  sweepExpiredJobs: vi.fn(),
+}));
+
+vi.mock("@/lib/notification-delivery", () => ({
+  sendNotifications: vi.fn().mockResolvedValue({ recorded: 1, sent: 1, skipped: 0, failed: 0 }),
+}));
+
+import { sweepExpiredJobs } from "@/lib/job-deadlines";
+import { sendNotifications } from "@/lib/notification-delivery";
+
+const CLOSED_JOB = { id: "job-1", title: "Engineer", company: "Acme", employer_id: "r1", organization_id: null, deadline: "2025-12-01" };
+
+function createMockRequest(query = "", authorization?: string): NextRequest {
+  return new NextRequest(`http://localhost/api/cron/close-expired-jobs${query}`, {
+    headers: authorization ? { authorization } : {},
+  });
+}
+
+describe("GET /api/cron/close-expired-jobs", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("CRON_SECRET", "s3cret");
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-12-10T12:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+  });
+
+  it("requires the cron secret", async () => {
+    const res = await GET(createMockRequest("", "Bearer wrong"));
+
+    expect(res.status).toBe(401);
+    expect((await GET(createMockRequest(""))).status).toBe(401);
+    expect(sweepExpiredJobs).not.toHaveBeenCalled();
+  });
+
+  it("sweeps with the current time and reports closed jobs", async () => {
+    vi.mocked(sweepExpiredJobs).mockResolvedValue({
+      closed: [CLOSED_JOB],
+      notified: 1,
+      failedNotifications: [],
+    });
+
+    const res = await GET(createMockRequest("?notify=1", "Bearer s3cret"));
+    const data = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(data).toEqual({ closed: 1, jobIds: ["job-1"], notified: 1, failedNotifications: [] });
+    const [, options] = vi.mocked(sweepExpiredJobs).mock.calls[0];
+    expect(options?.now?.toISOString()).toBe("2025-12-10T12:00:00.000Z");
+    expect(options?.notify).toBeTypeOf("function");
+  });
+
+  it("emails the owner and lists it in their notifications", async () => {
+    vi.stubEnv("NEXT_PUBLIC_SITE_URL", "https://app.example.com");
+    vi.mocked(sweepExpiredJobs).mockResolvedValue({ closed: [], notified: 0, failedNotifications: [] });
+
+    await GET(createMockRequest("?notify=1", "Bearer s3cret"));
+    const notify = vi.mocked(sweepExpiredJobs).mock.calls[0][1]!.notify!;
+    await notify(CLOSED_JOB);
+
+    expect(sendNotifications).toHaveBeenCalledWith(
+      expect.anything(),
+      [{
+        type: "job_closed",
+        recipientId: "r1",
+        jobId: "job-1",
+        variables: { job_title: "Engineer", company: "Acme", job_url: "https://app.example.com/recruiter/jobs/job-1" },
+      }],
+      { senderId: null }
+    );
+
+    vi.mocked(sendNotifications).mockResolvedValueOnce({ recorded: 1, sent: 0, skipped: 0, failed: 1 });
+    await expect(notify(CLOSED_JOB)).rejects.toThrow("job-1");
+  });
+
+  it("notifies an organization job's admins and recruiters rather than its creator", async () => {
+    vi.mocked(sweepExpiredJobs).mockResolvedValue({ closed: [], notified: 0, failedNotifications: [] });
+
+    await GET(createMockRequest("?notify=1", "Bearer s3cret"));
+    const notify = vi.mocked(sweepExpiredJobs).mock.calls[0][1]!.notify!;
+    await notify({ ...CLOSED_JOB, organization_id: "org-1" });
+
+    const [, events] = vi.mocked(sendNotifications).mock.calls[0];
+    expect(events.map((event) => [event.type, event.recipientId])).toEqual([["job_closed", "a1"], ["job_closed", "r2"]]);
+  });
+
+  it("skips notifications unless asked", async () => {
+    vi.mocked(sweepExpiredJobs).mockResolvedValue({ closed: [], notified: 0, failedNotifications: [] });
+
+    await GET(createMockRequest("", "Bearer s3cret"));
+
+    expect(vi.mocked(sweepExpiredJobs).mock.calls[0][1]?.notify).toBeUndefined();
+  });
+});
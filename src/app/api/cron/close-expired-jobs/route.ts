@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { isCronRequest } from "@/lib/cron";
+import { sweepExpiredJobs } from "@/lib/job-deadlines";
+import type { JobClosedNotifier } from "@/lib/job-deadlines";
+import { appUrl } from "@/lib/notifications";
+import { sendNotifications } from "@/lib/notification-delivery";
+import { canManageJobs, jobRecipients } from "@/lib/organizations";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Tell whoever runs the job that it closed, by email (unless they opted out)
+// and in the app: the organization's admins and recruiters, or the creator of
+// a legacy job
+function teamNotifier(supabase: SupabaseClient): JobClosedNotifier {
+  return async (job) => {
+    const recipients = await jobRecipients(supabase, job, canManageJobs);
+    if (recipients.length === 0) return;
+    const delivery = await sendNotifications(
+      supabase,
+      recipients.map((recipientId) => ({
+        type: "job_closed" as const,
+        recipientId,
+        jobId: job.id,
+        variables: { job_title: job.title, company: job.company, job_url: appUrl(`/recruiter/jobs/${job.id}`) },
+      })),
+      { senderId: null }
+    );
+    if (delivery.failed > 0) throw new Error(`Failed to notify the team of job ${job.id}`);
+  };
+}
+
+// GET /api/cron/close-expired-jobs - Close open jobs whose deadline has passed
+// Hit by a scheduler; safe to call repeatedly. ?notify=1 also notifies each job's team.
+export async function GET(req: NextRequest) {
+  if (!isCronRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const notify = ["1", "true"].includes(req.nextUrl.searchParams.get("notify") ?? "");
+    const supabase = createAdminClient();
+    const result = await sweepExpiredJobs(supabase, {
+      now: new Date(),
+      notify: notify ? teamNotifier(supabase) : undefined,
+    });
+
+    return NextResponse.json({
+      closed: result.closed.length,
+      jobIds: result.closed.map((job) => job.id),
+      notified: result.notified,
+      failedNotifications: result.failedNotifications,
+    });
+  } catch (error: unknown) {
+    console.error("Failed to close expired jobs:", error);
+    return NextResponse.json(
+      { error: "Failed to close expired jobs", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// POST behaves like GET for schedulers that only send POST requests
+export const POST = GET;
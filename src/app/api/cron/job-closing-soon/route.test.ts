@@ -0,0 +1,101 @@
+// =============================================
+// API ENDPOINT TESTS
+// Tests for GET /api/cron/job-closing-soon
+// =============================================
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { GET } from "./route";
+import { NextRequest } from "next/server";
+
+const applicationRows = [{ job_id: "job-1" }, { job_id: "job-1" }];
+const teamRows = [
+  { user_id: "a1", role: "admin" },
+  { user_id: "r2", role: "recruiter" },
+  { user_id: "h1", role: "hiring_manager" },
+];
+
+vi.mock("@/lib/supabase/admin", () => ({
+  createAdminClient: vi.fn(() => ({
+    from: vi.fn(() => ({
+      select: vi.fn().mockReturnThis(),
+      in: vi.fn().mockResolvedValue({ data: applicationRows, error: null }),
+    })),
+    rpc: vi.fn(async () => ({ data: teamRows, error: null })),
+  })),
+}));
+
+vi.mock("@/lib/job-deadlines", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/job-deadlines")>()),
+  claimJobsClosingSoon: vi.fn(),
+}));
+
+vi.mock("@/lib/notification-delivery", () => ({
+  sendNotifications: vi.fn().mockResolvedValue({ recorded: 1, sent: 1, skipped: 0, failed: 0 }),
+}));
+
+import { claimJobsClosingSoon } from "@/lib/job-deadlines";
+import { sendNotifications } from "@/lib/notification-delivery";
+
+function createMockRequest(authorization?: string): NextRequest {
+  return new NextRequest("http://localhost/api/cron/job-closing-soon", {
+    headers: authorization ? { authorization } : {},
+  });
+}
+
+describe("GET /api/cron/job-closing-soon", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("CRON_SECRET", "s3cret");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("requires the cron secret", async () => {
+    const res = await GET(createMockRequest("Bearer wrong"));
+
+    expect(res.status).toBe(401);
+    expect(claimJobsClosingSoon).not.toHaveBeenCalled();
+  });
+
+  it("emails each claimed job's owner with its application count", async () => {
+    vi.mocked(claimJobsClosingSoon).mockResolvedValue([
+      { id: "job-1", title: "Engineer", company: "Acme", employer_id: "r1", organization_id: null, deadline: "2025-12-12" },
+      { id: "job-2", title: "Orphan", company: "Acme", employer_id: null, organization_id: null, deadline: "2025-12-12" },
+    ]);
+
+    const res = await GET(createMockRequest("Bearer s3cret"));
+    const data = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(data).toEqual({ jobs: 2, jobIds: ["job-1", "job-2"], recorded: 1, sent: 1, skipped: 0, failed: 0 });
+    const [, events, options] = vi.mocked(sendNotifications).mock.calls[0];
+    expect(options).toEqual({ senderId: null });
+    expect(events).toEqual([
+      {
+        type: "job_closing_soon",
+        recipientId: "r1",
+        jobId: "job-1",
+        variables: expect.objectContaining({
+          job_title: "Engineer",
+          closes_at: "Dec 12, 2025, 11:59 PM UTC",
+          applications: "2 applications",
+        }),
+      },
+    ]);
+  });
+
+  it("reminds an organization job's admins and recruiters", async () => {
+    vi.mocked(claimJobsClosingSoon).mockResolvedValue([
+      { id: "job-3", title: "Designer", company: "Acme", employer_id: "gone", organization_id: "org-1", deadline: "2025-12-12" },
+    ]);
+
+    const res = await GET(createMockRequest("Bearer s3cret"));
+
+    expect(res.status).toBe(200);
+    const [, events] = vi.mocked(sendNotifications).mock.calls[0];
+    expect(events.map((event) => event.recipientId)).toEqual(["a1", "r2"]);
+    expect(events[0].variables).toEqual(expect.objectContaining({ job_title: "Designer", applications: "0 applications" }));
+  });
+});
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { isCronRequest } from "@/lib/cron";
+import { claimJobsClosingSoon, deadlineEndsAt } from "@/lib/job-deadlines";
+import { appUrl } from "@/lib/notifications";
+import type { NotificationEvent } from "@/lib/notifications";
+import { sendNotifications } from "@/lib/notification-delivery";
+import { canManageJobs, jobRecipients } from "@/lib/organizations";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function formatDeadline(deadline: string): string {
+  const ends = deadlineEndsAt(deadline);
+  return ends
+    ? ends.toLocaleString("en-US", {
+        timeZone: "UTC",
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+        timeZoneName: "short",
+      })
+    : deadline;
+}
+
+// GET /api/cron/job-closing-soon - Remind the admins and recruiters of open jobs
+// that close within a few days (the creator, for legacy jobs)
+// Hit by a scheduler; each job is reminded once, so it's safe to call repeatedly.
+export async function GET(req: NextRequest) {
+  if (!isCronRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const jobs = await claimJobsClosingSoon(supabase, { now: new Date() });
+
+    const counts = new Map<string, number>();
+    if (jobs.length > 0) {
+      const { data: applications } = await supabase
+        .from("applications")
+        .select("job_id")
+        .in("job_id", jobs.map((job) => job.id));
+      for (const row of (applications ?? []) as { job_id: string }[]) {
+        counts.set(row.job_id, (counts.get(row.job_id) ?? 0) + 1);
+      }
+    }
+
+    const events: NotificationEvent[] = [];
+    for (const job of jobs) {
+      const count = counts.get(job.id) ?? 0;
+      for (const recipientId of await jobRecipients(supabase, job, canManageJobs)) {
+        events.push({
+          type: "job_closing_soon",
+          recipientId,
+          jobId: job.id,
+          variables: {
+            job_title: job.title,
+            company: job.company,
+            closes_at: formatDeadline(job.deadline),
+            applications: `${count} ${count === 1 ? "application" : "applications"}`,
+            job_url: appUrl(`/recruiter/jobs/${job.id}`),
+          },
+        });
+      }
+    }
+    const delivery = await sendNotifications(supabase, events, { senderId: null });
+
+    return NextResponse.json({
+      jobs: jobs.length,
+      jobIds: jobs.map((job) => job.id),
+      ...delivery,
+    });
+  } catch (error: unknown) {
+    console.error("Failed to send closing-soon reminders:", error);
+    return NextResponse.json(
+      { error: "Failed to send closing-soon reminders", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// POST behaves like GET for schedulers that only send POST requests
+export const POST = GET;
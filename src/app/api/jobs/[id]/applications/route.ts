@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { scoreMatch } from "@/lib/matching";
+import { resumeDownloadPath } from "@/lib/resumes";
+import { jobRole } from "@/lib/organizations";
+import { loadApplicationTags } from "@/lib/bulk-actions";
 
 export const runtime = "nodejs";
 
@@ -22,10 +26,10 @@ export async function GET(
       );
     }
     
-    // Verify that the job belongs to this recruiter
+    // Verify that the job belongs to this recruiter's organization
     const { data: job, error: jobError } = await supabase
       .from('jobs')
-      .select('employer_id')
+      .select('employer_id, organization_id, title, description, location, requirements')
       .eq('id', jobId)
       .single();
     
@@ -36,9 +40,9 @@ export async function GET(
       );
     }
     
-    if (job.employer_id !== user.id) {
+    if (!(await jobRole(supabase, user.id, job))) {
       return NextResponse.json(
-        { error: "Forbidden - You can only view applications for your own jobs" },
+        { error: "Forbidden - You can only view applications for your organization's jobs" },
         { status: 403 }
       );
     }
@@ -51,9 +55,13 @@ export async function GET(
         job_id,
         candidate_id,
         status,
+        stage_id,
         resume_url,
+        resume_path,
         cover_letter,
         supplemental_answers,
+        flagged,
+        knockout_results,
         applied_at,
         updated_at
       `)
@@ -68,25 +76,44 @@ export async function GET(
       );
     }
     
+    const tags = await loadApplicationTags(supabase, (applications || []).map((app) => app.id));
+
     // Fetch candidate information for each application
     const applicationsWithCandidates = await Promise.all(
       (applications || []).map(async (app) => {
         if (!app.candidate_id) {
           return {
             ...app,
-            candidate: null
+            tags: tags.get(app.id) ?? [],
+            candidate: null,
+            match: null
           };
         }
         
-        const { data: candidate } = await supabase
+        const { data: profile } = await supabase
           .from('candidate_profiles')
-          .select('name, email, phone, resume_url, linkedin_url, github_url, offer_deadline')
+          .select('name, email, phone, resume_url, linkedin_url, github_url, offer_deadline, skills, languages, frameworks, years_of_experience, location, employment_types, open_to_relocation')
           .eq('user_id', app.candidate_id)
           .single();
+        if (!profile) {
+          return {
+            ...app,
+            tags: tags.get(app.id) ?? [],
+            candidate: null,
+            match: null
+          };
+        }
         
+        // Matching fields are only used for the score; keep the candidate payload as before
+        // Resumes are private; both links go through the download route, which
+        // serves the submitted snapshot or falls back to the profile resume
+        const { name, email, phone, resume_url, linkedin_url, github_url, offer_deadline } = profile;
         return {
           ...app,
-          candidate: candidate || null
+          resume_url: app.resume_url || app.resume_path ? resumeDownloadPath(app.id) : null,
+          tags: tags.get(app.id) ?? [],
+          candidate: { name, email, phone, resume_url: resume_url ? resumeDownloadPath(app.id) : null, linkedin_url, github_url, offer_deadline },
+          match: scoreMatch(profile, job)
         };
       })
     );
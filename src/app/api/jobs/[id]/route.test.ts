@@ -0,0 +1,211 @@
+// =============================================
+// API ENDPOINT TESTS
+// Tests for PATCH/DELETE /api/jobs/[id] (edit, publish, close, delete)
+// =============================================
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { DELETE, PATCH } from "./route";
+
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: vi.fn(),
+}));
+
+import { createClient } from "@/lib/supabase/server";
+
+const JOB_ID = "8f14e45f-ceea-467f-a8f7-5f1d2a6b9c01";
+const RECRUITER_ID = "550e8400-e29b-41d4-a716-446655440002";
+const OTHER_RECRUITER_ID = "550e8400-e29b-41d4-a716-446655440003";
+
+function createMockRequest(body: any): Request {
+  return {
+    json: async () => body,
+  } as Request;
+}
+
+const params = { params: Promise.resolve({ id: JOB_ID }) };
+
+// Supabase mock for one job in `status`, owned by RECRUITER_ID, with the given applications
+function createMockSupabase(userId: string, status: string, applications: { status: string; stage_id: string | null }[] = []) {
+  const job = {
+    id: JOB_ID,
+    employer_id: RECRUITER_ID,
+    title: "Engineer",
+    status,
+    requirements: { supplementalQuestions: [] },
+    pipeline_stages: null,
+  };
+  const update = vi.fn().mockReturnThis();
+  const remove = vi.fn().mockReturnThis();
+  const supabase = {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({ data: { user: { id: userId } }, error: null }),
+    },
+    from: vi.fn((table: string) => {
+      if (table === "jobs") {
+        return {
+          select: vi.fn().mockReturnThis(),
+          update,
+          delete: remove,
+          eq: vi.fn().mockImplementation(function (this: unknown) {
+            // delete().eq() is awaited directly
+            return remove.mock.calls.length > 0 ? Promise.resolve({ error: null }) : this;
+          }),
+          single: vi.fn().mockImplementation(async () => ({
+            data: { ...job, ...update.mock.calls[0]?.[0] },
+            error: null,
+          })),
+        };
+      }
+      if (table === "applications") {
+        return {
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockResolvedValue({ data: applications, count: applications.length, error: null }),
+        };
+      }
+      return {};
+    }),
+  };
+  return { supabase, update, remove };
+}
+
+describe("PATCH /api/jobs/[id]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lets the owner edit fields and regenerates the salary text", async () => {
+    const { supabase, update } = createMockSupabase(RECRUITER_ID, "open");
+    vi.mocked(createClient).mockResolvedValue(supabase as any);
+
+    const res = await PATCH(
+      createMockRequest({ title: " Senior Engineer ", salary_min: 100000, salary_max: 120000, salary_currency: "USD", salary_period: "yearly" }),
+      params
+    );
+    const data = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(update).toHaveBeenCalledWith(
+      expect.objectContaining({ title: "Senior Engineer", salary_min: 100000, salary_range: "$100,000 – $120,000 per year" })
+    );
+    expect(data.title).toBe("Senior Engineer");
+    expect(data.employer_id).toBeUndefined();
+  });
+
+  it("publishes a draft and closes an open job", async () => {
+    const draft = createMockSupabase(RECRUITER_ID, "draft");
+    vi.mocked(createClient).mockResolvedValue(draft.supabase as any);
+    const published = await PATCH(createMockRequest({ status: "open" }), params);
+    expect(published.status).toBe(200);
+    expect(draft.update).toHaveBeenCalledWith({ status: "open" });
+
+    const open = createMockSupabase(RECRUITER_ID, "open");
+    vi.mocked(createClient).mockResolvedValue(open.supabase as any);
+    const closed = await PATCH(createMockRequest({ status: "closed" }), params);
+    expect(closed.status).toBe(200);
+    expect(open.update).toHaveBeenCalledWith({ status: "closed" });
+  });
+
+  it("rejects moving a published job back to draft", async () => {
+    const { supabase, update } = createMockSupabase(RECRUITER_ID, "open");
+    vi.mocked(createClient).mockResolvedValue(supabase as any);
+
+    const res = await PATCH(createMockRequest({ status: "draft" }), params);
+
+    expect(res.status).toBe(409);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it("returns 403 for recruiters who don't own the job", async () => {
+    const { supabase, update } = createMockSupabase(OTHER_RECRUITER_ID, "open");
+    vi.mocked(createClient).mockResolvedValue(supabase as any);
+
+    const res = await PATCH(createMockRequest({ title: "Hijacked" }), params);
+
+    expect(res.status).toBe(403);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 for invalid fields", async () => {
+    const { supabase } = createMockSupabase(RECRUITER_ID, "open");
+    vi.mocked(createClient).mockResolvedValue(supabase as any);
+
+    const res = await PATCH(createMockRequest({ title: "" }), params);
+    const data = await res.json();
+
+    expect(res.status).toBe(400);
+    expect(data.details.title).toBeDefined();
+  });
+
+  it("saves structured requirements and moves questions out of legacy requirements", async () => {
+    const { supabase, update } = createMockSupabase(RECRUITER_ID, "open");
+    vi.mocked(createClient).mockResolvedValue(supabase as any);
+    const questions = [{ id: "q1", question: "Why us?", type: "text", required: true }];
+
+    const res = await PATCH(
+      createMockRequest({ requirements: { requiredSkills: ["Go", "go"], minYearsExperience: 2 }, supplementalQuestions: questions }),
+      params
+    );
+    const data = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(update).toHaveBeenCalledWith({
+      requirements: expect.objectContaining({ requiredSkills: ["Go"], minYearsExperience: 2, degreeLevel: null }),
+      supplemental_questions: questions,
+    });
+    expect(data.requirements.requiredSkills).toEqual(["Go"]);
+    expect(data.supplementalQuestions).toEqual(questions);
+    expect(data.supplemental_questions).toBeUndefined();
+
+    const legacy = createMockSupabase(RECRUITER_ID, "open");
+    vi.mocked(createClient).mockResolvedValue(legacy.supabase as any);
+    await PATCH(createMockRequest({ supplementalQuestions: questions }), params);
+    expect(legacy.update).toHaveBeenCalledWith({ requirements: null, supplemental_questions: questions });
+  });
+
+  it("refuses to remove pipeline stages that still hold applications", async () => {
+    const { supabase, update } = createMockSupabase(RECRUITER_ID, "open", [{ status: "interview", stage_id: "interview" }]);
+    vi.mocked(createClient).mockResolvedValue(supabase as any);
+
+    const res = await PATCH(
+      createMockRequest({
+        pipelineStages: [
+          { id: "applied", name: "Applied", status: "applied" },
+          { id: "hired", name: "Hired", status: "hired" },
+          { id: "rejected", name: "Rejected", status: "rejected" },
+        ],
+      }),
+      params
+    );
+    const data = await res.json();
+
+    expect(res.status).toBe(409);
+    expect(data.message).toContain("Interview");
+    expect(update).not.toHaveBeenCalled();
+  });
+});
+
+describe("DELETE /api/jobs/[id]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("deletes a job without applications", async () => {
+    const { supabase, remove } = createMockSupabase(RECRUITER_ID, "draft");
+    vi.mocked(createClient).mockResolvedValue(supabase as any);
+
+    const res = await DELETE(createMockRequest(null), params);
+
+    expect(res.status).toBe(200);
+    expect(remove).toHaveBeenCalled();
+  });
+
+  it("asks to close jobs that have applications instead", async () => {
+    const { supabase, remove } = createMockSupabase(RECRUITER_ID, "open", [{ status: "applied", stage_id: "applied" }]);
+    vi.mocked(createClient).mockResolvedValue(supabase as any);
+
+    const res = await DELETE(createMockRequest(null), params);
+
+    expect(res.status).toBe(409);
+    expect(remove).not.toHaveBeenCalled();
+  });
+});
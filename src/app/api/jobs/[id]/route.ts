@@ -1,9 +1,36 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { currentStage, resolvePipeline } from "@/lib/pipeline";
+import { readJobQuestions } from "@/lib/supplemental-questions";
+import { hasJobRequirements, parseJobRequirements } from "@/lib/job-requirements";
+import { JobUpdateSchema, canChangeJobStatus, hasSalaryInput, parseJobSalary } from "@/lib/validation/job-schema";
+import { canManageJobs, jobRole } from "@/lib/organizations";
+import { resolveCompetencies } from "@/lib/scorecards";
+import type { JobStatus } from "@/lib/types/database";
 
 export const runtime = "nodejs";
 
-// GET /api/jobs/[id] - Fetch a specific job by ID
+const JOB_FIELDS = 'id, employer_id, organization_id, title, company, location, description, salary_range, salary_min, salary_max, salary_currency, salary_period, status, deadline, requirements, supplemental_questions, pipeline_stages, scorecard_competencies';
+
+// Shape a job row for the client: typed requirements, supplemental questions
+// (read from requirements on rows older than migration 011), and the pipeline
+// and scorecard competencies falling back to their defaults
+function toJobResponse(data: Record<string, any>) {
+  const job = { ...data };
+  delete job.employer_id;
+  delete job.organization_id;
+  delete job.supplemental_questions;
+  delete job.scorecard_competencies;
+  return {
+    ...job,
+    requirements: parseJobRequirements(data.requirements),
+    supplementalQuestions: readJobQuestions(data),
+    pipelineStages: resolvePipeline(job),
+    scorecardCompetencies: resolveCompetencies(data),
+  };
+}
+
+// GET /api/jobs/[id] - Fetch a specific job by ID (drafts are only visible to the owning organization)
 export async function GET(_req: Request, context: unknown) {
   try {
     const supabase = await createClient();
@@ -13,7 +40,7 @@ export async function GET(_req: Request, context: unknown) {
     // Fetch job by ID
     const { data, error } = await supabase
       .from('jobs')
-      .select('id, title, company, location, description, salary_range, status, deadline, requirements')
+      .select(JOB_FIELDS)
       .eq('id', jobId)
       .single();
     
@@ -25,12 +52,17 @@ export async function GET(_req: Request, context: unknown) {
       );
     }
     
-    const supp = data?.requirements && typeof data.requirements === 'object' ? (data.requirements as any).supplementalQuestions : undefined;
-    const mapped = {
-      ...data,
-      supplementalQuestions: Array.isArray(supp) ? supp : undefined,
-    };
-    return NextResponse.json(mapped);
+    if (data.status === 'draft') {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user || !(await jobRole(supabase, user.id, data))) {
+        return NextResponse.json(
+          { error: "Job not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    return NextResponse.json(toJobResponse(data));
   } catch (error: any) {
     console.error('Unexpected error:', error);
     return NextResponse.json(
@@ -39,3 +71,207 @@ export async function GET(_req: Request, context: unknown) {
     );
   }
 }
+
+// Load a job and check the caller can manage it (an admin or recruiter in its
+// organization). Returns the job or an error response.
+async function loadOwnedJob(supabase: Awaited<ReturnType<typeof createClient>>, jobId: string, userId: string) {
+  const { data: job, error } = await supabase
+    .from('jobs')
+    .select('id, employer_id, organization_id, status, requirements, supplemental_questions, pipeline_stages')
+    .eq('id', jobId)
+    .single();
+
+  if (error || !job) {
+    return { response: NextResponse.json({ error: "Job not found" }, { status: 404 }) };
+  }
+  // Legacy jobs without an owner can't be edited through the API
+  if (!canManageJobs(await jobRole(supabase, userId, job))) {
+    return { response: NextResponse.json({ error: "Forbidden - You don't own this job" }, { status: 403 }) };
+  }
+  return { job };
+}
+
+// PATCH /api/jobs/[id] - Edit, publish, close or reopen a job (organization admins and recruiters)
+export async function PATCH(req: Request, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<{ id: string }> }).params;
+    const jobId = params.id;
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - You must be logged in to edit jobs" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+
+    const parsed = JobUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid job", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const input = parsed.data;
+
+    const salaryCheck = hasSalaryInput(body) ? parseJobSalary(body) : null;
+    if (salaryCheck && !salaryCheck.success) {
+      return NextResponse.json(
+        { error: "Invalid salary", details: salaryCheck.fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { job, response } = await loadOwnedJob(supabase, jobId, user.id);
+    if (response) return response;
+
+    if (input.status && !canChangeJobStatus(job.status as JobStatus, input.status)) {
+      return NextResponse.json(
+        { error: "Invalid status change", message: `A ${job.status} job can't be moved to ${input.status}` },
+        { status: 409 }
+      );
+    }
+
+    // Stages can't be removed while applications are still in them
+    if (input.pipelineStages) {
+      const oldStages = resolvePipeline(job);
+      const newIds = new Set(input.pipelineStages.map((s) => s.id));
+      const { data: apps, error: appsError } = await supabase
+        .from('applications')
+        .select('status, stage_id')
+        .eq('job_id', jobId);
+      if (appsError) {
+        console.error('Error checking applications:', appsError);
+        return NextResponse.json(
+          { error: "Failed to update job", details: appsError.message },
+          { status: 500 }
+        );
+      }
+      const inUse = new Set<string>();
+      for (const app of apps || []) {
+        const stage = currentStage(oldStages, app);
+        if (stage && !newIds.has(stage.id)) inUse.add(stage.name);
+      }
+      if (inUse.size > 0) {
+        return NextResponse.json(
+          {
+            error: "Pipeline stages still have applications",
+            message: `Move applications out of ${[...inUse].join(', ')} before removing ${inUse.size === 1 ? 'it' : 'them'}`,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    const updates: Record<string, unknown> = {};
+    if (input.title !== undefined) updates.title = input.title;
+    if (input.company !== undefined) updates.company = input.company;
+    if (input.location !== undefined) updates.location = input.location;
+    if (input.description !== undefined) updates.description = input.description || null;
+    if (input.deadline !== undefined) updates.deadline = input.deadline;
+    if (input.status !== undefined) updates.status = input.status;
+    if (input.pipelineStages !== undefined) updates.pipeline_stages = input.pipelineStages;
+    if (input.scorecardCompetencies !== undefined) updates.scorecard_competencies = input.scorecardCompetencies;
+    if (input.requirements !== undefined) {
+      updates.requirements = hasJobRequirements(input.requirements) ? input.requirements : null;
+    }
+    if (input.supplementalQuestions !== undefined) {
+      updates.supplemental_questions = input.supplementalQuestions;
+      // Drop the legacy copy so requirements only holds requirements
+      if (updates.requirements === undefined && job.requirements && typeof job.requirements === 'object' && 'supplementalQuestions' in job.requirements) {
+        const requirements = parseJobRequirements(job.requirements);
+        updates.requirements = hasJobRequirements(requirements) ? requirements : null;
+      }
+    }
+    if (salaryCheck?.success) Object.assign(updates, salaryCheck.data);
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: "No changes provided" }, { status: 400 });
+    }
+
+    const { data: updated, error } = await supabase
+      .from('jobs')
+      .update(updates)
+      .eq('id', jobId)
+      .select(JOB_FIELDS)
+      .single();
+
+    if (error || !updated) {
+      console.error('Error updating job:', error);
+      return NextResponse.json(
+        { error: "Failed to update job", details: error?.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(toJobResponse(updated));
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/jobs/[id] - Delete a job that has no applications (organization admins and recruiters)
+export async function DELETE(_req: Request, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<{ id: string }> }).params;
+    const jobId = params.id;
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - You must be logged in to delete jobs" },
+        { status: 401 }
+      );
+    }
+
+    const { response } = await loadOwnedJob(supabase, jobId, user.id);
+    if (response) return response;
+
+    // Jobs with applicants are closed rather than deleted so their applications and history survive
+    const { count, error: countError } = await supabase
+      .from('applications')
+      .select('*', { count: 'exact', head: true })
+      .eq('job_id', jobId);
+    if (countError) {
+      console.error('Error counting applications:', countError);
+      return NextResponse.json(
+        { error: "Failed to delete job", details: countError.message },
+        { status: 500 }
+      );
+    }
+    if ((count || 0) > 0) {
+      return NextResponse.json(
+        { error: "Job has applications", message: "Close the job instead of deleting it" },
+        { status: 409 }
+      );
+    }
+
+    const { error } = await supabase.from('jobs').delete().eq('id', jobId);
+    if (error) {
+      console.error('Error deleting job:', error);
+      return NextResponse.json(
+        { error: "Failed to delete job", details: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,10 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { getMembership, recruiterJobsFilter } from "@/lib/organizations";
 
 export const runtime = "nodejs";
 
-// GET /api/jobs/recruiter - Fetch all jobs created by the authenticated recruiter
+// GET /api/jobs/recruiter - Fetch the jobs of the authenticated recruiter's organization
 export async function GET() {
   try {
     const supabase = await createClient();
@@ -18,7 +19,8 @@ export async function GET() {
       );
     }
     
-    // Fetch all jobs created by this recruiter
+    // The organization's jobs, plus legacy jobs this recruiter created before organizations
+    const membership = await getMembership(supabase, user.id);
     const { data, error } = await supabase
       .from('jobs')
       .select(`
@@ -32,9 +34,11 @@ export async function GET() {
         deadline,
         created_at,
         employer_id,
-        requirements
+        organization_id,
+        requirements,
+        pipeline_stages
       `)
-      .eq('employer_id', user.id)
+      .or(recruiterJobsFilter(user.id, membership))
       .order('created_at', { ascending: false });
     
     if (error) {
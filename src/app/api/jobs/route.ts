@@ -1,17 +1,44 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { DEFAULT_PIPELINE, PipelineStagesSchema } from "@/lib/pipeline";
+import { isSearchRequest, parseJobSearchParams, searchJobs } from "@/lib/job-search";
+import { isPastDeadline } from "@/lib/job-deadlines";
+import { SupplementalQuestionsSchema, readJobQuestions } from "@/lib/supplemental-questions";
+import { JobRequirementsSchema, hasJobRequirements, parseJobRequirements } from "@/lib/job-requirements";
+import { NEW_JOB_STATUSES, parseJobSalary } from "@/lib/validation/job-schema";
+import { canManageJobs, getMembership } from "@/lib/organizations";
+import { ScorecardCompetenciesSchema } from "@/lib/scorecards";
+import type { JobSearchParams } from "@/lib/job-search";
 
 export const runtime = "nodejs";
 
-// GET /api/jobs - Fetch all open jobs from Supabase
-export async function GET() {
+// GET /api/jobs - Fetch open jobs from Supabase
+// Without query params: every open job, newest first (legacy array response).
+// With any of q, location, remote, salary, deadline, cursor, limit: search mode,
+// returning { jobs, total, nextCursor, facets } (see src/lib/job-search.ts).
+export async function GET(req?: NextRequest) {
   try {
+    const searchParams = req?.nextUrl?.searchParams ?? new URLSearchParams();
+    const searching = isSearchRequest(searchParams);
+
+    let searchOptions: JobSearchParams | null = null;
+    if (searching) {
+      const parsed = parseJobSearchParams(searchParams);
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: "Invalid search parameters", details: parsed.error.flatten().fieldErrors },
+          { status: 400 }
+        );
+      }
+      searchOptions = parsed.data;
+    }
+
     const supabase = await createClient();
     
     // Fetch all open jobs
     const { data, error } = await supabase
       .from('jobs')
-      .select('id, title, company, location, description, salary_range, status, deadline')
+      .select('id, title, company, location, description, salary_range, salary_min, salary_max, salary_currency, salary_period, status, deadline, requirements, supplemental_questions, pipeline_stages, created_at')
       .eq('status', 'open')  // Only show open jobs
       .order('created_at', { ascending: false });
     
@@ -23,7 +50,21 @@ export async function GET() {
       );
     }
     
-    return NextResponse.json(data || []);
+    // Hide jobs whose deadline passed but that the sweeper hasn't closed yet.
+    // Requirements and questions are read the same way as GET /api/jobs/[id].
+    const openJobs = (data || [])
+      .filter((job) => !isPastDeadline(job.deadline))
+      .map(({ supplemental_questions, ...job }) => ({
+        ...job,
+        requirements: parseJobRequirements(job.requirements),
+        supplementalQuestions: readJobQuestions({ supplemental_questions, requirements: job.requirements }),
+      }));
+
+    if (!searchOptions) {
+      return NextResponse.json(openJobs);
+    }
+
+    return NextResponse.json(searchJobs(openJobs, searchOptions));
   } catch (error: unknown) {
     console.error('Unexpected error:', error);
     return NextResponse.json(
@@ -59,19 +100,103 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Validate the hiring pipeline; jobs without one get the default stages
+    let pipelineStages = DEFAULT_PIPELINE;
+    if (body.pipelineStages !== undefined && body.pipelineStages !== null) {
+      const parsed = PipelineStagesSchema.safeParse(body.pipelineStages);
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: "Invalid pipeline stages", details: parsed.error.issues.map(i => i.message) },
+          { status: 400 }
+        );
+      }
+      pipelineStages = parsed.data;
+    }
+
+    // Validate supplemental question definitions (types, rules and conditions)
+    let supplementalQuestions = null;
+    if (body.supplementalQuestions !== undefined && body.supplementalQuestions !== null) {
+      const parsed = SupplementalQuestionsSchema.safeParse(body.supplementalQuestions);
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: "Invalid supplemental questions", details: parsed.error.issues.map(i => i.message) },
+          { status: 400 }
+        );
+      }
+      supplementalQuestions = parsed.data;
+    }
+
+    // Validate scorecard competencies; jobs without them use the defaults
+    let scorecardCompetencies = null;
+    if (body.scorecardCompetencies !== undefined && body.scorecardCompetencies !== null) {
+      const parsed = ScorecardCompetenciesSchema.safeParse(body.scorecardCompetencies);
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: "Invalid scorecard competencies", details: parsed.error.issues.map(i => i.message) },
+          { status: 400 }
+        );
+      }
+      scorecardCompetencies = parsed.data;
+    }
+
+    // Validate structured requirements (skills, experience, degree, ...)
+    let requirements = null;
+    if (body.requirements !== undefined && body.requirements !== null) {
+      const parsed = JobRequirementsSchema.safeParse(body.requirements);
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: "Invalid requirements", details: parsed.error.issues.map(i => i.message) },
+          { status: 400 }
+        );
+      }
+      requirements = hasJobRequirements(parsed.data) ? parsed.data : null;
+    }
+
+    // Jobs are published immediately unless saved as a draft
+    const status = body.status ?? 'open';
+    if (!NEW_JOB_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: "Invalid status", details: `New jobs must be one of: ${NEW_JOB_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Validate the structured salary (legacy free text is parsed best-effort)
+    const salaryCheck = parseJobSalary(body);
+    if (!salaryCheck.success) {
+      return NextResponse.json(
+        { error: "Invalid salary", details: salaryCheck.fieldErrors },
+        { status: 400 }
+      );
+    }
+    const salary = salaryCheck.data;
+
+    // New jobs belong to the recruiter's organization; hiring managers and viewers can't post
+    const membership = await getMembership(supabase, user.id);
+    if (membership && !canManageJobs(membership.role)) {
+      return NextResponse.json(
+        { error: "Forbidden - Only admins and recruiters can post jobs" },
+        { status: 403 }
+      );
+    }
+
     // Create the job in Supabase with employer_id
     const { data: newJob, error } = await supabase
       .from('jobs')
       .insert({
         employer_id: user.id,  // Set the recruiter who created this job
+        organization_id: membership?.organization_id ?? null,
         title: title.trim(),
         company: company.trim(),
         location: location.trim(),
         description: body.description?.trim() || null,
-        salary_range: body.salary_range || null,
-        requirements: body.supplementalQuestions ? { supplementalQuestions: body.supplementalQuestions } : null,
-        status: 'open',
-        deadline: body.deadline || null
+        ...salary,
+        requirements,
+        supplemental_questions: supplementalQuestions,
+        status,
+        deadline: body.deadline || null,
+        pipeline_stages: pipelineStages,
+        scorecard_competencies: scorecardCompetencies
       })
       .select()
       .single();
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getUserRole } from "@/lib/storage";
+import { loadInbox, unreadMessageCounts } from "@/lib/messages";
+
+export const runtime = "nodejs";
+
+// GET /api/messages - The caller's message threads, most recent first, with
+// unread counts. ?summary=1 returns only { unread } (the nav badge).
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (req.nextUrl.searchParams.get('summary')) {
+      const counts = await unreadMessageCounts(supabase);
+      return NextResponse.json({ unread: Object.values(counts).reduce((sum, n) => sum + n, 0) });
+    }
+
+    const role = await getUserRole(user.id);
+    if (!role) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+
+    const threads = await loadInbox(supabase, user.id, role);
+    return NextResponse.json({
+      threads,
+      unread: threads.reduce((sum, thread) => sum + thread.unread, 0),
+    });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
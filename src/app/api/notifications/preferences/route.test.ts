@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { GET, PUT } from "./route";
+
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: vi.fn(),
+}));
+
+import { createClient } from "@/lib/supabase/server";
+
+// notification_preferences rows kept in memory; upsert replaces by (user_id, event)
+function mockSupabase(userId: string | null, rows: { user_id: string; event: string; email_enabled: boolean }[] = []) {
+  const upsert = vi.fn(async (incoming: typeof rows) => {
+    for (const row of incoming) {
+      const index = rows.findIndex((r) => r.user_id === row.user_id && r.event === row.event);
+      if (index >= 0) rows[index] = row;
+      else rows.push(row);
+    }
+    return { error: null };
+  });
+  const client = {
+    auth: { getUser: vi.fn().mockResolvedValue({ data: { user: userId ? { id: userId } : null }, error: null }) },
+    from: vi.fn(() => ({
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn(async (_column: string, value: string) => ({ data: rows.filter((r) => r.user_id === value), error: null })),
+      upsert,
+    })),
+  };
+  vi.mocked(createClient).mockResolvedValue(client as any);
+  return { upsert };
+}
+
+const put = (body: unknown) =>
+  new NextRequest("http://localhost/api/notifications/preferences", { method: "PUT", body: JSON.stringify(body) });
+
+describe("/api/notifications/preferences", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("turns every email on until the user opts out", async () => {
+    mockSupabase("user-1", [{ user_id: "user-1", event: "status_changed", email_enabled: false }]);
+
+    const data = await (await GET()).json();
+
+    expect(data.email).toEqual({
+      application_received: true,
+      status_changed: false,
+      interview_scheduled: true,
+      job_closing_soon: true,
+      job_closed: true,
+    });
+  });
+
+  it("saves changes for the caller only", async () => {
+    const { upsert } = mockSupabase("user-1");
+
+    const res = await PUT(put({ email: { interview_scheduled: false } }));
+    const data = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(upsert).toHaveBeenCalledWith(
+      [expect.objectContaining({ user_id: "user-1", event: "interview_scheduled", email_enabled: false })],
+      { onConflict: "user_id,event" }
+    );
+    expect(data.email.interview_scheduled).toBe(false);
+  });
+
+  it("rejects unknown types and anonymous callers", async () => {
+    mockSupabase("user-1");
+    expect((await PUT(put({ email: { weekly_digest: false } }))).status).toBe(400);
+
+    mockSupabase(null);
+    expect((await GET()).status).toBe(401);
+  });
+});
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { NotificationPreferencesSchema, loadNotificationPreferences } from "@/lib/notifications";
+
+export const runtime = "nodejs";
+
+// GET /api/notifications/preferences - Which notification emails the caller gets
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json({ email: await loadNotificationPreferences(supabase, user.id) });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/notifications/preferences - Turn notification emails on or off
+export async function PUT(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const parsed = NotificationPreferencesSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid preferences", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const rows = Object.entries(parsed.data.email).map(([event, enabled]) => ({
+      user_id: user.id,
+      event,
+      email_enabled: enabled,
+      updated_at: new Date().toISOString(),
+    }));
+    if (rows.length > 0) {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert(rows, { onConflict: 'user_id,event' });
+      if (error) {
+        console.error('Error saving notification preferences:', error);
+        return NextResponse.json({ error: "Failed to save preferences", details: error.message }, { status: 500 });
+      }
+    }
+
+    return NextResponse.json({ email: await loadNotificationPreferences(supabase, user.id) });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
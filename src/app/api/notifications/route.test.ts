@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { GET, PATCH } from "./route";
+
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: vi.fn(),
+}));
+
+import { createClient } from "@/lib/supabase/server";
+
+type Row = { id: string; user_id: string; type: string; variables: Record<string, string>; link: string | null; job_id: string | null; read_at: string | null; created_at: string };
+
+// notifications rows kept in memory; supports the filters the route uses
+function mockSupabase(userId: string | null, rows: Row[]) {
+  const client = {
+    auth: { getUser: vi.fn().mockResolvedValue({ data: { user: userId ? { id: userId } : null }, error: null }) },
+    from: vi.fn(() => {
+      const filters: ((row: Row) => boolean)[] = [];
+      let update: Partial<Row> | null = null;
+      let head = false;
+      const query: any = {
+        select: vi.fn((_columns: string, options?: { head?: boolean }) => {
+          head = Boolean(options?.head);
+          return query;
+        }),
+        update: vi.fn((values: Partial<Row>) => {
+          update = values;
+          return query;
+        }),
+        eq: vi.fn((column: keyof Row, value: unknown) => {
+          filters.push((row) => row[column] === value);
+          return query;
+        }),
+        is: vi.fn((column: keyof Row, value: unknown) => {
+          filters.push((row) => row[column] === value);
+          return query;
+        }),
+        in: vi.fn((column: keyof Row, values: unknown[]) => {
+          filters.push((row) => values.includes(row[column]));
+          return query;
+        }),
+        order: vi.fn().mockReturnThis(),
+        limit: vi.fn().mockReturnThis(),
+        then: (resolve: (value: unknown) => void) => {
+          const matched = rows.filter((row) => filters.every((f) => f(row)));
+          if (update) {
+            for (const row of matched) Object.assign(row, update);
+            return resolve({ error: null });
+          }
+          return resolve(head ? { count: matched.length, error: null } : { data: matched, error: null });
+        },
+      };
+      return query;
+    }),
+  };
+  vi.mocked(createClient).mockResolvedValue(client as any);
+}
+
+function rows(): Row[] {
+  return [
+    { id: "n-1", user_id: "rec-1", type: "application_received", variables: { candidate_name: "Ada", job_title: "Backend Engineer" }, link: "/recruiter/applications/a", job_id: "job-1", read_at: null, created_at: "2025-12-30T10:02:00Z" },
+    { id: "n-2", user_id: "rec-1", type: "application_received", variables: { candidate_name: "Lin", job_title: "Backend Engineer" }, link: "/recruiter/applications/b", job_id: "job-1", read_at: null, created_at: "2025-12-30T10:01:00Z" },
+    { id: "n-3", user_id: "rec-1", type: "job_closing_soon", variables: { job_title: "Designer", closes_at: "Jan 2" }, link: "/recruiter/jobs/job-2", job_id: "job-2", read_at: null, created_at: "2025-12-30T10:00:00Z" },
+    { id: "n-4", user_id: "someone-else", type: "status_changed", variables: {}, link: null, job_id: null, read_at: null, created_at: "2025-12-30T10:00:00Z" },
+  ];
+}
+
+const get = (query = "") => new NextRequest(`http://localhost/api/notifications${query}`);
+const patch = (body: unknown) =>
+  new NextRequest("http://localhost/api/notifications", { method: "PATCH", body: JSON.stringify(body) });
+
+describe("/api/notifications", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lists the caller's notifications with the unread count", async () => {
+    mockSupabase("rec-1", rows());
+
+    const res = await GET(get());
+    const data = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(data.unread).toBe(3);
+    expect(data.notifications.map((n: { message: string }) => n.message)).toEqual([
+      "2 new applicants for Backend Engineer",
+      "Designer stops taking applications on Jan 2",
+    ]);
+    expect(data.notifications[0]).toMatchObject({ ids: ["n-1", "n-2"], link: "/recruiter/jobs/job-1" });
+  });
+
+  it("returns only the count for the bell badge", async () => {
+    mockSupabase("rec-1", rows());
+
+    const data = await (await GET(get("?summary=1"))).json();
+
+    expect(data).toEqual({ unread: 3 });
+  });
+
+  it("marks the chosen notifications read", async () => {
+    const data = rows();
+    mockSupabase("rec-1", data);
+
+    const res = await PATCH(patch({ ids: ["00000000-0000-4000-8000-000000000000"] }));
+    expect((await res.json()).unread).toBe(3);
+
+    data[0].id = "3f2b8c1e-2d4a-4b6f-9a1c-5e7d8f9a0b1c";
+    const marked = await (await PATCH(patch({ ids: [data[0].id] }))).json();
+
+    expect(marked.unread).toBe(2);
+    expect(data[0].read_at).not.toBeNull();
+  });
+
+  it("marks everything read without touching other users' rows", async () => {
+    const data = rows();
+    mockSupabase("rec-1", data);
+
+    const marked = await (await PATCH(patch({ all: true }))).json();
+
+    expect(marked.unread).toBe(0);
+    expect(data[3].read_at).toBeNull();
+  });
+
+  it("rejects bad bodies and anonymous callers", async () => {
+    mockSupabase("rec-1", rows());
+    expect((await PATCH(patch({ ids: [] }))).status).toBe(400);
+
+    mockSupabase(null, rows());
+    expect((await GET(get())).status).toBe(401);
+    expect((await PATCH(patch({ all: true }))).status).toBe(401);
+  });
+});
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  MarkNotificationsReadSchema,
+  countUnreadNotifications,
+  loadNotifications,
+  toNotificationViews,
+} from "@/lib/notification-center";
+
+export const runtime = "nodejs";
+
+// GET /api/notifications - The caller's recent notifications, newest first,
+// with the unread count. ?summary=1 returns only { unread } (the bell badge).
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const unread = await countUnreadNotifications(supabase, user.id);
+    if (req.nextUrl.searchParams.get('summary')) {
+      return NextResponse.json({ unread });
+    }
+
+    const rows = await loadNotifications(supabase, user.id);
+    return NextResponse.json({ notifications: toNotificationViews(rows), unread });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/notifications - Mark notifications read, by id or all at once
+export async function PATCH(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const parsed = MarkNotificationsReadSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    let query = supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', user.id)
+      .is('read_at', null);
+    if (!parsed.data.all) {
+      query = query.in('id', parsed.data.ids ?? []);
+    }
+    const { error } = await query;
+    if (error) {
+      console.error('Error marking notifications read:', error);
+      return NextResponse.json({ error: "Failed to mark notifications read", details: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ unread: await countUnreadNotifications(supabase, user.id) });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+
+// Errors raised by accept_organization_invite() (migration 014)
+const ACCEPT_ERRORS: Record<string, { error: string; status: number }> = {
+  INVITE_NOT_FOUND: { error: "This invite is invalid or has expired", status: 404 },
+  INVITE_EMAIL_MISMATCH: { error: "This invite was sent to a different email address", status: 403 },
+  ALREADY_IN_ORGANIZATION: { error: "You already belong to another organization", status: 409 },
+};
+
+// POST /api/organizations/invites/[token]/accept - Join the invite's organization
+export async function POST(_req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<{ token: string }> }).params;
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: organizationId, error } = await supabase.rpc('accept_organization_invite', { invite_token: params.token });
+    if (error) {
+      const known = Object.keys(ACCEPT_ERRORS).find((code) => error.message.includes(code));
+      if (known) {
+        return NextResponse.json({ error: ACCEPT_ERRORS[known].error, code: known }, { status: ACCEPT_ERRORS[known].status });
+      }
+      console.error('Error accepting invite:', error);
+      return NextResponse.json({ error: "Failed to accept invite", details: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ organizationId });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { canManageMembers, getMembership } from "@/lib/organizations";
+import type { InviteDetails } from "@/lib/organizations";
+import type { OrganizationRole } from "@/lib/types/database";
+
+export const runtime = "nodejs";
+
+// GET /api/organizations/invites/[token] - What an invite is for (no sign-in needed; the token is the secret)
+export async function GET(_req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<{ token: string }> }).params;
+
+    const { data, error } = await supabase.rpc('get_organization_invite', { invite_token: params.token });
+    if (error) {
+      console.error('Error fetching invite:', error);
+      return NextResponse.json({ error: "Failed to fetch invite", details: error.message }, { status: 500 });
+    }
+    const row = (data as { organization_name: string; email: string; role: OrganizationRole; expires_at: string }[] | null)?.[0];
+    if (!row) {
+      return NextResponse.json({ error: "This invite is invalid or has expired" }, { status: 404 });
+    }
+
+    const invite: InviteDetails = {
+      organizationName: row.organization_name,
+      email: row.email,
+      role: row.role,
+      expiresAt: row.expires_at,
+    };
+    return NextResponse.json(invite);
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/organizations/invites/[token] - Revoke a pending invite (admins only)
+export async function DELETE(_req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<{ token: string }> }).params;
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const membership = await getMembership(supabase, user.id);
+    if (!membership || !canManageMembers(membership.role)) {
+      return NextResponse.json({ error: "Forbidden - Only admins can revoke invites" }, { status: 403 });
+    }
+
+    const { error } = await supabase
+      .from('organization_invites')
+      .delete()
+      .eq('organization_id', membership.organization_id)
+      .eq('token', params.token);
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ revoked: true });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
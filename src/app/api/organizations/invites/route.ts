@@ -0,0 +1,69 @@
+import { randomBytes } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { INVITE_TTL_DAYS, InviteSchema, canManageMembers, getMembership, inviteLink } from "@/lib/organizations";
+import type { OrganizationInviteInsert } from "@/lib/types/database";
+
+export const runtime = "nodejs";
+
+// POST /api/organizations/invites - Invite someone to the caller's organization (admins only)
+// There's no outbound email yet, so the response includes the link for the admin to share.
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const parsed = InviteSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid invite", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const membership = await getMembership(supabase, user.id);
+    if (!membership || !canManageMembers(membership.role)) {
+      return NextResponse.json({ error: "Forbidden - Only admins can invite members" }, { status: 403 });
+    }
+
+    // A new invite replaces any pending one for the same email
+    await supabase
+      .from('organization_invites')
+      .delete()
+      .eq('organization_id', membership.organization_id)
+      .eq('email', parsed.data.email)
+      .is('accepted_at', null);
+
+    const invite: OrganizationInviteInsert = {
+      organization_id: membership.organization_id,
+      email: parsed.data.email,
+      role: parsed.data.role,
+      token: randomBytes(24).toString('base64url'),
+      invited_by: user.id,
+      expires_at: new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+    };
+    const { error } = await supabase.from('organization_invites').insert(invite);
+    if (error) {
+      console.error('Error creating invite:', error);
+      return NextResponse.json({ error: "Failed to create invite", details: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      token: invite.token,
+      email: invite.email,
+      role: invite.role,
+      expiresAt: invite.expires_at,
+      link: inviteLink(invite.token),
+    }, { status: 201 });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { DELETE, PATCH } from "./route";
+
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: vi.fn(),
+}));
+
+import { createClient } from "@/lib/supabase/server";
+
+const team = [
+  { organization_id: "org-1", user_id: "admin-1", role: "admin" },
+  { organization_id: "org-1", user_id: "recruiter-1", role: "recruiter" },
+];
+
+// organization_members: maybeSingle() looks up the caller, awaiting the query lists the team
+function mockSupabase(userId: string) {
+  const update = vi.fn();
+  const remove = vi.fn();
+  const client = {
+    auth: { getUser: vi.fn().mockResolvedValue({ data: { user: { id: userId } }, error: null }) },
+    from: vi.fn(() => {
+      const filters: Record<string, unknown> = {};
+      let patch: Record<string, unknown> | null = null;
+      const query = {
+        select: vi.fn(() => query),
+        eq: vi.fn((column: string, value: unknown) => {
+          filters[column] = value;
+          return query;
+        }),
+        update: vi.fn((values: Record<string, unknown>) => {
+          patch = values;
+          update(values);
+          return query;
+        }),
+        delete: vi.fn(() => {
+          remove();
+          return query;
+        }),
+        maybeSingle: vi.fn(async () => ({ data: team.find((m) => m.user_id === filters.user_id) ?? null, error: null })),
+        single: vi.fn(async () => ({ data: { user_id: filters.user_id, ...patch }, error: null })),
+        then: (resolve: (value: unknown) => void) => resolve({ data: team, error: null }),
+      };
+      return query;
+    }),
+  };
+  vi.mocked(createClient).mockResolvedValue(client as any);
+  return { update, remove };
+}
+
+const context = (userId: string) => ({ params: Promise.resolve({ userId }) });
+const patch = (role: string) =>
+  new NextRequest("http://localhost/api/organizations/members/x", { method: "PATCH", body: JSON.stringify({ role }) });
+const del = () => new NextRequest("http://localhost/api/organizations/members/x", { method: "DELETE" });
+
+describe("/api/organizations/members/[userId]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lets an admin change a member's role", async () => {
+    const { update } = mockSupabase("admin-1");
+    const res = await PATCH(patch("hiring_manager"), context("recruiter-1"));
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ userId: "recruiter-1", role: "hiring_manager" });
+    expect(update).toHaveBeenCalledWith({ role: "hiring_manager" });
+  });
+
+  it("only lets admins change roles or remove others", async () => {
+    const { update, remove } = mockSupabase("recruiter-1");
+    expect((await PATCH(patch("admin"), context("recruiter-1"))).status).toBe(403);
+    expect((await DELETE(del(), context("admin-1"))).status).toBe(403);
+    expect(update).not.toHaveBeenCalled();
+    expect(remove).not.toHaveBeenCalled();
+
+    // Anyone can leave
+    expect((await DELETE(del(), context("recruiter-1"))).status).toBe(200);
+  });
+
+  it("keeps at least one admin", async () => {
+    const { update, remove } = mockSupabase("admin-1");
+    expect((await PATCH(patch("viewer"), context("admin-1"))).status).toBe(409);
+    expect((await DELETE(del(), context("admin-1"))).status).toBe(409);
+    expect(update).not.toHaveBeenCalled();
+    expect(remove).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 for people outside the organization and 400 for unknown roles", async () => {
+    mockSupabase("admin-1");
+    expect((await PATCH(patch("viewer"), context("stranger"))).status).toBe(404);
+    expect((await PATCH(patch("owner"), context("recruiter-1"))).status).toBe(400);
+  });
+});
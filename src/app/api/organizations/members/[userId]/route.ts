@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { OrganizationRoleSchema, canManageMembers, getMembership, isLastAdmin } from "@/lib/organizations";
+import type { OrganizationMember } from "@/lib/types/database";
+
+export const runtime = "nodejs";
+
+type Supabase = Awaited<ReturnType<typeof createClient>>;
+
+type Team =
+  | { response: NextResponse; membership?: never; members?: never }
+  | { response?: never; membership: OrganizationMember; members: Pick<OrganizationMember, "user_id" | "role">[] };
+
+// Load the caller's membership and the organization's members. Returns them or an error response.
+async function loadTeam(supabase: Supabase, callerId: string, targetId: string): Promise<Team> {
+  const membership = await getMembership(supabase, callerId);
+  if (!membership) {
+    return { response: NextResponse.json({ error: "You don't belong to an organization" }, { status: 403 }) };
+  }
+
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('user_id, role')
+    .eq('organization_id', membership.organization_id);
+  if (error) {
+    console.error('Error fetching organization members:', error);
+    return { response: NextResponse.json({ error: "Failed to fetch members", details: error.message }, { status: 500 }) };
+  }
+  const members = (data ?? []) as Pick<OrganizationMember, "user_id" | "role">[];
+  if (!members.some((member) => member.user_id === targetId)) {
+    return { response: NextResponse.json({ error: "Member not found" }, { status: 404 }) };
+  }
+  return { membership, members };
+}
+
+// PATCH /api/organizations/members/[userId] - Change a member's role (admins only)
+export async function PATCH(req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<{ userId: string }> }).params;
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const parsed = OrganizationRoleSchema.safeParse(body?.role);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+    }
+
+    const team = await loadTeam(supabase, user.id, params.userId);
+    if (team.response) return team.response;
+    if (!canManageMembers(team.membership.role)) {
+      return NextResponse.json({ error: "Forbidden - Only admins can change roles" }, { status: 403 });
+    }
+    if (parsed.data !== 'admin' && isLastAdmin(team.members, params.userId)) {
+      return NextResponse.json({ error: "An organization needs at least one admin" }, { status: 409 });
+    }
+
+    const { data: updated, error } = await supabase
+      .from('organization_members')
+      .update({ role: parsed.data })
+      .eq('organization_id', team.membership.organization_id)
+      .eq('user_id', params.userId)
+      .select('user_id, role')
+      .single();
+    if (error || !updated) {
+      return NextResponse.json({ error: error?.message ?? "Failed to update role" }, { status: 400 });
+    }
+
+    return NextResponse.json({ userId: updated.user_id, role: updated.role });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/organizations/members/[userId] - Remove a member (admins), or leave (yourself)
+// The member's jobs stay with the organization.
+export async function DELETE(_req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<{ userId: string }> }).params;
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const team = await loadTeam(supabase, user.id, params.userId);
+    if (team.response) return team.response;
+    if (params.userId !== user.id && !canManageMembers(team.membership.role)) {
+      return NextResponse.json({ error: "Forbidden - Only admins can remove members" }, { status: 403 });
+    }
+    // Without an admin nobody could manage the organization's jobs or invite anyone
+    if (isLastAdmin(team.members, params.userId)) {
+      return NextResponse.json({ error: "Make someone else an admin first" }, { status: 409 });
+    }
+
+    const { error } = await supabase
+      .from('organization_members')
+      .delete()
+      .eq('organization_id', team.membership.organization_id)
+      .eq('user_id', params.userId);
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ removed: true });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { OrganizationNameSchema, canManageMembers, getMembership, inviteLink } from "@/lib/organizations";
+import type { OrganizationInvite, OrganizationMember } from "@/lib/types/database";
+
+export const runtime = "nodejs";
+
+// GET /api/organizations - The caller's organization with its members (and pending invites for admins)
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const membership = await getMembership(supabase, user.id);
+    if (!membership) {
+      return NextResponse.json({ organization: null, role: null, members: [], invites: [] });
+    }
+
+    const { data: organization, error: orgError } = await supabase
+      .from('organizations')
+      .select('id, name')
+      .eq('id', membership.organization_id)
+      .single();
+    if (orgError || !organization) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    const { data: memberRows, error: membersError } = await supabase
+      .from('organization_members')
+      .select('user_id, role, created_at')
+      .eq('organization_id', membership.organization_id)
+      .order('created_at', { ascending: true });
+    if (membersError) {
+      console.error('Error fetching organization members:', membersError);
+      return NextResponse.json({ error: "Failed to fetch members", details: membersError.message }, { status: 500 });
+    }
+    const members = (memberRows ?? []) as Pick<OrganizationMember, "user_id" | "role" | "created_at">[];
+
+    const { data: profiles } = await supabase
+      .from('recruiter_profiles')
+      .select('user_id, name, email, job_title')
+      .in('user_id', members.map((m) => m.user_id));
+    const profilesById = new Map((profiles ?? []).map((p) => [p.user_id, p]));
+
+    let invites: OrganizationInvite[] = [];
+    if (canManageMembers(membership.role)) {
+      const { data: inviteRows } = await supabase
+        .from('organization_invites')
+        .select('*')
+        .eq('organization_id', membership.organization_id)
+        .is('accepted_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .order('created_at', { ascending: false });
+      invites = (inviteRows ?? []) as OrganizationInvite[];
+    }
+
+    return NextResponse.json({
+      organization,
+      role: membership.role,
+      members: members.map((member) => {
+        const profile = profilesById.get(member.user_id);
+        return {
+          userId: member.user_id,
+          name: profile?.name ?? null,
+          email: profile?.email ?? null,
+          jobTitle: profile?.job_title ?? null,
+          role: member.role,
+          joinedAt: member.created_at,
+          isYou: member.user_id === user.id,
+        };
+      }),
+      invites: invites.map((invite) => ({
+        token: invite.token,
+        email: invite.email,
+        role: invite.role,
+        expiresAt: invite.expires_at,
+        link: inviteLink(invite.token),
+      })),
+    });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/organizations - Create an organization with the caller as admin
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const parsed = OrganizationNameSchema.safeParse(body?.name);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid name" }, { status: 400 });
+    }
+
+    const { data: organizationId, error } = await supabase.rpc('create_organization', { org_name: parsed.data });
+    if (error) {
+      if (error.message.includes('ALREADY_IN_ORGANIZATION')) {
+        return NextResponse.json({ error: "You already belong to an organization" }, { status: 409 });
+      }
+      console.error('Error creating organization:', error);
+      return NextResponse.json({ error: "Failed to create organization", details: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ id: organizationId, name: parsed.data }, { status: 201 });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { safeUpdateCandidateProfile } from "@/lib/candidate-profile";
+import { versionDownloadPath } from "@/lib/resumes";
 
 export const runtime = "nodejs";
 
@@ -17,10 +18,20 @@ export async function GET() {
     const userId = sessionData.session.user.id;
     const { data } = await supabase
       .from('candidate_profiles')
-      .select('name, email, education, resume_url, offer_deadline')
+      .select('name, email, education, resume_url, resume_path, resume_original_name, resume_mime, resume_size, resume_updated_at, offer_deadline')
       .eq('user_id', userId)
       .maybeSingle();
 
+    // The bucket is private: link the default resume through its version's download route
+    const { data: defaultVersion } = data?.resume_path
+      ? await supabase
+          .from('candidate_resumes')
+          .select('id')
+          .eq('candidate_id', userId)
+          .eq('storage_path', data.resume_path)
+          .maybeSingle()
+      : { data: null };
+
     const metaFull = sessionData.session.user.user_metadata?.full_name as string | undefined;
     const computedName = (typeof metaFull === 'string' && metaFull.trim())
       ? metaFull.trim()
@@ -32,11 +43,11 @@ export async function GET() {
       email: (data && data.email) || "",
       education: (data && data.education) || "",
       resume: data && data.resume_url ? {
-        url: data.resume_url,
-        originalName: "",
-        size: 0,
-        mimeType: "",
-        updatedAt: new Date().toISOString(),
+        url: defaultVersion ? versionDownloadPath(defaultVersion.id) : data.resume_url,
+        originalName: data.resume_original_name || "",
+        size: Number(data.resume_size) || 0,
+        mimeType: data.resume_mime || "",
+        updatedAt: data.resume_updated_at || new Date().toISOString(),
       } : null,
       offerDeadline: (data && data.offer_deadline) || null,
     };
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+import { GET } from "./route";
+
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: vi.fn(),
+}));
+vi.mock("@/lib/storage", () => ({
+  getUserRole: vi.fn(),
+}));
+
+import { createClient } from "@/lib/supabase/server";
+import { getUserRole } from "@/lib/storage";
+
+const JOB_ID = "3f2b8c1e-2d4a-4b6f-9a1c-5e7d8f9a0b1c";
+
+// 6 women and 1 man applied to an organization job
+const APPLICATIONS = Array.from({ length: 7 }, (_, i) => ({
+  id: `app-${i}`,
+  job_id: JOB_ID,
+  candidate_id: `cand-${i}`,
+  status: "applied",
+  stage_id: "applied",
+}));
+const PROFILES = APPLICATIONS.map((a, i) => ({
+  user_id: a.candidate_id,
+  name: `Candidate ${i}`,
+  eeo_gender: i < 6 ? "Woman" : "Man",
+  eeo_race_ethnicity: null,
+  eeo_veteran_status: "Not a veteran",
+  eeo_disability_status: "Prefer not to say",
+}));
+
+function mockSupabase(userId: string | null, memberRole: string | null) {
+  const selects: { table: string; columns: string }[] = [];
+  const TABLES: Record<string, Record<string, unknown>[]> = {
+    organization_members: memberRole ? [{ user_id: userId, organization_id: "org-1", role: memberRole }] : [],
+    jobs: [{ id: JOB_ID, title: "Backend Engineer", organization_id: "org-1", employer_id: "rec-0", pipeline_stages: null }],
+    applications: APPLICATIONS,
+    candidate_profiles: PROFILES,
+  };
+  const client = {
+    auth: { getUser: vi.fn().mockResolvedValue({ data: { user: userId ? { id: userId } : null }, error: null }) },
+    from: vi.fn((table: string) => {
+      let rows = TABLES[table] ?? [];
+      let columns = "*";
+      const query: any = {};
+      for (const method of ["or", "in", "order"]) query[method] = vi.fn(() => query);
+      query.select = vi.fn((selected: string) => {
+        columns = selected;
+        selects.push({ table, columns });
+        return query;
+      });
+      query.eq = vi.fn((column: string, value: unknown) => {
+        if (table === "jobs") rows = rows.filter((row) => row[column] === value);
+        return query;
+      });
+      const project = (row: Record<string, unknown>) => {
+        if (columns === "*") return row;
+        const keep = columns.split(",").map((c) => c.trim());
+        return Object.fromEntries(Object.entries(row).filter(([key]) => keep.includes(key)));
+      };
+      query.maybeSingle = vi.fn(async () => ({ data: rows[0] ? project(rows[0]) : null, error: null }));
+      query.then = (resolve: (value: unknown) => void) => resolve({ data: rows.map(project), error: null });
+      return query;
+    }),
+  };
+  vi.mocked(createClient).mockResolvedValue(client as any);
+  return { selects };
+}
+
+const get = (query = "") => new NextRequest(`http://localhost/api/reports/eeo${query}`);
+
+describe("GET /api/reports/eeo", () => {
+  const original = process.env.EEO_MIN_CELL_SIZE;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.EEO_MIN_CELL_SIZE;
+    vi.mocked(getUserRole).mockResolvedValue("recruiter");
+  });
+  afterEach(() => {
+    if (original === undefined) delete process.env.EEO_MIN_CELL_SIZE;
+    else process.env.EEO_MIN_CELL_SIZE = original;
+  });
+
+  it("gives organization admins suppressed aggregates and nothing else", async () => {
+    const { selects } = mockSupabase("admin-1", "admin");
+
+    const res = await GET(get());
+    const data = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Cache-Control")).toBe("private, no-store");
+    expect(data.minCellSize).toBe(5);
+    const [job] = data.jobs;
+    expect(job).toMatchObject({ jobId: JOB_ID, title: "Backend Engineer", total: 7 });
+    const gender = Object.fromEntries(job.dimensions.gender.map((c: { category: string; count: number | null }) => [c.category, c.count]));
+    expect(gender).toMatchObject({ Woman: null, Man: null, "Non-binary": 0 });
+    expect(JSON.stringify(data)).not.toMatch(/cand-|app-|Candidate /);
+
+    const profileSelect = selects.find((s) => s.table === "candidate_profiles")!;
+    expect(profileSelect.columns.split(",").map((c) => c.trim()).sort()).toEqual(
+      ["eeo_disability_status", "eeo_gender", "eeo_race_ethnicity", "eeo_veteran_status", "user_id"]
+    );
+  });
+
+  it("can raise the minimum cell size but not lower it", async () => {
+    mockSupabase("admin-1", "admin");
+    process.env.EEO_MIN_CELL_SIZE = "3";
+
+    expect((await (await GET(get())).json()).minCellSize).toBe(3);
+    expect((await (await GET(get("?minCellSize=10"))).json()).minCellSize).toBe(10);
+    expect((await (await GET(get("?minCellSize=1"))).json()).minCellSize).toBe(3);
+    expect((await GET(get("?minCellSize=0"))).status).toBe(400);
+  });
+
+  it("narrows the full report to one job so it hides the same cells", async () => {
+    mockSupabase("admin-1", "admin");
+
+    const full = await (await GET(get())).json();
+    const res = await GET(get(`?jobId=${JOB_ID}`));
+    const data = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(data.jobs).toEqual(full.jobs);
+    expect(data.overall).toEqual({ total: 7, dimensions: full.jobs[0].dimensions });
+  });
+
+  it("404s for a job outside the report", async () => {
+    mockSupabase("admin-1", "admin");
+
+    expect((await GET(get("?jobId=00000000-0000-4000-8000-000000000000"))).status).toBe(404);
+  });
+
+  it("rejects hiring team members, candidates and anonymous callers", async () => {
+    mockSupabase("rec-1", "recruiter");
+    expect((await GET(get())).status).toBe(403);
+
+    mockSupabase("hm-1", "hiring_manager");
+    expect((await GET(get())).status).toBe(403);
+
+    vi.mocked(getUserRole).mockResolvedValue("candidate");
+    mockSupabase("cand-0", null);
+    expect((await GET(get())).status).toBe(403);
+
+    mockSupabase(null, null);
+    expect((await GET(get())).status).toBe(401);
+  });
+});
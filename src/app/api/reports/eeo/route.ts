@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getUserRole } from "@/lib/storage";
+import { canViewEeoReports, getMembership } from "@/lib/organizations";
+import { EeoReportQuerySchema, computeEeoReport, eeoJobReport, eeoMinCellSize, loadEeoReportInput } from "@/lib/eeo";
+
+export const runtime = "nodejs";
+
+// GET /api/reports/eeo - Aggregate EEO counts per job and pipeline stage, with
+// small cells suppressed. Organization admins only (and recruiters without an
+// organization, for their own jobs). ?jobId= narrows the full report to one
+// job, so it hides the same cells; ?minCellSize= raises the suppression
+// threshold above EEO_MIN_CELL_SIZE.
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole(user.id);
+    const membership = role === 'recruiter' ? await getMembership(supabase, user.id) : null;
+    if (role !== 'recruiter' || (membership && !canViewEeoReports(membership.role))) {
+      return NextResponse.json({ error: "Forbidden - Only organization admins can view EEO reports" }, { status: 403 });
+    }
+
+    const parsed = EeoReportQuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid report query", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const minCellSize = Math.max(parsed.data.minCellSize ?? 0, eeoMinCellSize());
+    const input = await loadEeoReportInput(supabase, user.id, { membership, minCellSize });
+    const full = computeEeoReport(input);
+    const report = parsed.data.jobId ? eeoJobReport(full, parsed.data.jobId) : full;
+    if (!report) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(report, { headers: { "Cache-Control": "private, no-store" } });
+  } catch (error: unknown) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
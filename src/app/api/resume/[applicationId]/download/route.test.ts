@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { GET } from "./route";
+
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: vi.fn(),
+}));
+
+import { createClient } from "@/lib/supabase/server";
+
+const CANDIDATE = "candidate-1";
+const RECRUITER = "recruiter-1";
+
+const application = {
+  id: "app-1",
+  job_id: "job-1",
+  candidate_id: CANDIDATE,
+  resume_url: "https://abc.supabase.co/storage/v1/object/public/resumes/candidate-1/applications/job-1/1-cv.pdf",
+  resume_path: "candidate-1/applications/job-1/1-cv.pdf",
+  supplemental_answers: {
+    portfolio: { path: "candidate-1/attachments/job-1/portfolio-1-work.pdf", url: "https://x", name: "work.pdf", size: 10, mime: "application/pdf" },
+    years: 3,
+  },
+};
+
+function mockSupabase(userId: string | null, app: Record<string, unknown> | null = application) {
+  const createSignedUrl = vi.fn(async (path: string, expiresIn: number) => ({
+    data: { signedUrl: `https://abc.supabase.co/storage/v1/object/sign/resumes/${path}?token=t&expires=${expiresIn}` },
+    error: null,
+  }));
+  const client = {
+    auth: { getUser: vi.fn().mockResolvedValue({ data: { user: userId ? { id: userId } : null }, error: null }) },
+    storage: { from: vi.fn(() => ({ createSignedUrl })) },
+    from: vi.fn((table: string) => {
+      const data = table === "applications" ? app : table === "jobs" ? { employer_id: RECRUITER } : null;
+      return {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        maybeSingle: vi.fn().mockResolvedValue({ data, error: null }),
+      };
+    }),
+  };
+  vi.mocked(createClient).mockResolvedValue(client as any);
+  return { createSignedUrl };
+}
+
+function download(query = "") {
+  const req = new NextRequest(`http://localhost/api/resume/app-1/download${query}`);
+  return GET(req, { params: Promise.resolve({ applicationId: "app-1" }) });
+}
+
+describe("GET /api/resume/[applicationId]/download", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns 401 when not signed in", async () => {
+    mockSupabase(null);
+    const res = await download();
+    expect(res.status).toBe(401);
+  });
+
+  it("redirects the candidate to a short-lived signed URL for the submitted snapshot", async () => {
+    const { createSignedUrl } = mockSupabase(CANDIDATE);
+    const res = await download();
+    expect(res.status).toBe(302);
+    expect(createSignedUrl).toHaveBeenCalledWith(application.resume_path, 60);
+    expect(res.headers.get("location")).toContain("/object/sign/resumes/candidate-1/applications/job-1/1-cv.pdf");
+    expect(res.headers.get("cache-control")).toBe("no-store");
+  });
+
+  it("lets the job's recruiter download file answers", async () => {
+    const { createSignedUrl } = mockSupabase(RECRUITER);
+    const res = await download("?attachment=portfolio");
+    expect(res.status).toBe(302);
+    expect(createSignedUrl).toHaveBeenCalledWith("candidate-1/attachments/job-1/portfolio-1-work.pdf", 60);
+
+    expect((await download("?attachment=years")).status).toBe(404);
+  });
+
+  it("returns 403 for anyone else", async () => {
+    const { createSignedUrl } = mockSupabase("someone-else");
+    const res = await download();
+    expect(res.status).toBe(403);
+    expect(createSignedUrl).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 for unknown applications", async () => {
+    mockSupabase(CANDIDATE, null);
+    const res = await download();
+    expect(res.status).toBe(404);
+  });
+
+  it("won't sign a path outside the candidate's folder", async () => {
+    const { createSignedUrl } = mockSupabase(RECRUITER, { ...application, resume_path: "candidate-2/applications/job-9/cv.pdf" });
+    const res = await download();
+
+    expect(res.status).toBe(404);
+    expect(createSignedUrl).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { signedResumeUrl, storagePathFromUrl } from "@/lib/resumes";
+import { isFileAnswer } from "@/lib/supplemental-questions";
+import { jobRole } from "@/lib/organizations";
+
+export const runtime = "nodejs";
+
+// GET /api/resume/[applicationId]/download - Redirect to a short-lived signed URL
+// for the resume submitted with an application (?attachment=<questionId> for a
+// file answered on a supplemental question). Only the candidate and members of
+// the job's organization may download.
+export async function GET(req: NextRequest, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<{ applicationId: string }> }).params;
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: application, error: appError } = await supabase
+      .from('applications')
+      .select('id, job_id, candidate_id, resume_url, resume_path, supplemental_answers')
+      .eq('id', params.applicationId)
+      .maybeSingle();
+    if (appError) {
+      console.error('Error fetching application:', appError);
+      return NextResponse.json({ error: "Failed to fetch application" }, { status: 500 });
+    }
+    if (!application) {
+      return NextResponse.json({ error: "Application not found" }, { status: 404 });
+    }
+
+    if (application.candidate_id !== user.id) {
+      const { data: job } = await supabase
+        .from('jobs')
+        .select('employer_id, organization_id')
+        .eq('id', application.job_id)
+        .maybeSingle();
+      if (!job || !(await jobRole(supabase, user.id, job))) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+    }
+
+    let path: string | null;
+    const attachment = req.nextUrl.searchParams.get('attachment');
+    if (attachment) {
+      const answer = (application.supplemental_answers as Record<string, unknown> | null)?.[attachment];
+      if (!isFileAnswer(answer)) {
+        return NextResponse.json({ error: "File not found" }, { status: 404 });
+      }
+      path = answer.path;
+    } else {
+      path = application.resume_path || storagePathFromUrl(application.resume_url);
+      if (!path && application.resume_url) {
+        // Legacy applications submitted with an external link
+        return NextResponse.redirect(application.resume_url, { status: 302 });
+      }
+      if (!path && application.candidate_id) {
+        // Applications from before resumes were attached fall back to the profile resume
+        const { data: profile } = await supabase
+          .from('candidate_profiles')
+          .select('resume_path, resume_url')
+          .eq('user_id', application.candidate_id)
+          .maybeSingle();
+        path = profile?.resume_path || storagePathFromUrl(profile?.resume_url);
+      }
+    }
+    // Files live in the candidate's own folder; a path anywhere else was not theirs to submit
+    if (!path || !path.startsWith(`${application.candidate_id}/`)) {
+      return NextResponse.json({ error: "Resume not found" }, { status: 404 });
+    }
+
+    const signedUrl = await signedResumeUrl(supabase, path);
+    if (!signedUrl) {
+      return NextResponse.json({ error: "Failed to create download link" }, { status: 500 });
+    }
+    const response = NextResponse.redirect(signedUrl, { status: 302 });
+    response.headers.set('Cache-Control', 'no-store');
+    return response;
+  } catch (error: unknown) {
+    console.error('Unexpected error in GET /api/resume/[applicationId]/download:', error);
+    return NextResponse.json({ error: "Failed to download resume" }, { status: 500 });
+  }
+}
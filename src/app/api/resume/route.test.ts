@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { POST } from "./route";
+import { createClient } from "@/lib/supabase/server";
 
 // Minimal NextRequest-like object for tests
 function makeReqWithFormData(form: FormData | null): any {
@@ -8,9 +9,10 @@ function makeReqWithFormData(form: FormData | null): any {
   } as any;
 }
 
-// Helpers to build a File for tests
+// Helpers to build a File for tests; PDFs start with a real header so they pass content checks
 function makeFile(name: string, type: string, size: number): File {
   const bytes = new Uint8Array(Math.min(size, 1024));
+  if (type === "application/pdf") bytes.set(new TextEncoder().encode("%PDF-1.4\n"));
   const blob = new Blob([bytes], { type });
   // Blob size is bytes.length, mimic size by padding metadata; the route reads size from File.size
   return new File([blob, new Uint8Array(Math.max(0, size - bytes.length))], name, { type });
@@ -25,6 +27,10 @@ declare global {
   var __dbUpdateShouldFail: string | undefined;
   // eslint-disable-next-line no-var
   var __dbUpdateAffectsZero: boolean | undefined;
+  var __insertedVersions: any[];
+  var __versionInsertShouldFail: boolean | undefined;
+  var __removedPaths: string[];
+  var __deletedVersionIds: string[];
 }
 
 vi.mock("@/lib/supabase/server", () => {
@@ -33,6 +39,10 @@ vi.mock("@/lib/supabase/server", () => {
   const storageFrom = {
     upload: vi.fn(async () => ({ error: globalThis.__uploadShouldFail ? { message: "upload failed" } : null })),
     getPublicUrl: vi.fn((path: string) => ({ data: { publicUrl: `https://example.com/object/public/resumes/${path}` } })),
+    remove: vi.fn(async (paths: string[]) => {
+      globalThis.__removedPaths.push(...paths);
+      return { error: null };
+    }),
   };
 
   // Chain for DB update with .eq().select()
@@ -44,8 +54,25 @@ vi.mock("@/lib/supabase/server", () => {
       })),
     })),
   };
+  // Chain for the candidate_resumes insert with .select().single()
   const fromChain = {
     update: vi.fn(() => updateChain),
+    insert: vi.fn((row: any) => ({
+      select: vi.fn(() => ({
+        single: vi.fn(async () => {
+          if (globalThis.__versionInsertShouldFail) return { data: null, error: { message: "VERSION_ERR" } };
+          const version = { id: `version-${globalThis.__insertedVersions.length + 1}`, created_at: "2025-12-15T00:00:00Z", updated_at: "2025-12-15T00:00:00Z", ...row };
+          globalThis.__insertedVersions.push(version);
+          return { data: version, error: null };
+        }),
+      })),
+    })),
+    delete: vi.fn(() => ({
+      eq: vi.fn(async (_column: string, id: string) => {
+        globalThis.__deletedVersionIds.push(id);
+        return { error: null };
+      }),
+    })),
   };
 
   const createClient = vi.fn(async () => ({
@@ -64,6 +91,10 @@ describe("POST /api/resume", () => {
     globalThis.__uploadShouldFail = false;
     globalThis.__dbUpdateShouldFail = undefined;
     globalThis.__dbUpdateAffectsZero = false;
+    globalThis.__insertedVersions = [];
+    globalThis.__versionInsertShouldFail = false;
+    globalThis.__removedPaths = [];
+    globalThis.__deletedVersionIds = [];
   });
 
   it("returns 401 when unauthorized", async () => {
@@ -99,6 +130,27 @@ describe("POST /api/resume", () => {
     expect(body.error).toBe("FILE_TOO_LARGE");
   });
 
+  it("rejects files whose content doesn't match their type", async () => {
+    const fd = new FormData();
+    fd.append("file", new File(["MZ renamed executable"], "resume.pdf", { type: "application/pdf" }));
+    const res = await POST(makeReqWithFormData(fd));
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("CONTENT_MISMATCH");
+    expect(globalThis.__insertedVersions).toHaveLength(0);
+  });
+
+  it("rejects password-protected and infected files with their own codes", async () => {
+    const encrypted = new FormData();
+    encrypted.append("file", new File(["%PDF-1.7\ntrailer\n<< /Root 1 0 R /Encrypt 9 0 R >>\n%%EOF"], "cv.pdf", { type: "application/pdf" }));
+    expect((await (await POST(makeReqWithFormData(encrypted))).json()).error).toBe("ENCRYPTED_DOCUMENT");
+
+    const infected = new FormData();
+    infected.append("file", new File(["%PDF-1.4\nX5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*"], "cv.pdf", { type: "application/pdf" }));
+    const res = await POST(makeReqWithFormData(infected));
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: "MALWARE_DETECTED", message: expect.stringContaining("Eicar") });
+  });
+
   it("returns 500 when storage upload fails", async () => {
     globalThis.__uploadShouldFail = true;
     const fd = new FormData();
@@ -117,6 +169,21 @@ describe("POST /api/resume", () => {
     expect(res.status).toBe(400);
     const body = await (res as Response).json();
     expect(body.error).toBe("DB_ERR");
+    // The version and the upload are undone
+    expect(globalThis.__deletedVersionIds).toEqual(["version-1"]);
+    expect(globalThis.__removedPaths).toHaveLength(1);
+  });
+
+  it("leaves the profile alone and removes the upload when the version can't be saved", async () => {
+    globalThis.__versionInsertShouldFail = true;
+    const fd = new FormData();
+    fd.append("file", makeFile("ok.pdf", "application/pdf", 1024));
+    const res = await POST(makeReqWithFormData(fd));
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("VERSION_ERR");
+    expect(globalThis.__removedPaths).toEqual([expect.stringMatching(/^user-1\/.*-ok\.pdf$/)]);
+    const client = await vi.mocked(createClient).mock.results[0].value;
+    expect(client.from("candidate_profiles").update).not.toHaveBeenCalled();
   });
 
   it("succeeds for valid PDF and returns profile-shaped payload", async () => {
@@ -126,7 +193,51 @@ describe("POST /api/resume", () => {
     expect(res.status).toBe(200);
     const body = await (res as Response).json();
     expect(body.resume).toBeTruthy();
-    expect(body.resume.url).toMatch(/object\/public\/resumes\//);
+    // The bucket is private: the link goes through the download route, not a public URL
+    expect(body.resume.url).toBe("/api/resume/versions/version-1/download");
+    expect(globalThis.__insertedVersions[0].url).toMatch(/object\/public\/resumes\//);
+  });
+
+  it("keeps each upload as a named version", async () => {
+    const fd = new FormData();
+    fd.append("file", makeFile("Jane_Backend.pdf", "application/pdf", 2048));
+    const body = await (await POST(makeReqWithFormData(fd))).json();
+    expect(body.version).toMatchObject({ id: "version-1", label: "Jane Backend", originalName: "Jane_Backend.pdf", isDefault: true });
+
+    const named = new FormData();
+    named.append("file", makeFile("cv.pdf", "application/pdf", 2048));
+    named.append("label", "  ML  ");
+    const namedBody = await (await POST(makeReqWithFormData(named))).json();
+    expect(namedBody.version.label).toBe("ML");
+    expect(globalThis.__insertedVersions).toHaveLength(2);
+    expect(globalThis.__insertedVersions[1]).toMatchObject({ candidate_id: "user-1", label: "ML", mime_type: "application/pdf" });
+  });
+
+  it("returns 400 for a resume name that is too long", async () => {
+    const fd = new FormData();
+    fd.append("file", makeFile("cv.pdf", "application/pdf", 2048));
+    fd.append("label", "x".repeat(101));
+    const res = await POST(makeReqWithFormData(fd));
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("INVALID_LABEL");
+    expect(globalThis.__insertedVersions).toHaveLength(0);
+  });
+
+  it("suggests profile fields parsed from the resume text", async () => {
+    const content = "BT (Jane Doe) Tj T* (jane@example.com) Tj T* (SKILLS) Tj T* (Python, Go) Tj ET";
+    const pdf = `%PDF-1.4\n4 0 obj\n<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n%%EOF\n`;
+    const fd = new FormData();
+    fd.append("file", new File([pdf], "resume.pdf", { type: "application/pdf" }));
+    const res = await POST(makeReqWithFormData(fd));
+    expect(res.status).toBe(200);
+    const body = await (res as Response).json();
+    expect(body.parsed).toMatchObject({ name: "Jane Doe", email: "jane@example.com", skills: ["Python", "Go"] });
+
+    // Files without readable text upload fine and have nothing to suggest
+    const empty = new FormData();
+    empty.append("file", makeFile("scan.pdf", "application/pdf", 2048));
+    const emptyBody = await (await POST(makeReqWithFormData(empty))).json();
+    expect(emptyBody.parsed).toBeNull();
   });
 
   it("fails when DB update affects zero rows (profile not found)", async () => {
@@ -1,9 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { extractResumeText } from "@/lib/resume-text";
+import { parseResumeText } from "@/lib/resume-parser";
+import type { ParsedResume } from "@/lib/resume-parser";
+import { validateResumeUpload } from "@/lib/resume-validation";
+import {
+  RESUME_BUCKET,
+  ResumeLabelSchema,
+  defaultResumeLabel,
+  deleteResumeVersion,
+  storageFileName,
+  storagePathFromUrl,
+  toResumeVersion,
+  versionDownloadPath,
+} from "@/lib/resumes";
+import type { CandidateResume } from "@/lib/types/database";
 
 export const runtime = "nodejs";
 
-// Upload or replace resume
+// Upload a new resume version; it becomes the profile's default resume
 export async function POST(req: NextRequest) {
   try {
     const supabase = await createClient();
@@ -18,52 +33,87 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "MISSING_FILE" }, { status: 400 });
     }
 
-    const ALLOWED_TYPES = new Set([
-      "application/pdf",
-      "application/msword",
-      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-    ]);
-    const MAX_BYTES = 5 * 1024 * 1024; // 5MB
-
-    if (!ALLOWED_TYPES.has(file.type)) {
-      return NextResponse.json({ error: "INVALID_FILE_TYPE" }, { status: 400 });
+    // Check the content rather than the browser-reported type
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const validation = await validateResumeUpload(bytes, file);
+    if (!validation.ok) {
+      const status = validation.code === "SCAN_FAILED" ? 503 : 400;
+      return NextResponse.json({ error: validation.code, message: validation.message }, { status });
     }
-    if (file.size > MAX_BYTES) {
-      return NextResponse.json({ error: "FILE_TOO_LARGE" }, { status: 400 });
+    const mimeType = validation.mimeType;
+
+    const rawLabel = form.get("label");
+    const labelResult = ResumeLabelSchema.safeParse(
+      typeof rawLabel === "string" && rawLabel.trim() ? rawLabel : defaultResumeLabel(file.name)
+    );
+    if (!labelResult.success) {
+      return NextResponse.json({ error: "INVALID_LABEL", message: labelResult.error.issues[0]?.message }, { status: 400 });
     }
 
     // Upload to Supabase Storage (bucket: "resumes")
-    const path = `${userId}/${Date.now()}-${file.name.replace(/[^a-zA-Z0-9._-]/g, "_")}`;
-    const { error: uploadError } = await supabase.storage.from("resumes").upload(path, file as unknown as Blob, {
-      contentType: file.type,
+    const path = `${userId}/${Date.now()}-${storageFileName(file.name)}`;
+    const { error: uploadError } = await supabase.storage.from(RESUME_BUCKET).upload(path, file as unknown as Blob, {
+      contentType: mimeType,
       upsert: true,
     });
     if (uploadError) {
       return NextResponse.json({ error: "UPLOAD_FAILED", message: (uploadError as any).message ?? String(uploadError) }, { status: 500 });
     }
 
-    // Get public URL
-    const { data: publicData } = await supabase.storage.from("resumes").getPublicUrl(path);
+    // Object URL, stored to identify the file; the bucket is private so it is not a download link
+    const { data: publicData } = await supabase.storage.from(RESUME_BUCKET).getPublicUrl(path);
     const publicUrl = publicData.publicUrl;
 
-    // Update candidate profile with resume metadata and legacy url
+    // Record the upload as a named version first, so the profile never points
+    // at a file missing from the version list
+    const { data: version, error: versionError } = await supabase
+      .from('candidate_resumes')
+      .insert({
+        candidate_id: userId,
+        label: labelResult.data,
+        storage_path: path,
+        url: publicUrl,
+        original_name: file.name,
+        mime_type: mimeType,
+        size_bytes: file.size,
+      })
+      .select('*')
+      .single();
+    if (versionError || !version) {
+      await supabase.storage.from(RESUME_BUCKET).remove([path]);
+      return NextResponse.json({ error: versionError?.message ?? "UPLOAD_FAILED" }, { status: 400 });
+    }
+
+    // Make it the profile's resume, with metadata and legacy url; undo the
+    // version and upload if that fails
     const { data: updatedRows, error: updateError } = await supabase
       .from('candidate_profiles')
       .update({
         resume_url: publicUrl,
         resume_path: path,
         resume_original_name: file.name,
-        resume_mime: file.type,
+        resume_mime: mimeType,
         resume_size: file.size,
         resume_updated_at: new Date().toISOString(),
       })
       .eq('user_id', userId)
       .select('user_id');
-    if (updateError) {
-      return NextResponse.json({ error: updateError.message }, { status: 400 });
+    if (updateError || !updatedRows || updatedRows.length === 0) {
+      await supabase.from('candidate_resumes').delete().eq('id', version.id);
+      await supabase.storage.from(RESUME_BUCKET).remove([path]);
+      return updateError
+        ? NextResponse.json({ error: updateError.message }, { status: 400 })
+        : NextResponse.json({ error: 'PROFILE_NOT_FOUND' }, { status: 404 });
     }
-    if (!updatedRows || updatedRows.length === 0) {
-      return NextResponse.json({ error: 'PROFILE_NOT_FOUND' }, { status: 404 });
+
+    // Suggest profile fields from the resume text; the profile page lets the
+    // candidate review them before anything is saved
+    let parsed: ParsedResume | null = null;
+    try {
+      const text = extractResumeText(bytes, mimeType);
+      parsed = text ? parseResumeText(text) : null;
+    } catch (parseError) {
+      console.error("Resume parsing failed:", parseError);
     }
 
     // Return legacy profile-shaped response
@@ -72,20 +122,22 @@ export async function POST(req: NextRequest) {
       email: "",
       education: "",
       resume: {
-        url: publicUrl,
+        url: versionDownloadPath(version.id),
         originalName: file.name,
         size: file.size,
-        mimeType: file.type,
+        mimeType,
         updatedAt: new Date().toISOString(),
       },
       offerDeadline: null,
+      version: toResumeVersion(version as CandidateResume, path),
+      parsed,
     });
   } catch {
     return NextResponse.json({ error: "UPLOAD_FAILED" }, { status: 500 });
   }
 }
 
-// Delete resume
+// Delete the default resume version; the newest remaining version takes its place
 export async function DELETE() {
   try {
     const supabase = await createClient();
@@ -93,45 +145,62 @@ export async function DELETE() {
     const userId = sessionData.session?.user?.id;
     if (!userId) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
 
-    // Fetch existing resume_url
     const { data: profile } = await supabase
       .from('candidate_profiles')
-      .select('resume_url')
+      .select('resume_url, resume_path')
       .eq('user_id', userId)
       .maybeSingle();
 
-    const url = profile?.resume_url || null;
-
-    // Best-effort delete from storage if we can parse the path
-    if (url && url.includes('/object/public/resumes/')) {
-      const idx = url.indexOf('/object/public/resumes/');
-      const path = url.slice(idx + '/object/public/resumes/'.length);
-      await supabase.storage.from('resumes').remove([path]);
+    // Older rows only have the object URL; the storage path is its tail
+    const path: string | null = profile?.resume_path || storagePathFromUrl(profile?.resume_url);
+
+    const { data: version } = path
+      ? await supabase
+          .from('candidate_resumes')
+          .select('*')
+          .eq('candidate_id', userId)
+          .eq('storage_path', path)
+          .maybeSingle()
+      : { data: null };
+
+    let nextDefault: CandidateResume | null = null;
+    if (version) {
+      const result = await deleteResumeVersion(supabase, userId, version as CandidateResume, true);
+      if ('error' in result) return NextResponse.json({ error: result.error }, { status: 400 });
+      nextDefault = result.nextDefault;
+    } else {
+      // Profile resume from before versions existed: remove the file and clear the columns
+      if (path) await supabase.storage.from(RESUME_BUCKET).remove([path]);
+      const { error: updateError } = await supabase
+        .from('candidate_profiles')
+        .update({
+          resume_url: null,
+          resume_path: null,
+          resume_original_name: null,
+          resume_mime: null,
+          resume_size: null,
+          resume_updated_at: null,
+        })
+        .eq('user_id', userId);
+      if (updateError) return NextResponse.json({ error: updateError.message }, { status: 400 });
     }
 
-    // Update DB - clear metadata and legacy url
-    const { error: updateError } = await supabase
-      .from('candidate_profiles')
-      .update({
-        resume_url: null,
-        resume_path: null,
-        resume_original_name: null,
-        resume_mime: null,
-        resume_size: null,
-        resume_updated_at: null,
-      })
-      .eq('user_id', userId);
-    if (updateError) return NextResponse.json({ error: updateError.message }, { status: 400 });
-
     return NextResponse.json({
       name: "",
       email: "",
       education: "",
-      resume: null,
+      resume: nextDefault
+        ? {
+            url: versionDownloadPath(nextDefault.id),
+            originalName: nextDefault.original_name,
+            size: Number(nextDefault.size_bytes) || 0,
+            mimeType: nextDefault.mime_type,
+            updatedAt: nextDefault.updated_at,
+          }
+        : null,
       offerDeadline: null,
     });
   } catch {
     return NextResponse.json({ error: "DELETE_FAILED" }, { status: 500 });
   }
 }
-
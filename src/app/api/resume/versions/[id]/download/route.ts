@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { signedResumeUrl } from "@/lib/resumes";
+
+export const runtime = "nodejs";
+
+// GET /api/resume/versions/[id]/download - Redirect the owning candidate to a
+// short-lived signed URL for one of their resume versions
+export async function GET(_req: Request, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const params = await (context as { params: Promise<{ id: string }> }).params;
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: version } = await supabase
+      .from('candidate_resumes')
+      .select('storage_path')
+      .eq('id', params.id)
+      .eq('candidate_id', user.id)
+      .maybeSingle();
+    if (!version) {
+      return NextResponse.json({ error: "Resume not found" }, { status: 404 });
+    }
+
+    const signedUrl = await signedResumeUrl(supabase, version.storage_path);
+    if (!signedUrl) {
+      return NextResponse.json({ error: "Failed to create download link" }, { status: 500 });
+    }
+    const response = NextResponse.redirect(signedUrl, { status: 302 });
+    response.headers.set('Cache-Control', 'no-store');
+    return response;
+  } catch (error: unknown) {
+    console.error('Unexpected error in GET /api/resume/versions/[id]/download:', error);
+    return NextResponse.json({ error: "Failed to download resume" }, { status: 500 });
+  }
+}
@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { ResumeVersionUpdateSchema, deleteResumeVersion, setDefaultResume, toResumeVersion } from "@/lib/resumes";
+import type { CandidateResume } from "@/lib/types/database";
+
+export const runtime = "nodejs";
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+// Load a version owned by the signed-in candidate, plus the profile's default path
+async function loadOwnedVersion(supabase: ServerClient, context: unknown) {
+  const params = await (context as { params: Promise<{ id: string }> }).params;
+  const { data: sessionData } = await supabase.auth.getSession();
+  const userId = sessionData.session?.user?.id;
+  if (!userId) return { response: NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 }) };
+
+  const { data: version, error } = await supabase
+    .from('candidate_resumes')
+    .select('*')
+    .eq('id', params.id)
+    .eq('candidate_id', userId)
+    .maybeSingle();
+  if (error) {
+    console.error("Error fetching resume version:", error);
+    return { response: NextResponse.json({ error: "Failed to fetch resume" }, { status: 500 }) };
+  }
+  if (!version) return { response: NextResponse.json({ error: "Resume not found" }, { status: 404 }) };
+
+  const { data: profile } = await supabase
+    .from('candidate_profiles')
+    .select('resume_path')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return { userId, version: version as CandidateResume, defaultPath: (profile?.resume_path as string | null) ?? null };
+}
+
+// PATCH /api/resume/versions/[id] - Rename a version or make it the default
+export async function PATCH(req: Request, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const loaded = await loadOwnedVersion(supabase, context);
+    if (loaded.response) return loaded.response;
+    const { userId, version } = loaded;
+    let { defaultPath } = loaded;
+
+    const parsed = ResumeVersionUpdateSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid resume update", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    let updated = version;
+    if (parsed.data.label !== undefined && parsed.data.label !== version.label) {
+      const { data, error } = await supabase
+        .from('candidate_resumes')
+        .update({ label: parsed.data.label })
+        .eq('id', version.id)
+        .eq('candidate_id', userId)
+        .select('*')
+        .single();
+      if (error || !data) {
+        console.error("Error renaming resume version:", error);
+        return NextResponse.json({ error: "Failed to update resume" }, { status: 500 });
+      }
+      updated = data as CandidateResume;
+    }
+
+    if (parsed.data.isDefault && defaultPath !== version.storage_path) {
+      const updateError = await setDefaultResume(supabase, userId, updated);
+      if (updateError) return NextResponse.json({ error: updateError }, { status: 400 });
+      defaultPath = version.storage_path;
+    }
+
+    return NextResponse.json(toResumeVersion(updated, defaultPath));
+  } catch (error) {
+    console.error("Unexpected error in PATCH /api/resume/versions/[id]:", error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Invalid JSON in request body" }, { status: 400 });
+    }
+    return NextResponse.json({ error: "Failed to update resume" }, { status: 500 });
+  }
+}
+
+// DELETE /api/resume/versions/[id] - Delete a version; submitted applications keep their snapshot
+export async function DELETE(_req: Request, context: unknown) {
+  try {
+    const supabase = await createClient();
+    const loaded = await loadOwnedVersion(supabase, context);
+    if (loaded.response) return loaded.response;
+    const { userId, version, defaultPath } = loaded;
+
+    const result = await deleteResumeVersion(supabase, userId, version, defaultPath === version.storage_path);
+    if ('error' in result) return NextResponse.json({ error: result.error }, { status: 400 });
+
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error("Unexpected error in DELETE /api/resume/versions/[id]:", error);
+    return NextResponse.json({ error: "Failed to delete resume" }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { toResumeVersion } from "@/lib/resumes";
+import type { CandidateResume } from "@/lib/types/database";
+
+export const runtime = "nodejs";
+
+// List the candidate's resume versions, newest first
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: sessionData } = await supabase.auth.getSession();
+    const userId = sessionData.session?.user?.id;
+    if (!userId) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+
+    const [{ data: rows, error }, { data: profile }] = await Promise.all([
+      supabase
+        .from('candidate_resumes')
+        .select('*')
+        .eq('candidate_id', userId)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('candidate_profiles')
+        .select('resume_path')
+        .eq('user_id', userId)
+        .maybeSingle(),
+    ]);
+    if (error) {
+      console.error("Error fetching resume versions:", error);
+      return NextResponse.json({ error: "Failed to fetch resumes" }, { status: 500 });
+    }
+
+    const defaultPath = profile?.resume_path ?? null;
+    return NextResponse.json(((rows ?? []) as CandidateResume[]).map((row) => toResumeVersion(row, defaultPath)));
+  } catch (error) {
+    console.error("Unexpected error in GET /api/resume/versions:", error);
+    return NextResponse.json({ error: "Failed to fetch resumes" }, { status: 500 });
+  }
+}
@@ -40,6 +40,13 @@ function AuthCallbackInner() {
         if (!mounted) return;
 
         if (recruiterProfile) {
+          // Finish joining the organization from a sign-up invite; a used or
+          // expired token just fails, and the Team page covers the rest
+          const inviteToken = user.user_metadata?.invite_token;
+          if (typeof inviteToken === "string" && inviteToken) {
+            await fetch(`/api/organizations/invites/${encodeURIComponent(inviteToken)}/accept`, { method: "POST" }).catch(() => null);
+          }
+          if (!mounted) return;
           router.replace("/recruiter");
           return;
         }
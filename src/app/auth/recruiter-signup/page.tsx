@@ -1,6 +1,6 @@
 "use client";
 
-import { Suspense, useState } from "react";
+import { Suspense, useEffect, useState } from "react";
 import Link from "next/link";
 import { z } from "zod";
 import { supabase } from "@/lib/supabaseClient";
@@ -10,6 +10,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useRouter, useSearchParams } from "next/navigation";
 import type { CompanySize } from "@/lib/types/database";
 import { getAuthCallbackUrl } from "@/lib/url";
+import { ORGANIZATION_ROLE_LABELS } from "@/lib/organizations";
+import type { InviteDetails } from "@/lib/organizations";
 
 const schema = z.object({
   email: z.string().email("Enter a valid email"),
@@ -24,9 +26,26 @@ const schema = z.object({
   message: "Passwords do not match",
 });
 
+// Join the invite's organization, or create one named after the company.
+// Failures aren't fatal: the account exists and the Team page can finish the setup.
+async function joinOrganization(inviteToken: string | null, companyName: string) {
+  const res = inviteToken
+    ? await fetch(`/api/organizations/invites/${encodeURIComponent(inviteToken)}/accept`, { method: "POST" })
+    : await fetch("/api/organizations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: companyName }),
+      });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    console.error("Organization setup failed:", data?.error || res.status);
+  }
+}
+
 function RecruiterSignUpInner() {
   const router = useRouter();
   const searchParams = useSearchParams();
+  const inviteToken = searchParams.get("invite");
   
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
@@ -37,6 +56,30 @@ function RecruiterSignUpInner() {
   const [companySize, setCompanySize] = useState<CompanySize | "">("");
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [invite, setInvite] = useState<InviteDetails | null>(null);
+  const [inviteError, setInviteError] = useState<string | null>(null);
+
+  // An invite fixes the email and organization
+  useEffect(() => {
+    if (!inviteToken) return;
+    let mounted = true;
+    (async () => {
+      try {
+        const res = await fetch(`/api/organizations/invites/${encodeURIComponent(inviteToken)}`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || "This invite is invalid or has expired");
+        if (!mounted) return;
+        setInvite(data);
+        setEmail(data.email);
+        setCompanyName(data.organizationName);
+      } catch (e) {
+        if (mounted) setInviteError(e instanceof Error ? e.message : "This invite is invalid or has expired");
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [inviteToken]);
 
   async function onSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -79,6 +122,8 @@ function RecruiterSignUpInner() {
             company_name: companyName.trim(),
             job_title: jobTitle.trim(),
             company_size: companySize || null,
+            // Accepted by the auth callback when email confirmation delays the session
+            invite_token: invite ? inviteToken : null,
           },
         }
       });
@@ -148,7 +193,10 @@ function RecruiterSignUpInner() {
         throw new Error(`Failed to create recruiter profile: ${profileError.message}`);
       }
 
-      // 3. Redirect to recruiter dashboard or specified redirect
+      // 3. Join the organization that sent the invite, or start a new one
+      await joinOrganization(invite ? inviteToken : null, companyName.trim());
+
+      // 4. Redirect to recruiter dashboard or specified redirect
       const redirect = searchParams.get("redirect");
       router.push(redirect && redirect.startsWith("/") ? redirect : "/recruiter");
     } catch (err: any) {
@@ -167,6 +215,18 @@ function RecruiterSignUpInner() {
         </p>
       </div>
 
+      {invite && (
+        <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+          You&apos;ve been invited to join <strong>{invite.organizationName}</strong> as{" "}
+          {ORGANIZATION_ROLE_LABELS[invite.role].toLowerCase()}.
+        </div>
+      )}
+      {inviteError && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-600">
+          {inviteError} You can still create an account with your own organization.
+        </div>
+      )}
+
       <form className="space-y-4" onSubmit={onSubmit}>
         {/* Personal Information */}
         <div className="space-y-4">
@@ -190,6 +250,7 @@ function RecruiterSignUpInner() {
               value={email} 
               onChange={(e) => setEmail(e.target.value)} 
               placeholder="john@company.com" 
+              readOnly={!!invite}
               required
             />
           </div>
@@ -228,6 +289,7 @@ function RecruiterSignUpInner() {
               value={companyName} 
               onChange={(e) => setCompanyName(e.target.value)} 
               placeholder="Acme Corp" 
+              readOnly={!!invite}
               required
             />
           </div>
@@ -3,10 +3,13 @@
 import { useEffect, useState } from "react";
 import { useRouter, useParams } from "next/navigation";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ArrowLeft } from "lucide-react";
-import { Job, SupplementalQuestion, SupplementalAnswer } from "@/lib/applications";
+import { Job } from "@/lib/applications";
+import ResumePicker from "@/components/candidate/ResumePicker";
+import SupplementalQuestionField from "@/components/candidate/SupplementalQuestionField";
+import { parseQuestionDefinitions, validateSupplementalAnswers, visibleQuestions } from "@/lib/supplemental-questions";
+import { prefillFromProfile } from "@/lib/knockouts";
+import { supabase } from "@/lib/supabaseClient";
 
 export default function ApplyWithQuestionsPage() {
   const router = useRouter();
@@ -17,7 +20,10 @@ export default function ApplyWithQuestionsPage() {
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [answers, setAnswers] = useState<Record<string, unknown>>({});
+  const [questionErrors, setQuestionErrors] = useState<Record<string, string>>({});
+  const [knockoutMessage, setKnockoutMessage] = useState<string | null>(null);
+  const [resumeId, setResumeId] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchJob = async () => {
@@ -29,16 +35,19 @@ export default function ApplyWithQuestionsPage() {
           return;
         }
         const foundJob = await response.json();
-        const supplemental = (foundJob as any).supplementalQuestions || ((foundJob as any).requirements && (foundJob as any).requirements.supplementalQuestions);
-        const merged = supplemental ? { ...(foundJob as any), supplementalQuestions: supplemental } : foundJob;
-        setJob(merged as Job);
-        // Initialize answers for all questions
-        if ((merged as any).supplementalQuestions) {
-          const initialAnswers: Record<string, string> = {};
-          (merged as any).supplementalQuestions.forEach((q: SupplementalQuestion) => {
-            initialAnswers[q.id] = "";
-          });
-          setAnswers(initialAnswers);
+        // The job API already reads legacy question definitions out of requirements
+        const loadedQuestions = parseQuestionDefinitions(foundJob.supplementalQuestions);
+        setJob({ ...(foundJob as any), supplementalQuestions: loadedQuestions } as Job);
+
+        // Pre-answer work authorization / sponsorship questions from the profile
+        const { data: { user } } = await supabase.auth.getUser();
+        if (user && loadedQuestions.some(q => q.profileField)) {
+          const { data: profile } = await supabase
+            .from('candidate_profiles')
+            .select('work_authorization, requires_sponsorship')
+            .eq('user_id', user.id)
+            .maybeSingle();
+          setAnswers(prev => prefillFromProfile(loadedQuestions, prev, profile));
         }
       } catch (err) {
         setError("Failed to load job details");
@@ -52,23 +61,29 @@ export default function ApplyWithQuestionsPage() {
     }
   }, [jobId]);
 
-  const updateAnswer = (questionId: string, value: string) => {
+  const questions = job?.supplementalQuestions ?? [];
+  const shownQuestions = visibleQuestions(questions, answers);
+
+  const updateAnswer = (questionId: string, value: unknown) => {
     setAnswers(prev => ({
       ...prev,
       [questionId]: value
     }));
+    setQuestionErrors(prev => {
+      const next = { ...prev };
+      delete next[questionId];
+      return next;
+    });
   };
 
+  // Same checks the server runs, so candidates see problems next to each question
   const validateAnswers = (): boolean => {
-    if (!job?.supplementalQuestions) return true;
-    
-    for (const question of job.supplementalQuestions) {
-      if (question.required && !answers[question.id]?.trim()) {
-        setError(`Please answer the required question: "${question.question}"`);
-        return false;
-      }
+    const result = validateSupplementalAnswers(questions, answers);
+    setQuestionErrors(result.errors);
+    if (!result.ok) {
+      setError(result.missing.length > 0 ? "Please answer all required questions" : "Please fix the highlighted answers");
     }
-    return true;
+    return result.ok;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -82,28 +97,31 @@ export default function ApplyWithQuestionsPage() {
     setSubmitting(true);
     
     try {
-      // Prepare supplemental answers
-      const supplementalAnswers: SupplementalAnswer[] = job?.supplementalQuestions?.map(q => ({
-        questionId: q.id,
-        answer: answers[q.id] || ""
-      })).filter(a => a.answer.trim()) || [];
+      // Only answers to questions still shown are sent
+      const supplementalAnswers = validateSupplementalAnswers(questions, answers).answers;
 
       const response = await fetch("/api/applications", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ 
           jobId,
-          supplementalAnswers 
+          ...(resumeId ? { resume_id: resumeId } : {}),
+          supplemental_answers: supplementalAnswers
         }),
       });
 
       const data = await response.json();
       
       if (!response.ok) {
-        throw new Error(data?.error || "Failed to submit application");
+        if (data?.question_errors) setQuestionErrors(data.question_errors);
+        throw new Error(data?.message || data?.error || "Failed to submit application");
       }
 
-      // Redirect back to candidate dashboard
+      // Knockout messages stay on screen; otherwise back to the dashboard
+      if (data.knockout_message) {
+        setKnockoutMessage(data.knockout_message);
+        return;
+      }
       router.push("/candidate");
     } catch (err: any) {
       setError(err.message || "Failed to submit application");
@@ -139,6 +157,18 @@ export default function ApplyWithQuestionsPage() {
     return null;
   }
 
+  if (knockoutMessage) {
+    return (
+      <div className="space-y-4 max-w-xl">
+        <h1 className="text-2xl font-semibold tracking-tight">Application Received</h1>
+        <p className="text-sm text-gray-700 whitespace-pre-wrap">{knockoutMessage}</p>
+        <Button variant="outline" onClick={() => router.push("/candidate")}>
+          Back to Dashboard
+        </Button>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-4">
@@ -168,56 +198,31 @@ export default function ApplyWithQuestionsPage() {
         )}
       </div>
 
+      {/* Resume to submit */}
+      <div className="space-y-2">
+        <h2 className="text-lg font-medium">Resume</h2>
+        <ResumePicker value={resumeId} onChange={setResumeId} />
+      </div>
+
       {/* Supplemental Questions Form */}
       {job.supplementalQuestions && job.supplementalQuestions.length > 0 ? (
         <form onSubmit={handleSubmit} className="space-y-6">
           <div className="space-y-4">
             <h2 className="text-lg font-medium">Additional Questions</h2>
             
-            {job.supplementalQuestions.map((question, index) => (
+            {shownQuestions.map((question, index) => (
               <div key={question.id} className="space-y-2">
                 <label className="text-sm font-medium">
                   {index + 1}. {question.question}
                   {question.required && <span className="text-red-500 ml-1">*</span>}
                 </label>
-                
-                {question.type === "text" && (
-                  <Input
-                    value={answers[question.id] || ""}
-                    onChange={(e) => updateAnswer(question.id, e.target.value)}
-                    placeholder="Enter your answer..."
-                    required={question.required}
-                  />
-                )}
-                
-                {question.type === "textarea" && (
-                  <textarea
-                    value={answers[question.id] || ""}
-                    onChange={(e) => updateAnswer(question.id, e.target.value)}
-                    placeholder="Enter your answer..."
-                    required={question.required}
-                    className="w-full min-h-[100px] px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-vertical"
-                  />
-                )}
-                
-                {question.type === "select" && question.options && (
-                  <Select
-                    value={answers[question.id] || ""}
-                    onValueChange={(value) => updateAnswer(question.id, value)}
-                    required={question.required}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select an option..." />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {question.options.map((option, optionIndex) => (
-                        <SelectItem key={optionIndex} value={option}>
-                          {option}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                )}
+                <SupplementalQuestionField
+                  question={question}
+                  value={answers[question.id]}
+                  onChange={(value) => updateAnswer(question.id, value)}
+                  jobId={jobId}
+                  error={questionErrors[question.id]}
+                />
               </div>
             ))}
           </div>
@@ -0,0 +1,18 @@
+"use client";
+
+import { Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import MessageInbox from "@/components/messages/MessageInbox";
+
+function CandidateMessages() {
+  const searchParams = useSearchParams();
+  return <MessageInbox initialApplicationId={searchParams.get("application")} />;
+}
+
+export default function CandidateMessagesPage() {
+  return (
+    <Suspense fallback={<p className="text-sm text-gray-600">Loading messages...</p>}>
+      <CandidateMessages />
+    </Suspense>
+  );
+}
@@ -1,32 +1,118 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
-import { useRouter } from "next/navigation";
+import { Suspense, useEffect, useMemo, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Modal } from "@/components/ui/modal";
+import InterviewSlotPicker from "@/components/candidate/InterviewSlotPicker";
+import OfferCard from "@/components/candidate/OfferCard";
 import { supabase } from "@/lib/supabaseClient";
 
 import { Job } from "@/lib/applications";
+import {
+  DEADLINE_WINDOW_LABELS,
+  DEFAULT_SEARCH_LIMIT,
+  SALARY_BAND_LABELS,
+  WORKPLACE_LABELS,
+  buildJobSearchQuery,
+  parseJobSearchParams,
+} from "@/lib/job-search";
+import type { JobSearchFacets, JobSearchParams } from "@/lib/job-search";
+import { scoreMatch } from "@/lib/matching";
+import type { MatchProfile } from "@/lib/matching";
 
 type Application = {
+  id: string;
   jobId: string;
   status: "Applied" | "Under Review" | "Interview" | "Offer" | "Hired" | "Rejected";
   appliedAt: string;
 };
 
-export default function CandidatePage() {
+type FacetKey = "location" | "remote" | "salary" | "deadline";
+
+type FacetOption = { value: string; label: string; count: number };
+
+const EMPTY_SEARCH: JobSearchParams = {
+  q: "",
+  location: [],
+  remote: [],
+  salary: [],
+  deadline: [],
+  limit: DEFAULT_SEARCH_LIMIT,
+};
+
+// API URL for a search; limit is always sent so GET /api/jobs runs in search mode
+function jobSearchUrl(searchKey: string, limit: number, cursor?: string | null) {
+  const params = new URLSearchParams(searchKey);
+  params.set("limit", String(limit));
+  if (cursor) params.set("cursor", cursor);
+  return `/api/jobs?${params.toString()}`;
+}
+
+function FacetGroup({
+  title,
+  options,
+  selected,
+  onToggle,
+}: {
+  title: string;
+  options: FacetOption[];
+  selected: string[];
+  onToggle: (value: string) => void;
+}) {
+  // Hide empty options unless they're part of the current filter
+  const visible = options.filter((o) => o.count > 0 || selected.includes(o.value));
+  if (visible.length === 0) return null;
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold text-gray-900">{title}</h3>
+      <div className="space-y-1.5">
+        {visible.map((option) => (
+          <label key={option.value} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={selected.includes(option.value)}
+              onChange={() => onToggle(option.value)}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="flex-1 truncate">{option.label}</span>
+            <span className="text-xs text-gray-400">{option.count}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function CandidateDashboard() {
   const router = useRouter();
+  const searchParams = useSearchParams();
   const [jobs, setJobs] = useState<Job[]>([]);
   const [apps, setApps] = useState<Application[]>([]);
   const [loading, setLoading] = useState(true);
-  const [query, setQuery] = useState("");
+  const [searching, setSearching] = useState(false);
+  const [facets, setFacets] = useState<JobSearchFacets | null>(null);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  // Search state lives in the URL so searches can be bookmarked and shared
+  const search = useMemo(() => {
+    const parsed = parseJobSearchParams(new URLSearchParams(searchParams.toString()));
+    return parsed.success ? { ...parsed.data, cursor: undefined } : EMPTY_SEARCH;
+  }, [searchParams]);
+  const searchKey = buildJobSearchQuery(search);
+  const [query, setQuery] = useState(search.q);
   const [submitting, setSubmitting] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [suppModalOpen, setSuppModalOpen] = useState(false);
   const [pendingJobForSupp, setPendingJobForSupp] = useState<string | null>(null);
   const [profileResumeUrl, setProfileResumeUrl] = useState<string | null>(null);
+  // Candidates with several resume versions pick one on the apply page
+  const [resumeVersionCount, setResumeVersionCount] = useState(0);
+  const [matchProfile, setMatchProfile] = useState<MatchProfile | null>(null);
 
   // Monitor authentication state and clear data on sign-out
   useEffect(() => {
@@ -48,20 +134,88 @@ export default function CandidatePage() {
     };
   }, [router]);
 
-  // Load jobs and applications data
+  // Update the URL with a new search; the effect below runs the query
+  function updateSearch(patch: Partial<JobSearchParams>) {
+    const qs = buildJobSearchQuery({ ...search, ...patch, cursor: undefined });
+    router.push(qs ? `/candidate?${qs}` : "/candidate", { scroll: false });
+  }
+
+  function toggleFacet(key: FacetKey, value: string) {
+    const current = search[key] as string[];
+    const next = current.includes(value) ? current.filter((v) => v !== value) : [...current, value];
+    updateSearch({ [key]: next } as Partial<JobSearchParams>);
+  }
+
+  // Keep the search box in sync with the URL (e.g. back/forward navigation)
+  useEffect(() => {
+    setQuery(search.q);
+  }, [search.q]);
+
+  // Debounce typing into the URL
+  useEffect(() => {
+    if (query.trim() === search.q) return;
+    const timer = setTimeout(() => {
+      const qs = buildJobSearchQuery({ ...search, q: query });
+      router.replace(qs ? `/candidate?${qs}` : "/candidate", { scroll: false });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [query, search, router]);
+
+  // Run the search whenever the URL changes
   useEffect(() => {
     let mounted = true;
+    setSearching(true);
     (async () => {
       try {
-        const [jobsRes, appsRes] = await Promise.all([
-          fetch("/api/jobs", { cache: "no-store" }),
-          fetch("/api/applications", { cache: "no-store" }),
-        ]);
-        const [jobsData, appsData] = await Promise.all([jobsRes.json(), appsRes.json()]);
+        const res = await fetch(jobSearchUrl(searchKey, search.limit), { cache: "no-store" });
+        const data = await res.json();
+        if (!mounted) return;
+        if (!res.ok) throw new Error(data?.error || "Failed to search jobs");
+        setJobs(Array.isArray(data?.jobs) ? data.jobs : []);
+        setFacets(data?.facets ?? null);
+        setTotal(typeof data?.total === "number" ? data.total : 0);
+        setNextCursor(data?.nextCursor ?? null);
+      } catch (e: any) {
+        if (mounted) setError(e.message || "Failed to search jobs");
+      } finally {
+        if (mounted) {
+          setSearching(false);
+          setLoading(false);
+        }
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [searchKey, search.limit]);
+
+  async function loadMore() {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const res = await fetch(jobSearchUrl(searchKey, search.limit, nextCursor), { cache: "no-store" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || "Failed to load more jobs");
+      setJobs((prev) => [...prev, ...(Array.isArray(data?.jobs) ? data.jobs : [])]);
+      setNextCursor(data?.nextCursor ?? null);
+    } catch (e: any) {
+      setError(e.message || "Failed to load more jobs");
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  // Load applications data
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      try {
+        const appsRes = await fetch("/api/applications", { cache: "no-store" });
+        const appsData = await appsRes.json();
         if (!mounted) return;
-        setJobs(Array.isArray(jobsData) ? jobsData : []);
         const normalizedApps = Array.isArray(appsData)
           ? appsData.map((a: any) => ({
+              id: a?.id ?? "",
               jobId: a?.jobId ?? a?.job_id ?? "",
               status: ((): Application["status"] => {
                 const s = (a?.status ?? "").toString();
@@ -81,8 +235,6 @@ export default function CandidatePage() {
         setApps(normalizedApps);
       } catch (_) {
         // ignore
-      } finally {
-        if (mounted) setLoading(false);
       }
     })();
     return () => {
@@ -90,7 +242,7 @@ export default function CandidatePage() {
     };
   }, []);
 
-  // Load candidate profile to check for resume_url
+  // Load candidate profile to check for resume_url and score job matches
   useEffect(() => {
     let active = true;
     (async () => {
@@ -100,6 +252,7 @@ export default function CandidatePage() {
         if (res.ok) {
           const profile = await res.json();
           setProfileResumeUrl((profile && profile.resume_url) || null);
+          setMatchProfile(profile && typeof profile === "object" ? profile : null);
         } else {
           setProfileResumeUrl(null);
         }
@@ -110,16 +263,23 @@ export default function CandidatePage() {
     return () => { active = false; };
   }, []);
 
-  const filtered = useMemo(() => {
-    const q = query.trim().toLowerCase();
-    if (!q) return jobs;
-    return jobs.filter(
-      (j) =>
-        j.title.toLowerCase().includes(q) ||
-        j.company.toLowerCase().includes(q) ||
-        j.location.toLowerCase().includes(q)
-    );
-  }, [jobs, query]);
+  useEffect(() => {
+    let active = true;
+    (async () => {
+      try {
+        const res = await fetch('/api/resume/versions', { cache: 'no-store' });
+        if (!active || !res.ok) return;
+        const versions = await res.json();
+        setResumeVersionCount(Array.isArray(versions) ? versions.length : 0);
+      } catch {
+        // one-click apply falls back to the default resume
+      }
+    })();
+    return () => { active = false; };
+  }, []);
+
+  const hasFilters =
+    !!search.q || search.location.length > 0 || search.remote.length > 0 || search.salary.length > 0 || search.deadline.length > 0;
 
   function getStatus(jobId: string) {
     return apps.find((a) => a.jobId === jobId)?.status ?? null;
@@ -157,8 +317,8 @@ export default function CandidatePage() {
           if (latest) job = latest as unknown as Job;
         } catch {}
       }
-      if (job?.supplementalQuestions && job.supplementalQuestions.length > 0) {
-        // If any supplemental questions exist, always route to supplemental flow
+      if ((job?.supplementalQuestions && job.supplementalQuestions.length > 0) || resumeVersionCount > 1) {
+        // Supplemental questions or a choice of resumes: route to the full apply flow
         router.push(`/candidate/apply/${jobId}`);
         return;
       }
@@ -182,7 +342,7 @@ export default function CandidatePage() {
       if (data.created) {
         setApps((prev) => [
           ...prev,
-          { jobId, status: data.status as Application["status"], appliedAt: new Date().toISOString() },
+          { id: data.application?.id ?? "", jobId, status: data.status as Application["status"], appliedAt: new Date().toISOString() },
         ]);
       }
     } catch (e: any) {
@@ -203,6 +363,9 @@ export default function CandidatePage() {
     );
   }
 
+  const interviewApps = apps.filter((a) => a.status === "Interview" && a.id);
+  const offerApps = apps.filter((a) => a.status === "Offer" && a.id);
+
   return (
     <div className="space-y-8">
       {/* Header */}
@@ -218,6 +381,30 @@ export default function CandidatePage() {
         )}
       </div>
 
+      {/* Interview scheduling for applications in an Interview stage */}
+      {interviewApps.length > 0 && (
+        <div className="grid gap-4 md:grid-cols-2">
+          {interviewApps.map((app) => (
+            <InterviewSlotPicker key={app.id} applicationId={app.id} />
+          ))}
+        </div>
+      )}
+
+      {/* Offers waiting for an answer */}
+      {offerApps.length > 0 && (
+        <div className="grid gap-4 md:grid-cols-2">
+          {offerApps.map((app) => (
+            <OfferCard
+              key={app.id}
+              applicationId={app.id}
+              onRespond={(status) =>
+                setApps((prev) => prev.map((a) => (a.id === app.id ? { ...a, status: status as Application["status"] } : a)))
+              }
+            />
+          ))}
+        </div>
+      )}
+
       {/* Search Bar */}
       <div className="max-w-2xl">
         <div className="relative">
@@ -240,12 +427,64 @@ export default function CandidatePage() {
         )}
       </div>
 
+      <div className="grid gap-6 lg:grid-cols-4">
+      {/* Filters */}
+      <aside className="space-y-6 lg:col-span-1">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">
+            {searching ? "Searching..." : `${total} ${total === 1 ? "job" : "jobs"}`}
+          </p>
+          {hasFilters && (
+            <button
+              type="button"
+              onClick={() => {
+                setQuery("");
+                router.push("/candidate", { scroll: false });
+              }}
+              className="text-sm text-blue-600 hover:underline"
+            >
+              Clear all
+            </button>
+          )}
+        </div>
+        {facets && (
+          <>
+            <FacetGroup
+              title="Location"
+              options={facets.location.map((f) => ({ value: f.value, label: f.value, count: f.count }))}
+              selected={search.location}
+              onToggle={(value) => toggleFacet("location", value)}
+            />
+            <FacetGroup
+              title="Workplace"
+              options={facets.remote.map((f) => ({ value: f.value, label: WORKPLACE_LABELS[f.value], count: f.count }))}
+              selected={search.remote}
+              onToggle={(value) => toggleFacet("remote", value)}
+            />
+            <FacetGroup
+              title="Salary"
+              options={facets.salary.map((f) => ({ value: f.value, label: SALARY_BAND_LABELS[f.value], count: f.count }))}
+              selected={search.salary}
+              onToggle={(value) => toggleFacet("salary", value)}
+            />
+            <FacetGroup
+              title="Deadline"
+              options={facets.deadline.map((f) => ({ value: f.value, label: DEADLINE_WINDOW_LABELS[f.value], count: f.count }))}
+              selected={search.deadline}
+              onToggle={(value) => toggleFacet("deadline", value)}
+            />
+          </>
+        )}
+      </aside>
+
       {/* Job Listings */}
-      <div className="grid gap-4">
-        {filtered.map((job) => {
+      <div className="grid gap-4 content-start lg:col-span-3">
+        {jobs.map((job) => {
           const status = getStatus(job.id);
           const isApplied = !!status;
+          const applicationId = apps.find((a) => a.jobId === job.id)?.id;
           const resumeMissing = !profileResumeUrl;
+          const match = matchProfile ? scoreMatch(matchProfile, job) : null;
           return (
             <div 
               key={job.id} 
@@ -272,11 +511,26 @@ export default function CandidatePage() {
                   </div>
                 </Link>
                 <div className="flex items-center gap-3 flex-shrink-0">
+                  {typeof match?.score === "number" && (
+                    <span
+                      className={`text-xs px-3 py-1.5 rounded-full font-semibold whitespace-nowrap ${
+                        match.score >= 75 ? "bg-green-100 text-green-800" : match.score >= 50 ? "bg-yellow-100 text-yellow-800" : "bg-gray-100 text-gray-700"
+                      }`}
+                      title={match.components.map((c) => c.detail).join("\n")}
+                    >
+                      Your match: {match.score}%
+                    </span>
+                  )}
                   {isApplied && status ? (
                     <span className={`text-xs px-3 py-1.5 rounded-full font-semibold whitespace-nowrap ${getStatusColor(status)}`}>
                       {status}
                     </span>
                   ) : null}
+                  {applicationId && (
+                    <Link href={`/candidate/messages?application=${applicationId}`} className="text-sm text-blue-600 hover:underline whitespace-nowrap">
+                      Message
+                    </Link>
+                  )}
                   <Button
                     onClick={() => apply(job.id)}
                     disabled={isApplied || submitting === job.id || resumeMissing}
@@ -290,7 +544,7 @@ export default function CandidatePage() {
             </div>
           );
         })}
-        {filtered.length === 0 && (
+        {jobs.length === 0 && !searching && (
           <div className="text-center py-16">
             <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-gray-100 mb-4">
               <svg className="w-8 h-8 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -301,6 +555,14 @@ export default function CandidatePage() {
             <p className="text-sm text-gray-500 mt-1">Try adjusting your search criteria</p>
           </div>
         )}
+        {nextCursor && (
+          <div className="flex justify-center pt-2">
+            <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+              {loadingMore ? "Loading..." : "Load more"}
+            </Button>
+          </div>
+        )}
+      </div>
       </div>
 
       <Modal
@@ -332,3 +594,10 @@ export default function CandidatePage() {
   );
 }
 
+export default function CandidatePage() {
+  return (
+    <Suspense fallback={<div className="flex items-center justify-center min-h-[60vh]"><p className="text-sm text-gray-600">Loading your dashboard...</p></div>}>
+      <CandidateDashboard />
+    </Suspense>
+  );
+}
@@ -6,10 +6,19 @@ import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
 import { Button } from "@/components/ui/button";
 import { Modal } from "@/components/ui/modal";
-import { Input } from "@/components/ui/input";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import type { Job } from "@/lib/types/database";
 import type { User } from "@supabase/supabase-js";
+import { isPastDeadline } from "@/lib/job-deadlines";
+import SupplementalQuestionField from "@/components/candidate/SupplementalQuestionField";
+import { readJobQuestions, validateSupplementalAnswers, visibleQuestions } from "@/lib/supplemental-questions";
+import {
+  DEGREE_LEVEL_LABELS,
+  EMPLOYMENT_TYPE_LABELS,
+  WORK_AUTHORIZATION_REQUIREMENT_LABELS,
+  hasJobRequirements,
+  parseJobRequirements,
+} from "@/lib/job-requirements";
+import { prefillFromProfile } from "@/lib/knockouts";
 
 export default function JobDetailsPage() {
   const params = useParams<{ id: string }>();
@@ -23,8 +32,10 @@ export default function JobDetailsPage() {
   const [alreadyApplied, setAlreadyApplied] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [knockoutMessage, setKnockoutMessage] = useState<string | null>(null);
   const [suppModalOpen, setSuppModalOpen] = useState(false);
-  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [answers, setAnswers] = useState<Record<string, unknown>>({});
+  const [questionErrors, setQuestionErrors] = useState<Record<string, string>>({});
 
   // Load job data and check authentication
   useEffect(() => {
@@ -45,16 +56,6 @@ export default function JobDetailsPage() {
           setError("Job not found");
         } else {
           setJob(jobResult.data);
-          // Initialize answers for supplemental questions if present
-          const reqs = jobResult.data?.requirements;
-          const supp = reqs && typeof reqs === 'object' ? (reqs as any).supplementalQuestions : undefined;
-          if (Array.isArray(supp)) {
-            const initial: Record<string, string> = {};
-            for (const q of supp) {
-              if (q && typeof q.id === 'string') initial[q.id] = "";
-            }
-            setAnswers(initial);
-          }
         }
 
         // Set user data - try both getUser and getSession for compatibility
@@ -88,6 +89,17 @@ export default function JobDetailsPage() {
           if (mounted && existingApp) {
             setAlreadyApplied(true);
           }
+
+          // Pre-answer work authorization / sponsorship questions from the profile
+          const { data: profile } = await supabase
+            .from('candidate_profiles')
+            .select('work_authorization, requires_sponsorship')
+            .eq('user_id', currentUser.id)
+            .maybeSingle();
+          const loadedQuestions = jobResult.data ? readJobQuestions(jobResult.data) : [];
+          if (mounted && profile && loadedQuestions.length > 0) {
+            setAnswers(prev => prefillFromProfile(loadedQuestions, prev, profile));
+          }
         } else {
           console.log('No user found - not authenticated');
         }
@@ -109,6 +121,9 @@ export default function JobDetailsPage() {
     };
   }, [jobId, router]);
 
+  const requirements = parseJobRequirements(job?.requirements);
+  const questions = job ? readJobQuestions(job) : [];
+
   // Handle apply button click
   async function handleApply() {
     // Redirect to login if not authenticated
@@ -133,29 +148,24 @@ export default function JobDetailsPage() {
         setSubmitting(false);
         return;
       }
-      // If job has supplemental questions, validate required and include answers
-      let supplementalPayload: Record<string, string> | undefined = undefined;
-      if (job?.requirements && typeof job.requirements === 'object') {
-        const requirements = job.requirements as Record<string, any>;
-        const supp: any[] = Array.isArray(requirements.supplementalQuestions) ? requirements.supplementalQuestions : [];
-        if (supp.length > 0) {
-          // Validate required
-          const missing: string[] = [];
-          for (const q of supp) {
-            if (q?.required && typeof q.id === 'string') {
-              const val = (answers[q.id] ?? '').trim();
-              if (!val) missing.push(q.id);
-            }
-          }
-          if (missing.length > 0) {
-            setError("Please complete all required supplemental questions before applying.");
-            // Keep modal pattern in case you still want the dedicated page
-            setSuppModalOpen(true);
-            setSubmitting(false);
-            return;
-          }
-          supplementalPayload = Object.fromEntries(Object.entries(answers).map(([k, v]) => [k, (v || '').trim()]));
+      // If job has supplemental questions, validate answers the same way the server does
+      let supplementalPayload: Record<string, unknown> | undefined = undefined;
+      if (questions.length > 0) {
+        const answerCheck = validateSupplementalAnswers(questions, answers);
+        setQuestionErrors(answerCheck.errors);
+        if (answerCheck.missing.length > 0) {
+          setError("Please complete all required supplemental questions before applying.");
+          // Keep modal pattern in case you still want the dedicated page
+          setSuppModalOpen(true);
+          setSubmitting(false);
+          return;
+        }
+        if (!answerCheck.ok) {
+          setError("Please fix the highlighted answers before applying.");
+          setSubmitting(false);
+          return;
         }
+        supplementalPayload = answerCheck.answers;
       }
 
       // No supplemental questions; proceed to apply directly
@@ -173,8 +183,12 @@ export default function JobDetailsPage() {
       const data = await response.json();
 
       if (response.status === 201) {
-        // Success!
+        // Success! Knockout messages stay on screen instead of redirecting
         setSuccess(true);
+        if (data.knockout_message) {
+          setKnockoutMessage(data.knockout_message);
+          return;
+        }
         setAlreadyApplied(true);
         setTimeout(() => {
           router.push('/candidate');
@@ -189,6 +203,9 @@ export default function JobDetailsPage() {
       } else if (response.status === 403) {
         // Job not accepting applications
         setError(data.message || "This job is not currently accepting applications");
+      } else if (data.question_errors) {
+        setQuestionErrors(data.question_errors);
+        setError(data.message || "Please fix the highlighted answers before applying.");
       } else {
         // Other errors
         setError(data.message || data.error || "Failed to submit application");
@@ -292,65 +309,80 @@ export default function JobDetailsPage() {
           </div>
         )}
 
-        {job.requirements && typeof job.requirements === 'object' && Object.keys(job.requirements).length > 0 && (
+        {hasJobRequirements(requirements) && (
           <div>
             <h2 className="text-sm font-semibold text-gray-700 mb-2">Requirements</h2>
-            <div className="text-sm space-y-1">
-              {Object.entries(job.requirements).map(([key, value]) => {
-                if (key === 'supplementalQuestions' && Array.isArray(value)) {
-                  return (
-                    <div key={key} className="space-y-2">
-                      <div className="font-medium">Supplemental Questions:</div>
-                      <div className="space-y-4">
-                        {value.map((q: any, idx: number) => (
-                          <div key={q?.id || idx} className="space-y-2 border rounded-md p-3">
-                            <div className="text-sm font-medium">
-                              {idx + 1}. {(q && (q.question || q.label)) ? (q.question || q.label) : 'Question'}
-                              {q?.required ? <span className="text-red-500 ml-1">*</span> : null}
-                            </div>
-                            {q?.type === 'text' && (
-                              <Input
-                                value={answers[q.id] || ""}
-                                onChange={(e) => setAnswers(prev => ({ ...prev, [q.id]: e.target.value }))}
-                                placeholder="Your answer"
-                              />
-                            )}
-                            {q?.type === 'textarea' && (
-                              <textarea
-                                value={answers[q.id] || ""}
-                                onChange={(e) => setAnswers(prev => ({ ...prev, [q.id]: e.target.value }))}
-                                placeholder="Your answer"
-                                className="w-full min-h-[100px] px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-vertical text-sm"
-                              />
-                            )}
-                            {q?.type === 'select' && Array.isArray(q?.options) && (
-                              <Select
-                                value={answers[q.id] || ""}
-                                onValueChange={(val) => setAnswers(prev => ({ ...prev, [q.id]: val }))}
-                              >
-                                <SelectTrigger>
-                                  <SelectValue placeholder="Select an option" />
-                                </SelectTrigger>
-                                <SelectContent>
-                                  {q.options.map((opt: string, i: number) => (
-                                    <SelectItem key={i} value={opt}>{opt}</SelectItem>
-                                  ))}
-                                </SelectContent>
-                              </Select>
-                            )}
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                  );
-                }
-                return (
-                  <div key={key} className="flex gap-2">
-                    <span className="font-medium capitalize">{key.replace('_', ' ')}:</span>
-                    <span>{Array.isArray(value) ? value.join(', ') : String(value)}</span>
+            <div className="text-sm space-y-2">
+              {requirements.requiredSkills.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1">
+                  <span className="font-medium mr-1">Required skills:</span>
+                  {requirements.requiredSkills.map((skill) => (
+                    <span key={skill} className="px-2 py-0.5 bg-blue-50 text-blue-700 rounded text-xs">
+                      {skill}
+                    </span>
+                  ))}
+                </div>
+              )}
+              {requirements.niceToHaveSkills.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1">
+                  <span className="font-medium mr-1">Nice to have:</span>
+                  {requirements.niceToHaveSkills.map((skill) => (
+                    <span key={skill} className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded text-xs">
+                      {skill}
+                    </span>
+                  ))}
+                </div>
+              )}
+              {requirements.minYearsExperience !== null && (
+                <div className="flex gap-2">
+                  <span className="font-medium">Experience:</span>
+                  <span>{requirements.minYearsExperience}+ years</span>
+                </div>
+              )}
+              {requirements.degreeLevel && (
+                <div className="flex gap-2">
+                  <span className="font-medium">Education:</span>
+                  <span>{DEGREE_LEVEL_LABELS[requirements.degreeLevel]} or higher</span>
+                </div>
+              )}
+              {requirements.workAuthorization && (
+                <div className="flex gap-2">
+                  <span className="font-medium">Work authorization:</span>
+                  <span>{WORK_AUTHORIZATION_REQUIREMENT_LABELS[requirements.workAuthorization]}</span>
+                </div>
+              )}
+              {requirements.employmentType && (
+                <div className="flex gap-2">
+                  <span className="font-medium">Employment type:</span>
+                  <span>{EMPLOYMENT_TYPE_LABELS[requirements.employmentType]}</span>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {questions.length > 0 && (
+          <div>
+            <h2 className="text-sm font-semibold text-gray-700 mb-2">Supplemental Questions</h2>
+            <div className="space-y-4">
+              {visibleQuestions(questions, answers).map((q, idx) => (
+                <div key={q.id} className="space-y-2 border rounded-md p-3">
+                  <div className="text-sm font-medium">
+                    {idx + 1}. {q.question}
+                    {q.required ? <span className="text-red-500 ml-1">*</span> : null}
                   </div>
-                );
-              })}
+                  <SupplementalQuestionField
+                    question={q}
+                    value={answers[q.id]}
+                    onChange={(val) => {
+                      setAnswers(prev => ({ ...prev, [q.id]: val }));
+                      setQuestionErrors(prev => ({ ...prev, [q.id]: "" }));
+                    }}
+                    jobId={jobId}
+                    error={questionErrors[q.id]}
+                  />
+                </div>
+              ))}
             </div>
           </div>
         )}
@@ -375,6 +407,14 @@ export default function JobDetailsPage() {
             </Button>
             <p className="text-sm text-gray-600">You must be logged in to apply to this job</p>
           </div>
+        ) : knockoutMessage ? (
+          <div className="p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-2">
+            <p className="font-semibold text-gray-900">Application Received</p>
+            <p className="text-sm text-gray-600 whitespace-pre-wrap">{knockoutMessage}</p>
+            <Link href="/candidate" className="text-sm text-blue-600 hover:underline">
+              Back to your dashboard
+            </Link>
+          </div>
         ) : alreadyApplied ? (
           <div className="flex items-center gap-3 p-4 bg-gray-50 rounded-lg border border-gray-200">
             <div className="flex-shrink-0 w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center">
@@ -399,6 +439,13 @@ export default function JobDetailsPage() {
               <p className="text-sm text-green-600">Redirecting to your dashboard...</p>
             </div>
           </div>
+        ) : job.status !== "open" || isPastDeadline(job.deadline) ? (
+          <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+            <p className="font-semibold text-gray-900">Applications Closed</p>
+            <p className="text-sm text-gray-600">
+              {job.status === "open" ? "The application deadline for this job has passed" : "This job is no longer accepting applications"}
+            </p>
+          </div>
         ) : (
           <div className="space-y-4">
             <Button 
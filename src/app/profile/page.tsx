@@ -12,7 +12,14 @@ import {
   SelectContent,
   SelectItem,
 } from "@/components/ui/select";
+import ResumeSuggestions from "@/components/candidate/ResumeSuggestions";
+import ResumeVersionList from "@/components/candidate/ResumeVersionList";
+import NotificationPreferences from "@/components/notifications/NotificationPreferences";
 import { supabase } from "@/lib/supabaseClient";
+import { resumeProfileChanges } from "@/lib/resume-parser";
+import type { ParsedResume, ResumeProfileChange } from "@/lib/resume-parser";
+import { MAX_RESUME_LABEL_LENGTH } from "@/lib/resumes";
+import type { ResumeRejectionCode } from "@/lib/resume-validation";
 
 const MAX_BYTES = 5 * 1024 * 1024; // 5MB
 const ALLOWED_TYPES = new Set([
@@ -21,6 +28,18 @@ const ALLOWED_TYPES = new Set([
   "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
 ]);
 
+// Messages for the error codes /api/resume returns when it rejects an upload
+const UPLOAD_ERROR_MESSAGES: Record<ResumeRejectionCode, string> = {
+  FILE_TOO_LARGE: "File too large. Max 5MB",
+  INVALID_FILE_TYPE: "Invalid file type. Allowed: PDF, DOC, DOCX",
+  CONTENT_MISMATCH: "This file isn't a valid PDF, DOC, or DOCX. Try exporting it again from your editor.",
+  ENCRYPTED_DOCUMENT: "This file is password-protected. Remove the password and upload it again.",
+  MACROS_NOT_ALLOWED: "Files with macros can't be uploaded. Save it as a regular PDF or DOCX and try again.",
+  TOO_MANY_PAGES: "Resume is too long. Max 10 pages",
+  MALWARE_DETECTED: "This file was flagged by our virus scan and can't be uploaded.",
+  SCAN_FAILED: "We couldn't scan this file right now. Please try again in a few minutes.",
+};
+
 type ResumeInfo = {
   url: string;
   originalName: string;
@@ -51,6 +70,13 @@ export default function ProfilePage() {
   const [uploading, setUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [uploadError, setUploadError] = useState<string | null>(null);
+  // Name for the next uploaded resume version; bumping resumeListKey reloads the saved versions
+  const [resumeLabel, setResumeLabel] = useState("");
+  const [resumeListKey, setResumeListKey] = useState(0);
+  // Profile fields parsed from the last uploaded resume, awaiting review
+  const [resumeChanges, setResumeChanges] = useState<ResumeProfileChange[]>([]);
+  const [applyingResume, setApplyingResume] = useState(false);
+  const [resumeApplyError, setResumeApplyError] = useState<string | null>(null);
 
   // Monitor authentication state and redirect on sign-out
   useEffect(() => {
@@ -419,27 +445,80 @@ export default function ProfilePage() {
     try {
       const form = new FormData();
       form.append("file", file);
+      if (resumeLabel.trim()) form.append("label", resumeLabel.trim());
       const res = await fetch("/api/resume", { method: "POST", body: form });
       if (!res.ok) {
         const err = await res.json().catch(() => ({}));
         throw new Error(err.error || "Failed to upload resume");
       }
-      const data = (await res.json()) as Profile;
-      setProfile(data);
+      const data = (await res.json()) as Profile & { parsed?: ParsedResume | null };
+      const { parsed, ...updated } = data;
+      setProfile(updated);
+      setResumeLabel("");
+      setResumeListKey((k) => k + 1);
+      setResumeApplyError(null);
+      setResumeChanges(
+        parsed
+          ? resumeProfileChanges(parsed, {
+              ...candidate,
+              name: candidate.name || updated.name,
+              email: candidate.email || updated.email,
+            })
+          : []
+      );
     } catch (e: any) {
       const msg = String(e?.message || "Upload failed");
-      if (msg.includes("INVALID_FILE_TYPE")) {
-        setUploadError("Invalid file type. Allowed: PDF, DOC, DOCX");
-      } else if (msg.includes("FILE_TOO_LARGE")) {
-        setUploadError("File too large. Max 5MB");
-      } else {
-        setUploadError("Failed to upload resume");
-      }
+      setUploadError(UPLOAD_ERROR_MESSAGES[msg as ResumeRejectionCode] ?? "Failed to upload resume");
     } finally {
       setUploading(false);
     }
   }
 
+  async function applyResumeChanges(changes: ResumeProfileChange[]) {
+    setApplyingResume(true);
+    setResumeApplyError(null);
+    try {
+      const payload: Record<string, unknown> = {};
+      for (const change of changes) payload[change.field] = change.value;
+
+      const { data: sessionData } = await supabase.auth.getSession();
+      const token = sessionData.session?.access_token;
+      if (!token) throw new Error("You need to be signed in to update your profile");
+      const res = await fetch("/api/candidate-profile", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(payload),
+      });
+      const respJson = await res.json();
+      if (!res.ok) throw new Error(respJson?.error || "Failed to update profile");
+      setCandidate((prev: any) => ({ ...prev, ...respJson }));
+      setProfile((prev) => ({
+        ...prev,
+        name: typeof payload.name === "string" ? payload.name : prev.name,
+        email: typeof payload.email === "string" ? payload.email : prev.email,
+      }));
+      setResumeChanges([]);
+    } catch (e: any) {
+      setResumeApplyError(e.message || "Failed to update profile");
+    } finally {
+      setApplyingResume(false);
+    }
+  }
+
+  // Reload the profile resume after the default version changes
+  async function reloadProfileResume() {
+    try {
+      const res = await fetch("/api/profile", { cache: "no-store" });
+      const data = (await res.json()) as Profile;
+      setProfile((prev) => ({ ...prev, resume: data.resume }));
+    } catch {
+      // the version list already reflects the change
+    }
+  }
+
   async function handleDelete() {
     setUploading(true);
     setUploadError(null);
@@ -451,6 +530,8 @@ export default function ProfilePage() {
       }
       const data = (await res.json()) as Profile;
       setProfile(data);
+      setResumeChanges([]);
+      setResumeListKey((k) => k + 1);
     } catch (e: any) {
       setUploadError(e.message || "Failed to delete resume");
     } finally {
@@ -1477,6 +1558,19 @@ export default function ProfilePage() {
           </div>
           <h2 className="text-xl font-bold text-gray-900">Resume</h2>
         </div>
+        <div className="grid gap-2 max-w-md">
+          <label htmlFor="resume-label" className="text-sm font-medium">
+            Name for your next upload <span className="text-gray-500 font-normal">(optional)</span>
+          </label>
+          <Input
+            id="resume-label"
+            value={resumeLabel}
+            onChange={(e) => setResumeLabel(e.target.value)}
+            maxLength={MAX_RESUME_LABEL_LENGTH}
+            placeholder="e.g., Backend, ML"
+            disabled={uploading}
+          />
+        </div>
         {profile.resume ? (
           <div className="space-y-4">
             <div className="bg-green-50 border border-green-200 rounded-lg p-4">
@@ -1548,7 +1642,7 @@ export default function ProfilePage() {
                 disabled={uploading}
                 className="h-10 rounded-lg border-red-300 text-red-600 hover:bg-red-50"
               >
-                {uploading ? "Deleting..." : "Delete Resume"}
+                {uploading ? "Deleting..." : "Delete Default Resume"}
               </Button>
             </div>
             {uploadError && (
@@ -1603,6 +1697,21 @@ export default function ProfilePage() {
             )}
           </div>
         )}
+        <ResumeVersionList refreshKey={resumeListKey} onDefaultChange={reloadProfileResume} />
+        {resumeChanges.length > 0 && (
+          <ResumeSuggestions
+            key={resumeChanges.map((c) => c.field).join(",")}
+            changes={resumeChanges}
+            applying={applyingResume}
+            error={resumeApplyError}
+            onApply={applyResumeChanges}
+            onDismiss={() => setResumeChanges([])}
+          />
+        )}
+      </section>
+
+      <section className="bg-white rounded-xl border border-gray-200 p-6 sm:p-8 shadow-sm">
+        <NotificationPreferences audience="candidate" />
       </section>
     </div>
   );
@@ -0,0 +1,315 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ReactNode } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ANALYTICS_INTERVALS, DEFAULT_ANALYTICS_DAYS } from "@/lib/analytics";
+import type { AnalyticsInterval, AnalyticsReport, FunnelMetrics } from "@/lib/analytics";
+
+type JobOption = { id: string; title: string };
+
+const INTERVAL_LABELS: Record<AnalyticsInterval, string> = { day: "Daily", week: "Weekly", month: "Monthly" };
+
+function daysAgo(days: number) {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+function formatPercent(value: number | null) {
+  return value === null ? "—" : `${Math.round(value * 1000) / 10}%`;
+}
+
+function formatHours(hours: number | null) {
+  if (hours === null) return "—";
+  return hours >= 48 ? `${Math.round((hours / 24) * 10) / 10} days` : `${Math.round(hours * 10) / 10} hours`;
+}
+
+function FunnelBars({ metrics }: { metrics: FunnelMetrics }) {
+  const top = Math.max(1, metrics.funnel[0]?.reached ?? 0);
+  return (
+    <div className="space-y-2">
+      {metrics.funnel.map((step) => (
+        <div key={step.status} className="flex items-center gap-3 text-sm">
+          <span className="w-28 text-gray-700">{step.label}</span>
+          <div className="flex-1 h-5 rounded bg-gray-100">
+            <div className="h-5 rounded bg-purple-500" style={{ width: `${(step.reached / top) * 100}%` }} />
+          </div>
+          <span className="w-10 text-right font-medium">{step.reached}</span>
+          <span className="w-16 text-right text-gray-500">{formatPercent(step.conversion)}</span>
+        </div>
+      ))}
+      <p className="text-xs text-gray-500">
+        Counts are applications that reached each status at any point; percentages are conversion from the previous status.
+        {" "}{metrics.rejected} rejected along the way.
+      </p>
+    </div>
+  );
+}
+
+function MetricsTable({ rows }: { rows: { key: string; name: ReactNode; metrics: FunnelMetrics }[] }) {
+  if (rows.length === 0) return <p className="text-sm text-gray-500">Nothing to show for this range.</p>;
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b">
+            <th className="py-2 pr-4 font-medium">Name</th>
+            <th className="py-2 pr-4 font-medium text-right">Applications</th>
+            {rows[0].metrics.funnel.slice(1).map((step) => (
+              <th key={step.status} className="py-2 pr-4 font-medium text-right">{step.label}</th>
+            ))}
+            <th className="py-2 pr-4 font-medium text-right">Rejected</th>
+            <th className="py-2 font-medium text-right">Median time to hire</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ key, name, metrics }) => (
+            <tr key={key} className="border-b last:border-0">
+              <td className="py-2 pr-4">{name}</td>
+              <td className="py-2 pr-4 text-right">{metrics.applications}</td>
+              {metrics.funnel.slice(1).map((step) => (
+                <td key={step.status} className="py-2 pr-4 text-right">
+                  {step.reached} <span className="text-gray-500">({formatPercent(step.conversion)})</span>
+                </td>
+              ))}
+              <td className="py-2 pr-4 text-right">{metrics.rejected}</td>
+              <td className="py-2 text-right">
+                {metrics.timeToHire.medianDays === null ? "—" : `${metrics.timeToHire.medianDays} days`}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function RecruiterAnalyticsPage() {
+  const router = useRouter();
+  const [from, setFrom] = useState(() => daysAgo(DEFAULT_ANALYTICS_DAYS - 1));
+  const [to, setTo] = useState(() => daysAgo(0));
+  const [jobId, setJobId] = useState("");
+  const [interval, setVolumeInterval] = useState<AnalyticsInterval>("week");
+  const [jobs, setJobs] = useState<JobOption[]>([]);
+  const [report, setReport] = useState<AnalyticsReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const params = new URLSearchParams({ from, to, interval, ...(jobId ? { jobId } : {}) });
+  const query = params.toString();
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      try {
+        const res = await fetch("/api/jobs/recruiter", { cache: "no-store" });
+        if (!res.ok) return;
+        const data = await res.json();
+        if (mounted) setJobs((data as JobOption[]).map((job) => ({ id: job.id, title: job.title })));
+      } catch {
+        // The job filter is optional; the report still loads
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+    setLoading(true);
+    setError(null);
+    (async () => {
+      try {
+        const res = await fetch(`/api/analytics?${query}`, { cache: "no-store" });
+        if (res.status === 401) {
+          router.push("/auth/sign-in?redirect=/recruiter/analytics");
+          return;
+        }
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          const details = data?.details ? Object.values(data.details as Record<string, string[]>).flat()[0] : null;
+          throw new Error(details || data?.error || "Failed to load analytics");
+        }
+        if (mounted) setReport(data);
+      } catch (e) {
+        if (mounted) setError(e instanceof Error ? e.message : "Failed to load analytics");
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [query, router]);
+
+  const peak = Math.max(1, ...(report?.volume.map((point) => point.applications) ?? []));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Analytics</h1>
+          <p className="text-sm text-muted-foreground">
+            Funnel conversion, time in each stage and time to hire for applications submitted in the selected range
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Link href="/recruiter/reports/eeo" className="text-sm text-gray-600 hover:underline">
+            EEO report
+          </Link>
+          <Button asChild variant="outline" className="flex items-center gap-2">
+            <a href={`/api/analytics?${query}&format=csv`}>
+              <Download className="h-4 w-4" />
+              Export CSV
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 rounded-lg border p-4">
+        <label className="text-sm text-gray-700 space-y-1">
+          <span className="block">From</span>
+          <input type="date" value={from} max={to} onChange={(e) => e.target.value && setFrom(e.target.value)} className="border rounded px-2 py-1" />
+        </label>
+        <label className="text-sm text-gray-700 space-y-1">
+          <span className="block">To</span>
+          <input type="date" value={to} min={from} onChange={(e) => e.target.value && setTo(e.target.value)} className="border rounded px-2 py-1" />
+        </label>
+        <label className="text-sm text-gray-700 space-y-1">
+          <span className="block">Job</span>
+          <select value={jobId} onChange={(e) => setJobId(e.target.value)} className="border rounded px-2 py-1">
+            <option value="">All jobs</option>
+            {jobs.map((job) => (
+              <option key={job.id} value={job.id}>{job.title}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700 space-y-1">
+          <span className="block">Volume by</span>
+          <select value={interval} onChange={(e) => setVolumeInterval(e.target.value as AnalyticsInterval)} className="border rounded px-2 py-1">
+            {ANALYTICS_INTERVALS.map((value) => (
+              <option key={value} value={value}>{INTERVAL_LABELS[value]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {loading && !report && <p className="text-sm text-gray-500">Loading analytics...</p>}
+
+      {report && (
+        <div className={`space-y-6 ${loading ? "opacity-60" : ""}`}>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="rounded-lg border p-4">
+              <div className="text-2xl font-bold text-purple-600">{report.overall.applications}</div>
+              <div className="text-xs text-gray-500">Applications</div>
+            </div>
+            <div className="rounded-lg border p-4">
+              <div className="text-2xl font-bold text-purple-600">{report.overall.timeToHire.hires}</div>
+              <div className="text-xs text-gray-500">Hires</div>
+            </div>
+            <div className="rounded-lg border p-4">
+              <div className="text-2xl font-bold text-purple-600">
+                {report.overall.timeToHire.medianDays === null ? "—" : `${report.overall.timeToHire.medianDays} days`}
+              </div>
+              <div className="text-xs text-gray-500">Median time to hire</div>
+            </div>
+          </div>
+
+          <section className="rounded-lg border p-6 space-y-3">
+            <h2 className="font-semibold text-gray-900">Funnel</h2>
+            <FunnelBars metrics={report.overall} />
+          </section>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <section className="rounded-lg border p-6 space-y-3">
+              <h2 className="font-semibold text-gray-900">Median time in each status</h2>
+              <table className="w-full text-sm">
+                <tbody>
+                  {report.overall.stageDurations.map((duration) => (
+                    <tr key={duration.status} className="border-b last:border-0">
+                      <td className="py-2 text-gray-700">{duration.label}</td>
+                      <td className="py-2 text-right font-medium">{formatHours(duration.medianHours)}</td>
+                      <td className="py-2 text-right text-gray-500">
+                        {duration.samples} {duration.samples === 1 ? "move" : "moves"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+
+            <section className="rounded-lg border p-6 space-y-3">
+              <h2 className="font-semibold text-gray-900">Sources</h2>
+              {report.overall.sources.length === 0 ? (
+                <p className="text-sm text-gray-500">No applications in this range.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 font-medium">Source</th>
+                      <th className="py-2 font-medium text-right">Applications</th>
+                      <th className="py-2 font-medium text-right">Hired</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.overall.sources.map((source) => (
+                      <tr key={source.source} className="border-b last:border-0">
+                        <td className="py-2 text-gray-700">{source.source}</td>
+                        <td className="py-2 text-right">{source.applications}</td>
+                        <td className="py-2 text-right">{source.hired}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+          </div>
+
+          <section className="rounded-lg border p-6 space-y-3">
+            <h2 className="font-semibold text-gray-900">Applicant volume</h2>
+            <div className="flex items-end gap-1 h-40">
+              {report.volume.map((point) => (
+                <div
+                  key={point.period}
+                  className="flex-1 min-w-[2px] rounded-t bg-purple-400"
+                  style={{ height: `${(point.applications / peak) * 100}%` }}
+                  title={`${point.period}: ${point.applications} ${point.applications === 1 ? "application" : "applications"}`}
+                />
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-gray-500">
+              <span>{report.volume[0]?.period}</span>
+              <span>{report.volume[report.volume.length - 1]?.period}</span>
+            </div>
+          </section>
+
+          <section className="rounded-lg border p-6 space-y-3">
+            <h2 className="font-semibold text-gray-900">By job</h2>
+            <MetricsTable
+              rows={report.jobs.map((job) => ({
+                key: job.jobId,
+                name: <Link href={`/recruiter/jobs/${job.jobId}`} className="hover:underline">{job.title}</Link>,
+                metrics: job,
+              }))}
+            />
+          </section>
+
+          <section className="rounded-lg border p-6 space-y-3">
+            <h2 className="font-semibold text-gray-900">By recruiter</h2>
+            <MetricsTable
+              rows={report.recruiters.map((recruiter) => ({
+                key: recruiter.recruiterId,
+                name: `${recruiter.name} (${recruiter.jobs} ${recruiter.jobs === 1 ? "job" : "jobs"})`,
+                metrics: recruiter,
+              }))}
+            />
+          </section>
+        </div>
+      )}
+    </div>
+  );
+}
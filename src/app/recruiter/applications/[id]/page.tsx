@@ -3,9 +3,30 @@
 import { useEffect, useState } from "react";
 import { useRouter, useParams } from "next/navigation";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { ArrowLeft, Mail, Phone, Linkedin, Github, Globe, FileText, Calendar, Briefcase, GraduationCap, Award } from "lucide-react";
+import { ArrowLeft, Mail, Phone, Linkedin, Github, Globe, FileText, Calendar, Briefcase, GraduationCap, Award, History, Flag } from "lucide-react";
 import { supabase } from "@/lib/supabaseClient";
+import type { JobRequirements, KnockoutResult, PipelineStage } from "@/lib/types/database";
+import { formatAnswer, isFileAnswer } from "@/lib/supplemental-questions";
+import type { SupplementalQuestion } from "@/lib/supplemental-questions";
+import InterviewScheduler from "@/components/recruiter/InterviewScheduler";
+import OfferPanel from "@/components/recruiter/OfferPanel";
+import ScorecardPanel from "@/components/recruiter/ScorecardPanel";
+import ApplicationNotes from "@/components/recruiter/ApplicationNotes";
+import MessageThread from "@/components/messages/MessageThread";
+import type { ApplicationScorecards } from "@/lib/scorecards";
+
+type StatusHistoryEntry = {
+  id: string;
+  fromStatus: string | null;
+  toStatus: string;
+  fromStageName: string | null;
+  toStageName: string | null;
+  actorRole: "candidate" | "recruiter" | "system";
+  reason: string | null;
+  createdAt: string;
+};
 
 type ApplicationDetail = {
   application: {
@@ -13,11 +34,17 @@ type ApplicationDetail = {
     jobId: string;
     candidateId: string;
     status: string;
+    stageId: string | null;
+    stageName: string | null;
     resumeUrl: string | null;
     coverLetter: string | null;
     supplementalAnswers: Record<string, any> | null;
+    flagged: boolean;
+    knockoutResults: KnockoutResult[];
     appliedAt: string;
     updatedAt: string;
+    allowedStageIds: string[];
+    statusHistory: StatusHistoryEntry[];
   };
   job: {
     id: string;
@@ -26,9 +53,12 @@ type ApplicationDetail = {
     location: string;
     description: string | null;
     salaryRange: string | null;
-    requirements: Record<string, any> | null;
+    requirements: JobRequirements;
+    supplementalQuestions: SupplementalQuestion[];
     status: string;
+    pipelineStages: PipelineStage[];
   };
+  scorecards: ApplicationScorecards & { canSubmit: boolean };
   candidate: {
     userId: string;
     name: string;
@@ -55,6 +85,8 @@ export default function ApplicationDetailPage() {
   const [loading, setLoading] = useState(true);
   const [updating, setUpdating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [stageReason, setStageReason] = useState("");
+  const [stageError, setStageError] = useState<string | null>(null);
 
   // Monitor authentication state
   useEffect(() => {
@@ -95,27 +127,32 @@ export default function ApplicationDetailPage() {
     }
   }, [applicationId]);
 
-  const updateStatus = async (newStatus: string) => {
+  const reloadApplication = async () => {
+    const refreshed = await fetch(`/api/applications/${applicationId}`);
+    if (refreshed.ok) {
+      setData(await refreshed.json());
+    }
+  };
+
+  const updateStage = async (stageId: string) => {
     if (!data) return;
     
     setUpdating(true);
+    setStageError(null);
     try {
       const response = await fetch(`/api/applications/${applicationId}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify({ stageId, reason: stageReason.trim() || undefined }),
       });
 
       if (response.ok) {
-        setData({
-          ...data,
-          application: {
-            ...data.application,
-            status: newStatus,
-          },
-        });
+        setStageReason("");
+        // Reload so the timeline and allowed moves reflect the change
+        await reloadApplication();
       } else {
-        console.error("Failed to update status");
+        const body = await response.json().catch(() => ({}));
+        setStageError(body.message || body.error || "Failed to update status");
       }
     } catch (error) {
       console.error("Error updating status:", error);
@@ -201,28 +238,45 @@ export default function ApplicationDetailPage() {
         </div>
         <div className="flex items-center gap-3">
           <span className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(application.status)}`}>
-            {application.status}
+            {application.stageName ?? application.status}
           </span>
+          <Input
+            value={stageReason}
+            onChange={(e) => setStageReason(e.target.value)}
+            placeholder="Reason (optional)"
+            maxLength={500}
+            className="w-48"
+            disabled={updating || application.allowedStageIds.length === 0}
+          />
           <Select
-            value={application.status}
-            onValueChange={updateStatus}
-            disabled={updating}
+            value={application.stageId ?? ""}
+            onValueChange={updateStage}
+            disabled={updating || application.allowedStageIds.length === 0}
           >
             <SelectTrigger className="w-48">
-              <SelectValue />
+              <SelectValue placeholder="Move to stage..." />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="Applied">Applied</SelectItem>
-              <SelectItem value="Under Review">Under Review</SelectItem>
-              <SelectItem value="Interview">Interview</SelectItem>
-              <SelectItem value="Offer">Offer</SelectItem>
-              <SelectItem value="Hired">Hired</SelectItem>
-              <SelectItem value="Rejected">Rejected</SelectItem>
+              {job.pipelineStages.map((stage) => (
+                <SelectItem
+                  key={stage.id}
+                  value={stage.id}
+                  disabled={stage.id !== application.stageId && !application.allowedStageIds.includes(stage.id)}
+                >
+                  {stage.name}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
       </div>
 
+      {stageError && (
+        <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+          {stageError}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Left Column - Candidate Info */}
         <div className="lg:col-span-2 space-y-6">
@@ -291,9 +345,9 @@ export default function ApplicationDetailPage() {
                   Portfolio
                 </a>
               )}
-              {candidate.resumeUrl && (
+              {(application.resumeUrl || candidate.resumeUrl) && (
                 <a
-                  href={candidate.resumeUrl}
+                  href={application.resumeUrl || candidate.resumeUrl || undefined}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="flex items-center gap-2 px-3 py-2 bg-green-50 text-green-700 rounded-lg hover:bg-green-100 transition-colors"
@@ -383,6 +437,26 @@ export default function ApplicationDetailPage() {
             </div>
           )}
 
+          {/* Knockout Questions */}
+          {application.knockoutResults.length > 0 && (
+            <div className="bg-orange-50 rounded-xl border border-orange-200 p-6 shadow-sm">
+              <h3 className="text-lg font-semibold mb-3 flex items-center gap-2 text-orange-900">
+                <Flag className="h-5 w-5" />
+                Failed Knockout Questions
+              </h3>
+              <ul className="space-y-2">
+                {application.knockoutResults.map((result) => (
+                  <li key={result.question_id} className="text-sm text-orange-900">
+                    <span className="font-medium">{result.question}</span>: {formatAnswer(result.answer)}
+                    <span className="ml-2 text-xs uppercase tracking-wide text-orange-700">
+                      {result.action === "reject" ? "Auto-rejected" : "Flagged"}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Supplemental Answers */}
           {application.supplementalAnswers && Object.keys(application.supplementalAnswers).length > 0 && (
             <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
@@ -390,20 +464,29 @@ export default function ApplicationDetailPage() {
               <div className="space-y-4">
                 {Object.entries(application.supplementalAnswers).map(([questionId, answer], index) => {
                   // Find the actual question text from job's supplemental questions
-                  const supplementalQuestions = (job as any).supplementalQuestions || [];
-                  const questionObj = supplementalQuestions.find((q: any) => q.id === questionId);
+                  const questionObj = job.supplementalQuestions.find((q) => q.id === questionId);
                   const questionText = questionObj?.question || questionId;
                   
                   return (
                     <div key={index} className="border-b border-gray-100 pb-4 last:border-0">
                       <p className="font-medium text-gray-700 mb-2">{questionText}</p>
-                      <p className="text-gray-600">{String(answer)}</p>
+                      {isFileAnswer(answer) ? (
+                        <a href={answer.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                          {answer.name}
+                        </a>
+                      ) : (
+                        <p className="text-gray-600 whitespace-pre-wrap">{formatAnswer(answer)}</p>
+                      )}
                     </div>
                   );
                 })}
               </div>
             </div>
           )}
+
+          <MessageThread applicationId={application.id} />
+
+          <ApplicationNotes applicationId={application.id} />
         </div>
 
         {/* Right Column - Job Info */}
@@ -430,6 +513,18 @@ export default function ApplicationDetailPage() {
                   <p className="font-medium">{job.salaryRange}</p>
                 </div>
               )}
+              {job.requirements.requiredSkills.length > 0 && (
+                <div>
+                  <p className="text-sm text-gray-500">Required Skills</p>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {job.requirements.requiredSkills.map((skill) => (
+                      <span key={skill} className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded text-xs">
+                        {skill}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
               <div>
                 <p className="text-sm text-gray-500">Job Status</p>
                 <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${
@@ -448,6 +543,12 @@ export default function ApplicationDetailPage() {
             </Button>
           </div>
 
+          <InterviewScheduler applicationId={application.id} inInterviewStage={application.status === "Interview"} />
+
+          <OfferPanel applicationId={application.id} inOfferStage={application.status === "Offer"} />
+
+          <ScorecardPanel applicationId={application.id} scorecards={data.scorecards} onChange={reloadApplication} />
+
           {/* Application Timeline */}
           <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
             <h3 className="text-lg font-semibold mb-4">Timeline</h3>
@@ -467,6 +568,32 @@ export default function ApplicationDetailPage() {
                 </div>
               )}
             </div>
+
+            {application.statusHistory.length > 0 && (
+              <div className="mt-6 pt-4 border-t border-gray-100">
+                <div className="flex items-center gap-2 text-gray-700 font-semibold mb-3">
+                  <History className="h-4 w-4" />
+                  Status History
+                </div>
+                <ol className="space-y-3">
+                  {application.statusHistory.map((event) => (
+                    <li key={event.id} className="border-l-2 border-purple-200 pl-3">
+                      <p className="text-sm font-medium">
+                        {event.fromStatus
+                          ? `${event.fromStageName ?? event.fromStatus} → ${event.toStageName ?? event.toStatus}`
+                          : `Applied${event.toStageName && event.toStageName !== "Applied" ? ` (${event.toStageName})` : ""}`}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {new Date(event.createdAt).toLocaleString()} · by {event.actorRole}
+                      </p>
+                      {event.reason && (
+                        <p className="text-sm text-gray-600 mt-1">{event.reason}</p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -1,128 +1,34 @@
 "use client";
 
-import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Plus, X, ArrowLeft } from "lucide-react";
-import { SupplementalQuestion } from "@/lib/applications";
+import { ArrowLeft } from "lucide-react";
+import JobForm, { type JobFormIntent, type JobFormValues } from "@/components/recruiter/JobForm";
 
 export default function CreateJobPage() {
   const router = useRouter();
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  
-  // Job form data
-  const [title, setTitle] = useState("");
-  const [company, setCompany] = useState("");
-  const [location, setLocation] = useState("");
-  const [description, setDescription] = useState("");
-  
-  // Supplemental questions
-  const [supplementalQuestions, setSupplementalQuestions] = useState<SupplementalQuestion[]>([]);
 
-  const addQuestion = () => {
-    const newQuestion: SupplementalQuestion = {
-      id: `q-${Date.now()}`,
-      question: "",
-      type: "text",
-      required: false,
-    };
-    setSupplementalQuestions([...supplementalQuestions, newQuestion]);
-  };
-
-  const updateQuestion = (id: string, updates: Partial<SupplementalQuestion>) => {
-    setSupplementalQuestions(prev =>
-      prev.map(q => q.id === id ? { ...q, ...updates } : q)
-    );
-  };
-
-  const removeQuestion = (id: string) => {
-    setSupplementalQuestions(prev => prev.filter(q => q.id !== id));
-  };
-
-  const addOption = (questionId: string) => {
-    setSupplementalQuestions(prev =>
-      prev.map(q => 
-        q.id === questionId 
-          ? { ...q, options: [...(q.options || []), ""] }
-          : q
-      )
-    );
-  };
-
-  const updateOption = (questionId: string, optionIndex: number, value: string) => {
-    setSupplementalQuestions(prev =>
-      prev.map(q => 
-        q.id === questionId 
-          ? { 
-              ...q, 
-              options: q.options?.map((opt, idx) => idx === optionIndex ? value : opt) 
-            }
-          : q
-      )
-    );
-  };
-
-  const removeOption = (questionId: string, optionIndex: number) => {
-    setSupplementalQuestions(prev =>
-      prev.map(q => 
-        q.id === questionId 
-          ? { 
-              ...q, 
-              options: q.options?.filter((_, idx) => idx !== optionIndex) 
-            }
-          : q
-      )
-    );
-  };
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setLoading(true);
-    setError(null);
-
-    try {
-      // Validate form
-      if (!title.trim() || !company.trim() || !location.trim()) {
-        throw new Error("Please fill in all required fields");
-      }
+  const handleSubmit = async (values: JobFormValues, intent: JobFormIntent) => {
+    const response = await fetch("/api/jobs", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...values, status: intent === "draft" ? "draft" : "open" }),
+    });
 
-      // Validate supplemental questions
-      for (const question of supplementalQuestions) {
-        if (!question.question.trim()) {
-          throw new Error("All supplemental questions must have text");
-        }
-        if (question.type === "select" && (!question.options || question.options.length === 0)) {
-          throw new Error("Select questions must have at least one option");
-        }
-      }
-
-      const response = await fetch("/api/jobs", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          title: title.trim(),
-          company: company.trim(),
-          location: location.trim(),
-          description: description.trim(),
-          supplementalQuestions: supplementalQuestions.filter(q => q.question.trim()),
-        }),
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || "Failed to create job");
-      }
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.error || "Failed to create job");
+    }
 
-      // Redirect back to recruiter dashboard
-      router.push("/recruiter");
-    } catch (err: any) {
-      setError(err.message || "Failed to create job");
-    } finally {
-      setLoading(false);
+    // Drafts open on their job page so they can be reviewed and published
+    if (intent === "draft") {
+      const job = await response.json();
+      router.push(`/recruiter/jobs/${job.id}`);
+      return;
     }
+
+    // Redirect back to recruiter dashboard
+    router.push("/recruiter");
   };
 
   return (
@@ -148,240 +54,13 @@ export default function CreateJobPage() {
         </div>
       </div>
 
-      <form onSubmit={handleSubmit} className="space-y-8">
-        {/* Basic Job Information */}
-        <div className="bg-white rounded-xl border border-gray-200 p-6 sm:p-8 shadow-sm space-y-6">
-          <div className="flex items-center gap-3">
-            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-blue-500 to-blue-600 flex items-center justify-center">
-              <svg className="w-5 h-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-              </svg>
-            </div>
-            <h2 className="text-xl font-bold text-gray-900">Job Information</h2>
-          </div>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <label htmlFor="title" className="text-sm font-semibold text-gray-700">
-                Job Title *
-              </label>
-              <Input
-                id="title"
-                value={title}
-                onChange={(e) => setTitle(e.target.value)}
-                placeholder="e.g., Senior Frontend Engineer"
-                className="h-11 rounded-lg"
-                required
-              />
-            </div>
-            <div className="space-y-2">
-              <label htmlFor="company" className="text-sm font-semibold text-gray-700">
-                Company *
-              </label>
-              <Input
-                id="company"
-                value={company}
-                onChange={(e) => setCompany(e.target.value)}
-                placeholder="e.g., Acme Corp"
-                className="h-11 rounded-lg"
-                required
-              />
-            </div>
-            <div className="space-y-2">
-              <label htmlFor="location" className="text-sm font-semibold text-gray-700">
-                Location *
-              </label>
-              <Input
-                id="location"
-                value={location}
-                onChange={(e) => setLocation(e.target.value)}
-                placeholder="e.g., Remote, New York, NY"
-                className="h-11 rounded-lg"
-                required
-              />
-            </div>
-          </div>
-          <div className="space-y-2">
-            <label htmlFor="description" className="text-sm font-semibold text-gray-700">
-              Job Description
-            </label>
-            <textarea
-              id="description"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              placeholder="Describe the role, responsibilities, and requirements..."
-              className="w-full min-h-[120px] px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-vertical text-sm"
-            />
-          </div>
-        </div>
-
-        {/* Supplemental Questions */}
-        <div className="bg-white rounded-xl border border-gray-200 p-6 sm:p-8 shadow-sm space-y-6">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-3">
-              <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-purple-500 to-purple-600 flex items-center justify-center">
-                <svg className="w-5 h-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                </svg>
-              </div>
-              <h2 className="text-xl font-bold text-gray-900">Supplemental Questions</h2>
-            </div>
-            <Button
-              type="button"
-              variant="outline"
-              size="sm"
-              onClick={addQuestion}
-              className="flex items-center gap-2 rounded-lg hover:bg-blue-50 hover:border-blue-300"
-            >
-              <Plus className="h-4 w-4" />
-              Add Question
-            </Button>
-          </div>
-          
-          {supplementalQuestions.length === 0 ? (
-            <div className="text-center py-8">
-              <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-gray-100 mb-3">
-                <svg className="w-6 h-6 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                </svg>
-              </div>
-              <p className="text-sm text-gray-600 font-medium">
-                No supplemental questions added
-              </p>
-              <p className="text-xs text-gray-500 mt-1">
-                Click "Add Question" to create custom questions for candidates
-              </p>
-            </div>
-          ) : (
-            <div className="space-y-4">
-              {supplementalQuestions.map((question, index) => (
-                <div key={question.id} className="bg-gray-50 border border-gray-200 rounded-xl p-5 space-y-4 hover:border-blue-200 transition-colors">
-                  <div className="flex items-center justify-between">
-                    <h3 className="font-medium">Question {index + 1}</h3>
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => removeQuestion(question.id)}
-                      className="text-red-600 hover:text-red-700"
-                    >
-                      <X className="h-4 w-4" />
-                    </Button>
-                  </div>
-                  
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <label className="text-sm font-medium">Question Text</label>
-                      <Input
-                        value={question.question}
-                        onChange={(e) => updateQuestion(question.id, { question: e.target.value })}
-                        placeholder="Enter your question..."
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <label className="text-sm font-medium">Question Type</label>
-                      <Select
-                        value={question.type}
-                        onValueChange={(value) => updateQuestion(question.id, { 
-                          type: value as SupplementalQuestion["type"],
-                          options: value === "select" ? [""] : undefined
-                        })}
-                      >
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="text">Short Text</SelectItem>
-                          <SelectItem value="textarea">Long Text</SelectItem>
-                          <SelectItem value="select">Multiple Choice</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                  </div>
-
-                  {question.type === "select" && (
-                    <div className="space-y-2">
-                      <div className="flex items-center justify-between">
-                        <label className="text-sm font-medium">Options</label>
-                        <Button
-                          type="button"
-                          variant="outline"
-                          size="sm"
-                          onClick={() => addOption(question.id)}
-                        >
-                          Add Option
-                        </Button>
-                      </div>
-                      <div className="space-y-2">
-                        {question.options?.map((option, optionIndex) => (
-                          <div key={optionIndex} className="flex items-center gap-2">
-                            <Input
-                              value={option}
-                              onChange={(e) => updateOption(question.id, optionIndex, e.target.value)}
-                              placeholder={`Option ${optionIndex + 1}`}
-                            />
-                            <Button
-                              type="button"
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => removeOption(question.id, optionIndex)}
-                              className="text-red-600 hover:text-red-700"
-                            >
-                              <X className="h-4 w-4" />
-                            </Button>
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                  )}
-
-                  <div className="flex items-center gap-2">
-                    <input
-                      type="checkbox"
-                      id={`required-${question.id}`}
-                      checked={question.required}
-                      onChange={(e) => updateQuestion(question.id, { required: e.target.checked })}
-                      className="rounded"
-                    />
-                    <label htmlFor={`required-${question.id}`} className="text-sm">
-                      Required question
-                    </label>
-                  </div>
-                </div>
-              ))}
-            </div>
-          )}
-        </div>
-
-        {error && (
-          <div className="p-4 bg-red-50 border border-red-200 rounded-xl">
-            <div className="flex items-center gap-2">
-              <svg className="w-5 h-5 text-red-600 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-              </svg>
-              <p className="text-sm text-red-600 font-medium">{error}</p>
-            </div>
-          </div>
-        )}
-
-        <div className="flex flex-col sm:flex-row justify-end gap-3 pt-4">
-          <Button
-            type="button"
-            variant="outline"
-            onClick={() => router.back()}
-            disabled={loading}
-            className="h-11 rounded-lg"
-          >
-            Cancel
-          </Button>
-          <Button 
-            type="submit" 
-            disabled={loading}
-            className="h-11 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 text-white font-semibold rounded-lg shadow-md hover:shadow-lg transition-all"
-          >
-            {loading ? "Creating..." : "Create Job"}
-          </Button>
-        </div>
-      </form>
+      <JobForm
+        submitLabel="Create Job"
+        submittingLabel="Creating..."
+        draftLabel="Save as Draft"
+        onSubmit={handleSubmit}
+        onCancel={() => router.back()}
+      />
     </div>
   );
 }
@@ -5,17 +5,30 @@ import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { ArrowLeft } from "lucide-react";
+import { ArrowLeft, Flag, Pencil, Trash2 } from "lucide-react";
 import { supabase } from "@/lib/supabaseClient";
+import type { JobRequirements, JobStatus, KnockoutResult, PipelineStage, SalaryPeriod, ScorecardCompetency } from "@/lib/types/database";
+import type { SupplementalQuestion } from "@/lib/supplemental-questions";
+import JobForm, { type JobFormValues } from "@/components/recruiter/JobForm";
+import BulkActionBar from "@/components/recruiter/BulkActionBar";
+import type { BulkItemResult } from "@/lib/bulk-actions";
+import { currentStage, DEFAULT_PIPELINE, toDbStatus } from "@/lib/pipeline";
+import { canMoveToStage } from "@/lib/status-transitions";
+import type { MatchResult } from "@/lib/matching";
 
 type Application = {
   id: string;
   job_id: string;
   candidate_id: string | null;
   status: string;
+  stage_id: string | null;
   resume_url: string | null;
   cover_letter: string | null;
   supplemental_answers: Record<string, unknown> | null;
+  flagged?: boolean;
+  knockout_results?: KnockoutResult[] | null;
+  match?: MatchResult | null;
+  tags?: string[];
   applied_at: string;
   candidate: {
     name: string;
@@ -33,9 +46,50 @@ type Job = {
   title: string;
   company: string;
   location: string;
-  status: string;
+  description: string | null;
+  salary_min: number | null;
+  salary_max: number | null;
+  salary_currency: string | null;
+  salary_period: SalaryPeriod | null;
+  status: JobStatus;
+  requirements?: JobRequirements;
+  supplementalQuestions?: SupplementalQuestion[];
+  pipelineStages?: PipelineStage[];
+  scorecardCompetencies?: ScorecardCompetency[];
+};
+
+// Status actions offered for each job status
+const JOB_STATUS_ACTIONS: Record<JobStatus, { label: string; status: JobStatus }[]> = {
+  draft: [{ label: "Publish", status: "open" }],
+  open: [{ label: "Close Job", status: "closed" }],
+  closed: [{ label: "Reopen", status: "open" }],
+};
+
+const JOB_STATUS_BADGES: Record<JobStatus, string> = {
+  draft: "bg-gray-100 text-gray-800",
+  open: "bg-green-100 text-green-800",
+  closed: "bg-red-100 text-red-800",
 };
 
+type ApplicationSort = "newest" | "match";
+
+// Applications without a score sort last
+const matchScore = (app: Application) => app.match?.score ?? -1;
+
+function matchBadgeColor(score: number) {
+  if (score >= 75) return "bg-green-100 text-green-800";
+  if (score >= 50) return "bg-yellow-100 text-yellow-800";
+  return "bg-gray-100 text-gray-700";
+}
+
+// Tooltip explaining a match score
+function matchTooltip(match: MatchResult) {
+  const lines = match.components.map((c) => c.detail);
+  if (match.matchedSkills.length > 0) lines.push(`Matched: ${match.matchedSkills.join(", ")}`);
+  if (match.missingSkills.length > 0) lines.push(`Missing: ${match.missingSkills.join(", ")}`);
+  return lines.join("\n");
+}
+
 export default function JobApplicationsPage() {
   const params = useParams();
   const router = useRouter();
@@ -46,6 +100,12 @@ export default function JobApplicationsPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [updating, setUpdating] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [stageFilter, setStageFilter] = useState<string | null>(null);
+  const [sortBy, setSortBy] = useState<ApplicationSort>("newest");
+  const [editing, setEditing] = useState(false);
+  const [jobAction, setJobAction] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
 
   // Monitor authentication state and redirect on sign-out
   useEffect(() => {
@@ -111,47 +171,25 @@ export default function JobApplicationsPage() {
     };
   }, [jobId, router]);
 
-  // Helper to convert DB format to API format
-  const toApiFormat = (dbStatus: string): string => {
-    const map: Record<string, string> = {
-      "applied": "Applied",
-      "under_review": "Under Review",
-      "interview": "Interview",
-      "offer": "Offer",
-      "hired": "Hired",
-      "rejected": "Rejected",
-    };
-    return map[dbStatus] || dbStatus;
-  };
-
-  // Helper to convert API format to DB format
-  const toDbFormat = (apiStatus: string): string => {
-    const map: Record<string, string> = {
-      "Applied": "applied",
-      "Under Review": "under_review",
-      "Interview": "interview",
-      "Offer": "offer",
-      "Hired": "hired",
-      "Rejected": "rejected",
-    };
-    return map[apiStatus] || apiStatus;
-  };
+  const stages = job?.pipelineStages && job.pipelineStages.length > 0 ? job.pipelineStages : DEFAULT_PIPELINE;
 
-  const updateStatus = async (applicationId: string, newStatus: string) => {
+  const updateStage = async (applicationId: string, stageId: string) => {
     setUpdating(applicationId);
     try {
       const response = await fetch(`/api/applications/${applicationId}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify({ stageId }),
       });
 
       if (response.ok) {
-        // Convert back to DB format for local state
-        const dbStatus = toDbFormat(newStatus);
+        // Status mirrors the outcome of the new stage
+        const stage = stages.find((s) => s.id === stageId);
         setApplications((prev) =>
           prev.map((app) =>
-            app.id === applicationId ? { ...app, status: dbStatus } : app
+            app.id === applicationId
+              ? { ...app, stage_id: stageId, status: stage?.status ?? app.status }
+              : app
           )
         );
       } else {
@@ -164,6 +202,90 @@ export default function JobApplicationsPage() {
     }
   };
 
+  // Apply a bulk action's results to the rows; failed rows stay selected
+  const applyBulkResults = (
+    action: "move" | "reject" | "tag",
+    results: BulkItemResult[],
+    tagChange?: { tags: string[]; remove: boolean }
+  ) => {
+    const done = new Map(results.filter((r) => r.ok).map((r) => [r.applicationId, r]));
+    setApplications((prev) =>
+      prev.map((app) => {
+        const result = done.get(app.id);
+        if (!result || !result.ok) return app;
+        if (action === "tag" && tagChange) {
+          const tags = new Set(app.tags ?? []);
+          for (const tag of tagChange.tags) {
+            if (tagChange.remove) tags.delete(tag);
+            else tags.add(tag);
+          }
+          return { ...app, tags: [...tags].sort() };
+        }
+        return { ...app, stage_id: result.stageId ?? app.stage_id, status: result.status ?? app.status };
+      })
+    );
+    setSelected(results.filter((r) => !r.ok).map((r) => r.applicationId));
+  };
+
+  const toggleSelected = (applicationId: string) => {
+    setSelected((prev) => (prev.includes(applicationId) ? prev.filter((id) => id !== applicationId) : [...prev, applicationId]));
+  };
+
+  const visibleApplications = applications.filter((app) => !stageFilter || currentStage(stages, app)?.id === stageFilter);
+  const allVisibleSelected = visibleApplications.length > 0 && visibleApplications.every((app) => selected.includes(app.id));
+
+  const saveJob = async (values: JobFormValues) => {
+    const response = await fetch(`/api/jobs/${jobId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(values),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.message || data.error || "Failed to update job");
+    }
+    setJob(data);
+    setEditing(false);
+  };
+
+  const changeJobStatus = async (status: JobStatus) => {
+    setJobAction(status);
+    setActionError(null);
+    try {
+      const response = await fetch(`/api/jobs/${jobId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Failed to update job status");
+      }
+      setJob(data);
+    } catch (err: unknown) {
+      setActionError(err instanceof Error ? err.message : "Failed to update job status");
+    } finally {
+      setJobAction(null);
+    }
+  };
+
+  const deleteJob = async () => {
+    if (!window.confirm("Delete this job? This can't be undone.")) return;
+    setJobAction("delete");
+    setActionError(null);
+    try {
+      const response = await fetch(`/api/jobs/${jobId}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || data.error || "Failed to delete job");
+      }
+      router.push("/recruiter/jobs");
+    } catch (err: unknown) {
+      setActionError(err instanceof Error ? err.message : "Failed to delete job");
+      setJobAction(null);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
       case "applied":
@@ -250,145 +372,300 @@ export default function JobApplicationsPage() {
             Back to Jobs
           </Button>
         </Link>
-        <div>
-          <h1 className="text-2xl font-semibold tracking-tight">{job.title}</h1>
-          <p className="text-sm text-muted-foreground">
-            {job.company} • {job.location} • {applications.length}{" "}
-            {applications.length === 1 ? "application" : "applications"}
-          </p>
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-3">
+              <h1 className="text-2xl font-semibold tracking-tight">{job.title}</h1>
+              <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full capitalize ${JOB_STATUS_BADGES[job.status] ?? JOB_STATUS_BADGES.draft}`}>
+                {job.status}
+              </span>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {job.company} • {job.location} • {applications.length}{" "}
+              {applications.length === 1 ? "application" : "applications"}
+            </p>
+          </div>
+          {!editing && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setEditing(true)}
+                disabled={jobAction !== null}
+                className="flex items-center gap-2"
+              >
+                <Pencil className="h-4 w-4" />
+                Edit Job
+              </Button>
+              {(JOB_STATUS_ACTIONS[job.status] ?? []).map((action) => (
+                <Button
+                  key={action.status}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => changeJobStatus(action.status)}
+                  disabled={jobAction !== null}
+                >
+                  {jobAction === action.status ? "Saving..." : action.label}
+                </Button>
+              ))}
+              {applications.length === 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={deleteJob}
+                  disabled={jobAction !== null}
+                  className="flex items-center gap-2 text-red-600 hover:text-red-700"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  {jobAction === "delete" ? "Deleting..." : "Delete"}
+                </Button>
+              )}
+            </div>
+          )}
         </div>
+        {actionError && <p className="text-sm text-red-600">{actionError}</p>}
       </div>
 
-      {/* Applications Table */}
-      {applications.length === 0 ? (
-        <div className="text-center py-16 border rounded-lg">
-          <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-gray-100 mb-4">
-            <svg className="w-8 h-8 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-            </svg>
-          </div>
-          <p className="text-base text-gray-600 font-medium">No applications yet</p>
-          <p className="text-sm text-gray-500 mt-1">
-            Applications will appear here once candidates apply to this position
-          </p>
-        </div>
+      {editing ? (
+        <JobForm
+          initialValues={job}
+          submitLabel="Save Changes"
+          submittingLabel="Saving..."
+          onSubmit={saveJob}
+          onCancel={() => setEditing(false)}
+        />
       ) : (
-        <div className="border rounded-lg overflow-hidden">
-          <div className="bg-gray-50 px-6 py-3 border-b">
-            <div className="grid grid-cols-12 gap-4 text-sm font-medium text-gray-700">
-              <div className="col-span-3">Candidate</div>
-              <div className="col-span-2">Applied Date</div>
-              <div className="col-span-2">Offer Deadline</div>
-              <div className="col-span-2">Status</div>
-              <div className="col-span-3">Actions</div>
-            </div>
-          </div>
+        <>
 
-          <div className="divide-y">
-            {applications.map((app) => {
-              const urgency = getDeadlineUrgency(app.candidate?.offer_deadline || null);
+          {/* Pipeline Board */}
+          <div className="flex gap-3 overflow-x-auto pb-1">
+            {stages.map((stage) => {
+              const count = applications.filter((app) => currentStage(stages, app)?.id === stage.id).length;
+              const active = stageFilter === stage.id;
               return (
-                <div key={app.id} className="px-6 py-4 hover:bg-gray-50">
-                  <div className="grid grid-cols-12 gap-4 items-center">
-                    <div className="col-span-3">
-                      <button
-                        onClick={() => router.push(`/recruiter/applications/${app.id}`)}
-                        className="font-medium text-left hover:text-blue-600 hover:underline transition-colors"
-                      >
-                        {app.candidate?.name || "Anonymous"}
-                      </button>
-                      <div className="text-sm text-gray-500">
-                        {app.candidate?.email || ""}
-                      </div>
-                      {app.candidate?.phone && (
-                        <div className="text-xs text-gray-500">
-                          {app.candidate.phone}
+                <button
+                  key={stage.id}
+                  onClick={() => setStageFilter(active ? null : stage.id)}
+                  className={`min-w-[120px] flex-shrink-0 rounded-lg border px-4 py-3 text-left transition-colors ${
+                    active ? "border-purple-400 bg-purple-50" : "border-gray-200 bg-white hover:bg-gray-50"
+                  }`}
+                >
+                  <div className="text-2xl font-bold text-gray-900">{count}</div>
+                  <div className="text-sm font-medium text-gray-700 truncate">{stage.name}</div>
+                  <span className={`mt-1 inline-flex px-2 py-0.5 text-[10px] font-medium rounded-full capitalize ${getStatusColor(stage.status)}`}>
+                    {stage.status.replace("_", " ")}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+
+          {applications.length > 0 && (
+            <div className="flex items-center justify-end gap-2 text-sm">
+              <span className="text-gray-600">Sort by</span>
+              <Select value={sortBy} onValueChange={(value) => setSortBy(value as ApplicationSort)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="newest">Newest</SelectItem>
+                  <SelectItem value="match">Best match</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <BulkActionBar
+            selectedIds={selected}
+            moveOptions={stages.map((s) => ({ value: s.id, label: s.name }))}
+            moveBy="stageId"
+            labelFor={(id) => applications.find((app) => app.id === id)?.candidate?.name || "Application"}
+            onResults={applyBulkResults}
+            onClear={() => setSelected([])}
+          />
+
+          {/* Applications Table */}
+          {applications.length === 0 ? (
+            <div className="text-center py-16 border rounded-lg">
+              <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-gray-100 mb-4">
+                <svg className="w-8 h-8 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                </svg>
+              </div>
+              <p className="text-base text-gray-600 font-medium">No applications yet</p>
+              <p className="text-sm text-gray-500 mt-1">
+                Applications will appear here once candidates apply to this position
+              </p>
+            </div>
+          ) : (
+            <div className="border rounded-lg overflow-hidden">
+              <div className="bg-gray-50 px-6 py-3 border-b">
+                <div className="grid grid-cols-12 gap-4 text-sm font-medium text-gray-700">
+                  <div className="col-span-3 flex items-center gap-3">
+                    <input
+                      type="checkbox"
+                      checked={allVisibleSelected}
+                      onChange={() => setSelected(allVisibleSelected ? [] : visibleApplications.map((app) => app.id))}
+                      aria-label="Select all applications"
+                    />
+                    Candidate
+                  </div>
+                  <div className="col-span-2">Applied Date</div>
+                  <div className="col-span-2">Offer Deadline</div>
+                  <div className="col-span-2">Status</div>
+                  <div className="col-span-3">Actions</div>
+                </div>
+              </div>
+
+              <div className="divide-y">
+                {visibleApplications
+                  .sort((a, b) => (sortBy === "match" ? matchScore(b) - matchScore(a) : 0))
+                  .map((app) => {
+                  const urgency = getDeadlineUrgency(app.candidate?.offer_deadline || null);
+                  const stage = currentStage(stages, app);
+                  return (
+                    <div key={app.id} className="px-6 py-4 hover:bg-gray-50">
+                      <div className="grid grid-cols-12 gap-4 items-center">
+                        <div className="col-span-3 flex items-start gap-3">
+                          <input
+                            type="checkbox"
+                            checked={selected.includes(app.id)}
+                            onChange={() => toggleSelected(app.id)}
+                            className="mt-1.5"
+                            aria-label={`Select ${app.candidate?.name || "application"}`}
+                          />
+                          <div className="min-w-0">
+                            <button
+                              onClick={() => router.push(`/recruiter/applications/${app.id}`)}
+                              className="font-medium text-left hover:text-blue-600 hover:underline transition-colors"
+                            >
+                              {app.candidate?.name || "Anonymous"}
+                            </button>
+                            {typeof app.match?.score === "number" && (
+                              <span
+                                className={`ml-2 inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${matchBadgeColor(app.match.score)}`}
+                                title={matchTooltip(app.match)}
+                              >
+                                {app.match.score}% match
+                              </span>
+                            )}
+                            <div className="text-sm text-gray-500">
+                              {app.candidate?.email || ""}
+                            </div>
+                            {app.candidate?.phone && (
+                              <div className="text-xs text-gray-500">
+                                {app.candidate.phone}
+                              </div>
+                            )}
+                            <div className="flex gap-2 mt-1">
+                              {(app.resume_url || app.candidate?.resume_url) && (
+                                <a
+                                  href={app.resume_url || app.candidate?.resume_url || undefined}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-xs text-blue-600 hover:underline"
+                                  onClick={(e) => e.stopPropagation()}
+                                >
+                                  Resume
+                                </a>
+                              )}
+                              {app.candidate?.linkedin_url && (
+                                <a
+                                  href={app.candidate.linkedin_url}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-xs text-blue-600 hover:underline"
+                                  onClick={(e) => e.stopPropagation()}
+                                >
+                                  LinkedIn
+                                </a>
+                              )}
+                              {app.candidate?.github_url && (
+                                <a
+                                  href={app.candidate.github_url}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-xs text-blue-600 hover:underline"
+                                  onClick={(e) => e.stopPropagation()}
+                                >
+                                  GitHub
+                                </a>
+                              )}
+                            </div>
+                            {app.tags && app.tags.length > 0 && (
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                {app.tags.map((tag) => (
+                                  <span key={tag} className="px-1.5 py-0.5 rounded bg-purple-100 text-purple-800 text-[11px]">{tag}</span>
+                                ))}
+                              </div>
+                            )}
+                          </div>
                         </div>
-                      )}
-                      <div className="flex gap-2 mt-1">
-                        {app.candidate?.resume_url && (
-                          <a
-                            href={app.candidate.resume_url}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-xs text-blue-600 hover:underline"
-                            onClick={(e) => e.stopPropagation()}
-                          >
-                            Resume
-                          </a>
-                        )}
-                        {app.candidate?.linkedin_url && (
-                          <a
-                            href={app.candidate.linkedin_url}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-xs text-blue-600 hover:underline"
-                            onClick={(e) => e.stopPropagation()}
+                        <div className="col-span-2 text-sm">
+                          {new Date(app.applied_at).toLocaleDateString()}
+                        </div>
+                        <div className="col-span-2">
+                          {urgency ? (
+                            <span
+                              className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${urgency.color}`}
+                            >
+                              {urgency.text}
+                            </span>
+                          ) : (
+                            <span className="text-xs text-gray-400">No deadline</span>
+                          )}
+                        </div>
+                        <div className="col-span-2">
+                          <span
+                            className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(
+                              app.status
+                            )}`}
                           >
-                            LinkedIn
-                          </a>
-                        )}
-                        {app.candidate?.github_url && (
-                          <a
-                            href={app.candidate.github_url}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-xs text-blue-600 hover:underline"
-                            onClick={(e) => e.stopPropagation()}
+                            {stage?.name ?? app.status.replace("_", " ")}
+                          </span>
+                          {app.flagged && (
+                            <span
+                              className="ml-1 inline-flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-full bg-orange-100 text-orange-800"
+                              title={(app.knockout_results ?? []).map((r) => r.question).join("\n")}
+                            >
+                              <Flag className="h-3 w-3" />
+                              Flagged
+                            </span>
+                          )}
+                        </div>
+                        <div className="col-span-3">
+                          <Select
+                            value={stage?.id ?? ""}
+                            onValueChange={(value) => updateStage(app.id, value)}
+                            disabled={updating === app.id}
                           >
-                            GitHub
-                          </a>
-                        )}
+                            <SelectTrigger className="w-full">
+                              <SelectValue placeholder="Move to stage..." />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {stages.map((s) => (
+                                <SelectItem
+                                  key={s.id}
+                                  value={s.id}
+                                  disabled={
+                                    s.id !== stage?.id &&
+                                    !canMoveToStage("recruiter", { status: toDbStatus(app.status) ?? "applied", stageId: stage?.id ?? null }, s)
+                                  }
+                                >
+                                  {s.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
                       </div>
                     </div>
-                    <div className="col-span-2 text-sm">
-                      {new Date(app.applied_at).toLocaleDateString()}
-                    </div>
-                    <div className="col-span-2">
-                      {urgency ? (
-                        <span
-                          className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${urgency.color}`}
-                        >
-                          {urgency.text}
-                        </span>
-                      ) : (
-                        <span className="text-xs text-gray-400">No deadline</span>
-                      )}
-                    </div>
-                    <div className="col-span-2">
-                      <span
-                        className={`inline-flex px-2 py-1 text-xs font-medium rounded-full capitalize ${getStatusColor(
-                          app.status
-                        )}`}
-                      >
-                        {app.status.replace("_", " ")}
-                      </span>
-                    </div>
-                    <div className="col-span-3">
-                      <Select
-                        value={toApiFormat(app.status)}
-                        onValueChange={(value) => updateStatus(app.id, value)}
-                        disabled={updating === app.id}
-                      >
-                        <SelectTrigger className="w-full">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="Applied">Applied</SelectItem>
-                          <SelectItem value="Under Review">Under Review</SelectItem>
-                          <SelectItem value="Interview">Interview</SelectItem>
-                          <SelectItem value="Offer">Offer</SelectItem>
-                          <SelectItem value="Hired">Hired</SelectItem>
-                          <SelectItem value="Rejected">Rejected</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                  </div>
-                </div>
-              );
-            })}
-          </div>
-        </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </>
       )}
     </div>
   );
@@ -120,9 +120,9 @@ export default function RecruiterJobsPage() {
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-2xl font-semibold tracking-tight">My Job Postings</h1>
+          <h1 className="text-2xl font-semibold tracking-tight">Job Postings</h1>
           <p className="text-sm text-muted-foreground">
-            Manage your job postings and view applicants
+            Manage your team&apos;s job postings and view applicants
           </p>
         </div>
         <Button
@@ -0,0 +1,18 @@
+"use client";
+
+import { Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import MessageInbox from "@/components/messages/MessageInbox";
+
+function RecruiterMessages() {
+  const searchParams = useSearchParams();
+  return <MessageInbox initialApplicationId={searchParams.get("application")} />;
+}
+
+export default function RecruiterMessagesPage() {
+  return (
+    <Suspense fallback={<p className="text-sm text-gray-600">Loading messages...</p>}>
+      <RecruiterMessages />
+    </Suspense>
+  );
+}
@@ -7,19 +7,28 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Plus } from "lucide-react";
 import { supabase } from "@/lib/supabaseClient";
+import type { PipelineStage } from "@/lib/types/database";
+import { APPLICATION_STATUSES, resolvePipeline, STATUS_LABELS, toDbStatus, toStatusLabel } from "@/lib/pipeline";
+import { canMoveToStage } from "@/lib/status-transitions";
+import BulkActionBar from "@/components/recruiter/BulkActionBar";
+import type { BulkItemResult } from "@/lib/bulk-actions";
 
 type Job = {
   id: string;
   title: string;
   company: string;
   location: string;
+  pipeline_stages?: PipelineStage[] | null;
 };
 
 type Application = {
   id: string;
   jobId: string;
   status: "Applied" | "Under Review" | "Interview" | "Offer" | "Hired" | "Rejected";
+  stageId: string | null;
+  stageName: string | null;
   appliedAt: string;
+  tags?: string[];
   candidateInfo?: {
     name: string;
     email: string;
@@ -32,6 +41,9 @@ type ApplicationWithJob = Application & {
   job: Job;
 };
 
+// Bulk moves across jobs pick each job's first stage with the chosen outcome
+const BULK_MOVE_OPTIONS = APPLICATION_STATUSES.map((status) => ({ value: status, label: STATUS_LABELS[status] }));
+
 export default function RecruiterPage() {
   const router = useRouter();
   const [applications, setApplications] = useState<ApplicationWithJob[]>([]);
@@ -40,6 +52,7 @@ export default function RecruiterPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [updating, setUpdating] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
   const [isMounted, setIsMounted] = useState(false);
 
   useEffect(() => {
@@ -162,19 +175,22 @@ export default function RecruiterPage() {
     });
   }, [applications, searchQuery, statusFilter, isMounted]);
 
-  const updateStatus = async (applicationId: string, newStatus: Application["status"]) => {
+  const updateStage = async (applicationId: string, stageId: string) => {
     setUpdating(applicationId);
     try {
       const response = await fetch(`/api/applications/${applicationId}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify({ stageId }),
       });
       
       if (response.ok) {
+        const updated = await response.json();
         setApplications(prev => 
           prev.map(app => 
-            app.id === applicationId ? { ...app, status: newStatus } : app
+            app.id === applicationId
+              ? { ...app, status: updated.status, stageId: updated.stageId, stageName: updated.stageName }
+              : app
           )
         );
       } else {
@@ -188,6 +204,37 @@ export default function RecruiterPage() {
     }
   };
 
+  // Apply a bulk action's results to the rows; failed rows stay selected
+  const applyBulkResults = (
+    action: "move" | "reject" | "tag",
+    results: BulkItemResult[],
+    tagChange?: { tags: string[]; remove: boolean }
+  ) => {
+    const done = new Map(results.filter((r) => r.ok).map((r) => [r.applicationId, r]));
+    setApplications(prev =>
+      prev.map(app => {
+        const result = done.get(app.id);
+        if (!result || !result.ok) return app;
+        if (action === "tag" && tagChange) {
+          const tags = new Set(app.tags ?? []);
+          for (const tag of tagChange.tags) {
+            if (tagChange.remove) tags.delete(tag);
+            else tags.add(tag);
+          }
+          return { ...app, tags: [...tags].sort() };
+        }
+        return { ...app, status: toStatusLabel(result.status), stageId: result.stageId ?? null, stageName: result.stageName ?? null };
+      })
+    );
+    setSelected(results.filter((r) => !r.ok).map((r) => r.applicationId));
+  };
+
+  const toggleSelected = (applicationId: string) => {
+    setSelected(prev => (prev.includes(applicationId) ? prev.filter(id => id !== applicationId) : [...prev, applicationId]));
+  };
+
+  const allFilteredSelected = filteredApplications.length > 0 && filteredApplications.every(app => selected.includes(app.id));
+
   const getStatusColor = (status: Application["status"]) => {
     switch (status) {
       case "Applied": return "bg-blue-100 text-blue-800";
@@ -272,11 +319,28 @@ export default function RecruiterPage() {
         </Select>
       </div>
 
+      <BulkActionBar
+        selectedIds={selected}
+        moveOptions={BULK_MOVE_OPTIONS}
+        moveBy="status"
+        labelFor={(id) => applications.find(app => app.id === id)?.candidateInfo?.name || "Application"}
+        onResults={applyBulkResults}
+        onClear={() => setSelected([])}
+      />
+
       {/* Applications Table */}
       <div className="border border-gray-200 rounded-xl overflow-hidden bg-white shadow-sm">
         <div className="bg-gradient-to-r from-gray-50 to-gray-100 px-6 py-4 border-b border-gray-200">
           <div className="grid grid-cols-12 gap-4 text-sm font-semibold text-gray-700">
-            <div className="col-span-2">Candidate</div>
+            <div className="col-span-2 flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={allFilteredSelected}
+                onChange={() => setSelected(allFilteredSelected ? [] : filteredApplications.map(app => app.id))}
+                aria-label="Select all applications"
+              />
+              Candidate
+            </div>
             <div className="col-span-2">Job Title</div>
             <div className="col-span-2">Applied Date</div>
             <div className="col-span-2">Offer Deadline</div>
@@ -303,28 +367,46 @@ export default function RecruiterPage() {
           ) : (
             filteredApplications.map((app) => {
               const urgency = isMounted ? getDeadlineUrgency(app.candidateInfo?.offerDeadline || null) : null;
+              const stages = resolvePipeline(app.job);
+              const from = { status: toDbStatus(app.status) ?? "applied", stageId: app.stageId ?? null };
               return (
                 <div key={`${app.jobId}-${app.candidateInfo?.email || 'anonymous'}-${app.appliedAt}`} className="px-6 py-5 hover:bg-blue-50/50 transition-colors">
                   <div className="grid grid-cols-12 gap-4 items-center">
-                    <div className="col-span-2">
-                      <button
-                        onClick={() => router.push(`/recruiter/applications/${app.id}`)}
-                        className="font-medium text-left hover:text-blue-600 hover:underline transition-colors"
-                      >
-                        {app.candidateInfo?.name || "Anonymous"}
-                      </button>
-                      <div className="text-sm text-gray-500">{app.candidateInfo?.email || ""}</div>
-                      {app.candidateInfo?.resumeUrl && (
-                        <a 
-                          href={app.candidateInfo.resumeUrl} 
-                          target="_blank" 
-                          rel="noopener noreferrer"
-                          className="text-xs text-blue-600 hover:underline"
-                          onClick={(e) => e.stopPropagation()}
+                    <div className="col-span-2 flex items-start gap-3">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(app.id)}
+                        onChange={() => toggleSelected(app.id)}
+                        className="mt-1.5"
+                        aria-label={`Select ${app.candidateInfo?.name || "application"}`}
+                      />
+                      <div className="min-w-0">
+                        <button
+                          onClick={() => router.push(`/recruiter/applications/${app.id}`)}
+                          className="font-medium text-left hover:text-blue-600 hover:underline transition-colors"
                         >
-                          View Resume
-                        </a>
-                      )}
+                          {app.candidateInfo?.name || "Anonymous"}
+                        </button>
+                        <div className="text-sm text-gray-500">{app.candidateInfo?.email || ""}</div>
+                        {app.candidateInfo?.resumeUrl && (
+                          <a 
+                            href={app.candidateInfo.resumeUrl} 
+                            target="_blank" 
+                            rel="noopener noreferrer"
+                            className="text-xs text-blue-600 hover:underline"
+                            onClick={(e) => e.stopPropagation()}
+                          >
+                            View Resume
+                          </a>
+                        )}
+                        {app.tags && app.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {app.tags.map(tag => (
+                              <span key={tag} className="px-1.5 py-0.5 rounded bg-purple-100 text-purple-800 text-[11px]">{tag}</span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
                     </div>
                     <div className="col-span-2">
                       <div className="font-medium">{app.job.title}</div>
@@ -344,25 +426,28 @@ export default function RecruiterPage() {
                     </div>
                     <div className="col-span-2">
                       <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(app.status)}`}>
-                        {app.status}
+                        {app.stageName ?? app.status}
                       </span>
                     </div>
                     <div className="col-span-2">
                       <Select
-                        value={app.status}
-                        onValueChange={(value) => updateStatus(app.id, value as Application["status"])}
+                        value={app.stageId ?? ""}
+                        onValueChange={(value) => updateStage(app.id, value)}
                         disabled={updating === app.id}
                       >
                         <SelectTrigger className="w-full">
-                          <SelectValue />
+                          <SelectValue placeholder="Move to stage..." />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="Applied">Applied</SelectItem>
-                          <SelectItem value="Under Review">Under Review</SelectItem>
-                          <SelectItem value="Interview">Interview</SelectItem>
-                          <SelectItem value="Offer">Offer</SelectItem>
-                          <SelectItem value="Hired">Hired</SelectItem>
-                          <SelectItem value="Rejected">Rejected</SelectItem>
+                          {stages.map(stage => (
+                            <SelectItem
+                              key={stage.id}
+                              value={stage.id}
+                              disabled={stage.id !== app.stageId && !canMoveToStage("recruiter", from, stage)}
+                            >
+                              {stage.name}{stage.name !== STATUS_LABELS[stage.status] ? ` (${STATUS_LABELS[stage.status]})` : ""}
+                            </SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                     </div>
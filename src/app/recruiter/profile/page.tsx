@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ArrowLeft } from "lucide-react";
+import NotificationPreferences from "@/components/notifications/NotificationPreferences";
 import { useRouter } from "next/navigation";
 import type { RecruiterProfile, CompanySize } from "@/lib/types/database";
 
@@ -281,6 +282,10 @@ export default function RecruiterProfilePage() {
           </Button>
         </div>
       </form>
+
+      <div className="rounded-lg border p-6">
+        <NotificationPreferences audience="recruiter" />
+      </div>
     </div>
   );
 }
@@ -0,0 +1,172 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { EEO_DIMENSIONS, EEO_DIMENSION_LABELS } from "@/lib/eeo";
+import type { EeoBreakdown, EeoDimension, EeoReport } from "@/lib/eeo";
+
+type JobOption = { id: string; title: string };
+
+function BreakdownTable({ rows, dimension }: { rows: { key: string; name: string; breakdown: EeoBreakdown }[]; dimension: EeoDimension }) {
+  const categories = rows[0]?.breakdown.dimensions[dimension].map((cell) => cell.category) ?? [];
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b">
+            <th className="py-2 pr-4 font-medium"></th>
+            <th className="py-2 pr-4 font-medium text-right">Total</th>
+            {categories.map((category) => (
+              <th key={category} className="py-2 pr-4 font-medium text-right">{category}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ key, name, breakdown }) => (
+            <tr key={key} className="border-b last:border-0">
+              <td className="py-2 pr-4 text-gray-700">{name}</td>
+              <td className="py-2 pr-4 text-right font-medium">{breakdown.total}</td>
+              {breakdown.dimensions[dimension].map((cell) => (
+                <td key={cell.category} className="py-2 pr-4 text-right">
+                  {cell.count === null ? <span className="text-gray-400" title="Suppressed: too few people to show">*</span> : cell.count}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function EeoReportPage() {
+  const router = useRouter();
+  const [jobId, setJobId] = useState("");
+  const [minCellSize, setMinCellSize] = useState("");
+  const [dimension, setDimension] = useState<EeoDimension>("gender");
+  const [jobs, setJobs] = useState<JobOption[]>([]);
+  const [report, setReport] = useState<EeoReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const query = new URLSearchParams({ ...(jobId ? { jobId } : {}), ...(minCellSize ? { minCellSize } : {}) }).toString();
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      try {
+        const res = await fetch("/api/jobs/recruiter", { cache: "no-store" });
+        if (!res.ok) return;
+        const data = await res.json();
+        if (mounted) setJobs((data as JobOption[]).map((job) => ({ id: job.id, title: job.title })));
+      } catch {
+        // The job filter is optional; the report still loads
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+    setLoading(true);
+    setError(null);
+    (async () => {
+      try {
+        const res = await fetch(`/api/reports/eeo?${query}`, { cache: "no-store" });
+        if (res.status === 401) {
+          router.push("/auth/sign-in?redirect=/recruiter/reports/eeo");
+          return;
+        }
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          const details = data?.details ? Object.values(data.details as Record<string, string[]>).flat()[0] : null;
+          throw new Error(details || data?.error || "Failed to load the EEO report");
+        }
+        if (mounted) setReport(data);
+      } catch (e) {
+        if (mounted) {
+          setReport(null);
+          setError(e instanceof Error ? e.message : "Failed to load the EEO report");
+        }
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [query, router]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold tracking-tight">EEO report</h1>
+        <p className="text-sm text-muted-foreground">
+          Voluntary self-identification of applicants, in aggregate only. Individual answers are never shown to the hiring team.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 rounded-lg border p-4">
+        <label className="text-sm text-gray-700 space-y-1">
+          <span className="block">Job</span>
+          <select value={jobId} onChange={(e) => setJobId(e.target.value)} className="border rounded px-2 py-1">
+            <option value="">All jobs</option>
+            {jobs.map((job) => (
+              <option key={job.id} value={job.id}>{job.title}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700 space-y-1">
+          <span className="block">Category</span>
+          <select value={dimension} onChange={(e) => setDimension(e.target.value as EeoDimension)} className="border rounded px-2 py-1">
+            {EEO_DIMENSIONS.map((value) => (
+              <option key={value} value={value}>{EEO_DIMENSION_LABELS[value]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700 space-y-1">
+          <span className="block">Minimum cell size</span>
+          <input
+            type="number"
+            min={report?.minCellSize ?? 1}
+            value={minCellSize}
+            placeholder={report ? String(report.minCellSize) : ""}
+            onChange={(e) => setMinCellSize(e.target.value)}
+            className="border rounded px-2 py-1 w-24"
+          />
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {loading && !report && <p className="text-sm text-gray-500">Loading report...</p>}
+
+      {report && (
+        <div className={`space-y-6 ${loading ? "opacity-60" : ""}`}>
+          <p className="text-xs text-gray-500">
+            * Suppressed: counts under {report.minCellSize}, and any cell that would let one be worked out from the totals.
+          </p>
+
+          <section className="rounded-lg border p-6 space-y-3">
+            <h2 className="font-semibold text-gray-900">All applicants</h2>
+            <BreakdownTable rows={[{ key: "overall", name: "All jobs", breakdown: report.overall }]} dimension={dimension} />
+          </section>
+
+          {report.jobs.map((job) => (
+            <section key={job.jobId} className="rounded-lg border p-6 space-y-3">
+              <h2 className="font-semibold text-gray-900">{job.title}</h2>
+              <BreakdownTable
+                rows={[
+                  { key: "all", name: "All applicants", breakdown: job },
+                  ...job.stages.map((stage) => ({ key: stage.stageId, name: `Now in ${stage.name}`, breakdown: stage })),
+                ]}
+                dimension={dimension}
+              />
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import InviteMemberForm from "@/components/recruiter/InviteMemberForm";
+import { ORGANIZATION_ROLES, ORGANIZATION_ROLE_LABELS, canManageMembers } from "@/lib/organizations";
+import type { OrganizationRole } from "@/lib/types/database";
+
+type Member = {
+  userId: string;
+  name: string | null;
+  email: string | null;
+  jobTitle: string | null;
+  role: OrganizationRole;
+  joinedAt: string;
+  isYou: boolean;
+};
+
+type PendingInvite = {
+  token: string;
+  email: string;
+  role: OrganizationRole;
+  expiresAt: string;
+  link: string;
+};
+
+type Team = {
+  organization: { id: string; name: string } | null;
+  role: OrganizationRole | null;
+  members: Member[];
+  invites: PendingInvite[];
+};
+
+export default function RecruiterTeamPage() {
+  const router = useRouter();
+  const [team, setTeam] = useState<Team | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+
+  const loadTeam = useCallback(async () => {
+    try {
+      const res = await fetch("/api/organizations", { cache: "no-store" });
+      if (res.status === 401) {
+        router.push("/auth/sign-in?redirect=/recruiter/team");
+        return;
+      }
+      if (!res.ok) throw new Error("Failed to load your team");
+      setTeam(await res.json());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load your team");
+    } finally {
+      setLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    loadTeam();
+  }, [loadTeam]);
+
+  // Run a request for one row, then reload the team
+  async function mutate(key: string, url: string, init: RequestInit, fallback: string) {
+    setBusy(key);
+    setError(null);
+    try {
+      const res = await fetch(url, init);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || fallback);
+      await loadTeam();
+      return true;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : fallback);
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function createOrganization(e: React.FormEvent) {
+    e.preventDefault();
+    await mutate("create", "/api/organizations", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: newName }),
+    }, "Failed to create organization");
+  }
+
+  function changeRole(member: Member, role: OrganizationRole) {
+    return mutate(member.userId, `/api/organizations/members/${member.userId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ role }),
+    }, "Failed to change role");
+  }
+
+  async function removeMember(member: Member) {
+    const message = member.isYou
+      ? "Leave this organization? You'll lose access to its jobs and applicants."
+      : `Remove ${member.name || member.email || "this member"}? Jobs they posted stay with the organization.`;
+    if (!confirm(message)) return;
+    const removed = await mutate(member.userId, `/api/organizations/members/${member.userId}`, { method: "DELETE" }, "Failed to remove member");
+    if (removed && member.isYou) router.push("/recruiter");
+  }
+
+  function revokeInvite(invite: PendingInvite) {
+    return mutate(invite.token, `/api/organizations/invites/${encodeURIComponent(invite.token)}`, { method: "DELETE" }, "Failed to revoke invite");
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="text-center space-y-3">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mx-auto"></div>
+          <p className="text-sm text-gray-600">Loading your team...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!team?.organization) {
+    return (
+      <div className="max-w-lg mx-auto py-12 space-y-6">
+        <div className="text-center space-y-2">
+          <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-gray-100">
+            <Users className="w-8 h-8 text-gray-500" />
+          </div>
+          <h1 className="text-2xl font-semibold tracking-tight">Set up your team</h1>
+          <p className="text-sm text-muted-foreground">
+            Create an organization so colleagues can share your jobs and applicants. Ask an admin for an
+            invite link to join an existing one instead.
+          </p>
+        </div>
+        <form onSubmit={createOrganization} className="flex gap-2">
+          <Input value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="Acme Corp" aria-label="Organization name" required />
+          <Button type="submit" disabled={busy === "create" || newName.trim().length < 2}>
+            {busy === "create" ? "Creating..." : "Create"}
+          </Button>
+        </form>
+        {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+      </div>
+    );
+  }
+
+  const isAdmin = canManageMembers(team.role);
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-2xl font-semibold tracking-tight">{team.organization.name}</h1>
+        <p className="text-sm text-muted-foreground">
+          You&apos;re {team.role === "admin" ? "an" : "a"} {team.role ? ORGANIZATION_ROLE_LABELS[team.role].toLowerCase() : "member"} ·{" "}
+          {team.members.length} {team.members.length === 1 ? "member" : "members"}
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold">Members</h2>
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {team.members.map((member) => (
+            <li key={member.userId} className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900 truncate">
+                  {member.name || member.email || "Unknown member"}
+                  {member.isYou && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                </p>
+                <p className="text-xs text-gray-500 truncate">
+                  {[member.jobTitle, member.email].filter(Boolean).join(" · ")}
+                </p>
+              </div>
+              {isAdmin ? (
+                <Select
+                  value={member.role}
+                  onValueChange={(val) => changeRole(member, val as OrganizationRole)}
+                  disabled={busy === member.userId}
+                >
+                  <SelectTrigger className="sm:w-44" aria-label={`Role for ${member.name || member.email}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ORGANIZATION_ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {ORGANIZATION_ROLE_LABELS[role]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <span className="px-2 py-1 bg-gray-100 text-gray-700 rounded-full text-xs font-medium">
+                  {ORGANIZATION_ROLE_LABELS[member.role]}
+                </span>
+              )}
+              {(isAdmin || member.isYou) && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => removeMember(member)}
+                  disabled={busy === member.userId}
+                  className="border-red-300 text-red-600 hover:bg-red-50"
+                >
+                  {member.isYou ? "Leave" : "Remove"}
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      {isAdmin && (
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold">Invite a colleague</h2>
+          <InviteMemberForm onInvited={loadTeam} />
+
+          {team.invites.length > 0 && (
+            <div className="space-y-2 pt-2">
+              <h3 className="text-sm font-semibold text-gray-700">Pending invites</h3>
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {team.invites.map((invite) => (
+                  <li key={invite.token} className="p-3 flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-900 truncate">{invite.email}</p>
+                      <p className="text-xs text-gray-500">
+                        {ORGANIZATION_ROLE_LABELS[invite.role]} · expires {new Date(invite.expiresAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <Button size="sm" variant="outline" onClick={() => revokeInvite(invite)} disabled={busy === invite.token}>
+                      Revoke
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
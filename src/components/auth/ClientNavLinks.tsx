@@ -3,6 +3,8 @@
 import Link from "next/link";
 import { useEffect, useState } from "react";
 import { supabase } from "@/lib/supabaseClient";
+import { MESSAGE_POLL_INTERVAL_MS } from "@/lib/messages";
+import NotificationBell from "@/components/notifications/NotificationBell";
 
 type UserRole = "candidate" | "recruiter" | null;
 
@@ -10,6 +12,7 @@ export default function ClientNavLinks() {
   const [ready, setReady] = useState(false);
   const [isAuthed, setAuthed] = useState(false);
   const [userRole, setUserRole] = useState<UserRole>(null);
+  const [unreadMessages, setUnreadMessages] = useState(0);
 
   useEffect(() => {
     let mounted = true;
@@ -97,6 +100,41 @@ export default function ClientNavLinks() {
     };
   }, []);
 
+  // Unread message badge, refreshed while signed in
+  useEffect(() => {
+    if (!isAuthed || !userRole) {
+      setUnreadMessages(0);
+      return;
+    }
+    let cancelled = false;
+    async function loadUnread() {
+      try {
+        const res = await fetch("/api/messages?summary=1", { cache: "no-store" });
+        const data = res.ok ? await res.json() : null;
+        if (!cancelled) setUnreadMessages(typeof data?.unread === "number" ? data.unread : 0);
+      } catch {
+        // Keep the last count; the next poll retries
+      }
+    }
+    loadUnread();
+    const timer = setInterval(loadUnread, MESSAGE_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [isAuthed, userRole]);
+
+  const messagesLink = (
+    <Link href={userRole === "candidate" ? "/candidate/messages" : "/recruiter/messages"} className="hover:underline inline-flex items-center gap-1">
+      Messages
+      {unreadMessages > 0 && (
+        <span className="min-w-[1.25rem] px-1.5 rounded-full bg-blue-600 text-white text-xs font-semibold text-center" aria-label={`${unreadMessages} unread`}>
+          {unreadMessages > 99 ? "99+" : unreadMessages}
+        </span>
+      )}
+    </Link>
+  );
+
   if (!ready) {
     // Render basic links while loading; middleware will still enforce protection.
     return (
@@ -113,14 +151,20 @@ export default function ClientNavLinks() {
         {userRole === "candidate" ? (
           <>
             <Link href="/candidate" className="hover:underline">Dashboard</Link>
+            {messagesLink}
             <Link href="/profile" className="hover:underline">Profile</Link>
+            <NotificationBell />
           </>
         ) : (
           <>
             <Link href="/recruiter" className="hover:underline">Dashboard</Link>
             <Link href="/recruiter/jobs" className="hover:underline">Jobs</Link>
+            <Link href="/recruiter/analytics" className="hover:underline">Analytics</Link>
+            {messagesLink}
             <Link href="/recruiter/create-job" className="hover:underline">Create Job</Link>
+            <Link href="/recruiter/team" className="hover:underline">Team</Link>
             <Link href="/recruiter/profile" className="hover:underline">Profile</Link>
+            <NotificationBell />
           </>
         )}
       </>
@@ -0,0 +1,134 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { formatInterviewTime } from "@/lib/interviews";
+import type { InterviewView } from "@/lib/interviews";
+
+type InterviewSlotPickerProps = {
+  applicationId: string;
+};
+
+/**
+ * Interview times offered on one application. The candidate books one and
+ * downloads the calendar invite; times show in their profile timezone.
+ * Renders nothing until the hiring team offers times.
+ */
+export default function InterviewSlotPicker({ applicationId }: InterviewSlotPickerProps) {
+  const [interviews, setInterviews] = useState<InterviewView[]>([]);
+  const [job, setJob] = useState<{ title: string; company: string } | null>(null);
+  const [timeZone, setTimeZone] = useState("UTC");
+  const [bookingId, setBookingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadInterviews = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/applications/${applicationId}/interviews`, { cache: "no-store" });
+      if (!res.ok) return;
+      const data = await res.json();
+      setInterviews(Array.isArray(data?.interviews) ? data.interviews : []);
+      setJob(data?.job ?? null);
+      setTimeZone(data?.timezone || "UTC");
+    } catch {
+      // the dashboard still works without the interview card
+    }
+  }, [applicationId]);
+
+  useEffect(() => {
+    loadInterviews();
+  }, [loadInterviews]);
+
+  async function book(interview: InterviewView) {
+    setBookingId(interview.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/applications/${applicationId}/interviews/${interview.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "book" }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to book interview");
+      await loadInterviews();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to book interview");
+      // Someone else's change (e.g. a withdrawn slot) shows up on reload
+      await loadInterviews();
+    } finally {
+      setBookingId(null);
+    }
+  }
+
+  if (interviews.length === 0) return null;
+
+  const booked = interviews.find((i) => i.status === "booked");
+  const cancelled = !booked ? interviews.find((i) => i.status === "cancelled") : undefined;
+  const available = interviews.filter((i) => i.status === "available" && Date.parse(i.startsAt) > Date.now());
+
+  return (
+    <div className="bg-white rounded-xl border border-purple-200 p-5 space-y-3">
+      <div>
+        <h3 className="font-semibold text-gray-900">
+          Interview{job ? `: ${job.title} at ${job.company}` : ""}
+        </h3>
+        <p className="text-xs text-gray-500">
+          Times shown in {timeZone}. <Link href="/profile" className="underline">Change timezone</Link>
+        </p>
+      </div>
+
+      {booked ? (
+        <div className="space-y-1">
+          <p className="text-sm text-green-800 font-medium">
+            Booked for {formatInterviewTime(booked.startsAt, booked.endsAt, timeZone)}
+          </p>
+          {booked.location && <p className="text-sm text-gray-600">{booked.location}</p>}
+          {booked.meetingUrl && (
+            <a href={booked.meetingUrl} target="_blank" rel="noopener noreferrer" className="text-sm text-blue-600 hover:underline break-all">
+              {booked.meetingUrl}
+            </a>
+          )}
+          {booked.notes && <p className="text-sm text-gray-600 whitespace-pre-wrap">{booked.notes}</p>}
+          {booked.icsUrl && (
+            <a href={booked.icsUrl} className="inline-block text-sm text-blue-600 hover:underline">
+              Add to calendar (.ics)
+            </a>
+          )}
+        </div>
+      ) : available.length > 0 ? (
+        <div className="space-y-2">
+          {cancelled && (
+            <p className="text-sm text-amber-700">Your previous interview was cancelled. Please pick a new time.</p>
+          )}
+          <p className="text-sm text-gray-700">Pick a time that works for you:</p>
+          <ul className="space-y-2">
+            {available.map((slot) => (
+              <li key={slot.id} className="flex items-center justify-between gap-3">
+                <span className="text-sm">{formatInterviewTime(slot.startsAt, slot.endsAt, timeZone)}</span>
+                <Button size="sm" onClick={() => book(slot)} disabled={bookingId !== null}>
+                  {bookingId === slot.id ? "Booking..." : "Book"}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : cancelled ? (
+        <div className="space-y-1">
+          <p className="text-sm text-amber-700">
+            Your interview on {formatInterviewTime(cancelled.startsAt, cancelled.endsAt, timeZone)} was cancelled. The
+            hiring team will offer new times.
+          </p>
+          {cancelled.icsUrl && (
+            <a href={cancelled.icsUrl} className="inline-block text-sm text-blue-600 hover:underline">
+              Remove from calendar (.ics)
+            </a>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">The times offered have passed. The hiring team will offer new ones.</p>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
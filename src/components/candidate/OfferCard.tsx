@@ -0,0 +1,167 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Paperclip } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { OFFER_STATE_LABELS, countdown } from "@/lib/offers";
+import type { OfferView } from "@/lib/offers";
+
+type OfferCardProps = {
+  applicationId: string;
+  // Called with the application's new status label after the candidate answers
+  onRespond?: (status: string) => void;
+};
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleString(undefined, { month: "short", day: "numeric", year: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+// start_date is a calendar date; format it without shifting across timezones
+function formatStartDate(date: string) {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: "UTC", month: "short", day: "numeric", year: "numeric" });
+}
+
+/**
+ * The latest offer on one application. The candidate reads the terms and the
+ * letter, then accepts or declines before it expires.
+ * Renders nothing until the hiring team extends an offer.
+ */
+export default function OfferCard({ applicationId, onRespond }: OfferCardProps) {
+  const [offer, setOffer] = useState<OfferView | null>(null);
+  const [job, setJob] = useState<{ title: string; company: string } | null>(null);
+  const [declining, setDeclining] = useState(false);
+  const [reason, setReason] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadOffer = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/applications/${applicationId}/offers`, { cache: "no-store" });
+      if (!res.ok) return;
+      const data = await res.json();
+      // Newest first; withdrawn offers are replaced by the next one
+      const offers: OfferView[] = Array.isArray(data?.offers) ? data.offers : [];
+      setOffer(offers[0] ?? null);
+      setJob(data?.job ?? null);
+    } catch {
+      // the dashboard still works without the offer card
+    }
+  }, [applicationId]);
+
+  useEffect(() => {
+    loadOffer();
+  }, [loadOffer]);
+
+  async function respond(action: "accept" | "decline") {
+    if (action === "accept" && !confirm("Accept this offer? Your application will be marked as hired.")) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/applications/${applicationId}/offers/${offer?.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(action === "decline" ? { action, note: reason.trim() || undefined } : { action }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to respond to offer");
+      setOffer(data.offer ?? null);
+      setDeclining(false);
+      if (data?.application?.status) onRespond?.(data.application.status);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to respond to offer");
+      // A withdrawal or expiry in the meantime shows up on reload
+      await loadOffer();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!offer) return null;
+
+  const left = countdown(offer.expiresAt);
+  const state = offer.state === "extended" && left.urgency === "expired" ? "expired" : offer.state;
+
+  return (
+    <div className="bg-white rounded-xl border border-green-200 p-5 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <h3 className="font-semibold text-gray-900">
+          Offer{job ? `: ${job.title} at ${job.company}` : ""}
+        </h3>
+        <span className="px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800 whitespace-nowrap">
+          {state === "extended" ? left.label : OFFER_STATE_LABELS[state]}
+        </span>
+      </div>
+
+      <dl className="grid grid-cols-2 gap-2 text-sm">
+        <div>
+          <dt className="text-gray-500">Compensation</dt>
+          <dd className="font-medium">{offer.compensation}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Start date</dt>
+          <dd className="font-medium">{formatStartDate(offer.startDate)}</dd>
+        </div>
+        {offer.signingBonus != null && (
+          <div>
+            <dt className="text-gray-500">Signing bonus</dt>
+            <dd className="font-medium">
+              {offer.signingBonus.toLocaleString()} {offer.salaryCurrency}
+            </dd>
+          </div>
+        )}
+        {offer.equity && (
+          <div>
+            <dt className="text-gray-500">Equity</dt>
+            <dd className="font-medium">{offer.equity}</dd>
+          </div>
+        )}
+      </dl>
+
+      {offer.message && <p className="text-sm text-gray-700 whitespace-pre-wrap">{offer.message}</p>}
+      {offer.letter && (
+        <a href={offer.letter.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-sm text-blue-600 hover:underline">
+          <Paperclip className="h-3.5 w-3.5" />
+          {offer.letter.name}
+        </a>
+      )}
+
+      {state === "extended" ? (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-500">Respond by {formatDate(offer.expiresAt)}</p>
+          {declining ? (
+            <>
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Reason (optional, shared with the hiring team)"
+                maxLength={500}
+                className="w-full min-h-[60px] px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => setDeclining(false)} disabled={busy}>
+                  Back
+                </Button>
+                <Button size="sm" variant="destructive" onClick={() => respond("decline")} disabled={busy}>
+                  {busy ? "Sending..." : "Decline offer"}
+                </Button>
+              </div>
+            </>
+          ) : (
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => respond("accept")} disabled={busy}>
+                {busy ? "Sending..." : "Accept"}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setDeclining(true)} disabled={busy}>
+                Decline
+              </Button>
+            </div>
+          )}
+        </div>
+      ) : (
+        offer.respondedAt && <p className="text-xs text-gray-500">Answered {formatDate(offer.respondedAt)}</p>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { ResumeVersion } from "@/lib/resumes";
+
+type ResumePickerProps = {
+  value: string | null;
+  onChange: (resumeId: string | null) => void;
+};
+
+/**
+ * Resume version to submit with an application; starts on the default version
+ */
+export default function ResumePicker({ value, onChange }: ResumePickerProps) {
+  const [versions, setVersions] = useState<ResumeVersion[] | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    (async () => {
+      try {
+        const res = await fetch("/api/resume/versions", { cache: "no-store" });
+        const data = res.ok ? await res.json() : [];
+        if (!active) return;
+        const list: ResumeVersion[] = Array.isArray(data) ? data : [];
+        setVersions(list);
+        const initial = list.find((v) => v.isDefault) ?? list[0];
+        if (initial) onChange(initial.id);
+      } catch {
+        if (active) setVersions([]);
+      }
+    })();
+    return () => {
+      active = false;
+    };
+  }, [onChange]);
+
+  if (versions === null) {
+    return <p className="text-sm text-muted-foreground">Loading your resumes...</p>;
+  }
+
+  // Older profiles may only have a profile resume, which the server uses by default
+  if (versions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Your profile resume will be submitted. Manage resumes in your{" "}
+        <Link href="/profile" className="underline font-medium">Profile</Link>.
+      </p>
+    );
+  }
+
+  const selected = versions.find((v) => v.id === value);
+
+  return (
+    <div className="space-y-2">
+      <Select value={value ?? undefined} onValueChange={onChange}>
+        <SelectTrigger className="h-10 rounded-lg max-w-md" aria-label="Resume">
+          <SelectValue placeholder="Choose a resume" />
+        </SelectTrigger>
+        <SelectContent>
+          {versions.map((version) => (
+            <SelectItem key={version.id} value={version.id}>
+              {version.label}
+              {version.isDefault ? " (default)" : ""}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {selected && (
+        <p className="text-xs text-muted-foreground">
+          {selected.originalName} · uploaded {new Date(selected.createdAt).toLocaleDateString()} ·{" "}
+          <a href={selected.url} target="_blank" rel="noreferrer" className="text-blue-600 hover:underline">
+            View
+          </a>
+        </p>
+      )}
+    </div>
+  );
+}
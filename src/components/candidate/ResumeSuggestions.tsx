@@ -0,0 +1,91 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import type { ResumeProfileChange, ResumeProfileField } from "@/lib/resume-parser";
+
+type ResumeSuggestionsProps = {
+  changes: ResumeProfileChange[];
+  applying: boolean;
+  error?: string | null;
+  onApply: (changes: ResumeProfileChange[]) => void;
+  onDismiss: () => void;
+};
+
+/**
+ * Diff of profile fields parsed from an uploaded resume; the candidate picks
+ * which ones to apply
+ */
+export default function ResumeSuggestions({ changes, applying, error, onApply, onDismiss }: ResumeSuggestionsProps) {
+  const [selected, setSelected] = useState<Set<ResumeProfileField>>(() => new Set(changes.map((c) => c.field)));
+
+  const toggle = (field: ResumeProfileField) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(field)) next.delete(field);
+      else next.add(field);
+      return next;
+    });
+  };
+
+  return (
+    <div className="border border-blue-200 bg-blue-50/50 rounded-lg p-4 space-y-4">
+      <div>
+        <h3 className="font-semibold text-gray-900">Suggestions from your resume</h3>
+        <p className="text-sm text-gray-600 mt-1">
+          Pick the fields to copy into your profile. Lists are added to, not replaced.
+        </p>
+      </div>
+      <ul className="space-y-3">
+        {changes.map((change) => (
+          <li key={change.field} className="bg-white border border-gray-200 rounded-lg p-3">
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selected.has(change.field)}
+                onChange={() => toggle(change.field)}
+                disabled={applying}
+                className="mt-1"
+              />
+              <div className="flex-1 min-w-0 space-y-1 text-sm">
+                <p className="font-medium text-gray-900">{change.label}</p>
+                {change.current.length > 0 &&
+                  (Array.isArray(change.value) ? (
+                    <p className="text-gray-500">Currently: {change.current.join(", ")}</p>
+                  ) : (
+                    change.current.map((line) => (
+                      <p key={line} className="text-red-700 line-through break-words">
+                        − {line}
+                      </p>
+                    ))
+                  ))}
+                {change.proposed.map((line) => (
+                  <p key={line} className="text-green-700 break-words">
+                    + {line}
+                  </p>
+                ))}
+              </div>
+            </label>
+          </li>
+        ))}
+      </ul>
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+      <div className="flex flex-col sm:flex-row gap-3">
+        <Button
+          onClick={() => onApply(changes.filter((c) => selected.has(c.field)))}
+          disabled={applying || selected.size === 0}
+          className="h-10 rounded-lg"
+        >
+          {applying ? "Applying..." : "Apply selected"}
+        </Button>
+        <Button variant="outline" onClick={onDismiss} disabled={applying} className="h-10 rounded-lg">
+          Dismiss
+        </Button>
+      </div>
+    </div>
+  );
+}
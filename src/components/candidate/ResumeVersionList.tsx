@@ -0,0 +1,178 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MAX_RESUME_LABEL_LENGTH } from "@/lib/resumes";
+import type { ResumeVersion } from "@/lib/resumes";
+
+type ResumeVersionListProps = {
+  // Bumped by the profile page after an upload or delete so the list reloads
+  refreshKey: number;
+  // Called when the default version changes, so the page can reload its profile resume
+  onDefaultChange: () => void;
+};
+
+/**
+ * The candidate's saved resume versions with rename, make-default and delete
+ */
+export default function ResumeVersionList({ refreshKey, onDefaultChange }: ResumeVersionListProps) {
+  const [versions, setVersions] = useState<ResumeVersion[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftLabel, setDraftLabel] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    try {
+      const res = await fetch("/api/resume/versions", { cache: "no-store" });
+      if (!res.ok) throw new Error("Failed to load resumes");
+      const data = await res.json();
+      setVersions(Array.isArray(data) ? data : []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load resumes");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions, refreshKey]);
+
+  async function updateVersion(id: string, body: { label?: string; isDefault?: true }) {
+    setBusyId(id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/resume/versions/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.details?.label?.[0] || data?.error || "Failed to update resume");
+      if (body.isDefault) {
+        await loadVersions();
+        onDefaultChange();
+      } else {
+        setVersions((prev) => prev.map((v) => (v.id === id ? data : v)));
+      }
+      setEditingId(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to update resume");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function deleteVersion(version: ResumeVersion) {
+    if (!confirm(`Delete "${version.label}"? Applications you already submitted keep their copy.`)) return;
+    setBusyId(version.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/resume/versions/${version.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data?.error || "Failed to delete resume");
+      }
+      await loadVersions();
+      if (version.isDefault) onDefaultChange();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to delete resume");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  if (versions.length === 0 && !error) return null;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-gray-700">Saved resumes</h3>
+      <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+        {versions.map((version) => (
+          <li key={version.id} className="p-3 flex flex-col sm:flex-row sm:items-center gap-3">
+            <div className="flex-1 min-w-0">
+              {editingId === version.id ? (
+                <form
+                  className="flex gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    updateVersion(version.id, { label: draftLabel });
+                  }}
+                >
+                  <Input
+                    value={draftLabel}
+                    onChange={(e) => setDraftLabel(e.target.value)}
+                    maxLength={MAX_RESUME_LABEL_LENGTH}
+                    aria-label="Resume name"
+                    className="h-9 rounded-lg"
+                    autoFocus
+                  />
+                  <Button type="submit" size="sm" disabled={busyId === version.id || !draftLabel.trim()}>
+                    Save
+                  </Button>
+                  <Button type="button" size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                    Cancel
+                  </Button>
+                </form>
+              ) : (
+                <p className="font-medium text-gray-900 truncate">
+                  {version.label}
+                  {version.isDefault && (
+                    <span className="ml-2 px-2 py-0.5 bg-green-100 text-green-700 rounded-full text-xs font-medium">
+                      Default
+                    </span>
+                  )}
+                </p>
+              )}
+              <p className="text-xs text-gray-500 mt-1 truncate">
+                {version.originalName} · uploaded {new Date(version.createdAt).toLocaleDateString()} ·{" "}
+                <a href={version.url} target="_blank" rel="noreferrer" className="text-blue-600 hover:underline">
+                  View
+                </a>
+              </p>
+            </div>
+            {editingId !== version.id && (
+              <div className="flex gap-2">
+                {!version.isDefault && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => updateVersion(version.id, { isDefault: true })}
+                    disabled={busyId === version.id}
+                  >
+                    Make default
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    setEditingId(version.id);
+                    setDraftLabel(version.label);
+                  }}
+                  disabled={busyId === version.id}
+                >
+                  Rename
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => deleteVersion(version)}
+                  disabled={busyId === version.id}
+                  className="border-red-300 text-red-600 hover:bg-red-50"
+                >
+                  Delete
+                </Button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
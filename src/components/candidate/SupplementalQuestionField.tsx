@@ -0,0 +1,207 @@
+"use client";
+
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Paperclip } from "lucide-react";
+import {
+  DEFAULT_ACCEPTED_FILE_TYPES,
+  DEFAULT_MAX_FILE_SIZE_MB,
+  checkFileAgainstRules,
+  isFileAnswer,
+} from "@/lib/supplemental-questions";
+import type { SupplementalQuestion } from "@/lib/supplemental-questions";
+
+type SupplementalQuestionFieldProps = {
+  question: SupplementalQuestion;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  jobId: string;
+  error?: string;
+};
+
+/**
+ * Answer input for one supplemental question, matching its type and rules
+ */
+export default function SupplementalQuestionField({ question, value, onChange, jobId, error }: SupplementalQuestionFieldProps) {
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const rules = question.rules ?? {};
+  const text = typeof value === "string" || typeof value === "number" ? String(value) : "";
+
+  const uploadFile = async (file: File) => {
+    setUploadError(null);
+    const fileError = checkFileAgainstRules(file, rules);
+    if (fileError) {
+      setUploadError(fileError);
+      return;
+    }
+    setUploading(true);
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      form.append("jobId", jobId);
+      form.append("questionId", question.id);
+      const response = await fetch("/api/applications/attachments", { method: "POST", body: form });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Upload failed");
+      }
+      onChange(data);
+    } catch (err: unknown) {
+      setUploadError(err instanceof Error ? err.message : "Upload failed");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  let field: React.ReactNode;
+  switch (question.type) {
+    case "textarea":
+      field = (
+        <textarea
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="Enter your answer..."
+          maxLength={rules.maxLength}
+          className="w-full min-h-[100px] px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-vertical text-sm"
+        />
+      );
+      break;
+    case "select":
+      field = (
+        <Select value={text} onValueChange={onChange}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select an option..." />
+          </SelectTrigger>
+          <SelectContent>
+            {(question.options ?? []).map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+      break;
+    case "multiselect": {
+      const selected = Array.isArray(value) ? (value as string[]) : [];
+      field = (
+        <div className="space-y-2">
+          {(question.options ?? []).map((option) => (
+            <label key={option} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={selected.includes(option)}
+                onChange={(e) =>
+                  onChange(e.target.checked ? [...selected, option] : selected.filter((o) => o !== option))
+                }
+                className="rounded"
+              />
+              {option}
+            </label>
+          ))}
+        </div>
+      );
+      break;
+    }
+    case "yes_no":
+      field = (
+        <div className="flex items-center gap-6">
+          {[
+            { label: "Yes", answer: true },
+            { label: "No", answer: false },
+          ].map(({ label, answer }) => (
+            <label key={label} className="flex items-center gap-2 text-sm">
+              <input
+                type="radio"
+                name={`question-${question.id}`}
+                checked={value === answer}
+                onChange={() => onChange(answer)}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      );
+      break;
+    case "number":
+      field = (
+        <Input
+          type="number"
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          min={rules.min}
+          max={rules.max}
+          step={rules.integer ? 1 : "any"}
+          placeholder="Enter a number..."
+        />
+      );
+      break;
+    case "date":
+      field = (
+        <Input
+          type="date"
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          min={rules.minDate}
+          max={rules.maxDate}
+        />
+      );
+      break;
+    case "url":
+      field = (
+        <Input type="url" value={text} onChange={(e) => onChange(e.target.value)} placeholder="https://..." />
+      );
+      break;
+    case "file": {
+      const accepted = rules.acceptedFileTypes?.length ? rules.acceptedFileTypes : DEFAULT_ACCEPTED_FILE_TYPES;
+      field = (
+        <div className="space-y-2">
+          {isFileAnswer(value) && (
+            <div className="flex items-center gap-2 text-sm text-gray-700">
+              <Paperclip className="h-4 w-4" />
+              {value.name}
+              <button type="button" onClick={() => onChange(undefined)} className="text-xs text-red-600 hover:underline">
+                Remove
+              </button>
+            </div>
+          )}
+          <input
+            type="file"
+            accept={accepted.map((ext) => `.${ext}`).join(",")}
+            disabled={uploading}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) uploadFile(file);
+              e.target.value = "";
+            }}
+            className="block text-sm"
+          />
+          <p className="text-xs text-gray-500">
+            {uploading
+              ? "Uploading..."
+              : `${accepted.map((ext) => ext.toUpperCase()).join(", ")} up to ${rules.maxFileSizeMb ?? DEFAULT_MAX_FILE_SIZE_MB} MB`}
+          </p>
+        </div>
+      );
+      break;
+    }
+    default:
+      field = (
+        <Input
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="Enter your answer..."
+          maxLength={rules.maxLength}
+        />
+      );
+  }
+
+  return (
+    <div className="space-y-1">
+      {field}
+      {(uploadError || error) && <p className="text-xs text-red-600">{uploadError || error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Paperclip } from "lucide-react";
+import MessageThread from "@/components/messages/MessageThread";
+import type { InboxThread } from "@/lib/messages";
+
+type MessageInboxProps = {
+  // Thread to open first (?application=<id>)
+  initialApplicationId?: string | null;
+};
+
+/**
+ * The signed-in user's message threads with the selected one open beside them
+ */
+export default function MessageInbox({ initialApplicationId = null }: MessageInboxProps) {
+  const [threads, setThreads] = useState<InboxThread[]>([]);
+  const [selected, setSelected] = useState<string | null>(initialApplicationId);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/messages", { cache: "no-store" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to load messages");
+      const list: InboxThread[] = data.threads ?? [];
+      setThreads(list);
+      setSelected((current) => current ?? list[0]?.applicationId ?? null);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load messages");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold tracking-tight">Messages</h1>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="grid gap-6 md:grid-cols-3">
+        <ul className="bg-white rounded-xl border border-gray-200 shadow-sm divide-y divide-gray-100 self-start">
+          {loading ? (
+            <li className="p-4 text-sm text-gray-500">Loading...</li>
+          ) : threads.length === 0 ? (
+            <li className="p-4 text-sm text-gray-500">No conversations yet.</li>
+          ) : (
+            threads.map((thread) => (
+              <li key={thread.applicationId}>
+                <button
+                  type="button"
+                  onClick={() => setSelected(thread.applicationId)}
+                  className={`w-full text-left p-4 space-y-1 hover:bg-gray-50 ${
+                    selected === thread.applicationId ? "bg-blue-50" : ""
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="font-medium truncate">{thread.counterpartName || thread.company}</p>
+                    {thread.unread > 0 && (
+                      <span className="px-2 py-0.5 rounded-full bg-blue-600 text-white text-xs font-semibold">{thread.unread}</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 truncate">{thread.jobTitle}</p>
+                  {thread.lastMessage && (
+                    <p className="text-sm text-gray-600 truncate flex items-center gap-1">
+                      {thread.lastMessage.hasAttachment && <Paperclip className="h-3.5 w-3.5 flex-shrink-0" />}
+                      {thread.lastMessage.body || "Attachment"}
+                    </p>
+                  )}
+                </button>
+              </li>
+            ))
+          )}
+        </ul>
+
+        <div className="md:col-span-2">
+          {selected ? (
+            <MessageThread key={selected} applicationId={selected} onRead={load} />
+          ) : (
+            !loading && <p className="text-sm text-gray-500">Select a conversation.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { CheckCheck, Paperclip, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { MAX_MESSAGE_LENGTH, MESSAGE_POLL_INTERVAL_MS } from "@/lib/messages";
+import type { MessageView } from "@/lib/messages";
+import type { MessageSenderRole } from "@/lib/types/database";
+
+type MessageThreadProps = {
+  applicationId: string;
+  // Called after the thread is marked read, so unread badges can refresh
+  onRead?: () => void;
+  className?: string;
+};
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+function formatSize(bytes: number | null) {
+  if (!bytes) return "";
+  return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+/**
+ * Message thread between a candidate and the hiring team for one application
+ */
+export default function MessageThread({ applicationId, onRead, className = "" }: MessageThreadProps) {
+  const [messages, setMessages] = useState<MessageView[]>([]);
+  const [side, setSide] = useState<MessageSenderRole | null>(null);
+  const [job, setJob] = useState<{ title: string; company: string } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [body, setBody] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [sending, setSending] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const bottom = useRef<HTMLDivElement>(null);
+  const lastSeenId = useRef<string | null>(null);
+  // Kept in a ref so a new callback each render doesn't restart polling
+  const onReadRef = useRef(onRead);
+  onReadRef.current = onRead;
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/applications/${applicationId}/messages`, { cache: "no-store" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to load messages");
+      const list: MessageView[] = data.messages ?? [];
+      setMessages(list);
+      setSide(data.side ?? null);
+      setJob(data.job ?? null);
+      setError(null);
+
+      // Only send a read receipt when something new arrived while the page is visible
+      const latest = list[list.length - 1];
+      if (latest && latest.id !== lastSeenId.current && document.visibilityState === "visible") {
+        lastSeenId.current = latest.id;
+        await fetch(`/api/applications/${applicationId}/messages/read`, { method: "POST" });
+        onReadRef.current?.();
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load messages");
+    } finally {
+      setLoading(false);
+    }
+  }, [applicationId]);
+
+  useEffect(() => {
+    lastSeenId.current = null;
+    setLoading(true);
+    load();
+    const timer = setInterval(load, MESSAGE_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  useEffect(() => {
+    bottom.current?.scrollIntoView({ block: "nearest" });
+  }, [messages.length]);
+
+  async function send() {
+    if (!body.trim() && !file) return;
+    setSending(true);
+    setError(null);
+    try {
+      const form = new FormData();
+      form.append("body", body);
+      if (file) form.append("file", file);
+      const res = await fetch(`/api/applications/${applicationId}/messages`, { method: "POST", body: form });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to send message");
+      setBody("");
+      setFile(null);
+      if (fileInput.current) fileInput.current.value = "";
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to send message");
+    } finally {
+      setSending(false);
+    }
+  }
+
+  // Label for the other side's messages when the sender's name isn't visible
+  const otherSide = side === "candidate" ? job?.company || "Hiring team" : "Candidate";
+
+  return (
+    <div className={`bg-white rounded-xl border border-gray-200 shadow-sm flex flex-col ${className}`}>
+      <div className="px-4 py-3 border-b border-gray-100">
+        <h3 className="font-semibold">Messages</h3>
+        {job && (
+          <p className="text-xs text-gray-500">
+            {job.title}
+            {side === "recruiter" ? " · visible to the candidate" : ` at ${job.company}`}
+          </p>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-3 space-y-3 min-h-[200px] max-h-[480px]">
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading messages...</p>
+        ) : messages.length === 0 ? (
+          <p className="text-sm text-gray-500">No messages yet. Say hello.</p>
+        ) : (
+          messages.map((message) => (
+            <div key={message.id} className={`flex ${message.isMine ? "justify-end" : "justify-start"}`}>
+              <div
+                className={`max-w-[80%] rounded-lg px-3 py-2 space-y-1 ${
+                  message.isMine ? "bg-blue-600 text-white" : message.senderRole === side ? "bg-blue-50" : "bg-gray-100"
+                }`}
+              >
+                {!message.isMine && (
+                  <p className={`text-xs font-medium ${message.senderRole === side ? "text-blue-700" : "text-gray-600"}`}>
+                    {message.senderName || (message.senderRole === side ? "Teammate" : otherSide)}
+                  </p>
+                )}
+                {message.body && <p className="text-sm whitespace-pre-wrap break-words">{message.body}</p>}
+                {message.attachment && (
+                  <a
+                    href={message.attachment.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className={`flex items-center gap-1 text-sm underline ${message.isMine ? "text-white" : "text-blue-600"}`}
+                  >
+                    <Paperclip className="h-3.5 w-3.5" />
+                    {message.attachment.name}
+                    <span className="text-xs opacity-75">{formatSize(message.attachment.size)}</span>
+                  </a>
+                )}
+                <p className={`text-[11px] flex items-center gap-1 ${message.isMine ? "text-blue-100 justify-end" : "text-gray-500"}`}>
+                  {formatTime(message.createdAt)}
+                  {message.senderRole === side && message.seen && (
+                    <span className="flex items-center gap-0.5" title={side === "candidate" ? "Read by the hiring team" : "Read by the candidate"}>
+                      <CheckCheck className="h-3.5 w-3.5" />
+                      Seen
+                    </span>
+                  )}
+                </p>
+              </div>
+            </div>
+          ))
+        )}
+        <div ref={bottom} />
+      </div>
+
+      <div className="border-t border-gray-100 p-3 space-y-2">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) send();
+          }}
+          placeholder="Write a message"
+          maxLength={MAX_MESSAGE_LENGTH}
+          className="w-full min-h-[70px] px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <div className="flex items-center justify-between gap-2">
+          <label className="flex items-center gap-1 text-sm text-gray-600 cursor-pointer min-w-0">
+            <Paperclip className="h-4 w-4 flex-shrink-0" />
+            <span className="truncate">{file ? file.name : "Attach PDF or Word file"}</span>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".pdf,.doc,.docx,application/pdf,application/msword,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="hidden"
+            />
+          </label>
+          <Button size="sm" onClick={send} disabled={sending || (!body.trim() && !file)}>
+            <Send className="h-4 w-4" />
+            {sending ? "Sending..." : "Send"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
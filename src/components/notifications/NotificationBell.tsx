@@ -0,0 +1,162 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Bell } from "lucide-react";
+import { NOTIFICATION_POLL_INTERVAL_MS } from "@/lib/notification-center";
+import type { NotificationView } from "@/lib/notification-center";
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+/**
+ * Bell with the unread count and a dropdown of recent notifications.
+ * Opening a notification marks it read.
+ */
+export default function NotificationBell() {
+  const [open, setOpen] = useState(false);
+  const [unread, setUnread] = useState(0);
+  const [notifications, setNotifications] = useState<NotificationView[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Unread badge, refreshed while the page is open
+  useEffect(() => {
+    let cancelled = false;
+    async function loadUnread() {
+      try {
+        const res = await fetch("/api/notifications?summary=1", { cache: "no-store" });
+        const data = res.ok ? await res.json() : null;
+        if (!cancelled && typeof data?.unread === "number") setUnread(data.unread);
+      } catch {
+        // Keep the last count; the next poll retries
+      }
+    }
+    loadUnread();
+    const timer = setInterval(loadUnread, NOTIFICATION_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, []);
+
+  const loadNotifications = useCallback(async () => {
+    setError(null);
+    try {
+      const res = await fetch("/api/notifications", { cache: "no-store" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to load notifications");
+      setNotifications(data.notifications ?? []);
+      setUnread(data.unread ?? 0);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load notifications");
+    }
+  }, []);
+
+  // Close when clicking elsewhere on the page
+  useEffect(() => {
+    if (!open) return;
+    function onPointerDown(event: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) setOpen(false);
+    }
+    document.addEventListener("mousedown", onPointerDown);
+    return () => document.removeEventListener("mousedown", onPointerDown);
+  }, [open]);
+
+  function toggle() {
+    if (!open) loadNotifications();
+    setOpen(!open);
+  }
+
+  async function markRead(body: { ids: string[] } | { all: true }) {
+    const ids = "ids" in body ? new Set(body.ids) : null;
+    setNotifications((current) =>
+      current?.map((n) => (!ids || n.ids.some((id) => ids.has(id)) ? { ...n, read: true } : n)) ?? current
+    );
+    try {
+      // keepalive lets the request finish when the link navigates away
+      const res = await fetch("/api/notifications", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        keepalive: true,
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to mark notifications read");
+      setUnread(data.unread ?? 0);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to mark notifications read");
+    }
+  }
+
+  function openNotification(notification: NotificationView) {
+    if (!notification.read) markRead({ ids: notification.ids });
+    setOpen(false);
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={toggle}
+        className="relative inline-flex items-center p-1 rounded-md hover:bg-gray-100"
+        aria-label={unread > 0 ? `Notifications, ${unread} unread` : "Notifications"}
+        aria-expanded={open}
+      >
+        <Bell className="h-5 w-5" />
+        {unread > 0 && (
+          <span className="absolute -top-1 -right-2 min-w-[1.25rem] px-1.5 rounded-full bg-blue-600 text-white text-xs font-semibold text-center">
+            {unread > 99 ? "99+" : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 max-h-96 overflow-y-auto rounded-lg border bg-white shadow-lg z-50">
+          <div className="flex items-center justify-between px-4 py-2 border-b">
+            <span className="font-semibold text-gray-900">Notifications</span>
+            {unread > 0 && (
+              <button type="button" onClick={() => markRead({ all: true })} className="text-xs text-blue-600 hover:underline">
+                Mark all read
+              </button>
+            )}
+          </div>
+          {error && <p className="px-4 py-2 text-sm text-red-600">{error}</p>}
+          {notifications === null ? (
+            !error && <p className="px-4 py-3 text-sm text-gray-500">Loading...</p>
+          ) : notifications.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-500">No notifications yet.</p>
+          ) : (
+            <ul className="divide-y">
+              {notifications.map((notification) => {
+                const content = (
+                  <>
+                    <p className={`text-sm ${notification.read ? "text-gray-600" : "font-medium text-gray-900"}`}>
+                      {notification.message}
+                    </p>
+                    <p className="text-xs text-gray-500">{formatTime(notification.createdAt)}</p>
+                  </>
+                );
+                const className = `block px-4 py-2 hover:bg-gray-50 ${notification.read ? "" : "bg-blue-50"}`;
+                return (
+                  <li key={notification.id}>
+                    {notification.link ? (
+                      <Link href={notification.link} onClick={() => openNotification(notification)} className={className}>
+                        {content}
+                      </Link>
+                    ) : (
+                      <button type="button" onClick={() => openNotification(notification)} className={`${className} w-full text-left`}>
+                        {content}
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { NOTIFICATION_AUDIENCE, NOTIFICATION_LABELS, NOTIFICATION_TYPES } from "@/lib/notifications";
+import type { NotificationPreferences as Preferences, NotificationType } from "@/lib/notifications";
+
+type NotificationPreferencesProps = {
+  audience: "candidate" | "recruiter";
+};
+
+/**
+ * Checkboxes for the notification emails this kind of user can get.
+ * Each change saves right away.
+ */
+export default function NotificationPreferences({ audience }: NotificationPreferencesProps) {
+  const [preferences, setPreferences] = useState<Preferences | null>(null);
+  const [saving, setSaving] = useState<NotificationType | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      try {
+        const res = await fetch("/api/notifications/preferences", { cache: "no-store" });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data?.error || "Failed to load email preferences");
+        if (mounted) setPreferences(data.email);
+      } catch (e) {
+        if (mounted) setError(e instanceof Error ? e.message : "Failed to load email preferences");
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  async function toggle(type: NotificationType, enabled: boolean) {
+    setSaving(type);
+    setError(null);
+    try {
+      const res = await fetch("/api/notifications/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: { [type]: enabled } }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to save email preferences");
+      setPreferences(data.email);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save email preferences");
+    } finally {
+      setSaving(null);
+    }
+  }
+
+  const types = NOTIFICATION_TYPES.filter((type) => NOTIFICATION_AUDIENCE[type].includes(audience));
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h3 className="font-semibold text-gray-900">Email notifications</h3>
+        <p className="text-sm text-gray-500">Email me when:</p>
+      </div>
+      {preferences ? (
+        <div className="space-y-2">
+          {types.map((type) => (
+            <label key={type} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={preferences[type]}
+                onChange={(e) => toggle(type, e.target.checked)}
+                disabled={saving !== null}
+              />
+              {NOTIFICATION_LABELS[type]}
+            </label>
+          ))}
+        </div>
+      ) : (
+        !error && <p className="text-sm text-gray-500">Loading...</p>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
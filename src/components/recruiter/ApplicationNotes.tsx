@@ -0,0 +1,380 @@
+"use client";
+
+import { Fragment, useCallback, useEffect, useRef, useState } from "react";
+import { History, MessageSquare, Pencil, Reply, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { MAX_NOTE_LENGTH, mentionMarkdown } from "@/lib/application-notes";
+import type { NoteThread, NoteView, Teammate } from "@/lib/application-notes";
+import { parseMarkdown } from "@/lib/markdown";
+import type { MarkdownInline } from "@/lib/markdown";
+
+type ApplicationNotesProps = {
+  applicationId: string;
+};
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+function Inline({ nodes }: { nodes: MarkdownInline[] }) {
+  return (
+    <>
+      {nodes.map((node, index) => {
+        switch (node.type) {
+          case "text":
+            return <Fragment key={index}>{node.text}</Fragment>;
+          case "break":
+            return <br key={index} />;
+          case "code":
+            return (
+              <code key={index} className="px-1 rounded bg-gray-100 text-[0.85em]">
+                {node.text}
+              </code>
+            );
+          case "strong":
+            return <strong key={index}><Inline nodes={node.children} /></strong>;
+          case "em":
+            return <em key={index}><Inline nodes={node.children} /></em>;
+          case "link":
+            return (
+              <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                <Inline nodes={node.children} />
+              </a>
+            );
+          case "mention":
+            return (
+              <span key={index} className="px-1 rounded bg-blue-50 text-blue-700 font-medium">
+                @{node.name}
+              </span>
+            );
+        }
+      })}
+    </>
+  );
+}
+
+function Markdown({ source }: { source: string }) {
+  return (
+    <div className="space-y-2 text-sm text-gray-800 break-words">
+      {parseMarkdown(source).map((block, index) => {
+        switch (block.type) {
+          case "paragraph":
+            return <p key={index}><Inline nodes={block.children} /></p>;
+          case "heading":
+            return (
+              <p key={index} className={block.level === 1 ? "text-base font-semibold" : "font-semibold"}>
+                <Inline nodes={block.children} />
+              </p>
+            );
+          case "quote":
+            return (
+              <blockquote key={index} className="pl-3 border-l-2 border-gray-300 text-gray-600">
+                <Inline nodes={block.children} />
+              </blockquote>
+            );
+          case "code":
+            return (
+              <pre key={index} className="p-2 rounded bg-gray-100 text-xs overflow-x-auto">
+                {block.text}
+              </pre>
+            );
+          case "list": {
+            const List = block.ordered ? "ol" : "ul";
+            return (
+              <List key={index} className={`pl-5 space-y-0.5 ${block.ordered ? "list-decimal" : "list-disc"}`}>
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}><Inline nodes={item} /></li>
+                ))}
+              </List>
+            );
+          }
+        }
+      })}
+    </div>
+  );
+}
+
+type NoteEditorProps = {
+  teammates: Teammate[];
+  initialValue?: string;
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (body: string) => Promise<boolean>;
+  onCancel?: () => void;
+};
+
+// Textarea that suggests teammates after "@" and inserts them as mentions
+function NoteEditor({ teammates, initialValue = "", placeholder, submitLabel, onSubmit, onCancel }: NoteEditorProps) {
+  const [value, setValue] = useState(initialValue);
+  const [query, setQuery] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const textarea = useRef<HTMLTextAreaElement>(null);
+
+  function updateQuery(text: string, cursor: number) {
+    const match = text.slice(0, cursor).match(/(?:^|\s)@([^\s@[\]]*)$/);
+    setQuery(match ? match[1].toLowerCase() : null);
+  }
+
+  function insertMention(teammate: Teammate) {
+    const cursor = textarea.current?.selectionStart ?? value.length;
+    const start = value.slice(0, cursor).lastIndexOf("@");
+    const next = `${value.slice(0, start)}${mentionMarkdown(teammate)} ${value.slice(cursor)}`;
+    setValue(next);
+    setQuery(null);
+    textarea.current?.focus();
+  }
+
+  async function submit() {
+    if (!value.trim()) return;
+    setSaving(true);
+    const saved = await onSubmit(value.trim());
+    setSaving(false);
+    if (saved && !initialValue) setValue("");
+  }
+
+  const suggestions =
+    query === null ? [] : teammates.filter((t) => t.name.toLowerCase().includes(query)).slice(0, 6);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <textarea
+          ref={textarea}
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value);
+            updateQuery(e.target.value, e.target.selectionStart);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") setQuery(null);
+            if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) submit();
+          }}
+          placeholder={placeholder}
+          maxLength={MAX_NOTE_LENGTH}
+          className="w-full min-h-[80px] px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {suggestions.length > 0 && (
+          <ul className="absolute z-10 left-2 top-full mt-1 w-56 bg-white border border-gray-200 rounded-lg shadow-md py-1 text-sm">
+            {suggestions.map((teammate) => (
+              <li key={teammate.userId}>
+                <button
+                  type="button"
+                  // Keep focus in the textarea so the cursor position survives
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => insertMention(teammate)}
+                  className="w-full text-left px-3 py-1.5 hover:bg-gray-100"
+                >
+                  {teammate.name}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-gray-500">Markdown supported. Type @ to mention a teammate.</p>
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button size="sm" variant="outline" onClick={onCancel} disabled={saving}>
+              Cancel
+            </Button>
+          )}
+          <Button size="sm" onClick={submit} disabled={saving || !value.trim()}>
+            {saving ? "Saving..." : submitLabel}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The hiring team's private notes on an application. Never shown to candidates.
+ */
+export default function ApplicationNotes({ applicationId }: ApplicationNotesProps) {
+  const [threads, setThreads] = useState<NoteThread[]>([]);
+  const [teammates, setTeammates] = useState<Teammate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState<Set<string>>(new Set());
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/applications/${applicationId}/notes`, { cache: "no-store" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to load notes");
+      setThreads(data.notes ?? []);
+      setTeammates(data.teammates ?? []);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load notes");
+    } finally {
+      setLoading(false);
+    }
+  }, [applicationId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function send(url: string, method: string, body?: object): Promise<boolean> {
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to save note");
+      await load();
+      return true;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save note");
+      return false;
+    }
+  }
+
+  async function remove(note: NoteView) {
+    if (!confirm("Delete this note? It will be marked as deleted and its text kept in the history.")) return;
+    await send(`/api/applications/${applicationId}/notes/${note.id}`, "DELETE");
+  }
+
+  function toggleHistory(noteId: string) {
+    setShowHistory((current) => {
+      const next = new Set(current);
+      if (next.has(noteId)) next.delete(noteId);
+      else next.add(noteId);
+      return next;
+    });
+  }
+
+  function renderNote(note: NoteView, threadId: string) {
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm">
+            <span className="font-medium">{note.authorName || "Former teammate"}</span>
+            <span className="ml-2 text-xs text-gray-500" title={new Date(note.createdAt).toLocaleString()}>
+              {formatTime(note.createdAt)}
+              {note.editedAt && !note.deletedAt && <span title={new Date(note.editedAt).toLocaleString()}> (edited)</span>}
+            </span>
+          </p>
+          <div className="flex items-center gap-1 text-gray-500">
+            {note.history.length > 0 && (
+              <button type="button" onClick={() => toggleHistory(note.id)} className="p-1 hover:text-gray-800" title="History">
+                <History className="h-4 w-4" />
+              </button>
+            )}
+            {!note.deletedAt && (
+              <button type="button" onClick={() => setReplyingTo(threadId)} className="p-1 hover:text-gray-800" title="Reply">
+                <Reply className="h-4 w-4" />
+              </button>
+            )}
+            {note.isMine && !note.deletedAt && (
+              <>
+                <button type="button" onClick={() => setEditing(note.id)} className="p-1 hover:text-gray-800" title="Edit">
+                  <Pencil className="h-4 w-4" />
+                </button>
+                <button type="button" onClick={() => remove(note)} className="p-1 hover:text-red-600" title="Delete">
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {note.deletedAt ? (
+          <p className="text-sm italic text-gray-500">Deleted {formatTime(note.deletedAt)}</p>
+        ) : editing === note.id ? (
+          <NoteEditor
+            teammates={teammates}
+            initialValue={note.body ?? ""}
+            placeholder="Edit note"
+            submitLabel="Save"
+            onCancel={() => setEditing(null)}
+            onSubmit={async (body) => {
+              const saved = await send(`/api/applications/${applicationId}/notes/${note.id}`, "PATCH", { body });
+              if (saved) setEditing(null);
+              return saved;
+            }}
+          />
+        ) : (
+          <Markdown source={note.body ?? ""} />
+        )}
+
+        {showHistory.has(note.id) && (
+          <ol className="mt-2 space-y-2 border-l-2 border-gray-200 pl-3">
+            {note.history.map((revision, index) => (
+              <li key={index} className="space-y-1">
+                <p className="text-xs text-gray-500">
+                  {revision.action === "deleted" ? "Deleted" : "Edited"} by {revision.changedByName || "a former teammate"}{" "}
+                  {formatTime(revision.changedAt)}. Previous text:
+                </p>
+                <div className="opacity-75">
+                  <Markdown source={revision.body} />
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm space-y-4">
+      <div className="flex items-center gap-2">
+        <MessageSquare className="h-5 w-5 text-gray-700" />
+        <h3 className="text-lg font-semibold">Team Notes</h3>
+        <span className="text-xs text-gray-500">Only your hiring team can see these</span>
+      </div>
+
+      <NoteEditor
+        teammates={teammates}
+        placeholder="Add a note for the team"
+        submitLabel="Add note"
+        onSubmit={(body) => send(`/api/applications/${applicationId}/notes`, "POST", { body })}
+      />
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading notes...</p>
+      ) : threads.length === 0 ? (
+        <p className="text-sm text-gray-500">No notes yet.</p>
+      ) : (
+        <ul className="space-y-4">
+          {threads.map((thread) => (
+            <li key={thread.id} className="border border-gray-100 rounded-lg p-3 space-y-3">
+              {renderNote(thread, thread.id)}
+              {thread.replies.length > 0 && (
+                <ul className="ml-4 pl-3 border-l border-gray-200 space-y-3">
+                  {thread.replies.map((reply) => (
+                    <li key={reply.id}>{renderNote(reply, thread.id)}</li>
+                  ))}
+                </ul>
+              )}
+              {replyingTo === thread.id && (
+                <div className="ml-4">
+                  <NoteEditor
+                    teammates={teammates}
+                    placeholder="Reply"
+                    submitLabel="Reply"
+                    onCancel={() => setReplyingTo(null)}
+                    onSubmit={async (body) => {
+                      const saved = await send(`/api/applications/${applicationId}/notes`, "POST", { body, parentId: thread.id });
+                      if (saved) setReplyingTo(null);
+                      return saved;
+                    }}
+                  />
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+"use client";
+
+import { useState } from "react";
+import { Download, Tag, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Modal } from "@/components/ui/modal";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DEFAULT_REJECTION_TEMPLATE,
+  MAX_TEMPLATE_LENGTH,
+  TEMPLATE_VARIABLES,
+  normalizeTag,
+} from "@/lib/bulk-actions";
+import type { BulkItemResult } from "@/lib/bulk-actions";
+import { MAX_TRANSITION_REASON_LENGTH } from "@/lib/status-transitions";
+
+type BulkActionBarProps = {
+  selectedIds: string[];
+  // Move targets: pipeline stage ids on a job page, statuses across jobs
+  moveOptions: { value: string; label: string }[];
+  moveBy: "stageId" | "status";
+  // Row label for failures, e.g. the candidate's name
+  labelFor: (applicationId: string) => string;
+  // Called with each application's result after a move, reject or tag
+  onResults: (action: "move" | "reject" | "tag", results: BulkItemResult[], tags?: { tags: string[]; remove: boolean }) => void;
+  onClear: () => void;
+};
+
+type Summary = { message: string; failures: Extract<BulkItemResult, { ok: false }>[] };
+
+/**
+ * Actions on the applications selected in a list: move to a stage, reject
+ * (optionally messaging each candidate from a template), tag and export CSV.
+ * Shows which rows failed when only some succeed.
+ */
+export default function BulkActionBar({ selectedIds, moveOptions, moveBy, labelFor, onResults, onClear }: BulkActionBarProps) {
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<Summary | null>(null);
+  const [rejecting, setRejecting] = useState(false);
+  const [reason, setReason] = useState("");
+  const [sendMessage, setSendMessage] = useState(true);
+  const [template, setTemplate] = useState(DEFAULT_REJECTION_TEMPLATE);
+  const [tagInput, setTagInput] = useState("");
+
+  async function run(body: Record<string, unknown>, verb: string) {
+    const action = body.action as string;
+    setBusy(action);
+    setError(null);
+    setSummary(null);
+    try {
+      const res = await fetch("/api/applications/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...body, applicationIds: selectedIds }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        const details = data?.details ? Object.values(data.details).flat() : [];
+        throw new Error((details[0] as string | undefined) || data?.error || "Bulk action failed");
+      }
+      const results: BulkItemResult[] = data.results ?? [];
+      setSummary({
+        message: `${verb} ${data.succeeded} of ${results.length}`,
+        failures: results.filter((r): r is Extract<BulkItemResult, { ok: false }> => !r.ok),
+      });
+      return data as { results: BulkItemResult[]; csv?: string };
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Bulk action failed");
+      return null;
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function move(value: string) {
+    const data = await run({ action: "move", [moveBy]: value }, "Moved");
+    if (data) onResults("move", data.results);
+  }
+
+  async function reject() {
+    const data = await run(
+      { action: "reject", reason: reason.trim() || undefined, message: sendMessage ? template : undefined },
+      "Rejected"
+    );
+    if (data) {
+      setRejecting(false);
+      setReason("");
+      onResults("reject", data.results);
+    }
+  }
+
+  async function tag(remove: boolean) {
+    const tags = tagInput.split(",").map(normalizeTag).filter(Boolean);
+    if (tags.length === 0) return;
+    const data = await run({ action: "tag", tags, remove }, remove ? "Untagged" : "Tagged");
+    if (data) {
+      setTagInput("");
+      onResults("tag", data.results, { tags, remove });
+    }
+  }
+
+  async function exportCsv() {
+    const data = await run({ action: "export" }, "Exported");
+    if (!data?.csv) return;
+    const url = URL.createObjectURL(new Blob([data.csv], { type: "text/csv;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `applications-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  if (selectedIds.length === 0 && !summary) return null;
+
+  return (
+    <div className="rounded-lg border border-purple-200 bg-purple-50 px-4 py-3 space-y-2">
+      {selectedIds.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium text-gray-800">{selectedIds.length} selected</span>
+          <Select value="" onValueChange={move} disabled={busy !== null}>
+            <SelectTrigger className="w-48 bg-white" aria-label="Move selected to stage">
+              <SelectValue placeholder={busy === "move" ? "Moving..." : "Move to stage..."} />
+            </SelectTrigger>
+            <SelectContent>
+              {moveOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="outline" onClick={() => setRejecting(true)} disabled={busy !== null} className="text-red-600">
+            Reject
+          </Button>
+          <div className="flex items-center gap-1">
+            <Input
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              placeholder="Tags, comma separated"
+              className="h-8 w-44 bg-white"
+              aria-label="Tags"
+            />
+            <Button size="sm" variant="outline" onClick={() => tag(false)} disabled={busy !== null || !tagInput.trim()}>
+              <Tag className="h-4 w-4" />
+              Tag
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => tag(true)} disabled={busy !== null || !tagInput.trim()}>
+              Untag
+            </Button>
+          </div>
+          <Button size="sm" variant="outline" onClick={exportCsv} disabled={busy !== null}>
+            <Download className="h-4 w-4" />
+            {busy === "export" ? "Exporting..." : "Export CSV"}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={onClear} disabled={busy !== null}>
+            Clear selection
+          </Button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {summary && (
+        <div className="text-sm space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <p className={summary.failures.length > 0 ? "text-amber-800" : "text-green-800"}>
+              {summary.message}
+              {summary.failures.length > 0 && `; ${summary.failures.length} failed`}
+            </p>
+            <button type="button" onClick={() => setSummary(null)} className="text-gray-500 hover:text-gray-700" aria-label="Dismiss">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          {summary.failures.length > 0 && (
+            <ul className="list-disc pl-5 text-gray-700">
+              {summary.failures.map((failure) => (
+                <li key={failure.applicationId}>
+                  {labelFor(failure.applicationId)}: {failure.error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <Modal
+        open={rejecting}
+        title={`Reject ${selectedIds.length} ${selectedIds.length === 1 ? "application" : "applications"}`}
+        onClose={() => setRejecting(false)}
+        actions={
+          <>
+            <Button variant="outline" onClick={() => setRejecting(false)} disabled={busy !== null}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={reject} disabled={busy !== null || (sendMessage && !template.trim())}>
+              {busy === "reject" ? "Rejecting..." : "Reject"}
+            </Button>
+          </>
+        }
+      >
+        <div className="space-y-3">
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason (internal, optional)"
+            maxLength={MAX_TRANSITION_REASON_LENGTH}
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={sendMessage} onChange={(e) => setSendMessage(e.target.checked)} />
+            Message each candidate
+          </label>
+          {sendMessage && (
+            <>
+              <textarea
+                value={template}
+                onChange={(e) => setTemplate(e.target.value)}
+                maxLength={MAX_TEMPLATE_LENGTH}
+                className="w-full min-h-[160px] px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="text-xs text-gray-500">
+                Placeholders: {TEMPLATE_VARIABLES.map((name) => `{{${name}}}`).join(", ")}
+              </p>
+            </>
+          )}
+        </div>
+      </Modal>
+    </div>
+  );
+}
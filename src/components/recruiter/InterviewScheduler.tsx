@@ -0,0 +1,226 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { INTERVIEW_STATUS_LABELS, MAX_SLOTS_PER_REQUEST, formatInterviewTime } from "@/lib/interviews";
+import type { InterviewView } from "@/lib/interviews";
+
+type InterviewSchedulerProps = {
+  applicationId: string;
+  // Slots can only be published while the application is in an Interview stage
+  inInterviewStage: boolean;
+};
+
+const DURATIONS = [30, 45, 60, 90];
+
+const STATUS_COLORS: Record<InterviewView["status"], string> = {
+  available: "bg-blue-100 text-blue-800",
+  booked: "bg-green-100 text-green-800",
+  cancelled: "bg-gray-100 text-gray-600",
+};
+
+/**
+ * Publish interview slots for the candidate to book, and manage the booking.
+ * Times are entered in the recruiter's browser timezone and also shown in the
+ * candidate's.
+ */
+export default function InterviewScheduler({ applicationId, inInterviewStage }: InterviewSchedulerProps) {
+  const [interviews, setInterviews] = useState<InterviewView[]>([]);
+  const [candidateZone, setCandidateZone] = useState("UTC");
+  const [canSchedule, setCanSchedule] = useState(false);
+  const [starts, setStarts] = useState<string[]>([]);
+  const [draftStart, setDraftStart] = useState("");
+  const [duration, setDuration] = useState(45);
+  const [location, setLocation] = useState("");
+  const [meetingUrl, setMeetingUrl] = useState("");
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const localZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  const loadInterviews = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/applications/${applicationId}/interviews`, { cache: "no-store" });
+      if (!res.ok) throw new Error("Failed to load interviews");
+      const data = await res.json();
+      setInterviews(Array.isArray(data?.interviews) ? data.interviews : []);
+      setCandidateZone(data?.timezone || "UTC");
+      setCanSchedule(!!data?.canSchedule);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load interviews");
+    }
+  }, [applicationId]);
+
+  useEffect(() => {
+    loadInterviews();
+  }, [loadInterviews]);
+
+  const booked = interviews.find((i) => i.status === "booked");
+
+  function addSlot() {
+    // datetime-local values are in the browser's timezone
+    const start = new Date(draftStart);
+    if (Number.isNaN(start.getTime())) return;
+    setStarts((prev) => (prev.includes(start.toISOString()) ? prev : [...prev, start.toISOString()].sort()));
+    setDraftStart("");
+  }
+
+  async function publish() {
+    setBusy("publish");
+    setError(null);
+    try {
+      const res = await fetch(`/api/applications/${applicationId}/interviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          slots: starts.map((start) => ({
+            startsAt: start,
+            endsAt: new Date(Date.parse(start) + duration * 60000).toISOString(),
+          })),
+          location: location.trim() || null,
+          meetingUrl: meetingUrl.trim(),
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        const details = data?.details ? Object.values(data.details).flat() : [];
+        throw new Error((details[0] as string | undefined) || data?.error || "Failed to publish slots");
+      }
+      setStarts([]);
+      await loadInterviews();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to publish slots");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function withdraw(interview: InterviewView) {
+    const isBooked = interview.status === "booked";
+    if (isBooked && !confirm("Cancel this interview? The candidate will need a new time.")) return;
+    setBusy(interview.id);
+    setError(null);
+    try {
+      const url = `/api/applications/${applicationId}/interviews/${interview.id}`;
+      const res = isBooked
+        ? await fetch(url, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ action: "cancel" }),
+          })
+        : await fetch(url, { method: "DELETE" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to update interview");
+      await loadInterviews();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to update interview");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold">Interview</h3>
+        <p className="text-xs text-gray-500">Candidate&apos;s timezone: {candidateZone}</p>
+      </div>
+
+      {interviews.length > 0 ? (
+        <ul className="space-y-2">
+          {interviews.map((interview) => (
+            <li key={interview.id} className="border border-gray-100 rounded-lg p-3 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium">{formatInterviewTime(interview.startsAt, interview.endsAt, localZone)}</p>
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_COLORS[interview.status]}`}>
+                  {INTERVIEW_STATUS_LABELS[interview.status]}
+                </span>
+              </div>
+              {candidateZone !== localZone && (
+                <p className="text-xs text-gray-500">
+                  Candidate: {formatInterviewTime(interview.startsAt, interview.endsAt, candidateZone)}
+                </p>
+              )}
+              <div className="flex items-center gap-3 text-sm">
+                {interview.icsUrl && (
+                  <a href={interview.icsUrl} className="text-blue-600 hover:underline">
+                    Download .ics
+                  </a>
+                )}
+                {canSchedule && interview.status !== "cancelled" && (
+                  <button
+                    type="button"
+                    onClick={() => withdraw(interview)}
+                    disabled={busy === interview.id}
+                    className="text-red-600 hover:underline disabled:opacity-50"
+                  >
+                    {interview.status === "booked" ? "Cancel interview" : "Remove"}
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">No interview times offered yet.</p>
+      )}
+
+      {canSchedule && !booked && (
+        inInterviewStage ? (
+          <div className="pt-4 border-t border-gray-100 space-y-3">
+            <p className="text-sm font-medium text-gray-700">Offer times</p>
+            <div className="flex gap-2">
+              <Input
+                type="datetime-local"
+                value={draftStart}
+                onChange={(e) => setDraftStart(e.target.value)}
+                aria-label="Slot start"
+              />
+              <Button type="button" variant="outline" onClick={addSlot} disabled={!draftStart || starts.length >= MAX_SLOTS_PER_REQUEST}>
+                Add
+              </Button>
+            </div>
+            {starts.length > 0 && (
+              <ul className="space-y-1">
+                {starts.map((start) => (
+                  <li key={start} className="flex items-center justify-between text-sm">
+                    <span>{formatInterviewTime(start, new Date(Date.parse(start) + duration * 60000).toISOString(), localZone)}</span>
+                    <button
+                      type="button"
+                      onClick={() => setStarts((prev) => prev.filter((s) => s !== start))}
+                      className="text-xs text-gray-500 hover:text-red-600"
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <Select value={String(duration)} onValueChange={(val) => setDuration(Number(val))}>
+              <SelectTrigger aria-label="Duration">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DURATIONS.map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    {minutes} minutes
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input value={location} onChange={(e) => setLocation(e.target.value)} placeholder="Location (optional)" maxLength={200} />
+            <Input value={meetingUrl} onChange={(e) => setMeetingUrl(e.target.value)} placeholder="Video call link (optional)" maxLength={500} />
+            <Button className="w-full" onClick={publish} disabled={busy === "publish" || starts.length === 0}>
+              {busy === "publish" ? "Publishing..." : starts.length === 1 ? "Offer 1 time" : `Offer ${starts.length} times`}
+            </Button>
+          </div>
+        ) : (
+          <p className="text-xs text-gray-500">Move the application to an Interview stage to offer times.</p>
+        )
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
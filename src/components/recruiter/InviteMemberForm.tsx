@@ -0,0 +1,99 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ORGANIZATION_ROLES, ORGANIZATION_ROLE_LABELS } from "@/lib/organizations";
+import type { OrganizationRole } from "@/lib/types/database";
+
+type InviteMemberFormProps = {
+  // Called after an invite is created so the page can refresh its pending list
+  onInvited: () => void;
+};
+
+/**
+ * Invite a colleague by email. There's no outbound email yet, so the form
+ * shows the sign-up link for the admin to send.
+ */
+export default function InviteMemberForm({ onInvited }: InviteMemberFormProps) {
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<OrganizationRole>("recruiter");
+  const [link, setLink] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setSending(true);
+    setError(null);
+    setLink(null);
+    setCopied(false);
+    try {
+      const res = await fetch("/api/organizations/invites", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, role }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.details?.email?.[0] || data?.error || "Failed to create invite");
+      setLink(`${window.location.origin}${data.link}`);
+      setEmail("");
+      onInvited();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to create invite");
+    } finally {
+      setSending(false);
+    }
+  }
+
+  async function copyLink() {
+    if (!link) return;
+    await navigator.clipboard.writeText(link);
+    setCopied(true);
+  }
+
+  return (
+    <div className="space-y-3">
+      <form onSubmit={onSubmit} className="flex flex-col sm:flex-row gap-2">
+        <Input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="colleague@company.com"
+          aria-label="Email"
+          required
+          className="flex-1"
+        />
+        <Select value={role} onValueChange={(val) => setRole(val as OrganizationRole)}>
+          <SelectTrigger className="sm:w-44" aria-label="Role">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ORGANIZATION_ROLES.map((r) => (
+              <SelectItem key={r} value={r}>
+                {ORGANIZATION_ROLE_LABELS[r]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="submit" disabled={sending || !email.trim()}>
+          {sending ? "Inviting..." : "Invite"}
+        </Button>
+      </form>
+      {link && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg space-y-2">
+          <p className="text-sm text-green-800">Invite created. Send this link to your colleague:</p>
+          <div className="flex gap-2">
+            <Input value={link} readOnly aria-label="Invite link" className="flex-1 bg-white" />
+            <Button type="button" variant="outline" onClick={copyLink}>
+              {copied ? "Copied" : "Copy"}
+            </Button>
+          </div>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
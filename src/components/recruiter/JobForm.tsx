@@ -0,0 +1,627 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, X, ArrowUp, ArrowDown } from "lucide-react";
+import SupplementalQuestionEditor from "@/components/recruiter/SupplementalQuestionEditor";
+import JobRequirementsEditor from "@/components/recruiter/JobRequirementsEditor";
+import { SupplementalQuestionsSchema } from "@/lib/supplemental-questions";
+import type { SupplementalQuestion } from "@/lib/supplemental-questions";
+import { EMPTY_JOB_REQUIREMENTS, JobRequirementsSchema } from "@/lib/job-requirements";
+import type { ApplicationStatus, JobRequirements, PipelineStage, SalaryPeriod, ScorecardCompetency } from "@/lib/types/database";
+import { APPLICATION_STATUSES, DEFAULT_PIPELINE, STATUS_LABELS, PipelineStagesSchema, assignStageIds, isTerminalStatus } from "@/lib/pipeline";
+import { COMMON_CURRENCIES, DEFAULT_CURRENCY, JobSalarySchema, SALARY_PERIODS, SALARY_PERIOD_LABELS, formatSalaryRange, parseSalaryRange } from "@/lib/salary";
+import type { JobSalary } from "@/lib/salary";
+import { DEFAULT_COMPETENCIES, MAX_COMPETENCIES, ScorecardCompetenciesSchema, assignCompetencyIds } from "@/lib/scorecards";
+
+// Values the form edits; sent as the body of POST /api/jobs and PATCH /api/jobs/[id]
+export type JobFormValues = {
+  title: string;
+  company: string;
+  location: string;
+  description: string;
+  requirements: JobRequirements;
+  supplementalQuestions: SupplementalQuestion[];
+  pipelineStages: PipelineStage[];
+  scorecardCompetencies: ScorecardCompetency[];
+} & Partial<JobSalary>;
+
+// "draft" for the secondary save button, "submit" for the main action
+export type JobFormIntent = "draft" | "submit";
+
+type JobFormProps = {
+  initialValues?: Partial<Omit<JobFormValues, "description">> & { description?: string | null };
+  submitLabel: string;
+  submittingLabel: string;
+  // Shows a secondary "save as draft" button when set
+  draftLabel?: string;
+  // Throw to show an error in the form
+  onSubmit: (values: JobFormValues, intent: JobFormIntent) => Promise<void>;
+  onCancel: () => void;
+};
+
+/**
+ * Job posting form shared by the create-job page and the job edit mode
+ */
+export default function JobForm({ initialValues, submitLabel, submittingLabel, draftLabel, onSubmit, onCancel }: JobFormProps) {
+  const [loading, setLoading] = useState<JobFormIntent | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  
+  // Job form data
+  const [title, setTitle] = useState(initialValues?.title ?? "");
+  const [company, setCompany] = useState(initialValues?.company ?? "");
+  const [location, setLocation] = useState(initialValues?.location ?? "");
+  const [description, setDescription] = useState(initialValues?.description ?? "");
+
+  // Compensation: free-text range is parsed into the structured fields, which stay editable
+  const [salaryText, setSalaryText] = useState("");
+  const [salaryMin, setSalaryMin] = useState(initialValues?.salary_min?.toString() ?? "");
+  const [salaryMax, setSalaryMax] = useState(initialValues?.salary_max?.toString() ?? "");
+  const [salaryCurrency, setSalaryCurrency] = useState(initialValues?.salary_currency || DEFAULT_CURRENCY);
+  const [salaryPeriod, setSalaryPeriod] = useState<SalaryPeriod>(initialValues?.salary_period || "yearly");
+  const [salaryNote, setSalaryNote] = useState<string | null>(null);
+
+  const applySalaryText = (text: string) => {
+    setSalaryText(text);
+    if (!text.trim()) {
+      setSalaryNote(null);
+      return;
+    }
+    const parsed = parseSalaryRange(text);
+    if (!parsed.ok) {
+      setSalaryNote(`Couldn't read that range (${parsed.reason.toLowerCase()}). Enter the amounts below.`);
+      return;
+    }
+    setSalaryMin(parsed.salary.salary_min?.toString() ?? "");
+    setSalaryMax(parsed.salary.salary_max?.toString() ?? "");
+    setSalaryCurrency(parsed.salary.salary_currency ?? DEFAULT_CURRENCY);
+    setSalaryPeriod(parsed.salary.salary_period ?? "yearly");
+    setSalaryNote(parsed.assumptions.length > 0 ? `${parsed.assumptions.join("; ")} — adjust below if needed.` : null);
+  };
+
+  const salaryFields = {
+    salary_min: salaryMin.trim() ? Number(salaryMin) : null,
+    salary_max: salaryMax.trim() ? Number(salaryMax) : null,
+    salary_currency: salaryCurrency,
+    salary_period: salaryPeriod,
+  };
+  const salaryPreview = formatSalaryRange(salaryFields);
+  
+  // Structured requirements (skills, experience, degree, ...)
+  const [requirements, setRequirements] = useState<JobRequirements>(initialValues?.requirements ?? EMPTY_JOB_REQUIREMENTS);
+
+  // Supplemental questions
+  const [supplementalQuestions, setSupplementalQuestions] = useState<SupplementalQuestion[]>(initialValues?.supplementalQuestions ?? []);
+
+  // Hiring pipeline (new jobs start from the default six stages)
+  const [pipelineStages, setPipelineStages] = useState<PipelineStage[]>(initialValues?.pipelineStages ?? DEFAULT_PIPELINE);
+
+  const addStage = () => {
+    // New stages get their id from the name on submit
+    setPipelineStages(prev => {
+      const firstTerminal = prev.findIndex(s => isTerminalStatus(s.status));
+      const insertAt = firstTerminal === -1 ? prev.length : firstTerminal;
+      const stage: PipelineStage = { id: "", name: "", status: "interview" };
+      return [...prev.slice(0, insertAt), stage, ...prev.slice(insertAt)];
+    });
+  };
+
+  const updateStage = (index: number, updates: Partial<PipelineStage>) => {
+    setPipelineStages(prev => prev.map((s, idx) => idx === index ? { ...s, ...updates } : s));
+  };
+
+  const removeStage = (index: number) => {
+    setPipelineStages(prev => prev.filter((_, idx) => idx !== index));
+  };
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    setPipelineStages(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  // Competencies interviewers rate on their scorecards
+  const [competencies, setCompetencies] = useState<ScorecardCompetency[]>(initialValues?.scorecardCompetencies ?? DEFAULT_COMPETENCIES);
+
+  const updateCompetency = (index: number, updates: Partial<ScorecardCompetency>) => {
+    setCompetencies(prev => prev.map((c, idx) => idx === index ? { ...c, ...updates } : c));
+  };
+
+  const addQuestion = () => {
+    const newQuestion: SupplementalQuestion = {
+      id: `q-${Date.now()}`,
+      question: "",
+      type: "text",
+      required: false,
+    };
+    setSupplementalQuestions([...supplementalQuestions, newQuestion]);
+  };
+
+  const updateQuestion = (id: string, updates: Partial<SupplementalQuestion>) => {
+    setSupplementalQuestions(prev =>
+      prev.map(q => q.id === id ? { ...q, ...updates } : q)
+    );
+  };
+
+  const removeQuestion = (id: string) => {
+    // Questions shown conditionally on the removed one become unconditional
+    setSupplementalQuestions(prev =>
+      prev
+        .filter(q => q.id !== id)
+        .map(q => (q.showIf?.questionId === id ? { ...q, showIf: undefined } : q))
+    );
+  };
+
+  const submit = async (intent: JobFormIntent) => {
+    setLoading(intent);
+    setError(null);
+
+    try {
+      // Validate form
+      if (!title.trim() || !company.trim() || !location.trim()) {
+        throw new Error("Please fill in all required fields");
+      }
+
+      // Validate requirements
+      const requirementsCheck = JobRequirementsSchema.safeParse(requirements);
+      if (!requirementsCheck.success) {
+        throw new Error(requirementsCheck.error.issues[0]?.message || "Invalid requirements");
+      }
+
+      // Validate supplemental questions
+      const questionsCheck = SupplementalQuestionsSchema.safeParse(
+        supplementalQuestions.map(q => ({ ...q, options: q.options?.map(opt => opt.trim()) }))
+      );
+      if (!questionsCheck.success) {
+        throw new Error(questionsCheck.error.issues[0]?.message || "Invalid supplemental questions");
+      }
+
+      // Validate salary (optional)
+      const hasSalary = salaryFields.salary_min !== null || salaryFields.salary_max !== null;
+      const salaryCheck = JobSalarySchema.safeParse(
+        hasSalary ? salaryFields : { salary_min: null, salary_max: null, salary_currency: null, salary_period: null }
+      );
+      if (!salaryCheck.success) {
+        throw new Error(salaryCheck.error.issues[0]?.message || "Invalid salary");
+      }
+
+      // Validate pipeline stages
+      const stages = assignStageIds(pipelineStages.map(st => ({ ...st, name: st.name.trim() })));
+      const pipelineCheck = PipelineStagesSchema.safeParse(stages);
+      if (!pipelineCheck.success) {
+        throw new Error(pipelineCheck.error.issues[0]?.message || "Invalid hiring pipeline");
+      }
+
+      // Validate scorecard competencies
+      const competencyCheck = ScorecardCompetenciesSchema.safeParse(
+        assignCompetencyIds(competencies.map(c => ({ ...c, name: c.name.trim() })))
+      );
+      if (!competencyCheck.success) {
+        throw new Error(competencyCheck.error.issues[0]?.message || "Invalid scorecard competencies");
+      }
+
+      await onSubmit(
+        {
+          title: title.trim(),
+          company: company.trim(),
+          location: location.trim(),
+          description: description.trim(),
+          ...salaryCheck.data,
+          requirements: requirementsCheck.data,
+          supplementalQuestions: questionsCheck.data,
+          pipelineStages: pipelineCheck.data,
+          scorecardCompetencies: competencyCheck.data,
+        },
+        intent
+      );
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to save job");
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submit("submit");
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-8">
+      {/* Basic Job Information */}
+      <div className="bg-white rounded-xl border border-gray-200 p-6 sm:p-8 shadow-sm space-y-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-blue-500 to-blue-600 flex items-center justify-center">
+            <svg className="w-5 h-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </div>
+          <h2 className="text-xl font-bold text-gray-900">Job Information</h2>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label htmlFor="title" className="text-sm font-semibold text-gray-700">
+              Job Title *
+            </label>
+            <Input
+              id="title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g., Senior Frontend Engineer"
+              className="h-11 rounded-lg"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="company" className="text-sm font-semibold text-gray-700">
+              Company *
+            </label>
+            <Input
+              id="company"
+              value={company}
+              onChange={(e) => setCompany(e.target.value)}
+              placeholder="e.g., Acme Corp"
+              className="h-11 rounded-lg"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="location" className="text-sm font-semibold text-gray-700">
+              Location *
+            </label>
+            <Input
+              id="location"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              placeholder="e.g., Remote, New York, NY"
+              className="h-11 rounded-lg"
+              required
+            />
+          </div>
+        </div>
+        <div className="space-y-3">
+          <label htmlFor="salary" className="text-sm font-semibold text-gray-700">
+            Salary Range
+          </label>
+          <Input
+            id="salary"
+            value={salaryText}
+            onChange={(e) => applySalaryText(e.target.value)}
+            placeholder="e.g., $120k - $150k per year, €45/hr"
+            className="h-11 rounded-lg"
+          />
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <Input
+              type="number"
+              min={0}
+              value={salaryMin}
+              onChange={(e) => setSalaryMin(e.target.value)}
+              placeholder="Min"
+              aria-label="Minimum salary"
+              className="h-10 rounded-lg"
+            />
+            <Input
+              type="number"
+              min={0}
+              value={salaryMax}
+              onChange={(e) => setSalaryMax(e.target.value)}
+              placeholder="Max"
+              aria-label="Maximum salary"
+              className="h-10 rounded-lg"
+            />
+            <Select value={salaryCurrency} onValueChange={setSalaryCurrency}>
+              <SelectTrigger className="h-10 rounded-lg" aria-label="Currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(COMMON_CURRENCIES as readonly string[]).includes(salaryCurrency) ? null : (
+                  <SelectItem value={salaryCurrency}>{salaryCurrency}</SelectItem>
+                )}
+                {COMMON_CURRENCIES.map(code => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={salaryPeriod} onValueChange={(value) => setSalaryPeriod(value as SalaryPeriod)}>
+              <SelectTrigger className="h-10 rounded-lg" aria-label="Pay period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SALARY_PERIODS.map(period => (
+                  <SelectItem key={period} value={period}>{SALARY_PERIOD_LABELS[period]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {salaryNote && <p className="text-xs text-amber-700">{salaryNote}</p>}
+          {salaryPreview && <p className="text-xs text-gray-500">Shown to candidates as: {salaryPreview}</p>}
+        </div>
+        <div className="space-y-2">
+          <label htmlFor="description" className="text-sm font-semibold text-gray-700">
+            Job Description
+          </label>
+          <textarea
+            id="description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Describe the role, responsibilities, and requirements..."
+            className="w-full min-h-[120px] px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-vertical text-sm"
+          />
+        </div>
+      </div>
+
+      {/* Requirements */}
+      <div className="bg-white rounded-xl border border-gray-200 p-6 sm:p-8 shadow-sm space-y-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-amber-500 to-amber-600 flex items-center justify-center">
+            <svg className="w-5 h-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+            </svg>
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Requirements</h2>
+            <p className="text-xs text-gray-500">Shown to candidates and used to rank applicants by match.</p>
+          </div>
+        </div>
+        <JobRequirementsEditor
+          value={requirements}
+          onChange={(updates) => setRequirements(prev => ({ ...prev, ...updates }))}
+        />
+      </div>
+
+      {/* Supplemental Questions */}
+      <div className="bg-white rounded-xl border border-gray-200 p-6 sm:p-8 shadow-sm space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-purple-500 to-purple-600 flex items-center justify-center">
+              <svg className="w-5 h-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            </div>
+            <h2 className="text-xl font-bold text-gray-900">Supplemental Questions</h2>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={addQuestion}
+            className="flex items-center gap-2 rounded-lg hover:bg-blue-50 hover:border-blue-300"
+          >
+            <Plus className="h-4 w-4" />
+            Add Question
+          </Button>
+        </div>
+        
+        {supplementalQuestions.length === 0 ? (
+          <div className="text-center py-8">
+            <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-gray-100 mb-3">
+              <svg className="w-6 h-6 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            </div>
+            <p className="text-sm text-gray-600 font-medium">
+              No supplemental questions added
+            </p>
+            <p className="text-xs text-gray-500 mt-1">
+              Click &quot;Add Question&quot; to create custom questions for candidates
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {supplementalQuestions.map((question, index) => (
+              <SupplementalQuestionEditor
+                key={question.id}
+                question={question}
+                index={index}
+                earlierQuestions={supplementalQuestions.slice(0, index)}
+                onChange={(updates) => updateQuestion(question.id, updates)}
+                onRemove={() => removeQuestion(question.id)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Hiring Pipeline */}
+      <div className="bg-white rounded-xl border border-gray-200 p-6 sm:p-8 shadow-sm space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-emerald-500 to-emerald-600 flex items-center justify-center">
+              <svg className="w-5 h-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+              </svg>
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Hiring Pipeline</h2>
+              <p className="text-xs text-gray-500">Order the stages applicants move through. Each stage has an outcome used for reporting and candidate updates.</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setPipelineStages(DEFAULT_PIPELINE)}
+            >
+              Reset
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={addStage}
+              className="flex items-center gap-2 rounded-lg hover:bg-blue-50 hover:border-blue-300"
+            >
+              <Plus className="h-4 w-4" />
+              Add Stage
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {pipelineStages.map((stage, index) => (
+            <div key={index} className="flex items-center gap-3 bg-gray-50 border border-gray-200 rounded-xl p-3">
+              <span className="w-6 text-sm font-medium text-gray-500 text-center">{index + 1}</span>
+              <Input
+                value={stage.name}
+                onChange={(e) => updateStage(index, { name: e.target.value })}
+                placeholder="e.g., Phone Screen"
+                className="flex-1"
+              />
+              <Select
+                value={stage.status}
+                onValueChange={(value) => updateStage(index, { status: value as ApplicationStatus })}
+              >
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {APPLICATION_STATUSES.map(status => (
+                    <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => moveStage(index, -1)}
+                disabled={index === 0}
+                aria-label="Move stage up"
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => moveStage(index, 1)}
+                disabled={index === pipelineStages.length - 1}
+                aria-label="Move stage down"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removeStage(index)}
+                className="text-red-600 hover:text-red-700"
+                aria-label="Remove stage"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Interview Scorecard */}
+      <div className="bg-white rounded-xl border border-gray-200 p-6 sm:p-8 shadow-sm space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-rose-500 to-rose-600 flex items-center justify-center">
+              <svg className="w-5 h-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" />
+              </svg>
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Interview Scorecard</h2>
+              <p className="text-xs text-gray-500">Competencies each interviewer rates from 1 to 4. Never shown to candidates.</p>
+            </div>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setCompetencies(prev => [...prev, { id: "", name: "" }])}
+            disabled={competencies.length >= MAX_COMPETENCIES}
+            className="flex items-center gap-2 rounded-lg hover:bg-blue-50 hover:border-blue-300"
+          >
+            <Plus className="h-4 w-4" />
+            Add Competency
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          {competencies.map((competency, index) => (
+            <div key={index} className="flex items-center gap-3 bg-gray-50 border border-gray-200 rounded-xl p-3">
+              <Input
+                value={competency.name}
+                onChange={(e) => updateCompetency(index, { name: e.target.value })}
+                placeholder="e.g., System design"
+                className="w-56"
+                aria-label="Competency name"
+              />
+              <Input
+                value={competency.description ?? ""}
+                onChange={(e) => updateCompetency(index, { description: e.target.value || undefined })}
+                placeholder="What a strong answer looks like (optional)"
+                className="flex-1"
+                aria-label="Competency description"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setCompetencies(prev => prev.filter((_, idx) => idx !== index))}
+                disabled={competencies.length === 1}
+                className="text-red-600 hover:text-red-700"
+                aria-label="Remove competency"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-xl">
+          <div className="flex items-center gap-2">
+            <svg className="w-5 h-5 text-red-600 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <p className="text-sm text-red-600 font-medium">{error}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row justify-end gap-3 pt-4">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel}
+          disabled={loading !== null}
+          className="h-11 rounded-lg"
+        >
+          Cancel
+        </Button>
+        {draftLabel && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => submit("draft")}
+            disabled={loading !== null}
+            className="h-11 rounded-lg"
+          >
+            {loading === "draft" ? "Saving..." : draftLabel}
+          </Button>
+        )}
+        <Button 
+          type="submit" 
+          disabled={loading !== null}
+          className="h-11 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 text-white font-semibold rounded-lg shadow-md hover:shadow-lg transition-all"
+        >
+          {loading === "submit" ? submittingLabel : submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { X } from "lucide-react";
+import {
+  DEGREE_LEVELS,
+  DEGREE_LEVEL_LABELS,
+  EMPLOYMENT_TYPES,
+  EMPLOYMENT_TYPE_LABELS,
+  MAX_YEARS_EXPERIENCE,
+  WORK_AUTHORIZATION_REQUIREMENTS,
+  WORK_AUTHORIZATION_REQUIREMENT_LABELS,
+} from "@/lib/job-requirements";
+import type { DegreeLevel, EmploymentType, JobRequirements, WorkAuthorizationRequirement } from "@/lib/types/database";
+
+// Select value for "no requirement" (Radix selects can't use an empty value)
+const NOT_REQUIRED = "__none__";
+
+type SkillListInputProps = {
+  id: string;
+  label: string;
+  skills: string[];
+  placeholder: string;
+  onChange: (skills: string[]) => void;
+};
+
+// Skill chips; Enter or comma adds what's typed, pasted lists are split on commas
+function SkillListInput({ id, label, skills, placeholder, onChange }: SkillListInputProps) {
+  const [draft, setDraft] = useState("");
+
+  const addSkills = (text: string) => {
+    const known = new Set(skills.map((s) => s.toLowerCase()));
+    const added: string[] = [];
+    for (const skill of text.split(",").map((s) => s.trim())) {
+      if (!skill || known.has(skill.toLowerCase())) continue;
+      known.add(skill.toLowerCase());
+      added.push(skill);
+    }
+    if (added.length > 0) onChange([...skills, ...added]);
+    setDraft("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <label htmlFor={id} className="text-sm font-semibold text-gray-700">
+        {label}
+      </label>
+      {skills.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {skills.map((skill) => (
+            <span key={skill} className="inline-flex items-center gap-1 px-2 py-1 bg-blue-50 text-blue-700 rounded-md text-xs font-medium">
+              {skill}
+              <button
+                type="button"
+                onClick={() => onChange(skills.filter((s) => s !== skill))}
+                className="hover:text-blue-900"
+                aria-label={`Remove ${skill}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <Input
+        id={id}
+        value={draft}
+        onChange={(e) => {
+          if (e.target.value.includes(",")) addSkills(e.target.value);
+          else setDraft(e.target.value);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            addSkills(draft);
+          }
+        }}
+        onBlur={() => addSkills(draft)}
+        placeholder={placeholder}
+        className="h-10 rounded-lg"
+      />
+    </div>
+  );
+}
+
+type JobRequirementsEditorProps = {
+  value: JobRequirements;
+  onChange: (updates: Partial<JobRequirements>) => void;
+};
+
+/**
+ * Editor for a job's structured requirements, used by JobForm
+ */
+export default function JobRequirementsEditor({ value, onChange }: JobRequirementsEditorProps) {
+  return (
+    <div className="space-y-5">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <SkillListInput
+          id="required-skills"
+          label="Required Skills"
+          skills={value.requiredSkills}
+          placeholder="e.g., React, TypeScript (press Enter to add)"
+          onChange={(requiredSkills) => onChange({ requiredSkills })}
+        />
+        <SkillListInput
+          id="nice-to-have-skills"
+          label="Nice-to-Have Skills"
+          skills={value.niceToHaveSkills}
+          placeholder="e.g., GraphQL, AWS"
+          onChange={(niceToHaveSkills) => onChange({ niceToHaveSkills })}
+        />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label htmlFor="min-years" className="text-sm font-semibold text-gray-700">
+            Minimum Years of Experience
+          </label>
+          <Input
+            id="min-years"
+            type="number"
+            min={0}
+            max={MAX_YEARS_EXPERIENCE}
+            step={1}
+            value={value.minYearsExperience ?? ""}
+            onChange={(e) => onChange({ minYearsExperience: e.target.value.trim() ? Number(e.target.value) : null })}
+            placeholder="Any"
+            className="h-10 rounded-lg"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-semibold text-gray-700">Degree</label>
+          <Select
+            value={value.degreeLevel ?? NOT_REQUIRED}
+            onValueChange={(v) => onChange({ degreeLevel: v === NOT_REQUIRED ? null : (v as DegreeLevel) })}
+          >
+            <SelectTrigger className="h-10 rounded-lg" aria-label="Degree">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NOT_REQUIRED}>Not required</SelectItem>
+              {DEGREE_LEVELS.map((level) => (
+                <SelectItem key={level} value={level}>{DEGREE_LEVEL_LABELS[level]} or higher</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-semibold text-gray-700">Work Authorization</label>
+          <Select
+            value={value.workAuthorization ?? NOT_REQUIRED}
+            onValueChange={(v) =>
+              onChange({ workAuthorization: v === NOT_REQUIRED ? null : (v as WorkAuthorizationRequirement) })
+            }
+          >
+            <SelectTrigger className="h-10 rounded-lg" aria-label="Work authorization">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NOT_REQUIRED}>Not required</SelectItem>
+              {WORK_AUTHORIZATION_REQUIREMENTS.map((auth) => (
+                <SelectItem key={auth} value={auth}>{WORK_AUTHORIZATION_REQUIREMENT_LABELS[auth]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-semibold text-gray-700">Employment Type</label>
+          <Select
+            value={value.employmentType ?? NOT_REQUIRED}
+            onValueChange={(v) => onChange({ employmentType: v === NOT_REQUIRED ? null : (v as EmploymentType) })}
+          >
+            <SelectTrigger className="h-10 rounded-lg" aria-label="Employment type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NOT_REQUIRED}>Not specified</SelectItem>
+              {EMPLOYMENT_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>{EMPLOYMENT_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { AlertTriangle, Paperclip } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { OFFER_STATE_LABELS, countdown } from "@/lib/offers";
+import type { CompetingDeadline, DeadlineUrgency, OfferState, OfferView } from "@/lib/offers";
+import { COMMON_CURRENCIES, DEFAULT_CURRENCY, SALARY_PERIODS, SALARY_PERIOD_LABELS } from "@/lib/salary";
+import type { SalaryPeriod } from "@/lib/types/database";
+
+type OfferPanelProps = {
+  applicationId: string;
+  // Offers can only be extended while the application is in an Offer stage
+  inOfferStage: boolean;
+};
+
+const STATE_COLORS: Record<OfferState, string> = {
+  extended: "bg-blue-100 text-blue-800",
+  accepted: "bg-emerald-100 text-emerald-800",
+  declined: "bg-red-100 text-red-800",
+  withdrawn: "bg-gray-100 text-gray-600",
+  expired: "bg-gray-100 text-gray-600",
+};
+
+const URGENCY_COLORS: Record<DeadlineUrgency, string> = {
+  expired: "bg-gray-100 text-gray-600",
+  urgent: "bg-red-100 text-red-800",
+  soon: "bg-yellow-100 text-yellow-800",
+  ok: "bg-green-100 text-green-800",
+};
+
+// Countdowns refresh once a minute
+const TICK_MS = 60_000;
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleString(undefined, { month: "short", day: "numeric", year: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+// start_date is a calendar date; format it without shifting across timezones
+function formatStartDate(date: string) {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: "UTC", month: "short", day: "numeric", year: "numeric" });
+}
+
+/**
+ * Extend and track offers on an application. Shows how long the open offer has
+ * left next to the candidate's competing deadlines, and warns when one of them
+ * comes first.
+ */
+export default function OfferPanel({ applicationId, inOfferStage }: OfferPanelProps) {
+  const [offers, setOffers] = useState<OfferView[]>([]);
+  const [competing, setCompeting] = useState<CompetingDeadline[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+  const [salaryAmount, setSalaryAmount] = useState("");
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+  const [period, setPeriod] = useState<SalaryPeriod>("yearly");
+  const [signingBonus, setSigningBonus] = useState("");
+  const [equity, setEquity] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [message, setMessage] = useState("");
+  const [letter, setLetter] = useState<File | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const letterInput = useRef<HTMLInputElement>(null);
+
+  const loadOffers = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/applications/${applicationId}/offers`, { cache: "no-store" });
+      if (!res.ok) throw new Error("Failed to load offers");
+      const data = await res.json();
+      setOffers(Array.isArray(data?.offers) ? data.offers : []);
+      setCompeting(Array.isArray(data?.competingDeadlines) ? data.competingDeadlines : []);
+      setCanManage(!!data?.canManage);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load offers");
+    }
+  }, [applicationId]);
+
+  useEffect(() => {
+    loadOffers();
+  }, [loadOffers]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  async function extend() {
+    setBusy("extend");
+    setError(null);
+    try {
+      const form = new FormData();
+      form.append("salaryAmount", salaryAmount);
+      form.append("salaryCurrency", currency);
+      form.append("salaryPeriod", period);
+      form.append("signingBonus", signingBonus);
+      form.append("equity", equity);
+      form.append("startDate", startDate);
+      // datetime-local values are in the browser's timezone
+      form.append("expiresAt", expiresAt ? new Date(expiresAt).toISOString() : "");
+      form.append("message", message);
+      if (letter) form.append("letter", letter);
+      const res = await fetch(`/api/applications/${applicationId}/offers`, { method: "POST", body: form });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        const details = data?.details ? Object.values(data.details).flat() : [];
+        throw new Error((details[0] as string | undefined) || data?.error || "Failed to extend offer");
+      }
+      setSalaryAmount("");
+      setSigningBonus("");
+      setEquity("");
+      setStartDate("");
+      setExpiresAt("");
+      setMessage("");
+      setLetter(null);
+      if (letterInput.current) letterInput.current.value = "";
+      await loadOffers();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to extend offer");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function withdraw(offer: OfferView) {
+    if (!confirm("Withdraw this offer? The candidate will no longer be able to accept it.")) return;
+    setBusy(offer.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/applications/${applicationId}/offers/${offer.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "withdraw" }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to withdraw offer");
+      await loadOffers();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to withdraw offer");
+      await loadOffers();
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  // States are computed on load; expire open offers as the clock passes them
+  const stateOf = (offer: OfferView): OfferState =>
+    offer.state === "extended" && Date.parse(offer.expiresAt) <= now.getTime() ? "expired" : offer.state;
+  const open = offers.find((o) => stateOf(o) === "extended");
+  const upcoming = competing.filter((d) => Date.parse(d.at) > now.getTime());
+  const firstCompeting = upcoming[0];
+  const competingFirst = !!open && !!firstCompeting && Date.parse(firstCompeting.at) < Date.parse(open.expiresAt);
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm space-y-4">
+      <h3 className="text-lg font-semibold">Offer</h3>
+
+      {open && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm text-gray-500">Offer expires</p>
+            <span className={`px-2 py-0.5 rounded text-xs font-medium ${URGENCY_COLORS[countdown(open.expiresAt, now).urgency]}`}>
+              {countdown(open.expiresAt, now).label}
+            </span>
+          </div>
+          <p className="text-xs text-gray-500">{formatDate(open.expiresAt)}</p>
+        </div>
+      )}
+
+      {upcoming.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-500">Competing deadlines</p>
+          <ul className="space-y-1">
+            {upcoming.map((deadline, index) => {
+              const left = countdown(deadline.at, now);
+              return (
+                <li key={`${deadline.source}-${index}`} className="flex items-center justify-between gap-2 text-sm">
+                  <span>
+                    {deadline.source === "offer" ? "Another offer" : "Deadline on profile"}
+                    <span className="text-xs text-gray-500"> · {formatDate(deadline.at)}</span>
+                  </span>
+                  <span className={`px-2 py-0.5 rounded text-xs font-medium ${URGENCY_COLORS[left.urgency]}`}>{left.label}</span>
+                </li>
+              );
+            })}
+          </ul>
+          {competingFirst && (
+            <p className="flex items-start gap-2 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+              The candidate must answer another offer before this one expires.
+            </p>
+          )}
+        </div>
+      )}
+
+      {offers.length > 0 ? (
+        <ul className="space-y-2">
+          {offers.map((offer) => {
+            const state = stateOf(offer);
+            return (
+              <li key={offer.id} className="border border-gray-100 rounded-lg p-3 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium">{offer.compensation}</p>
+                  <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATE_COLORS[state]}`}>
+                    {OFFER_STATE_LABELS[state]}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Starts {formatStartDate(offer.startDate)} · Extended {formatDate(offer.createdAt)}
+                </p>
+                {(offer.signingBonus != null || offer.equity) && (
+                  <p className="text-xs text-gray-600">
+                    {offer.signingBonus != null && `Signing bonus ${offer.signingBonus.toLocaleString()} ${offer.salaryCurrency}`}
+                    {offer.signingBonus != null && offer.equity && " · "}
+                    {offer.equity && `Equity: ${offer.equity}`}
+                  </p>
+                )}
+                {offer.respondedAt && (
+                  <p className="text-xs text-gray-600">
+                    Answered {formatDate(offer.respondedAt)}
+                    {offer.responseNote && `: "${offer.responseNote}"`}
+                  </p>
+                )}
+                <div className="flex items-center gap-3 text-sm">
+                  {offer.letter && (
+                    <a href={offer.letter.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-blue-600 hover:underline">
+                      <Paperclip className="h-3.5 w-3.5" />
+                      {offer.letter.name}
+                    </a>
+                  )}
+                  {canManage && state === "extended" && (
+                    <button
+                      type="button"
+                      onClick={() => withdraw(offer)}
+                      disabled={busy === offer.id}
+                      className="text-red-600 hover:underline disabled:opacity-50"
+                    >
+                      Withdraw
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">No offer extended yet.</p>
+      )}
+
+      {canManage && !open && (
+        inOfferStage ? (
+          <div className="pt-4 border-t border-gray-100 space-y-3">
+            <p className="text-sm font-medium text-gray-700">Extend an offer</p>
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min={0}
+                value={salaryAmount}
+                onChange={(e) => setSalaryAmount(e.target.value)}
+                placeholder="Salary"
+                aria-label="Salary"
+              />
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger aria-label="Currency" className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COMMON_CURRENCIES.map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Select value={period} onValueChange={(val) => setPeriod(val as SalaryPeriod)}>
+              <SelectTrigger aria-label="Pay period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SALARY_PERIODS.map((p) => (
+                  <SelectItem key={p} value={p}>
+                    {SALARY_PERIOD_LABELS[p]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min={0}
+              value={signingBonus}
+              onChange={(e) => setSigningBonus(e.target.value)}
+              placeholder="Signing bonus (optional)"
+            />
+            <Input value={equity} onChange={(e) => setEquity(e.target.value)} placeholder="Equity (optional)" maxLength={200} />
+            <label className="block text-sm text-gray-600 space-y-1">
+              <span>Start date</span>
+              <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </label>
+            <label className="block text-sm text-gray-600 space-y-1">
+              <span>Offer expires</span>
+              <Input type="datetime-local" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} />
+            </label>
+            {firstCompeting && (
+              <p className="text-xs text-gray-500">
+                The candidate&apos;s earliest competing deadline is {formatDate(firstCompeting.at)}.
+              </p>
+            )}
+            <textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Message to the candidate (optional)"
+              maxLength={2000}
+              className="w-full min-h-[70px] px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <label className="flex items-center gap-1 text-sm text-gray-600 cursor-pointer min-w-0">
+              <Paperclip className="h-4 w-4 flex-shrink-0" />
+              <span className="truncate">{letter ? letter.name : "Attach offer letter (PDF or Word)"}</span>
+              <input
+                ref={letterInput}
+                type="file"
+                accept=".pdf,.doc,.docx,application/pdf,application/msword,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                onChange={(e) => setLetter(e.target.files?.[0] ?? null)}
+                className="hidden"
+              />
+            </label>
+            <Button className="w-full" onClick={extend} disabled={busy === "extend" || !salaryAmount || !startDate || !expiresAt}>
+              {busy === "extend" ? "Sending..." : "Extend offer"}
+            </Button>
+          </div>
+        ) : (
+          <p className="text-xs text-gray-500">Move the application to an Offer stage to extend an offer.</p>
+        )
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,330 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AlertTriangle, ClipboardCheck, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  HIRE_RECOMMENDATIONS,
+  HIRE_RECOMMENDATION_LABELS,
+  MAX_SCORECARD_NOTES_LENGTH,
+  RATING_LABELS,
+} from "@/lib/scorecards";
+import type { ApplicationScorecards, ScorecardView } from "@/lib/scorecards";
+import type { InterviewView } from "@/lib/interviews";
+import type { HireRecommendation, ScorecardRating } from "@/lib/types/database";
+
+type ScorecardPanelProps = {
+  applicationId: string;
+  scorecards: ApplicationScorecards & { canSubmit: boolean };
+  // Reload the application after a scorecard is saved
+  onChange: () => Promise<void> | void;
+};
+
+const RATINGS: ScorecardRating[] = [1, 2, 3, 4];
+
+const RATING_COLORS: Record<ScorecardRating, string> = {
+  1: "bg-red-100 text-red-800 border-red-300",
+  2: "bg-orange-100 text-orange-800 border-orange-300",
+  3: "bg-green-100 text-green-800 border-green-300",
+  4: "bg-emerald-100 text-emerald-800 border-emerald-300",
+};
+
+const RECOMMENDATION_COLORS: Record<HireRecommendation, string> = {
+  strong_no_hire: "bg-red-100 text-red-800",
+  no_hire: "bg-orange-100 text-orange-800",
+  hire: "bg-green-100 text-green-800",
+  strong_hire: "bg-emerald-100 text-emerald-800",
+};
+
+type Draft = {
+  id: string | null;
+  interviewId: string | null;
+  ratings: Record<string, ScorecardRating>;
+  notes: string;
+  recommendation: HireRecommendation | null;
+};
+
+function toDraft(scorecard?: ScorecardView): Draft {
+  return {
+    id: scorecard?.id ?? null,
+    interviewId: scorecard?.interviewId ?? null,
+    ratings: scorecard?.ratings ?? {},
+    notes: scorecard?.notes ?? "",
+    recommendation: scorecard?.recommendation ?? null,
+  };
+}
+
+function interviewDate(startsAt: string | undefined) {
+  return startsAt
+    ? new Date(startsAt).toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })
+    : "";
+}
+
+/**
+ * The caller's interview scorecard, and colleagues' scorecards with the
+ * aggregate once the caller has submitted theirs
+ */
+export default function ScorecardPanel({ applicationId, scorecards, onChange }: ScorecardPanelProps) {
+  const { competencies, mine, others, hiddenCount, aggregate, canSubmit } = scorecards;
+  const openDraft = mine.find((s) => !s.submittedAt);
+  const [draft, setDraft] = useState<Draft | null>(openDraft ? toDraft(openDraft) : null);
+  const [interviews, setInterviews] = useState<InterviewView[]>([]);
+  const [saving, setSaving] = useState<"draft" | "submit" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Booked interviews a scorecard can be attached to
+  useEffect(() => {
+    if (!canSubmit) return;
+    fetch(`/api/applications/${applicationId}/interviews`, { cache: "no-store" })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        const list: InterviewView[] = Array.isArray(data?.interviews) ? data.interviews : [];
+        setInterviews(list.filter((i) => i.bookedAt));
+      })
+      .catch(() => setInterviews([]));
+  }, [applicationId, canSubmit]);
+
+  const names = new Map(competencies.map((c) => [c.id, c.name]));
+  const usedInterviewIds = new Set(mine.filter((s) => s.id !== draft?.id).map((s) => s.interviewId ?? "__none__"));
+
+  async function save(submit: boolean) {
+    if (!draft) return;
+    if (submit && !confirm("Submit your scorecard? You can't change it afterwards.")) return;
+    setSaving(submit ? "submit" : "draft");
+    setError(null);
+    try {
+      const body = JSON.stringify({
+        interviewId: draft.interviewId,
+        ratings: draft.ratings,
+        notes: draft.notes.trim() || null,
+        recommendation: draft.recommendation,
+        submit,
+      });
+      const res = draft.id
+        ? await fetch(`/api/applications/${applicationId}/scorecards/${draft.id}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body,
+          })
+        : await fetch(`/api/applications/${applicationId}/scorecards`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body,
+          });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to save scorecard");
+      setDraft(submit ? null : toDraft(data));
+      await onChange();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save scorecard");
+    } finally {
+      setSaving(null);
+    }
+  }
+
+  function renderScorecard(scorecard: ScorecardView, showName: boolean) {
+    return (
+      <li key={scorecard.id} className="border border-gray-100 rounded-lg p-3 space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm font-medium">
+            {showName ? scorecard.interviewerName || "Interviewer" : "Your scorecard"}
+            {scorecard.interviewId && (
+              <span className="ml-2 text-xs text-gray-500">
+                {interviewDate(interviews.find((i) => i.id === scorecard.interviewId)?.startsAt)}
+              </span>
+            )}
+          </p>
+          {scorecard.recommendation && (
+            <span className={`px-2 py-0.5 rounded text-xs font-medium ${RECOMMENDATION_COLORS[scorecard.recommendation]}`}>
+              {HIRE_RECOMMENDATION_LABELS[scorecard.recommendation]}
+            </span>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {Object.entries(scorecard.ratings).map(([competencyId, rating]) => (
+            <span key={competencyId} className={`px-2 py-0.5 rounded border text-xs ${RATING_COLORS[rating]}`}>
+              {names.get(competencyId) ?? competencyId}: {rating}
+            </span>
+          ))}
+        </div>
+        {scorecard.notes && <p className="text-sm text-gray-600 whitespace-pre-wrap">{scorecard.notes}</p>}
+      </li>
+    );
+  }
+
+  const submittedMine = mine.filter((s) => s.submittedAt);
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm space-y-5">
+      <div className="flex items-center gap-2">
+        <ClipboardCheck className="h-5 w-5 text-gray-700" />
+        <h3 className="text-lg font-semibold">Scorecards</h3>
+      </div>
+
+      {aggregate && aggregate.submittedCount > 0 && (
+        <div className="space-y-3">
+          {aggregate.disagreement && (
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-900">
+              <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>
+                Interviewers disagree
+                {aggregate.recommendationSplit ? " on whether to hire" : ""}
+                {aggregate.competencies.some((c) => c.disagreement)
+                  ? `${aggregate.recommendationSplit ? " and" : ""} on ${aggregate.competencies
+                      .filter((c) => c.disagreement)
+                      .map((c) => c.name)
+                      .join(", ")}`
+                  : ""}
+                . Worth a debrief before deciding.
+              </span>
+            </div>
+          )}
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500">
+                <th className="font-medium pb-1">Competency</th>
+                <th className="font-medium pb-1">Ratings</th>
+                <th className="font-medium pb-1 text-right">Avg</th>
+              </tr>
+            </thead>
+            <tbody>
+              {aggregate.competencies.map((competency) => (
+                <tr key={competency.id} className={competency.disagreement ? "bg-amber-50" : undefined}>
+                  <td className="py-1 pr-2">{competency.name}</td>
+                  <td className="py-1 pr-2">
+                    <div className="flex gap-1">
+                      {competency.ratings.map((rating, index) => (
+                        <span key={index} className={`w-6 text-center rounded border text-xs ${RATING_COLORS[rating]}`}>
+                          {rating}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="py-1 text-right font-medium">{competency.average ?? "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex flex-wrap gap-2">
+            {HIRE_RECOMMENDATIONS.filter((r) => aggregate.recommendations[r] > 0).map((r) => (
+              <span key={r} className={`px-2 py-0.5 rounded text-xs font-medium ${RECOMMENDATION_COLORS[r]}`}>
+                {HIRE_RECOMMENDATION_LABELS[r]}: {aggregate.recommendations[r]}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {hiddenCount > 0 && (
+        <p className="flex items-center gap-2 text-sm text-gray-600">
+          <Lock className="h-4 w-4" />
+          {hiddenCount} {hiddenCount === 1 ? "colleague has" : "colleagues have"} submitted a scorecard.
+          {canSubmit ? " Submit yours to see them." : ""}
+        </p>
+      )}
+
+      {(submittedMine.length > 0 || others.length > 0) && (
+        <ul className="space-y-2">
+          {submittedMine.map((s) => renderScorecard(s, false))}
+          {others.map((s) => renderScorecard(s, true))}
+        </ul>
+      )}
+
+      {canSubmit && !draft && (
+        <Button variant="outline" className="w-full" onClick={() => setDraft(toDraft())}>
+          {submittedMine.length > 0 ? "Add another scorecard" : "Write scorecard"}
+        </Button>
+      )}
+
+      {canSubmit && draft && (
+        <div className="pt-4 border-t border-gray-100 space-y-4">
+          {interviews.length > 0 && (
+            <Select
+              value={draft.interviewId ?? "__none__"}
+              onValueChange={(val) => setDraft({ ...draft, interviewId: val === "__none__" ? null : val })}
+            >
+              <SelectTrigger aria-label="Interview">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="__none__" disabled={usedInterviewIds.has("__none__")}>
+                  General feedback
+                </SelectItem>
+                {interviews.map((interview) => (
+                  <SelectItem key={interview.id} value={interview.id} disabled={usedInterviewIds.has(interview.id)}>
+                    Interview {interviewDate(interview.startsAt)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {competencies.map((competency) => (
+            <div key={competency.id} className="space-y-1">
+              <p className="text-sm font-medium">{competency.name}</p>
+              {competency.description && <p className="text-xs text-gray-500">{competency.description}</p>}
+              <div className="grid grid-cols-4 gap-1">
+                {RATINGS.map((rating) => (
+                  <button
+                    key={rating}
+                    type="button"
+                    onClick={() => setDraft({ ...draft, ratings: { ...draft.ratings, [competency.id]: rating } })}
+                    className={`px-1 py-1 rounded border text-xs ${
+                      draft.ratings[competency.id] === rating ? RATING_COLORS[rating] : "border-gray-200 text-gray-600 hover:bg-gray-50"
+                    }`}
+                    aria-pressed={draft.ratings[competency.id] === rating}
+                  >
+                    {rating} · {RATING_LABELS[rating]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <textarea
+            value={draft.notes}
+            onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+            placeholder="Notes: evidence for your ratings"
+            maxLength={MAX_SCORECARD_NOTES_LENGTH}
+            className="w-full min-h-[100px] px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+
+          <div className="space-y-1">
+            <p className="text-sm font-medium">Recommendation</p>
+            <div className="grid grid-cols-2 gap-1">
+              {HIRE_RECOMMENDATIONS.map((r) => (
+                <button
+                  key={r}
+                  type="button"
+                  onClick={() => setDraft({ ...draft, recommendation: r })}
+                  className={`px-2 py-1 rounded border text-xs ${
+                    draft.recommendation === r ? `${RECOMMENDATION_COLORS[r]} border-transparent` : "border-gray-200 text-gray-600 hover:bg-gray-50"
+                  }`}
+                  aria-pressed={draft.recommendation === r}
+                >
+                  {HIRE_RECOMMENDATION_LABELS[r]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" className="flex-1" onClick={() => save(false)} disabled={saving !== null}>
+              {saving === "draft" ? "Saving..." : "Save draft"}
+            </Button>
+            <Button className="flex-1" onClick={() => save(true)} disabled={saving !== null}>
+              {saving === "submit" ? "Submitting..." : "Submit"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!canSubmit && hiddenCount === 0 && others.length === 0 && mine.length === 0 && (
+        <p className="text-sm text-gray-500">No scorecards yet.</p>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,459 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { X } from "lucide-react";
+import {
+  CHOICE_QUESTION_TYPES,
+  DEFAULT_ACCEPTED_FILE_TYPES,
+  DEFAULT_MAX_FILE_SIZE_MB,
+  FILE_TYPES,
+  MAX_FILE_SIZE_MB,
+  PROFILE_ANSWER_FIELDS,
+  PROFILE_ANSWER_FIELD_LABELS,
+  QUESTION_TYPES,
+  QUESTION_TYPE_LABELS,
+  choiceValues,
+} from "@/lib/supplemental-questions";
+import type {
+  ProfileAnswerField,
+  QuestionRules,
+  SupplementalQuestion,
+  SupplementalQuestionType,
+} from "@/lib/supplemental-questions";
+import type { KnockoutAction } from "@/lib/types/database";
+
+type SupplementalQuestionEditorProps = {
+  question: SupplementalQuestion;
+  index: number;
+  // Questions above this one; only choice questions among them can drive "show if"
+  earlierQuestions: SupplementalQuestion[];
+  onChange: (updates: Partial<SupplementalQuestion>) => void;
+  onRemove: () => void;
+};
+
+const NO_CONDITION = "__always__";
+const NO_PROFILE_FIELD = "__none__";
+
+const numberOrUndefined = (value: string) => (value === "" ? undefined : Number(value));
+
+/**
+ * Editor for one supplemental question: text, type, options, rules, "show if",
+ * knockout settings and profile pre-fill
+ */
+export default function SupplementalQuestionEditor({
+  question,
+  index,
+  earlierQuestions,
+  onChange,
+  onRemove,
+}: SupplementalQuestionEditorProps) {
+  const rules = question.rules ?? {};
+  const conditionSources = earlierQuestions.filter(
+    (q) => CHOICE_QUESTION_TYPES.has(q.type) && q.question.trim() && choiceValues(q).some((v) => v.trim())
+  );
+  const conditionSource = conditionSources.find((q) => q.id === question.showIf?.questionId);
+
+  const updateRules = (updates: Partial<QuestionRules>) => {
+    const next: QuestionRules = { ...rules, ...updates };
+    for (const key of Object.keys(next) as (keyof QuestionRules)[]) {
+      if (next[key] === undefined) delete next[key];
+    }
+    onChange({ rules: Object.keys(next).length > 0 ? next : undefined });
+  };
+
+  const changeType = (type: SupplementalQuestionType) => {
+    const profileField = question.profileField;
+    onChange({
+      type,
+      options: type === "select" || type === "multiselect" ? (question.options?.length ? question.options : [""]) : undefined,
+      // Rules and knockout answers are type-specific, so start fresh
+      rules: undefined,
+      knockout: undefined,
+      profileField:
+        profileField && (PROFILE_ANSWER_FIELDS[profileField] as readonly string[]).includes(type) ? profileField : undefined,
+    });
+  };
+
+  const knockoutValues = CHOICE_QUESTION_TYPES.has(question.type) ? choiceValues(question).filter((v) => v.trim()) : [];
+  const profileFields = (Object.keys(PROFILE_ANSWER_FIELDS) as ProfileAnswerField[]).filter((field) =>
+    (PROFILE_ANSWER_FIELDS[field] as readonly string[]).includes(question.type)
+  );
+  const toggleKnockoutAnswer = (value: string, checked: boolean) => {
+    const knockout = question.knockout;
+    if (!knockout) return;
+    const failingAnswers = checked
+      ? [...knockout.failingAnswers, value]
+      : knockout.failingAnswers.filter((v) => v !== value);
+    onChange({ knockout: { ...knockout, failingAnswers } });
+  };
+
+  const options = question.options ?? [];
+  const setOptions = (next: string[]) => onChange({ options: next });
+
+  const acceptedFileTypes = rules.acceptedFileTypes ?? DEFAULT_ACCEPTED_FILE_TYPES;
+  const toggleFileType = (ext: string, checked: boolean) => {
+    const next = checked ? [...acceptedFileTypes, ext] : acceptedFileTypes.filter((e) => e !== ext);
+    updateRules({ acceptedFileTypes: next.length > 0 ? next : undefined });
+  };
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-xl p-5 space-y-4 hover:border-blue-200 transition-colors">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium">Question {index + 1}</h3>
+        <Button type="button" variant="ghost" size="sm" onClick={onRemove} className="text-red-600 hover:text-red-700">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Question Text</label>
+          <Input
+            value={question.question}
+            onChange={(e) => onChange({ question: e.target.value })}
+            placeholder="Enter your question..."
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Question Type</label>
+          <Select value={question.type} onValueChange={(value) => changeType(value as SupplementalQuestionType)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {QUESTION_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {QUESTION_TYPE_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {(question.type === "select" || question.type === "multiselect") && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium">Options</label>
+            <Button type="button" variant="outline" size="sm" onClick={() => setOptions([...options, ""])}>
+              Add Option
+            </Button>
+          </div>
+          <div className="space-y-2">
+            {options.map((option, optionIndex) => (
+              <div key={optionIndex} className="flex items-center gap-2">
+                <Input
+                  value={option}
+                  onChange={(e) => setOptions(options.map((opt, idx) => (idx === optionIndex ? e.target.value : opt)))}
+                  placeholder={`Option ${optionIndex + 1}`}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setOptions(options.filter((_, idx) => idx !== optionIndex))}
+                  className="text-red-600 hover:text-red-700"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Validation rules */}
+      {(question.type === "text" || question.type === "textarea") && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Min length</label>
+            <Input
+              type="number"
+              min={0}
+              value={rules.minLength ?? ""}
+              onChange={(e) => updateRules({ minLength: numberOrUndefined(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Max length</label>
+            <Input
+              type="number"
+              min={1}
+              value={rules.maxLength ?? ""}
+              onChange={(e) => updateRules({ maxLength: numberOrUndefined(e.target.value) })}
+            />
+          </div>
+        </div>
+      )}
+
+      {question.type === "number" && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Minimum</label>
+            <Input
+              type="number"
+              value={rules.min ?? ""}
+              onChange={(e) => updateRules({ min: numberOrUndefined(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Maximum</label>
+            <Input
+              type="number"
+              value={rules.max ?? ""}
+              onChange={(e) => updateRules({ max: numberOrUndefined(e.target.value) })}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm pb-2">
+            <input
+              type="checkbox"
+              checked={rules.integer ?? false}
+              onChange={(e) => updateRules({ integer: e.target.checked || undefined })}
+              className="rounded"
+            />
+            Whole numbers only
+          </label>
+        </div>
+      )}
+
+      {question.type === "date" && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Earliest date</label>
+            <Input
+              type="date"
+              value={rules.minDate ?? ""}
+              onChange={(e) => updateRules({ minDate: e.target.value || undefined })}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Latest date</label>
+            <Input
+              type="date"
+              value={rules.maxDate ?? ""}
+              onChange={(e) => updateRules({ maxDate: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+      )}
+
+      {question.type === "multiselect" && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Min selections</label>
+            <Input
+              type="number"
+              min={0}
+              value={rules.minSelections ?? ""}
+              onChange={(e) => updateRules({ minSelections: numberOrUndefined(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Max selections</label>
+            <Input
+              type="number"
+              min={1}
+              value={rules.maxSelections ?? ""}
+              onChange={(e) => updateRules({ maxSelections: numberOrUndefined(e.target.value) })}
+            />
+          </div>
+        </div>
+      )}
+
+      {question.type === "file" && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Accepted file types</label>
+            <div className="flex flex-wrap gap-3">
+              {Object.keys(FILE_TYPES).map((ext) => (
+                <label key={ext} className="flex items-center gap-1 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={acceptedFileTypes.includes(ext)}
+                    onChange={(e) => toggleFileType(ext, e.target.checked)}
+                    className="rounded"
+                  />
+                  {ext.toUpperCase()}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Max file size (MB)</label>
+            <Input
+              type="number"
+              min={1}
+              max={MAX_FILE_SIZE_MB}
+              value={rules.maxFileSizeMb ?? ""}
+              placeholder={String(DEFAULT_MAX_FILE_SIZE_MB)}
+              onChange={(e) => updateRules({ maxFileSizeMb: numberOrUndefined(e.target.value) })}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Conditional display */}
+      {conditionSources.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Show this question</label>
+            <Select
+              value={conditionSource?.id ?? NO_CONDITION}
+              onValueChange={(value) =>
+                onChange({ showIf: value === NO_CONDITION ? undefined : { questionId: value, equals: [] } })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CONDITION}>Always</SelectItem>
+                {conditionSources.map((source) => (
+                  <SelectItem key={source.id} value={source.id}>
+                    When &quot;{source.question}&quot; is...
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {conditionSource && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Matching answers</label>
+              <div className="flex flex-wrap gap-3">
+                {choiceValues(conditionSource)
+                  .filter((value) => value.trim())
+                  .map((value) => {
+                    const equals = question.showIf?.equals ?? [];
+                    return (
+                      <label key={value} className="flex items-center gap-1 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={equals.includes(value)}
+                          onChange={(e) =>
+                            onChange({
+                              showIf: {
+                                questionId: conditionSource.id,
+                                equals: e.target.checked ? [...equals, value] : equals.filter((v) => v !== value),
+                              },
+                            })
+                          }
+                          className="rounded"
+                        />
+                        {conditionSource.type === "yes_no" ? (value === "yes" ? "Yes" : "No") : value}
+                      </label>
+                    );
+                  })}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Knockout */}
+      {knockoutValues.length > 0 && (
+        <div className="space-y-3">
+          <label className="flex items-center gap-2 text-sm font-medium">
+            <input
+              type="checkbox"
+              checked={!!question.knockout}
+              onChange={(e) =>
+                onChange({ knockout: e.target.checked ? { failingAnswers: [], action: "reject" } : undefined })
+              }
+              className="rounded"
+            />
+            Knockout question
+          </label>
+          {question.knockout && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pl-6">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Failing answers</label>
+                <div className="flex flex-wrap gap-3">
+                  {knockoutValues.map((value) => (
+                    <label key={value} className="flex items-center gap-1 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={question.knockout?.failingAnswers.includes(value) ?? false}
+                        onChange={(e) => toggleKnockoutAnswer(value, e.target.checked)}
+                        className="rounded"
+                      />
+                      {question.type === "yes_no" ? (value === "yes" ? "Yes" : "No") : value}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">When failed</label>
+                <Select
+                  value={question.knockout.action}
+                  onValueChange={(value) =>
+                    question.knockout && onChange({ knockout: { ...question.knockout, action: value as KnockoutAction } })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="reject">Reject the application</SelectItem>
+                    <SelectItem value="flag">Flag for review</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <label className="text-sm font-medium">Message to the candidate (optional)</label>
+                <Input
+                  value={question.knockout.message ?? ""}
+                  onChange={(e) =>
+                    question.knockout &&
+                    onChange({ knockout: { ...question.knockout, message: e.target.value || undefined } })
+                  }
+                  maxLength={1000}
+                  placeholder="Shown after they apply"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Profile pre-answer */}
+      {profileFields.length > 0 && (
+        <div className="space-y-2 md:w-1/2">
+          <label className="text-sm font-medium">Pre-fill from candidate profile</label>
+          <Select
+            value={question.profileField ?? NO_PROFILE_FIELD}
+            onValueChange={(value) =>
+              onChange({ profileField: value === NO_PROFILE_FIELD ? undefined : (value as ProfileAnswerField) })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_PROFILE_FIELD}>Don&apos;t pre-fill</SelectItem>
+              {profileFields.map((field) => (
+                <SelectItem key={field} value={field}>
+                  {PROFILE_ANSWER_FIELD_LABELS[field]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          id={`required-${question.id}`}
+          checked={question.required}
+          onChange={(e) => onChange({ required: e.target.checked })}
+          className="rounded"
+        />
+        <label htmlFor={`required-${question.id}`} className="text-sm">
+          Required question
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { describe, it, expect } from "vitest";
+import { AnalyticsQuerySchema, analyticsCsv, computeAnalytics, median, periodStart, resolveRange } from "./analytics";
+import type { AnalyticsApplication, AnalyticsEvent, AnalyticsInput } from "./analytics";
+import type { ApplicationStatus } from "./types/database";
+
+const HOUR = 60 * 60 * 1000;
+const start = Date.parse("2025-12-01T09:00:00Z");
+const at = (hours: number) => new Date(start + hours * HOUR).toISOString();
+
+// An application and its history: each step is [status, hours after it applied]
+function history(id: string, jobId: string, candidateId: string, steps: [ApplicationStatus, number][]) {
+  const application: AnalyticsApplication = {
+    id,
+    job_id: jobId,
+    candidate_id: candidateId,
+    status: steps[steps.length - 1][0],
+    applied_at: at(steps[0][1]),
+  };
+  const events: AnalyticsEvent[] = steps.map(([status, hours]) => ({ application_id: id, to_status: status, created_at: at(hours) }));
+  return { application, events };
+}
+
+function input(histories: ReturnType<typeof history>[], overrides: Partial<AnalyticsInput> = {}): AnalyticsInput {
+  return {
+    range: { from: "2025-12-01", to: "2025-12-14" },
+    interval: "week",
+    jobs: [
+      { id: "job-1", title: "Backend Engineer", employer_id: "rec-1" },
+      { id: "job-2", title: "Designer", employer_id: "rec-2" },
+    ],
+    applications: histories.map((h) => h.application),
+    events: histories.flatMap((h) => h.events),
+    referralSources: new Map([["cand-1", "LinkedIn"], ["cand-2", "Referral"], ["cand-3", null]]),
+    recruiterNames: new Map([["rec-1", "Riley"]]),
+    ...overrides,
+  };
+}
+
+describe("computeAnalytics", () => {
+  const hired = history("a1", "job-1", "cand-1", [["applied", 0], ["under_review", 24], ["interview", 72], ["offer", 120], ["hired", 168]]);
+  // Interviewed, then rejected: still counts as reaching Interview
+  const rejected = history("a2", "job-1", "cand-2", [["applied", 2], ["under_review", 50], ["interview", 98], ["rejected", 110]]);
+  const waiting = history("a3", "job-2", "cand-3", [["applied", 200]]);
+
+  it("builds the funnel from status history, not the current status", () => {
+    const report = computeAnalytics(input([hired, rejected, waiting]));
+
+    expect(report.overall.applications).toBe(3);
+    expect(report.overall.rejected).toBe(1);
+    expect(report.overall.funnel.map((step) => [step.status, step.reached, step.conversion])).toEqual([
+      ["applied", 3, null],
+      ["under_review", 2, 0.667],
+      ["interview", 2, 1],
+      ["offer", 1, 0.5],
+      ["hired", 1, 1],
+    ]);
+  });
+
+  it("measures median time in each status and time to hire", () => {
+    const report = computeAnalytics(input([hired, rejected, waiting]));
+    const hours = Object.fromEntries(report.overall.stageDurations.map((d) => [d.status, [d.medianHours, d.samples]]));
+
+    // a3 is still in Applied, so only finished stays count
+    expect(hours.applied).toEqual([36, 2]);
+    expect(hours.under_review).toEqual([48, 2]);
+    expect(hours.interview).toEqual([30, 2]);
+    expect(hours.offer).toEqual([48, 1]);
+    expect(report.overall.timeToHire).toEqual({ medianDays: 7, hires: 1 });
+  });
+
+  it("treats moves between stages with the same status as one stay", () => {
+    const twoInterviews = history("a4", "job-1", "cand-1", [["applied", 0], ["interview", 10], ["interview", 20], ["offer", 40]]);
+
+    const report = computeAnalytics(input([twoInterviews]));
+
+    expect(report.overall.stageDurations.find((d) => d.status === "interview")).toMatchObject({ medianHours: 30, samples: 1 });
+  });
+
+  it("breaks results down per job, per recruiter and per source", () => {
+    const report = computeAnalytics(input([hired, rejected, waiting]));
+
+    expect(report.jobs.map((job) => [job.title, job.applications, job.timeToHire.hires])).toEqual([
+      ["Backend Engineer", 2, 1],
+      ["Designer", 1, 0],
+    ]);
+    expect(report.recruiters.map((r) => [r.name, r.jobs, r.applications])).toEqual([
+      ["Riley", 1, 2],
+      ["Unknown recruiter", 1, 1],
+    ]);
+    expect(report.overall.sources).toEqual([
+      { source: "LinkedIn", applications: 1, hired: 1 },
+      { source: "Referral", applications: 1, hired: 0 },
+      { source: "Unknown", applications: 1, hired: 0 },
+    ]);
+  });
+
+  it("counts applicant volume per period across the whole range", () => {
+    const report = computeAnalytics(input([hired, rejected, waiting]));
+
+    expect(report.volume).toEqual([
+      { period: "2025-12-01", applications: 2 },
+      { period: "2025-12-08", applications: 1 },
+    ]);
+    expect(computeAnalytics(input([hired], { interval: "day", range: { from: "2025-12-01", to: "2025-12-03" } })).volume).toEqual([
+      { period: "2025-12-01", applications: 1 },
+      { period: "2025-12-02", applications: 0 },
+      { period: "2025-12-03", applications: 0 },
+    ]);
+  });
+});
+
+describe("analyticsCsv", () => {
+  it("writes one row for all jobs, then jobs, recruiters and sources", () => {
+    const csv = analyticsCsv(computeAnalytics(input([history("a1", "job-1", "cand-1", [["applied", 0], ["hired", 48]])])));
+    const lines = csv.trim().split("\r\n");
+
+    expect(lines[0]).toMatch(/^Scope,Name,Applications,Reached Applied,/);
+    expect(lines[1]).toMatch(/^All jobs,2025-12-01 to 2025-12-14,1,1,1,1,1,1,100%,100%,100%,100%,0,/);
+    expect(lines.map((line) => line.split(",")[0])).toEqual(["Scope", "All jobs", "Job", "Job", "Recruiter", "Recruiter", "Source"]);
+    expect(lines[6]).toMatch(/^Source,LinkedIn,1,.*,1,$/);
+  });
+});
+
+describe("ranges", () => {
+  it("defaults to the last 90 days and caps long ranges", () => {
+    expect(resolveRange({}, new Date("2025-12-30T12:00:00Z"))).toEqual({ from: "2025-10-02", to: "2025-12-30" });
+    expect(resolveRange({ from: "2025-01-01", to: "2025-01-31" })).toEqual({ from: "2025-01-01", to: "2025-01-31" });
+    expect(() => resolveRange({ from: "2020-01-01", to: "2025-01-01" })).toThrow(/at most/);
+    expect(() => resolveRange({ from: "2025-02-01" }, new Date("2025-01-01T00:00:00Z"))).toThrow(/on or before/);
+  });
+
+  it("validates the query string", () => {
+    expect(AnalyticsQuerySchema.parse({})).toEqual({ interval: "week", format: "json" });
+    expect(AnalyticsQuerySchema.safeParse({ from: "2025-02-01", to: "2025-01-01" }).success).toBe(false);
+    expect(AnalyticsQuerySchema.safeParse({ from: "yesterday" }).success).toBe(false);
+    expect(AnalyticsQuerySchema.safeParse({ interval: "year" }).success).toBe(false);
+  });
+
+  it("starts weeks on Monday and months on the first", () => {
+    const wednesday = new Date("2025-12-03T23:00:00Z");
+    expect(periodStart(wednesday, "day")).toBe("2025-12-03");
+    expect(periodStart(wednesday, "week")).toBe("2025-12-01");
+    expect(periodStart(new Date("2025-12-07T10:00:00Z"), "week")).toBe("2025-12-01");
+    expect(periodStart(wednesday, "month")).toBe("2025-12-01");
+  });
+
+  it("takes the median of odd and even samples", () => {
+    expect(median([])).toBeNull();
+    expect(median([5, 1, 3])).toBe(3);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+  });
+});
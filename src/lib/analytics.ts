@@ -0,0 +1,414 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { toCsv } from "@/lib/bulk-actions";
+import { getMembership, recruiterJobsFilter } from "@/lib/organizations";
+import { STATUS_LABELS } from "@/lib/pipeline";
+import type { Application, ApplicationStatus, ApplicationStatusEvent, Job } from "@/lib/types/database";
+
+/**
+ * Recruiter Analytics
+ *
+ * Hiring funnel metrics for the jobs a recruiter can see, overall, per job and
+ * per recruiter (the job's owner). Everything is computed from
+ * application_status_events rather than the current status, so an application
+ * that went through Interview and was then rejected still counts as having
+ * reached Interview, and the time spent in each status is measurable.
+ *
+ * The date range picks a cohort: applications submitted between from and to
+ * (inclusive, UTC days). Their whole history counts, including moves after
+ * the range ends.
+ */
+
+// Funnel order; rejected is counted separately because any status can lead to it
+export const FUNNEL_STATUSES: ApplicationStatus[] = ["applied", "under_review", "interview", "offer", "hired"];
+
+export const ANALYTICS_INTERVALS = ["day", "week", "month"] as const;
+export type AnalyticsInterval = (typeof ANALYTICS_INTERVALS)[number];
+
+// Range used when the request doesn't give one
+export const DEFAULT_ANALYTICS_DAYS = 90;
+export const MAX_ANALYTICS_DAYS = 731;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DateOnly = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD")
+  .refine((value) => !Number.isNaN(Date.parse(`${value}T00:00:00Z`)), "Enter a valid date");
+
+// GET /api/analytics query string
+export const AnalyticsQuerySchema = z
+  .object({
+    from: DateOnly.optional(),
+    to: DateOnly.optional(),
+    jobId: z.string().uuid("jobId must be a valid UUID").optional(),
+    interval: z.enum(ANALYTICS_INTERVALS).default("week"),
+    format: z.enum(["json", "csv"]).default("json"),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must be on or before to",
+    path: ["from"],
+  });
+
+export type AnalyticsQuery = z.infer<typeof AnalyticsQuerySchema>;
+
+export type AnalyticsRange = {
+  // YYYY-MM-DD, both inclusive
+  from: string;
+  to: string;
+};
+
+function dateOnly(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Fill in a missing end of the range and cap its length
+ * @throws Error if the range is backwards or longer than MAX_ANALYTICS_DAYS
+ */
+export function resolveRange(query: { from?: string; to?: string }, now: Date = new Date()): AnalyticsRange {
+  const to = query.to ?? dateOnly(now);
+  const from = query.from ?? dateOnly(new Date(Date.parse(`${to}T00:00:00Z`) - (DEFAULT_ANALYTICS_DAYS - 1) * DAY_MS));
+  const days = (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS + 1;
+  if (days < 1) {
+    throw new Error("from must be on or before to");
+  }
+  if (days > MAX_ANALYTICS_DAYS) {
+    throw new Error(`Date range can be at most ${MAX_ANALYTICS_DAYS} days`);
+  }
+  return { from, to };
+}
+
+/**
+ * Start of the period containing a date: the day, the Monday of its week or
+ * the first of its month (UTC), as YYYY-MM-DD
+ */
+export function periodStart(date: Date, interval: AnalyticsInterval): string {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (interval === "week") day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  if (interval === "month") day.setUTCDate(1);
+  return dateOnly(day);
+}
+
+function nextPeriod(start: string, interval: AnalyticsInterval): string {
+  const date = new Date(`${start}T00:00:00Z`);
+  if (interval === "day") date.setUTCDate(date.getUTCDate() + 1);
+  if (interval === "week") date.setUTCDate(date.getUTCDate() + 7);
+  if (interval === "month") date.setUTCMonth(date.getUTCMonth() + 1);
+  return dateOnly(date);
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function round(value: number | null, digits = 1): number | null {
+  if (value === null) return null;
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export type AnalyticsJob = Pick<Job, "id" | "title" | "employer_id">;
+export type AnalyticsApplication = Pick<Application, "id" | "job_id" | "candidate_id" | "status" | "applied_at">;
+export type AnalyticsEvent = Pick<ApplicationStatusEvent, "application_id" | "to_status" | "created_at">;
+
+export type AnalyticsInput = {
+  range: AnalyticsRange;
+  interval: AnalyticsInterval;
+  jobs: AnalyticsJob[];
+  // Already limited to the range
+  applications: AnalyticsApplication[];
+  events: AnalyticsEvent[];
+  // candidate user id -> CandidateProfile.referral_source
+  referralSources: Map<string, string | null>;
+  // recruiter user id -> name
+  recruiterNames: Map<string, string>;
+};
+
+export type FunnelStep = {
+  status: ApplicationStatus;
+  label: string;
+  // Applications that got at least this far
+  reached: number;
+  // Share of the previous step that got here; null for the first step or an empty previous step
+  conversion: number | null;
+};
+
+export type StageDuration = {
+  status: ApplicationStatus;
+  label: string;
+  // Median time before moving on; applications still in the status aren't counted
+  medianHours: number | null;
+  samples: number;
+};
+
+export type SourceCount = {
+  source: string;
+  applications: number;
+  hired: number;
+};
+
+export type FunnelMetrics = {
+  applications: number;
+  rejected: number;
+  funnel: FunnelStep[];
+  stageDurations: StageDuration[];
+  timeToHire: { medianDays: number | null; hires: number };
+  sources: SourceCount[];
+};
+
+export type JobAnalytics = FunnelMetrics & { jobId: string; title: string; recruiterId: string | null };
+export type RecruiterAnalytics = FunnelMetrics & { recruiterId: string; name: string; jobs: number };
+export type VolumePoint = { period: string; applications: number };
+
+export type AnalyticsReport = {
+  range: AnalyticsRange;
+  interval: AnalyticsInterval;
+  overall: FunnelMetrics;
+  volume: VolumePoint[];
+  jobs: JobAnalytics[];
+  recruiters: RecruiterAnalytics[];
+};
+
+const UNKNOWN_SOURCE = "Unknown";
+
+type ApplicationHistory = {
+  application: AnalyticsApplication;
+  // Oldest first
+  events: AnalyticsEvent[];
+};
+
+function funnelMetrics(histories: ApplicationHistory[], referralSources: Map<string, string | null>): FunnelMetrics {
+  const reached = FUNNEL_STATUSES.map(() => 0);
+  const durations = new Map<ApplicationStatus, number[]>();
+  const hireDays: number[] = [];
+  const sources = new Map<string, SourceCount>();
+  let rejected = 0;
+
+  for (const { application, events } of histories) {
+    const statuses = [...events.map((e) => e.to_status), application.status];
+    // Furthest funnel step the history shows; reaching Offer means it passed Interview too
+    const furthest = Math.max(0, ...statuses.map((status) => FUNNEL_STATUSES.indexOf(status)));
+    for (let i = 0; i <= furthest; i++) reached[i]++;
+    if (statuses.includes("rejected")) rejected++;
+
+    // Moves between stages with the same status are one stay in that status
+    const stays = events.filter((event, i) => i === 0 || event.to_status !== events[i - 1].to_status);
+    for (let i = 0; i < stays.length - 1; i++) {
+      const hours = (Date.parse(stays[i + 1].created_at) - Date.parse(stays[i].created_at)) / (60 * 60 * 1000);
+      const list = durations.get(stays[i].to_status) ?? [];
+      list.push(hours);
+      durations.set(stays[i].to_status, list);
+    }
+
+    const hired = events.find((e) => e.to_status === "hired");
+    if (hired) {
+      hireDays.push((Date.parse(hired.created_at) - Date.parse(application.applied_at)) / DAY_MS);
+    }
+
+    const source = (application.candidate_id && referralSources.get(application.candidate_id)?.trim()) || UNKNOWN_SOURCE;
+    const count = sources.get(source) ?? { source, applications: 0, hired: 0 };
+    count.applications++;
+    if (hired || application.status === "hired") count.hired++;
+    sources.set(source, count);
+  }
+
+  return {
+    applications: histories.length,
+    rejected,
+    funnel: FUNNEL_STATUSES.map((status, i) => ({
+      status,
+      label: STATUS_LABELS[status],
+      reached: reached[i],
+      conversion: i > 0 && reached[i - 1] > 0 ? round(reached[i] / reached[i - 1], 3) : null,
+    })),
+    stageDurations: FUNNEL_STATUSES.filter((status) => status !== "hired").map((status) => {
+      const samples = durations.get(status) ?? [];
+      return { status, label: STATUS_LABELS[status], medianHours: round(median(samples)), samples: samples.length };
+    }),
+    timeToHire: { medianDays: round(median(hireDays)), hires: hireDays.length },
+    sources: [...sources.values()].sort((a, b) => b.applications - a.applications || a.source.localeCompare(b.source)),
+  };
+}
+
+/**
+ * Funnel, stage times, time to hire, volume and sources for a cohort of applications
+ */
+export function computeAnalytics(input: AnalyticsInput): AnalyticsReport {
+  const eventsByApplication = new Map<string, AnalyticsEvent[]>();
+  for (const event of [...input.events].sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at))) {
+    const list = eventsByApplication.get(event.application_id) ?? [];
+    list.push(event);
+    eventsByApplication.set(event.application_id, list);
+  }
+  const histories: ApplicationHistory[] = input.applications.map((application) => ({
+    application,
+    events: eventsByApplication.get(application.id) ?? [],
+  }));
+
+  const volume = new Map<string, number>();
+  const last = periodStart(new Date(`${input.range.to}T00:00:00Z`), input.interval);
+  for (let period = periodStart(new Date(`${input.range.from}T00:00:00Z`), input.interval); period <= last; period = nextPeriod(period, input.interval)) {
+    volume.set(period, 0);
+  }
+  for (const { application } of histories) {
+    const period = periodStart(new Date(application.applied_at), input.interval);
+    if (volume.has(period)) volume.set(period, (volume.get(period) ?? 0) + 1);
+  }
+
+  const jobs: JobAnalytics[] = input.jobs.map((job) => ({
+    jobId: job.id,
+    title: job.title,
+    recruiterId: job.employer_id,
+    ...funnelMetrics(histories.filter((h) => h.application.job_id === job.id), input.referralSources),
+  }));
+
+  const recruiterIds = [...new Set(input.jobs.map((job) => job.employer_id).filter((id): id is string => Boolean(id)))];
+  const recruiters: RecruiterAnalytics[] = recruiterIds.map((recruiterId) => {
+    const jobIds = new Set(input.jobs.filter((job) => job.employer_id === recruiterId).map((job) => job.id));
+    return {
+      recruiterId,
+      name: input.recruiterNames.get(recruiterId) || "Unknown recruiter",
+      jobs: jobIds.size,
+      ...funnelMetrics(histories.filter((h) => jobIds.has(h.application.job_id)), input.referralSources),
+    };
+  });
+
+  return {
+    range: input.range,
+    interval: input.interval,
+    overall: funnelMetrics(histories, input.referralSources),
+    volume: [...volume.entries()].map(([period, applications]) => ({ period, applications })),
+    jobs: jobs.sort((a, b) => b.applications - a.applications || a.title.localeCompare(b.title)),
+    recruiters: recruiters.sort((a, b) => b.applications - a.applications || a.name.localeCompare(b.name)),
+  };
+}
+
+// PostgREST puts .in() filters in the URL; keep each list short
+const IN_FILTER_BATCH = 200;
+
+/**
+ * Run an .in() query over ids in batches and collect the rows
+ * @throws Error if any batch fails
+ */
+export async function selectIn<T>(
+  ids: string[],
+  query: (batch: string[]) => PromiseLike<{ data: unknown; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let i = 0; i < ids.length; i += IN_FILTER_BATCH) {
+    const { data, error } = await query(ids.slice(i, i + IN_FILTER_BATCH));
+    if (error) throw new Error(error.message);
+    rows.push(...((data ?? []) as T[]));
+  }
+  return rows;
+}
+
+/**
+ * Load what computeAnalytics() needs for the jobs the recruiter can see
+ * (their organization's, plus legacy jobs they own)
+ * @param jobId - Limit the report to one job
+ */
+export async function loadAnalyticsInput(
+  supabase: SupabaseClient,
+  userId: string,
+  options: { range: AnalyticsRange; interval: AnalyticsInterval; jobId?: string }
+): Promise<AnalyticsInput> {
+  const membership = await getMembership(supabase, userId);
+  let jobsQuery = supabase
+    .from("jobs")
+    .select("id, title, employer_id")
+    .or(recruiterJobsFilter(userId, membership));
+  if (options.jobId) jobsQuery = jobsQuery.eq("id", options.jobId);
+  const { data: jobRows, error: jobsError } = await jobsQuery;
+  if (jobsError) throw new Error(`Failed to load jobs: ${jobsError.message}`);
+  const jobs = (jobRows ?? []) as AnalyticsJob[];
+
+  const endExclusive = dateOnly(new Date(Date.parse(`${options.range.to}T00:00:00Z`) + DAY_MS));
+  const applications = await selectIn<AnalyticsApplication>(jobs.map((job) => job.id), (batch) =>
+    supabase
+      .from("applications")
+      .select("id, job_id, candidate_id, status, applied_at")
+      .in("job_id", batch)
+      .gte("applied_at", `${options.range.from}T00:00:00Z`)
+      .lt("applied_at", `${endExclusive}T00:00:00Z`)
+  );
+
+  const events = await selectIn<AnalyticsEvent>(applications.map((a) => a.id), (batch) =>
+    supabase
+      .from("application_status_events")
+      .select("application_id, to_status, created_at")
+      .in("application_id", batch)
+      .order("created_at", { ascending: true })
+  );
+
+  const candidateIds = [...new Set(applications.map((a) => a.candidate_id).filter((id): id is string => Boolean(id)))];
+  const profiles = await selectIn<{ user_id: string; referral_source: string | null }>(candidateIds, (batch) =>
+    supabase.from("candidate_profiles").select("user_id, referral_source").in("user_id", batch)
+  );
+
+  const recruiterIds = [...new Set(jobs.map((job) => job.employer_id).filter((id): id is string => Boolean(id)))];
+  const recruiters = await selectIn<{ user_id: string; name: string }>(recruiterIds, (batch) =>
+    supabase.from("recruiter_profiles").select("user_id, name").in("user_id", batch)
+  );
+
+  return {
+    range: options.range,
+    interval: options.interval,
+    jobs,
+    applications,
+    events,
+    referralSources: new Map(profiles.map((p) => [p.user_id, p.referral_source])),
+    recruiterNames: new Map(recruiters.map((r) => [r.user_id, r.name])),
+  };
+}
+
+function percent(value: number | null): string {
+  return value === null ? "" : `${Math.round(value * 1000) / 10}%`;
+}
+
+/**
+ * The report as CSV: one row for all jobs, then one per job, per recruiter and
+ * per referral source (sources fill only the Applications and Hires columns)
+ */
+export function analyticsCsv(report: AnalyticsReport): string {
+  const header = [
+    "Scope",
+    "Name",
+    "Applications",
+    ...FUNNEL_STATUSES.map((status) => `Reached ${STATUS_LABELS[status]}`),
+    ...FUNNEL_STATUSES.slice(1).map((status) => `Conversion to ${STATUS_LABELS[status]}`),
+    "Rejected",
+    ...FUNNEL_STATUSES.filter((status) => status !== "hired").map((status) => `Median hours in ${STATUS_LABELS[status]}`),
+    "Hires",
+    "Median days to hire",
+  ];
+  const row = (scope: string, name: string, metrics: FunnelMetrics) => [
+    scope,
+    name,
+    metrics.applications,
+    ...metrics.funnel.map((step) => step.reached),
+    ...metrics.funnel.slice(1).map((step) => percent(step.conversion)),
+    metrics.rejected,
+    ...metrics.stageDurations.map((d) => d.medianHours),
+    metrics.timeToHire.hires,
+    metrics.timeToHire.medianDays,
+  ];
+  return toCsv([
+    header,
+    row("All jobs", `${report.range.from} to ${report.range.to}`, report.overall),
+    ...report.jobs.map((job) => row("Job", job.title, job)),
+    ...report.recruiters.map((recruiter) => row("Recruiter", recruiter.name, recruiter)),
+    ...report.overall.sources.map((source) => {
+      const fields: (string | number | null)[] = header.map(() => "");
+      fields[0] = "Source";
+      fields[1] = source.source;
+      fields[2] = source.applications;
+      fields[header.indexOf("Hires")] = source.hired;
+      return fields;
+    }),
+  ]);
+}
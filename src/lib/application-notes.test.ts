@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { buildNoteThreads, mentionMarkdown, mentionedTeammates, toNoteView } from "./application-notes";
+import type { NoteView } from "./application-notes";
+import type { ApplicationNote } from "@/lib/types/database";
+
+const dana = { userId: "11111111-2222-3333-4444-555555555555", name: "Dana [Lead] Lee" };
+const sam = { userId: "66666666-7777-8888-9999-000000000000", name: "Sam Ortiz" };
+
+function note(id: string, createdAt: string, parentId: string | null = null): NoteView {
+  return {
+    id,
+    parentId,
+    authorId: "rec-1",
+    authorName: "Rec",
+    body: id,
+    mentionedUserIds: [],
+    createdAt,
+    editedAt: null,
+    deletedAt: null,
+    isMine: true,
+    history: [],
+  };
+}
+
+describe("application notes", () => {
+  it("keeps mentions of teammates only", () => {
+    const body = `${mentionMarkdown(dana)} and ${mentionMarkdown(dana)} please loop in @[Someone](aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee)`;
+    expect(mentionMarkdown(dana)).toBe(`@[Dana Lead Lee](${dana.userId})`);
+    expect(mentionedTeammates(body, [dana, sam])).toEqual([dana.userId]);
+  });
+
+  it("threads replies under their note, newest thread first", () => {
+    const threads = buildNoteThreads([
+      note("a", "2025-12-20T10:00:00Z"),
+      note("b", "2025-12-21T10:00:00Z"),
+      note("a-2", "2025-12-22T10:00:00Z", "a"),
+      note("a-1", "2025-12-21T12:00:00Z", "a"),
+      note("orphan", "2025-12-19T10:00:00Z", "gone"),
+    ]);
+    expect(threads.map((t) => t.id)).toEqual(["b", "a", "orphan"]);
+    expect(threads[1].replies.map((r) => r.id)).toEqual(["a-1", "a-2"]);
+  });
+
+  it("hides the body of deleted notes but keeps their history", () => {
+    const row: ApplicationNote = {
+      id: "n-1",
+      application_id: "app-1",
+      parent_id: null,
+      author_id: "rec-1",
+      body: "Salary expectations too high",
+      mentioned_user_ids: [],
+      edited_at: null,
+      deleted_at: "2025-12-22T10:00:00Z",
+      created_at: "2025-12-21T10:00:00Z",
+      updated_at: "2025-12-22T10:00:00Z",
+    };
+    const view = toNoteView(
+      row,
+      [{ id: "r-1", note_id: "n-1", body: row.body, action: "deleted", changed_by: "rec-1", created_at: row.deleted_at! }],
+      new Map([["rec-1", "Rec One"]]),
+      "rec-2"
+    );
+    expect(view).toMatchObject({ body: null, authorName: "Rec One", isMine: false });
+    expect(view.history).toEqual([
+      { action: "deleted", body: "Salary expectations too high", changedByName: "Rec One", changedAt: row.deleted_at },
+    ]);
+  });
+});
@@ -0,0 +1,267 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { jobRole } from "@/lib/organizations";
+import { MENTION_PATTERN } from "@/lib/markdown";
+import type {
+  ApplicationNote,
+  ApplicationNoteRevision,
+  ApplicationNoteRevisionAction,
+  OrganizationRole,
+} from "@/lib/types/database";
+
+/**
+ * Application Notes
+ *
+ * Private hiring-team notes on an application, written in markdown (see
+ * src/lib/markdown.ts). Top-level notes start a thread and replies hang off
+ * them one level deep. Teammates are @mentioned as @[Name](user-id), which the
+ * note editor inserts; mentions of anyone outside the job's hiring team are
+ * ignored.
+ *
+ * Notes are never hard-deleted: edits and deletes keep the previous body in
+ * application_note_revisions (written by a trigger) and deleted notes stay in
+ * the thread as a placeholder. Only the author can edit or delete a note.
+ *
+ * Anyone who can view the application (see jobRole) can read and write notes.
+ * Candidates never see them.
+ */
+
+export const MAX_NOTE_LENGTH = 10000;
+
+const NoteBodySchema = z
+  .string()
+  .trim()
+  .min(1, "Note can't be empty")
+  .max(MAX_NOTE_LENGTH, `Notes must be ${MAX_NOTE_LENGTH} characters or less`);
+
+export const NoteInputSchema = z.object({
+  body: NoteBodySchema,
+  parentId: z.string().uuid("Invalid note id").optional(),
+});
+
+export const NoteUpdateSchema = z.object({
+  body: NoteBodySchema,
+});
+
+// Someone who can be @mentioned on an application
+export type Teammate = {
+  userId: string;
+  name: string;
+};
+
+export type NoteRevisionView = {
+  action: ApplicationNoteRevisionAction;
+  body: string;
+  changedByName: string | null;
+  changedAt: string;
+};
+
+export type NoteView = {
+  id: string;
+  parentId: string | null;
+  authorId: string | null;
+  authorName: string | null;
+  // Null once deleted; the text is still in history
+  body: string | null;
+  mentionedUserIds: string[];
+  createdAt: string;
+  editedAt: string | null;
+  deletedAt: string | null;
+  isMine: boolean;
+  history: NoteRevisionView[];
+};
+
+export type NoteThread = NoteView & { replies: NoteView[] };
+
+/**
+ * User ids @mentioned in a note, limited to the given teammates
+ */
+export function mentionedTeammates(body: string, teammates: Teammate[]): string[] {
+  const team = new Set(teammates.map((t) => t.userId));
+  const ids = [...body.matchAll(MENTION_PATTERN)].map((match) => match[2].toLowerCase());
+  return [...new Set(ids)].filter((id) => team.has(id));
+}
+
+/**
+ * Markdown for mentioning a teammate
+ */
+export function mentionMarkdown(teammate: Teammate): string {
+  // Brackets would end the label early
+  return `@[${teammate.name.replace(/[[\]]/g, "")}](${teammate.userId})`;
+}
+
+/**
+ * Group notes into threads: newest thread first, replies oldest first.
+ * Replies whose parent is missing are shown as threads of their own.
+ */
+export function buildNoteThreads(notes: NoteView[]): NoteThread[] {
+  const threads = new Map<string, NoteThread>();
+  for (const note of notes) {
+    if (!note.parentId) threads.set(note.id, { ...note, replies: [] });
+  }
+  for (const note of notes) {
+    if (!note.parentId) continue;
+    const parent = threads.get(note.parentId);
+    if (parent) parent.replies.push(note);
+    else threads.set(note.id, { ...note, replies: [] });
+  }
+
+  const byCreated = (a: NoteView, b: NoteView) => a.createdAt.localeCompare(b.createdAt);
+  const result = [...threads.values()];
+  for (const thread of result) thread.replies.sort(byCreated);
+  return result.sort((a, b) => byCreated(b, a));
+}
+
+/**
+ * API shape of a note
+ * @param names - Display names by user id, for authors and editors
+ */
+export function toNoteView(
+  note: ApplicationNote,
+  revisions: ApplicationNoteRevision[],
+  names: Map<string, string>,
+  userId: string
+): NoteView {
+  return {
+    id: note.id,
+    parentId: note.parent_id,
+    authorId: note.author_id,
+    authorName: note.author_id ? names.get(note.author_id) ?? null : null,
+    body: note.deleted_at ? null : note.body,
+    mentionedUserIds: note.mentioned_user_ids ?? [],
+    createdAt: note.created_at,
+    editedAt: note.edited_at,
+    deletedAt: note.deleted_at,
+    isMine: note.author_id === userId,
+    history: revisions.map((revision) => ({
+      action: revision.action,
+      body: revision.body,
+      changedByName: revision.changed_by ? names.get(revision.changed_by) ?? null : null,
+      changedAt: revision.created_at,
+    })),
+  };
+}
+
+type NotesAccess = {
+  job: { id: string; employer_id: string | null; organization_id: string | null };
+  role: OrganizationRole;
+};
+
+/**
+ * The caller's access to an application's notes: the same rule as viewing the application
+ * @returns Access details, or null when the application doesn't exist or the caller isn't on its hiring team
+ */
+export async function loadNotesAccess(
+  supabase: SupabaseClient,
+  userId: string,
+  applicationId: string
+): Promise<NotesAccess | null> {
+  const { data: application } = await supabase
+    .from("applications")
+    .select("id, job_id")
+    .eq("id", applicationId)
+    .maybeSingle();
+  if (!application) return null;
+
+  const { data: job } = await supabase
+    .from("jobs")
+    .select("id, employer_id, organization_id")
+    .eq("id", application.job_id)
+    .maybeSingle();
+  if (!job) return null;
+
+  const role = await jobRole(supabase, userId, job);
+  return role ? { job, role } : null;
+}
+
+/**
+ * Display names for recruiters, by user id
+ */
+async function loadRecruiterNames(supabase: SupabaseClient, userIds: string[]): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  if (userIds.length === 0) return names;
+  const { data } = await supabase.from("recruiter_profiles").select("user_id, name").in("user_id", userIds);
+  for (const profile of (data ?? []) as { user_id: string; name: string }[]) names.set(profile.user_id, profile.name);
+  return names;
+}
+
+/**
+ * Everyone on a job's hiring team: the organization's members, or the
+ * creator of a legacy job
+ */
+export async function loadTeammates(
+  supabase: SupabaseClient,
+  job: { employer_id: string | null; organization_id: string | null }
+): Promise<Teammate[]> {
+  let userIds: string[] = job.employer_id ? [job.employer_id] : [];
+  if (job.organization_id) {
+    const { data, error } = await supabase
+      .from("organization_members")
+      .select("user_id")
+      .eq("organization_id", job.organization_id);
+    if (error) {
+      console.error("Failed to load organization members:", error);
+    }
+    userIds = ((data ?? []) as { user_id: string }[]).map((m) => m.user_id);
+  }
+
+  const names = await loadRecruiterNames(supabase, userIds);
+  return userIds
+    .filter((id) => names.has(id))
+    .map((id) => ({ userId: id, name: names.get(id)! }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * One note with its edit history
+ * @returns The note, or null if it doesn't exist or the caller can't see it
+ */
+export async function loadNote(supabase: SupabaseClient, userId: string, noteId: string): Promise<NoteView | null> {
+  const { data: note } = await supabase.from("application_notes").select("*").eq("id", noteId).maybeSingle();
+  if (!note) return null;
+  const { data: revisionRows } = await supabase
+    .from("application_note_revisions")
+    .select("*")
+    .eq("note_id", noteId)
+    .order("created_at", { ascending: true });
+  const revisions = (revisionRows ?? []) as ApplicationNoteRevision[];
+
+  const people = [note.author_id, ...revisions.map((r) => r.changed_by)];
+  const names = await loadRecruiterNames(supabase, [...new Set(people.filter((id): id is string => !!id))]);
+  return toNoteView(note as ApplicationNote, revisions, names, userId);
+}
+
+/**
+ * An application's notes, threaded, with each note's edit history
+ */
+export async function loadApplicationNotes(
+  supabase: SupabaseClient,
+  userId: string,
+  applicationId: string
+): Promise<NoteThread[]> {
+  const { data, error } = await supabase
+    .from("application_notes")
+    .select("*")
+    .eq("application_id", applicationId)
+    .order("created_at", { ascending: true });
+  if (error) {
+    console.error("Failed to load application notes:", error);
+    return [];
+  }
+  const notes = (data ?? []) as ApplicationNote[];
+  if (notes.length === 0) return [];
+
+  const { data: revisionRows } = await supabase
+    .from("application_note_revisions")
+    .select("*")
+    .in("note_id", notes.map((n) => n.id))
+    .order("created_at", { ascending: true });
+  const revisions = (revisionRows ?? []) as ApplicationNoteRevision[];
+
+  const people = [...notes.map((n) => n.author_id), ...revisions.map((r) => r.changed_by)];
+  const names = await loadRecruiterNames(supabase, [...new Set(people.filter((id): id is string => !!id))]);
+
+  return buildNoteThreads(
+    notes.map((note) => toNoteView(note, revisions.filter((r) => r.note_id === note.id), names, userId))
+  );
+}
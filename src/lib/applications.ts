@@ -1,13 +1,9 @@
 import { promises as fs } from "fs";
 import path from "path";
 
-export type SupplementalQuestion = {
-  id: string;
-  question: string;
-  type: "text" | "textarea" | "select";
-  options?: string[]; // For select type questions
-  required: boolean;
-};
+export type { SupplementalQuestion } from "@/lib/supplemental-questions";
+import type { SupplementalQuestion } from "@/lib/supplemental-questions";
+import type { JobRequirements } from "@/lib/types/database";
 
 export type Job = {
   id: string;
@@ -15,6 +11,7 @@ export type Job = {
   company: string;
   location: string;
   description?: string;
+  requirements?: JobRequirements | null;
   supplementalQuestions?: SupplementalQuestion[];
 };
 
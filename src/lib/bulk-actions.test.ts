@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { BulkActionSchema, csvField, normalizeTag, planMove, renderTemplate, toCsv } from "./bulk-actions";
+import type { BulkTarget } from "./bulk-actions";
+
+const target = (status: string, stageId: string | null = status): BulkTarget => ({
+  application: { id: "app-1", job_id: "job-1", candidate_id: "cand-1", status: status as BulkTarget["application"]["status"], stage_id: stageId, applied_at: "2025-12-01T00:00:00Z" },
+  job: { id: "job-1", title: "Engineer", company: "Acme", employer_id: "rec-1", organization_id: null, pipeline_stages: null },
+  role: "admin",
+});
+
+describe("renderTemplate", () => {
+  it("fills known placeholders and keeps unknown ones", () => {
+    expect(
+      renderTemplate("Hi {{ candidate_name }}, re {{job_title}} at {{company}} {{other}}", {
+        candidate_name: "Ada",
+        job_title: "Engineer",
+        company: "Acme",
+      })
+    ).toBe("Hi Ada, re Engineer at Acme {{other}}");
+  });
+
+  it("greets candidates without a name generically", () => {
+    expect(renderTemplate("Hi {{candidate_name}}", { candidate_name: null })).toBe("Hi there");
+  });
+});
+
+describe("csv", () => {
+  it("quotes fields with separators and neutralizes formulas", () => {
+    expect(csvField('Smith, "Jo"')).toBe('"Smith, ""Jo"""');
+    expect(csvField("=HYPERLINK(\"x\")")).toBe("\"'=HYPERLINK(\"\"x\"\")\"");
+    expect(csvField("-5")).toBe("'-5");
+    expect(csvField(null)).toBe("");
+    expect(toCsv([["a", "b"], ["c", 1]])).toBe("a,b\r\nc,1\r\n");
+  });
+});
+
+describe("BulkActionSchema", () => {
+  it("normalizes and dedupes tags and ids", () => {
+    const parsed = BulkActionSchema.parse({ action: "tag", applicationIds: ["a", "a", "b"], tags: [" Strong  Portfolio", "strong portfolio"] });
+    expect(parsed).toEqual({ action: "tag", applicationIds: ["a", "b"], tags: ["strong portfolio"], remove: false });
+    expect(normalizeTag("  Referral ")).toBe("referral");
+  });
+
+  it("requires a target for moves and rejects bad tags", () => {
+    expect(BulkActionSchema.safeParse({ action: "move", applicationIds: ["a"] }).success).toBe(false);
+    expect(BulkActionSchema.safeParse({ action: "tag", applicationIds: ["a"], tags: ["<b>"] }).success).toBe(false);
+    expect(BulkActionSchema.safeParse({ action: "export", applicationIds: [] }).success).toBe(false);
+  });
+});
+
+describe("planMove", () => {
+  it("plans a move to the matching stage", () => {
+    const planned = planMove(target("applied"), { status: "interview" }, { reason: "Strong screen" });
+    expect(planned).toMatchObject({
+      move: { application_id: "app-1", from_status: "applied", to_status: "interview", to_stage_id: "interview", reason: "Strong screen", message: null },
+      stage: { id: "interview" },
+    });
+  });
+
+  it("reports moves the pipeline or transition rules don't allow", () => {
+    expect(planMove(target("applied"), { stageId: "missing" })).toMatchObject({ ok: false, code: "NO_STAGE" });
+    expect(planMove(target("hired"), { status: "rejected" })).toMatchObject({ ok: false, code: "INVALID_TRANSITION" });
+  });
+});
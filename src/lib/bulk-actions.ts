@@ -0,0 +1,264 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { jobRole } from "@/lib/organizations";
+import { currentStage, findStage, resolvePipeline, resolveTargetStage } from "@/lib/pipeline";
+import { MAX_TRANSITION_REASON_LENGTH, canMoveToStage } from "@/lib/status-transitions";
+import type { Application, ApplicationStatus, Job, OrganizationRole, PipelineStage } from "@/lib/types/database";
+
+/**
+ * Bulk Actions
+ *
+ * The recruiter dashboard and job pages act on many applications at once
+ * through POST /api/applications/bulk: move to a stage, reject (optionally
+ * messaging each candidate from a template), tag and export.
+ *
+ * Every row is checked on its own (the caller's role on its job, and for
+ * moves the same transition rules as the single-row PATCH), and the response
+ * reports a result per application. Rows that pass are applied together:
+ * moves in one bulk_move_applications() call (migration 020), tags in one
+ * insert or delete.
+ */
+
+export const MAX_BULK_APPLICATIONS = 200;
+
+export const MAX_TAGS_PER_ACTION = 10;
+export const MAX_TAG_LENGTH = 30;
+
+export const MAX_TEMPLATE_LENGTH = 5000;
+
+// Placeholders a rejection message may use, filled in per candidate
+export const TEMPLATE_VARIABLES = ["candidate_name", "job_title", "company"] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+
+export const DEFAULT_REJECTION_TEMPLATE = `Hi {{candidate_name}},
+
+Thank you for applying for the {{job_title}} role at {{company}}. After careful review, we've decided not to move forward with your application.
+
+We appreciate your interest and wish you the best in your search.`;
+
+/**
+ * Normalize a tag: trimmed, lowercase, single spaces
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+const ApplicationIds = z
+  .array(z.string().trim().min(1))
+  .min(1, "Select at least one application")
+  .max(MAX_BULK_APPLICATIONS, `Select at most ${MAX_BULK_APPLICATIONS} applications`)
+  .transform((ids) => [...new Set(ids)]);
+
+const Reason = z
+  .string()
+  .trim()
+  .max(MAX_TRANSITION_REASON_LENGTH, `Reason must be ${MAX_TRANSITION_REASON_LENGTH} characters or less`)
+  .optional();
+
+const Tag = z
+  .string()
+  .transform(normalizeTag)
+  .pipe(
+    z
+      .string()
+      .min(1, "Tags can't be empty")
+      .max(MAX_TAG_LENGTH, `Tags must be ${MAX_TAG_LENGTH} characters or less`)
+      .regex(/^[a-z0-9][a-z0-9 _-]*$/, "Tags may only contain letters, numbers, spaces, - and _")
+  );
+
+export const BulkActionSchema = z.discriminatedUnion("action", [
+  // stageId is used where the job's pipeline has it; otherwise status picks the
+  // job's first stage with that outcome (selections can span jobs)
+  z
+    .object({
+      action: z.literal("move"),
+      applicationIds: ApplicationIds,
+      stageId: z.string().trim().optional(),
+      status: z.string().trim().optional(),
+      reason: Reason,
+    })
+    .refine((body) => body.stageId || body.status, { message: "Choose a stage", path: ["stageId"] }),
+  z.object({
+    action: z.literal("reject"),
+    applicationIds: ApplicationIds,
+    reason: Reason,
+    // Sent to each candidate's message thread when present
+    message: z.string().trim().max(MAX_TEMPLATE_LENGTH, `Message must be ${MAX_TEMPLATE_LENGTH} characters or less`).optional(),
+  }),
+  z.object({
+    action: z.literal("tag"),
+    applicationIds: ApplicationIds,
+    tags: z
+      .array(Tag)
+      .min(1, "Enter at least one tag")
+      .max(MAX_TAGS_PER_ACTION, `Apply at most ${MAX_TAGS_PER_ACTION} tags at a time`)
+      .transform((tags) => [...new Set(tags)]),
+    // Remove the tags instead of adding them
+    remove: z.boolean().default(false),
+  }),
+  z.object({
+    action: z.literal("export"),
+    applicationIds: ApplicationIds,
+  }),
+]);
+
+export type BulkAction = z.infer<typeof BulkActionSchema>;
+
+export type BulkErrorCode = "NOT_FOUND" | "FORBIDDEN" | "INVALID_TRANSITION" | "NO_STAGE" | "CONFLICT" | "FAILED";
+
+/**
+ * Outcome for one application in a bulk request
+ */
+export type BulkItemResult =
+  | { applicationId: string; ok: true; status?: ApplicationStatus; stageId?: string | null; stageName?: string | null }
+  | { applicationId: string; ok: false; code: BulkErrorCode; error: string };
+
+/**
+ * Fill {{placeholders}} in a message template. Unknown placeholders are left as written.
+ */
+export function renderTemplate(template: string, values: Partial<Record<TemplateVariable, string | null>>): string {
+  return template.replace(/\{\{\s*([a-z_]+)\s*\}\}/g, (match, name: string) => {
+    if (!(TEMPLATE_VARIABLES as readonly string[]).includes(name)) return match;
+    return values[name as TemplateVariable] || (name === "candidate_name" ? "there" : "");
+  });
+}
+
+/**
+ * One CSV field (RFC 4180). Values starting with a formula character are
+ * prefixed with ' so spreadsheets show them as text.
+ */
+export function csvField(value: string | number | null | undefined): string {
+  let text = value == null ? "" : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV document from rows of fields
+ */
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+export type BulkTarget = {
+  application: Pick<Application, "id" | "job_id" | "candidate_id" | "status" | "stage_id" | "applied_at">;
+  job: Pick<Job, "id" | "title" | "company" | "employer_id" | "organization_id" | "pipeline_stages">;
+  role: OrganizationRole;
+};
+
+/**
+ * Load the requested applications with their jobs and the caller's role on each job
+ * @returns Targets by application id; applications the caller can't see are missing
+ */
+export async function loadBulkTargets(
+  supabase: SupabaseClient,
+  userId: string,
+  applicationIds: string[]
+): Promise<Map<string, BulkTarget>> {
+  const { data: applicationRows } = await supabase
+    .from("applications")
+    .select("id, job_id, candidate_id, status, stage_id, applied_at")
+    .in("id", applicationIds);
+  const applications = (applicationRows ?? []) as BulkTarget["application"][];
+  if (applications.length === 0) return new Map();
+
+  const { data: jobRows } = await supabase
+    .from("jobs")
+    .select("id, title, company, employer_id, organization_id, pipeline_stages")
+    .in("id", [...new Set(applications.map((a) => a.job_id))]);
+  const jobs = (jobRows ?? []) as BulkTarget["job"][];
+
+  // One role lookup per job, not per application
+  const roles = new Map<string, OrganizationRole | null>();
+  for (const job of jobs) roles.set(job.id, await jobRole(supabase, userId, job));
+
+  const targets = new Map<string, BulkTarget>();
+  for (const application of applications) {
+    const job = jobs.find((j) => j.id === application.job_id);
+    const role = job ? roles.get(job.id) : null;
+    if (job && role) targets.set(application.id, { application, job, role });
+  }
+  return targets;
+}
+
+// One entry of bulk_move_applications()'s moves argument. The database reads
+// application_id, from_status (to detect concurrent changes), to_stage_id,
+// reason and message; the rest describes the move for the response.
+export type BulkMove = {
+  application_id: string;
+  from_status: ApplicationStatus;
+  to_status: ApplicationStatus;
+  from_stage_id: string | null;
+  to_stage_id: string;
+  reason: string | null;
+  message: string | null;
+};
+
+export type PlannedMove = {
+  move: BulkMove;
+  stage: PipelineStage;
+};
+
+/**
+ * Check a move for one application against its job's pipeline
+ * @returns The move to apply, or the reason it can't be made
+ */
+export function planMove(
+  target: BulkTarget,
+  to: { stageId?: string; status?: string },
+  extras: { reason?: string | null; message?: string | null } = {}
+): PlannedMove | Extract<BulkItemResult, { ok: false }> {
+  const applicationId = target.application.id;
+  const stages = resolvePipeline(target.job);
+  const stage = findStage(stages, to.stageId) ?? resolveTargetStage(stages, { status: to.status });
+  if (!stage) {
+    return { applicationId, ok: false, code: "NO_STAGE", error: "This job's pipeline has no matching stage" };
+  }
+
+  const fromStatus = target.application.status as ApplicationStatus;
+  const fromStage = currentStage(stages, target.application);
+  if (!canMoveToStage("recruiter", { status: fromStatus, stageId: fromStage?.id ?? null }, stage)) {
+    return {
+      applicationId,
+      ok: false,
+      code: "INVALID_TRANSITION",
+      error: `Can't move from ${fromStage?.name ?? fromStatus} to ${stage.name}`,
+    };
+  }
+
+  return {
+    move: {
+      application_id: applicationId,
+      from_status: fromStatus,
+      to_status: stage.status,
+      from_stage_id: fromStage?.id ?? null,
+      to_stage_id: stage.id,
+      reason: extras.reason || null,
+      message: extras.message || null,
+    },
+    stage,
+  };
+}
+
+/**
+ * Tags on applications, by application id (sorted)
+ */
+export async function loadApplicationTags(
+  supabase: SupabaseClient,
+  applicationIds: string[]
+): Promise<Map<string, string[]>> {
+  const tags = new Map<string, string[]>();
+  if (applicationIds.length === 0) return tags;
+  const { data, error } = await supabase
+    .from("application_tags")
+    .select("application_id, tag")
+    .in("application_id", applicationIds);
+  if (error) {
+    console.error("Failed to load application tags:", error);
+  }
+  for (const row of (data ?? []) as { application_id: string; tag: string }[]) {
+    tags.set(row.application_id, [...(tags.get(row.application_id) ?? []), row.tag].sort());
+  }
+  return tags;
+}
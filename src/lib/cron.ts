@@ -0,0 +1,15 @@
+import { timingSafeEqual } from "crypto";
+import type { NextRequest } from "next/server";
+
+/**
+ * Scheduled routes (app/api/cron/*) authenticate with a shared secret rather
+ * than a user session: `Authorization: Bearer <CRON_SECRET>`.
+ */
+export function isCronRequest(req: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  // Constant-time, so response timing doesn't reveal how much of the secret matched
+  const given = Buffer.from(req.headers.get("authorization") ?? "");
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
@@ -0,0 +1,297 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import path from "path";
+import { APPLICATION_STATUSES } from "./pipeline";
+import type { ApplicationStatus } from "./types/database";
+import {
+  DEFAULT_EEO_MIN_CELL_SIZE,
+  EEO_DIMENSIONS,
+  EeoReportQuerySchema,
+  NOT_DISCLOSED,
+  RECRUITER_CANDIDATE_COLUMNS,
+  computeEeoReport,
+  eeoCategory,
+  eeoJobReport,
+  eeoMinCellSize,
+  suppressCells,
+} from "./eeo";
+import type { EeoAnswers, EeoBreakdown, EeoCell, EeoReport, EeoReportInput } from "./eeo";
+
+const counts = (cells: EeoCell[]) => Object.fromEntries(cells.map((cell) => [cell.category, cell.count]));
+
+// Hidden cells that are the only hidden one on a line someone could subtract
+// along: a group's cells against its total, or a category's cells in sibling
+// stages (or jobs) against the job's (or the overall) count
+function recoverableCells(report: EeoReport): string[] {
+  const found: string[] = [];
+  const groups: [string, EeoBreakdown][] = [
+    ["overall", report.overall],
+    ...report.jobs.flatMap((job): [string, EeoBreakdown][] => [
+      [job.jobId, job],
+      ...job.stages.map((stage): [string, EeoBreakdown] => [`${job.jobId}/${stage.stageId}`, stage]),
+    ]),
+  ];
+  const families: [string, EeoBreakdown, EeoBreakdown[]][] = [
+    ["overall", report.overall, report.jobs],
+    ...report.jobs.map((job): [string, EeoBreakdown, EeoBreakdown[]] => [job.jobId, job, job.stages]),
+  ];
+  for (const dimension of EEO_DIMENSIONS) {
+    for (const [label, group] of groups) {
+      if (group.total > 0 && group.dimensions[dimension].filter((cell) => cell.count === null).length === 1) {
+        found.push(`${label} ${dimension}`);
+      }
+    }
+    for (const [label, parent, children] of families) {
+      parent.dimensions[dimension].forEach((cell, c) => {
+        const line = [cell, ...children.filter((child) => child.total > 0).map((child) => child.dimensions[dimension][c])];
+        if (line.filter((entry) => entry.count === null).length === 1) found.push(`${label} ${dimension} ${cell.category}`);
+      });
+    }
+  }
+  return found;
+}
+
+describe("eeoCategory", () => {
+  it("maps answers to the form's categories", () => {
+    expect(eeoCategory("gender", "Woman")).toBe("Woman");
+    expect(eeoCategory("gender", " non-binary ")).toBe("Non-binary");
+    expect(eeoCategory("gender", "Genderfluid")).toBe("Self-described");
+    expect(eeoCategory("race_ethnicity", "Something else")).toBe("Other");
+    expect(eeoCategory("disability_status", "Prefer not to say")).toBe(NOT_DISCLOSED);
+    expect(eeoCategory("veteran_status", null)).toBe(NOT_DISCLOSED);
+  });
+});
+
+describe("suppressCells", () => {
+  const hiddenCounts = (counts: number[], hidden: boolean[]) => counts.map((count, c) => (hidden[c] ? null : count));
+
+  it("hides counts under the minimum and keeps zeros", () => {
+    const [hidden] = suppressCells([[12, 3, 2, 0]], [null], 5);
+
+    expect(hiddenCounts([12, 3, 2, 0], hidden)).toEqual([12, null, null, 0]);
+  });
+
+  it("hides a second cell when one hidden cell could be worked out from the total", () => {
+    const [hidden] = suppressCells([[20, 8, 2, 0]], [null], 5);
+
+    expect(hiddenCounts([20, 8, 2, 0], hidden)).toEqual([20, null, null, 0]);
+  });
+
+  it("hides every cell of a group smaller than the minimum", () => {
+    const [hidden] = suppressCells([[3, 0]], [null], 5);
+
+    expect(hidden).toEqual([true, true]);
+  });
+
+  it("hides a sibling's cell when a hidden one could be worked out from the parent", () => {
+    // A job (W22/M30) with stage A (W20/M20) and stage B (W2/M10)
+    const counts = [[22, 30], [20, 20], [2, 10]];
+    const hidden = suppressCells(counts, [null, 0, 0], 5);
+
+    // B's women can't be 22 - 20 any more
+    expect(hidden[2]).toEqual([true, true]);
+    expect(hidden[1]).toEqual([true, true]);
+    expect(hidden[0]).toEqual([false, false]);
+  });
+
+  it("hides the parent's cell when no sibling has a count to hide", () => {
+    // Stage A's 3 women can only be covered by the job's, since stage B has none
+    const hidden = suppressCells([[3, 13], [3, 6], [0, 7]], [null, 0, 0], 5);
+
+    expect(hidden).toEqual([[true, true], [true, true], [false, false]]);
+  });
+
+  it("keeps everything a lower minimum hid", () => {
+    const counts = [[5, 9, 17], [0, 8, 9], [5, 1, 8]];
+    const parents = [null, 0, 0];
+    const base = suppressCells(counts, parents, 5);
+
+    // On its own, a minimum of 7 would show stage A's 8 and 9 that the base report hides
+    expect(suppressCells(counts, parents, 7)[1]).toEqual([false, false, false]);
+    const hidden = suppressCells(counts, parents, 7, base);
+    base.forEach((cells, g) => cells.forEach((wasHidden, c) => wasHidden && expect(hidden[g][c]).toBe(true)));
+  });
+});
+
+describe("computeEeoReport", () => {
+  const answers = new Map<string, EeoAnswers>();
+  const applications: EeoReportInput["applications"] = [];
+  // 6 women and 6 men applied; 2 of the women and 1 man are at the interview stage
+  for (let i = 0; i < 12; i++) {
+    const candidateId = `cand-${i}`;
+    answers.set(candidateId, { gender: i < 6 ? "Woman" : "Man", veteran_status: "Not a veteran" });
+    const interviewing = i < 2 || i === 6;
+    applications.push({
+      id: `app-${i}`,
+      job_id: "job-1",
+      candidate_id: candidateId,
+      status: interviewing ? "interview" : "applied",
+      stage_id: interviewing ? "interview" : "applied",
+    });
+  }
+  const input: EeoReportInput = {
+    jobs: [{ id: "job-1", title: "Backend Engineer", pipeline_stages: null }],
+    applications,
+    answers,
+    minCellSize: 5,
+  };
+
+  it("counts applicants per job and suppresses small stages", () => {
+    const report = computeEeoReport(input);
+    const [job] = report.jobs;
+
+    expect(report.minCellSize).toBe(5);
+    expect(counts(report.overall.dimensions.gender)).toMatchObject({ Woman: 6, Man: 6, "Non-binary": 0, [NOT_DISCLOSED]: 0 });
+    expect(job.total).toBe(12);
+    expect(counts(job.dimensions.veteran_status)).toMatchObject({ "Not a veteran": 12 });
+    expect(counts(job.dimensions.race_ethnicity)).toMatchObject({ [NOT_DISCLOSED]: 12 });
+
+    const interview = job.stages.find((stage) => stage.stageId === "interview")!;
+    expect(interview.total).toBe(3);
+    expect(interview.dimensions.gender.every((cell) => cell.count === null)).toBe(true);
+
+    // 4 women is under the minimum, so the 5 men are hidden too or the 4 would follow from the total
+    const applied = job.stages.find((stage) => stage.stageId === "applied")!;
+    expect(applied.total).toBe(9);
+    expect(counts(applied.dimensions.gender)).toMatchObject({ Woman: null, Man: null });
+    // 12 - 9 would give away the hidden interview stage
+    expect(counts(applied.dimensions.veteran_status)).toMatchObject({ "Not a veteran": null });
+    expect(recoverableCells(report)).toEqual([]);
+  });
+
+  it("doesn't let a hidden stage be worked out from the job minus its other stages", () => {
+    // Stage A has 20 women and 20 men, stage B 2 women and 10 men
+    const applications: EeoReportInput["applications"] = [];
+    const answers = new Map<string, EeoAnswers>();
+    const stages: [ApplicationStatus, number, number][] = [["applied", 20, 20], ["interview", 2, 10]];
+    for (const [stage, women, men] of stages) {
+      for (let i = 0; i < women + men; i++) {
+        const candidateId = `cand-${stage}-${i}`;
+        answers.set(candidateId, { gender: i < women ? "Woman" : "Man" });
+        applications.push({ id: `app-${stage}-${i}`, job_id: "job-1", candidate_id: candidateId, status: stage, stage_id: stage });
+      }
+    }
+
+    const report = computeEeoReport({ ...input, applications, answers });
+    const [job] = report.jobs;
+
+    expect(counts(job.dimensions.gender)).toMatchObject({ Woman: 22, Man: 30 });
+    expect(counts(job.stages.find((stage) => stage.stageId === "interview")!.dimensions.gender)).toMatchObject({ Woman: null, Man: null });
+    expect(counts(job.stages.find((stage) => stage.stageId === "applied")!.dimensions.gender)).toMatchObject({ Woman: null, Man: null });
+    expect(recoverableCells(report)).toEqual([]);
+  });
+
+  it("never leaves a hidden cell that follows from its parent minus its siblings", () => {
+    let seed = 7;
+    const random = (n: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % n;
+    };
+    const genders = ["Woman", "Man", "Non-binary", "Genderfluid", null];
+    const veterans = ["Not a veteran", "Veteran", null];
+    for (let run = 0; run < 20; run++) {
+      const jobs = Array.from({ length: 1 + random(5) }, (_, j) => ({ id: `job-${j}`, title: `Job ${j}`, pipeline_stages: null }));
+      const answers = new Map<string, EeoAnswers>();
+      const applications = Array.from({ length: random(120) }, (_, i) => {
+        const status = APPLICATION_STATUSES[random(APPLICATION_STATUSES.length)];
+        answers.set(`cand-${i}`, { gender: genders[random(genders.length)], veteran_status: veterans[random(veterans.length)] });
+        return { id: `app-${i}`, job_id: jobs[random(jobs.length)].id, candidate_id: `cand-${i}`, status, stage_id: status };
+      });
+
+      for (const minCellSize of [3, 5, 10]) {
+        expect(recoverableCells(computeEeoReport({ jobs, applications, answers, minCellSize }))).toEqual([]);
+      }
+    }
+  });
+
+  it("never includes anything that identifies a candidate", () => {
+    const json = JSON.stringify(computeEeoReport(input));
+
+    expect(json).not.toMatch(/cand-|app-/);
+  });
+
+  it("narrows to one job without changing what's hidden", () => {
+    const other = applications.map((a) => ({ ...a, id: `other-${a.id}`, job_id: "job-2" }));
+    const full = computeEeoReport({
+      ...input,
+      jobs: [...input.jobs, { id: "job-2", title: "Designer", pipeline_stages: null }],
+      applications: [...applications, ...other],
+    });
+
+    const report = eeoJobReport(full, "job-2")!;
+    expect(report.jobs).toEqual([full.jobs[1]]);
+    expect(report.overall).toEqual({ total: 12, dimensions: full.jobs[1].dimensions });
+    expect(eeoJobReport(full, "job-3")).toBeNull();
+  });
+});
+
+describe("settings", () => {
+  const original = process.env.EEO_MIN_CELL_SIZE;
+  afterEach(() => {
+    if (original === undefined) delete process.env.EEO_MIN_CELL_SIZE;
+    else process.env.EEO_MIN_CELL_SIZE = original;
+  });
+
+  it("reads the minimum cell size from the environment", () => {
+    delete process.env.EEO_MIN_CELL_SIZE;
+    expect(eeoMinCellSize()).toBe(DEFAULT_EEO_MIN_CELL_SIZE);
+    process.env.EEO_MIN_CELL_SIZE = "10";
+    expect(eeoMinCellSize()).toBe(10);
+    process.env.EEO_MIN_CELL_SIZE = "0";
+    expect(eeoMinCellSize()).toBe(DEFAULT_EEO_MIN_CELL_SIZE);
+  });
+
+  it("validates the report query", () => {
+    expect(EeoReportQuerySchema.parse({ minCellSize: "8" })).toEqual({ minCellSize: 8 });
+    expect(EeoReportQuerySchema.safeParse({ minCellSize: "0" }).success).toBe(false);
+    expect(EeoReportQuerySchema.safeParse({ jobId: "job-1" }).success).toBe(false);
+  });
+});
+
+// Recruiter-facing code must never read or show EEO answers. The candidate's
+// own profile and the aggregate report are the only exceptions.
+describe("EEO answers stay out of recruiter views", () => {
+  const root = path.join(process.cwd(), "src");
+  const ALLOWED = new Set([
+    "app/profile/page.tsx",
+    "app/api/candidate-profile/route.ts",
+    "app/api/test-supabase/route.ts",
+    "app/api/reports/eeo/route.ts",
+    "app/recruiter/reports/eeo/page.tsx",
+  ]);
+
+  async function sourceFiles(dir: string): Promise<string[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    const files = await Promise.all(
+      entries.map((entry) => {
+        const full = path.join(dir, entry.name);
+        if (entry.isDirectory()) return sourceFiles(full);
+        return /\.tsx?$/.test(entry.name) && !/\.test\.tsx?$/.test(entry.name) ? [full] : [];
+      })
+    );
+    return files.flat();
+  }
+
+  it("keeps EEO fields out of the recruiter candidate columns", () => {
+    expect(RECRUITER_CANDIDATE_COLUMNS).not.toMatch(/eeo|\*/);
+  });
+
+  it("doesn't read EEO answers or whole candidate profiles in pages, routes or components", async () => {
+    const files = [...(await sourceFiles(path.join(root, "app"))), ...(await sourceFiles(path.join(root, "components")))];
+    const offenders: string[] = [];
+    for (const file of files) {
+      const relative = path.relative(root, file).split(path.sep).join("/");
+      if (ALLOWED.has(relative)) continue;
+      const source = await fs.readFile(file, "utf-8");
+      if (
+        /eeo_/.test(source) ||
+        /from\(\s*['"]candidate_profiles['"]\s*\)\s*\.select\(\s*(['"]\*['"])?\s*\)/.test(source) ||
+        /\b(getCandidateProfile|fetchCandidateProfile)\(/.test(source)
+      ) {
+        offenders.push(relative);
+      }
+    }
+
+    expect(offenders).toEqual([]);
+  });
+});
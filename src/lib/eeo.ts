@@ -0,0 +1,312 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { selectIn } from "@/lib/analytics";
+import { canViewEeoReports, recruiterJobsFilter } from "@/lib/organizations";
+import { currentStage, resolvePipeline } from "@/lib/pipeline";
+import type { Application, CandidateProfile, Job, OrganizationMember } from "@/lib/types/database";
+
+/**
+ * EEO Reporting
+ *
+ * Candidates may volunteer gender, race/ethnicity, veteran and disability
+ * status on their profile (candidate_profiles.eeo_*). The hiring team never
+ * sees those answers: recruiter-facing routes read candidate profiles through
+ * RECRUITER_CANDIDATE_COLUMNS or their own explicit column lists, and
+ * eeo.test.ts fails if recruiter-facing code mentions the EEO columns.
+ *
+ * Compliance staff (organization admins, canViewEeoReports) get EEO-1-style
+ * aggregates only: per job and per pipeline stage, the number of applicants
+ * in each category. Cells under the minimum cell size are suppressed so a
+ * small group can't be traced back to a person, and more cells are hidden
+ * wherever a suppressed one could be worked out from a group's total or from
+ * its sibling stages or jobs (suppressCells).
+ */
+
+// Candidate profile columns recruiter-facing views may read. Never add EEO fields.
+export const RECRUITER_CANDIDATE_COLUMNS =
+  "user_id, name, email, phone, education, resume_url, skills, experience, certifications, linkedin_url, github_url, portfolio_url, offer_deadline";
+
+export const EEO_DIMENSIONS = ["gender", "race_ethnicity", "veteran_status", "disability_status"] as const;
+export type EeoDimension = (typeof EEO_DIMENSIONS)[number];
+
+export const EEO_COLUMNS: Record<EeoDimension, keyof CandidateProfile> = {
+  gender: "eeo_gender",
+  race_ethnicity: "eeo_race_ethnicity",
+  veteran_status: "eeo_veteran_status",
+  disability_status: "eeo_disability_status",
+};
+
+export const EEO_DIMENSION_LABELS: Record<EeoDimension, string> = {
+  gender: "Gender",
+  race_ethnicity: "Race/Ethnicity",
+  veteran_status: "Veteran status",
+  disability_status: "Disability status",
+};
+
+export const NOT_DISCLOSED = "Not disclosed";
+
+// The profile form's options; anything else a candidate typed is grouped as other
+export const EEO_CATEGORIES: Record<EeoDimension, { options: string[]; other: string }> = {
+  gender: { options: ["Woman", "Man", "Non-binary"], other: "Self-described" },
+  race_ethnicity: {
+    options: [
+      "American Indian or Alaska Native",
+      "Asian",
+      "Black or African American",
+      "Hispanic or Latino",
+      "Native Hawaiian or Other Pacific Islander",
+      "White",
+      "Two or More Races",
+    ],
+    other: "Other",
+  },
+  veteran_status: { options: ["Not a veteran", "Veteran", "Protected Veteran"], other: "Other" },
+  disability_status: { options: ["Yes", "No"], other: "Other" },
+};
+
+export const DEFAULT_EEO_MIN_CELL_SIZE = 5;
+export const MAX_EEO_MIN_CELL_SIZE = 100;
+
+/**
+ * Smallest count shown in reports: EEO_MIN_CELL_SIZE, or DEFAULT_EEO_MIN_CELL_SIZE
+ */
+export function eeoMinCellSize(): number {
+  const configured = Number.parseInt(process.env.EEO_MIN_CELL_SIZE ?? "", 10);
+  return Number.isInteger(configured) && configured >= 1 && configured <= MAX_EEO_MIN_CELL_SIZE
+    ? configured
+    : DEFAULT_EEO_MIN_CELL_SIZE;
+}
+
+// GET /api/reports/eeo query string. minCellSize can raise the configured minimum, never lower it.
+export const EeoReportQuerySchema = z.object({
+  jobId: z.string().uuid("jobId must be a valid UUID").optional(),
+  minCellSize: z.coerce
+    .number()
+    .int("Minimum cell size must be a whole number")
+    .min(1, "Minimum cell size must be at least 1")
+    .max(MAX_EEO_MIN_CELL_SIZE, `Minimum cell size can be at most ${MAX_EEO_MIN_CELL_SIZE}`)
+    .optional(),
+});
+
+/**
+ * Report category for an answer
+ */
+export function eeoCategory(dimension: EeoDimension, value: string | null | undefined): string {
+  const answer = value?.trim();
+  if (!answer || answer.toLowerCase() === "prefer not to say") return NOT_DISCLOSED;
+  const { options, other } = EEO_CATEGORIES[dimension];
+  return options.find((option) => option.toLowerCase() === answer.toLowerCase()) ?? other;
+}
+
+export type EeoCell = {
+  category: string;
+  // null when suppressed
+  count: number | null;
+};
+
+/**
+ * Decide which cells of one dimension to hide across a report's groups.
+ * counts[g] holds group g's count per category and parents[g] the group its
+ * counts add up into (stages into their job, jobs into the overall group).
+ *
+ * Counts below minCellSize are hidden, and every cell of a group smaller
+ * than that. Then, until nothing changes, any line with exactly one hidden
+ * cell gets a second one, the smallest nonzero visible cell if there is one:
+ * a group's cells against its total, or a category's cells in sibling
+ * groups against their parent's. Otherwise the lone cell could be worked
+ * out by subtraction.
+ * @param alreadyHidden - Cells to hide regardless, e.g. a lower minimum's result
+ * @returns hidden[g][c] for each cell
+ */
+export function suppressCells(
+  counts: number[][],
+  parents: (number | null)[],
+  minCellSize: number,
+  alreadyHidden?: boolean[][]
+): boolean[][] {
+  const totals = counts.map((cells) => cells.reduce((sum, count) => sum + count, 0));
+  const hidden = counts.map((cells, g) =>
+    cells.map(
+      (count, c) =>
+        Boolean(alreadyHidden?.[g]?.[c]) || (totals[g] > 0 && totals[g] < minCellSize) || (count > 0 && count < minCellSize)
+    )
+  );
+
+  // Groups with no applicants are all zeros anyway, so they never hide anything
+  const lines: [number, number][][] = [];
+  counts.forEach((cells, g) => {
+    if (totals[g] > 0) lines.push(cells.map((_, c) => [g, c]));
+  });
+  counts.forEach((cells, p) => {
+    const children = parents.flatMap((parent, g) => (parent === p && totals[g] > 0 ? [g] : []));
+    if (children.length === 0) return;
+    cells.forEach((_, c) => lines.push([...children.map((g): [number, number] => [g, c]), [p, c]]));
+  });
+
+  const rank = ([g, c]: [number, number]) => (counts[g][c] > 0 ? counts[g][c] : Number.POSITIVE_INFINITY);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const line of lines) {
+      if (line.filter(([g, c]) => hidden[g][c]).length !== 1) continue;
+      const next = line.filter(([g, c]) => !hidden[g][c]).sort((a, b) => rank(a) - rank(b))[0];
+      if (!next) continue;
+      hidden[next[0]][next[1]] = true;
+      changed = true;
+    }
+  }
+  return hidden;
+}
+
+export type EeoBreakdown = {
+  // Applicants in the group; the same number the pipeline already shows
+  total: number;
+  dimensions: Record<EeoDimension, EeoCell[]>;
+};
+
+export type EeoStageReport = EeoBreakdown & { stageId: string; name: string };
+export type EeoJobReport = EeoBreakdown & { jobId: string; title: string; stages: EeoStageReport[] };
+
+export type EeoReport = {
+  minCellSize: number;
+  overall: EeoBreakdown;
+  jobs: EeoJobReport[];
+};
+
+export type EeoAnswers = Partial<Record<EeoDimension, string | null>>;
+
+export type EeoReportInput = {
+  jobs: Pick<Job, "id" | "title" | "pipeline_stages">[];
+  applications: Pick<Application, "id" | "job_id" | "candidate_id" | "status" | "stage_id">[];
+  // candidate user id -> answers
+  answers: Map<string, EeoAnswers>;
+  minCellSize: number;
+  // The configured minimum. A report with a larger minCellSize still hides
+  // every cell this one would, so comparing the two reveals nothing.
+  baseMinCellSize?: number;
+};
+
+/**
+ * Aggregate EEO counts for all applicants, each job and each job's current
+ * pipeline stages. Suppression covers the whole report at once (see
+ * suppressCells), so always compute it for every job and narrow it with
+ * eeoJobReport() rather than computing a single job's report.
+ */
+export function computeEeoReport(input: EeoReportInput): EeoReport {
+  const { answers, minCellSize, baseMinCellSize } = input;
+
+  // Group 0 is every applicant, then each job followed by its stages
+  const groups: { candidateIds: (string | null)[]; parent: number | null }[] = [
+    { candidateIds: input.applications.map((a) => a.candidate_id), parent: null },
+  ];
+  const layout = input.jobs.map((job) => {
+    const applications = input.applications.filter((application) => application.job_id === job.id);
+    const pipeline = resolvePipeline(job);
+    const group = groups.push({ candidateIds: applications.map((a) => a.candidate_id), parent: 0 }) - 1;
+    const stages = pipeline.map((stage) => ({
+      stage,
+      group:
+        groups.push({
+          candidateIds: applications.filter((a) => currentStage(pipeline, a)?.id === stage.id).map((a) => a.candidate_id),
+          parent: group,
+        }) - 1,
+    }));
+    return { job, group, stages };
+  });
+
+  const parents = groups.map((group) => group.parent);
+  const cells = EEO_DIMENSIONS.map((dimension) => {
+    const categories = [...EEO_CATEGORIES[dimension].options, EEO_CATEGORIES[dimension].other, NOT_DISCLOSED];
+    const counts = groups.map(({ candidateIds }) => {
+      const byCategory = new Map(categories.map((category) => [category, 0]));
+      for (const candidateId of candidateIds) {
+        const category = eeoCategory(dimension, candidateId ? answers.get(candidateId)?.[dimension] : null);
+        byCategory.set(category, (byCategory.get(category) ?? 0) + 1);
+      }
+      return categories.map((category) => byCategory.get(category) ?? 0);
+    });
+    const base =
+      baseMinCellSize !== undefined && baseMinCellSize < minCellSize ? suppressCells(counts, parents, baseMinCellSize) : undefined;
+    const hidden = suppressCells(counts, parents, minCellSize, base);
+    return { dimension, categories, counts, hidden };
+  });
+
+  const breakdown = (g: number): EeoBreakdown => ({
+    total: groups[g].candidateIds.length,
+    dimensions: Object.fromEntries(
+      cells.map(({ dimension, categories, counts, hidden }) => [
+        dimension,
+        categories.map((category, c) => ({ category, count: hidden[g][c] ? null : counts[g][c] })),
+      ])
+    ) as Record<EeoDimension, EeoCell[]>,
+  });
+
+  return {
+    minCellSize,
+    overall: breakdown(0),
+    jobs: layout.map(({ job, group, stages }) => ({
+      jobId: job.id,
+      title: job.title,
+      ...breakdown(group),
+      stages: stages.map((entry) => ({ stageId: entry.stage.id, name: entry.stage.name, ...breakdown(entry.group) })),
+    })),
+  };
+}
+
+/**
+ * Narrow a full report to one job, keeping its suppression. The job's own
+ * counts stand in for the overall ones. Null when the job isn't in the report.
+ */
+export function eeoJobReport(report: EeoReport, jobId: string): EeoReport | null {
+  const job = report.jobs.find((entry) => entry.jobId === jobId);
+  if (!job) return null;
+  return { minCellSize: report.minCellSize, overall: { total: job.total, dimensions: job.dimensions }, jobs: [job] };
+}
+
+/**
+ * Load what computeEeoReport() needs for the jobs the user may report on:
+ * their organization's when they're an admin, and legacy jobs they own.
+ * Only the EEO columns are read from candidate profiles, and only here.
+ * @param options.membership - The user's membership (getMembership)
+ */
+export async function loadEeoReportInput(
+  supabase: SupabaseClient,
+  userId: string,
+  options: { membership: OrganizationMember | null; minCellSize: number }
+): Promise<EeoReportInput> {
+  const { membership } = options;
+  const { data: jobRows, error: jobsError } = await supabase
+    .from("jobs")
+    .select("id, title, organization_id, employer_id, pipeline_stages")
+    .or(recruiterJobsFilter(userId, membership))
+    .order("created_at", { ascending: false });
+  if (jobsError) throw new Error(`Failed to load jobs: ${jobsError.message}`);
+  const jobs = ((jobRows ?? []) as Pick<Job, "id" | "title" | "organization_id" | "employer_id" | "pipeline_stages">[]).filter(
+    (job) => (job.organization_id ? canViewEeoReports(membership?.role ?? null) : job.employer_id === userId)
+  );
+
+  const applications = await selectIn<EeoReportInput["applications"][number]>(jobs.map((job) => job.id), (batch) =>
+    supabase.from("applications").select("id, job_id, candidate_id, status, stage_id").in("job_id", batch)
+  );
+
+  const candidateIds = [...new Set(applications.map((a) => a.candidate_id).filter((id): id is string => Boolean(id)))];
+  const profiles = await selectIn<Record<string, string | null>>(candidateIds, (batch) =>
+    supabase
+      .from("candidate_profiles")
+      .select(["user_id", ...EEO_DIMENSIONS.map((dimension) => EEO_COLUMNS[dimension])].join(", "))
+      .in("user_id", batch)
+  );
+
+  return {
+    jobs,
+    applications,
+    answers: new Map(
+      profiles.map((profile) => [
+        profile.user_id as string,
+        Object.fromEntries(EEO_DIMENSIONS.map((dimension) => [dimension, profile[EEO_COLUMNS[dimension]] ?? null])),
+      ])
+    ),
+    minCellSize: options.minCellSize,
+    baseMinCellSize: eeoMinCellSize(),
+  };
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import {
+  InterviewSlotsSchema,
+  buildInterviewIcs,
+  formatInterviewTime,
+  resolveTimeZone,
+  toInterviewView,
+} from "./interviews";
+import type { Interview } from "@/lib/types/database";
+
+const invite = {
+  uid: "interview-1@asyst.test",
+  sequence: 0,
+  method: "REQUEST" as const,
+  startsAt: "2025-12-18T15:00:00Z",
+  endsAt: "2025-12-18T15:45:00.000Z",
+  stamp: new Date("2025-12-17T09:30:00Z"),
+  summary: "Interview: Engineer, Backend at Acme",
+};
+
+describe("interview scheduling", () => {
+  it("resolves profile timezones to IANA zones", () => {
+    expect(resolveTimeZone("PST")).toBe("America/Los_Angeles");
+    expect(resolveTimeZone("UTC+5:30")).toBe("Asia/Kolkata");
+    expect(resolveTimeZone("UTC+1")).toBe("Etc/GMT-1");
+    expect(resolveTimeZone("Europe/Berlin")).toBe("Europe/Berlin");
+    expect(resolveTimeZone("Moon/Base")).toBe("UTC");
+    expect(resolveTimeZone(null)).toBe("UTC");
+  });
+
+  it("formats times in the candidate's timezone", () => {
+    const text = formatInterviewTime("2025-12-18T15:00:00Z", "2025-12-18T15:45:00Z", "America/New_York");
+    expect(text).toMatch(/^Thu, Dec 18, 2025, 10:00\sAM – 10:45\sAM EST$/);
+    expect(formatInterviewTime("2025-12-18T15:00:00Z", "2025-12-18T15:45:00Z", "Asia/Kolkata")).toContain("8:30");
+  });
+
+  it("validates slot length and meeting links", () => {
+    const slot = { startsAt: "2025-12-18T15:00:00Z", endsAt: "2025-12-18T15:30:00Z" };
+    expect(InterviewSlotsSchema.safeParse({ slots: [slot], meetingUrl: "https://meet.example.com/abc" }).success).toBe(true);
+    expect(InterviewSlotsSchema.safeParse({ slots: [slot], meetingUrl: "" }).success).toBe(true);
+    expect(InterviewSlotsSchema.safeParse({ slots: [] }).success).toBe(false);
+    expect(InterviewSlotsSchema.safeParse({ slots: [{ ...slot, endsAt: slot.startsAt }] }).success).toBe(false);
+    expect(InterviewSlotsSchema.safeParse({ slots: [{ ...slot, startsAt: "soon" }] }).success).toBe(false);
+    expect(InterviewSlotsSchema.safeParse({ slots: [slot], meetingUrl: "javascript:alert(1)" }).success).toBe(false);
+  });
+
+  it("builds an RFC 5545 invite with UTC times and CRLF lines", () => {
+    const ics = buildInterviewIcs({
+      ...invite,
+      description: "Bring a laptop; we'll pair, then chat.\nSee you!",
+      organizer: { name: "Rae Recruiter", email: "rae@acme.test" },
+      attendee: { name: "Casey \"CJ\" Candidate", email: "casey@example.com" },
+    });
+    const lines = ics.split("\r\n");
+
+    expect(ics.endsWith("\r\n")).toBe(true);
+    expect(ics.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/);
+    expect(lines[0]).toBe("BEGIN:VCALENDAR");
+    expect(lines).toContain("METHOD:REQUEST");
+    expect(lines).toContain("DTSTART:20251218T150000Z");
+    expect(lines).toContain("DTEND:20251218T154500Z");
+    expect(lines).toContain("DTSTAMP:20251217T093000Z");
+    expect(lines).toContain("SUMMARY:Interview: Engineer\\, Backend at Acme");
+    expect(lines).toContain("DESCRIPTION:Bring a laptop\\; we'll pair\\, then chat.\\nSee you!");
+    expect(lines).toContain("ORGANIZER;CN=\"Rae Recruiter\":mailto:rae@acme.test");
+    expect(lines).toContain("STATUS:CONFIRMED");
+    expect(ics).toContain("ATTENDEE;CN=\"Casey 'CJ' Candidate\"");
+  });
+
+  it("folds long lines at 75 octets without splitting characters", () => {
+    const ics = buildInterviewIcs({ ...invite, description: "é".repeat(100) });
+    const lines = ics.split("\r\n").filter(Boolean);
+    for (const line of lines) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    const unfolded = ics.replace(/\r\n /g, "");
+    expect(unfolded).toContain(`DESCRIPTION:${"é".repeat(100)}`);
+  });
+
+  it("marks cancellations", () => {
+    const ics = buildInterviewIcs({ ...invite, method: "CANCEL", sequence: 1 });
+    expect(ics).toContain("METHOD:CANCEL\r\n");
+    expect(ics).toContain("SEQUENCE:1\r\n");
+    expect(ics).toContain("STATUS:CANCELLED\r\n");
+  });
+
+  it("links the invite only once a slot has been booked", () => {
+    const row: Interview = {
+      id: "iv-1",
+      application_id: "app-1",
+      starts_at: invite.startsAt,
+      ends_at: invite.endsAt,
+      location: null,
+      meeting_url: null,
+      notes: null,
+      status: "available",
+      sequence: 0,
+      created_by: "rec-1",
+      booked_at: null,
+      cancelled_at: null,
+      created_at: "2025-12-17T00:00:00Z",
+      updated_at: "2025-12-17T00:00:00Z",
+    };
+    expect(toInterviewView(row).icsUrl).toBeNull();
+    expect(toInterviewView({ ...row, status: "booked", booked_at: "2025-12-17T10:00:00Z" }).icsUrl).toBe(
+      "/api/applications/app-1/interviews/iv-1/ics"
+    );
+  });
+});
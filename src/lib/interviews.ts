@@ -0,0 +1,301 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { jobRole } from "@/lib/organizations";
+import type { Application, Interview, InterviewStatus, Job, OrganizationRole } from "@/lib/types/database";
+
+/**
+ * Interview Scheduling
+ *
+ * Once an application reaches an Interview stage, the hiring team publishes
+ * slots on it. The candidate books one from their dashboard (the
+ * book_interview() function releases the other slots), and both sides
+ * download an iCalendar invite (RFC 5545) for it.
+ *
+ * Times are stored and sent in UTC. They're shown in the candidate's profile
+ * timezone, which may be an IANA name or one of the profile page's shorthand
+ * options ("PST", "UTC+5:30").
+ */
+
+export const INTERVIEW_STATUS_LABELS: Record<InterviewStatus, string> = {
+  available: "Available",
+  booked: "Booked",
+  cancelled: "Cancelled",
+};
+
+// Slots published in one request
+export const MAX_SLOTS_PER_REQUEST = 20;
+
+export const MIN_INTERVIEW_MINUTES = 15;
+export const MAX_INTERVIEW_MINUTES = 8 * 60;
+
+// Profile page shorthand -> IANA zone. Etc/GMT signs are inverted by definition.
+const TIMEZONE_ALIASES: Record<string, string> = {
+  PST: "America/Los_Angeles",
+  MST: "America/Denver",
+  CST: "America/Chicago",
+  EST: "America/New_York",
+  UTC: "UTC",
+  "UTC+1": "Etc/GMT-1",
+  "UTC+2": "Etc/GMT-2",
+  "UTC+5:30": "Asia/Kolkata",
+  "UTC+8": "Etc/GMT-8",
+};
+
+const Timestamp = z
+  .string()
+  .trim()
+  .refine((value) => !Number.isNaN(Date.parse(value)), "Enter a valid date and time");
+
+const SlotSchema = z
+  .object({
+    startsAt: Timestamp,
+    endsAt: Timestamp,
+  })
+  .refine((slot) => {
+    const minutes = (Date.parse(slot.endsAt) - Date.parse(slot.startsAt)) / 60000;
+    return minutes >= MIN_INTERVIEW_MINUTES && minutes <= MAX_INTERVIEW_MINUTES;
+  }, `Interviews must last between ${MIN_INTERVIEW_MINUTES} minutes and ${MAX_INTERVIEW_MINUTES / 60} hours`);
+
+export const InterviewSlotsSchema = z.object({
+  slots: z
+    .array(SlotSchema)
+    .min(1, "Add at least one slot")
+    .max(MAX_SLOTS_PER_REQUEST, `Publish at most ${MAX_SLOTS_PER_REQUEST} slots at a time`),
+  location: z.string().trim().max(200, "Location must be 200 characters or less").optional().nullable(),
+  meetingUrl: z
+    .string()
+    .trim()
+    .max(500, "Meeting link must be 500 characters or less")
+    .url("Meeting link must be a valid URL")
+    .refine((url) => /^https?:\/\//i.test(url), "Meeting link must be an HTTP or HTTPS URL")
+    .optional()
+    .nullable()
+    .or(z.literal("")),
+  notes: z.string().trim().max(1000, "Notes must be 1000 characters or less").optional().nullable(),
+});
+
+export type InterviewSlotsInput = z.infer<typeof InterviewSlotsSchema>;
+
+export const InterviewActionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("book") }),
+  z.object({ action: z.literal("cancel") }),
+]);
+
+/**
+ * Interview as returned by the API
+ */
+export type InterviewView = {
+  id: string;
+  applicationId: string;
+  startsAt: string;
+  endsAt: string;
+  location: string | null;
+  meetingUrl: string | null;
+  notes: string | null;
+  status: InterviewStatus;
+  bookedAt: string | null;
+  icsUrl: string | null;
+};
+
+/**
+ * Download route for an interview's .ics file
+ */
+export function interviewIcsPath(applicationId: string, interviewId: string): string {
+  return `/api/applications/${applicationId}/interviews/${interviewId}/ics`;
+}
+
+/**
+ * Shape an interview row for the API; booked and cancelled interviews link their .ics
+ */
+export function toInterviewView(row: Interview): InterviewView {
+  return {
+    id: row.id,
+    applicationId: row.application_id,
+    startsAt: row.starts_at,
+    endsAt: row.ends_at,
+    location: row.location,
+    meetingUrl: row.meeting_url,
+    notes: row.notes,
+    status: row.status,
+    bookedAt: row.booked_at,
+    icsUrl: row.booked_at ? interviewIcsPath(row.application_id, row.id) : null,
+  };
+}
+
+/**
+ * IANA timezone for a candidate profile's timezone
+ * @param timezone - IANA name or profile shorthand
+ * @returns A zone Intl accepts, UTC when missing or unknown
+ */
+export function resolveTimeZone(timezone: string | null | undefined): string {
+  const value = timezone?.trim();
+  if (!value) return "UTC";
+  const zone = TIMEZONE_ALIASES[value.toUpperCase()] ?? value;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone });
+    return zone;
+  } catch {
+    return "UTC";
+  }
+}
+
+/**
+ * Human-readable interview time in a timezone, e.g. "Thu, Dec 18, 10:00 AM – 10:45 AM PST"
+ */
+export function formatInterviewTime(startsAt: string, endsAt: string, timeZone: string): string {
+  const day = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  const time = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });
+  return `${day.format(new Date(startsAt))} – ${time.format(new Date(endsAt))}`;
+}
+
+// =============================================
+// iCalendar (RFC 5545)
+// =============================================
+
+export type InterviewInvite = {
+  uid: string;
+  sequence: number;
+  // REQUEST for a booked interview, CANCEL once it's cancelled
+  method: "REQUEST" | "CANCEL";
+  startsAt: string;
+  endsAt: string;
+  stamp: Date;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  organizer?: { name: string; email: string } | null;
+  attendee?: { name: string; email: string } | null;
+};
+
+// DATE-TIME in UTC form (RFC 5545 3.3.5), e.g. 20251218T150000Z
+function icsDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// TEXT escaping (RFC 5545 3.3.11)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Quoted parameter value; DQUOTE isn't allowed inside one (RFC 5545 3.2)
+function paramValue(value: string): string {
+  return `"${value.replace(/"/g, "'")}"`;
+}
+
+// Split content lines longer than 75 octets; continuations start with a space (RFC 5545 3.1)
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // The first line holds 75 octets, continuations 74 plus the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+    if (size + bytes > limit) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/**
+ * iCalendar file for a booked (or cancelled) interview
+ * @returns VCALENDAR text with CRLF line endings
+ */
+export function buildInterviewIcs(invite: InterviewInvite): string {
+  const cancelled = invite.method === "CANCEL";
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Asyst//Interview Scheduling//EN",
+    "CALSCALE:GREGORIAN",
+    `METHOD:${invite.method}`,
+    "BEGIN:VEVENT",
+    `UID:${invite.uid}`,
+    `SEQUENCE:${invite.sequence}`,
+    `DTSTAMP:${icsDateTime(invite.stamp)}`,
+    `DTSTART:${icsDateTime(new Date(invite.startsAt))}`,
+    `DTEND:${icsDateTime(new Date(invite.endsAt))}`,
+    `SUMMARY:${escapeText(invite.summary)}`,
+  ];
+  if (invite.description) lines.push(`DESCRIPTION:${escapeText(invite.description)}`);
+  if (invite.location) lines.push(`LOCATION:${escapeText(invite.location)}`);
+  if (invite.url) lines.push(`URL:${invite.url}`);
+  if (invite.organizer) {
+    lines.push(`ORGANIZER;CN=${paramValue(invite.organizer.name)}:mailto:${invite.organizer.email}`);
+  }
+  if (invite.attendee) {
+    lines.push(
+      `ATTENDEE;CN=${paramValue(invite.attendee.name)};ROLE=REQ-PARTICIPANT;PARTSTAT=${cancelled ? "DECLINED" : "ACCEPTED"}:mailto:${invite.attendee.email}`
+    );
+  }
+  lines.push(`STATUS:${cancelled ? "CANCELLED" : "CONFIRMED"}`, "END:VEVENT", "END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// =============================================
+// Access
+// =============================================
+
+export type InterviewAccess = {
+  application: Pick<Application, "id" | "job_id" | "candidate_id" | "status">;
+  job: Pick<Job, "id" | "title" | "company" | "employer_id" | "organization_id">;
+  // The caller applied; otherwise role is their role on the job
+  isCandidate: boolean;
+  role: OrganizationRole | null;
+};
+
+/**
+ * Load an application and the caller's relationship to it
+ * @returns Access details, or null when the application doesn't exist or the caller can't see it
+ */
+export async function loadInterviewAccess(
+  supabase: SupabaseClient,
+  userId: string,
+  applicationId: string
+): Promise<InterviewAccess | null> {
+  const { data: application } = await supabase
+    .from("applications")
+    .select("id, job_id, candidate_id, status")
+    .eq("id", applicationId)
+    .maybeSingle();
+  if (!application) return null;
+
+  const { data: job } = await supabase
+    .from("jobs")
+    .select("id, title, company, employer_id, organization_id")
+    .eq("id", application.job_id)
+    .maybeSingle();
+  if (!job) return null;
+
+  if (application.candidate_id === userId) {
+    return { application, job, isCandidate: true, role: null };
+  }
+  const role = await jobRole(supabase, userId, job);
+  return role ? { application, job, isCandidate: false, role } : null;
+}
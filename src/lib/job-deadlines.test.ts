@@ -0,0 +1,189 @@
+import { describe, it, expect, vi } from "vitest";
+import { SWEEP_BATCH_SIZE, claimJobsClosingSoon, deadlineEndsAt, isPastDeadline, sweepExpiredJobs } from "./job-deadlines";
+
+const NOW = new Date("2025-12-10T12:00:00Z");
+
+type Row = {
+  id: string;
+  title: string;
+  employer_id: string | null;
+  deadline: string | null;
+  status: string;
+  closing_soon_notified_at?: string | null;
+};
+
+type Filter = (row: Row) => boolean;
+
+// PostgREST comparison on a text column, e.g. "deadline.lt.2025-12-10"
+function compare(condition: string): Filter {
+  const [column, op, ...rest] = condition.split(".");
+  const value = rest.join(".");
+  return (row) => {
+    const actual = row[column as keyof Row];
+    if (actual === null || actual === undefined) return false;
+    const text = String(actual);
+    return op === "lt" ? text < value : op === "gt" ? text > value : op === "lte" ? text <= value : text >= value;
+  };
+}
+
+// The or() filters the sweeper uses: comparisons and and(...) groups
+function orFilter(expression: string): Filter {
+  const parts = expression.match(/and\([^)]*\)|[^,]+/g) ?? [];
+  const alternatives = parts.map((part) => {
+    const group = part.match(/^and\((.*)\)$/);
+    const conditions = (group ? group[1].split(",") : [part]).map(compare);
+    return (row: Row) => conditions.every((condition) => condition(row));
+  });
+  return (row) => alternatives.some((alternative) => alternative(row));
+}
+
+// In-memory stand-in for the jobs table supporting the queries the sweeper makes
+function createFakeJobsTable(rows: Row[]) {
+  const updates: string[][] = [];
+  const supabase = {
+    from: vi.fn(() => {
+      const filters: Filter[] = [];
+      let patch: Partial<Row> | null = null;
+      let orderBy: keyof Row | null = null;
+      let limit = Infinity;
+      const query = {
+        select: vi.fn(() => query),
+        update: vi.fn((values: Partial<Row>) => {
+          patch = values;
+          return query;
+        }),
+        eq: vi.fn((column: keyof Row, value: unknown) => {
+          filters.push((row) => row[column] === value);
+          return query;
+        }),
+        is: vi.fn((column: keyof Row, value: unknown) => {
+          filters.push((row) => (row[column] ?? null) === value);
+          return query;
+        }),
+        not: vi.fn((column: keyof Row) => {
+          filters.push((row) => row[column] !== null);
+          return query;
+        }),
+        lte: vi.fn((column: keyof Row, value: string) => {
+          filters.push((row) => String(row[column]) <= value);
+          return query;
+        }),
+        in: vi.fn((column: keyof Row, values: unknown[]) => {
+          filters.push((row) => values.includes(row[column]));
+          return query;
+        }),
+        or: vi.fn((expression: string) => {
+          filters.push(orFilter(expression));
+          return query;
+        }),
+        order: vi.fn((column: keyof Row) => {
+          orderBy = column;
+          return query;
+        }),
+        limit: vi.fn((count: number) => {
+          limit = count;
+          return query;
+        }),
+        then: (resolve: (value: unknown) => void) => {
+          const column = orderBy;
+          const sorted = column ? [...rows].sort((a, b) => String(a[column]).localeCompare(String(b[column]))) : rows;
+          const matched = sorted.filter((row) => filters.every((f) => f(row))).slice(0, limit);
+          if (patch) {
+            matched.forEach((row) => Object.assign(row, patch));
+            updates.push(matched.map((row) => row.id));
+          }
+          resolve({ data: matched.map((row) => ({ ...row })), error: null });
+        },
+      };
+      return query;
+    }),
+  };
+  return { supabase: supabase as any, updates };
+}
+
+describe("job deadlines", () => {
+  it("treats date-only deadlines as the end of that day", () => {
+    expect(deadlineEndsAt("2025-12-10")?.toISOString()).toBe("2025-12-10T23:59:59.999Z");
+    expect(deadlineEndsAt("not a date")).toBeNull();
+    expect(isPastDeadline("2025-12-10", NOW)).toBe(false);
+    expect(isPastDeadline("2025-12-09", NOW)).toBe(true);
+    expect(isPastDeadline("2025-12-10T11:59:00Z", NOW)).toBe(true);
+    expect(isPastDeadline(null, NOW)).toBe(false);
+  });
+
+  it("closes only open jobs past their deadline and notifies each owner once", async () => {
+    const rows: Row[] = [
+      { id: "expired", title: "Expired", employer_id: "r1", deadline: "2025-12-01T00:00:00Z", status: "open" },
+      { id: "last-day", title: "Last day", employer_id: "r1", deadline: "2025-12-10", status: "open" },
+      { id: "future", title: "Future", employer_id: "r2", deadline: "2026-01-01T00:00:00Z", status: "open" },
+      { id: "no-deadline", title: "Evergreen", employer_id: "r2", deadline: null, status: "open" },
+      { id: "draft", title: "Draft", employer_id: "r2", deadline: "2025-11-01T00:00:00Z", status: "draft" },
+    ];
+    const { supabase } = createFakeJobsTable(rows);
+    const notify = vi.fn().mockResolvedValue(undefined);
+
+    const first = await sweepExpiredJobs(supabase, { now: NOW, notify });
+    expect(first.closed.map((j) => j.id)).toEqual(["expired"]);
+    expect(first.notified).toBe(1);
+    expect(rows.find((r) => r.id === "expired")?.status).toBe("closed");
+    expect(rows.find((r) => r.id === "draft")?.status).toBe("draft");
+
+    // Running again is a no-op
+    const second = await sweepExpiredJobs(supabase, { now: NOW, notify });
+    expect(second.closed).toEqual([]);
+    expect(notify).toHaveBeenCalledTimes(1);
+
+    // The next day the date-only deadline has passed too
+    const nextDay = await sweepExpiredJobs(supabase, { now: new Date("2025-12-11T00:00:01Z") });
+    expect(nextDay.closed.map((j) => j.id)).toEqual(["last-day"]);
+  });
+
+  it("doesn't let jobs still open today fill the batch", async () => {
+    const rows: Row[] = [
+      ...Array.from({ length: SWEEP_BATCH_SIZE }, (_, i) => ({
+        id: `last-day-${i}`,
+        title: "Last day",
+        employer_id: "r1",
+        deadline: "2025-12-10",
+        status: "open",
+      })),
+      { id: "this-morning", title: "This morning", employer_id: "r1", deadline: "2025-12-10T09:00:00Z", status: "open" },
+      { id: "expired", title: "Expired", employer_id: "r1", deadline: "2025-12-01T00:00:00Z", status: "open" },
+    ];
+    const { supabase } = createFakeJobsTable(rows);
+
+    const result = await sweepExpiredJobs(supabase, { now: NOW });
+
+    expect(result.closed.map((j) => j.id)).toEqual(["this-morning", "expired"]);
+  });
+
+  it("reports notification failures without undoing the close", async () => {
+    const rows: Row[] = [
+      { id: "expired", title: "Expired", employer_id: "r1", deadline: "2025-12-01T00:00:00Z", status: "open" },
+    ];
+    const { supabase } = createFakeJobsTable(rows);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const result = await sweepExpiredJobs(supabase, { now: NOW, notify: vi.fn().mockRejectedValue(new Error("down")) });
+
+    expect(result.closed).toHaveLength(1);
+    expect(result.failedNotifications).toEqual(["expired"]);
+    expect(rows[0].status).toBe("closed");
+  });
+
+  it("claims jobs closing within the window once", async () => {
+    const rows: Row[] = [
+      { id: "tomorrow", title: "Tomorrow", employer_id: "r1", deadline: "2025-12-11", status: "open" },
+      { id: "in-a-week", title: "Next week", employer_id: "r1", deadline: "2025-12-17", status: "open" },
+      { id: "expired", title: "Expired", employer_id: "r1", deadline: "2025-12-09", status: "open" },
+      { id: "closed", title: "Closed", employer_id: "r1", deadline: "2025-12-11", status: "closed" },
+    ];
+    const { supabase } = createFakeJobsTable(rows);
+
+    const first = await claimJobsClosingSoon(supabase, { now: NOW });
+    expect(first.map((j) => j.id)).toEqual(["tomorrow"]);
+    expect(rows[0].closing_soon_notified_at).toBe(NOW.toISOString());
+
+    expect(await claimJobsClosingSoon(supabase, { now: NOW })).toEqual([]);
+  });
+});
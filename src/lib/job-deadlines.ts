@@ -0,0 +1,167 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Job Deadlines
+ *
+ * A job stops accepting applications once its deadline passes. POST
+ * /api/applications checks isPastDeadline() on every application, and the
+ * /api/cron/close-expired-jobs sweeper flips expired open jobs to 'closed' so
+ * listings and recruiter dashboards catch up. A few days before, the
+ * /api/cron/job-closing-soon sweeper reminds each owner once.
+ *
+ * Date-only deadlines ("2025-12-31") run to the end of that day (UTC).
+ */
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Jobs closed per sweep; the next run picks up the rest
+export const SWEEP_BATCH_SIZE = 500;
+
+// How long before its deadline an owner is reminded that a job is closing
+export const CLOSING_SOON_HOURS = 72;
+
+// An open job with a deadline, as the sweepers load it
+export type DeadlineJob = {
+  id: string;
+  title: string;
+  company: string;
+  employer_id: string | null;
+  organization_id: string | null;
+  deadline: string;
+};
+
+export type JobClosedNotifier = (job: DeadlineJob) => Promise<void>;
+
+export type SweepResult = {
+  closed: DeadlineJob[];
+  notified: number;
+  failedNotifications: string[];
+};
+
+/**
+ * Moment a deadline ends
+ * @param deadline - ISO timestamp or YYYY-MM-DD date
+ * @returns End of the deadline, or null when missing or unreadable
+ */
+export function deadlineEndsAt(deadline: string | null | undefined): Date | null {
+  if (!deadline) return null;
+  const value = deadline.trim();
+  const ends = DATE_ONLY.test(value) ? new Date(`${value}T23:59:59.999Z`) : new Date(value);
+  return Number.isNaN(ends.getTime()) ? null : ends;
+}
+
+/**
+ * Check whether a job's deadline has passed
+ * @param deadline - Job deadline (null means no deadline)
+ * @param now - Current time (injectable for tests)
+ */
+export function isPastDeadline(deadline: string | null | undefined, now: Date = new Date()): boolean {
+  const ends = deadlineEndsAt(deadline);
+  return ends !== null && ends.getTime() < now.getTime();
+}
+
+/**
+ * Close every open job whose deadline has passed and optionally notify the
+ * people running them. Safe to run repeatedly: only jobs still 'open' are
+ * updated, so a job is closed (and its team notified) once.
+ * @param supabase - Client allowed to update any job (service role)
+ * @param options.now - Current time (injectable for tests)
+ * @param options.notify - Called once per job this run closed; failures are reported, not thrown
+ * @returns Jobs closed by this run and notification outcome
+ */
+export async function sweepExpiredJobs(
+  supabase: SupabaseClient,
+  options: { now?: Date; notify?: JobClosedNotifier } = {}
+): Promise<SweepResult> {
+  const now = options.now ?? new Date();
+
+  // Date-only deadlines sort before any timestamp on the same day, so skip
+  // today's (they run until midnight) and let isPastDeadline() decide the rest.
+  // Oldest first, so a full batch is never taken up by jobs that are still open.
+  const today = now.toISOString().slice(0, 10);
+  const { data: candidates, error } = await supabase
+    .from("jobs")
+    .select("id, title, company, employer_id, organization_id, deadline")
+    .eq("status", "open")
+    .not("deadline", "is", null)
+    .or(`deadline.lt.${today},and(deadline.gt.${today},deadline.lte.${now.toISOString()})`)
+    .order("deadline", { ascending: true })
+    .limit(SWEEP_BATCH_SIZE);
+  if (error) throw new Error(`Failed to load expired jobs: ${error.message}`);
+
+  const expiredIds = (candidates ?? [])
+    .filter((job) => isPastDeadline(job.deadline, now))
+    .map((job) => job.id);
+  if (expiredIds.length === 0) return { closed: [], notified: 0, failedNotifications: [] };
+
+  // The status guard keeps concurrent sweeps from closing (and notifying) twice
+  const { data: closed, error: updateError } = await supabase
+    .from("jobs")
+    .update({ status: "closed" })
+    .in("id", expiredIds)
+    .eq("status", "open")
+    .select("id, title, company, employer_id, organization_id, deadline");
+  if (updateError) throw new Error(`Failed to close expired jobs: ${updateError.message}`);
+
+  const closedJobs = (closed ?? []) as DeadlineJob[];
+  let notified = 0;
+  const failedNotifications: string[] = [];
+  if (options.notify) {
+    for (const job of closedJobs) {
+      try {
+        await options.notify(job);
+        notified++;
+      } catch (err) {
+        console.error(`Failed to notify the team of job ${job.id}:`, err);
+        failedNotifications.push(job.id);
+      }
+    }
+  }
+
+  return { closed: closedJobs, notified, failedNotifications };
+}
+
+/**
+ * Claim the open jobs whose deadline ends within the reminder window and whose
+ * owner hasn't been reminded yet. Claimed jobs are stamped
+ * closing_soon_notified_at, so each job is returned by one run only.
+ * @param supabase - Client allowed to update any job (service role)
+ * @param options.now - Current time (injectable for tests)
+ * @param options.withinHours - Reminder window, CLOSING_SOON_HOURS by default
+ */
+export async function claimJobsClosingSoon(
+  supabase: SupabaseClient,
+  options: { now?: Date; withinHours?: number } = {}
+): Promise<DeadlineJob[]> {
+  const now = options.now ?? new Date();
+  const until = new Date(now.getTime() + (options.withinHours ?? CLOSING_SOON_HOURS) * 60 * 60 * 1000);
+
+  const { data: candidates, error } = await supabase
+    .from("jobs")
+    .select("id, title, company, employer_id, organization_id, deadline")
+    .eq("status", "open")
+    .is("closing_soon_notified_at", null)
+    .not("deadline", "is", null)
+    .lte("deadline", until.toISOString())
+    .limit(SWEEP_BATCH_SIZE);
+  if (error) throw new Error(`Failed to load jobs closing soon: ${error.message}`);
+
+  const dueIds = (candidates ?? [])
+    .filter((job) => {
+      const ends = deadlineEndsAt(job.deadline);
+      return ends !== null && ends.getTime() >= now.getTime() && ends.getTime() <= until.getTime();
+    })
+    .map((job) => job.id);
+  if (dueIds.length === 0) return [];
+
+  // Like the close sweep, the guard keeps concurrent runs from reminding twice
+  const { data: claimed, error: updateError } = await supabase
+    .from("jobs")
+    .update({ closing_soon_notified_at: now.toISOString() })
+    .in("id", dueIds)
+    .is("closing_soon_notified_at", null)
+    .select("id, title, company, employer_id, organization_id, deadline");
+  if (updateError) throw new Error(`Failed to claim jobs closing soon: ${updateError.message}`);
+
+  return (claimed ?? []) as DeadlineJob[];
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { EMPTY_JOB_REQUIREMENTS, JobRequirementsSchema, hasJobRequirements, parseJobRequirements } from "./job-requirements";
+import { readJobQuestions } from "./supplemental-questions";
+
+describe("job requirements", () => {
+  it("validates and normalizes requirements", () => {
+    const parsed = JobRequirementsSchema.safeParse({
+      requiredSkills: [" React ", "react", "Go", ""],
+      minYearsExperience: 3,
+      degreeLevel: "bachelor",
+      workAuthorization: "no_sponsorship",
+    });
+    expect(parsed.success && parsed.data).toEqual({
+      requiredSkills: ["React", "Go"],
+      niceToHaveSkills: [],
+      minYearsExperience: 3,
+      degreeLevel: "bachelor",
+      workAuthorization: "no_sponsorship",
+      employmentType: null,
+    });
+    expect(JobRequirementsSchema.parse({ minYearsExperience: 0 }).minYearsExperience).toBeNull();
+  });
+
+  it("rejects unknown values and bad experience", () => {
+    expect(JobRequirementsSchema.safeParse({ degreeLevel: "kindergarten" }).success).toBe(false);
+    expect(JobRequirementsSchema.safeParse({ employmentType: "Full-time" }).success).toBe(false);
+    expect(JobRequirementsSchema.safeParse({ minYearsExperience: 2.5 }).success).toBe(false);
+    expect(JobRequirementsSchema.safeParse({ minYearsExperience: -1 }).success).toBe(false);
+  });
+
+  it("reads legacy rows leniently", () => {
+    expect(
+      parseJobRequirements({
+        skills: "React, Go, react",
+        preferredSkills: ["Python"],
+        minYearsExperience: "3",
+        employmentType: "Full-time",
+        degreeLevel: "Bachelor's",
+        supplementalQuestions: [],
+      })
+    ).toEqual({
+      requiredSkills: ["React", "Go"],
+      niceToHaveSkills: ["Python"],
+      minYearsExperience: 3,
+      degreeLevel: "bachelor",
+      workAuthorization: null,
+      employmentType: "full_time",
+    });
+    expect(parseJobRequirements(null)).toEqual(EMPTY_JOB_REQUIREMENTS);
+    expect(parseJobRequirements({ employmentType: "gig", minYearsExperience: "lots" })).toEqual(EMPTY_JOB_REQUIREMENTS);
+    expect(hasJobRequirements(parseJobRequirements({ supplementalQuestions: [] }))).toBe(false);
+  });
+
+  it("reads supplemental questions from the column or the legacy location", () => {
+    const question = { id: "q1", question: "Why us?", type: "text", required: true };
+    expect(readJobQuestions({ supplemental_questions: [question], requirements: null })).toEqual([question]);
+    expect(readJobQuestions({ requirements: { supplementalQuestions: [question] } })).toEqual([question]);
+    expect(readJobQuestions({ supplemental_questions: [], requirements: { supplementalQuestions: [question] } })).toEqual([]);
+    expect(readJobQuestions({ requirements: { requiredSkills: ["Go"] } })).toEqual([]);
+  });
+});
@@ -0,0 +1,143 @@
+import { z } from "zod";
+import type { DegreeLevel, EmploymentType, JobRequirements, WorkAuthorizationRequirement } from "@/lib/types/database";
+
+/**
+ * Job Requirements
+ *
+ * Typed model for jobs.requirements: required and nice-to-have skills, minimum
+ * years of experience, degree level, work authorization and employment type.
+ * Every field is optional to the recruiter; unset fields are empty lists or null.
+ *
+ * Older rows stored a free-form object here (skills as a comma string, and the
+ * supplemental questions, which now live in jobs.supplemental_questions), so
+ * reads go through parseJobRequirements rather than trusting the column.
+ */
+
+export const DEGREE_LEVELS: DegreeLevel[] = ["high_school", "associate", "bachelor", "master", "phd"];
+
+export const DEGREE_LEVEL_LABELS: Record<DegreeLevel, string> = {
+  high_school: "High school diploma",
+  associate: "Associate degree",
+  bachelor: "Bachelor's degree",
+  master: "Master's degree",
+  phd: "PhD",
+};
+
+// Same values as candidate_profiles.employment_types
+export const EMPLOYMENT_TYPES: EmploymentType[] = ["full_time", "part_time", "contract", "internship", "temporary", "co-op"];
+
+export const EMPLOYMENT_TYPE_LABELS: Record<EmploymentType, string> = {
+  full_time: "Full-time",
+  part_time: "Part-time",
+  contract: "Contract",
+  internship: "Internship",
+  temporary: "Temporary",
+  "co-op": "Co-op",
+};
+
+export const WORK_AUTHORIZATION_REQUIREMENTS: WorkAuthorizationRequirement[] = ["authorized", "no_sponsorship"];
+
+export const WORK_AUTHORIZATION_REQUIREMENT_LABELS: Record<WorkAuthorizationRequirement, string> = {
+  authorized: "Authorized to work",
+  no_sponsorship: "Authorized to work without sponsorship",
+};
+
+export const MAX_REQUIREMENT_SKILLS = 50;
+export const MAX_YEARS_EXPERIENCE = 50;
+
+export const EMPTY_JOB_REQUIREMENTS: JobRequirements = {
+  requiredSkills: [],
+  niceToHaveSkills: [],
+  minYearsExperience: null,
+  degreeLevel: null,
+  workAuthorization: null,
+  employmentType: null,
+};
+
+// Trimmed, case-insensitively de-duplicated skill names, first spelling wins
+function uniqueSkills(skills: string[]): string[] {
+  const seen = new Map<string, string>();
+  for (const skill of skills) {
+    const name = skill.trim();
+    const key = name.toLowerCase();
+    if (name && !seen.has(key)) seen.set(key, name);
+  }
+  return [...seen.values()];
+}
+
+const SkillsSchema = z
+  .array(z.string().trim().max(100, "Skill name too long"))
+  .transform(uniqueSkills)
+  .pipe(z.array(z.string()).max(MAX_REQUIREMENT_SKILLS, `Too many skills (max ${MAX_REQUIREMENT_SKILLS})`));
+
+export const JobRequirementsSchema = z.object({
+  requiredSkills: SkillsSchema.default([]),
+  niceToHaveSkills: SkillsSchema.default([]),
+  minYearsExperience: z
+    .number()
+    .int("Years of experience must be a whole number")
+    .min(0, "Years of experience cannot be negative")
+    .max(MAX_YEARS_EXPERIENCE, `Years of experience cannot exceed ${MAX_YEARS_EXPERIENCE}`)
+    .nullable()
+    .default(null)
+    .transform((years) => (years ? years : null)),
+  degreeLevel: z.enum(DEGREE_LEVELS as [DegreeLevel, ...DegreeLevel[]]).nullable().default(null),
+  workAuthorization: z
+    .enum(WORK_AUTHORIZATION_REQUIREMENTS as [WorkAuthorizationRequirement, ...WorkAuthorizationRequirement[]])
+    .nullable()
+    .default(null),
+  employmentType: z.enum(EMPLOYMENT_TYPES as [EmploymentType, ...EmploymentType[]]).nullable().default(null),
+});
+
+function stringList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === "string");
+  if (typeof value === "string") return value.split(",");
+  return [];
+}
+
+// Canonical token for free-form values like "Full-time" or "Bachelor"
+function token(value: unknown): string {
+  return typeof value === "string" ? value.trim().toLowerCase().replace(/[\s-]+/g, "_").replace(/'s$/, "") : "";
+}
+
+function pick<T extends string>(allowed: T[], value: unknown, aliases: Record<string, T> = {}): T | null {
+  const key = token(value);
+  return allowed.find((v) => token(v) === key) ?? aliases[key] ?? null;
+}
+
+/**
+ * Read jobs.requirements as typed requirements. Accepts legacy shapes (skills as a
+ * comma-separated string, "skills"/"preferredSkills" keys, loose employment type
+ * spellings) and ignores anything it doesn't recognize.
+ * @param raw - jobs.requirements (any shape)
+ * @returns Requirements with unset fields empty
+ */
+export function parseJobRequirements(raw: unknown): JobRequirements {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { ...EMPTY_JOB_REQUIREMENTS };
+  const r = raw as Record<string, unknown>;
+  const years = Number(r.minYearsExperience);
+
+  return {
+    requiredSkills: uniqueSkills(stringList(r.requiredSkills ?? r.skills)).slice(0, MAX_REQUIREMENT_SKILLS),
+    niceToHaveSkills: uniqueSkills(stringList(r.niceToHaveSkills ?? r.preferredSkills)).slice(0, MAX_REQUIREMENT_SKILLS),
+    minYearsExperience:
+      r.minYearsExperience != null && Number.isFinite(years) && years > 0 ? Math.min(years, MAX_YEARS_EXPERIENCE) : null,
+    degreeLevel: pick(DEGREE_LEVELS, r.degreeLevel, { doctorate: "phd" }),
+    workAuthorization: pick(WORK_AUTHORIZATION_REQUIREMENTS, r.workAuthorization),
+    employmentType: pick(EMPLOYMENT_TYPES, r.employmentType, { fulltime: "full_time", parttime: "part_time", coop: "co-op" }),
+  };
+}
+
+/**
+ * Whether any requirement is set
+ */
+export function hasJobRequirements(requirements: JobRequirements): boolean {
+  return (
+    requirements.requiredSkills.length > 0 ||
+    requirements.niceToHaveSkills.length > 0 ||
+    requirements.minYearsExperience !== null ||
+    requirements.degreeLevel !== null ||
+    requirements.workAuthorization !== null ||
+    requirements.employmentType !== null
+  );
+}
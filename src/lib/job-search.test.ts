@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildJobSearchQuery,
+  deadlineWindowOf,
+  isSearchRequest,
+  parseJobSearchParams,
+  salaryBandOf,
+  scoreJob,
+  searchJobs,
+  tokenize,
+  workplaceOf,
+  type JobSearchParams,
+  type SearchableJob,
+} from "./job-search";
+
+const NOW = new Date("2025-12-01T00:00:00Z");
+
+function job(overrides: Partial<SearchableJob> & { id: string }): SearchableJob {
+  return {
+    title: "Engineer",
+    company: "Acme",
+    location: "Boston, MA",
+    description: null,
+    salary_range: null,
+    deadline: null,
+    created_at: "2025-11-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+const jobs: SearchableJob[] = [
+  job({ id: "a", title: "Frontend Engineer", company: "Acme", location: "Remote", salary_range: "$120k - $140k", created_at: "2025-11-03T00:00:00Z" }),
+  job({ id: "b", title: "Backend Engineer", company: "Frontend Labs", location: "Boston, MA", salary_range: "80,000-95,000", deadline: "2025-12-05T00:00:00Z", created_at: "2025-11-04T00:00:00Z" }),
+  job({ id: "c", title: "Designer", company: "Acme", location: "New York, NY (Hybrid)", description: "Work with frontend engineers", deadline: "2025-12-20T00:00:00Z", created_at: "2025-11-05T00:00:00Z" }),
+  job({ id: "d", title: "Data Analyst", company: "Numbers Inc", location: "Boston, MA", salary_range: "$30/hr", created_at: "2025-11-02T00:00:00Z" }),
+];
+
+function params(overrides: Partial<JobSearchParams> = {}): JobSearchParams {
+  return { q: "", location: [], remote: [], salary: [], deadline: [], limit: 20, ...overrides };
+}
+
+describe("job search", () => {
+  it("parses repeated and comma-separated facet params", () => {
+    const parsed = parseJobSearchParams(new URLSearchParams("q=react&location=Boston, MA&remote=remote,hybrid&limit=5"));
+    expect(parsed.success).toBe(true);
+    expect(parsed.data?.remote).toEqual(["remote", "hybrid"]);
+    expect(parsed.data?.limit).toBe(5);
+    expect(parseJobSearchParams(new URLSearchParams("salary=lots")).success).toBe(false);
+    expect(parseJobSearchParams(new URLSearchParams("limit=500")).success).toBe(false);
+  });
+
+  it("round-trips a search through the query string", () => {
+    const qs = buildJobSearchQuery(params({ q: "frontend", location: ["Boston, MA"], deadline: ["week"] }));
+    expect(isSearchRequest(new URLSearchParams(qs))).toBe(true);
+    expect(isSearchRequest(new URLSearchParams(""))).toBe(false);
+    expect(parseJobSearchParams(new URLSearchParams(qs)).data).toMatchObject({
+      q: "frontend",
+      location: ["Boston, MA"],
+      deadline: ["week"],
+    });
+  });
+
+  it("ranks title matches above company and description matches", () => {
+    const result = searchJobs(jobs, params({ q: "frontend" }), NOW);
+    expect(result.jobs.map((j) => j.id)).toEqual(["a", "b", "c"]);
+    expect(scoreJob(jobs[3], tokenize("frontend"))).toBe(0);
+    // Every term must match
+    expect(searchJobs(jobs, params({ q: "frontend designer" }), NOW).jobs.map((j) => j.id)).toEqual(["c"]);
+  });
+
+  it("orders by newest first without a query", () => {
+    expect(searchJobs(jobs, params(), NOW).jobs.map((j) => j.id)).toEqual(["c", "b", "a", "d"]);
+  });
+
+  it("classifies workplace, salary and deadline", () => {
+    expect(workplaceOf("Remote (US)")).toBe("remote");
+    expect(workplaceOf("NYC - hybrid")).toBe("hybrid");
+    expect(workplaceOf("Boston, MA")).toBe("onsite");
+    expect(salaryBandOf({ salary_range: "$120k - $140k" })).toBe("100k_150k");
+    expect(salaryBandOf({ salary_range: "$30/hr" })).toBe("50k_100k");
+    expect(salaryBandOf({ salary_range: "Competitive" })).toBe("unspecified");
+    // Structured fields win over the display text
+    expect(salaryBandOf({ salary_range: "$30/hr", salary_min: 160_000, salary_max: 180_000, salary_period: "yearly" })).toBe("150k_plus");
+    expect(deadlineWindowOf("2025-12-05T00:00:00Z", NOW)).toBe("week");
+    expect(deadlineWindowOf("2025-11-05T00:00:00Z", NOW)).toBeNull();
+    expect(deadlineWindowOf(null, NOW)).toBe("none");
+  });
+
+  it("filters by facets and counts facets disjunctively", () => {
+    const result = searchJobs(jobs, params({ location: ["boston, ma"] }), NOW);
+    expect(result.jobs.map((j) => j.id)).toEqual(["b", "d"]);
+    // Location counts ignore the location filter itself
+    expect(result.facets.location).toEqual([
+      { value: "Boston, MA", count: 2 },
+      { value: "New York, NY (Hybrid)", count: 1 },
+      { value: "Remote", count: 1 },
+    ]);
+    // Other facets are counted within the selected locations
+    expect(result.facets.salary.find((f) => f.value === "50k_100k")?.count).toBe(2);
+    expect(result.facets.deadline.find((f) => f.value === "week")?.count).toBe(1);
+  });
+
+  it("pages with a cursor without repeating or skipping jobs", () => {
+    const first = searchJobs(jobs, params({ limit: 3 }), NOW);
+    expect(first.total).toBe(4);
+    expect(first.nextCursor).not.toBeNull();
+    const second = searchJobs(jobs, params({ limit: 3, cursor: first.nextCursor! }), NOW);
+    expect([...first.jobs, ...second.jobs].map((j) => j.id)).toEqual(["c", "b", "a", "d"]);
+    expect(second.nextCursor).toBeNull();
+  });
+});
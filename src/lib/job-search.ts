@@ -0,0 +1,335 @@
+import { z } from "zod";
+import type { Job } from "@/lib/types/database";
+import { annualSalaryMidpoint } from "@/lib/salary";
+import { deadlineEndsAt } from "@/lib/job-deadlines";
+
+/**
+ * Job Search
+ *
+ * Server-side search behind GET /api/jobs: free-text matching over title,
+ * company, description and location with relevance ordering, facets for
+ * location, workplace (remote), salary band and deadline window, and
+ * keyset cursor pagination.
+ *
+ * Facet counts are disjunctive: each facet is counted over the jobs matching
+ * the query and every *other* active filter, so selecting one location still
+ * shows how many jobs the other locations have.
+ */
+
+export type SearchableJob = Pick<
+  Job,
+  "id" | "title" | "company" | "location" | "description" | "salary_range" | "deadline" | "created_at"
+> &
+  Partial<Pick<Job, "salary_min" | "salary_max" | "salary_currency" | "salary_period">>;
+
+export const WORKPLACE_TYPES = ["remote", "hybrid", "onsite"] as const;
+export type WorkplaceType = (typeof WORKPLACE_TYPES)[number];
+
+export const SALARY_BANDS = ["under_50k", "50k_100k", "100k_150k", "150k_plus", "unspecified"] as const;
+export type SalaryBand = (typeof SALARY_BANDS)[number];
+
+export const DEADLINE_WINDOWS = ["week", "month", "later", "none"] as const;
+export type DeadlineWindow = (typeof DEADLINE_WINDOWS)[number];
+
+export const WORKPLACE_LABELS: Record<WorkplaceType, string> = {
+  remote: "Remote",
+  hybrid: "Hybrid",
+  onsite: "On-site",
+};
+
+export const SALARY_BAND_LABELS: Record<SalaryBand, string> = {
+  under_50k: "Under $50k",
+  "50k_100k": "$50k – $100k",
+  "100k_150k": "$100k – $150k",
+  "150k_plus": "$150k+",
+  unspecified: "Not listed",
+};
+
+export const DEADLINE_WINDOW_LABELS: Record<DeadlineWindow, string> = {
+  week: "Closes within a week",
+  month: "Closes within a month",
+  later: "Closes later",
+  none: "No deadline",
+};
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+
+// Query params that switch GET /api/jobs into search mode
+export const SEARCH_PARAM_KEYS = ["q", "location", "remote", "salary", "deadline", "cursor", "limit"] as const;
+
+const multi = <T extends readonly [string, ...string[]]>(values: T) => z.array(z.enum(values)).default([]);
+
+export const JobSearchParamsSchema = z.object({
+  q: z.string().trim().max(200, "Search query too long").default(""),
+  location: z.array(z.string().trim().min(1).max(100)).default([]),
+  remote: multi(WORKPLACE_TYPES),
+  salary: multi(SALARY_BANDS),
+  deadline: multi(DEADLINE_WINDOWS),
+  cursor: z.string().max(500).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_SEARCH_LIMIT).default(DEFAULT_SEARCH_LIMIT),
+});
+
+export type JobSearchParams = z.infer<typeof JobSearchParamsSchema>;
+
+export type FacetCount<T extends string = string> = { value: T; count: number };
+
+export type JobSearchFacets = {
+  location: FacetCount[];
+  remote: FacetCount<WorkplaceType>[];
+  salary: FacetCount<SalaryBand>[];
+  deadline: FacetCount<DeadlineWindow>[];
+};
+
+export type JobSearchHit<J extends SearchableJob = SearchableJob> = J & {
+  score: number;
+  workplace: WorkplaceType;
+  salaryBand: SalaryBand;
+};
+
+export type JobSearchResult<J extends SearchableJob = SearchableJob> = {
+  jobs: JobSearchHit<J>[];
+  total: number;
+  nextCursor: string | null;
+  facets: JobSearchFacets;
+};
+
+/**
+ * Whether a request asks for search (any search param present)
+ */
+export function isSearchRequest(searchParams: URLSearchParams): boolean {
+  return SEARCH_PARAM_KEYS.some((key) => searchParams.has(key));
+}
+
+/**
+ * Parse URL search params into validated search options.
+ * Facet params may be repeated (?remote=remote&remote=hybrid); the fixed-value
+ * facets also accept comma-separated values. Locations contain commas
+ * ("Boston, MA") so they can only be repeated.
+ */
+export function parseJobSearchParams(searchParams: URLSearchParams) {
+  const values = (key: string) => searchParams.getAll(key).map((v) => v.trim()).filter(Boolean);
+  const list = (key: string) => values(key).flatMap((v) => v.split(",")).map((v) => v.trim()).filter(Boolean);
+
+  return JobSearchParamsSchema.safeParse({
+    q: searchParams.get("q") ?? undefined,
+    location: values("location"),
+    remote: list("remote"),
+    salary: list("salary"),
+    deadline: list("deadline"),
+    cursor: searchParams.get("cursor") ?? undefined,
+    limit: searchParams.get("limit") ?? undefined,
+  });
+}
+
+/**
+ * Build the query string for a search (inverse of parseJobSearchParams).
+ * Used by the candidate dashboard to keep searches bookmarkable.
+ */
+export function buildJobSearchQuery(params: Partial<JobSearchParams>): string {
+  const sp = new URLSearchParams();
+  if (params.q?.trim()) sp.set("q", params.q.trim());
+  for (const key of ["location", "remote", "salary", "deadline"] as const) {
+    for (const value of params[key] ?? []) sp.append(key, value);
+  }
+  if (params.cursor) sp.set("cursor", params.cursor);
+  if (params.limit && params.limit !== DEFAULT_SEARCH_LIMIT) sp.set("limit", String(params.limit));
+  return sp.toString();
+}
+
+/**
+ * Split a query into lowercase search terms
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9+#.]+/)
+    .map((t) => t.replace(/^\.+|\.+$/g, ""))
+    .filter(Boolean);
+}
+
+// Field weights for relevance scoring
+const FIELD_WEIGHTS = { title: 5, company: 3, location: 2, description: 1 } as const;
+
+/**
+ * Relevance of a job for the given terms. Every term must match at least one
+ * field (AND semantics); whole-word matches score double a prefix/substring match.
+ * @returns Score > 0 when the job matches, 0 when it doesn't (or no terms)
+ */
+export function scoreJob(job: SearchableJob, terms: string[]): number {
+  if (terms.length === 0) return 0;
+  const fields = {
+    title: job.title?.toLowerCase() ?? "",
+    company: job.company?.toLowerCase() ?? "",
+    location: job.location?.toLowerCase() ?? "",
+    description: job.description?.toLowerCase() ?? "",
+  };
+  const words = Object.fromEntries(
+    Object.entries(fields).map(([k, v]) => [k, new Set(tokenize(v))])
+  ) as Record<keyof typeof fields, Set<string>>;
+
+  let score = 0;
+  for (const term of terms) {
+    let termScore = 0;
+    for (const field of Object.keys(FIELD_WEIGHTS) as (keyof typeof FIELD_WEIGHTS)[]) {
+      if (words[field].has(term)) termScore += FIELD_WEIGHTS[field] * 2;
+      else if (fields[field].includes(term)) termScore += FIELD_WEIGHTS[field];
+    }
+    if (termScore === 0) return 0;
+    score += termScore;
+  }
+  // Exact phrase in the title ranks above scattered matches
+  if (terms.length > 1 && fields.title.includes(terms.join(" "))) score += FIELD_WEIGHTS.title * 2;
+  return score;
+}
+
+/**
+ * Classify where a job is worked from its location text
+ */
+export function workplaceOf(location: string | null | undefined): WorkplaceType {
+  const loc = (location ?? "").toLowerCase();
+  if (/\bhybrid\b/.test(loc)) return "hybrid";
+  if (/\bremote\b/.test(loc)) return "remote";
+  return "onsite";
+}
+
+/**
+ * Salary band for a job, from its annual salary midpoint (structured fields
+ * first, legacy free text otherwise)
+ */
+export function salaryBandOf(job: Pick<SearchableJob, "salary_range" | "salary_min" | "salary_max" | "salary_period">): SalaryBand {
+  const annual = annualSalaryMidpoint(job);
+  if (annual === null) return "unspecified";
+  if (annual < 50_000) return "under_50k";
+  if (annual < 100_000) return "50k_100k";
+  if (annual < 150_000) return "100k_150k";
+  return "150k_plus";
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Deadline window relative to `now`; past deadlines fall in no window
+ */
+export function deadlineWindowOf(deadline: string | null | undefined, now: Date): DeadlineWindow | null {
+  if (!deadline) return "none";
+  const ms = (deadlineEndsAt(deadline)?.getTime() ?? NaN) - now.getTime();
+  if (Number.isNaN(ms) || ms < 0) return null;
+  if (ms <= 7 * DAY_MS) return "week";
+  if (ms <= 30 * DAY_MS) return "month";
+  return "later";
+}
+
+function normalizeLocation(location: string | null | undefined): string {
+  return (location ?? "").trim().replace(/\s+/g, " ");
+}
+
+type Cursor = { s: number; c: string; id: string };
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(raw: string | undefined): Cursor | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, "base64url").toString("utf-8"));
+    if (typeof parsed?.s === "number" && typeof parsed?.c === "string" && typeof parsed?.id === "string") {
+      return parsed;
+    }
+  } catch {
+    // fall through
+  }
+  return null;
+}
+
+type SortKey = { score: number; created_at: string; id: string };
+
+// Sort order: score desc, newest first, id as tiebreaker
+function compareKeys(a: SortKey, b: SortKey): number {
+  if (a.score !== b.score) return b.score - a.score;
+  if (a.created_at !== b.created_at) return a.created_at < b.created_at ? 1 : -1;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+function countBy<T extends string>(values: T[], order?: readonly T[]): FacetCount<T>[] {
+  const counts = new Map<T, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  if (order) return order.map((value) => ({ value, count: counts.get(value) ?? 0 }));
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+export const MAX_LOCATION_FACETS = 20;
+
+/**
+ * Run a search over a set of open jobs
+ * @param jobs - Candidate jobs (already restricted to open ones)
+ * @param params - Parsed search params
+ * @param now - Reference time for deadline windows (injectable for tests)
+ * @returns One page of hits, total match count, cursor for the next page and facet counts
+ */
+export function searchJobs<J extends SearchableJob>(
+  jobs: J[],
+  params: JobSearchParams,
+  now: Date = new Date()
+): JobSearchResult<J> {
+  const terms = tokenize(params.q);
+  const locations = new Set(params.location.map((l) => normalizeLocation(l).toLowerCase()));
+
+  const annotated = jobs
+    .map((job) => ({
+      job,
+      score: scoreJob(job, terms),
+      workplace: workplaceOf(job.location),
+      salaryBand: salaryBandOf(job),
+      deadlineWindow: deadlineWindowOf(job.deadline, now),
+    }))
+    .filter((hit) => terms.length === 0 || hit.score > 0);
+
+  type Annotated = (typeof annotated)[number];
+  const matches = {
+    location: (h: Annotated) => locations.size === 0 || locations.has(normalizeLocation(h.job.location).toLowerCase()),
+    remote: (h: Annotated) => params.remote.length === 0 || params.remote.includes(h.workplace),
+    salary: (h: Annotated) => params.salary.length === 0 || params.salary.includes(h.salaryBand),
+    deadline: (h: Annotated) =>
+      params.deadline.length === 0 || (h.deadlineWindow !== null && params.deadline.includes(h.deadlineWindow)),
+  };
+  const facetKeys = Object.keys(matches) as (keyof typeof matches)[];
+  const matchingExcept = (skip: keyof typeof matches | null) =>
+    annotated.filter((h) => facetKeys.every((key) => key === skip || matches[key](h)));
+
+  const facets: JobSearchFacets = {
+    location: countBy(
+      matchingExcept("location").map((h) => normalizeLocation(h.job.location)).filter(Boolean)
+    ).slice(0, MAX_LOCATION_FACETS),
+    remote: countBy(matchingExcept("remote").map((h) => h.workplace), WORKPLACE_TYPES),
+    salary: countBy(matchingExcept("salary").map((h) => h.salaryBand), SALARY_BANDS),
+    deadline: countBy(
+      matchingExcept("deadline")
+        .map((h) => h.deadlineWindow)
+        .filter((w): w is DeadlineWindow => w !== null),
+      DEADLINE_WINDOWS
+    ),
+  };
+
+  const sortKey = (h: Annotated): SortKey => ({ score: h.score, created_at: h.job.created_at, id: h.job.id });
+  const filtered = matchingExcept(null).sort((a, b) => compareKeys(sortKey(a), sortKey(b)));
+
+  // Resume after the last hit of the previous page
+  const cursor = decodeCursor(params.cursor);
+  const start = cursor
+    ? filtered.findIndex((h) => compareKeys(sortKey(h), { score: cursor.s, created_at: cursor.c, id: cursor.id }) > 0)
+    : 0;
+  const page = start === -1 ? [] : filtered.slice(start, start + params.limit);
+  const last = page[page.length - 1];
+  const hasMore = start !== -1 && start + params.limit < filtered.length;
+
+  return {
+    jobs: page.map((h) => ({ ...h.job, score: h.score, workplace: h.workplace, salaryBand: h.salaryBand })),
+    total: filtered.length,
+    nextCursor: hasMore && last ? encodeCursor({ s: last.score, c: last.job.created_at, id: last.job.id }) : null,
+    facets,
+  };
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_KNOCKOUT_MESSAGE, evaluateKnockouts, prefillFromProfile, profileAnswer } from "./knockouts";
+import { SupplementalQuestionsSchema } from "./supplemental-questions";
+import type { SupplementalQuestion } from "./supplemental-questions";
+
+const questions: SupplementalQuestion[] = [
+  {
+    id: "auth",
+    question: "Are you authorized to work in the US?",
+    type: "yes_no",
+    required: true,
+    profileField: "work_authorization",
+    knockout: { failingAnswers: ["no"], action: "reject", message: "We can only consider US-authorized candidates." },
+  },
+  {
+    id: "sponsor",
+    question: "Will you require sponsorship?",
+    type: "yes_no",
+    required: true,
+    profileField: "requires_sponsorship",
+    knockout: { failingAnswers: ["yes"], action: "flag" },
+  },
+  {
+    id: "onsite",
+    question: "Which days can you be onsite?",
+    type: "multiselect",
+    options: ["Mon", "Tue", "None"],
+    required: false,
+    knockout: { failingAnswers: ["None"], action: "flag", message: "A recruiter will review your availability." },
+  },
+];
+
+describe("knockouts", () => {
+  it("validates knockout and profile settings", () => {
+    expect(SupplementalQuestionsSchema.safeParse(questions).success).toBe(true);
+    expect(
+      SupplementalQuestionsSchema.safeParse([
+        { id: "q", question: "Why?", type: "text", required: false, knockout: { failingAnswers: ["x"], action: "reject" } },
+      ]).success
+    ).toBe(false);
+    expect(
+      SupplementalQuestionsSchema.safeParse([
+        { id: "q", question: "OK?", type: "yes_no", required: false, knockout: { failingAnswers: ["maybe"], action: "reject" } },
+      ]).success
+    ).toBe(false);
+    expect(
+      SupplementalQuestionsSchema.safeParse([
+        { id: "q", question: "Notes", type: "textarea", required: false, profileField: "requires_sponsorship" },
+      ]).success
+    ).toBe(false);
+  });
+
+  it("answers questions from the candidate profile", () => {
+    expect(profileAnswer(questions[0], { work_authorization: "US Citizen" })).toBe(true);
+    expect(profileAnswer(questions[0], { work_authorization: "Canadian citizen" })).toBeUndefined();
+    expect(profileAnswer(questions[1], { requires_sponsorship: false })).toBe(false);
+    expect(profileAnswer(questions[1], { requires_sponsorship: null })).toBeUndefined();
+    expect(
+      profileAnswer(
+        { id: "s", question: "Status", type: "select", options: ["US citizen", "Other"], required: false, profileField: "work_authorization" },
+        { work_authorization: "US Citizen" }
+      )
+    ).toBe("US citizen");
+  });
+
+  it("only fills answers the candidate left blank", () => {
+    expect(
+      prefillFromProfile(questions, { auth: false, sponsor: "" }, { work_authorization: "US Citizen", requires_sponsorship: true })
+    ).toEqual({ auth: false, sponsor: true });
+  });
+
+  it("rejects on a failed reject knockout and uses its message", () => {
+    const outcome = evaluateKnockouts(questions, { auth: false, sponsor: true });
+    expect(outcome.rejected).toBe(true);
+    expect(outcome.flagged).toBe(true);
+    expect(outcome.message).toBe("We can only consider US-authorized candidates.");
+    expect(outcome.results.map((r) => [r.question_id, r.action])).toEqual([
+      ["auth", "reject"],
+      ["sponsor", "flag"],
+    ]);
+  });
+
+  it("flags without rejecting and falls back to the default reject message", () => {
+    expect(evaluateKnockouts(questions, { auth: true, onsite: ["Mon", "None"] })).toMatchObject({
+      rejected: false,
+      flagged: true,
+      message: "A recruiter will review your availability.",
+    });
+    expect(evaluateKnockouts(questions, { auth: true, sponsor: false })).toEqual({
+      rejected: false,
+      flagged: false,
+      results: [],
+      message: null,
+    });
+
+    const noMessage = [{ ...questions[0], knockout: { failingAnswers: ["no"], action: "reject" as const } }];
+    expect(evaluateKnockouts(noMessage, { auth: false }).message).toBe(DEFAULT_KNOCKOUT_MESSAGE);
+  });
+});
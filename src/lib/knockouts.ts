@@ -0,0 +1,115 @@
+import { answerStrings } from "@/lib/supplemental-questions";
+import type { SupplementalAnswers, SupplementalQuestion } from "@/lib/supplemental-questions";
+import type { CandidateProfile, KnockoutResult } from "@/lib/types/database";
+
+/**
+ * Knockout Questions
+ *
+ * A choice or yes/no question can be marked as a knockout: answering with one of
+ * its failingAnswers either rejects the application outright or flags it for the
+ * recruiter. POST /api/applications evaluates knockouts on the validated answers,
+ * so answers to hidden questions never knock anyone out.
+ *
+ * Questions linked to a profile field (work authorization, sponsorship) are
+ * pre-answered from the candidate's profile when the candidate leaves them blank.
+ */
+
+export type KnockoutProfile = Pick<CandidateProfile, "work_authorization" | "requires_sponsorship">;
+
+export type KnockoutOutcome = {
+  rejected: boolean;
+  flagged: boolean;
+  results: KnockoutResult[];
+  message: string | null; // For the candidate
+};
+
+export const DEFAULT_KNOCKOUT_MESSAGE =
+  "Thank you for your interest. Based on your answers, you don't meet the requirements for this role.";
+
+// Profile values that mean the candidate can currently work in the US
+export const US_WORK_AUTHORIZATIONS = ["US Citizen", "US Permanent Resident", "H1B", "F1 OPT", "F1 CPT", "TN"];
+
+/**
+ * Answer a question from the candidate's profile
+ * @param question - Question with a profileField
+ * @param profile - Candidate profile (may be missing)
+ * @returns Raw answer, or undefined when the profile doesn't say
+ */
+export function profileAnswer(
+  question: SupplementalQuestion,
+  profile: Partial<KnockoutProfile> | null | undefined
+): string | boolean | undefined {
+  if (!question.profileField || !profile) return undefined;
+
+  if (question.profileField === "requires_sponsorship") {
+    return typeof profile.requires_sponsorship === "boolean" ? profile.requires_sponsorship : undefined;
+  }
+
+  const authorization = profile.work_authorization?.trim();
+  if (!authorization) return undefined;
+  switch (question.type) {
+    case "yes_no":
+      // Free-text "Other" values can't be mapped, so the candidate answers those
+      return US_WORK_AUTHORIZATIONS.includes(authorization) ? true : undefined;
+    case "select":
+      return (question.options ?? []).find((option) => option.toLowerCase() === authorization.toLowerCase());
+    default:
+      return authorization;
+  }
+}
+
+/**
+ * Fill blank answers from the candidate's profile. Answers the candidate gave are kept.
+ * @param questions - The job's question definitions
+ * @param answers - Raw answers keyed by question id
+ * @param profile - Candidate profile (may be missing)
+ * @returns Answers with profile-backed questions filled in
+ */
+export function prefillFromProfile(
+  questions: SupplementalQuestion[],
+  answers: Record<string, unknown> | null | undefined,
+  profile: Partial<KnockoutProfile> | null | undefined
+): Record<string, unknown> {
+  const out: Record<string, unknown> = { ...(answers ?? {}) };
+  for (const question of questions) {
+    const current = out[question.id];
+    if (current !== undefined && current !== null && current !== "") continue;
+    const value = profileAnswer(question, profile);
+    if (value !== undefined) out[question.id] = value;
+  }
+  return out;
+}
+
+/**
+ * Check validated answers against the job's knockout questions
+ * @param questions - The job's question definitions
+ * @param answers - Normalized answers from validateSupplementalAnswers()
+ * @returns Whether to reject or flag, the failed questions and the candidate message
+ */
+export function evaluateKnockouts(questions: SupplementalQuestion[], answers: SupplementalAnswers): KnockoutOutcome {
+  const results: KnockoutResult[] = [];
+  let rejectMessage: string | null = null;
+  let flagMessage: string | null = null;
+
+  for (const question of questions) {
+    const knockout = question.knockout;
+    if (!knockout || !(question.id in answers)) continue;
+    const failed = answerStrings(answers[question.id]).some((value) => knockout.failingAnswers.includes(value));
+    if (!failed) continue;
+
+    results.push({ question_id: question.id, question: question.question, answer: answers[question.id], action: knockout.action });
+    if (knockout.action === "reject") {
+      rejectMessage ??= knockout.message || DEFAULT_KNOCKOUT_MESSAGE;
+    } else {
+      flagMessage ??= knockout.message || null;
+    }
+  }
+
+  const rejected = results.some((r) => r.action === "reject");
+  return {
+    rejected,
+    flagged: results.some((r) => r.action === "flag"),
+    results,
+    message: rejected ? rejectMessage : flagMessage,
+  };
+}
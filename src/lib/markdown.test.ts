@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { markdownToHtml, parseInline, parseMarkdown } from "./markdown";
+
+const userId = "11111111-2222-3333-4444-555555555555";
+
+describe("markdown", () => {
+  it("parses inline formatting, links and mentions", () => {
+    expect(parseInline(`**Strong** pick, ask @[Dana Lee](${userId}) about \`k8s\` and _see_ [notes](https://example.com)`)).toEqual([
+      { type: "strong", children: [{ type: "text", text: "Strong" }] },
+      { type: "text", text: " pick, ask " },
+      { type: "mention", userId, name: "Dana Lee" },
+      { type: "text", text: " about " },
+      { type: "code", text: "k8s" },
+      { type: "text", text: " and " },
+      { type: "em", children: [{ type: "text", text: "see" }] },
+      { type: "text", text: " " },
+      { type: "link", href: "https://example.com", children: [{ type: "text", text: "notes" }] },
+    ]);
+  });
+
+  it("renders unsafe links as text and leaves snake_case alone", () => {
+    expect(parseInline("[click](javascript:void) my_var_name")).toEqual([{ type: "text", text: "click my_var_name" }]);
+    expect(parseInline("<script>alert(1)</script>")).toEqual([{ type: "text", text: "<script>alert(1)</script>" }]);
+  });
+
+  it("parses blocks", () => {
+    const blocks = parseMarkdown(
+      ["# Summary", "Great call.", "Follow up", "", "- one", "- two", "1. first", "> quoted", "```", "**raw**", "```"].join("\n")
+    );
+    expect(blocks.map((b) => b.type)).toEqual(["heading", "paragraph", "list", "list", "quote", "code"]);
+    expect(blocks[1]).toEqual({
+      type: "paragraph",
+      children: [{ type: "text", text: "Great call." }, { type: "break" }, { type: "text", text: "Follow up" }],
+    });
+    expect(blocks[2]).toMatchObject({ ordered: false, items: [[{ text: "one" }], [{ text: "two" }]] });
+    expect(blocks[3]).toMatchObject({ ordered: true, items: [[{ text: "first" }]] });
+    expect(blocks[5]).toEqual({ type: "code", text: "**raw**" });
+  });
+
+  it("renders escaped HTML", () => {
+    expect(markdownToHtml("# Hi <b>\n\n- **one** & [link](https://example.com?a=1&b=2)\n- [bad](javascript:x)")).toBe(
+      [
+        "<h1>Hi &lt;b&gt;</h1>",
+        '<ul><li><strong>one</strong> &amp; <a href="https://example.com?a=1&amp;b=2">link</a></li><li>bad</li></ul>',
+      ].join("\n")
+    );
+    expect(markdownToHtml("Hello {{name}}", (text) => text.replace("{{name}}", "<Ada>"))).toBe("<p>Hello &lt;Ada&gt;</p>");
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Markdown (small subset)
+ *
+ * Parses the markdown people actually type into notes into a tree that React
+ * renders as elements, so note text never reaches the page as HTML.
+ * markdownToHtml() serializes the same tree, escaped, for notification emails.
+ *
+ * Blocks: paragraphs, # headings (1-3), - / * and 1. lists, > quotes and
+ * ``` fenced code. Inline: **bold**, *italic* / _italic_, `code`,
+ * [links](https://...) and @[Name](user-id) mentions. Links other than
+ * http(s) and mailto render as plain text.
+ */
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong"; children: MarkdownInline[] }
+  | { type: "em"; children: MarkdownInline[] }
+  | { type: "link"; href: string; children: MarkdownInline[] }
+  | { type: "mention"; userId: string; name: string }
+  | { type: "break" };
+
+export type MarkdownBlock =
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "heading"; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: "list"; ordered: boolean; items: MarkdownInline[][] }
+  | { type: "quote"; children: MarkdownInline[] }
+  | { type: "code"; text: string };
+
+// @[Name](user-id); the name is only a label, the id is what counts
+export const MENTION_PATTERN = /@\[([^\]\n]+)\]\(([0-9a-fA-F-]{36})\)/g;
+
+const INLINE_PATTERN = new RegExp(
+  [
+    "`([^`\\n]+)`",                        // 1: code
+    "\\*\\*([^*\\n]+)\\*\\*",              // 2: bold
+    MENTION_PATTERN.source,                // 3, 4: mention name, user id
+    "\\[([^\\]\\n]+)\\]\\(([^)\\s]+)\\)",  // 5, 6: link text, href
+    "\\*([^*\\n]+)\\*",                    // 7: italic
+    "\\b_([^_\\n]+)_\\b",                  // 8: italic
+  ].join("|"),
+  "g"
+);
+
+const LIST_ITEM = /^\s*(?:([-*])|(\d+)\.)\s+(.*)$/;
+
+/**
+ * Whether a link target is safe to render as a link
+ */
+export function isSafeHref(href: string): boolean {
+  return /^(https?:\/\/|mailto:)/i.test(href);
+}
+
+/**
+ * Parse inline markdown. Newlines become breaks.
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  const pushText = (value: string) => {
+    value.split("\n").forEach((line, index) => {
+      if (index > 0) nodes.push({ type: "break" });
+      if (!line) return;
+      const last = nodes[nodes.length - 1];
+      if (last?.type === "text") last.text += line;
+      else nodes.push({ type: "text", text: line });
+    });
+  };
+
+  let cursor = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    pushText(text.slice(cursor, index));
+    cursor = index + match[0].length;
+
+    const [, code, bold, mentionName, mentionId, linkText, href, star, underscore] = match;
+    if (code !== undefined) nodes.push({ type: "code", text: code });
+    else if (bold !== undefined) nodes.push({ type: "strong", children: parseInline(bold) });
+    else if (mentionId !== undefined) nodes.push({ type: "mention", userId: mentionId.toLowerCase(), name: mentionName.trim() });
+    else if (href !== undefined) {
+      if (isSafeHref(href)) nodes.push({ type: "link", href, children: parseInline(linkText) });
+      else pushText(linkText);
+    } else nodes.push({ type: "em", children: parseInline(star ?? underscore) });
+  }
+  pushText(text.slice(cursor));
+  return nodes;
+}
+
+/**
+ * Parse a markdown document into blocks
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n")) });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.trimStart().startsWith("```")) {
+      flushParagraph();
+      const code: string[] = [];
+      // An unclosed fence runs to the end of the note
+      while (++i < lines.length && !lines[i].trimStart().startsWith("```")) code.push(lines[i]);
+      blocks.push({ type: "code", text: code.join("\n") });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: "heading", level: heading[1].length as 1 | 2 | 3, children: parseInline(heading[2].trim()) });
+      continue;
+    }
+
+    if (line.startsWith(">")) {
+      flushParagraph();
+      const quote: string[] = [];
+      for (; i < lines.length && lines[i].startsWith(">"); i++) quote.push(lines[i].replace(/^>\s?/, ""));
+      i--;
+      blocks.push({ type: "quote", children: parseInline(quote.join("\n")) });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      flushParagraph();
+      const ordered = item[2] !== undefined;
+      const items: MarkdownInline[][] = [];
+      for (; i < lines.length; i++) {
+        const next = lines[i].match(LIST_ITEM);
+        if (!next || (next[2] !== undefined) !== ordered) break;
+        items.push(parseInline(next[3]));
+      }
+      i--;
+      blocks.push({ type: "list", ordered, items });
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+  flushParagraph();
+  return blocks;
+}
+
+const HTML_ESCAPES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" };
+
+/**
+ * Escape text for HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/**
+ * Render markdown as HTML. All text is escaped; links keep the isSafeHref() check.
+ * @param fillText - Applied to each text run before escaping (e.g. to fill template variables)
+ */
+export function markdownToHtml(source: string, fillText: (text: string) => string = (text) => text): string {
+  const text = (value: string) => escapeHtml(fillText(value));
+  const inline = (nodes: MarkdownInline[]): string =>
+    nodes
+      .map((node) => {
+        switch (node.type) {
+          case "text":
+            return text(node.text);
+          case "code":
+            return `<code>${text(node.text)}</code>`;
+          case "strong":
+            return `<strong>${inline(node.children)}</strong>`;
+          case "em":
+            return `<em>${inline(node.children)}</em>`;
+          case "link":
+            return `<a href="${escapeHtml(node.href)}">${inline(node.children)}</a>`;
+          case "mention":
+            return `@${text(node.name)}`;
+          case "break":
+            return "<br>";
+        }
+      })
+      .join("");
+
+  return parseMarkdown(source)
+    .map((block) => {
+      switch (block.type) {
+        case "paragraph":
+          return `<p>${inline(block.children)}</p>`;
+        case "heading":
+          return `<h${block.level}>${inline(block.children)}</h${block.level}>`;
+        case "list": {
+          const tag = block.ordered ? "ol" : "ul";
+          return `<${tag}>${block.items.map((item) => `<li>${inline(item)}</li>`).join("")}</${tag}>`;
+        }
+        case "quote":
+          return `<blockquote>${inline(block.children)}</blockquote>`;
+        case "code":
+          return `<pre><code>${text(block.text)}</code></pre>`;
+      }
+    })
+    .join("\n");
+}
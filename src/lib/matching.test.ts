@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { normalizeSkill, scoreMatch } from "./matching";
+
+const profile = {
+  skills: ["react", "node"],
+  languages: ["TypeScript", "Python"],
+  frameworks: ["Next.js"],
+  years_of_experience: 2,
+  location: "Boston, MA",
+  employment_types: ["full_time"],
+  open_to_relocation: false,
+};
+
+describe("matching", () => {
+  it("normalizes skill aliases", () => {
+    expect(normalizeSkill(" NodeJS ")).toBe("node.js");
+    expect(normalizeSkill("TS")).toBe("typescript");
+    expect(normalizeSkill("Rust")).toBe("rust");
+  });
+
+  it("scores required skills, experience, location and employment type", () => {
+    const result = scoreMatch(profile, {
+      title: "Frontend Engineer",
+      location: "Boston, MA",
+      requirements: {
+        requiredSkills: ["React", "TypeScript", "Node.js", "GraphQL"],
+        niceToHaveSkills: ["Python", "Go"],
+        minYearsExperience: 4,
+        employmentType: "Full-time",
+      },
+    });
+
+    expect(result.matchedSkills).toEqual(["React", "TypeScript", "Node.js"]);
+    expect(result.missingSkills).toEqual(["GraphQL"]);
+    expect(result.matchedNiceToHave).toEqual(["Python"]);
+    // (50*0.75 + 15*0.5 + 20*0.5 + 10*1 + 5*1) / 100
+    expect(result.score).toBe(70);
+    expect(result.components.map((c) => c.key)).toEqual(["skills", "nice_to_have", "experience", "location", "employment_type"]);
+  });
+
+  it("treats remote jobs and relocation as location matches", () => {
+    const job = { requirements: { requiredSkills: ["React"] } };
+    expect(scoreMatch(profile, { ...job, location: "Remote" }).score).toBe(100);
+    expect(scoreMatch(profile, { ...job, location: "Denver, CO" }).score).toBe(83);
+    expect(scoreMatch({ ...profile, open_to_relocation: true }, { ...job, location: "Denver, CO" }).score).toBe(96);
+  });
+
+  it("falls back to skills mentioned in the description", () => {
+    const result = scoreMatch(profile, {
+      title: "Full-stack developer",
+      description: "You'll build features in TypeScript and React on top of Node.",
+    });
+    expect(result.matchedSkills.sort()).toEqual(["TypeScript", "node", "react"].sort());
+    expect(result.missingSkills).toEqual([]);
+    expect(result.score).toBe(100);
+  });
+
+  it("has no score when nothing can be compared", () => {
+    expect(scoreMatch({}, { location: "Boston, MA" }).score).toBeNull();
+    expect(scoreMatch({ location: "Boston" }, { location: "Boston" }).score).toBeNull();
+  });
+});
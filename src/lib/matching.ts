@@ -0,0 +1,231 @@
+import { workplaceOf } from "@/lib/job-search";
+import { parseJobRequirements } from "@/lib/job-requirements";
+import type { CandidateProfile, Job } from "@/lib/types/database";
+
+/**
+ * Candidate-to-Job Match Scoring
+ *
+ * Compares a candidate profile with a job and returns a 0-100 score plus an
+ * explanation. The score is a weighted average of the components the job
+ * actually specifies; components the job (or profile) says nothing about are
+ * left out rather than counted as a miss. With no skill or experience data on
+ * either side there is no score.
+ *
+ *   skills          required skills the candidate has (skills, languages, frameworks)
+ *   nice_to_have    nice-to-have skills the candidate has
+ *   experience      years of experience against the minimum
+ *   location        remote, same place, or willing to relocate
+ *   employment_type job's employment type among the candidate's preferences
+ *
+ * Jobs without structured skills fall back to candidate skills mentioned in the
+ * title or description, so older postings still rank.
+ */
+
+export type MatchProfile = Partial<
+  Pick<CandidateProfile, "skills" | "location" | "employment_types" | "open_to_relocation">
+> & {
+  languages?: string[] | null;
+  frameworks?: string[] | null;
+  years_of_experience?: number | null;
+};
+
+// requirements may be a legacy row; it is read with parseJobRequirements
+export type MatchJob = Partial<Pick<Job, "title" | "description" | "location">> & { requirements?: unknown };
+
+export type MatchComponentKey = "skills" | "nice_to_have" | "experience" | "location" | "employment_type";
+
+export type MatchComponent = {
+  key: MatchComponentKey;
+  weight: number;
+  score: number; // 0-1
+  detail: string;
+};
+
+export type MatchResult = {
+  score: number | null; // 0-100, null when there is nothing to compare
+  matchedSkills: string[];
+  missingSkills: string[];
+  matchedNiceToHave: string[];
+  components: MatchComponent[];
+};
+
+export const MATCH_WEIGHTS: Record<MatchComponentKey, number> = {
+  skills: 50,
+  nice_to_have: 15,
+  experience: 20,
+  location: 10,
+  employment_type: 5,
+};
+
+// Description matches needed for full marks when the job lists no skills
+const MENTIONED_SKILLS_FOR_FULL_SCORE = 3;
+
+// Spellings that mean the same skill
+const SKILL_ALIASES: Record<string, string> = {
+  js: "javascript",
+  ts: "typescript",
+  node: "node.js",
+  nodejs: "node.js",
+  "react.js": "react",
+  reactjs: "react",
+  "vue.js": "vue",
+  vuejs: "vue",
+  "next.js": "next",
+  nextjs: "next",
+  golang: "go",
+  postgres: "postgresql",
+  k8s: "kubernetes",
+  py: "python",
+  "c sharp": "c#",
+  csharp: "c#",
+  "c plus plus": "c++",
+  cpp: "c++",
+  "amazon web services": "aws",
+  ml: "machine learning",
+};
+
+/**
+ * Canonical form of a skill name for comparison
+ */
+export function normalizeSkill(skill: string): string {
+  const key = skill.trim().toLowerCase().replace(/\s+/g, " ");
+  return SKILL_ALIASES[key] ?? key;
+}
+
+// Canonical tokens for normalized comparison of free-form values like "Full-time"
+function normalizeToken(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s-]+/g, "_");
+}
+
+function stringList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === "string" && !!v.trim());
+  if (typeof value === "string") return value.split(",").map((v) => v.trim()).filter(Boolean);
+  return [];
+}
+
+// De-duplicate by canonical name, keeping the first spelling
+function uniqueSkills(skills: string[]): string[] {
+  const seen = new Map<string, string>();
+  for (const skill of skills) {
+    const key = normalizeSkill(skill);
+    if (key && !seen.has(key)) seen.set(key, skill.trim());
+  }
+  return [...seen.values()];
+}
+
+// Whether a skill name appears in free text as a whole word
+function mentions(text: string, skill: string): boolean {
+  const escaped = skill.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^a-z0-9+#.])${escaped}($|[^a-z0-9+#])`, "i").test(text);
+}
+
+function sameLocation(a: string, b: string): boolean {
+  const place = (value: string) => value.split(",")[0].trim().toLowerCase();
+  return !!place(a) && place(a) === place(b);
+}
+
+/**
+ * Score how well a candidate fits a job
+ * @param profile - Candidate profile (skills, experience, location, preferences)
+ * @param job - Job with title, description, location and requirements
+ * @returns Score 0-100 (null if nothing could be compared) with matched/missing skills
+ */
+export function scoreMatch(profile: MatchProfile, job: MatchJob): MatchResult {
+  const parsed = parseJobRequirements(job.requirements);
+  const requirements = {
+    ...parsed,
+    requiredSkills: uniqueSkills(parsed.requiredSkills),
+    niceToHaveSkills: uniqueSkills(parsed.niceToHaveSkills),
+  };
+  const candidateSkills = uniqueSkills([
+    ...stringList(profile.skills),
+    ...stringList(profile.languages),
+    ...stringList(profile.frameworks),
+  ]);
+  const has = new Set(candidateSkills.map(normalizeSkill));
+  const components: MatchComponent[] = [];
+
+  let matchedSkills: string[] = [];
+  let missingSkills: string[] = [];
+  if (requirements.requiredSkills.length > 0) {
+    matchedSkills = requirements.requiredSkills.filter((s) => has.has(normalizeSkill(s)));
+    missingSkills = requirements.requiredSkills.filter((s) => !has.has(normalizeSkill(s)));
+    components.push({
+      key: "skills",
+      weight: MATCH_WEIGHTS.skills,
+      score: matchedSkills.length / requirements.requiredSkills.length,
+      detail: `${matchedSkills.length} of ${requirements.requiredSkills.length} required skills`,
+    });
+  } else if (candidateSkills.length > 0) {
+    const text = `${job.title ?? ""}\n${job.description ?? ""}`;
+    matchedSkills = candidateSkills.filter((s) => mentions(text, s) || mentions(text, normalizeSkill(s)));
+    if (text.trim()) {
+      components.push({
+        key: "skills",
+        weight: MATCH_WEIGHTS.skills,
+        score: Math.min(1, matchedSkills.length / MENTIONED_SKILLS_FOR_FULL_SCORE),
+        detail: `${matchedSkills.length} of your skills mentioned in the job description`,
+      });
+    }
+  }
+
+  const matchedNiceToHave = requirements.niceToHaveSkills.filter((s) => has.has(normalizeSkill(s)));
+  if (requirements.niceToHaveSkills.length > 0) {
+    components.push({
+      key: "nice_to_have",
+      weight: MATCH_WEIGHTS.nice_to_have,
+      score: matchedNiceToHave.length / requirements.niceToHaveSkills.length,
+      detail: `${matchedNiceToHave.length} of ${requirements.niceToHaveSkills.length} nice-to-have skills`,
+    });
+  }
+
+  if (requirements.minYearsExperience !== null) {
+    const years = typeof profile.years_of_experience === "number" ? profile.years_of_experience : null;
+    components.push({
+      key: "experience",
+      weight: MATCH_WEIGHTS.experience,
+      score: years === null ? 0 : Math.min(1, years / requirements.minYearsExperience),
+      detail:
+        years === null
+          ? `${requirements.minYearsExperience}+ years required; not in profile`
+          : `${years} of ${requirements.minYearsExperience}+ years required`,
+    });
+  }
+
+  const jobLocation = job.location?.trim();
+  if (jobLocation) {
+    const workplace = workplaceOf(jobLocation);
+    const candidateLocation = profile.location?.trim();
+    if (workplace === "remote") {
+      components.push({ key: "location", weight: MATCH_WEIGHTS.location, score: 1, detail: "Remote role" });
+    } else if (candidateLocation) {
+      const local = sameLocation(candidateLocation, jobLocation);
+      components.push({
+        key: "location",
+        weight: MATCH_WEIGHTS.location,
+        score: local ? 1 : profile.open_to_relocation ? 0.75 : 0,
+        detail: local ? "Same location" : profile.open_to_relocation ? "Open to relocation" : "Different location",
+      });
+    }
+  }
+
+  const preferences = stringList(profile.employment_types).map(normalizeToken);
+  if (requirements.employmentType && preferences.length > 0) {
+    const fits = preferences.includes(normalizeToken(requirements.employmentType));
+    components.push({
+      key: "employment_type",
+      weight: MATCH_WEIGHTS.employment_type,
+      score: fits ? 1 : 0,
+      detail: fits ? "Matches employment preference" : "Outside employment preference",
+    });
+  }
+
+  // Location and employment type alone say too little to rank on
+  const comparable = components.some((c) => c.key !== "location" && c.key !== "employment_type");
+  const totalWeight = components.reduce((sum, c) => sum + c.weight, 0);
+  const score = comparable
+    ? Math.round((components.reduce((sum, c) => sum + c.weight * c.score, 0) / totalWeight) * 100)
+    : null;
+
+  return { score, matchedSkills, missingSkills, matchedNiceToHave, components };
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { threadReceipts, toMessageView } from "./messages";
+import type { ApplicationMessage } from "@/lib/types/database";
+
+function message(senderId: string, senderRole: "candidate" | "recruiter", createdAt: string): ApplicationMessage {
+  return {
+    id: `msg-${createdAt}`,
+    application_id: "app-1",
+    sender_id: senderId,
+    sender_role: senderRole,
+    body: "Hello",
+    attachment_path: null,
+    attachment_name: null,
+    attachment_mime: null,
+    attachment_size: null,
+    created_at: createdAt,
+  };
+}
+
+describe("messages", () => {
+  it("takes each side's latest read", () => {
+    const receipts = threadReceipts(
+      [
+        { application_id: "app-1", user_id: "cand-1", last_read_at: "2025-12-23T09:00:00Z" },
+        { application_id: "app-1", user_id: "rec-1", last_read_at: "2025-12-23T10:00:00Z" },
+        { application_id: "app-1", user_id: "rec-2", last_read_at: "2025-12-23T12:00:00Z" },
+      ],
+      "cand-1"
+    );
+    expect(receipts).toEqual({ candidateReadAt: "2025-12-23T09:00:00Z", teamReadAt: "2025-12-23T12:00:00Z" });
+    expect(threadReceipts([], "cand-1")).toEqual({ candidateReadAt: null, teamReadAt: null });
+  });
+
+  it("marks a message seen once the other side reads past it", () => {
+    const receipts = { candidateReadAt: "2025-12-23T09:00:00Z", teamReadAt: "2025-12-23T12:00:00Z" };
+    const names = new Map([["rec-1", "Rec One"]]);
+
+    // The team read past the candidate's message; the candidate hasn't read the reply
+    const fromCandidate = toMessageView(message("cand-1", "candidate", "2025-12-23T11:00:00Z"), { userId: "cand-1", names, receipts });
+    const fromTeam = toMessageView(message("rec-1", "recruiter", "2025-12-23T11:30:00Z"), { userId: "cand-1", names, receipts });
+    expect(fromCandidate).toMatchObject({ isMine: true, seen: true });
+    expect(fromTeam).toMatchObject({ isMine: false, seen: false, senderName: "Rec One" });
+  });
+
+  it("links attachments through the download route", () => {
+    const view = toMessageView(
+      { ...message("rec-1", "recruiter", "2025-12-23T11:30:00Z"), attachment_path: "rec-1/messages/app-1/1-offer.pdf", attachment_name: "offer.pdf" },
+      { userId: "rec-1", names: new Map(), receipts: { candidateReadAt: null, teamReadAt: null } }
+    );
+    expect(view.attachment).toEqual({
+      name: "offer.pdf",
+      mimeType: null,
+      size: null,
+      url: "/api/applications/app-1/messages/msg-2025-12-23T11%3A30%3A00Z/attachment",
+    });
+  });
+});
@@ -0,0 +1,309 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { jobRole } from "@/lib/organizations";
+import type {
+  Application,
+  ApplicationMessage,
+  ApplicationMessageRead,
+  Job,
+  MessageSenderRole,
+  OrganizationRole,
+} from "@/lib/types/database";
+
+/**
+ * Application Messages
+ *
+ * Each application has one thread between the candidate and the job's hiring
+ * team. Only those two sides can read or post (the application_messages RLS
+ * policies, and loadMessageAccess() in the routes). Anyone on the team can
+ * answer; the candidate sees them as one side of the conversation.
+ *
+ * Attachments are checked like resume uploads (validateResumeUpload) and kept
+ * in the private resumes bucket; they are downloaded through
+ * messageAttachmentPath(), which signs a short-lived URL.
+ *
+ * Read receipts and unread counts come from application_message_reads: each
+ * participant's last_read_at for a thread. A message counts as seen once
+ * someone on the other side has read past it.
+ */
+
+export const MAX_MESSAGE_LENGTH = 5000;
+
+// How often open pages check for new messages
+export const MESSAGE_POLL_INTERVAL_MS = 30_000;
+
+export const MessageBodySchema = z
+  .string()
+  .trim()
+  .max(MAX_MESSAGE_LENGTH, `Messages must be ${MAX_MESSAGE_LENGTH} characters or less`);
+
+export type MessageAttachmentView = {
+  name: string;
+  mimeType: string | null;
+  size: number | null;
+  url: string;
+};
+
+export type MessageView = {
+  id: string;
+  senderRole: MessageSenderRole;
+  senderName: string | null;
+  body: string;
+  attachment: MessageAttachmentView | null;
+  createdAt: string;
+  isMine: boolean;
+  // Someone on the other side has read it
+  seen: boolean;
+};
+
+// When each side last read the thread
+export type ThreadReceipts = {
+  candidateReadAt: string | null;
+  teamReadAt: string | null;
+};
+
+export type InboxThread = {
+  applicationId: string;
+  jobTitle: string;
+  company: string;
+  // The candidate for the team, the company for the candidate
+  counterpartName: string | null;
+  lastMessage: { body: string; senderRole: MessageSenderRole; createdAt: string; hasAttachment: boolean } | null;
+  unread: number;
+};
+
+/**
+ * Download route for a message's attachment
+ */
+export function messageAttachmentPath(applicationId: string, messageId: string): string {
+  return `/api/applications/${encodeURIComponent(applicationId)}/messages/${encodeURIComponent(messageId)}/attachment`;
+}
+
+/**
+ * Latest read on each side of a thread
+ * @param reads - Every participant's read marker for the thread
+ */
+export function threadReceipts(reads: ApplicationMessageRead[], candidateId: string): ThreadReceipts {
+  const latest = (rows: ApplicationMessageRead[]) =>
+    rows.reduce<string | null>((max, r) => (max && max > r.last_read_at ? max : r.last_read_at), null);
+  return {
+    candidateReadAt: latest(reads.filter((r) => r.user_id === candidateId)),
+    teamReadAt: latest(reads.filter((r) => r.user_id !== candidateId)),
+  };
+}
+
+/**
+ * API shape of a message
+ * @param names - Display names by user id
+ */
+export function toMessageView(
+  message: ApplicationMessage,
+  { userId, names, receipts }: { userId: string; names: Map<string, string>; receipts: ThreadReceipts }
+): MessageView {
+  const otherSideReadAt = message.sender_role === "candidate" ? receipts.teamReadAt : receipts.candidateReadAt;
+  return {
+    id: message.id,
+    senderRole: message.sender_role,
+    senderName: message.sender_id ? names.get(message.sender_id) ?? null : null,
+    body: message.body,
+    attachment: message.attachment_path
+      ? {
+          name: message.attachment_name ?? "Attachment",
+          mimeType: message.attachment_mime,
+          size: message.attachment_size,
+          url: messageAttachmentPath(message.application_id, message.id),
+        }
+      : null,
+    createdAt: message.created_at,
+    isMine: message.sender_id === userId,
+    seen: !!otherSideReadAt && otherSideReadAt >= message.created_at,
+  };
+}
+
+export type MessageAccess = {
+  application: Pick<Application, "id" | "job_id" | "candidate_id">;
+  job: Pick<Job, "id" | "title" | "company" | "employer_id" | "organization_id">;
+  // The caller applied; otherwise role is their role on the job
+  isCandidate: boolean;
+  role: OrganizationRole | null;
+};
+
+/**
+ * Load an application and the caller's side of its thread
+ * @returns Access details, or null when the application doesn't exist or the caller isn't on the thread
+ */
+export async function loadMessageAccess(
+  supabase: SupabaseClient,
+  userId: string,
+  applicationId: string
+): Promise<MessageAccess | null> {
+  const { data: application } = await supabase
+    .from("applications")
+    .select("id, job_id, candidate_id")
+    .eq("id", applicationId)
+    .maybeSingle();
+  if (!application) return null;
+
+  const { data: job } = await supabase
+    .from("jobs")
+    .select("id, title, company, employer_id, organization_id")
+    .eq("id", application.job_id)
+    .maybeSingle();
+  if (!job) return null;
+
+  if (application.candidate_id === userId) {
+    return { application, job, isCandidate: true, role: null };
+  }
+  const role = await jobRole(supabase, userId, job);
+  return role ? { application, job, isCandidate: false, role } : null;
+}
+
+/**
+ * Display names for message senders: candidate profiles for the candidate,
+ * recruiter profiles for the team (where the caller can read them)
+ */
+async function loadSenderNames(
+  supabase: SupabaseClient,
+  candidateIds: string[],
+  recruiterIds: string[]
+): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  if (candidateIds.length > 0) {
+    const { data } = await supabase.from("candidate_profiles").select("user_id, name").in("user_id", candidateIds);
+    for (const p of (data ?? []) as { user_id: string; name: string | null }[]) if (p.name) names.set(p.user_id, p.name);
+  }
+  if (recruiterIds.length > 0) {
+    const { data } = await supabase.from("recruiter_profiles").select("user_id, name").in("user_id", recruiterIds);
+    for (const p of (data ?? []) as { user_id: string; name: string }[]) names.set(p.user_id, p.name);
+  }
+  return names;
+}
+
+/**
+ * An application's messages, oldest first, with read receipts
+ */
+export async function loadThread(
+  supabase: SupabaseClient,
+  userId: string,
+  access: MessageAccess
+): Promise<{ messages: MessageView[]; receipts: ThreadReceipts }> {
+  const applicationId = access.application.id;
+  const [{ data: messageRows, error }, { data: readRows }] = await Promise.all([
+    supabase
+      .from("application_messages")
+      .select("*")
+      .eq("application_id", applicationId)
+      .order("created_at", { ascending: true }),
+    supabase.from("application_message_reads").select("*").eq("application_id", applicationId),
+  ]);
+  if (error) {
+    console.error("Failed to load messages:", error);
+  }
+  const messages = (messageRows ?? []) as ApplicationMessage[];
+  const receipts = threadReceipts((readRows ?? []) as ApplicationMessageRead[], access.application.candidate_id ?? "");
+
+  const senders = (role: MessageSenderRole) => [
+    ...new Set(messages.filter((m) => m.sender_role === role && m.sender_id).map((m) => m.sender_id as string)),
+  ];
+  const names = await loadSenderNames(supabase, senders("candidate"), senders("recruiter"));
+
+  return { messages: messages.map((m) => toMessageView(m, { userId, names, receipts })), receipts };
+}
+
+/**
+ * Record that the caller has read a thread up to now
+ */
+export async function markThreadRead(supabase: SupabaseClient, userId: string, applicationId: string): Promise<void> {
+  const { error } = await supabase
+    .from("application_message_reads")
+    .upsert(
+      { application_id: applicationId, user_id: userId, last_read_at: new Date().toISOString() },
+      { onConflict: "application_id,user_id" }
+    );
+  if (error) {
+    console.error("Failed to mark messages read:", error);
+  }
+}
+
+/**
+ * Unread messages from the other side, by application id
+ */
+export async function unreadMessageCounts(supabase: SupabaseClient): Promise<Record<string, number>> {
+  const { data, error } = await supabase.rpc("unread_message_counts");
+  if (error) {
+    console.error("Failed to count unread messages:", error);
+    return {};
+  }
+  return Object.fromEntries(
+    ((data ?? []) as { application_id: string; unread: number | string }[]).map((row) => [row.application_id, Number(row.unread)])
+  );
+}
+
+/**
+ * The caller's threads, most recent first. Candidates see every application
+ * (so they can start a conversation); the team sees threads with messages.
+ */
+export async function loadInbox(
+  supabase: SupabaseClient,
+  userId: string,
+  role: "candidate" | "recruiter"
+): Promise<InboxThread[]> {
+  // Newest first, so the first message seen per application is its latest
+  const { data: messageRows } = await supabase
+    .from("application_messages")
+    .select("application_id, body, sender_role, attachment_path, created_at")
+    .order("created_at", { ascending: false })
+    .limit(1000);
+  const latest = new Map<string, InboxThread["lastMessage"]>();
+  for (const m of (messageRows ?? []) as Pick<
+    ApplicationMessage,
+    "application_id" | "body" | "sender_role" | "attachment_path" | "created_at"
+  >[]) {
+    if (latest.has(m.application_id)) continue;
+    latest.set(m.application_id, {
+      body: m.body,
+      senderRole: m.sender_role,
+      createdAt: m.created_at,
+      hasAttachment: !!m.attachment_path,
+    });
+  }
+
+  const applicationQuery = supabase.from("applications").select("id, job_id, candidate_id, applied_at");
+  const { data: applicationRows } =
+    role === "candidate"
+      ? await applicationQuery.eq("candidate_id", userId)
+      : latest.size > 0
+        ? await applicationQuery.in("id", [...latest.keys()])
+        : { data: [] };
+  const applications = (applicationRows ?? []) as Pick<Application, "id" | "job_id" | "candidate_id" | "applied_at">[];
+  if (applications.length === 0) return [];
+
+  const { data: jobRows } = await supabase
+    .from("jobs")
+    .select("id, title, company")
+    .in("id", [...new Set(applications.map((a) => a.job_id))]);
+  const jobs = new Map(((jobRows ?? []) as Pick<Job, "id" | "title" | "company">[]).map((j) => [j.id, j]));
+  const names =
+    role === "recruiter"
+      ? await loadSenderNames(supabase, [...new Set(applications.flatMap((a) => (a.candidate_id ? [a.candidate_id] : [])))], [])
+      : new Map<string, string>();
+  const unread = await unreadMessageCounts(supabase);
+
+  // Most recent activity first: the latest message, or when the candidate applied
+  const activity = (application: (typeof applications)[number]) =>
+    latest.get(application.id)?.createdAt ?? application.applied_at;
+  return [...applications]
+    .sort((a, b) => activity(b).localeCompare(activity(a)))
+    .map((application) => {
+      const job = jobs.get(application.job_id);
+      return {
+        applicationId: application.id,
+        jobTitle: job?.title ?? "Job",
+        company: job?.company ?? "",
+        counterpartName:
+          role === "recruiter" ? (application.candidate_id && names.get(application.candidate_id)) || null : job?.company ?? null,
+        lastMessage: latest.get(application.id) ?? null,
+        unread: unread[application.id] ?? 0,
+      };
+    });
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import { MarkNotificationsReadSchema, notificationLink, toNotificationViews } from "./notification-center";
+import type { Notification } from "./types/database";
+
+let sequence = 0;
+function row(overrides: Partial<Notification>): Notification {
+  sequence++;
+  return {
+    id: `n-${sequence}`,
+    user_id: "user-1",
+    type: "application_received",
+    variables: {},
+    link: null,
+    application_id: null,
+    job_id: null,
+    actor_id: null,
+    read_at: null,
+    created_at: `2025-12-30T10:${String(60 - sequence).padStart(2, "0")}:00Z`,
+    ...overrides,
+  };
+}
+
+describe("notificationLink", () => {
+  it("opens the page the email links to", () => {
+    expect(
+      notificationLink({
+        type: "status_changed",
+        recipientId: "cand-1",
+        variables: { candidate_name: "Ada", job_title: "Engineer", company: "Acme", status: "Interview", dashboard_url: "https://jobs.example.com/candidate" },
+      })
+    ).toBe("/candidate");
+    expect(
+      notificationLink({
+        type: "job_closing_soon",
+        recipientId: "rec-1",
+        variables: { job_title: "Engineer", company: "Acme", closes_at: "Jan 1", applications: "2 applications", job_url: "not a url" },
+      })
+    ).toBeNull();
+  });
+
+  it("drops links that leave the app", () => {
+    for (const job_url of ["//evil.example.com/jobs", "/\\evil.example.com", "https://jobs.example.com//evil.example.com", "javascript:alert(1)"]) {
+      expect(
+        notificationLink({
+          type: "job_closed",
+          recipientId: "rec-1",
+          variables: { job_title: "Engineer", company: "Acme", job_url },
+        })
+      ).toBeNull();
+    }
+  });
+});
+
+describe("toNotificationViews", () => {
+  it("renders each type's message from its variables", () => {
+    const [view] = toNotificationViews([
+      row({
+        type: "status_changed",
+        variables: { job_title: "Frontend Engineer", status: "Interview" },
+        link: "/candidate",
+        read_at: "2025-12-30T11:00:00Z",
+      }),
+    ]);
+
+    expect(view).toMatchObject({
+      type: "status_changed",
+      message: "Your application to Frontend Engineer moved to Interview",
+      link: "/candidate",
+      read: true,
+    });
+  });
+
+  it("shows stored links that leave the app as plain entries", () => {
+    const [view] = toNotificationViews([row({ type: "status_changed", link: "//evil.example.com" })]);
+
+    expect(view.link).toBeNull();
+  });
+
+  it("collapses unread applications to the same job into one entry", () => {
+    const newest = row({ job_id: "job-1", variables: { candidate_name: "Ada", job_title: "Backend Engineer" }, link: "/recruiter/applications/a" });
+    const other = row({ job_id: "job-2", variables: { candidate_name: "Lin", job_title: "Designer" }, link: "/recruiter/applications/b" });
+    const second = row({ job_id: "job-1", variables: { candidate_name: "Grace", job_title: "Backend Engineer" } });
+    const third = row({ job_id: "job-1", variables: { candidate_name: "Alan", job_title: "Backend Engineer" } });
+    const seen = row({ job_id: "job-1", variables: { candidate_name: "Barbara", job_title: "Backend Engineer" }, read_at: "2025-12-30T11:00:00Z" });
+
+    const views = toNotificationViews([newest, other, second, third, seen]);
+
+    expect(views.map((v) => v.message)).toEqual([
+      "3 new applicants for Backend Engineer",
+      "Lin applied for Designer",
+      "Barbara applied for Backend Engineer",
+    ]);
+    expect(views[0]).toMatchObject({ ids: [newest.id, second.id, third.id], link: "/recruiter/jobs/job-1", read: false });
+    expect(views[1].link).toBe("/recruiter/applications/b");
+  });
+});
+
+describe("MarkNotificationsReadSchema", () => {
+  it("takes ids or all", () => {
+    expect(MarkNotificationsReadSchema.safeParse({ all: true }).success).toBe(true);
+    expect(MarkNotificationsReadSchema.safeParse({ ids: ["3f2b8c1e-2d4a-4b6f-9a1c-5e7d8f9a0b1c"] }).success).toBe(true);
+    expect(MarkNotificationsReadSchema.safeParse({ ids: [] }).success).toBe(false);
+    expect(MarkNotificationsReadSchema.safeParse({ ids: ["nope"] }).success).toBe(false);
+    expect(MarkNotificationsReadSchema.safeParse({}).success).toBe(false);
+  });
+});
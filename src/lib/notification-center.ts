@@ -0,0 +1,150 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { fillTemplate } from "@/lib/notifications";
+import type { NotificationEvent } from "@/lib/notifications";
+import type { Notification, NotificationType } from "@/lib/types/database";
+
+/**
+ * Notification Center
+ *
+ * The bell in the nav. sendNotifications() records every event it handles in
+ * the notifications table (migration 022), whether or not the recipient gets
+ * the email. Rows keep the event's variables; the one-line message is rendered
+ * here when the list is loaded, and unread "new application" rows for the same
+ * job collapse into one "3 new applicants for ..." entry.
+ *
+ * The bell polls GET /api/notifications?summary=1 for the unread count.
+ */
+
+// How often open pages check for new notifications
+export const NOTIFICATION_POLL_INTERVAL_MS = 30_000;
+
+// How many recent notifications the bell lists
+export const MAX_LISTED_NOTIFICATIONS = 50;
+
+// Plain text; values are shown as typed
+export const IN_APP_MESSAGES: Record<NotificationType, string> = {
+  application_received: "{{candidate_name}} applied for {{job_title}}",
+  status_changed: "Your application to {{job_title}} moved to {{status}}",
+  interview_scheduled: "Interview booked for {{job_title}}: {{time}}",
+  job_closing_soon: "{{job_title}} stops taking applications on {{closes_at}}",
+  job_closed: "{{job_title}} closed at its deadline",
+};
+
+// The variable holding each type's link; the notification opens the same page as the email
+const LINK_VARIABLES: Record<NotificationType, string> = {
+  application_received: "application_url",
+  status_changed: "dashboard_url",
+  interview_scheduled: "interview_url",
+  job_closing_soon: "job_url",
+  job_closed: "job_url",
+};
+
+// Same-origin paths only: "//host" and "/\host" open another site
+function isAppPath(path: string): boolean {
+  return /^\/(?![/\\])/.test(path);
+}
+
+/**
+ * App path an event's notification opens, taken from its email link
+ */
+export function notificationLink(event: NotificationEvent): string | null {
+  const url = (event.variables as Record<string, string>)[LINK_VARIABLES[event.type]];
+  if (!url) return null;
+  let path: string;
+  try {
+    const parsed = new URL(url);
+    path = `${parsed.pathname}${parsed.search}${parsed.hash}`;
+  } catch {
+    path = url;
+  }
+  return isAppPath(path) ? path : null;
+}
+
+export type NotificationView = {
+  // First row's id; ids lists every row the entry stands for
+  id: string;
+  ids: string[];
+  type: NotificationType;
+  message: string;
+  link: string | null;
+  read: boolean;
+  // Most recent row
+  createdAt: string;
+};
+
+/**
+ * Render rows (newest first) for the bell. Unread new applications to the same
+ * job become one entry linking to the job, placed where the newest one was.
+ */
+export function toNotificationViews(rows: Notification[]): NotificationView[] {
+  const views: NotificationView[] = [];
+  const applicants = new Map<string, { view: NotificationView; jobTitle: string }>();
+
+  for (const row of rows) {
+    const grouped = row.type === "application_received" && !row.read_at && row.job_id ? applicants.get(row.job_id) : undefined;
+    if (grouped) {
+      grouped.view.ids.push(row.id);
+      grouped.view.message = `${grouped.view.ids.length} new applicants for ${grouped.jobTitle}`;
+      grouped.view.link = `/recruiter/jobs/${row.job_id}`;
+      continue;
+    }
+
+    const view: NotificationView = {
+      id: row.id,
+      ids: [row.id],
+      type: row.type,
+      message: fillTemplate(IN_APP_MESSAGES[row.type], row.variables ?? {}),
+      link: row.link && isAppPath(row.link) ? row.link : null,
+      read: Boolean(row.read_at),
+      createdAt: row.created_at,
+    };
+    views.push(view);
+    if (row.type === "application_received" && !row.read_at && row.job_id) {
+      applicants.set(row.job_id, { view, jobTitle: row.variables?.job_title || "your job" });
+    }
+  }
+  return views;
+}
+
+/**
+ * A user's most recent notifications, newest first
+ */
+export async function loadNotifications(
+  supabase: SupabaseClient,
+  userId: string,
+  limit = MAX_LISTED_NOTIFICATIONS
+): Promise<Notification[]> {
+  const { data, error } = await supabase
+    .from("notifications")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(`Failed to load notifications: ${error.message}`);
+  return (data ?? []) as Notification[];
+}
+
+/**
+ * How many of a user's notifications are unread
+ */
+export async function countUnreadNotifications(supabase: SupabaseClient, userId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from("notifications")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .is("read_at", null);
+  if (error) throw new Error(`Failed to count notifications: ${error.message}`);
+  return count ?? 0;
+}
+
+// PATCH /api/notifications body: the rows to mark read, or all of them
+export const MarkNotificationsReadSchema = z
+  .object({
+    ids: z.array(z.string().uuid("Invalid notification id")).max(200, "Mark at most 200 notifications at a time").optional(),
+    all: z.literal(true).optional(),
+  })
+  .refine((body) => body.all || (body.ids && body.ids.length > 0), {
+    message: "Choose notifications to mark read",
+    path: ["ids"],
+  });
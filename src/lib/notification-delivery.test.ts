@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { createFileTransport, createOutboxTransport, sendNotifications } from "./notification-delivery";
+import type { EmailMessage, EmailTransport } from "./notification-delivery";
+import type { NotificationEvent } from "./notifications";
+
+const event = (recipientId: string): NotificationEvent => ({
+  type: "application_received",
+  recipientId,
+  variables: { candidate_name: "Ada", job_title: "Engineer", company: "Acme", application_url: "https://jobs.example.com/a" },
+});
+
+// notification_recipient() answers per recipient
+function mockSupabase(recipients: Record<string, { email: string; enabled: boolean } | { error: string }>) {
+  const insert = vi.fn().mockResolvedValue({ error: null });
+  const supabase = {
+    rpc: vi.fn(async (_name: string, args: { recipient: string }) => {
+      const row = recipients[args.recipient];
+      if (row && "error" in row) return { data: null, error: { message: row.error } };
+      return { data: row ? [row] : [], error: null };
+    }),
+    from: vi.fn(() => ({ insert })),
+  };
+  return { supabase: supabase as any, insert };
+}
+
+function recordingTransport(fail = false): EmailTransport & { sent: EmailMessage[] } {
+  const sent: EmailMessage[] = [];
+  return {
+    name: "test",
+    sent,
+    send: async (message) => {
+      if (fail) throw new Error("SMTP down");
+      sent.push(message);
+    },
+  };
+}
+
+describe("sendNotifications", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("sends to recipients who want the email and skips the rest", async () => {
+    const { supabase } = mockSupabase({
+      on: { email: "on@example.com", enabled: true },
+      off: { email: "off@example.com", enabled: false },
+    });
+    const transport = recordingTransport();
+
+    const result = await sendNotifications(supabase, [event("on"), event("off"), event("stranger")], { transport });
+
+    expect(result).toEqual({ recorded: 2, sent: 1, skipped: 2, failed: 0 });
+    expect(transport.sent).toEqual([
+      expect.objectContaining({ to: "on@example.com", recipientId: "on", type: "application_received", subject: "New application: Ada for Engineer" }),
+    ]);
+    expect(supabase.rpc).toHaveBeenCalledWith("notification_recipient", { recipient: "on", notification_event: "application_received" });
+  });
+
+  it("counts failures without throwing", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { supabase } = mockSupabase({ on: { email: "on@example.com", enabled: true }, broken: { error: "boom" } });
+
+    const result = await sendNotifications(supabase, [event("on"), event("broken")], { transport: recordingTransport(true) });
+
+    expect(result).toEqual({ recorded: 1, sent: 0, skipped: 0, failed: 2 });
+  });
+
+  it("lists every event in the recipient's notification center, emailed or not", async () => {
+    const { supabase, insert } = mockSupabase({ off: { email: "off@example.com", enabled: false } });
+
+    const result = await sendNotifications(
+      supabase,
+      [{ ...event("off"), applicationId: "app-1", jobId: "job-1" }],
+      { senderId: "cand-1", transport: recordingTransport() }
+    );
+
+    expect(result).toEqual({ recorded: 1, sent: 0, skipped: 1, failed: 0 });
+    expect(supabase.from).toHaveBeenCalledWith("notifications");
+    expect(insert).toHaveBeenCalledWith({
+      user_id: "off",
+      type: "application_received",
+      variables: expect.objectContaining({ candidate_name: "Ada" }),
+      link: "/a",
+      application_id: "app-1",
+      job_id: "job-1",
+      actor_id: "cand-1",
+    });
+  });
+
+  it("still emails when the in-app notification can't be saved", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { supabase, insert } = mockSupabase({ on: { email: "on@example.com", enabled: true } });
+    insert.mockResolvedValue({ error: { message: "denied" } });
+    const transport = recordingTransport();
+
+    const result = await sendNotifications(supabase, [event("on")], { transport });
+
+    expect(result).toEqual({ recorded: 0, sent: 1, skipped: 0, failed: 0 });
+    expect(transport.sent).toHaveLength(1);
+  });
+
+  it("queues in the outbox by default", async () => {
+    const { supabase, insert } = mockSupabase({ on: { email: "on@example.com", enabled: true } });
+
+    await sendNotifications(supabase, [event("on")], { senderId: "cand-1" });
+
+    expect(supabase.from).toHaveBeenCalledWith("email_outbox");
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({ recipient_id: "on", to_address: "on@example.com", event: "application_received", created_by: "cand-1" })
+    );
+  });
+});
+
+describe("transports", () => {
+  it("reports outbox insert errors", async () => {
+    const supabase = { from: vi.fn(() => ({ insert: vi.fn().mockResolvedValue({ error: { message: "denied" } }) })) };
+    const transport = createOutboxTransport(supabase as any, null);
+
+    await expect(
+      transport.send({ to: "a@example.com", recipientId: "a", type: "status_changed", subject: "s", text: "t", html: "h" })
+    ).rejects.toThrow("Failed to queue email: denied");
+  });
+
+  it("writes one JSON file per email", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "outbox-"));
+    try {
+      const message: EmailMessage = { to: "a@example.com", recipientId: "a", type: "status_changed", subject: "s", text: "t", html: "h" };
+      await createFileTransport(dir).send(message);
+
+      const files = await fs.readdir(dir);
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatch(/status_changed.*\.json$/);
+      expect(JSON.parse(await fs.readFile(path.join(dir, files[0]), "utf-8"))).toEqual(message);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
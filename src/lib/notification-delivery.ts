@@ -0,0 +1,185 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { notificationLink } from "@/lib/notification-center";
+import { renderNotification } from "@/lib/notifications";
+import type { NotificationEvent, NotificationType } from "@/lib/notifications";
+
+/**
+ * Notification Delivery (server only)
+ *
+ * sendNotifications() looks up each recipient through notification_recipient()
+ * (migration 021), which also says whether they turned that email off, then
+ * renders the email and hands it to a transport. Each event is also recorded
+ * in the notifications table for the bell (migration 022), emailed or not.
+ *
+ * Transports are pluggable. EMAIL_TRANSPORT picks one:
+ * - "outbox" (default): queue in the email_outbox table for a delivery worker
+ * - "file": write each email as JSON under EMAIL_OUTBOX_DIR (default data/outbox) for local development
+ * - "log": print a line to the server log
+ * Tests pass their own transport.
+ */
+
+export type EmailMessage = {
+  to: string;
+  recipientId: string;
+  type: NotificationType;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+export type EmailTransport = {
+  name: string;
+  send: (message: EmailMessage) => Promise<void>;
+};
+
+export type DeliveryResult = {
+  // Listed in the recipient's notification center
+  recorded: number;
+  sent: number;
+  // Opted out, or no address the sender may use
+  skipped: number;
+  failed: number;
+};
+
+/**
+ * Queue emails in email_outbox
+ * @param senderId - User whose action triggered the email; null for scheduled jobs (service role)
+ */
+export function createOutboxTransport(supabase: SupabaseClient, senderId: string | null): EmailTransport {
+  return {
+    name: "outbox",
+    send: async (message) => {
+      const { error } = await supabase.from("email_outbox").insert({
+        recipient_id: message.recipientId,
+        to_address: message.to,
+        event: message.type,
+        subject: message.subject,
+        text_body: message.text,
+        html_body: message.html,
+        created_by: senderId,
+      });
+      if (error) throw new Error(`Failed to queue email: ${error.message}`);
+    },
+  };
+}
+
+/**
+ * Write each email to its own JSON file in a directory
+ */
+export function createFileTransport(dir: string): EmailTransport {
+  return {
+    name: "file",
+    send: async (message) => {
+      await fs.mkdir(dir, { recursive: true });
+      const name = `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.type}-${Math.random().toString(36).slice(2, 8)}.json`;
+      await fs.writeFile(path.join(dir, name), JSON.stringify(message, null, 2), "utf-8");
+    },
+  };
+}
+
+/**
+ * Log each email instead of sending it
+ */
+export function createLogTransport(): EmailTransport {
+  return {
+    name: "log",
+    send: async (message) => {
+      console.info(`[email] ${message.type} to ${message.to}: ${message.subject}`);
+    },
+  };
+}
+
+/**
+ * The transport EMAIL_TRANSPORT selects
+ */
+export function emailTransportFromEnv(supabase: SupabaseClient, senderId: string | null): EmailTransport {
+  switch (process.env.EMAIL_TRANSPORT) {
+    case "file":
+      return createFileTransport(process.env.EMAIL_OUTBOX_DIR || path.join(process.cwd(), "data", "outbox"));
+    case "log":
+      return createLogTransport();
+    default:
+      return createOutboxTransport(supabase, senderId);
+  }
+}
+
+/**
+ * Record the in-app notification for an event
+ */
+async function recordNotification(
+  supabase: SupabaseClient,
+  event: NotificationEvent,
+  actorId: string | null
+): Promise<boolean> {
+  const { error } = await supabase.from("notifications").insert({
+    user_id: event.recipientId,
+    type: event.type,
+    variables: event.variables,
+    link: notificationLink(event),
+    application_id: event.applicationId ?? null,
+    job_id: event.jobId ?? null,
+    actor_id: actorId,
+  });
+  if (error) {
+    console.error(`Failed to record ${event.type} notification for ${event.recipientId}:`, error);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Notify each event's recipient in the app and, unless they opted out, by
+ * email. Failures are logged and counted, never thrown, so a notification
+ * problem doesn't fail the request that caused it.
+ * @param supabase - The caller's client, or the service role for scheduled jobs
+ * @param options.senderId - User whose action triggered the events
+ * @param options.transport - Defaults to emailTransportFromEnv()
+ */
+export async function sendNotifications(
+  supabase: SupabaseClient,
+  events: NotificationEvent[],
+  options: { senderId?: string | null; transport?: EmailTransport } = {}
+): Promise<DeliveryResult> {
+  const result: DeliveryResult = { recorded: 0, sent: 0, skipped: 0, failed: 0 };
+  if (events.length === 0) return result;
+
+  let transport: EmailTransport | null = null;
+  try {
+    transport = options.transport ?? emailTransportFromEnv(supabase, options.senderId ?? null);
+  } catch (error) {
+    console.error("Failed to set up email transport:", error);
+  }
+
+  for (const event of events) {
+    try {
+      const { data, error } = await supabase.rpc("notification_recipient", {
+        recipient: event.recipientId,
+        notification_event: event.type,
+      });
+      if (error) throw new Error(error.message);
+      const recipient = (Array.isArray(data) ? data[0] : data) as { email: string | null; enabled: boolean } | null;
+      // Not someone the sender may notify
+      if (!recipient) {
+        result.skipped++;
+        continue;
+      }
+
+      if (await recordNotification(supabase, event, options.senderId ?? null)) result.recorded++;
+      if (!recipient.email || !recipient.enabled) {
+        result.skipped++;
+        continue;
+      }
+      if (!transport) throw new Error("No email transport");
+
+      const email = renderNotification(event);
+      await transport.send({ to: recipient.email, recipientId: event.recipientId, type: event.type, ...email });
+      result.sent++;
+    } catch (error) {
+      console.error(`Failed to send ${event.type} notification to ${event.recipientId}:`, error);
+      result.failed++;
+    }
+  }
+  return result;
+}
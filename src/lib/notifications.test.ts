@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { fillTemplate, renderNotification } from "./notifications";
+
+describe("notifications", () => {
+  it("fills known variables and leaves unknown ones", () => {
+    expect(fillTemplate("Hi {{ name }}, {{other}}", { name: "Ada" })).toBe("Hi Ada, {{other}}");
+  });
+
+  it("renders a subject, a Markdown text body and an HTML body", () => {
+    const email = renderNotification({
+      type: "status_changed",
+      recipientId: "cand-1",
+      variables: {
+        candidate_name: "Ada",
+        job_title: "Engineer",
+        company: "Acme",
+        status: "Interview",
+        dashboard_url: "https://jobs.example.com/candidate",
+      },
+    });
+
+    expect(email.subject).toBe("Your application for Engineer at Acme: Interview");
+    expect(email.text).toContain("Your application for **Engineer** at Acme is now **Interview**.");
+    expect(email.text).toContain("[View your applications](https://jobs.example.com/candidate)");
+    expect(email.html).toContain("<strong>Engineer</strong>");
+    expect(email.html).toContain('<a href="https://jobs.example.com/candidate">View your applications</a>');
+  });
+
+  it("shows variable values as typed instead of as Markdown or HTML", () => {
+    const email = renderNotification({
+      type: "application_received",
+      recipientId: "rec-1",
+      variables: {
+        candidate_name: "<img src=x> [win](https://evil.example) {{job_title}}",
+        job_title: "Engineer",
+        company: "Acme",
+        application_url: "https://jobs.example.com/recruiter/applications/app-1",
+      },
+    });
+
+    expect(email.html).toContain("&lt;img src=x&gt; [win](https://evil.example) {{job_title}}");
+    expect(email.html).not.toContain("evil.example\"");
+    expect(email.subject).toBe("New application: <img src=x> [win](https://evil.example) {{job_title}} for Engineer");
+  });
+});
@@ -0,0 +1,190 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { markdownToHtml } from "@/lib/markdown";
+import { getSiteUrl } from "@/lib/url";
+import type { NotificationType } from "@/lib/types/database";
+
+/**
+ * Notifications
+ *
+ * Typed events the app emails people about. Each type has a Markdown template
+ * with {{variables}}; renderNotification() fills it into a subject, a plain
+ * text body (the Markdown itself) and an HTML body. Users opt out per type in
+ * notification_preferences (migration 021).
+ *
+ * Sending lives in notification-delivery.ts, which is server-only. Every event
+ * is also listed in the app (notification-center.ts).
+ */
+
+export type { NotificationType };
+
+export const NOTIFICATION_TYPES = [
+  "application_received",
+  "status_changed",
+  "interview_scheduled",
+  "job_closing_soon",
+  "job_closed",
+] as const satisfies readonly NotificationType[];
+
+// Labels for the preference checkboxes
+export const NOTIFICATION_LABELS: Record<NotificationType, string> = {
+  application_received: "Someone applies to one of my jobs",
+  status_changed: "My application status changes",
+  interview_scheduled: "An interview is booked",
+  job_closing_soon: "One of my jobs is about to stop taking applications",
+  job_closed: "One of my jobs closed at its deadline",
+};
+
+// Who receives each type; preference screens only list the user's own
+export const NOTIFICATION_AUDIENCE: Record<NotificationType, ("candidate" | "recruiter")[]> = {
+  application_received: ["recruiter"],
+  status_changed: ["candidate"],
+  interview_scheduled: ["candidate", "recruiter"],
+  job_closing_soon: ["recruiter"],
+  job_closed: ["recruiter"],
+};
+
+// Template variables per type. *_url values are links the app builds itself.
+export type NotificationVariables = {
+  application_received: { candidate_name: string; job_title: string; company: string; application_url: string };
+  status_changed: { candidate_name: string; job_title: string; company: string; status: string; dashboard_url: string };
+  interview_scheduled: {
+    candidate_name: string;
+    job_title: string;
+    company: string;
+    time: string;
+    location: string;
+    interview_url: string;
+  };
+  job_closing_soon: { job_title: string; company: string; closes_at: string; applications: string; job_url: string };
+  job_closed: { job_title: string; company: string; job_url: string };
+};
+
+// applicationId and jobId tie the in-app notification to what it's about
+export type NotificationEvent = {
+  [T in NotificationType]: {
+    type: T;
+    recipientId: string;
+    variables: NotificationVariables[T];
+    applicationId?: string;
+    jobId?: string;
+  };
+}[NotificationType];
+
+export type NotificationTemplate = {
+  subject: string;
+  // Markdown
+  body: string;
+};
+
+export const NOTIFICATION_TEMPLATES: Record<NotificationType, NotificationTemplate> = {
+  application_received: {
+    subject: "New application: {{candidate_name}} for {{job_title}}",
+    body: `**{{candidate_name}}** applied for **{{job_title}}** at {{company}}.
+
+[Review the application]({{application_url}})`,
+  },
+  status_changed: {
+    subject: "Your application for {{job_title}} at {{company}}: {{status}}",
+    body: `Hi {{candidate_name}},
+
+Your application for **{{job_title}}** at {{company}} is now **{{status}}**.
+
+[View your applications]({{dashboard_url}})`,
+  },
+  interview_scheduled: {
+    subject: "Interview booked: {{job_title}} at {{company}}",
+    body: `An interview for **{{job_title}}** at {{company}} is booked.
+
+- Candidate: {{candidate_name}}
+- When: {{time}}
+- Where: {{location}}
+
+[Interview details]({{interview_url}})`,
+  },
+  job_closing_soon: {
+    subject: "{{job_title}} stops taking applications on {{closes_at}}",
+    body: `Your posting **{{job_title}}** at {{company}} stops taking applications on {{closes_at}}. It has {{applications}} so far.
+
+Extend the deadline if you'd like more applicants.
+
+[Open the job]({{job_url}})`,
+  },
+  job_closed: {
+    subject: "{{job_title}} closed at its deadline",
+    body: `Your posting **{{job_title}}** at {{company}} reached its deadline and no longer takes applications.
+
+Reopen it with a new deadline if you're still hiring.
+
+[Open the job]({{job_url}})`,
+  },
+};
+
+const EMAIL_FOOTER = "You can choose which emails you get from your profile.";
+
+export type RenderedEmail = {
+  subject: string;
+  text: string;
+  html: string;
+};
+
+/**
+ * Fill {{placeholders}}. Unknown placeholders are left as written.
+ */
+export function fillTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*([a-z_]+)\s*\}\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match
+  );
+}
+
+/**
+ * Render a notification's email. Variable values are filled in after the
+ * Markdown is parsed, so a name like "**Admin**" shows as typed rather than
+ * formatting the email; only the app's own links go through the parser.
+ */
+export function renderNotification(event: NotificationEvent): RenderedEmail {
+  const template = NOTIFICATION_TEMPLATES[event.type];
+  const variables: Record<string, string> = event.variables;
+  const links = Object.fromEntries(Object.entries(variables).filter(([name]) => name.endsWith("_url")));
+  const body = `${template.body}\n\n---\n${EMAIL_FOOTER}`;
+  return {
+    subject: fillTemplate(template.subject, variables).replace(/\s+/g, " ").trim(),
+    text: fillTemplate(body, variables),
+    html: markdownToHtml(fillTemplate(`${template.body}\n\n_${EMAIL_FOOTER}_`, links), (text) => fillTemplate(text, variables)),
+  };
+}
+
+/**
+ * Absolute link to a page of the app for emails
+ */
+export function appUrl(path: string): string {
+  return `${getSiteUrl()}${path}`;
+}
+
+// PUT /api/notifications/preferences body; types left out keep their setting
+export const NotificationPreferencesSchema = z.object({
+  email: z.partialRecord(z.enum(NOTIFICATION_TYPES), z.boolean()),
+});
+
+export type NotificationPreferences = Record<NotificationType, boolean>;
+
+/**
+ * A user's email preferences, with every type on unless they opted out
+ */
+export async function loadNotificationPreferences(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<NotificationPreferences> {
+  const preferences = Object.fromEntries(NOTIFICATION_TYPES.map((type) => [type, true])) as NotificationPreferences;
+  const { data, error } = await supabase
+    .from("notification_preferences")
+    .select("event, email_enabled")
+    .eq("user_id", userId);
+  if (error) {
+    console.error("Failed to load notification preferences:", error);
+  }
+  for (const row of (data ?? []) as { event: NotificationType; email_enabled: boolean }[]) {
+    if (row.event in preferences) preferences[row.event] = row.email_enabled;
+  }
+  return preferences;
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { OfferInputSchema, competingDeadlines, countdown, offerResponseStage, toOfferView } from "./offers";
+import { DEFAULT_PIPELINE } from "./pipeline";
+import type { Offer } from "@/lib/types/database";
+
+const now = new Date("2025-12-24T12:00:00Z");
+
+function offer(overrides: Partial<Offer> = {}): Offer {
+  return {
+    id: "offer-1",
+    application_id: "app-1",
+    created_by: "rec-1",
+    status: "extended",
+    salary_amount: 120000,
+    salary_currency: "USD",
+    salary_period: "yearly",
+    signing_bonus: null,
+    equity: null,
+    start_date: "2026-02-01",
+    expires_at: "2025-12-31T17:00:00Z",
+    message: null,
+    letter_path: null,
+    letter_name: null,
+    letter_mime: null,
+    letter_size: null,
+    responded_at: null,
+    response_note: null,
+    withdrawn_at: null,
+    created_at: "2025-12-24T09:00:00Z",
+    updated_at: "2025-12-24T09:00:00Z",
+    ...overrides,
+  };
+}
+
+describe("offers", () => {
+  it("shows open offers past their expiry as expired and links the letter", () => {
+    const view = toOfferView(offer({ letter_path: "rec-1/offers/app-1/letter.pdf", letter_name: "letter.pdf" }), now);
+    expect(view).toMatchObject({ state: "extended", compensation: "$120,000 per year" });
+    expect(view.letter?.url).toBe("/api/applications/app-1/offers/offer-1/letter");
+
+    expect(toOfferView(offer({ expires_at: "2025-12-24T11:59:00Z" }), now).state).toBe("expired");
+    expect(toOfferView(offer({ status: "accepted", expires_at: "2025-12-01T00:00:00Z" }), now).state).toBe("accepted");
+  });
+
+  it("counts down with the recruiter deadline urgency bands", () => {
+    expect(countdown("2025-12-24T11:00:00Z", now)).toMatchObject({ label: "Expired", urgency: "expired" });
+    expect(countdown("2025-12-24T17:30:00Z", now)).toMatchObject({ label: "5 hours left", urgency: "urgent" });
+    expect(countdown("2025-12-26T15:00:00Z", now)).toMatchObject({ label: "2 days 3h left", urgency: "urgent" });
+    expect(countdown("2025-12-29T12:00:00Z", now)).toMatchObject({ label: "5 days left", urgency: "soon" });
+    expect(countdown("2026-01-10T12:00:00Z", now).urgency).toBe("ok");
+  });
+
+  it("sorts upcoming competing deadlines and runs the profile date to the end of its day", () => {
+    expect(
+      competingDeadlines(["2025-12-30T09:00:00Z", "2025-12-20T09:00:00Z"], "2025-12-27T00:00:00.000Z", now)
+    ).toEqual([
+      { source: "profile", at: "2025-12-27T23:59:59.999Z" },
+      { source: "offer", at: "2025-12-30T09:00:00Z" },
+    ]);
+    expect(competingDeadlines([], "2025-12-24", now)).toEqual([{ source: "profile", at: "2025-12-24T23:59:59.999Z" }]);
+    expect(competingDeadlines([], null, now)).toEqual([]);
+  });
+
+  it("validates offer fields and answers into the pipeline's terminal stages", () => {
+    const parsed = OfferInputSchema.safeParse({
+      salaryAmount: "95000",
+      salaryCurrency: "eur",
+      startDate: "2026-03-01",
+      expiresAt: new Date(Date.now() + 86_400_000).toISOString(),
+    });
+    expect(parsed.success && parsed.data).toMatchObject({ salaryAmount: 95000, salaryCurrency: "EUR", salaryPeriod: "yearly" });
+
+    const invalid = OfferInputSchema.safeParse({ salaryAmount: "0", startDate: "March 1", expiresAt: "2020-01-01T00:00:00Z" });
+    expect(invalid.success).toBe(false);
+    expect(Object.keys(invalid.error!.flatten().fieldErrors).sort()).toEqual(["expiresAt", "salaryAmount", "startDate"]);
+
+    expect(offerResponseStage(DEFAULT_PIPELINE, true)?.status).toBe("hired");
+    expect(offerResponseStage(DEFAULT_PIPELINE, false)?.status).toBe("rejected");
+  });
+});
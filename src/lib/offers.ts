@@ -0,0 +1,319 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { deadlineEndsAt } from "@/lib/job-deadlines";
+import { jobRole } from "@/lib/organizations";
+import { DEFAULT_CURRENCY, MAX_SALARY_AMOUNT, SALARY_PERIODS, formatSalaryRange, isIsoCurrency } from "@/lib/salary";
+import type {
+  Application,
+  Job,
+  Offer,
+  OfferStatus,
+  OrganizationRole,
+  PipelineStage,
+  SalaryPeriod,
+} from "@/lib/types/database";
+
+/**
+ * Offers
+ *
+ * Once an application reaches an Offer stage, the hiring team extends an offer
+ * on it: compensation, start date, an expiry and optionally a letter (checked
+ * like a resume upload and kept in the private resumes bucket). An application
+ * has at most one open offer; extending a new one means withdrawing the old.
+ *
+ * The candidate accepts or declines from their dashboard. respond_to_offer()
+ * (migration 019) records the answer and moves the application to the job's
+ * Hired or Rejected stage, so candidates never get a general right to change
+ * their own status (see STATUS_TRANSITIONS).
+ *
+ * Expired isn't stored: an extended offer past expires_at is expired. The
+ * hiring team's countdown compares the expiry with the candidate's competing
+ * deadlines: their other open offers in the app (competing_offer_deadlines())
+ * and the profile-wide offer_deadline they report for offers elsewhere.
+ */
+
+// An offer's status as shown: extended offers past their expiry are expired
+export type OfferState = OfferStatus | "expired";
+
+export const OFFER_STATE_LABELS: Record<OfferState, string> = {
+  extended: "Awaiting response",
+  accepted: "Accepted",
+  declined: "Declined",
+  withdrawn: "Withdrawn",
+  expired: "Expired",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+const Amount = z.coerce
+  .number()
+  .finite("Enter a number")
+  .max(MAX_SALARY_AMOUNT, "Amount is too large");
+
+const DateOnly = z
+  .string()
+  .trim()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Enter a date as YYYY-MM-DD")
+  .refine((value) => !Number.isNaN(Date.parse(value)), "Enter a valid date");
+
+/**
+ * Offer fields from the create form. Empty optional fields are left out.
+ */
+export const OfferInputSchema = z.object({
+  salaryAmount: Amount.positive("Salary must be greater than 0"),
+  salaryCurrency: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .default(DEFAULT_CURRENCY)
+    .refine(isIsoCurrency, "Enter an ISO 4217 currency code"),
+  salaryPeriod: z.enum(SALARY_PERIODS as [SalaryPeriod, ...SalaryPeriod[]]).default("yearly"),
+  signingBonus: Amount.nonnegative("Signing bonus can't be negative").optional(),
+  equity: z.string().trim().max(200, "Equity must be 200 characters or less").optional(),
+  startDate: DateOnly,
+  expiresAt: z
+    .string()
+    .trim()
+    .refine((value) => !Number.isNaN(Date.parse(value)), "Enter a valid date and time")
+    .refine((value) => Date.parse(value) > Date.now(), "Expiry must be in the future"),
+  message: z.string().trim().max(2000, "Message must be 2000 characters or less").optional(),
+});
+
+export type OfferInput = z.infer<typeof OfferInputSchema>;
+
+export const OfferActionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("accept") }),
+  z.object({
+    action: z.literal("decline"),
+    note: z.string().trim().max(500, "Reason must be 500 characters or less").optional(),
+  }),
+  z.object({ action: z.literal("withdraw") }),
+]);
+
+export type OfferLetterView = {
+  name: string;
+  mimeType: string | null;
+  size: number | null;
+  url: string;
+};
+
+/**
+ * Offer as returned by the API
+ */
+export type OfferView = {
+  id: string;
+  applicationId: string;
+  state: OfferState;
+  salaryAmount: number;
+  salaryCurrency: string;
+  salaryPeriod: Offer["salary_period"];
+  // "$120,000 per year"
+  compensation: string;
+  signingBonus: number | null;
+  equity: string | null;
+  startDate: string;
+  expiresAt: string;
+  message: string | null;
+  letter: OfferLetterView | null;
+  respondedAt: string | null;
+  responseNote: string | null;
+  createdAt: string;
+};
+
+export type DeadlineUrgency = "expired" | "urgent" | "soon" | "ok";
+
+export type Countdown = {
+  // Milliseconds left; negative once passed
+  remainingMs: number;
+  // "3 days left", "5 hours left", "Expired"
+  label: string;
+  urgency: DeadlineUrgency;
+};
+
+export type CompetingDeadline = {
+  // offer: another open offer in the app; profile: the deadline on the candidate's profile
+  source: "offer" | "profile";
+  at: string;
+};
+
+/**
+ * Download route for an offer's letter
+ */
+export function offerLetterPath(applicationId: string, offerId: string): string {
+  return `/api/applications/${encodeURIComponent(applicationId)}/offers/${encodeURIComponent(offerId)}/letter`;
+}
+
+/**
+ * Status of an offer as shown, treating open offers past their expiry as expired
+ */
+export function offerState(offer: Pick<Offer, "status" | "expires_at">, now: Date = new Date()): OfferState {
+  return offer.status === "extended" && Date.parse(offer.expires_at) <= now.getTime() ? "expired" : offer.status;
+}
+
+/**
+ * Shape an offer row for the API
+ */
+export function toOfferView(row: Offer, now: Date = new Date()): OfferView {
+  const salaryAmount = Number(row.salary_amount);
+  return {
+    id: row.id,
+    applicationId: row.application_id,
+    state: offerState(row, now),
+    salaryAmount,
+    salaryCurrency: row.salary_currency,
+    salaryPeriod: row.salary_period,
+    compensation:
+      formatSalaryRange({
+        salary_min: salaryAmount,
+        salary_max: salaryAmount,
+        salary_currency: row.salary_currency,
+        salary_period: row.salary_period,
+      }) ?? "",
+    signingBonus: row.signing_bonus == null ? null : Number(row.signing_bonus),
+    equity: row.equity,
+    startDate: row.start_date,
+    expiresAt: row.expires_at,
+    message: row.message,
+    letter: row.letter_path
+      ? {
+          name: row.letter_name ?? "Offer letter",
+          mimeType: row.letter_mime,
+          size: row.letter_size,
+          url: offerLetterPath(row.application_id, row.id),
+        }
+      : null,
+    respondedAt: row.responded_at,
+    responseNote: row.response_note,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Time left until a deadline, with the same urgency bands as the recruiter
+ * pages' offer deadline badge (3 days urgent, a week soon)
+ */
+export function countdown(deadline: string, now: Date = new Date()): Countdown {
+  const remainingMs = Date.parse(deadline) - now.getTime();
+  if (remainingMs <= 0) return { remainingMs, label: "Expired", urgency: "expired" };
+
+  const days = Math.floor(remainingMs / DAY_MS);
+  const hours = Math.floor((remainingMs % DAY_MS) / HOUR_MS);
+  const label =
+    days >= 1
+      ? `${days} day${days === 1 ? "" : "s"}${days < 3 && hours > 0 ? ` ${hours}h` : ""} left`
+      : hours >= 1
+        ? `${hours} hour${hours === 1 ? "" : "s"} left`
+        : `${Math.max(1, Math.ceil(remainingMs / 60000))} min left`;
+  const urgency: DeadlineUrgency = remainingMs <= 3 * DAY_MS ? "urgent" : remainingMs <= 7 * DAY_MS ? "soon" : "ok";
+  return { remainingMs, label, urgency };
+}
+
+/**
+ * The candidate's competing deadlines that haven't passed, soonest first
+ * @param offerDeadlines - Expiry of their other open offers in the app
+ * @param profileDeadline - candidate_profiles.offer_deadline
+ */
+export function competingDeadlines(
+  offerDeadlines: string[],
+  profileDeadline: string | null | undefined,
+  now: Date = new Date()
+): CompetingDeadline[] {
+  const all: CompetingDeadline[] = offerDeadlines.map((at) => ({ source: "offer", at }));
+  // The profile page saves a date as midnight UTC; it runs to the end of that day
+  const profileEndsAt = deadlineEndsAt(profileDeadline?.replace(/T00:00:00(\.0+)?(Z|\+00:00)$/, ""));
+  if (profileEndsAt) all.push({ source: "profile", at: profileEndsAt.toISOString() });
+  return all
+    .filter((d) => !Number.isNaN(Date.parse(d.at)) && Date.parse(d.at) > now.getTime())
+    .sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+}
+
+/**
+ * Stage the application moves to when the candidate answers an offer: the job's
+ * first Hired stage on accept, its first Rejected stage on decline
+ */
+export function offerResponseStage(stages: PipelineStage[], accept: boolean): PipelineStage | null {
+  const status = accept ? "hired" : "rejected";
+  return stages.find((s) => s.status === status) ?? null;
+}
+
+export type OfferAccess = {
+  application: Pick<Application, "id" | "job_id" | "candidate_id" | "status" | "stage_id">;
+  job: Pick<Job, "id" | "title" | "company" | "employer_id" | "organization_id" | "pipeline_stages">;
+  // The caller applied; otherwise role is their role on the job
+  isCandidate: boolean;
+  role: OrganizationRole | null;
+};
+
+/**
+ * Load an application and the caller's relationship to it
+ * @returns Access details, or null when the application doesn't exist or the caller isn't involved
+ */
+export async function loadOfferAccess(
+  supabase: SupabaseClient,
+  userId: string,
+  applicationId: string
+): Promise<OfferAccess | null> {
+  const { data: application } = await supabase
+    .from("applications")
+    .select("id, job_id, candidate_id, status, stage_id")
+    .eq("id", applicationId)
+    .maybeSingle();
+  if (!application) return null;
+
+  const { data: job } = await supabase
+    .from("jobs")
+    .select("id, title, company, employer_id, organization_id, pipeline_stages")
+    .eq("id", application.job_id)
+    .maybeSingle();
+  if (!job) return null;
+
+  if (application.candidate_id === userId) {
+    return { application, job, isCandidate: true, role: null };
+  }
+  const role = await jobRole(supabase, userId, job);
+  return role ? { application, job, isCandidate: false, role } : null;
+}
+
+/**
+ * An application's offers, newest first
+ */
+export async function loadOffers(supabase: SupabaseClient, applicationId: string): Promise<OfferView[]> {
+  const { data, error } = await supabase
+    .from("offers")
+    .select("*")
+    .eq("application_id", applicationId)
+    .order("created_at", { ascending: false });
+  if (error) {
+    console.error("Failed to load offers:", error);
+  }
+  const now = new Date();
+  return ((data ?? []) as Offer[]).map((row) => toOfferView(row, now));
+}
+
+/**
+ * The candidate's competing deadlines, for the hiring team of one of their applications
+ */
+export async function loadCompetingDeadlines(
+  supabase: SupabaseClient,
+  access: OfferAccess
+): Promise<CompetingDeadline[]> {
+  const [{ data: offerRows, error }, { data: profile }] = await Promise.all([
+    supabase.rpc("competing_offer_deadlines", { app_id: access.application.id }),
+    access.application.candidate_id
+      ? supabase
+          .from("candidate_profiles")
+          .select("offer_deadline")
+          .eq("user_id", access.application.candidate_id)
+          .maybeSingle()
+      : Promise.resolve({ data: null }),
+  ]);
+  if (error) {
+    console.error("Failed to load competing offer deadlines:", error);
+  }
+  // SETOF timestamptz comes back as bare strings or single-column rows
+  const offerDeadlines = ((offerRows ?? []) as (string | Record<string, string>)[]).map((row) =>
+    typeof row === "string" ? row : Object.values(row)[0]
+  );
+  return competingDeadlines(offerDeadlines, (profile as { offer_deadline: string | null } | null)?.offer_deadline);
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  InviteSchema,
+  canManageJobs,
+  canManageMembers,
+  canMoveApplications,
+  inviteLink,
+  isLastAdmin,
+  jobRecipients,
+  jobRole,
+  recruiterJobsFilter,
+} from "./organizations";
+import type { OrganizationMember } from "@/lib/types/database";
+
+function member(userId: string, role: OrganizationMember["role"], organizationId = "org-1"): OrganizationMember {
+  return { id: `m-${userId}`, organization_id: organizationId, user_id: userId, role, created_at: "2025-12-01T00:00:00Z" };
+}
+
+// organization_members lookup by user_id
+function createFakeSupabase(memberships: OrganizationMember[]) {
+  const from = vi.fn(() => {
+    let rows = memberships;
+    const query = {
+      select: vi.fn(() => query),
+      eq: vi.fn((column: string, value: unknown) => {
+        rows = rows.filter((m) => m[column as keyof OrganizationMember] === value);
+        return query;
+      }),
+      maybeSingle: vi.fn(async () => ({ data: rows[0] ?? null, error: null })),
+    };
+    return query;
+  });
+  return { supabase: { from } as any, from };
+}
+
+describe("organization roles", () => {
+  it("grants each role its permissions", () => {
+    expect(["admin", "recruiter", "hiring_manager", "viewer"].map((role) => canManageJobs(role as never))).toEqual([true, true, false, false]);
+    expect(["admin", "recruiter", "hiring_manager", "viewer"].map((role) => canMoveApplications(role as never))).toEqual([true, true, true, false]);
+    expect(["admin", "recruiter", "hiring_manager", "viewer"].map((role) => canManageMembers(role as never))).toEqual([true, false, false, false]);
+    expect(canMoveApplications(null)).toBe(false);
+  });
+
+  it("resolves a member's role on their organization's jobs only", async () => {
+    const { supabase } = createFakeSupabase([member("u1", "hiring_manager"), member("u2", "admin", "org-2")]);
+    const job = { employer_id: "someone-else", organization_id: "org-1" };
+
+    expect(await jobRole(supabase, "u1", job)).toBe("hiring_manager");
+    expect(await jobRole(supabase, "u2", job)).toBeNull();
+    expect(await jobRole(supabase, "u3", job)).toBeNull();
+  });
+
+  it("treats the creator of a legacy job as its admin without a membership lookup", async () => {
+    const { supabase, from } = createFakeSupabase([]);
+    expect(await jobRole(supabase, "u1", { employer_id: "u1", organization_id: null })).toBe("admin");
+    expect(await jobRole(supabase, "u2", { employer_id: "u1" })).toBeNull();
+    expect(from).not.toHaveBeenCalled();
+  });
+
+  it("notifies the organization's members with the right role, or a legacy job's creator", async () => {
+    const team = [member("a", "admin"), member("r", "recruiter"), member("h", "hiring_manager"), member("v", "viewer")];
+    const rpc = vi.fn(async () => ({ data: team.map(({ user_id, role }) => ({ user_id, role })), error: null }));
+    const supabase = { rpc } as any;
+    const job = { id: "job-1", employer_id: "gone", organization_id: "org-1" };
+
+    expect(await jobRecipients(supabase, job, canManageJobs)).toEqual(["a", "r"]);
+    expect(await jobRecipients(supabase, job, canMoveApplications)).toEqual(["a", "r", "h"]);
+    expect(rpc).toHaveBeenCalledWith("job_hiring_team", { target_job: "job-1" });
+    rpc.mockClear();
+    expect(await jobRecipients(supabase, { id: "job-2", employer_id: "u1", organization_id: null }, canManageJobs)).toEqual(["u1"]);
+    expect(await jobRecipients(supabase, { id: "job-3", employer_id: null }, canManageJobs)).toEqual([]);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it("lists the organization's jobs plus the recruiter's legacy jobs", () => {
+    expect(recruiterJobsFilter("u1", member("u1", "viewer"))).toBe("organization_id.eq.org-1,and(organization_id.is.null,employer_id.eq.u1)");
+    expect(recruiterJobsFilter("u1", null)).toBe("and(organization_id.is.null,employer_id.eq.u1)");
+  });
+
+  it("spots the last admin", () => {
+    const team = [member("a", "admin"), member("b", "recruiter")];
+    expect(isLastAdmin(team, "a")).toBe(true);
+    expect(isLastAdmin(team, "b")).toBe(false);
+    expect(isLastAdmin([...team, member("c", "admin")], "a")).toBe(false);
+  });
+
+  it("normalizes invites and links them to recruiter sign-up", () => {
+    expect(InviteSchema.parse({ email: " Sam@Example.COM ", role: "viewer" })).toEqual({ email: "sam@example.com", role: "viewer" });
+    expect(InviteSchema.safeParse({ email: "sam@example.com", role: "owner" }).success).toBe(false);
+    expect(inviteLink("abc_123")).toBe("/auth/recruiter-signup?invite=abc_123");
+  });
+});
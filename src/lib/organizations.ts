@@ -0,0 +1,152 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import type { OrganizationMember, OrganizationRole } from "@/lib/types/database";
+
+/**
+ * Recruiter Organizations
+ *
+ * Recruiters work in a shared organization (workspace). Jobs belong to the
+ * organization, so the whole team sees the pipeline and nothing disappears when
+ * the recruiter who posted a job leaves. employer_id still records who created it.
+ *
+ * Roles:
+ *   admin           everything, plus inviting members and changing roles
+ *   recruiter       post and edit jobs, move applications through the pipeline
+ *   hiring_manager  review applications and move them through the pipeline
+ *   viewer          read-only access to jobs and applications
+ *
+ * Jobs from before organizations (organization_id null) keep the old rule:
+ * only the recruiter in employer_id can manage them, with admin rights.
+ */
+
+export const ORGANIZATION_ROLES: OrganizationRole[] = ["admin", "recruiter", "hiring_manager", "viewer"];
+
+export const ORGANIZATION_ROLE_LABELS: Record<OrganizationRole, string> = {
+  admin: "Admin",
+  recruiter: "Recruiter",
+  hiring_manager: "Hiring manager",
+  viewer: "Viewer",
+};
+
+export const MAX_ORGANIZATION_NAME_LENGTH = 100;
+
+// How long an invite link stays valid
+export const INVITE_TTL_DAYS = 14;
+
+export const OrganizationNameSchema = z
+  .string()
+  .trim()
+  .min(2, "Organization name is required")
+  .max(MAX_ORGANIZATION_NAME_LENGTH, `Organization name must be ${MAX_ORGANIZATION_NAME_LENGTH} characters or less`);
+
+export const OrganizationRoleSchema = z.enum(["admin", "recruiter", "hiring_manager", "viewer"]);
+
+export const InviteSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email"),
+  role: OrganizationRoleSchema,
+});
+
+// Invite as shown to the person invited (from the get_organization_invite function)
+export type InviteDetails = {
+  organizationName: string;
+  email: string;
+  role: OrganizationRole;
+  expiresAt: string;
+};
+
+// Posting, editing, publishing and closing jobs
+export function canManageJobs(role: OrganizationRole | null): boolean {
+  return role === "admin" || role === "recruiter";
+}
+
+// Moving applications between pipeline stages
+export function canMoveApplications(role: OrganizationRole | null): boolean {
+  return role === "admin" || role === "recruiter" || role === "hiring_manager";
+}
+
+// Inviting, removing and changing the role of members
+export function canManageMembers(role: OrganizationRole | null): boolean {
+  return role === "admin";
+}
+
+// Aggregate EEO reports; nobody sees individual answers
+export function canViewEeoReports(role: OrganizationRole | null): boolean {
+  return role === "admin";
+}
+
+/**
+ * Sign-up link for an invite
+ */
+export function inviteLink(token: string): string {
+  return `/auth/recruiter-signup?invite=${encodeURIComponent(token)}`;
+}
+
+/**
+ * The user's organization membership
+ * @returns The membership, or null if the user isn't in an organization
+ */
+export async function getMembership(supabase: SupabaseClient, userId: string): Promise<OrganizationMember | null> {
+  const { data, error } = await supabase
+    .from("organization_members")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) {
+    console.error("Failed to load organization membership:", error);
+    return null;
+  }
+  return (data as OrganizationMember | null) ?? null;
+}
+
+/**
+ * The user's role on a job: their organization role when the job belongs to
+ * their organization, admin on legacy jobs they created
+ * @returns The role, or null if the user has no access to the job's pipeline
+ */
+export async function jobRole(
+  supabase: SupabaseClient,
+  userId: string,
+  job: { employer_id: string | null; organization_id?: string | null }
+): Promise<OrganizationRole | null> {
+  if (!job.organization_id) return job.employer_id === userId ? "admin" : null;
+  const membership = await getMembership(supabase, userId);
+  return membership?.organization_id === job.organization_id ? membership.role : null;
+}
+
+/**
+ * Who to notify about a job: members of its organization whose role passes
+ * `allowed`, or the creator of a legacy job. Goes through job_hiring_team()
+ * so a candidate applying to the job can notify its team.
+ * @param allowed - e.g. canManageJobs or canMoveApplications
+ */
+export async function jobRecipients(
+  supabase: SupabaseClient,
+  job: { id: string; employer_id: string | null; organization_id?: string | null },
+  allowed: (role: OrganizationRole) => boolean
+): Promise<string[]> {
+  if (!job.organization_id) return job.employer_id ? [job.employer_id] : [];
+  const { data, error } = await supabase.rpc("job_hiring_team", { target_job: job.id });
+  if (error) throw new Error(`Failed to load the hiring team: ${error.message}`);
+  return ((data ?? []) as Pick<OrganizationMember, "user_id" | "role">[])
+    .filter((member) => allowed(member.role))
+    .map((member) => member.user_id);
+}
+
+/**
+ * PostgREST filter for the jobs a recruiter works on: their organization's jobs
+ * plus any legacy jobs they created
+ */
+export function recruiterJobsFilter(userId: string, membership: OrganizationMember | null): string {
+  // Jobs created in an organization stay with it when their creator leaves
+  const own = `and(organization_id.is.null,employer_id.eq.${userId})`;
+  return membership ? `organization_id.eq.${membership.organization_id},${own}` : own;
+}
+
+/**
+ * Whether removing or demoting a member would leave the organization without an admin
+ * @param members - Current members of the organization
+ */
+export function isLastAdmin(members: Pick<OrganizationMember, "user_id" | "role">[], userId: string): boolean {
+  const admins = members.filter((member) => member.role === "admin");
+  return admins.length === 1 && admins[0].user_id === userId;
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_PIPELINE,
+  PipelineStagesSchema,
+  assignStageIds,
+  currentStage,
+  initialStage,
+  resolvePipeline,
+  resolveTargetStage,
+  toDbStatus,
+  toStatusLabel,
+} from "./pipeline";
+import type { PipelineStage } from "@/lib/types/database";
+
+const customPipeline: PipelineStage[] = [
+  { id: "phone_screen", name: "Phone Screen", status: "under_review" },
+  { id: "take_home", name: "Take-home", status: "interview" },
+  { id: "onsite", name: "Onsite", status: "interview" },
+  { id: "offer", name: "Offer", status: "offer" },
+  { id: "hired", name: "Hired", status: "hired" },
+  { id: "rejected", name: "Rejected", status: "rejected" },
+];
+
+describe("pipeline", () => {
+  it("default pipeline reproduces the six statuses with matching ids", () => {
+    expect(DEFAULT_PIPELINE.map((s) => s.id)).toEqual([
+      "applied",
+      "under_review",
+      "interview",
+      "offer",
+      "hired",
+      "rejected",
+    ]);
+    expect(DEFAULT_PIPELINE.every((s) => s.id === s.status)).toBe(true);
+  });
+
+  it("maps between DB statuses and labels", () => {
+    expect(toStatusLabel("under_review")).toBe("Under Review");
+    expect(toStatusLabel("bogus")).toBe("Applied");
+    expect(toDbStatus("Under Review")).toBe("under_review");
+    expect(toDbStatus("interview")).toBe("interview");
+    expect(toDbStatus("Nope")).toBeNull();
+  });
+
+  it("validates custom pipelines", () => {
+    expect(PipelineStagesSchema.safeParse(customPipeline).success).toBe(true);
+    expect(PipelineStagesSchema.safeParse([]).success).toBe(false);
+    // Duplicate ids
+    expect(
+      PipelineStagesSchema.safeParse([...customPipeline, { id: "onsite", name: "Again", status: "interview" }]).success
+    ).toBe(false);
+    // Only terminal stages
+    expect(
+      PipelineStagesSchema.safeParse([
+        { id: "hired", name: "Hired", status: "hired" },
+        { id: "rejected", name: "Rejected", status: "rejected" },
+      ]).success
+    ).toBe(false);
+    // No rejected outcome
+    expect(
+      PipelineStagesSchema.safeParse(customPipeline.filter((s) => s.status !== "rejected")).success
+    ).toBe(false);
+  });
+
+  it("falls back to the default pipeline for legacy or malformed jobs", () => {
+    expect(resolvePipeline(null)).toBe(DEFAULT_PIPELINE);
+    expect(resolvePipeline({ pipeline_stages: null })).toBe(DEFAULT_PIPELINE);
+    expect(resolvePipeline({ pipeline_stages: [{ id: 1 }] })).toBe(DEFAULT_PIPELINE);
+    expect(resolvePipeline({ pipeline_stages: customPipeline })).toEqual(customPipeline);
+  });
+
+  it("assigns unique ids to new stages from their names", () => {
+    const stages = assignStageIds([
+      { id: "", name: "Phone Screen", status: "under_review" },
+      { id: "phone_screen", name: "Existing", status: "under_review" },
+      { id: "", name: "  ", status: "interview" },
+    ]);
+    expect(stages.map((s) => s.id)).toEqual(["phone_screen_2", "phone_screen", "stage"]);
+  });
+
+  it("starts applications in the first non-terminal stage", () => {
+    expect(initialStage(customPipeline).id).toBe("phone_screen");
+    expect(initialStage(DEFAULT_PIPELINE).id).toBe("applied");
+  });
+
+  it("resolves current stage by stage_id, then by status", () => {
+    expect(currentStage(customPipeline, { stage_id: "onsite", status: "interview" })?.id).toBe("onsite");
+    expect(currentStage(customPipeline, { stage_id: null, status: "interview" })?.id).toBe("take_home");
+    expect(currentStage(customPipeline, { stage_id: "gone", status: "applied" })).toBeNull();
+  });
+
+  it("resolves a target stage from a stage id or a legacy status label", () => {
+    expect(resolveTargetStage(customPipeline, { stageId: "onsite" })?.name).toBe("Onsite");
+    expect(resolveTargetStage(customPipeline, { status: "Interview" })?.id).toBe("take_home");
+    expect(resolveTargetStage(customPipeline, { status: "Applied" })).toBeNull();
+    expect(resolveTargetStage(customPipeline, { stageId: "missing" })).toBeNull();
+  });
+});
@@ -0,0 +1,176 @@
+import { z } from "zod";
+import type { ApplicationStatus, PipelineStage } from "@/lib/types/database";
+import type { ApplicationStatus as ApplicationStatusLabel } from "@/lib/applications";
+
+/**
+ * Hiring Pipeline
+ *
+ * Each job defines an ordered list of stages (jobs.pipeline_stages). Every stage
+ * maps to one of the canonical ApplicationStatus values, which stays the single
+ * source of truth for filtering, candidate-facing labels and reporting.
+ *
+ * Jobs without a pipeline use DEFAULT_PIPELINE, which reproduces the original
+ * six statuses with stage ids equal to the status values.
+ */
+
+// Canonical statuses in funnel order
+export const APPLICATION_STATUSES: ApplicationStatus[] = [
+  "applied",
+  "under_review",
+  "interview",
+  "offer",
+  "hired",
+  "rejected",
+];
+
+// DB enum -> frontend label
+export const STATUS_LABELS: Record<ApplicationStatus, ApplicationStatusLabel> = {
+  applied: "Applied",
+  under_review: "Under Review",
+  interview: "Interview",
+  offer: "Offer",
+  hired: "Hired",
+  rejected: "Rejected",
+};
+
+// Statuses that end an application; stages with these outcomes are terminal
+export const TERMINAL_STATUSES: ReadonlySet<ApplicationStatus> = new Set<ApplicationStatus>(["hired", "rejected"]);
+
+export const DEFAULT_PIPELINE: PipelineStage[] = APPLICATION_STATUSES.map((status) => ({
+  id: status,
+  name: STATUS_LABELS[status],
+  status,
+}));
+
+export const MAX_PIPELINE_STAGES = 20;
+
+const PipelineStageSchema = z.object({
+  id: z.string().trim().min(1, "Stage id is required").max(50),
+  name: z.string().trim().min(1, "Stage name is required").max(50, "Stage name too long"),
+  status: z.enum(APPLICATION_STATUSES as [ApplicationStatus, ...ApplicationStatus[]]),
+});
+
+export const PipelineStagesSchema = z
+  .array(PipelineStageSchema)
+  .min(1, "Pipeline needs at least one stage")
+  .max(MAX_PIPELINE_STAGES, `Pipeline can have at most ${MAX_PIPELINE_STAGES} stages`)
+  .refine((stages) => new Set(stages.map((s) => s.id)).size === stages.length, {
+    message: "Stage ids must be unique",
+  })
+  .refine((stages) => stages.some((s) => !TERMINAL_STATUSES.has(s.status)), {
+    message: "Pipeline needs at least one non-terminal stage",
+  })
+  .refine((stages) => stages.some((s) => s.status === "rejected"), {
+    message: "Pipeline needs a stage with the Rejected outcome",
+  });
+
+/**
+ * Convert a DB status to its frontend label
+ * @param status - DB status (e.g. "under_review")
+ * @returns Label (e.g. "Under Review"), "Applied" for unknown values
+ */
+export function toStatusLabel(status: string | null | undefined): ApplicationStatusLabel {
+  return STATUS_LABELS[status as ApplicationStatus] || "Applied";
+}
+
+/**
+ * Convert a frontend label (or DB value) to the DB status
+ * @param label - "Under Review" or "under_review"
+ * @returns DB status or null if not recognized
+ */
+export function toDbStatus(label: string | null | undefined): ApplicationStatus | null {
+  if (!label) return null;
+  if ((APPLICATION_STATUSES as string[]).includes(label)) return label as ApplicationStatus;
+  const entry = (Object.entries(STATUS_LABELS) as [ApplicationStatus, string][]).find(([, l]) => l === label);
+  return entry ? entry[0] : null;
+}
+
+/**
+ * Turn a stage name into a stage id ("Phone Screen" -> "phone_screen")
+ */
+export function slugifyStageName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 50);
+}
+
+/**
+ * Fill in missing stage ids from stage names, keeping ids unique within the pipeline
+ * @param stages - Stages as edited in the UI (new stages have an empty id)
+ * @returns Stages with stable, unique ids
+ */
+export function assignStageIds(stages: PipelineStage[]): PipelineStage[] {
+  const used = new Set(stages.map((s) => s.id).filter(Boolean));
+  return stages.map((stage) => {
+    if (stage.id) return stage;
+    const base = slugifyStageName(stage.name) || "stage";
+    let id = base;
+    for (let n = 2; used.has(id); n++) id = `${base}_${n}`;
+    used.add(id);
+    return { ...stage, id };
+  });
+}
+
+/**
+ * Resolve a job's pipeline, falling back to the default for legacy or malformed rows
+ * @param job - Anything with an optional pipeline_stages field
+ * @returns Ordered stages
+ */
+export function resolvePipeline(job: { pipeline_stages?: unknown } | null | undefined): PipelineStage[] {
+  const parsed = PipelineStagesSchema.safeParse(job?.pipeline_stages);
+  return parsed.success ? parsed.data : DEFAULT_PIPELINE;
+}
+
+/**
+ * Find a stage by id
+ */
+export function findStage(stages: PipelineStage[], stageId: string | null | undefined): PipelineStage | null {
+  if (!stageId) return null;
+  return stages.find((s) => s.id === stageId) ?? null;
+}
+
+/**
+ * Determine the stage an application is currently in.
+ * Uses stage_id when it matches the pipeline, otherwise the first stage with the same status.
+ */
+export function currentStage(
+  stages: PipelineStage[],
+  application: { stage_id?: string | null; status?: string | null }
+): PipelineStage | null {
+  return (
+    findStage(stages, application.stage_id) ??
+    stages.find((s) => s.status === application.status) ??
+    null
+  );
+}
+
+/**
+ * Stage new applications start in: the first non-terminal stage
+ */
+export function initialStage(stages: PipelineStage[]): PipelineStage {
+  return stages.find((s) => !TERMINAL_STATUSES.has(s.status)) ?? DEFAULT_PIPELINE[0];
+}
+
+/**
+ * Resolve a requested move to a stage in the job's pipeline.
+ * Accepts either a stage id or a legacy status label ("Interview"), which maps
+ * to the first stage with that outcome.
+ */
+export function resolveTargetStage(
+  stages: PipelineStage[],
+  target: { stageId?: unknown; status?: unknown }
+): PipelineStage | null {
+  if (typeof target.stageId === "string" && target.stageId) {
+    return findStage(stages, target.stageId);
+  }
+  const status = typeof target.status === "string" ? toDbStatus(target.status) : null;
+  if (!status) return null;
+  return stages.find((s) => s.status === status) ?? null;
+}
+
+export function isTerminalStatus(status: string | null | undefined): boolean {
+  return TERMINAL_STATUSES.has(status as ApplicationStatus);
+}
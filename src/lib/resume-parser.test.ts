@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { parseResumeDate, parseResumeText, resumeProfileChanges } from "./resume-parser";
+
+const RESUME = `JANE DOE
+Boston, MA | jane.doe@Example.com | (617) 555-0123
+linkedin.com/in/janedoe | github.com/janedoe | janedoe.dev
+
+EXPERIENCE
+Software Engineer, Acme Corp Jan 2021 – Present
+• Built the billing service in Go and PostgreSQL
+• Led the migration to Kubernetes
+Globex Inc
+Software Engineering Intern 06/2019 - 08/2019
+- Wrote React components for the admin dashboard
+
+EDUCATION
+Harvard University, Cambridge, MA
+B.S. in Computer Science, May 2020
+
+SKILLS
+Languages: Python, Go, TypeScript
+Tools: Docker, Kubernetes, PostgreSQL
+
+CERTIFICATIONS
+AWS Certified Solutions Architect – Amazon Web Services, Mar 2022
+`;
+
+describe("resume parser", () => {
+  it("reads resume dates", () => {
+    expect(parseResumeDate("Jan. 2021")).toBe("2021-01");
+    expect(parseResumeDate("September 2019")).toBe("2019-09");
+    expect(parseResumeDate("06/2019")).toBe("2019-06");
+    expect(parseResumeDate("Fall 2020")).toBe("2020-09");
+    expect(parseResumeDate("2018")).toBe("2018-01");
+    expect(parseResumeDate("Present")).toBeNull();
+  });
+
+  it("parses contact details, education, experience, skills and certifications", () => {
+    const parsed = parseResumeText(RESUME);
+
+    expect(parsed).toMatchObject({
+      name: "JANE DOE",
+      email: "jane.doe@Example.com",
+      phone: "(617) 555-0123",
+      linkedin_url: "linkedin.com/in/janedoe",
+      github_url: "github.com/janedoe",
+      portfolio_url: "janedoe.dev",
+      school: "Harvard University",
+      degree_level: "Bachelor's",
+      major: "Computer Science",
+      graduation_date: "2020-05-01",
+      skills: ["Python", "Go", "TypeScript", "Docker", "Kubernetes", "PostgreSQL"],
+    });
+    expect(parsed.experience).toEqual([
+      {
+        company: "Acme Corp",
+        title: "Software Engineer",
+        start_date: "2021-01",
+        end_date: null,
+        description: "Built the billing service in Go and PostgreSQL\nLed the migration to Kubernetes",
+      },
+      {
+        company: "Globex Inc",
+        title: "Software Engineering Intern",
+        start_date: "2019-06",
+        end_date: "2019-08",
+        description: "Wrote React components for the admin dashboard",
+      },
+    ]);
+    expect(parsed.certifications).toEqual([
+      { name: "AWS Certified Solutions Architect", issuer: "Amazon Web Services", date: "2022-03", expiry: null },
+    ]);
+  });
+
+  it("returns empty fields for text without a recognizable resume", () => {
+    expect(parseResumeText("")).toMatchObject({ name: null, email: null, experience: [], skills: [] });
+  });
+
+  it("proposes normalized changes and merges lists", () => {
+    const parsed = parseResumeText(RESUME);
+    const changes = resumeProfileChanges(parsed, {
+      name: "Jane Doe",
+      email: "jane.doe@example.com",
+      skills: ["python", "rust"],
+      experience: [{ company: "Acme Corp", title: "Software Engineer", start_date: "2021-01", end_date: null, description: "" }],
+      certifications: [],
+    });
+    const byField = Object.fromEntries(changes.map((c) => [c.field, c]));
+
+    expect(byField.name).toBeUndefined();
+    expect(byField.email).toBeUndefined();
+    expect(byField.phone.value).toBe("(617) 555-0123");
+    expect(byField.linkedin_url.value).toBe("https://linkedin.com/in/janedoe");
+    expect(byField.skills.proposed).toEqual(["go", "typescript", "docker", "kubernetes", "postgresql"]);
+    expect(byField.skills.value).toEqual(["python", "rust", "go", "typescript", "docker", "kubernetes", "postgresql"]);
+    expect(byField.experience.proposed).toEqual(["Software Engineering Intern at Globex Inc (2019-06 – 2019-08)"]);
+    expect((byField.experience.value as unknown[]).length).toBe(2);
+    expect(byField.certifications.proposed).toHaveLength(1);
+  });
+});
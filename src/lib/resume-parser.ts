@@ -0,0 +1,439 @@
+import { normalizeCandidateData } from "@/lib/validation/candidate-normalizer";
+import type { CandidateProfileUpdateValidated } from "@/lib/validation/candidate-schema";
+import type { Certification, WorkExperience } from "@/lib/types/database";
+
+/**
+ * Resume Parsing
+ *
+ * Rule-based parser that turns extracted resume text (src/lib/resume-text.ts)
+ * into candidate profile fields. It runs entirely locally: sections are found
+ * by their headings (Experience, Education, Skills, Certifications, ...),
+ * contact details by pattern, and work history by date ranges such as
+ * "Jan 2021 – Present".
+ *
+ * Parsed values are suggestions. resumeProfileChanges() compares them with the
+ * current profile after normalizeCandidateData(), so the profile page can show
+ * a diff and apply only what the candidate picks.
+ */
+
+export type ParsedResume = {
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  linkedin_url: string | null;
+  github_url: string | null;
+  portfolio_url: string | null;
+  school: string | null;
+  degree_level: string | null;
+  major: string | null;
+  graduation_date: string | null; // YYYY-MM-DD
+  experience: WorkExperience[];
+  certifications: Certification[];
+  skills: string[];
+};
+
+// Profile fields a parsed resume can fill, in display order
+export const RESUME_PROFILE_FIELDS = [
+  "name",
+  "email",
+  "phone",
+  "linkedin_url",
+  "github_url",
+  "portfolio_url",
+  "school",
+  "degree_level",
+  "major",
+  "graduation_date",
+  "skills",
+  "experience",
+  "certifications",
+] as const;
+
+export type ResumeProfileField = (typeof RESUME_PROFILE_FIELDS)[number];
+
+export const RESUME_PROFILE_FIELD_LABELS: Record<ResumeProfileField, string> = {
+  name: "Name",
+  email: "Email",
+  phone: "Phone",
+  linkedin_url: "LinkedIn",
+  github_url: "GitHub",
+  portfolio_url: "Portfolio",
+  school: "School",
+  degree_level: "Degree",
+  major: "Major",
+  graduation_date: "Graduation date",
+  skills: "Skills",
+  experience: "Work experience",
+  certifications: "Certifications",
+};
+
+// Current profile values the diff compares against
+export type ResumeProfileSnapshot = Partial<Record<Exclude<ResumeProfileField, "skills" | "experience" | "certifications">, string | null>> & {
+  skills?: string[] | null;
+  experience?: unknown[] | null;
+  certifications?: unknown[] | null;
+};
+
+export type ResumeProfileChange = {
+  field: ResumeProfileField;
+  label: string;
+  current: string[]; // display lines
+  proposed: string[]; // display lines
+  value: unknown; // normalized value to save
+};
+
+type Section = "header" | "experience" | "education" | "skills" | "certifications" | "other";
+
+const SECTION_HEADINGS: [Exclude<Section, "header">, RegExp][] = [
+  ["experience", /^(work|professional|relevant|industry)?\s*(experience|employment( history)?|work history|career history)$/],
+  ["education", /^(education|academic background|education (and|&) training)$/],
+  ["skills", /^(technical|core|key)?\s*(skills|competencies|technologies|tech stack|tools( (and|&) technologies)?)( (and|&) (tools|technologies|interests))?$/],
+  ["certifications", /^(certifications?|certificates|licenses?( (and|&) certifications)?|certifications? (and|&) licenses)$/],
+  ["other", /^(summary|profile|objective|about me|projects|personal projects|awards|honors|honors (and|&) awards|publications|interests|volunteer(ing)?( experience)?|leadership|activities|references|languages)$/],
+];
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DATE = String.raw`(?:(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.?,?\s+\d{4}|\d{1,2}\/\d{4}|\d{4}-\d{2}|(?:spring|summer|fall|autumn|winter)\s+\d{4}|\d{4})`;
+const PRESENT = String.raw`(?:present|current|now|today)`;
+const DATE_RANGE = new RegExp(String.raw`(${DATE})\s*(?:-|–|—|to|until)\s*(${DATE}|${PRESENT})`, "i");
+const SINGLE_DATE = new RegExp(String.raw`(?:expected\s+|graduat(?:ed|ing|ion)?:?\s+)?(${DATE})`, "gi");
+
+const BULLET = /^[•●▪◦‣∙·*\-–]\s*/;
+const EMAIL = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/;
+const PHONE = /(?:\+?\d{1,3}[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/;
+const URL = /\b(?:https?:\/\/)?(?:www\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}(?:\/[^\s,;|)]*)?/gi;
+
+const TITLE_WORDS =
+  /\b(engineer|developer|programmer|intern|manager|analyst|scientist|designer|consultant|assistant|lead|director|architect|specialist|researcher|associate|coordinator|administrator|officer|teacher|tutor|founder|co-founder|head|vp|president|technician|fellow|contractor|freelancer)\b/i;
+const SCHOOL_WORDS = /\b(university|college|institute|school|academy|polytechnic)\b/i;
+const LOCATION = /\b(?:[A-Z][a-zA-Z.]+(?:\s[A-Z][a-zA-Z.]+)*,\s*[A-Z]{2}\b|Remote|Hybrid)\b/g;
+
+// Degree spellings, most specific first, with the profile's degree_level values.
+// Abbreviations are matched case-sensitively so words like "as" don't count.
+const DEGREES: [RegExp, RegExp, string][] = [
+  [/\b(doctor(ate)? of|doctoral)\b/i, /\b(Ph\.?\s?D|D\.?Phil)\b/, "PhD"],
+  [/\bmaster'?s?\b/i, /\b(M\.?S\.?c?|M\.?A\.|MA|MBA|M\.?Eng|M\.?Ed)\b/, "Master's"],
+  [/\bbachelor'?s?\b/i, /\b(B\.?S\.?c?|B\.?A\.?|B\.?Eng|B\.?Tech|A\.B\.)\b/, "Bachelor's"],
+  [/\bassociate'?s?( degree| of)\b/i, /\b(A\.?A\.?S?|A\.S\.)\b/, "Associate"],
+  [/\bhigh school\b/i, /\bGED\b/, "High School"],
+];
+
+function degreeOf(text: string): string | null {
+  const clean = text.replace(LOCATION, " ");
+  return DEGREES.find(([words, abbreviation]) => words.test(clean) || abbreviation.test(clean))?.[2] ?? null;
+}
+
+/**
+ * Convert a resume date ("Jan 2021", "01/2021", "2021-01", "Fall 2020", "2021") to YYYY-MM
+ * @returns YYYY-MM, or null for "Present" and unreadable values
+ */
+export function parseResumeDate(value: string): string | null {
+  const text = value.trim().toLowerCase().replace(/[.,]/g, "");
+  let m = /^([a-z]+)\s+(\d{4})$/.exec(text);
+  if (m) {
+    const season: Record<string, number> = { spring: 1, summer: 6, fall: 9, autumn: 9, winter: 12 };
+    const month = MONTHS.indexOf(m[1].slice(0, 3)) + 1 || season[m[1]];
+    return month ? `${m[2]}-${String(month).padStart(2, "0")}` : null;
+  }
+  m = /^(\d{1,2})\/(\d{4})$/.exec(text);
+  if (m && +m[1] >= 1 && +m[1] <= 12) return `${m[2]}-${m[1].padStart(2, "0")}`;
+  m = /^(\d{4})-(\d{2})$/.exec(text);
+  if (m && +m[2] >= 1 && +m[2] <= 12) return text;
+  m = /^(\d{4})$/.exec(text);
+  if (m) return `${m[1]}-01`;
+  return null;
+}
+
+function headingOf(line: string): Exclude<Section, "header"> | null {
+  const text = line.replace(/[:\s]+$/, "").trim().toLowerCase();
+  if (!text || text.length > 40) return null;
+  for (const [section, pattern] of SECTION_HEADINGS) {
+    if (pattern.test(text)) return section;
+  }
+  return null;
+}
+
+function splitSections(text: string): Record<Section, string[]> {
+  const sections: Record<Section, string[]> = { header: [], experience: [], education: [], skills: [], certifications: [], other: [] };
+  let current: Section = "header";
+  for (const raw of text.split("\n")) {
+    const line = raw.trim();
+    if (!line) continue;
+    const heading = headingOf(line);
+    if (heading) {
+      current = heading;
+      continue;
+    }
+    sections[current].push(line);
+  }
+  return sections;
+}
+
+// Fragments of an entry header: "Engineer | Acme, Boston, MA" -> ["Engineer", "Acme"]
+function headerFragments(text: string): string[] {
+  return text
+    .replace(LOCATION, "")
+    .split(/\s+(?:\||–|—|-|@|at)\s+|\s*\|\s*|,\s+|\t+|\s{3,}/i)
+    .map((s) => s.replace(/^[\s,|–—-]+|[\s,|–—-]+$/g, "").trim())
+    .filter((s) => s.length > 1);
+}
+
+function parseExperience(lines: string[]): WorkExperience[] {
+  const entries: WorkExperience[] = [];
+  let pending: string[] = [];
+  let description: string[] = [];
+
+  const finish = () => {
+    const last = entries[entries.length - 1];
+    if (last) last.description = description.join("\n");
+    description = [];
+  };
+
+  for (const line of lines) {
+    const range = DATE_RANGE.exec(line);
+    if (!range) {
+      if (BULLET.test(line)) {
+        // Anything pending before a bullet was a wrapped description line
+        description.push(...pending, line.replace(BULLET, ""));
+        pending = [];
+      } else {
+        pending.push(line);
+      }
+      continue;
+    }
+
+    // Lines pending before this one: the last two are the entry header, the rest
+    // belong to the previous entry's description
+    const header = pending.slice(-2);
+    description.push(...pending.slice(0, -2));
+    finish();
+    pending = [];
+
+    const rest = line.replace(range[0], " ").replace(/[()]/g, " ").trim();
+    const fragments = [...header, rest].flatMap(headerFragments);
+    const atMatch = [...header, rest].map((s) => /^(.+?)\s+at\s+(.+)$/i.exec(s.replace(LOCATION, "").trim())).find(Boolean);
+    let title = "";
+    let company = "";
+    if (atMatch) {
+      title = atMatch[1];
+      company = atMatch[2];
+    } else {
+      const titleIndex = fragments.findIndex((f) => TITLE_WORDS.test(f));
+      // "Acme Corp" on its own line above "Engineer  Jan 2020 – Present" is the common layout too
+      title = fragments[titleIndex === -1 ? 0 : titleIndex] ?? "";
+      company = fragments.find((f, i) => i !== (titleIndex === -1 ? 0 : titleIndex)) ?? "";
+    }
+
+    entries.push({
+      company: company.trim(),
+      title: title.trim(),
+      start_date: parseResumeDate(range[1]) ?? "",
+      end_date: parseResumeDate(range[2]),
+      description: "",
+    });
+  }
+  description.push(...pending);
+  finish();
+  return entries.filter((e) => e.company && e.title && e.start_date);
+}
+
+function parseEducation(lines: string[]): Pick<ParsedResume, "school" | "degree_level" | "major" | "graduation_date"> {
+  const text = lines.join("\n");
+  const school = lines
+    .flatMap((line) => headerFragments(line.replace(DATE_RANGE, " ").replace(SINGLE_DATE, " ")))
+    .find((f) => SCHOOL_WORDS.test(f) && !degreeOf(f));
+
+  let degreeLevel: string | null = null;
+  let major: string | null = null;
+  for (const line of lines) {
+    degreeLevel = degreeOf(line);
+    if (!degreeLevel) continue;
+    const field = /\b(?:in|of)\s+([A-Z][A-Za-z&/ ]+?)(?=\s*(?:[,|(–—-]|\d|$))/.exec(
+      line.replace(/\b(?:bachelor|master)'?s?\s+of\s+(?:science|arts|engineering)\b/i, "")
+    );
+    if (field) major = field[1].trim();
+    break;
+  }
+
+  // Graduation: the end of a date range, or the last date mentioned
+  let graduation: string | null = null;
+  const range = DATE_RANGE.exec(text);
+  if (range) graduation = parseResumeDate(range[2]);
+  if (!graduation) {
+    const dates = [...text.matchAll(SINGLE_DATE)].map((m) => parseResumeDate(m[1])).filter(Boolean);
+    graduation = dates[dates.length - 1] ?? null;
+  }
+
+  return {
+    school: school ?? null,
+    degree_level: degreeLevel,
+    major,
+    graduation_date: graduation ? `${graduation}-01` : null,
+  };
+}
+
+function parseSkills(lines: string[]): string[] {
+  const skills: string[] = [];
+  for (const line of lines) {
+    // "Languages: Python, Go" -> the label is a category, not a skill
+    const list = line.replace(BULLET, "").replace(/^[A-Za-z &/]{2,30}:\s*/, "");
+    for (const part of list.split(/\s*[,;|•·●]\s*|\s{2,}/)) {
+      const skill = part.replace(/\.$/, "").replace(/^(and|&)\s+/i, "").trim();
+      if (skill && skill.length <= 40 && /[A-Za-z]/.test(skill)) skills.push(skill);
+    }
+  }
+  return skills;
+}
+
+function parseCertifications(lines: string[]): Certification[] {
+  const certs: Certification[] = [];
+  for (const raw of lines) {
+    const line = raw.replace(BULLET, "");
+    const range = DATE_RANGE.exec(line);
+    const dates = [...line.matchAll(SINGLE_DATE)].map((m) => m[1]);
+    const date = range ? range[1] : dates[0];
+    const expiry = range ? range[2] : dates[1];
+    const rest = line
+      .replace(range?.[0] ?? "", " ")
+      .replace(SINGLE_DATE, " ")
+      .replace(/\b(issued|expires?|exp\.?|valid until|by)\b:?/gi, ",")
+      .replace(/[()]/g, ",");
+    const [name, issuer] = headerFragments(rest);
+    certs.push({
+      name: name ?? "",
+      issuer: issuer ?? "",
+      date: date ? parseResumeDate(date) ?? "" : "",
+      expiry: expiry ? parseResumeDate(expiry) : null,
+    });
+  }
+  return certs.filter((c) => c.name && c.issuer && c.date);
+}
+
+function looksLikeName(line: string): boolean {
+  const words = line.split(/\s+/);
+  return words.length >= 2 && words.length <= 4 && words.every((w) => /^[A-Za-z][A-Za-z.'-]*$/.test(w)) && !headingOf(line);
+}
+
+function findUrl(text: string, host: RegExp): string | null {
+  const url = (text.match(URL) ?? []).find((u) => host.test(u) && !u.includes("@"));
+  return url ? url.replace(/[.)]+$/, "") : null;
+}
+
+/**
+ * Parse extracted resume text into profile fields
+ * @param text - Plain text from extractResumeText
+ * @returns Parsed fields; anything not found is null or empty
+ */
+export function parseResumeText(text: string): ParsedResume {
+  const sections = splitSections(text);
+  const contactText = [...sections.header, ...sections.other].join("\n");
+  const email = EMAIL.exec(text)?.[0] ?? null;
+  const phone = PHONE.exec(contactText.replace(EMAIL, " "))?.[0] ?? null;
+  const emailDomain = email?.split("@")[1]?.toLowerCase();
+  const portfolio = (text.match(URL) ?? []).find(
+    (u) =>
+      !/linkedin\.com|github\.com/i.test(u) &&
+      /\.(com|io|dev|me|net|org|app|co|xyz|site|page)(\/|$)/i.test(u) &&
+      !text.includes(`@${u}`) &&
+      u.replace(/^(https?:\/\/)?(www\.)?/i, "").toLowerCase() !== emailDomain
+  );
+
+  return {
+    name: sections.header.find(looksLikeName) ?? null,
+    email,
+    phone,
+    linkedin_url: findUrl(text, /linkedin\.com\/(in|pub)\//i),
+    github_url: findUrl(text, /github\.com\/[^/\s]+/i),
+    portfolio_url: portfolio ? portfolio.replace(/[.)]+$/, "") : null,
+    ...parseEducation(sections.education),
+    experience: parseExperience(sections.experience),
+    certifications: parseCertifications(sections.certifications),
+    skills: parseSkills(sections.skills),
+  };
+}
+
+function experienceLine(e: WorkExperience): string {
+  return `${e.title} at ${e.company} (${e.start_date} – ${e.end_date ?? "present"})`;
+}
+
+function certificationLine(c: Certification): string {
+  return `${c.name}, ${c.issuer} (${c.date})`;
+}
+
+function isObjectList<T>(list: unknown[] | null | undefined): list is T[] {
+  return Array.isArray(list) && list.every((x) => x && typeof x === "object");
+}
+
+/**
+ * Compare a parsed resume with the current profile.
+ * Scalar fields are proposed when they differ; skills, experience and
+ * certifications are merged (new entries appended) rather than replaced.
+ * Values are normalized with normalizeCandidateData, as the profile API does on save.
+ * @param parsed - Output of parseResumeText
+ * @param current - Current profile values
+ * @returns One change per field the resume would update
+ */
+export function resumeProfileChanges(parsed: ParsedResume, current: ResumeProfileSnapshot): ResumeProfileChange[] {
+  const currentSkills = Array.isArray(current.skills) ? current.skills : [];
+  const currentExperience = isObjectList<WorkExperience>(current.experience) ? current.experience : [];
+  const currentCerts = isObjectList<Certification>(current.certifications) ? current.certifications : [];
+
+  const experienceKey = (e: WorkExperience) => `${e.company}|${e.title}`.toLowerCase();
+  const certKey = (c: Certification) => `${c.name}|${c.issuer}`.toLowerCase();
+  const knownExperience = new Set(currentExperience.map(experienceKey));
+  const knownCerts = new Set(currentCerts.map(certKey));
+
+  const proposed = normalizeCandidateData({
+    name: parsed.name ?? undefined,
+    email: parsed.email ?? undefined,
+    phone: parsed.phone ?? undefined,
+    linkedin_url: parsed.linkedin_url ?? undefined,
+    github_url: parsed.github_url ?? undefined,
+    portfolio_url: parsed.portfolio_url ?? undefined,
+    school: parsed.school ?? undefined,
+    degree_level: parsed.degree_level ?? undefined,
+    major: parsed.major ?? undefined,
+    graduation_date: parsed.graduation_date ?? undefined,
+    skills: [...currentSkills, ...parsed.skills],
+    experience: [...currentExperience, ...parsed.experience.filter((e) => !knownExperience.has(experienceKey(e)))],
+    certifications: [...currentCerts, ...parsed.certifications.filter((c) => !knownCerts.has(certKey(c)))],
+  } as CandidateProfileUpdateValidated) as Record<string, unknown>;
+  const existing = normalizeCandidateData({
+    name: current.name ?? undefined,
+    email: current.email ?? undefined,
+    phone: current.phone ?? undefined,
+    linkedin_url: current.linkedin_url ?? undefined,
+    github_url: current.github_url ?? undefined,
+    portfolio_url: current.portfolio_url ?? undefined,
+    skills: currentSkills,
+  } as CandidateProfileUpdateValidated) as Record<string, unknown>;
+
+  const changes: ResumeProfileChange[] = [];
+  for (const field of RESUME_PROFILE_FIELDS) {
+    const value = proposed[field];
+    const label = RESUME_PROFILE_FIELD_LABELS[field];
+    if (field === "skills") {
+      const before = (existing.skills as string[]) ?? [];
+      const after = (value as string[]) ?? [];
+      if (after.length > before.length) {
+        changes.push({ field, label, current: before, proposed: after.filter((s) => !before.includes(s)), value: after });
+      }
+    } else if (field === "experience") {
+      const added = (value as WorkExperience[]).slice(currentExperience.length);
+      if (added.length > 0) {
+        changes.push({ field, label, current: currentExperience.map(experienceLine), proposed: added.map(experienceLine), value });
+      }
+    } else if (field === "certifications") {
+      const added = (value as Certification[]).slice(currentCerts.length);
+      if (added.length > 0) {
+        changes.push({ field, label, current: currentCerts.map(certificationLine), proposed: added.map(certificationLine), value });
+      }
+    } else if (typeof value === "string" && value) {
+      const before = (existing[field] as string | null | undefined) ?? current[field] ?? "";
+      if (before.trim().toLowerCase() !== value.toLowerCase()) {
+        changes.push({ field, label, current: before ? [before] : [], proposed: [value], value });
+      }
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { deflateRawSync, deflateSync } from "zlib";
+import { DOCX_MIME, DOC_MIME, PDF_MIME, extractResumeText, readZipEntry } from "./resume-text";
+
+// Minimal zip writer (deflate) for building test documents
+function makeZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const data = deflateRawSync(Buffer.from(content));
+    const nameBytes = Buffer.from(name);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, nameBytes, data);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+function makePdf(content: string): Buffer {
+  const stream = deflateSync(Buffer.from(content, "latin1"));
+  return Buffer.concat([
+    Buffer.from("%PDF-1.4\n1 0 obj\n<< /Type /Catalog >>\nendobj\n4 0 obj\n<< /Length " + stream.length + " /Filter /FlateDecode >>\nstream\n"),
+    stream,
+    Buffer.from("\nendstream\nendobj\n%%EOF\n"),
+  ]);
+}
+
+describe("resume text extraction", () => {
+  it("reads paragraphs from a DOCX", () => {
+    const docx = makeZip({
+      "[Content_Types].xml": "<Types/>",
+      "word/document.xml":
+        '<w:document><w:body><w:p><w:r><w:t>Jane Doe</w:t></w:r></w:p>' +
+        '<w:p><w:r><w:t>R&amp;D Engineer</w:t><w:tab/><w:t xml:space="preserve">2020 – Present</w:t></w:r></w:p></w:body></w:document>',
+    });
+    expect(readZipEntry(docx, "[Content_Types].xml")?.toString()).toBe("<Types/>");
+    expect(extractResumeText(docx, DOCX_MIME)).toBe("Jane Doe\nR&D Engineer 2020 – Present");
+  });
+
+  it("reads text operators from a compressed PDF content stream", () => {
+    const pdf = makePdf(
+      "BT /F1 12 Tf 72 720 Td (Jane Doe) Tj 0 -14 Td [(Soft)10(ware)-250(Engineer)] TJ ET\n" +
+        "BT 1 0 0 1 72 680 Tm (Skills: Python, Go \\(Golang\\)) Tj ET"
+    );
+    expect(extractResumeText(pdf, PDF_MIME)).toBe("Jane Doe\nSoftware Engineer\nSkills: Python, Go (Golang)");
+  });
+
+  it("falls back to readable runs for legacy DOC files", () => {
+    const doc = Buffer.concat([Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0, 0, 1, 2]), Buffer.from("Jane Doe\rSoftware Engineer\r", "utf16le"), Buffer.alloc(16)]);
+    expect(extractResumeText(doc, DOC_MIME)).toBe("Jane Doe\nSoftware Engineer");
+  });
+
+  it("returns empty text for unreadable input", () => {
+    expect(extractResumeText(Buffer.from("not a zip"), DOCX_MIME)).toBe("");
+    expect(extractResumeText(Buffer.alloc(64), PDF_MIME)).toBe("");
+  });
+});
@@ -0,0 +1,330 @@
+import { inflateRawSync, inflateSync } from "zlib";
+
+/**
+ * Resume Text Extraction
+ *
+ * Pulls plain text out of uploaded resumes without external services, using
+ * only Node's zlib:
+ *
+ *   PDF   content streams are inflated and the text-showing operators
+ *         (Tj, TJ, ', ") are read, with line breaks where the text moves down
+ *   DOCX  word/document.xml is read from the zip; paragraphs become lines
+ *   DOC   best effort: the longest runs of readable text in the binary
+ *
+ * PDFs whose fonts use custom glyph encodings (some design tools) and scanned
+ * resumes yield little or no text; callers treat an empty result as "nothing
+ * to suggest" rather than an error.
+ */
+
+export const PDF_MIME = "application/pdf";
+export const DOC_MIME = "application/msword";
+export const DOCX_MIME = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+// Upper bound on decompressed data, so a small zip/flate bomb can't exhaust memory
+const MAX_INFLATED_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Extract plain text from a resume file
+ * @param bytes - File contents
+ * @param mimeType - One of PDF_MIME, DOC_MIME, DOCX_MIME
+ * @returns Text with one line per paragraph/line of the document ("" if nothing readable)
+ */
+export function extractResumeText(bytes: Uint8Array, mimeType: string): string {
+  const buffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let text = "";
+  if (mimeType === PDF_MIME) text = extractPdfText(buffer);
+  else if (mimeType === DOCX_MIME) text = extractDocxText(buffer);
+  else if (mimeType === DOC_MIME) text = extractDocText(buffer);
+  return cleanText(text);
+}
+
+// Collapse runs of spaces and blank lines, drop control characters
+function cleanText(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[^\S\n]+/g, " ")
+    .replace(/[\u0000-\u0008\u000b-\u001f\u007f]/g, "")
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * zlib (or raw deflate) decompression capped at MAX_INFLATED_BYTES
+ * @returns The data, or null if it is corrupt or too large
+ */
+export function inflate(data: Buffer, raw: boolean): Buffer | null {
+  try {
+    return raw
+      ? inflateRawSync(data, { maxOutputLength: MAX_INFLATED_BYTES })
+      : inflateSync(data, { maxOutputLength: MAX_INFLATED_BYTES });
+  } catch {
+    return null;
+  }
+}
+
+// =============================================
+// PDF
+// =============================================
+
+function extractPdfText(pdf: Buffer): string {
+  const source = pdf.toString("latin1");
+  const pages: string[] = [];
+  const streamPattern = /stream\r?\n/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = streamPattern.exec(source))) {
+    const start = match.index + match[0].length;
+    const end = source.indexOf("endstream", start);
+    if (end === -1) break;
+    // The stream dictionary sits between the object header and the stream keyword
+    const dictStart = source.lastIndexOf(" obj", match.index);
+    const dict = dictStart === -1 ? "" : source.slice(dictStart, match.index);
+    streamPattern.lastIndex = end;
+
+    if (/\/Subtype\s*\/Image|\/Type\s*\/(XRef|ObjStm|XObject)/.test(dict)) continue;
+    let data: Buffer | null = pdf.subarray(start, end);
+    if (/\/FlateDecode/.test(dict)) {
+      data = inflate(data, false) ?? inflate(data, true);
+    } else if (/\/Filter/.test(dict)) {
+      continue; // Other filters carry images or fonts, not text
+    }
+    if (!data) continue;
+    const content = data.toString("latin1");
+    if (!/\bBT\b/.test(content)) continue;
+    pages.push(readPdfContent(content));
+  }
+  return pages.join("\n");
+}
+
+type PdfToken = { kind: "string"; value: string } | { kind: "number"; value: number } | { kind: "op"; value: string } | { kind: "array"; value: PdfToken[] };
+
+// Decode a PDF literal string body (without the outer parentheses)
+function decodeLiteral(raw: string): string {
+  return raw.replace(/\\(\r\n|[\r\n]|[0-7]{1,3}|.)/g, (_, esc: string) => {
+    if (/^[0-7]+$/.test(esc)) return String.fromCharCode(parseInt(esc, 8));
+    switch (esc) {
+      case "n": return "\n";
+      case "r": return "\r";
+      case "t": return "\t";
+      case "b": return "\b";
+      case "f": return "\f";
+      case "\r\n":
+      case "\r":
+      case "\n": return "";
+      default: return esc;
+    }
+  });
+}
+
+// Hex strings are either single-byte text or UTF-16BE (with or without a BOM)
+function decodeHex(hex: string): string {
+  const clean = hex.replace(/[^0-9a-fA-F]/g, "");
+  const bytes = Buffer.from(clean.length % 2 ? `${clean}0` : clean, "hex");
+  const utf16 = bytes.length >= 2 && bytes.length % 2 === 0 && (bytes[0] === 0xfe || bytes.every((b, i) => i % 2 === 1 || b === 0));
+  if (!utf16) return bytes.toString("latin1");
+  const body = bytes[0] === 0xfe && bytes[1] === 0xff ? bytes.subarray(2) : bytes;
+  let out = "";
+  for (let i = 0; i + 1 < body.length; i += 2) out += String.fromCharCode((body[i] << 8) | body[i + 1]);
+  return out;
+}
+
+function tokenizePdfContent(content: string): PdfToken[] {
+  const tokens: PdfToken[] = [];
+  const stack: PdfToken[][] = [tokens];
+  const push = (token: PdfToken) => stack[stack.length - 1].push(token);
+  let i = 0;
+
+  while (i < content.length) {
+    const ch = content[i];
+    if (ch === "(") {
+      let depth = 1;
+      let j = i + 1;
+      while (j < content.length && depth > 0) {
+        if (content[j] === "\\") j++;
+        else if (content[j] === "(") depth++;
+        else if (content[j] === ")") depth--;
+        j++;
+      }
+      push({ kind: "string", value: decodeLiteral(content.slice(i + 1, j - 1)) });
+      i = j;
+    } else if (ch === "<" && content[i + 1] !== "<") {
+      const j = content.indexOf(">", i);
+      if (j === -1) break;
+      push({ kind: "string", value: decodeHex(content.slice(i + 1, j)) });
+      i = j + 1;
+    } else if (ch === "[") {
+      const array: PdfToken[] = [];
+      push({ kind: "array", value: array });
+      stack.push(array);
+      i++;
+    } else if (ch === "]") {
+      if (stack.length > 1) stack.pop();
+      i++;
+    } else if (ch === "%") {
+      const j = content.indexOf("\n", i);
+      i = j === -1 ? content.length : j;
+    } else if (/[-+.\d]/.test(ch)) {
+      const m = /^[-+]?(\d+\.?\d*|\.\d+)/.exec(content.slice(i, i + 32));
+      if (m) {
+        push({ kind: "number", value: parseFloat(m[0]) });
+        i += m[0].length;
+      } else {
+        i++;
+      }
+    } else if (/[A-Za-z'"*]/.test(ch)) {
+      const m = /^[A-Za-z'"*]+/.exec(content.slice(i, i + 16))!;
+      push({ kind: "op", value: m[0] });
+      i += m[0].length;
+    } else if (ch === "/") {
+      const m = /^\/[^\s/<>[\]()%{}]*/.exec(content.slice(i, i + 128))!;
+      i += m[0].length; // Names (fonts, resources) carry no text
+    } else {
+      i++;
+    }
+  }
+  return tokens;
+}
+
+function readPdfContent(content: string): string {
+  let out = "";
+  let operands: PdfToken[] = [];
+  let lastY: number | null = null;
+  const newline = () => {
+    if (out && !out.endsWith("\n")) out += "\n";
+  };
+  const show = (text: string) => {
+    out += text;
+  };
+
+  for (const token of tokenizePdfContent(content)) {
+    if (token.kind !== "op") {
+      operands.push(token);
+      continue;
+    }
+    const nums = operands.filter((t): t is { kind: "number"; value: number } => t.kind === "number").map((t) => t.value);
+    switch (token.value) {
+      case "Tj":
+      case "'":
+      case '"': {
+        if (token.value !== "Tj") newline();
+        const str = operands.filter((t) => t.kind === "string").pop();
+        if (str) show(str.value as string);
+        break;
+      }
+      case "TJ": {
+        const array = operands.find((t) => t.kind === "array");
+        for (const part of (array?.value as PdfToken[]) ?? []) {
+          if (part.kind === "string") show(part.value);
+          // Large negative kerning is how many generators encode a word space
+          else if (part.kind === "number" && part.value < -200) show(" ");
+        }
+        break;
+      }
+      case "Td":
+      case "TD":
+        if (nums.length >= 2 && Math.abs(nums[1]) > 0.5) newline();
+        else show(" ");
+        break;
+      case "Tm":
+        if (nums.length >= 6) {
+          if (lastY !== null && Math.abs(nums[5] - lastY) > 0.5) newline();
+          else if (lastY !== null) show(" ");
+          lastY = nums[5];
+        }
+        break;
+      case "T*":
+        newline();
+        break;
+      case "ET":
+        newline();
+        break;
+    }
+    operands = [];
+  }
+  return out;
+}
+
+// =============================================
+// DOCX
+// =============================================
+
+/**
+ * Read one file out of a zip archive
+ * @param zip - Archive bytes
+ * @param name - Entry path, e.g. "word/document.xml"
+ * @returns Entry contents, or null if missing or unreadable
+ */
+export function readZipEntry(zip: Buffer, name: string): Buffer | null {
+  // End of central directory record: last 22 bytes plus an optional comment
+  let eocd = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+    if (zip.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) return null;
+
+  const entries = zip.readUInt16LE(eocd + 10);
+  let offset = zip.readUInt32LE(eocd + 16);
+  for (let n = 0; n < entries && offset + 46 <= zip.length; n++) {
+    if (zip.readUInt32LE(offset) !== 0x02014b50) return null;
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const entryName = zip.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (entryName !== name) continue;
+
+    if (localOffset + 30 > zip.length || zip.readUInt32LE(localOffset) !== 0x04034b50) return null;
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) return data;
+    if (method === 8) return inflate(data, true);
+    return null;
+  }
+  return null;
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, body: string) => {
+    if (body.startsWith("#x")) return String.fromCodePoint(parseInt(body.slice(2), 16));
+    if (body.startsWith("#")) return String.fromCodePoint(parseInt(body.slice(1), 10));
+    return XML_ENTITIES[body] ?? entity;
+  });
+}
+
+function extractDocxText(docx: Buffer): string {
+  const xml = readZipEntry(docx, "word/document.xml");
+  if (!xml) return "";
+  return decodeXmlEntities(
+    xml
+      .toString("utf8")
+      .replace(/<w:tab\/>/g, "\t")
+      .replace(/<w:(br|cr)\/>/g, "\n")
+      .replace(/<\/w:p>/g, "\n")
+      .replace(/<[^>]+>/g, "")
+  );
+}
+
+// =============================================
+// DOC (Word 97-2003)
+// =============================================
+
+// Word stores body text either as UTF-16LE or as single-byte cp1252; keep
+// whichever decoding yields more readable text
+function extractDocText(doc: Buffer): string {
+  const runs = (text: string) => (text.match(/[\x20-\x7e\xa0-\xff\r\n\t]{4,}/g) ?? []).filter((run) => /[A-Za-z]{2,}/.test(run));
+  const wide = runs(doc.toString("utf16le"));
+  const narrow = runs(doc.toString("latin1"));
+  const length = (xs: string[]) => xs.reduce((sum, x) => sum + x.length, 0);
+  return (length(wide) >= length(narrow) ? wide : narrow).join("\n").replace(/\r/g, "\n");
+}
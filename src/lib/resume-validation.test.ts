@@ -0,0 +1,218 @@
+import { describe, it, expect, vi } from "vitest";
+import { deflateRawSync, deflateSync } from "zlib";
+import { DOCX_MIME, DOC_MIME, PDF_MIME } from "./resume-text";
+import {
+  EICAR_SIGNATURE,
+  MAX_RESUME_BYTES,
+  MAX_RESUME_PAGES,
+  createSignatureScanner,
+  sniffResumeType,
+  validateAttachmentUpload,
+  validateResumeUpload,
+} from "./resume-validation";
+
+// Minimal zip writer (deflate) for building test documents
+function makeZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const data = deflateRawSync(Buffer.from(content));
+    const nameBytes = Buffer.from(name);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt16LE(nameBytes.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, nameBytes, data);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+// Minimal OLE2 compound file: FAT in sector 0, directory in sector 1, streams after
+function makeCompoundFile(streams: Record<string, Buffer>, storages: string[] = []): Buffer {
+  const SECTOR = 512;
+  const sectors: Buffer[] = [];
+  const fat = [0xfffffffd, 0xfffffffe];
+  const entries: { name: string; type: number; start: number; size: number }[] = [{ name: "Root Entry", type: 5, start: 0xfffffffe, size: 0 }];
+  for (const name of storages) entries.push({ name, type: 1, start: 0, size: 0 });
+  for (const [name, data] of Object.entries(streams)) {
+    const start = fat.length;
+    const count = Math.ceil(data.length / SECTOR);
+    for (let i = 0; i < count; i++) {
+      fat.push(i === count - 1 ? 0xfffffffe : start + i + 1);
+      sectors.push(Buffer.concat([data.subarray(i * SECTOR, (i + 1) * SECTOR), Buffer.alloc(SECTOR)]).subarray(0, SECTOR));
+    }
+    entries.push({ name, type: 2, start, size: data.length });
+  }
+
+  const header = Buffer.alloc(SECTOR, 0xff);
+  header.writeUInt32BE(0xd0cf11e0, 0);
+  header.writeUInt32BE(0xa1b11ae1, 4);
+  header.fill(0, 8, 0x4c);
+  header.writeUInt16LE(9, 0x1e);
+  header.writeUInt32LE(1, 0x2c);
+  header.writeUInt32LE(1, 0x30);
+  header.writeUInt32LE(0, 0x4c);
+
+  const fatSector = Buffer.alloc(SECTOR, 0xff);
+  fat.forEach((next, i) => fatSector.writeUInt32LE(next, i * 4));
+
+  const directory = Buffer.alloc(SECTOR);
+  entries.slice(0, 4).forEach((entry, i) => {
+    const offset = i * 128;
+    directory.write(entry.name, offset, "utf16le");
+    directory.writeUInt16LE((entry.name.length + 1) * 2, offset + 0x40);
+    directory[offset + 0x42] = entry.type;
+    directory.writeUInt32LE(entry.start, offset + 0x74);
+    directory.writeUInt32LE(entry.size, offset + 0x78);
+  });
+  return Buffer.concat([header, fatSector, directory, ...sectors]);
+}
+
+function wordDocumentStream(encrypted: boolean): Buffer {
+  const stream = Buffer.alloc(5000);
+  stream.writeUInt16LE(0xa5ec, 0);
+  stream.writeUInt16LE(encrypted ? 0x0100 : 0, 0x0a);
+  return stream;
+}
+
+function makePdf(pages: number, extra = ""): Buffer {
+  const kids = Array.from({ length: pages }, (_, i) => `${i + 3} 0 obj\n<< /Type /Page /Parent 2 0 R >>\nendobj\n`).join("");
+  return Buffer.from(`%PDF-1.7\n1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n2 0 obj\n<< /Type /Pages /Count ${pages} >>\nendobj\n${kids}trailer\n<< /Root 1 0 R${extra} >>\n%%EOF\n`, "latin1");
+}
+
+const docx = (files: Record<string, string> = {}) =>
+  makeZip({ "[Content_Types].xml": "<Types/>", "word/document.xml": "<w:document/>", ...files });
+
+const validate = (bytes: Buffer, type: string, name = "resume") => validateResumeUpload(bytes, { name, type });
+
+describe("resume upload validation", () => {
+  it("identifies formats from their magic bytes", () => {
+    expect(sniffResumeType(makePdf(1))).toBe(PDF_MIME);
+    expect(sniffResumeType(makeCompoundFile({ WordDocument: wordDocumentStream(false) }))).toBe(DOC_MIME);
+    expect(sniffResumeType(docx())).toBe(DOCX_MIME);
+    expect(sniffResumeType(makeZip({ "notes.txt": "hi" }))).toBeNull();
+    expect(sniffResumeType(Buffer.from("plain text"))).toBeNull();
+  });
+
+  it("accepts well-formed resumes and reports their page count", async () => {
+    expect(await validate(makePdf(2), PDF_MIME)).toEqual({ ok: true, mimeType: PDF_MIME, pageCount: 2 });
+    expect(await validate(docx({ "docProps/app.xml": "<Properties><Pages>3</Pages></Properties>" }), DOCX_MIME)).toEqual({
+      ok: true,
+      mimeType: DOCX_MIME,
+      pageCount: 3,
+    });
+    expect(await validate(makeCompoundFile({ WordDocument: wordDocumentStream(false) }), DOC_MIME)).toEqual({
+      ok: true,
+      mimeType: DOC_MIME,
+      pageCount: null,
+    });
+  });
+
+  it("rejects disallowed types, oversized files, and content that doesn't match the declared type", async () => {
+    expect(await validate(Buffer.from("hi"), "text/plain")).toMatchObject({ ok: false, code: "INVALID_FILE_TYPE" });
+    expect(await validate(Buffer.alloc(MAX_RESUME_BYTES + 1), PDF_MIME)).toMatchObject({ ok: false, code: "FILE_TOO_LARGE" });
+    expect(await validate(Buffer.from("MZ\x90\x00 renamed.exe", "latin1"), PDF_MIME)).toMatchObject({ ok: false, code: "CONTENT_MISMATCH" });
+    expect(await validate(makePdf(1), DOCX_MIME)).toMatchObject({ ok: false, code: "CONTENT_MISMATCH" });
+  });
+
+  it("rejects password-protected documents", async () => {
+    expect(await validate(makePdf(1, " /Encrypt 9 0 R"), PDF_MIME)).toMatchObject({ ok: false, code: "ENCRYPTED_DOCUMENT" });
+    expect(await validate(makeCompoundFile({ WordDocument: wordDocumentStream(true) }), DOC_MIME)).toMatchObject({
+      ok: false,
+      code: "ENCRYPTED_DOCUMENT",
+    });
+    // Word wraps a password-protected DOCX in a compound file
+    const protectedDocx = makeCompoundFile({ EncryptionInfo: Buffer.alloc(4096), EncryptedPackage: Buffer.alloc(4096) });
+    expect(await validate(protectedDocx, DOCX_MIME)).toMatchObject({ ok: false, code: "ENCRYPTED_DOCUMENT" });
+  });
+
+  it("rejects macro-enabled documents", async () => {
+    const docm = docx({ "[Content_Types].xml": '<Types><Override ContentType="application/vnd.ms-word.document.macroEnabled.main+xml"/></Types>' });
+    expect(await validate(docm, DOCX_MIME)).toMatchObject({ ok: false, code: "MACROS_NOT_ALLOWED" });
+    expect(await validate(docx({ "word/vbaProject.bin": "vba" }), DOCX_MIME)).toMatchObject({ ok: false, code: "MACROS_NOT_ALLOWED" });
+    const doc = makeCompoundFile({ WordDocument: wordDocumentStream(false) }, ["Macros"]);
+    expect(await validate(doc, DOC_MIME)).toMatchObject({ ok: false, code: "MACROS_NOT_ALLOWED" });
+  });
+
+  it("caps the page count, including pages inside compressed object streams", async () => {
+    expect(await validate(makePdf(MAX_RESUME_PAGES + 1), PDF_MIME)).toMatchObject({ ok: false, code: "TOO_MANY_PAGES" });
+
+    const packed = deflateSync(Buffer.from("<< /Type /Page >> ".repeat(MAX_RESUME_PAGES + 1), "latin1"));
+    const pdf = Buffer.concat([
+      Buffer.from(`%PDF-1.7\n5 0 obj\n<< /Type /ObjStm /N 11 /Length ${packed.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+      packed,
+      Buffer.from("\nendstream\nendobj\n%%EOF\n", "latin1"),
+    ]);
+    expect(await validate(pdf, PDF_MIME)).toMatchObject({ ok: false, code: "TOO_MANY_PAGES" });
+
+    const longDocx = docx({ "docProps/app.xml": `<Properties><Pages>${MAX_RESUME_PAGES + 5}</Pages></Properties>` });
+    expect(await validate(longDocx, DOCX_MIME)).toMatchObject({ ok: false, code: "TOO_MANY_PAGES" });
+  });
+
+  it("runs the scanner last and fails closed when it errors", async () => {
+    const infected = makePdf(1, ` /Comment (${EICAR_SIGNATURE.pattern})`);
+    expect(await validate(infected, PDF_MIME)).toMatchObject({ ok: false, code: "MALWARE_DETECTED", message: "Malware detected: Eicar-Test-Signature" });
+
+    const scanner = vi.fn(async () => ({ clean: true as const }));
+    await validateResumeUpload(makePdf(1), { name: "cv.pdf", type: PDF_MIME }, { scanner });
+    expect(scanner).toHaveBeenCalledWith(expect.any(Buffer), "cv.pdf");
+    await validateResumeUpload(Buffer.from("not a pdf"), { name: "cv.pdf", type: PDF_MIME }, { scanner });
+    expect(scanner).toHaveBeenCalledTimes(1);
+
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const unavailable = async () => {
+      throw new Error("clamd unreachable");
+    };
+    expect(await validateResumeUpload(makePdf(1), { name: "cv.pdf", type: PDF_MIME }, { scanner: unavailable })).toMatchObject({
+      ok: false,
+      code: "SCAN_FAILED",
+    });
+
+    const custom = createSignatureScanner([{ name: "Test.Custom", pattern: "BADBYTES" }]);
+    expect(await custom(Buffer.from("xxBADBYTESxx"), "cv.pdf")).toEqual({ clean: false, signature: "Test.Custom" });
+  });
+});
+
+describe("attachment upload validation", () => {
+  const attach = (bytes: Buffer, type: string) => validateAttachmentUpload(bytes, { name: "answer", type });
+  const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]);
+  const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 16]);
+
+  it("accepts documents, images and text whose contents match their type", async () => {
+    expect(await attach(makePdf(MAX_RESUME_PAGES + 1), PDF_MIME)).toEqual({ ok: true, mimeType: PDF_MIME, pageCount: MAX_RESUME_PAGES + 1 });
+    expect(await attach(PNG, "image/png")).toEqual({ ok: true, mimeType: "image/png", pageCount: null });
+    expect(await attach(JPEG, "image/jpeg")).toEqual({ ok: true, mimeType: "image/jpeg", pageCount: null });
+    expect(await attach(Buffer.from("Portfolio: https://example.com — café"), "text/plain")).toMatchObject({ ok: true });
+  });
+
+  it("rejects renamed, encrypted, macro-enabled and infected files", async () => {
+    expect(await attach(Buffer.from("MZ\x90\x00 renamed.exe", "latin1"), "image/png")).toMatchObject({ ok: false, code: "CONTENT_MISMATCH" });
+    expect(await attach(PNG, "image/jpeg")).toMatchObject({ ok: false, code: "CONTENT_MISMATCH" });
+    expect(await attach(PNG, "text/plain")).toMatchObject({ ok: false, code: "CONTENT_MISMATCH" });
+    expect(await attach(Buffer.from("plain text"), PDF_MIME)).toMatchObject({ ok: false, code: "CONTENT_MISMATCH" });
+    expect(await attach(makePdf(1, " /Encrypt 9 0 R"), PDF_MIME)).toMatchObject({ ok: false, code: "ENCRYPTED_DOCUMENT" });
+    expect(await attach(docx({ "word/vbaProject.bin": "vba" }), DOCX_MIME)).toMatchObject({ ok: false, code: "MACROS_NOT_ALLOWED" });
+    expect(await attach(Buffer.from(`notes ${EICAR_SIGNATURE.pattern}`, "latin1"), "text/plain")).toMatchObject({
+      ok: false,
+      code: "MALWARE_DETECTED",
+    });
+    expect(await attach(Buffer.from("<script></script>"), "text/html")).toMatchObject({ ok: false, code: "INVALID_FILE_TYPE" });
+  });
+});
@@ -0,0 +1,333 @@
+import { DOCX_MIME, DOC_MIME, PDF_MIME, inflate, readZipEntry } from "@/lib/resume-text";
+
+/**
+ * Resume Upload Validation
+ *
+ * The browser's file.type comes from the file extension, so it says nothing
+ * about what was actually uploaded. Uploads are checked against their content:
+ *
+ *   type       magic bytes must match the declared type (%PDF-, an OLE2
+ *              compound file for DOC, a zip with word/document.xml for DOCX)
+ *   encrypted  password-protected files can't be read by recruiters or the
+ *              resume parser (PDF /Encrypt, Word's fEncrypted flag, and DOCX
+ *              files saved with a password, which Word wraps in an OLE2 file)
+ *   macros     macro-enabled Word files (.docm renamed to .docx, or a DOC with
+ *              a Macros storage)
+ *   pages      at most MAX_RESUME_PAGES; counted for PDF, and for DOCX from the
+ *              page count Word stores in docProps/app.xml. DOC isn't counted.
+ *   scanner    a ResumeScanner looks for malware last. The default is a local
+ *              signature matcher; a deployment with ClamAV can pass its own.
+ *
+ * Failures come back as a ResumeRejectionCode, which the API returns as
+ * { error: code } and the profile page turns into a message.
+ *
+ * validateAttachmentUpload() applies the same checks (without the page limit)
+ * to supplemental question files, and sniffs the other types those accept:
+ * PNG and JPEG by signature, plain text as UTF-8 without NUL bytes.
+ */
+
+export const MAX_RESUME_BYTES = 5 * 1024 * 1024; // 5 MB
+export const MAX_RESUME_PAGES = 10;
+
+export const ALLOWED_MIME_TYPES = new Set([PDF_MIME, DOC_MIME, DOCX_MIME]);
+
+const PNG_MIME = "image/png";
+const JPEG_MIME = "image/jpeg";
+const TEXT_MIME = "text/plain";
+
+export const ALLOWED_ATTACHMENT_MIME_TYPES = new Set([...ALLOWED_MIME_TYPES, PNG_MIME, JPEG_MIME, TEXT_MIME]);
+
+export type ResumeRejectionCode =
+  | "FILE_TOO_LARGE"
+  | "INVALID_FILE_TYPE"
+  | "CONTENT_MISMATCH"
+  | "ENCRYPTED_DOCUMENT"
+  | "MACROS_NOT_ALLOWED"
+  | "TOO_MANY_PAGES"
+  | "MALWARE_DETECTED"
+  | "SCAN_FAILED";
+
+export type ResumeScanVerdict = { clean: true } | { clean: false; signature: string };
+
+/**
+ * Malware check run on every upload that passed the format checks. Throwing
+ * rejects the upload with SCAN_FAILED rather than letting it through.
+ */
+export type ResumeScanner = (bytes: Buffer, fileName: string) => Promise<ResumeScanVerdict>;
+
+export type ResumeSignature = { name: string; pattern: string };
+
+export type ResumeValidationResult =
+  | { ok: true; mimeType: string; pageCount: number | null }
+  | { ok: false; code: ResumeRejectionCode; message: string };
+
+// The EICAR test string: every antivirus engine flags it, so it exercises the
+// rejection path without handling real malware
+export const EICAR_SIGNATURE: ResumeSignature = {
+  name: "Eicar-Test-Signature",
+  pattern: "X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*",
+};
+
+/**
+ * Scanner that reports the first signature found anywhere in the file, named
+ * the way ClamAV names its matches
+ */
+export function createSignatureScanner(signatures: ResumeSignature[]): ResumeScanner {
+  return async (bytes) => {
+    for (const signature of signatures) {
+      if (bytes.includes(signature.pattern, 0, "latin1")) return { clean: false, signature: signature.name };
+    }
+    return { clean: true };
+  };
+}
+
+export const localSignatureScanner = createSignatureScanner([EICAR_SIGNATURE]);
+
+function reject(code: ResumeRejectionCode, message: string): ResumeValidationResult {
+  return { ok: false, code, message };
+}
+
+/**
+ * Check an uploaded resume's size, content, and safety
+ * @param bytes - File contents
+ * @param declared - File name and the type the browser reported
+ * @param options.scanner - Malware scanner (defaults to localSignatureScanner)
+ * @returns The verified MIME type and page count (null when not counted), or why the file was rejected
+ */
+export async function validateResumeUpload(
+  bytes: Uint8Array,
+  declared: { name: string; type: string },
+  options: { scanner?: ResumeScanner } = {}
+): Promise<ResumeValidationResult> {
+  const buffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (buffer.byteLength > MAX_RESUME_BYTES) {
+    return reject("FILE_TOO_LARGE", `Resumes must be ${MAX_RESUME_BYTES / (1024 * 1024)} MB or less`);
+  }
+  if (!ALLOWED_MIME_TYPES.has(declared.type)) {
+    return reject("INVALID_FILE_TYPE", "Resumes must be PDF, DOC, or DOCX files");
+  }
+
+  const checked = checkDocument(buffer, declared.type);
+  if (!checked.ok) return checked;
+  if (checked.pageCount !== null && checked.pageCount > MAX_RESUME_PAGES) {
+    return reject("TOO_MANY_PAGES", `Resumes can be at most ${MAX_RESUME_PAGES} pages (this one has ${checked.pageCount})`);
+  }
+
+  return (await scan(buffer, declared.name, options.scanner)) ?? checked;
+}
+
+/**
+ * Check a supplemental question file's content and safety. The question's own
+ * size and extension rules are checked separately (checkFileAgainstRules).
+ * @param bytes - File contents
+ * @param declared - File name and the type its extension maps to
+ * @param options.scanner - Malware scanner (defaults to localSignatureScanner)
+ * @returns The verified MIME type and page count (null when not counted), or why the file was rejected
+ */
+export async function validateAttachmentUpload(
+  bytes: Uint8Array,
+  declared: { name: string; type: string },
+  options: { scanner?: ResumeScanner } = {}
+): Promise<ResumeValidationResult> {
+  const buffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (!ALLOWED_ATTACHMENT_MIME_TYPES.has(declared.type)) {
+    return reject("INVALID_FILE_TYPE", "This file type can't be uploaded");
+  }
+
+  let checked: ResumeValidationResult;
+  if (ALLOWED_MIME_TYPES.has(declared.type)) {
+    checked = checkDocument(buffer, declared.type);
+  } else if (sniffAttachmentType(buffer) === declared.type) {
+    checked = { ok: true, mimeType: declared.type, pageCount: null };
+  } else {
+    checked = reject("CONTENT_MISMATCH", "The file's contents don't match its type");
+  }
+  if (!checked.ok) return checked;
+
+  return (await scan(buffer, declared.name, options.scanner)) ?? checked;
+}
+
+// Content, encryption and macro checks for PDF, DOC and DOCX; counts pages where it can
+function checkDocument(buffer: Buffer, declaredType: string): ResumeValidationResult {
+  const detected = sniffResumeType(buffer);
+  let compound: CompoundFile | null = null;
+  if (detected === DOC_MIME) {
+    compound = readCompoundFile(buffer);
+    // Word saves password-protected DOCX files inside an OLE2 container
+    if (compound && (compound.has("EncryptedPackage") || compound.has("EncryptionInfo"))) {
+      return reject("ENCRYPTED_DOCUMENT", "Password-protected documents can't be uploaded");
+    }
+  }
+  if (!detected || detected !== declaredType) {
+    return reject("CONTENT_MISMATCH", "The file's contents don't match its type");
+  }
+
+  let pageCount: number | null = null;
+  if (detected === PDF_MIME) {
+    if (isEncryptedPdf(buffer)) return reject("ENCRYPTED_DOCUMENT", "Password-protected documents can't be uploaded");
+    pageCount = countPdfPages(buffer);
+  } else if (detected === DOCX_MIME) {
+    if (hasDocxMacros(buffer)) return reject("MACROS_NOT_ALLOWED", "Macro-enabled documents can't be uploaded");
+    pageCount = readDocxPageCount(buffer);
+  } else if (compound) {
+    if (compound.has("Macros") || compound.has("_VBA_PROJECT")) {
+      return reject("MACROS_NOT_ALLOWED", "Macro-enabled documents can't be uploaded");
+    }
+    if (isEncryptedDoc(compound)) return reject("ENCRYPTED_DOCUMENT", "Password-protected documents can't be uploaded");
+  }
+  return { ok: true, mimeType: detected, pageCount };
+}
+
+// Run the malware scanner; returns the rejection, or null when the file is clean
+async function scan(buffer: Buffer, name: string, scanner: ResumeScanner = localSignatureScanner): Promise<ResumeValidationResult | null> {
+  try {
+    const verdict = await scanner(buffer, name);
+    if (!verdict.clean) return reject("MALWARE_DETECTED", `Malware detected: ${verdict.signature}`);
+  } catch (error) {
+    console.error("Upload scan failed:", error);
+    return reject("SCAN_FAILED", "The file couldn't be scanned");
+  }
+  return null;
+}
+
+/**
+ * Identify a resume format from its leading bytes
+ * @returns PDF_MIME, DOC_MIME (any OLE2 compound file), DOCX_MIME, or null for anything else
+ */
+export function sniffResumeType(bytes: Buffer): string | null {
+  // The PDF header may follow up to 1 KB of leading junk
+  if (bytes.subarray(0, 1024).includes("%PDF-", 0, "latin1")) return PDF_MIME;
+  if (bytes.length >= 8 && bytes.readUInt32BE(0) === 0xd0cf11e0 && bytes.readUInt32BE(4) === 0xa1b11ae1) return DOC_MIME;
+  if (bytes.length >= 4 && bytes.readUInt32LE(0) === 0x04034b50) {
+    if (readZipEntry(bytes, "[Content_Types].xml") && readZipEntry(bytes, "word/document.xml")) return DOCX_MIME;
+  }
+  return null;
+}
+
+/**
+ * Identify an image or plain text attachment from its content
+ * @returns PNG, JPEG or text/plain MIME type, or null for anything else
+ */
+function sniffAttachmentType(bytes: Buffer): string | null {
+  if (bytes.length >= 8 && bytes.readUInt32BE(0) === 0x89504e47 && bytes.readUInt32BE(4) === 0x0d0a1a0a) return PNG_MIME;
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return JPEG_MIME;
+  if (!bytes.includes(0)) {
+    try {
+      new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+      return TEXT_MIME;
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+// =============================================
+// PDF
+// =============================================
+
+function isEncryptedPdf(pdf: Buffer): boolean {
+  // The trailer (or cross-reference stream dictionary) references the encryption dictionary
+  return /\/Encrypt\s*(\d+\s+\d+\s+R|<<)/.test(pdf.toString("latin1"));
+}
+
+// Count page objects, including those packed into compressed object streams
+function countPdfPages(pdf: Buffer): number {
+  const source = pdf.toString("latin1");
+  let objects = source;
+  const objectStream = /\/Type\s*\/ObjStm[^]*?stream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = objectStream.exec(source))) {
+    const start = match.index + match[0].length;
+    const end = source.indexOf("endstream", start);
+    if (end === -1) break;
+    const data = inflate(pdf.subarray(start, end), false);
+    if (data) objects += data.toString("latin1");
+  }
+  return (objects.match(/\/Type\s*\/Page(?![A-Za-z])/g) ?? []).length;
+}
+
+// =============================================
+// DOCX
+// =============================================
+
+function hasDocxMacros(docx: Buffer): boolean {
+  const contentTypes = readZipEntry(docx, "[Content_Types].xml")?.toString("utf8") ?? "";
+  return /macroEnabled/i.test(contentTypes) || readZipEntry(docx, "word/vbaProject.bin") !== null;
+}
+
+function readDocxPageCount(docx: Buffer): number | null {
+  const appXml = readZipEntry(docx, "docProps/app.xml")?.toString("utf8");
+  const match = appXml?.match(/<Pages>(\d+)<\/Pages>/);
+  return match ? Number(match[1]) : null;
+}
+
+// =============================================
+// DOC (OLE2 compound file)
+// =============================================
+
+type CompoundFile = {
+  has: (name: string) => boolean;
+  readStream: (name: string, length: number) => Buffer | null;
+};
+
+const END_OF_CHAIN = 0xfffffffe;
+const MAX_REGULAR_SECTOR = 0xfffffffa;
+const MINI_STREAM_CUTOFF = 4096;
+
+// Minimal reader for the directory and large streams of a compound file. Only
+// the FAT sectors listed in the header are read, which covers files up to
+// ~7 MB with 512-byte sectors (well over MAX_RESUME_BYTES).
+function readCompoundFile(file: Buffer): CompoundFile | null {
+  if (file.length < 512) return null;
+  const sectorSize = 1 << file.readUInt16LE(0x1e);
+  if (sectorSize !== 512 && sectorSize !== 4096) return null;
+  const sectorOffset = (sector: number) => (sector + 1) * sectorSize;
+
+  const fat: number[] = [];
+  const fatSectors = Math.min(file.readUInt32LE(0x2c), 109);
+  for (let i = 0; i < fatSectors; i++) {
+    const offset = sectorOffset(file.readUInt32LE(0x4c + i * 4));
+    for (let j = 0; j < sectorSize && offset + j + 4 <= file.length; j += 4) fat.push(file.readUInt32LE(offset + j));
+  }
+
+  // Follow a sector chain, stopping at corrupt links or loops
+  const chain = (start: number): Buffer => {
+    const parts: Buffer[] = [];
+    const seen = new Set<number>();
+    for (let sector = start; sector < MAX_REGULAR_SECTOR && !seen.has(sector); sector = fat[sector] ?? END_OF_CHAIN) {
+      seen.add(sector);
+      const offset = sectorOffset(sector);
+      if (offset >= file.length) break;
+      parts.push(file.subarray(offset, offset + sectorSize));
+    }
+    return Buffer.concat(parts);
+  };
+
+  const entries = new Map<string, { start: number; size: number }>();
+  const directory = chain(file.readUInt32LE(0x30));
+  for (let offset = 0; offset + 128 <= directory.length; offset += 128) {
+    const nameLength = directory.readUInt16LE(offset + 0x40);
+    const type = directory[offset + 0x42];
+    if (type === 0 || nameLength < 2 || nameLength > 64) continue;
+    const name = directory.toString("utf16le", offset, offset + nameLength - 2);
+    entries.set(name, { start: directory.readUInt32LE(offset + 0x74), size: directory.readUInt32LE(offset + 0x78) });
+  }
+
+  return {
+    has: (name) => entries.has(name),
+    readStream: (name, length) => {
+      const entry = entries.get(name);
+      // Small streams live in the mini stream, which nothing here needs
+      if (!entry || entry.size < MINI_STREAM_CUTOFF) return null;
+      return chain(entry.start).subarray(0, Math.min(length, entry.size));
+    },
+  };
+}
+
+// Word's File Information Block starts the WordDocument stream; fEncrypted is bit 8 of the flags at 0x0A
+function isEncryptedDoc(doc: CompoundFile): boolean {
+  const fib = doc.readStream("WordDocument", 12);
+  if (!fib || fib.length < 12 || fib.readUInt16LE(0) !== 0xa5ec) return false;
+  return (fib.readUInt16LE(0x0a) & 0x0100) !== 0;
+}
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  defaultResumeLabel,
+  deleteResumeVersion,
+  resumeDownloadPath,
+  snapshotResume,
+  storagePathFromUrl,
+  toResumeVersion,
+} from "./resumes";
+import type { CandidateResume } from "@/lib/types/database";
+
+function version(id: string, createdAt: string): CandidateResume {
+  return {
+    id,
+    candidate_id: "user-1",
+    label: `Resume ${id}`,
+    storage_path: `user-1/${id}.pdf`,
+    url: `https://example.com/object/public/resumes/user-1/${id}.pdf`,
+    original_name: `${id}.pdf`,
+    mime_type: "application/pdf",
+    size_bytes: "2048",
+    created_at: createdAt,
+    updated_at: createdAt,
+  };
+}
+
+// In-memory candidate_resumes / candidate_profiles tables and a fake storage bucket
+function createFakeSupabase(resumes: CandidateResume[], options: { copyFails?: boolean } = {}) {
+  const profileUpdates: Record<string, unknown>[] = [];
+  const removed: string[] = [];
+  const copies: [string, string][] = [];
+  const supabase = {
+    from: vi.fn((table: string) => {
+      const filters: ((row: any) => boolean)[] = [];
+      let action: "select" | "delete" | "update" = "select";
+      let patch: Record<string, unknown> = {};
+      const query = {
+        select: vi.fn(() => query),
+        delete: vi.fn(() => {
+          action = "delete";
+          return query;
+        }),
+        update: vi.fn((values: Record<string, unknown>) => {
+          action = "update";
+          patch = values;
+          return query;
+        }),
+        eq: vi.fn((column: string, value: unknown) => {
+          filters.push((row) => row[column] === value);
+          return query;
+        }),
+        order: vi.fn(() => query),
+        limit: vi.fn(() => query),
+        then: (resolve: (value: unknown) => void) => {
+          if (table === "candidate_profiles") {
+            profileUpdates.push(patch);
+            return resolve({ error: null });
+          }
+          const matched = resumes.filter((row) => filters.every((f) => f(row)));
+          if (action === "delete") {
+            for (const row of matched) resumes.splice(resumes.indexOf(row), 1);
+            return resolve({ error: null });
+          }
+          const newestFirst = [...matched].sort((a, b) => b.created_at.localeCompare(a.created_at));
+          resolve({ data: newestFirst, error: null });
+        },
+      };
+      return query;
+    }),
+    storage: {
+      from: vi.fn(() => ({
+        remove: vi.fn(async (paths: string[]) => {
+          removed.push(...paths);
+          return { error: null };
+        }),
+        copy: vi.fn(async (from: string, to: string) => {
+          if (options.copyFails) return { error: { message: "copy failed" } };
+          copies.push([from, to]);
+          return { error: null };
+        }),
+        getPublicUrl: vi.fn((path: string) => ({ data: { publicUrl: `https://example.com/object/public/resumes/${path}` } })),
+      })),
+    },
+  };
+  return { supabase: supabase as any, profileUpdates, removed, copies };
+}
+
+describe("resume versions", () => {
+  it("names unlabeled uploads after the file", () => {
+    expect(defaultResumeLabel("Jane_Doe Backend.pdf")).toBe("Jane Doe Backend");
+    expect(defaultResumeLabel(".pdf")).toBe("Resume");
+    expect(defaultResumeLabel(`${"a".repeat(150)}.docx`)).toHaveLength(100);
+  });
+
+  it("marks the version matching the profile resume as the default", () => {
+    const row = version("a", "2025-12-01T00:00:00Z");
+    expect(toResumeVersion(row, row.storage_path)).toMatchObject({
+      id: "a",
+      url: "/api/resume/versions/a/download",
+      size: 2048,
+      isDefault: true,
+    });
+    expect(toResumeVersion(row, "user-1/other.pdf").isDefault).toBe(false);
+    expect(toResumeVersion(row, null).isDefault).toBe(false);
+  });
+
+  it("reads storage paths out of stored object URLs", () => {
+    expect(storagePathFromUrl("https://abc.supabase.co/storage/v1/object/public/resumes/user-1/cv%20v2.pdf")).toBe("user-1/cv v2.pdf");
+    expect(storagePathFromUrl("https://abc.supabase.co/storage/v1/object/sign/resumes/user-1/cv.pdf?token=t")).toBe("user-1/cv.pdf");
+    expect(storagePathFromUrl("https://example.com/object/public/resumes/user-1/cv.pdf")).toBe("user-1/cv.pdf");
+    expect(storagePathFromUrl("https://example.com/resume.pdf")).toBeNull();
+    expect(storagePathFromUrl(null)).toBeNull();
+  });
+
+  it("links application files through the download route", () => {
+    expect(resumeDownloadPath("app-1")).toBe("/api/resume/app-1/download");
+    expect(resumeDownloadPath("app-1", "portfolio file")).toBe("/api/resume/app-1/download?attachment=portfolio%20file");
+  });
+
+  it("promotes the newest remaining version when the default is deleted", async () => {
+    const rows = [version("old", "2025-11-01T00:00:00Z"), version("new", "2025-12-01T00:00:00Z"), version("current", "2025-12-10T00:00:00Z")];
+    const { supabase, profileUpdates, removed } = createFakeSupabase(rows);
+
+    const result = await deleteResumeVersion(supabase, "user-1", rows[2], true);
+
+    expect(result).toEqual({ nextDefault: expect.objectContaining({ id: "new" }) });
+    expect(rows.map((r) => r.id)).toEqual(["old", "new"]);
+    expect(removed).toEqual(["user-1/current.pdf"]);
+    expect(profileUpdates).toEqual([expect.objectContaining({ resume_path: "user-1/new.pdf", resume_size: 2048 })]);
+  });
+
+  it("clears the profile resume when the last version is deleted, and leaves it alone otherwise", async () => {
+    const rows = [version("only", "2025-12-01T00:00:00Z")];
+    const { supabase, profileUpdates } = createFakeSupabase(rows);
+    expect(await deleteResumeVersion(supabase, "user-1", rows[0], true)).toEqual({ nextDefault: null });
+    expect(profileUpdates).toEqual([expect.objectContaining({ resume_url: null, resume_path: null })]);
+
+    const others = [version("a", "2025-12-01T00:00:00Z"), version("b", "2025-12-02T00:00:00Z")];
+    const second = createFakeSupabase(others);
+    await deleteResumeVersion(second.supabase, "user-1", others[0], false);
+    expect(second.profileUpdates).toEqual([]);
+  });
+
+  it("copies the submitted resume to the application's own path", async () => {
+    const { supabase, copies } = createFakeSupabase([]);
+    const snapshot = await snapshotResume(supabase, "user-1", "job-1", { storage_path: "user-1/cv.pdf", original_name: "My CV.pdf" });
+
+    expect(snapshot?.path).toMatch(/^user-1\/applications\/job-1\/\d+-My_CV\.pdf$/);
+    expect(snapshot).toEqual({ path: snapshot?.path });
+    expect(copies).toEqual([["user-1/cv.pdf", snapshot?.path]]);
+
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const failing = createFakeSupabase([], { copyFails: true });
+    expect(await snapshotResume(failing.supabase, "user-1", "job-1", { storage_path: "user-1/cv.pdf", original_name: "cv.pdf" })).toBeNull();
+  });
+});
@@ -0,0 +1,208 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import type { CandidateResume } from "@/lib/types/database";
+
+/**
+ * Resume Versions
+ *
+ * Candidates keep several named resumes in candidate_resumes and pick one per
+ * application. The default version is mirrored into the resume_* columns on
+ * candidate_profiles, which is what one-click apply and older readers use.
+ *
+ * Applying copies the picked version to <user_id>/applications/<job_id>/ in the
+ * "resumes" bucket and the application points at that copy, so recruiters see
+ * the file that was actually submitted even after the version is replaced or deleted.
+ *
+ * The bucket is private. Older resume_url values identify the object but can't
+ * be opened directly, so new applications store only resume_path; pages link to
+ * the download routes, which check access and redirect to a short-lived signed URL.
+ */
+
+export const RESUME_BUCKET = "resumes";
+export const MAX_RESUME_LABEL_LENGTH = 100;
+
+// Lifetime of a signed download link; each click on a download route signs a new one
+export const SIGNED_URL_TTL_SECONDS = 60;
+
+export const ResumeLabelSchema = z
+  .string()
+  .trim()
+  .min(1, "Resume name is required")
+  .max(MAX_RESUME_LABEL_LENGTH, `Resume name must be ${MAX_RESUME_LABEL_LENGTH} characters or less`);
+
+export const ResumeVersionUpdateSchema = z
+  .object({
+    label: ResumeLabelSchema.optional(),
+    isDefault: z.literal(true).optional(),
+  })
+  .refine((data) => data.label !== undefined || data.isDefault !== undefined, {
+    message: "Nothing to update",
+  });
+
+// Version as returned by the API
+export type ResumeVersion = {
+  id: string;
+  label: string;
+  url: string;
+  originalName: string;
+  size: number;
+  mimeType: string;
+  createdAt: string;
+  updatedAt: string;
+  isDefault: boolean;
+};
+
+/**
+ * Download route for an application's submitted resume, or for one of its file answers
+ * @param attachmentQuestionId - Supplemental question whose uploaded file to download
+ */
+export function resumeDownloadPath(applicationId: string, attachmentQuestionId?: string): string {
+  const path = `/api/resume/${encodeURIComponent(applicationId)}/download`;
+  return attachmentQuestionId ? `${path}?attachment=${encodeURIComponent(attachmentQuestionId)}` : path;
+}
+
+/**
+ * Download route for one of the signed-in candidate's resume versions
+ */
+export function versionDownloadPath(versionId: string): string {
+  return `/api/resume/versions/${encodeURIComponent(versionId)}/download`;
+}
+
+/**
+ * Storage path of a "resumes" bucket object from its public or signed URL
+ * @returns The path, or null for URLs outside the bucket (e.g. legacy external links)
+ */
+export function storagePathFromUrl(url: string | null | undefined): string | null {
+  if (!url) return null;
+  const match = url.match(new RegExp(`/storage/v1/object/(?:public|sign|authenticated)/${RESUME_BUCKET}/([^?#]+)`));
+  if (match) return decodeURIComponent(match[1]);
+  // Older rows were written without the /storage/v1 prefix
+  const marker = `/object/public/${RESUME_BUCKET}/`;
+  const index = url.indexOf(marker);
+  return index >= 0 ? decodeURIComponent(url.slice(index + marker.length).split(/[?#]/)[0]) : null;
+}
+
+/**
+ * Sign a short-lived download URL for a file in the bucket. Storage policies
+ * decide whether the caller may read it.
+ * @returns The signed URL, or null if the file can't be signed for this caller
+ */
+export async function signedResumeUrl(supabase: SupabaseClient, path: string): Promise<string | null> {
+  const { data, error } = await supabase.storage.from(RESUME_BUCKET).createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+  if (error || !data?.signedUrl) {
+    console.error("Failed to sign resume URL:", error);
+    return null;
+  }
+  return data.signedUrl;
+}
+
+// Storage-safe file name
+export function storageFileName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9._-]/g, "_");
+}
+
+/**
+ * Label for a version uploaded without one: the file name without its extension
+ */
+export function defaultResumeLabel(fileName: string): string {
+  const base = fileName.replace(/\.[^.]+$/, "").replace(/[_\s]+/g, " ").trim();
+  return base.slice(0, MAX_RESUME_LABEL_LENGTH).trim() || "Resume";
+}
+
+/**
+ * Map a candidate_resumes row to its API shape
+ * @param defaultPath - candidate_profiles.resume_path, identifying the default version
+ */
+export function toResumeVersion(row: CandidateResume, defaultPath: string | null | undefined): ResumeVersion {
+  return {
+    id: row.id,
+    label: row.label,
+    url: versionDownloadPath(row.id),
+    originalName: row.original_name,
+    size: Number(row.size_bytes) || 0,
+    mimeType: row.mime_type,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    isDefault: !!defaultPath && row.storage_path === defaultPath,
+  };
+}
+
+/**
+ * Make a version the profile's default resume, or clear the profile resume when null
+ * @returns Error message, or null on success
+ */
+export async function setDefaultResume(
+  supabase: SupabaseClient,
+  userId: string,
+  version: CandidateResume | null
+): Promise<string | null> {
+  const { error } = await supabase
+    .from("candidate_profiles")
+    .update({
+      resume_url: version?.url ?? null,
+      resume_path: version?.storage_path ?? null,
+      resume_original_name: version?.original_name ?? null,
+      resume_mime: version?.mime_type ?? null,
+      resume_size: version ? Number(version.size_bytes) || 0 : null,
+      resume_updated_at: version ? new Date().toISOString() : null,
+    })
+    .eq("user_id", userId);
+  return error ? error.message : null;
+}
+
+/**
+ * Delete a version and its file. Deleting the default promotes the newest
+ * remaining version, or clears the profile resume when none is left.
+ * Application snapshots are separate files and are not touched.
+ * @returns The new default (null when none), or an error message
+ */
+export async function deleteResumeVersion(
+  supabase: SupabaseClient,
+  userId: string,
+  version: CandidateResume,
+  wasDefault: boolean
+): Promise<{ error: string } | { nextDefault: CandidateResume | null }> {
+  const { error: deleteError } = await supabase
+    .from("candidate_resumes")
+    .delete()
+    .eq("id", version.id)
+    .eq("candidate_id", userId);
+  if (deleteError) return { error: deleteError.message };
+
+  // Best effort; an orphaned file is harmless
+  const { error: removeError } = await supabase.storage.from(RESUME_BUCKET).remove([version.storage_path]);
+  if (removeError) console.error("Failed to remove resume file:", removeError);
+
+  if (!wasDefault) return { nextDefault: null };
+
+  const { data: remaining } = await supabase
+    .from("candidate_resumes")
+    .select("*")
+    .eq("candidate_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(1);
+  const nextDefault = (remaining?.[0] as CandidateResume | undefined) ?? null;
+  const updateError = await setDefaultResume(supabase, userId, nextDefault);
+  return updateError ? { error: updateError } : { nextDefault };
+}
+
+/**
+ * Copy a resume file to the application's own path so the submitted version never changes
+ * @param source - Storage path and file name of the resume being submitted
+ * @returns Snapshot path, or null if the copy failed
+ */
+export async function snapshotResume(
+  supabase: SupabaseClient,
+  userId: string,
+  jobId: string,
+  source: { storage_path: string; original_name: string }
+): Promise<{ path: string } | null> {
+  const path = `${userId}/applications/${jobId}/${Date.now()}-${storageFileName(source.original_name)}`;
+  const bucket = supabase.storage.from(RESUME_BUCKET);
+  const { error } = await bucket.copy(source.storage_path, path);
+  if (error) {
+    console.error("Failed to snapshot resume:", error);
+    return null;
+  }
+  return { path };
+}
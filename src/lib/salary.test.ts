@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { JobSalarySchema, annualSalaryMidpoint, formatSalaryRange, parseSalaryRange } from "./salary";
+
+describe("salary", () => {
+  it("parses common free-text ranges", () => {
+    expect(parseSalaryRange("$120k - $150k")).toMatchObject({
+      ok: true,
+      salary: { salary_min: 120_000, salary_max: 150_000, salary_currency: "USD", salary_period: "yearly" },
+      assumptions: ["Assumed yearly pay"],
+    });
+    expect(parseSalaryRange("80,000-95,000 EUR per year")).toMatchObject({
+      ok: true,
+      salary: { salary_min: 80_000, salary_max: 95_000, salary_currency: "EUR", salary_period: "yearly" },
+      assumptions: [],
+    });
+    expect(parseSalaryRange("£45/hr")).toMatchObject({
+      ok: true,
+      salary: { salary_min: 45, salary_max: 45, salary_currency: "GBP", salary_period: "hourly" },
+    });
+    expect(parseSalaryRange("CA$120-150k")).toMatchObject({
+      ok: true,
+      salary: { salary_min: 120_000, salary_max: 150_000, salary_currency: "CAD" },
+    });
+  });
+
+  it("handles open-ended ranges", () => {
+    expect(parseSalaryRange("Up to $90k")).toMatchObject({ ok: true, salary: { salary_min: null, salary_max: 90_000 } });
+    expect(parseSalaryRange("100k+")).toMatchObject({ ok: true, salary: { salary_min: 100_000, salary_max: null } });
+  });
+
+  it("reports values it can't read", () => {
+    expect(parseSalaryRange("Competitive")).toEqual({ ok: false, reason: "No amount found" });
+    expect(parseSalaryRange("")).toEqual({ ok: false, reason: "Empty salary" });
+    expect(parseSalaryRange("$150k - $120k")).toEqual({ ok: false, reason: "Minimum is greater than maximum" });
+    expect(parseSalaryRange("$100k, $120k or $140k")).toEqual({ ok: false, reason: "More than two amounts" });
+  });
+
+  it("validates structured salaries", () => {
+    expect(JobSalarySchema.safeParse({}).success).toBe(true);
+    expect(
+      JobSalarySchema.safeParse({ salary_min: 1, salary_max: 2, salary_currency: "usd", salary_period: "hourly" }).data
+    ).toMatchObject({ salary_currency: "USD" });
+    expect(JobSalarySchema.safeParse({ salary_min: 5, salary_max: 2, salary_currency: "USD", salary_period: "hourly" }).success).toBe(false);
+    expect(JobSalarySchema.safeParse({ salary_min: 5, salary_currency: "XYZ", salary_period: "hourly" }).success).toBe(false);
+    expect(JobSalarySchema.safeParse({ salary_min: 5, salary_currency: "USD" }).success).toBe(false);
+    expect(JobSalarySchema.safeParse({ salary_min: -5, salary_currency: "USD", salary_period: "yearly" }).success).toBe(false);
+  });
+
+  it("formats and annualizes structured salaries", () => {
+    expect(
+      formatSalaryRange({ salary_min: 120_000, salary_max: 150_000, salary_currency: "USD", salary_period: "yearly" })
+    ).toBe("$120,000 – $150,000 per year");
+    expect(formatSalaryRange({ salary_min: null, salary_max: 40, salary_currency: "EUR", salary_period: "hourly" })).toBe(
+      "Up to €40 per hour"
+    );
+    expect(formatSalaryRange({ salary_min: null, salary_max: null })).toBeNull();
+    expect(annualSalaryMidpoint({ salary_min: 5_000, salary_max: 5_000, salary_period: "monthly" })).toBe(60_000);
+    expect(annualSalaryMidpoint({ salary_range: "$30/hr" })).toBe(62_400);
+    expect(annualSalaryMidpoint({ salary_range: "DOE" })).toBeNull();
+  });
+});
@@ -0,0 +1,219 @@
+import { z } from "zod";
+import type { SalaryPeriod } from "@/lib/types/database";
+
+/**
+ * Structured Salary
+ *
+ * Jobs store compensation as salary_min / salary_max / salary_currency (ISO 4217)
+ * / salary_period. The legacy free-text salary_range is kept as a display string
+ * and is generated from the structured fields for new jobs.
+ *
+ * parseSalaryRange() turns free text ("$120k - $150k", "€45/hr") into the
+ * structured form. It powers the range input on the create-job page and the
+ * back-fill of existing jobs (database/migrations/009_add_structured_salary.sql
+ * mirrors its rules in SQL).
+ */
+
+export const SALARY_PERIODS: SalaryPeriod[] = ["hourly", "monthly", "yearly"];
+
+export const SALARY_PERIOD_LABELS: Record<SalaryPeriod, string> = {
+  hourly: "per hour",
+  monthly: "per month",
+  yearly: "per year",
+};
+
+// Shown first in currency pickers; any ISO 4217 code is accepted
+export const COMMON_CURRENCIES = ["USD", "EUR", "GBP", "CAD", "AUD", "INR", "JPY"] as const;
+
+export const DEFAULT_CURRENCY = "USD";
+
+// Annualization factors (full-time: 40h x 52 weeks)
+const PERIODS_PER_YEAR: Record<SalaryPeriod, number> = {
+  hourly: 2080,
+  monthly: 12,
+  yearly: 1,
+};
+
+export const MAX_SALARY_AMOUNT = 100_000_000;
+
+/**
+ * Check a currency code against ISO 4217 (via Intl when available)
+ */
+export function isIsoCurrency(code: string): boolean {
+  if (!/^[A-Z]{3}$/.test(code)) return false;
+  const supported = (Intl as unknown as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  return supported ? supported("currency").includes(code) : true;
+}
+
+export const JobSalarySchema = z
+  .object({
+    salary_min: z.number().nonnegative("Minimum salary cannot be negative").max(MAX_SALARY_AMOUNT).nullable().optional(),
+    salary_max: z.number().nonnegative("Maximum salary cannot be negative").max(MAX_SALARY_AMOUNT).nullable().optional(),
+    salary_currency: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .refine(isIsoCurrency, "Currency must be an ISO 4217 code (e.g. USD)")
+      .nullable()
+      .optional(),
+    salary_period: z.enum(SALARY_PERIODS as [SalaryPeriod, ...SalaryPeriod[]]).nullable().optional(),
+  })
+  .superRefine((value, ctx) => {
+    const hasAmount = value.salary_min != null || value.salary_max != null;
+    if (value.salary_min != null && value.salary_max != null && value.salary_min > value.salary_max) {
+      ctx.addIssue({ code: "custom", path: ["salary_max"], message: "Maximum salary must be at least the minimum" });
+    }
+    if (hasAmount && !value.salary_currency) {
+      ctx.addIssue({ code: "custom", path: ["salary_currency"], message: "Currency is required when a salary is given" });
+    }
+    if (hasAmount && !value.salary_period) {
+      ctx.addIssue({ code: "custom", path: ["salary_period"], message: "Pay period is required when a salary is given" });
+    }
+  });
+
+export type JobSalary = {
+  salary_min: number | null;
+  salary_max: number | null;
+  salary_currency: string | null;
+  salary_period: SalaryPeriod | null;
+};
+
+export type SalaryParseResult =
+  | { ok: true; salary: JobSalary; assumptions: string[] }
+  | { ok: false; reason: string };
+
+// Symbols checked longest first so "CA$" wins over "$"
+const CURRENCY_SYMBOLS: [string, string][] = [
+  ["CA$", "CAD"],
+  ["C$", "CAD"],
+  ["A$", "AUD"],
+  ["AU$", "AUD"],
+  ["US$", "USD"],
+  ["€", "EUR"],
+  ["£", "GBP"],
+  ["¥", "JPY"],
+  ["₹", "INR"],
+  ["$", "USD"],
+];
+
+function detectCurrency(text: string): string | null {
+  // Only upper-case codes, so words like "all" or "top" aren't read as currencies
+  const code = text.match(/\b[A-Z]{3}\b/g)?.find(isIsoCurrency);
+  if (code) return code;
+  const upper = text.toUpperCase();
+  return CURRENCY_SYMBOLS.find(([symbol]) => upper.includes(symbol.toUpperCase()))?.[1] ?? null;
+}
+
+function detectPeriod(text: string): SalaryPeriod | null {
+  const t = text.toLowerCase();
+  if (/(\/\s*h(ou)?r?\b|\bhourly\b|\bper hour\b|\ban hour\b|\bhr\b)/.test(t)) return "hourly";
+  if (/(\/\s*mo(nth)?\b|\bmonthly\b|\bper month\b|\ba month\b)/.test(t)) return "monthly";
+  if (/(\/\s*y(ea)?r?\b|\byearly\b|\bannual(ly)?\b|\bper year\b|\ba year\b|\bper annum\b|\bp\.?a\b)/.test(t)) return "yearly";
+  return null;
+}
+
+/**
+ * Best-effort parse of a free-text salary ("$120k - $150k", "80,000-95,000 EUR",
+ * "$45/hr", "Up to £60k", "100k+")
+ * @param text - Free-text salary
+ * @returns Structured salary plus any assumptions made, or the reason it can't be read
+ */
+export function parseSalaryRange(text: string | null | undefined): SalaryParseResult {
+  const raw = (text ?? "").trim();
+  if (!raw) return { ok: false, reason: "Empty salary" };
+
+  const cleaned = raw.replace(/(\d),(?=\d{3}\b)/g, "$1");
+  const matches = [...cleaned.matchAll(/(\d+(?:\.\d+)?)\s*([km])?\b/gi)];
+  if (matches.length === 0) return { ok: false, reason: "No amount found" };
+  if (matches.length > 2) return { ok: false, reason: "More than two amounts" };
+
+  // "120-150k": a unit on one bound applies to a bare bound too
+  const sharedUnit = matches.find(([, , unit]) => unit)?.[2]?.toLowerCase();
+  const amounts = matches.map(([, n, unit]) => {
+    const u = unit?.toLowerCase() ?? (Number(n) < 1_000 ? sharedUnit : undefined);
+    return Number(n) * (u === "k" ? 1_000 : u === "m" ? 1_000_000 : 1);
+  });
+  if (amounts.some((n) => !Number.isFinite(n) || n <= 0 || n > MAX_SALARY_AMOUNT)) {
+    return { ok: false, reason: "Amount out of range" };
+  }
+
+  let min: number | null = amounts[0];
+  let max: number | null = amounts[amounts.length - 1];
+  if (min > max) return { ok: false, reason: "Minimum is greater than maximum" };
+  if (amounts.length === 1) {
+    if (/\b(up to|max(imum)?)\b/i.test(cleaned)) min = null;
+    else if (/\+|\b(from|starting( at)?|min(imum)?)\b/i.test(cleaned)) max = null;
+  }
+
+  const assumptions: string[] = [];
+  let currency = detectCurrency(cleaned);
+  if (!currency) {
+    currency = DEFAULT_CURRENCY;
+    assumptions.push(`Assumed currency ${DEFAULT_CURRENCY}`);
+  }
+  let period = detectPeriod(cleaned);
+  if (!period) {
+    const reference = max ?? min ?? 0;
+    period = reference < 1_000 ? "hourly" : "yearly";
+    assumptions.push(`Assumed ${period} pay`);
+  }
+
+  return {
+    ok: true,
+    salary: { salary_min: min, salary_max: max, salary_currency: currency, salary_period: period },
+    assumptions,
+  };
+}
+
+/**
+ * Format a structured salary for display ("$120,000 – $150,000 per year")
+ * @returns Display string, or null when no amount is set
+ */
+export function formatSalaryRange(salary: Partial<JobSalary>): string | null {
+  const { salary_min: min, salary_max: max } = salary;
+  if (min == null && max == null) return null;
+  const currency = salary.salary_currency || DEFAULT_CURRENCY;
+  let fmt: (n: number) => string;
+  try {
+    const nf = new Intl.NumberFormat("en-US", { style: "currency", currency, maximumFractionDigits: 2, minimumFractionDigits: 0 });
+    fmt = (n) => nf.format(n);
+  } catch {
+    fmt = (n) => `${currency} ${n.toLocaleString("en-US")}`;
+  }
+  const amount =
+    min != null && max != null
+      ? min === max
+        ? fmt(min)
+        : `${fmt(min)} – ${fmt(max)}`
+      : min != null
+        ? `${fmt(min)}+`
+        : `Up to ${fmt(max!)}`;
+  return salary.salary_period ? `${amount} ${SALARY_PERIOD_LABELS[salary.salary_period]}` : amount;
+}
+
+/**
+ * Convert an amount to a yearly figure
+ */
+export function toAnnualAmount(amount: number, period: SalaryPeriod): number {
+  return amount * PERIODS_PER_YEAR[period];
+}
+
+/**
+ * Yearly midpoint of a job's salary, preferring the structured fields and falling
+ * back to parsing the legacy free text. Amounts are compared as listed (no FX).
+ * @returns Annual midpoint, or null when the job has no readable salary
+ */
+export function annualSalaryMidpoint(
+  job: Partial<JobSalary> & { salary_range?: string | null }
+): number | null {
+  let salary: Partial<JobSalary> = job;
+  if (job.salary_min == null && job.salary_max == null) {
+    const parsed = parseSalaryRange(job.salary_range);
+    if (!parsed.ok) return null;
+    salary = parsed.salary;
+  }
+  const low = salary.salary_min ?? salary.salary_max;
+  const high = salary.salary_max ?? salary.salary_min;
+  if (low == null || high == null) return null;
+  return Math.round(toAnnualAmount((low + high) / 2, salary.salary_period ?? "yearly"));
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_COMPETENCIES,
+  aggregateScorecards,
+  assignCompetencyIds,
+  checkScorecard,
+  resolveCompetencies,
+  visibleScorecards,
+} from "./scorecards";
+import type { HireRecommendation, Scorecard, ScorecardRating } from "@/lib/types/database";
+
+const competencies = [
+  { id: "coding", name: "Coding" },
+  { id: "design", name: "System design" },
+];
+
+function scorecard(
+  interviewerId: string,
+  ratings: Record<string, ScorecardRating>,
+  recommendation: HireRecommendation | null,
+  submitted = true
+): Scorecard {
+  return {
+    id: `sc-${interviewerId}`,
+    application_id: "app-1",
+    interview_id: null,
+    interviewer_id: interviewerId,
+    ratings,
+    notes: null,
+    recommendation,
+    submitted_at: submitted ? "2025-12-19T10:00:00Z" : null,
+    created_at: "2025-12-19T09:00:00Z",
+    updated_at: "2025-12-19T10:00:00Z",
+  };
+}
+
+describe("scorecards", () => {
+  it("falls back to the default competencies and derives ids from names", () => {
+    expect(resolveCompetencies({ scorecard_competencies: null })).toEqual(DEFAULT_COMPETENCIES);
+    expect(resolveCompetencies({ scorecard_competencies: competencies })).toEqual(competencies);
+    expect(assignCompetencyIds([{ id: "", name: "System Design" }, { id: "", name: "system design!" }, { id: "coding", name: "Coding" }])).toEqual([
+      { id: "system_design", name: "System Design" },
+      { id: "system_design_2", name: "system design!" },
+      { id: "coding", name: "Coding" },
+    ]);
+  });
+
+  it("requires every rating and a recommendation only on submit", () => {
+    expect(checkScorecard(competencies, { ratings: { coding: 3 } })).toBeNull();
+    expect(checkScorecard(competencies, { ratings: { coding: 3 }, submit: true })).toBe("Rate System design before submitting");
+    expect(checkScorecard(competencies, { ratings: { coding: 3, design: 2 }, submit: true })).toBe(
+      "Choose a recommendation before submitting"
+    );
+    expect(checkScorecard(competencies, { ratings: { coding: 3, design: 2 }, recommendation: "hire", submit: true })).toBeNull();
+    expect(checkScorecard(competencies, { ratings: { charisma: 4 } })).toBe("Unknown competency: charisma");
+  });
+
+  it("hides colleagues' scorecards until the caller submits their own", () => {
+    const all = [
+      scorecard("alice", { coding: 4 }, "hire"),
+      scorecard("bob", { coding: 2 }, null, false),
+      scorecard("carol", { coding: 3 }, "hire"),
+    ];
+
+    // Bob has only a draft: he sees it, and that two colleagues submitted
+    const bob = visibleScorecards("bob", all);
+    expect(bob.mine.map((s) => s.id)).toEqual(["sc-bob"]);
+    expect(bob.others).toEqual([]);
+    expect(bob.hiddenCount).toBe(2);
+
+    // Alice submitted, so she sees Carol's scorecard but never Bob's draft
+    const alice = visibleScorecards("alice", all);
+    expect(alice.others.map((s) => s.id)).toEqual(["sc-carol"]);
+    expect(alice.hiddenCount).toBe(0);
+
+    // Someone who hasn't written a scorecard sees none
+    expect(visibleScorecards("dave", all)).toMatchObject({ mine: [], others: [], hiddenCount: 2 });
+  });
+
+  it("aggregates ratings and flags disagreement", () => {
+    const aggregate = aggregateScorecards(competencies, [
+      scorecard("alice", { coding: 4, design: 3 }, "strong_hire"),
+      scorecard("bob", { coding: 2, design: 3 }, "no_hire"),
+      scorecard("carol", { coding: 3, design: 3 }, "hire"),
+      scorecard("dave", { coding: 1, design: 1 }, "strong_no_hire", false),
+    ]);
+
+    expect(aggregate.submittedCount).toBe(3);
+    expect(aggregate.competencies).toEqual([
+      { id: "coding", name: "Coding", ratings: [4, 2, 3], average: 3, spread: 2, disagreement: true },
+      { id: "design", name: "System design", ratings: [3, 3, 3], average: 3, spread: 0, disagreement: false },
+    ]);
+    expect(aggregate.recommendations).toEqual({ strong_no_hire: 0, no_hire: 1, hire: 1, strong_hire: 1 });
+    expect(aggregate.recommendationSplit).toBe(true);
+    expect(aggregate.disagreement).toBe(true);
+  });
+
+  it("doesn't flag close ratings on the same side", () => {
+    const aggregate = aggregateScorecards(competencies, [
+      scorecard("alice", { coding: 4, design: 3 }, "strong_hire"),
+      scorecard("bob", { coding: 3, design: 4 }, "hire"),
+    ]);
+    expect(aggregate.competencies.map((c) => c.average)).toEqual([3.5, 3.5]);
+    expect(aggregate.disagreement).toBe(false);
+  });
+});
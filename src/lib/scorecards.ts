@@ -0,0 +1,282 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import type { HireRecommendation, Scorecard, ScorecardCompetency, ScorecardRating } from "@/lib/types/database";
+
+/**
+ * Interview Scorecards
+ *
+ * Each job lists the competencies its interviewers rate
+ * (jobs.scorecard_competencies, DEFAULT_COMPETENCIES when unset). An
+ * interviewer fills in one scorecard per interview: a 1-4 rating per
+ * competency, notes and a hire/no-hire recommendation. Submitted scorecards
+ * are final.
+ *
+ * Feedback stays independent: colleagues' scorecards are hidden from an
+ * interviewer until they submit their own (enforced by the scorecards RLS
+ * policies and again by visibleScorecards()). Candidates never see them.
+ *
+ * The aggregate flags where interviewers disagree: a competency rated two or
+ * more points apart, or recommendations on both sides of hire/no-hire.
+ */
+
+export const RATING_LABELS: Record<ScorecardRating, string> = {
+  1: "Strong no",
+  2: "No",
+  3: "Yes",
+  4: "Strong yes",
+};
+
+export const HIRE_RECOMMENDATIONS: HireRecommendation[] = ["strong_no_hire", "no_hire", "hire", "strong_hire"];
+
+export const HIRE_RECOMMENDATION_LABELS: Record<HireRecommendation, string> = {
+  strong_no_hire: "Strong no hire",
+  no_hire: "No hire",
+  hire: "Hire",
+  strong_hire: "Strong hire",
+};
+
+export const DEFAULT_COMPETENCIES: ScorecardCompetency[] = [
+  { id: "role_skills", name: "Role-specific skills" },
+  { id: "problem_solving", name: "Problem solving" },
+  { id: "communication", name: "Communication" },
+  { id: "collaboration", name: "Collaboration" },
+];
+
+export const MAX_COMPETENCIES = 12;
+export const MAX_SCORECARD_NOTES_LENGTH = 5000;
+
+// Ratings this far apart on one competency count as a disagreement
+export const DISAGREEMENT_SPREAD = 2;
+
+const CompetencySchema = z.object({
+  id: z.string().trim().min(1, "Competency id is required").max(50),
+  name: z.string().trim().min(1, "Competency name is required").max(80, "Competency name too long"),
+  description: z.string().trim().max(300, "Competency description too long").optional(),
+});
+
+export const ScorecardCompetenciesSchema = z
+  .array(CompetencySchema)
+  .min(1, "Scorecards need at least one competency")
+  .max(MAX_COMPETENCIES, `Scorecards can have at most ${MAX_COMPETENCIES} competencies`)
+  .refine((competencies) => new Set(competencies.map((c) => c.id)).size === competencies.length, {
+    message: "Competency ids must be unique",
+  });
+
+const RatingSchema = z.number().int().min(1).max(4);
+
+export const ScorecardInputSchema = z.object({
+  interviewId: z.string().uuid("interviewId must be a valid UUID").nullable().optional(),
+  ratings: z.record(z.string(), RatingSchema).default({}),
+  notes: z
+    .string()
+    .trim()
+    .max(MAX_SCORECARD_NOTES_LENGTH, `Notes must be ${MAX_SCORECARD_NOTES_LENGTH} characters or less`)
+    .nullable()
+    .optional(),
+  recommendation: z.enum(["strong_no_hire", "no_hire", "hire", "strong_hire"]).nullable().optional(),
+  // Save as a draft unless true; submitting is final
+  submit: z.boolean().optional(),
+});
+
+export type ScorecardInput = z.infer<typeof ScorecardInputSchema>;
+
+/**
+ * Fill in missing competency ids from their names, keeping ids unique
+ * @param competencies - Competencies as edited in the UI (new ones have an empty id)
+ */
+export function assignCompetencyIds(competencies: ScorecardCompetency[]): ScorecardCompetency[] {
+  const used = new Set(competencies.map((c) => c.id).filter(Boolean));
+  return competencies.map((competency) => {
+    if (competency.id) return competency;
+    const base =
+      competency.name
+        .trim()
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "_")
+        .replace(/^_+|_+$/g, "")
+        .slice(0, 50) || "competency";
+    let id = base;
+    for (let n = 2; used.has(id); n++) id = `${base}_${n}`;
+    used.add(id);
+    return { ...competency, id };
+  });
+}
+
+/**
+ * A job's scorecard competencies, falling back to the defaults for unset or malformed rows
+ */
+export function resolveCompetencies(job: { scorecard_competencies?: unknown } | null | undefined): ScorecardCompetency[] {
+  const parsed = ScorecardCompetenciesSchema.safeParse(job?.scorecard_competencies);
+  return parsed.success ? parsed.data : DEFAULT_COMPETENCIES;
+}
+
+/**
+ * Check a scorecard against the job's competencies
+ * @returns An error message, or null when the scorecard can be saved
+ */
+export function checkScorecard(competencies: ScorecardCompetency[], input: ScorecardInput): string | null {
+  const ids = new Set(competencies.map((c) => c.id));
+  const unknown = Object.keys(input.ratings).find((id) => !ids.has(id));
+  if (unknown) return `Unknown competency: ${unknown}`;
+  if (input.submit) {
+    const missing = competencies.find((c) => input.ratings[c.id] === undefined);
+    if (missing) return `Rate ${missing.name} before submitting`;
+    if (!input.recommendation) return "Choose a recommendation before submitting";
+  }
+  return null;
+}
+
+/**
+ * Split an application's scorecards into what the caller may see
+ * @returns The caller's own scorecards, colleagues' submitted ones (empty until
+ * the caller has submitted one), and how many colleague scorecards are hidden
+ */
+export function visibleScorecards(
+  userId: string,
+  scorecards: Scorecard[]
+): { mine: Scorecard[]; others: Scorecard[]; hiddenCount: number } {
+  const mine = scorecards.filter((s) => s.interviewer_id === userId);
+  const othersSubmitted = scorecards.filter((s) => s.interviewer_id !== userId && s.submitted_at);
+  const unlocked = mine.some((s) => s.submitted_at);
+  return {
+    mine,
+    others: unlocked ? othersSubmitted : [],
+    hiddenCount: unlocked ? 0 : othersSubmitted.length,
+  };
+}
+
+export type CompetencySummary = {
+  id: string;
+  name: string;
+  ratings: ScorecardRating[];
+  average: number | null;
+  // Highest minus lowest rating
+  spread: number;
+  disagreement: boolean;
+};
+
+export type ScorecardAggregate = {
+  submittedCount: number;
+  competencies: CompetencySummary[];
+  recommendations: Record<HireRecommendation, number>;
+  // Someone recommends hiring and someone recommends against
+  recommendationSplit: boolean;
+  disagreement: boolean;
+};
+
+/**
+ * Summarize submitted scorecards per competency and recommendation
+ * @param scorecards - Scorecards the caller can see; drafts are ignored
+ */
+export function aggregateScorecards(competencies: ScorecardCompetency[], scorecards: Scorecard[]): ScorecardAggregate {
+  const submitted = scorecards.filter((s) => s.submitted_at);
+
+  const summaries = competencies.map((competency) => {
+    const ratings = submitted
+      .map((s) => s.ratings?.[competency.id])
+      .filter((r): r is ScorecardRating => typeof r === "number");
+    const spread = ratings.length > 0 ? Math.max(...ratings) - Math.min(...ratings) : 0;
+    return {
+      id: competency.id,
+      name: competency.name,
+      ratings,
+      average: ratings.length > 0 ? Math.round((ratings.reduce((sum, r) => sum + r, 0) / ratings.length) * 10) / 10 : null,
+      spread,
+      disagreement: spread >= DISAGREEMENT_SPREAD,
+    };
+  });
+
+  const recommendations = Object.fromEntries(HIRE_RECOMMENDATIONS.map((r) => [r, 0])) as Record<HireRecommendation, number>;
+  for (const scorecard of submitted) {
+    if (scorecard.recommendation) recommendations[scorecard.recommendation]++;
+  }
+  const forHire = recommendations.hire + recommendations.strong_hire;
+  const against = recommendations.no_hire + recommendations.strong_no_hire;
+  const recommendationSplit = forHire > 0 && against > 0;
+
+  return {
+    submittedCount: submitted.length,
+    competencies: summaries,
+    recommendations,
+    recommendationSplit,
+    disagreement: recommendationSplit || summaries.some((s) => s.disagreement),
+  };
+}
+
+/**
+ * Scorecard as returned by the API
+ */
+export type ScorecardView = {
+  id: string;
+  interviewId: string | null;
+  interviewerId: string;
+  interviewerName: string | null;
+  ratings: Record<string, ScorecardRating>;
+  notes: string | null;
+  recommendation: HireRecommendation | null;
+  submittedAt: string | null;
+  updatedAt: string;
+};
+
+export type ApplicationScorecards = {
+  competencies: ScorecardCompetency[];
+  mine: ScorecardView[];
+  others: ScorecardView[];
+  hiddenCount: number;
+  // null until the caller has submitted their own scorecard
+  aggregate: ScorecardAggregate | null;
+};
+
+/**
+ * Shape a scorecard row for the API
+ */
+export function toScorecardView(row: Scorecard, interviewerName: string | null = null): ScorecardView {
+  return {
+    id: row.id,
+    interviewId: row.interview_id,
+    interviewerId: row.interviewer_id,
+    interviewerName,
+    ratings: row.ratings ?? {},
+    notes: row.notes,
+    recommendation: row.recommendation,
+    submittedAt: row.submitted_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * The scorecards on an application that the caller may see, with interviewer
+ * names and the aggregate
+ */
+export async function loadApplicationScorecards(
+  supabase: SupabaseClient,
+  userId: string,
+  applicationId: string,
+  competencies: ScorecardCompetency[]
+): Promise<ApplicationScorecards> {
+  const { data, error } = await supabase
+    .from("scorecards")
+    .select("*")
+    .eq("application_id", applicationId)
+    .order("created_at", { ascending: true });
+  if (error) {
+    console.error("Failed to load scorecards:", error);
+  }
+  const { mine, others, hiddenCount } = visibleScorecards(userId, (data ?? []) as Scorecard[]);
+
+  const names = new Map<string, string>();
+  const interviewerIds = [...new Set([...mine, ...others].map((s) => s.interviewer_id))];
+  if (interviewerIds.length > 0) {
+    const { data: profiles } = await supabase.from("recruiter_profiles").select("user_id, name").in("user_id", interviewerIds);
+    for (const profile of (profiles ?? []) as { user_id: string; name: string }[]) names.set(profile.user_id, profile.name);
+  }
+
+  const unlocked = mine.some((s) => s.submitted_at);
+  return {
+    competencies,
+    mine: mine.map((s) => toScorecardView(s, names.get(s.interviewer_id) ?? null)),
+    others: others.map((s) => toScorecardView(s, names.get(s.interviewer_id) ?? null)),
+    hiddenCount,
+    aggregate: unlocked ? aggregateScorecards(competencies, [...mine, ...others]) : null,
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from "vitest";
+import { allowedTargetStages, canMoveToStage, canTransition, recordStatusEvent } from "./status-transitions";
+import { DEFAULT_PIPELINE } from "./pipeline";
+import type { PipelineStage } from "@/lib/types/database";
+
+const customPipeline: PipelineStage[] = [
+  { id: "phone_screen", name: "Phone Screen", status: "under_review" },
+  { id: "take_home", name: "Take-home", status: "interview" },
+  { id: "onsite", name: "Onsite", status: "interview" },
+  { id: "offer", name: "Offer", status: "offer" },
+  { id: "hired", name: "Hired", status: "hired" },
+  { id: "rejected", name: "Rejected", status: "rejected" },
+];
+
+describe("status transitions", () => {
+  it("only lets candidates withdraw", () => {
+    expect(canTransition("candidate", "interview", "rejected")).toBe(true);
+    expect(canTransition("candidate", "offer", "hired")).toBe(false);
+    expect(canTransition("candidate", "applied", "under_review")).toBe(false);
+    expect(canTransition("candidate", "rejected", "applied")).toBe(false);
+  });
+
+  it("keeps hired and rejected final for recruiters", () => {
+    expect(canTransition("recruiter", "rejected", "offer")).toBe(false);
+    expect(canTransition("recruiter", "hired", "rejected")).toBe(false);
+    expect(canTransition("recruiter", "offer", "hired")).toBe(true);
+    expect(canTransition("recruiter", "interview", "hired")).toBe(false);
+  });
+
+  it("allows recruiters to move between stages with the same outcome", () => {
+    const from = { status: "interview" as const, stageId: "take_home" };
+    expect(canMoveToStage("recruiter", from, customPipeline[2])).toBe(true);
+    expect(canMoveToStage("candidate", from, customPipeline[2])).toBe(false);
+    // Moving to the current stage is not a change
+    expect(canMoveToStage("recruiter", from, customPipeline[1])).toBe(false);
+  });
+
+  it("lists allowed target stages in pipeline order", () => {
+    const from = { status: "under_review" as const, stageId: "phone_screen" };
+    expect(allowedTargetStages("recruiter", customPipeline, from).map((s) => s.id)).toEqual([
+      "take_home",
+      "onsite",
+      "offer",
+      "rejected",
+    ]);
+    expect(allowedTargetStages("candidate", DEFAULT_PIPELINE, { status: "offer", stageId: "offer" }).map((s) => s.id)).toEqual([
+      "rejected",
+    ]);
+  });
+
+  it("does not throw when the history table can't be written", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const supabase = {
+      from: vi.fn(() => ({
+        insert: vi.fn().mockResolvedValue({ error: { message: "relation does not exist" } }),
+      })),
+    };
+    const ok = await recordStatusEvent(supabase as any, {
+      application_id: "app-1",
+      actor_id: "user-1",
+      actor_role: "recruiter",
+      from_status: "applied",
+      to_status: "under_review",
+    });
+    expect(ok).toBe(false);
+    expect(supabase.from).toHaveBeenCalledWith("application_status_events");
+    errorSpy.mockRestore();
+  });
+});
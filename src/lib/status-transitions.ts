@@ -0,0 +1,142 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  ApplicationStatus,
+  ApplicationStatusEvent,
+  ApplicationStatusEventInsert,
+  PipelineStage,
+  StatusActorRole,
+} from "@/lib/types/database";
+import { TERMINAL_STATUSES } from "@/lib/pipeline";
+
+/**
+ * Application Status Transitions
+ *
+ * Which status changes each role may make. Transitions are defined on the
+ * canonical statuses; moving between two stages with the same outcome (e.g.
+ * "Take-home" -> "Onsite", both Interview) is allowed for recruiters as long as
+ * the application is not in a terminal status.
+ *
+ * Every accepted change is appended to application_status_events. The
+ * database applies changes through move_application() (migration 014), which
+ * checks the same table; keep the two in sync.
+ */
+
+export const STATUS_TRANSITIONS: Record<StatusActorRole, Record<ApplicationStatus, ApplicationStatus[]>> = {
+  // Candidates can only withdraw an active application
+  candidate: {
+    applied: ["rejected"],
+    under_review: ["rejected"],
+    interview: ["rejected"],
+    offer: ["rejected"],
+    hired: [],
+    rejected: [],
+  },
+  // Recruiters move forward (skipping is fine), step back one stage, or reject.
+  // Hired requires an offer first; Hired and Rejected are final.
+  recruiter: {
+    applied: ["under_review", "interview", "offer", "rejected"],
+    under_review: ["applied", "interview", "offer", "rejected"],
+    interview: ["under_review", "offer", "rejected"],
+    offer: ["interview", "hired", "rejected"],
+    hired: [],
+    rejected: [],
+  },
+  // Automated jobs follow the recruiter rules
+  system: {
+    applied: ["under_review", "interview", "offer", "rejected"],
+    under_review: ["applied", "interview", "offer", "rejected"],
+    interview: ["under_review", "offer", "rejected"],
+    offer: ["interview", "hired", "rejected"],
+    hired: [],
+    rejected: [],
+  },
+};
+
+export const MAX_TRANSITION_REASON_LENGTH = 500;
+
+/**
+ * Check whether a role may change an application's status
+ * @param role - Who is making the change
+ * @param from - Current status
+ * @param to - Requested status
+ * @returns true if allowed (same-status moves return false; see canMoveToStage)
+ */
+export function canTransition(role: StatusActorRole, from: ApplicationStatus, to: ApplicationStatus): boolean {
+  return STATUS_TRANSITIONS[role]?.[from]?.includes(to) ?? false;
+}
+
+/**
+ * Check whether a role may move an application to a pipeline stage
+ * @param role - Who is making the change
+ * @param from - Current status and stage id of the application
+ * @param to - Target stage in the job's pipeline
+ */
+export function canMoveToStage(
+  role: StatusActorRole,
+  from: { status: ApplicationStatus; stageId: string | null },
+  to: PipelineStage
+): boolean {
+  if (from.stageId === to.id) return false;
+  if (from.status === to.status) {
+    return role !== "candidate" && !TERMINAL_STATUSES.has(from.status);
+  }
+  return canTransition(role, from.status, to.status);
+}
+
+/**
+ * Stages a role may move an application to, in pipeline order
+ */
+export function allowedTargetStages(
+  role: StatusActorRole,
+  stages: PipelineStage[],
+  from: { status: ApplicationStatus; stageId: string | null }
+): PipelineStage[] {
+  return stages.filter((stage) => canMoveToStage(role, from, stage));
+}
+
+/**
+ * Append a status change to the application's history.
+ * Failures are logged and do not fail the request that made the change.
+ * @returns true if the event was stored
+ */
+export async function recordStatusEvent(
+  supabase: SupabaseClient,
+  event: ApplicationStatusEventInsert
+): Promise<boolean> {
+  try {
+    const { error } = await supabase.from("application_status_events").insert(event);
+    if (error) {
+      console.error("Error recording status event:", error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error("Error recording status event:", error);
+    return false;
+  }
+}
+
+/**
+ * Fetch an application's status history, oldest first
+ * @returns Events, or an empty list if the history can't be read
+ */
+export async function fetchStatusHistory(
+  supabase: SupabaseClient,
+  applicationId: string
+): Promise<ApplicationStatusEvent[]> {
+  try {
+    const { data, error } = await supabase
+      .from("application_status_events")
+      .select("*")
+      .eq("application_id", applicationId)
+      .order("created_at", { ascending: true });
+    if (error) {
+      console.error("Error fetching status history:", error);
+      return [];
+    }
+    return (data as ApplicationStatusEvent[]) || [];
+  } catch (error) {
+    console.error("Error fetching status history:", error);
+    return [];
+  }
+}
@@ -1,6 +1,7 @@
 import { promises as fs } from "fs";
 import path from "path";
 import { createClient } from "@/lib/supabase/server";
+import { ALLOWED_MIME_TYPES, validateResumeUpload } from "@/lib/resume-validation";
 import type { 
   CandidateProfile, 
   CandidateProfileInsert, 
@@ -67,12 +68,7 @@ export async function writeProfile(profile: Profile) {
   await fs.writeFile(getProfilePath(), JSON.stringify(profile, null, 2), "utf-8");
 }
 
-export const MAX_RESUME_BYTES = 5 * 1024 * 1024; // 5 MB
-export const ALLOWED_MIME_TYPES = new Set([
-  "application/pdf",
-  "application/msword",
-  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-]);
+export { MAX_RESUME_BYTES, ALLOWED_MIME_TYPES } from "@/lib/resume-validation";
 
 export function isAllowedResumeType(mime: string) {
   return ALLOWED_MIME_TYPES.has(mime);
@@ -90,11 +86,10 @@ export async function saveResumeFile(file: File): Promise<ResumeInfo> {
   const arrayBuffer = await file.arrayBuffer();
   const buffer = Buffer.from(arrayBuffer);
 
-  if (buffer.byteLength > MAX_RESUME_BYTES) {
-    throw new Error("FILE_TOO_LARGE");
-  }
-  if (!isAllowedResumeType(file.type)) {
-    throw new Error("INVALID_FILE_TYPE");
+  // Throws the rejection code (e.g. "CONTENT_MISMATCH") as the error message
+  const validation = await validateResumeUpload(buffer, file);
+  if (!validation.ok) {
+    throw new Error(validation.code);
   }
 
   const uploadDir = getUploadDir();
@@ -107,7 +102,7 @@ export async function saveResumeFile(file: File): Promise<ResumeInfo> {
     url: getPublicUrlForSavedFile(destination),
     originalName: file.name,
     size: buffer.byteLength,
-    mimeType: file.type,
+    mimeType: validation.mimeType,
     updatedAt: new Date().toISOString(),
   };
 }
@@ -0,0 +1,20 @@
+// =============================================
+// SERVICE-ROLE SUPABASE CLIENT
+// =============================================
+// Use this ONLY in server code that runs without a user session, such as
+// scheduled jobs (app/api/cron/*). It bypasses Row Level Security, so never
+// import it from client components or pass user input straight through.
+
+import { createClient } from '@supabase/supabase-js'
+
+export function createAdminClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!url || !serviceRoleKey) {
+    throw new Error('NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set')
+  }
+
+  return createClient(url, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import {
+  SupplementalQuestionsSchema,
+  checkFileAgainstRules,
+  formatAnswer,
+  parseQuestionDefinitions,
+  validateSupplementalAnswers,
+  visibleQuestions,
+} from "./supplemental-questions";
+import type { SupplementalQuestion } from "./supplemental-questions";
+
+const questions: SupplementalQuestion[] = [
+  { id: "auth", question: "Authorized to work?", type: "yes_no", required: true },
+  { id: "visa", question: "Which visa?", type: "text", required: true, showIf: { questionId: "auth", equals: ["no"] } },
+  { id: "years", question: "Years of experience", type: "number", required: true, rules: { min: 0, max: 50, integer: true } },
+  { id: "langs", question: "Languages", type: "multiselect", options: ["TS", "Go", "Rust"], required: false, rules: { maxSelections: 2 } },
+  { id: "start", question: "Start date", type: "date", required: false, rules: { minDate: "2025-01-01" } },
+  { id: "site", question: "Portfolio", type: "url", required: false },
+];
+
+describe("supplemental questions", () => {
+  it("validates question definitions and conditions", () => {
+    expect(SupplementalQuestionsSchema.safeParse(questions).success).toBe(true);
+    expect(SupplementalQuestionsSchema.safeParse([{ id: "a", question: "Pick", type: "multiselect", required: false }]).success).toBe(false);
+    expect(
+      SupplementalQuestionsSchema.safeParse([
+        { id: "a", question: "Q1", type: "text", required: false },
+        { id: "b", question: "Q2", type: "text", required: false, showIf: { questionId: "a", equals: ["x"] } },
+      ]).success
+    ).toBe(false);
+    expect(
+      SupplementalQuestionsSchema.safeParse([
+        { id: "b", question: "Q2", type: "text", required: false, showIf: { questionId: "a", equals: ["yes"] } },
+        { id: "a", question: "Q1", type: "yes_no", required: false },
+      ]).success
+    ).toBe(false);
+    expect(
+      SupplementalQuestionsSchema.safeParse([
+        { id: "n", question: "Salary", type: "number", required: false, rules: { min: 10, max: 5 } },
+      ]).success
+    ).toBe(false);
+  });
+
+  it("reads legacy definitions leniently", () => {
+    expect(
+      parseQuestionDefinitions([
+        { id: "q1", label: "Why us?", type: "textarea" },
+        { id: "q2", question: "Pick", type: "select", options: [] },
+        { id: "q3", question: "Odd", type: "checkbox", required: true },
+        "garbage",
+      ])
+    ).toEqual([
+      { id: "q1", question: "Why us?", type: "textarea", options: undefined, required: false },
+      { id: "q2", question: "Pick", type: "text", options: [], required: false },
+      { id: "q3", question: "Odd", type: "text", options: undefined, required: true },
+    ]);
+    expect(parseQuestionDefinitions(null)).toEqual([]);
+  });
+
+  it("shows conditional questions only when the condition matches", () => {
+    expect(visibleQuestions(questions, { auth: true }).map((q) => q.id)).not.toContain("visa");
+    expect(visibleQuestions(questions, { auth: "no" }).map((q) => q.id)).toContain("visa");
+  });
+
+  it("normalizes valid answers and drops hidden or unknown ones", () => {
+    const result = validateSupplementalAnswers(questions, {
+      auth: "yes",
+      visa: "H-1B",
+      years: "4",
+      langs: ["TS", "Go"],
+      start: "2025-03-01",
+      site: "https://example.com",
+      extra: "ignored",
+    });
+    expect(result).toEqual({
+      ok: true,
+      answers: { auth: true, years: 4, langs: ["TS", "Go"], start: "2025-03-01", site: "https://example.com" },
+      errors: {},
+      missing: [],
+    });
+  });
+
+  it("reports rule violations and missing required answers", () => {
+    const result = validateSupplementalAnswers(questions, {
+      auth: false,
+      years: "2.5",
+      langs: ["TS", "Go", "Rust"],
+      start: "2024-12-31",
+      site: "javascript:alert(1)",
+    });
+    expect(result.ok).toBe(false);
+    expect(result.missing).toEqual(["visa"]);
+    expect(Object.keys(result.errors).sort()).toEqual(["langs", "site", "start", "visa", "years"]);
+  });
+
+  it("checks file answers against rules and the upload prefix", () => {
+    const fileQuestion: SupplementalQuestion = {
+      id: "sample",
+      question: "Writing sample",
+      type: "file",
+      required: true,
+      rules: { acceptedFileTypes: ["pdf"], maxFileSizeMb: 1 },
+    };
+    const file = { path: "user-1/attachments/job-1/sample.pdf", url: "https://x/sample.pdf", name: "sample.pdf", size: 1000, mime: "application/pdf" };
+
+    expect(checkFileAgainstRules({ name: "a.docx", size: 10 }, fileQuestion.rules)).toMatch(/\.pdf/);
+    expect(checkFileAgainstRules({ name: "a.pdf", size: 2 * 1024 * 1024 }, fileQuestion.rules)).toMatch(/1 MB/);
+    const stored = validateSupplementalAnswers([fileQuestion], { sample: file }, { filePathPrefix: "user-1/" });
+    expect(stored.ok).toBe(true);
+    // Client-supplied links aren't kept; the path identifies the file
+    expect(stored.answers.sample).toEqual({ path: file.path, name: "sample.pdf", size: 1000, mime: "application/pdf" });
+    expect(validateSupplementalAnswers([fileQuestion], { sample: file }, { filePathPrefix: "user-2/" }).ok).toBe(false);
+  });
+
+  it("formats answers for display", () => {
+    expect(formatAnswer(true)).toBe("Yes");
+    expect(formatAnswer(["TS", "Go"])).toBe("TS, Go");
+    expect(formatAnswer(7)).toBe("7");
+  });
+});
@@ -0,0 +1,529 @@
+import { z } from "zod";
+import type { KnockoutAction } from "@/lib/types/database";
+
+/**
+ * Supplemental Questions
+ *
+ * Recruiters attach extra questions to a job (jobs.supplemental_questions; older rows
+ * kept them in jobs.requirements.supplementalQuestions, see readJobQuestions).
+ * Each question has a type, optional validation rules and an optional "show if"
+ * condition on an earlier choice question. The same definitions drive the apply
+ * form and the server-side validation in POST /api/applications, so answers are
+ * stored already normalized:
+ *
+ *   text / textarea / url / select / date -> string (dates as YYYY-MM-DD)
+ *   multiselect                           -> string[]
+ *   yes_no                                -> boolean
+ *   number                                -> number
+ *   file                                  -> FileAnswer (uploaded via /api/applications/attachments)
+ *
+ * Choice questions can be knockouts (see src/lib/knockouts.ts), and questions can be
+ * pre-answered from the candidate's profile via profileField.
+ */
+
+export const QUESTION_TYPES = [
+  "text",
+  "textarea",
+  "select",
+  "multiselect",
+  "yes_no",
+  "number",
+  "date",
+  "url",
+  "file",
+] as const;
+
+export type SupplementalQuestionType = (typeof QUESTION_TYPES)[number];
+
+export const QUESTION_TYPE_LABELS: Record<SupplementalQuestionType, string> = {
+  text: "Short Text",
+  textarea: "Long Text",
+  select: "Multiple Choice",
+  multiselect: "Multi-Select",
+  yes_no: "Yes / No",
+  number: "Number",
+  date: "Date",
+  url: "URL",
+  file: "File Upload",
+};
+
+// Types with a fixed set of answers; only these can drive a "show if" condition
+export const CHOICE_QUESTION_TYPES: ReadonlySet<SupplementalQuestionType> = new Set(["select", "multiselect", "yes_no"]);
+
+// File extensions a file question may accept, with their MIME types
+export const FILE_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  txt: "text/plain",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+};
+
+export const DEFAULT_ACCEPTED_FILE_TYPES = ["pdf", "doc", "docx"];
+export const DEFAULT_MAX_FILE_SIZE_MB = 5;
+export const MAX_FILE_SIZE_MB = 10;
+export const MAX_SUPPLEMENTAL_QUESTIONS = 50;
+
+export const KNOCKOUT_ACTIONS: KnockoutAction[] = ["reject", "flag"];
+
+// Candidate profile fields that can pre-answer a question, and the question types each fits
+export const PROFILE_ANSWER_FIELDS = {
+  work_authorization: ["yes_no", "select", "text"],
+  requires_sponsorship: ["yes_no"],
+} as const satisfies Record<string, readonly SupplementalQuestionType[]>;
+
+export type ProfileAnswerField = keyof typeof PROFILE_ANSWER_FIELDS;
+
+export const PROFILE_ANSWER_FIELD_LABELS: Record<ProfileAnswerField, string> = {
+  work_authorization: "Work authorization",
+  requires_sponsorship: "Requires sponsorship",
+};
+
+// Length caps when a question sets no maxLength
+const DEFAULT_MAX_LENGTH: Partial<Record<SupplementalQuestionType, number>> = {
+  text: 500,
+  textarea: 5000,
+  url: 2000,
+};
+
+export type QuestionRules = {
+  minLength?: number;
+  maxLength?: number;
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  minDate?: string;
+  maxDate?: string;
+  minSelections?: number;
+  maxSelections?: number;
+  maxFileSizeMb?: number;
+  acceptedFileTypes?: string[];
+};
+
+// Show the question only when the answer to an earlier question is one of `equals`
+export type QuestionCondition = {
+  questionId: string;
+  equals: string[];
+};
+
+// Answers in failingAnswers reject or flag the application
+export type KnockoutRule = {
+  failingAnswers: string[];
+  action: KnockoutAction;
+  message?: string; // Shown to the candidate when they fail the knockout
+};
+
+export type SupplementalQuestion = {
+  id: string;
+  question: string;
+  type: SupplementalQuestionType;
+  options?: string[]; // For select and multiselect questions
+  required: boolean;
+  rules?: QuestionRules;
+  showIf?: QuestionCondition;
+  knockout?: KnockoutRule;
+  profileField?: ProfileAnswerField;
+};
+
+export type FileAnswer = {
+  path: string; // Storage path in the "resumes" bucket
+  // Download route link (resumeDownloadPath), added when an application is read; not stored
+  url?: string;
+  name: string;
+  size: number;
+  mime: string;
+};
+
+export type SupplementalAnswerValue = string | string[] | number | boolean | FileAnswer;
+
+export type SupplementalAnswers = Record<string, SupplementalAnswerValue>;
+
+export type AnswersValidationResult = {
+  ok: boolean;
+  answers: SupplementalAnswers;
+  errors: Record<string, string>;
+  missing: string[];
+};
+
+const YES_NO_VALUES = ["yes", "no"];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Real calendar dates only ("2025-02-30" is rejected)
+function isValidDate(value: string): boolean {
+  if (!ISO_DATE.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+const RulesSchema = z
+  .object({
+    minLength: z.number().int().nonnegative().optional(),
+    maxLength: z.number().int().positive().max(20000).optional(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    integer: z.boolean().optional(),
+    minDate: z.string().refine(isValidDate, "Dates must be YYYY-MM-DD").optional(),
+    maxDate: z.string().refine(isValidDate, "Dates must be YYYY-MM-DD").optional(),
+    minSelections: z.number().int().nonnegative().optional(),
+    maxSelections: z.number().int().positive().optional(),
+    maxFileSizeMb: z.number().positive().max(MAX_FILE_SIZE_MB, `Files can be at most ${MAX_FILE_SIZE_MB} MB`).optional(),
+    acceptedFileTypes: z
+      .array(z.string().toLowerCase().refine((ext) => ext in FILE_TYPES, "Unsupported file type"))
+      .min(1, "Accept at least one file type")
+      .optional(),
+  })
+  .superRefine((rules, ctx) => {
+    const pairs: [keyof QuestionRules, keyof QuestionRules, string][] = [
+      ["minLength", "maxLength", "Maximum length must be at least the minimum"],
+      ["min", "max", "Maximum must be at least the minimum"],
+      ["minDate", "maxDate", "Latest date must be on or after the earliest date"],
+      ["minSelections", "maxSelections", "Maximum selections must be at least the minimum"],
+    ];
+    for (const [low, high, message] of pairs) {
+      const a = rules[low];
+      const b = rules[high];
+      if (a !== undefined && b !== undefined && a > b) {
+        ctx.addIssue({ code: "custom", path: [high], message });
+      }
+    }
+  });
+
+export const SupplementalQuestionSchema = z
+  .object({
+    id: z.string().trim().min(1, "Question id is required"),
+    question: z.string().trim().min(1, "All supplemental questions must have text").max(500, "Question too long"),
+    type: z.enum(QUESTION_TYPES),
+    options: z.array(z.string().trim().min(1, "Options cannot be empty").max(200)).optional(),
+    required: z.boolean(),
+    rules: RulesSchema.optional(),
+    showIf: z
+      .object({
+        questionId: z.string().min(1),
+        equals: z.array(z.string().min(1)).min(1, "Pick at least one answer for the condition"),
+      })
+      .optional(),
+    knockout: z
+      .object({
+        failingAnswers: z.array(z.string().min(1)).min(1, "Pick at least one answer that fails the knockout"),
+        action: z.enum(KNOCKOUT_ACTIONS as [KnockoutAction, ...KnockoutAction[]]),
+        message: z.string().trim().max(1000, "Knockout message too long").optional(),
+      })
+      .optional(),
+    profileField: z.enum(Object.keys(PROFILE_ANSWER_FIELDS) as [ProfileAnswerField, ...ProfileAnswerField[]]).optional(),
+  })
+  .refine((q) => !(q.type === "select" || q.type === "multiselect") || (q.options?.length ?? 0) > 0, {
+    message: "Select questions must have at least one option",
+    path: ["options"],
+  })
+  .refine((q) => new Set(q.options ?? []).size === (q.options ?? []).length, {
+    message: "Options must be unique",
+    path: ["options"],
+  })
+  .refine((q) => !q.knockout || CHOICE_QUESTION_TYPES.has(q.type), {
+    message: "Only choice and yes/no questions can be knockouts",
+    path: ["knockout"],
+  })
+  .refine((q) => !q.knockout || q.knockout.failingAnswers.every((value) => choiceValues(q).includes(value)), {
+    message: "Knockout answers must be options of the question",
+    path: ["knockout"],
+  })
+  .refine((q) => !q.profileField || (PROFILE_ANSWER_FIELDS[q.profileField] as readonly string[]).includes(q.type), {
+    message: "This profile field can't answer this type of question",
+    path: ["profileField"],
+  });
+
+export const SupplementalQuestionsSchema = z
+  .array(SupplementalQuestionSchema)
+  .max(MAX_SUPPLEMENTAL_QUESTIONS, `Too many questions (max ${MAX_SUPPLEMENTAL_QUESTIONS})`)
+  .superRefine((questions, ctx) => {
+    const seen = new Map<string, (typeof questions)[number]>();
+    questions.forEach((q, index) => {
+      if (seen.has(q.id)) {
+        ctx.addIssue({ code: "custom", path: [index, "id"], message: "Question ids must be unique" });
+      }
+      if (q.showIf) {
+        // Conditions may only look back, which also rules out cycles
+        const target = seen.get(q.showIf.questionId);
+        if (!target) {
+          ctx.addIssue({ code: "custom", path: [index, "showIf"], message: "Conditions must refer to an earlier question" });
+        } else if (!CHOICE_QUESTION_TYPES.has(target.type)) {
+          ctx.addIssue({ code: "custom", path: [index, "showIf"], message: "Conditions must refer to a choice or yes/no question" });
+        } else {
+          const allowed = choiceValues(target);
+          if (q.showIf.equals.some((value) => !allowed.includes(value))) {
+            ctx.addIssue({ code: "custom", path: [index, "showIf"], message: "Condition answers must be options of the referenced question" });
+          }
+        }
+      }
+      seen.set(q.id, q);
+    });
+  });
+
+/**
+ * Possible answers of a choice question, as used in conditions
+ */
+export function choiceValues(question: Pick<SupplementalQuestion, "type" | "options">): string[] {
+  return question.type === "yes_no" ? YES_NO_VALUES : question.options ?? [];
+}
+
+/**
+ * Read question definitions stored on a job. Legacy rows only had text/textarea/select
+ * and loose shapes; anything unrecognized is read as a text question so old jobs keep working.
+ * @param raw - jobs.supplemental_questions
+ * @returns Question definitions in order
+ */
+export function parseQuestionDefinitions(raw: unknown): SupplementalQuestion[] {
+  if (!Array.isArray(raw)) return [];
+  const strict = SupplementalQuestionsSchema.safeParse(raw);
+  if (strict.success) return strict.data;
+
+  return raw
+    .filter((q): q is Record<string, unknown> => !!q && typeof q === "object" && typeof q.id === "string" && !!q.id)
+    .map((q) => {
+      const parsed = SupplementalQuestionSchema.safeParse(q);
+      if (parsed.success) {
+        // Drop conditions here: they failed the cross-question checks above
+        const question: SupplementalQuestion = { ...parsed.data };
+        delete question.showIf;
+        return question;
+      }
+      const type = (QUESTION_TYPES as readonly string[]).includes(q.type as string) ? (q.type as SupplementalQuestionType) : "text";
+      const options = Array.isArray(q.options) ? q.options.filter((o): o is string => typeof o === "string" && !!o.trim()) : undefined;
+      return {
+        id: q.id as string,
+        question: String(q.question ?? q.label ?? q.id),
+        // Choice questions without usable options can't be answered; read them as text
+        type: (type === "select" || type === "multiselect") && !options?.length ? "text" : type,
+        options,
+        required: !!q.required,
+      };
+    });
+}
+
+/**
+ * Question definitions of a job, falling back to the legacy location inside
+ * jobs.requirements for rows written before migration 011
+ * @param job - Job row with supplemental_questions and/or requirements
+ */
+export function readJobQuestions(job: { supplemental_questions?: unknown; requirements?: unknown }): SupplementalQuestion[] {
+  if (Array.isArray(job.supplemental_questions)) return parseQuestionDefinitions(job.supplemental_questions);
+  const legacy = job.requirements as { supplementalQuestions?: unknown } | null | undefined;
+  return parseQuestionDefinitions(legacy?.supplementalQuestions);
+}
+
+/**
+ * Answer as strings, for matching conditions and knockouts
+ */
+export function answerStrings(value: unknown): string[] {
+  if (typeof value === "boolean") return [value ? "yes" : "no"];
+  if (Array.isArray(value)) return value.map(String);
+  if (value === undefined || value === null || value === "") return [];
+  return [String(value)];
+}
+
+/**
+ * Questions currently shown, given the answers so far. A question is hidden when its
+ * condition doesn't match or when the question it depends on is hidden.
+ * @param questions - Question definitions in order
+ * @param answers - Answers keyed by question id (raw or normalized)
+ */
+export function visibleQuestions(
+  questions: SupplementalQuestion[],
+  answers: Record<string, unknown>
+): SupplementalQuestion[] {
+  const visible = new Set<string>();
+  return questions.filter((q) => {
+    const shown =
+      !q.showIf ||
+      (visible.has(q.showIf.questionId) &&
+        answerStrings(answers[q.showIf.questionId]).some((value) => q.showIf!.equals.includes(value)));
+    if (shown) visible.add(q.id);
+    return shown;
+  });
+}
+
+export function isFileAnswer(value: unknown): value is FileAnswer {
+  if (!value || typeof value !== "object") return false;
+  const file = value as Record<string, unknown>;
+  return (
+    typeof file.path === "string" &&
+    (file.url === undefined || typeof file.url === "string") &&
+    typeof file.name === "string" &&
+    typeof file.size === "number" &&
+    typeof file.mime === "string"
+  );
+}
+
+/**
+ * File extension of a file name, lower-cased
+ */
+export function fileExtension(name: string): string {
+  const dot = name.lastIndexOf(".");
+  return dot === -1 ? "" : name.slice(dot + 1).toLowerCase();
+}
+
+/**
+ * Check an upload against a file question's rules
+ * @returns Error message, or null when the file is acceptable
+ */
+export function checkFileAgainstRules(
+  file: { name: string; size: number },
+  rules: QuestionRules | undefined
+): string | null {
+  const accepted = rules?.acceptedFileTypes?.length ? rules.acceptedFileTypes : DEFAULT_ACCEPTED_FILE_TYPES;
+  if (!accepted.includes(fileExtension(file.name))) {
+    return `File must be one of: ${accepted.map((ext) => `.${ext}`).join(", ")}`;
+  }
+  const maxMb = rules?.maxFileSizeMb ?? DEFAULT_MAX_FILE_SIZE_MB;
+  if (file.size > maxMb * 1024 * 1024) return `File must be at most ${maxMb} MB`;
+  return null;
+}
+
+type NormalizedAnswer = { value: SupplementalAnswerValue } | { error: string } | { empty: true };
+
+/**
+ * Validate and normalize one answer against its question
+ */
+function normalizeAnswer(
+  question: SupplementalQuestion,
+  raw: unknown,
+  options: { filePathPrefix?: string }
+): NormalizedAnswer {
+  const rules = question.rules ?? {};
+  if (raw === undefined || raw === null) return { empty: true };
+
+  switch (question.type) {
+    case "multiselect": {
+      const values = (Array.isArray(raw) ? raw : [raw]).map((v) => (typeof v === "string" ? v.trim() : v)).filter((v) => v !== "");
+      if (values.length === 0) return { empty: true };
+      if (values.some((v) => typeof v !== "string" || !(question.options ?? []).includes(v))) {
+        return { error: "Choose from the listed options" };
+      }
+      const unique = [...new Set(values as string[])];
+      if (rules.minSelections !== undefined && unique.length < rules.minSelections) {
+        return { error: `Choose at least ${rules.minSelections}` };
+      }
+      if (rules.maxSelections !== undefined && unique.length > rules.maxSelections) {
+        return { error: `Choose at most ${rules.maxSelections}` };
+      }
+      return { value: unique };
+    }
+    case "yes_no": {
+      if (typeof raw === "boolean") return { value: raw };
+      const text = String(raw).trim().toLowerCase();
+      if (!text) return { empty: true };
+      if (text === "yes" || text === "true") return { value: true };
+      if (text === "no" || text === "false") return { value: false };
+      return { error: "Answer yes or no" };
+    }
+    case "number": {
+      if (typeof raw === "string" && !raw.trim()) return { empty: true };
+      const n = typeof raw === "number" ? raw : typeof raw === "string" ? Number(raw.trim()) : NaN;
+      if (!Number.isFinite(n)) return { error: "Enter a number" };
+      if (rules.integer && !Number.isInteger(n)) return { error: "Enter a whole number" };
+      if (rules.min !== undefined && n < rules.min) return { error: `Must be at least ${rules.min}` };
+      if (rules.max !== undefined && n > rules.max) return { error: `Must be at most ${rules.max}` };
+      return { value: n };
+    }
+    case "file": {
+      if (raw === "") return { empty: true };
+      if (!isFileAnswer(raw)) return { error: "Upload a file" };
+      if (options.filePathPrefix && !raw.path.startsWith(options.filePathPrefix)) {
+        return { error: "Upload the file again" };
+      }
+      const fileError = checkFileAgainstRules(raw, rules);
+      if (fileError) return { error: fileError };
+      return { value: { path: raw.path, name: raw.name, size: raw.size, mime: raw.mime } };
+    }
+    default: {
+      if (typeof raw !== "string" && typeof raw !== "number") return { error: "Enter text" };
+      const text = String(raw).trim();
+      if (!text) return { empty: true };
+
+      if (question.type === "select") {
+        return (question.options ?? []).includes(text) ? { value: text } : { error: "Choose one of the listed options" };
+      }
+      if (question.type === "date") {
+        if (!isValidDate(text)) return { error: "Enter a date (YYYY-MM-DD)" };
+        if (rules.minDate && text < rules.minDate) return { error: `Date must be on or after ${rules.minDate}` };
+        if (rules.maxDate && text > rules.maxDate) return { error: `Date must be on or before ${rules.maxDate}` };
+        return { value: text };
+      }
+      if (question.type === "url") {
+        let url: URL | null = null;
+        try {
+          url = new URL(text);
+        } catch {
+          url = null;
+        }
+        if (!url || !["http:", "https:"].includes(url.protocol)) return { error: "Enter a valid http(s) URL" };
+      }
+      const maxLength = rules.maxLength ?? DEFAULT_MAX_LENGTH[question.type];
+      if (rules.minLength !== undefined && text.length < rules.minLength) {
+        return { error: `Must be at least ${rules.minLength} characters` };
+      }
+      if (maxLength !== undefined && text.length > maxLength) {
+        return { error: `Must be at most ${maxLength} characters` };
+      }
+      return { value: text };
+    }
+  }
+}
+
+/**
+ * Validate answers against a job's questions. Answers to unknown or hidden questions
+ * are dropped; every visible answer is checked against its type and rules.
+ * @param questions - The job's question definitions
+ * @param rawAnswers - Answers keyed by question id, as submitted
+ * @param options.filePathPrefix - Storage prefix uploaded files must live under (the candidate's folder)
+ * @returns Normalized answers plus per-question errors and missing required ids
+ */
+export function validateSupplementalAnswers(
+  questions: SupplementalQuestion[],
+  rawAnswers: Record<string, unknown> | null | undefined,
+  options: { filePathPrefix?: string } = {}
+): AnswersValidationResult {
+  const raw = rawAnswers ?? {};
+  const answers: SupplementalAnswers = {};
+  const errors: Record<string, string> = {};
+  const missing: string[] = [];
+
+  // Conditions only look back, so answers accepted so far decide visibility
+  const visible = new Set<string>();
+  for (const question of questions) {
+    if (question.showIf) {
+      const shown =
+        visible.has(question.showIf.questionId) &&
+        answerStrings(answers[question.showIf.questionId]).some((value) => question.showIf!.equals.includes(value));
+      if (!shown) continue;
+    }
+    visible.add(question.id);
+
+    const result = normalizeAnswer(question, raw[question.id], options);
+    if ("error" in result) {
+      errors[question.id] = result.error;
+    } else if ("empty" in result) {
+      if (question.required) {
+        missing.push(question.id);
+        errors[question.id] = "This question is required";
+      }
+    } else {
+      answers[question.id] = result.value;
+    }
+  }
+
+  return { ok: Object.keys(errors).length === 0, answers, errors, missing };
+}
+
+/**
+ * Human-readable answer for recruiter views
+ */
+export function formatAnswer(value: unknown): string {
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return value.join(", ");
+  if (isFileAnswer(value)) return value.name;
+  if (value === null || value === undefined) return "";
+  return String(value);
+}
@@ -15,20 +15,65 @@ export type ApplicationStatus =
   | 'hired' 
   | 'rejected';
 
+// Pay period for structured salaries
+export type SalaryPeriod = 'hourly' | 'monthly' | 'yearly';
+
+// Hiring pipeline stage (stored in jobs.pipeline_stages JSONB)
+// Each stage maps to the canonical ApplicationStatus that describes its outcome
+export interface PipelineStage {
+  id: string;                  // Stable identifier, unique within a job
+  name: string;                // Display name, e.g. "Phone Screen"
+  status: ApplicationStatus;   // Outcome of being in this stage
+}
+
+// Competency interviewers rate on a job's scorecard (stored in jobs.scorecard_competencies JSONB)
+export interface ScorecardCompetency {
+  id: string;                  // Stable identifier, unique within a job
+  name: string;                // e.g. "System design"
+  description?: string;        // What a strong answer looks like
+}
+
+// Degree levels a job can require, lowest first
+export type DegreeLevel = 'high_school' | 'associate' | 'bachelor' | 'master' | 'phd';
+
+export type EmploymentType = 'full_time' | 'part_time' | 'contract' | 'internship' | 'temporary' | 'co-op';
+
+// Work authorization a job requires: authorized to work, or authorized without needing sponsorship
+export type WorkAuthorizationRequirement = 'authorized' | 'no_sponsorship';
+
+// Structured job requirements (stored in jobs.requirements JSONB)
+export interface JobRequirements {
+  requiredSkills: string[];
+  niceToHaveSkills: string[];
+  minYearsExperience: number | null;
+  degreeLevel: DegreeLevel | null;
+  workAuthorization: WorkAuthorizationRequirement | null;
+  employmentType: EmploymentType | null;
+}
+
 // =============================================
 // TABLE: jobs
 // =============================================
 export interface Job {
   id: string;                  // UUID
-  employer_id: string | null;  // UUID, links to auth.users
+  employer_id: string | null;  // UUID, links to auth.users (the recruiter who created it)
+  organization_id: string | null;  // UUID, the workspace whose members manage it; null on legacy jobs
   title: string;
   company: string;
   description: string | null;
   location: string | null;
-  salary_range: string | null;
-  requirements: Record<string, unknown> | null;  // JSONB
+  salary_range: string | null;  // Display text; generated from the structured fields for new jobs
+  salary_min: number | null;
+  salary_max: number | null;
+  salary_currency: string | null;  // ISO 4217 code, e.g. "USD"
+  salary_period: SalaryPeriod | null;
+  requirements: JobRequirements | null;  // JSONB
+  supplemental_questions: Record<string, unknown>[] | null;  // JSONB, see src/lib/supplemental-questions.ts
   status: JobStatus;
   deadline: string | null;     // ISO timestamp
+  closing_soon_notified_at: string | null;  // ISO timestamp, when the owner was reminded of the deadline
+  pipeline_stages: PipelineStage[] | null;  // JSONB, null = default pipeline
+  scorecard_competencies: ScorecardCompetency[] | null;  // JSONB, null = default competencies
   created_at: string;          // ISO timestamp
   updated_at: string;          // ISO timestamp
 }
@@ -36,40 +81,73 @@ export interface Job {
 // Type for inserting a new job (omits auto-generated fields)
 export interface JobInsert {
   employer_id?: string | null;
+  organization_id?: string | null;
   title: string;
   company: string;
   description?: string | null;
   location?: string | null;
   salary_range?: string | null;
-  requirements?: Record<string, unknown> | null;
+  salary_min?: number | null;
+  salary_max?: number | null;
+  salary_currency?: string | null;
+  salary_period?: SalaryPeriod | null;
+  requirements?: JobRequirements | null;
+  supplemental_questions?: Record<string, unknown>[] | null;
   status?: JobStatus;
   deadline?: string | null;
+  pipeline_stages?: PipelineStage[] | null;
+  scorecard_competencies?: ScorecardCompetency[] | null;
 }
 
 // Type for updating a job (all fields optional)
 export interface JobUpdate {
   employer_id?: string | null;
+  organization_id?: string | null;
   title?: string;
   company?: string;
   description?: string | null;
   location?: string | null;
   salary_range?: string | null;
-  requirements?: Record<string, unknown> | null;
+  salary_min?: number | null;
+  salary_max?: number | null;
+  salary_currency?: string | null;
+  salary_period?: SalaryPeriod | null;
+  requirements?: JobRequirements | null;
+  supplemental_questions?: Record<string, unknown>[] | null;
   status?: JobStatus;
   deadline?: string | null;
+  pipeline_stages?: PipelineStage[] | null;
+  scorecard_competencies?: ScorecardCompetency[] | null;
 }
 
 // =============================================
 // TABLE: applications
 // =============================================
+
+// What to do when a knockout question is failed
+export type KnockoutAction = 'reject' | 'flag';
+
+// A knockout question the candidate failed, stored on the application
+export interface KnockoutResult {
+  question_id: string;
+  question: string;
+  answer: unknown;
+  action: KnockoutAction;
+}
+
 export interface Application {
   id: string;                    // UUID
   job_id: string;                // UUID, foreign key
   candidate_id: string | null;   // UUID, links to auth.users
   status: ApplicationStatus;
+  stage_id: string | null;       // Stage id within the job's pipeline
   resume_url: string | null;
+  resume_id: string | null;      // UUID, candidate_resumes version picked when applying
+  resume_path: string | null;    // Storage path of the submitted snapshot
   cover_letter: string | null;
   supplemental_answers: Record<string, unknown> | null;  // JSONB
+  flagged: boolean;              // Failed a "flag" knockout question
+  knockout_results: KnockoutResult[] | null; // JSONB, failed knockout questions
   applied_at: string;            // ISO timestamp
   updated_at: string;            // ISO timestamp
 }
@@ -79,19 +157,58 @@ export interface ApplicationInsert {
   job_id: string;
   candidate_id?: string | null;
   status?: ApplicationStatus;
+  stage_id?: string | null;
   resume_url?: string | null;
+  resume_id?: string | null;
+  resume_path?: string | null;
   cover_letter?: string | null;
   supplemental_answers?: Record<string, unknown> | null;
+  flagged?: boolean;
+  knockout_results?: KnockoutResult[] | null;
 }
 
 // Type for updating an application (all fields optional)
 export interface ApplicationUpdate {
   status?: ApplicationStatus;
+  stage_id?: string | null;
   resume_url?: string | null;
   cover_letter?: string | null;
   supplemental_answers?: Record<string, unknown> | null;
 }
 
+// =============================================
+// TABLE: application_status_events
+// =============================================
+
+// Who made a status change
+export type StatusActorRole = 'candidate' | 'recruiter' | 'system';
+
+// Audit row written for every application status/stage change
+export interface ApplicationStatusEvent {
+  id: string;                        // UUID
+  application_id: string;            // UUID, references applications(id)
+  actor_id: string | null;           // UUID, references auth.users(id); null for system changes
+  actor_role: StatusActorRole;
+  from_status: ApplicationStatus | null; // null for the initial "applied" event
+  to_status: ApplicationStatus;
+  from_stage_id: string | null;
+  to_stage_id: string | null;
+  reason: string | null;             // Optional note, e.g. rejection reason
+  created_at: string;                // ISO timestamp
+}
+
+// Type for inserting a status event (omits auto-generated fields)
+export interface ApplicationStatusEventInsert {
+  application_id: string;
+  actor_id: string | null;
+  actor_role: StatusActorRole;
+  from_status: ApplicationStatus | null;
+  to_status: ApplicationStatus;
+  from_stage_id?: string | null;
+  to_stage_id?: string | null;
+  reason?: string | null;
+}
+
 // =============================================
 // COMBINED TYPES (for joins)
 // =============================================
@@ -264,6 +381,35 @@ export interface CandidateProfileUpdate {
   referral_source?: string | null;
 }
 
+// =============================================
+// TABLE: candidate_resumes
+// =============================================
+
+// One uploaded resume version; candidates keep several and pick one per application
+export interface CandidateResume {
+  id: string;                    // UUID
+  candidate_id: string;          // UUID, links to auth.users
+  label: string;                 // Candidate-chosen name, e.g. "Backend"
+  storage_path: string;          // Path in the "resumes" bucket
+  url: string;
+  original_name: string;
+  mime_type: string;
+  size_bytes: string | number;   // bigint in DB
+  created_at: string;            // ISO timestamp
+  updated_at: string;            // ISO timestamp
+}
+
+// Type for inserting a resume version (omits auto-generated fields)
+export interface CandidateResumeInsert {
+  candidate_id: string;
+  label: string;
+  storage_path: string;
+  url: string;
+  original_name: string;
+  mime_type: string;
+  size_bytes: number;
+}
+
 // =============================================
 // TABLE: recruiter_profiles
 // =============================================
@@ -311,3 +457,329 @@ export interface RecruiterProfileUpdate {
   linkedin_url?: string | null;
   company_website?: string | null;
 }
+
+// =============================================
+// TABLE: organizations
+// =============================================
+
+// What a member can do in their organization (see src/lib/organizations.ts)
+export type OrganizationRole = 'admin' | 'recruiter' | 'hiring_manager' | 'viewer';
+
+// A recruiting team's shared workspace; its jobs belong to the organization
+export interface Organization {
+  id: string;                    // UUID
+  name: string;
+  created_by: string | null;     // UUID, links to auth.users
+  created_at: string;            // ISO timestamp
+  updated_at: string;            // ISO timestamp
+}
+
+// =============================================
+// TABLE: organization_members
+// =============================================
+
+// A recruiter's membership; each recruiter belongs to at most one organization
+export interface OrganizationMember {
+  id: string;                    // UUID
+  organization_id: string;       // UUID, links to organizations
+  user_id: string;               // UUID, links to auth.users
+  role: OrganizationRole;
+  created_at: string;            // ISO timestamp
+}
+
+// =============================================
+// TABLE: organization_invites
+// =============================================
+
+// Pending invitation to join an organization; accepted once through /auth/recruiter-signup
+export interface OrganizationInvite {
+  id: string;                    // UUID
+  organization_id: string;       // UUID, links to organizations
+  email: string;                 // Lowercase normalized
+  role: OrganizationRole;
+  token: string;                 // Secret included in the invite link
+  invited_by: string | null;     // UUID, links to auth.users
+  expires_at: string;            // ISO timestamp
+  accepted_at: string | null;    // ISO timestamp
+  created_at: string;            // ISO timestamp
+}
+
+// Type for inserting an invite (omits auto-generated fields)
+export interface OrganizationInviteInsert {
+  organization_id: string;
+  email: string;
+  role: OrganizationRole;
+  token: string;
+  invited_by: string;
+  expires_at: string;
+}
+
+// =============================================
+// TABLE: interviews
+// =============================================
+
+// available: published, waiting for the candidate; booked: the candidate picked it;
+// cancelled: withdrawn by the hiring team, or released when another slot was booked
+export type InterviewStatus = 'available' | 'booked' | 'cancelled';
+
+// One interview slot offered to the candidate on an application
+export interface Interview {
+  id: string;                    // UUID
+  application_id: string;        // UUID, links to applications
+  starts_at: string;             // ISO timestamp
+  ends_at: string;               // ISO timestamp
+  location: string | null;       // Office address or "Phone", etc.
+  meeting_url: string | null;    // Video call link
+  notes: string | null;          // Shown to the candidate
+  status: InterviewStatus;
+  sequence: number;              // iCalendar SEQUENCE, bumped when a booked interview changes
+  created_by: string | null;     // UUID, links to auth.users
+  booked_at: string | null;      // ISO timestamp
+  cancelled_at: string | null;   // ISO timestamp
+  created_at: string;            // ISO timestamp
+  updated_at: string;            // ISO timestamp
+}
+
+// Type for inserting a slot (omits auto-generated fields)
+export interface InterviewInsert {
+  application_id: string;
+  starts_at: string;
+  ends_at: string;
+  location?: string | null;
+  meeting_url?: string | null;
+  notes?: string | null;
+  created_by: string;
+}
+
+// =============================================
+// TABLE: scorecards
+// =============================================
+
+// Competency rating: 1 (strong no) to 4 (strong yes)
+export type ScorecardRating = 1 | 2 | 3 | 4;
+
+export type HireRecommendation = 'strong_no_hire' | 'no_hire' | 'hire' | 'strong_hire';
+
+// One interviewer's feedback on an application, optionally for a specific interview.
+// Drafts are private to the interviewer; submitted scorecards are final.
+export interface Scorecard {
+  id: string;                    // UUID
+  application_id: string;        // UUID, links to applications
+  interview_id: string | null;   // UUID, links to interviews
+  interviewer_id: string;        // UUID, links to auth.users
+  ratings: Record<string, ScorecardRating>;  // JSONB, competency id -> rating
+  notes: string | null;
+  recommendation: HireRecommendation | null;
+  submitted_at: string | null;   // ISO timestamp; null while a draft
+  created_at: string;            // ISO timestamp
+  updated_at: string;            // ISO timestamp
+}
+
+// Type for inserting a scorecard (omits auto-generated fields)
+export interface ScorecardInsert {
+  application_id: string;
+  interview_id?: string | null;
+  interviewer_id: string;
+  ratings: Record<string, ScorecardRating>;
+  notes?: string | null;
+  recommendation?: HireRecommendation | null;
+  submitted_at?: string | null;
+}
+
+// =============================================
+// TABLE: application_notes
+// =============================================
+
+// Internal hiring-team note on an application. Body is markdown with
+// @mentions written as @[Name](user-id). Never visible to candidates.
+export interface ApplicationNote {
+  id: string;                    // UUID
+  application_id: string;        // UUID, links to applications
+  parent_id: string | null;      // UUID, top-level note this replies to
+  author_id: string | null;      // UUID, links to auth.users
+  body: string;
+  mentioned_user_ids: string[];  // UUID[]
+  edited_at: string | null;      // ISO timestamp
+  deleted_at: string | null;     // ISO timestamp; deleted notes keep their history
+  created_at: string;            // ISO timestamp
+  updated_at: string;            // ISO timestamp
+}
+
+// Type for inserting a note (omits auto-generated fields)
+export interface ApplicationNoteInsert {
+  application_id: string;
+  parent_id?: string | null;
+  author_id: string;
+  body: string;
+  mentioned_user_ids?: string[];
+}
+
+export type ApplicationNoteRevisionAction = 'edited' | 'deleted';
+
+// Previous body of an edited or deleted note, written by trigger
+export interface ApplicationNoteRevision {
+  id: string;                    // UUID
+  note_id: string;               // UUID, links to application_notes
+  body: string;
+  action: ApplicationNoteRevisionAction;
+  changed_by: string | null;     // UUID, links to auth.users
+  created_at: string;            // ISO timestamp
+}
+
+// =============================================
+// TABLE: application_messages
+// =============================================
+
+// Which side of an application's thread sent a message; 'recruiter' is anyone
+// on the job's hiring team
+export type MessageSenderRole = 'candidate' | 'recruiter';
+
+// Message between a candidate and the hiring team. Messages are immutable.
+export interface ApplicationMessage {
+  id: string;                    // UUID
+  application_id: string;        // UUID, links to applications
+  sender_id: string | null;      // UUID, links to auth.users
+  sender_role: MessageSenderRole;
+  body: string;                  // May be empty when there is an attachment
+  attachment_path: string | null;  // Object in the private resumes bucket
+  attachment_name: string | null;
+  attachment_mime: string | null;
+  attachment_size: number | null;
+  created_at: string;            // ISO timestamp
+}
+
+// Type for inserting a message (omits auto-generated fields)
+export interface ApplicationMessageInsert {
+  application_id: string;
+  sender_id: string;
+  sender_role: MessageSenderRole;
+  body: string;
+  attachment_path?: string | null;
+  attachment_name?: string | null;
+  attachment_mime?: string | null;
+  attachment_size?: number | null;
+}
+
+// How far a participant has read an application's thread
+export interface ApplicationMessageRead {
+  application_id: string;        // UUID, links to applications
+  user_id: string;               // UUID, links to auth.users
+  last_read_at: string;          // ISO timestamp
+}
+
+// =============================================
+// TABLE: offers
+// =============================================
+
+// extended is an open offer; an extended offer past expires_at has expired
+export type OfferStatus = 'extended' | 'accepted' | 'declined' | 'withdrawn';
+
+// Offer extended on an application
+export interface Offer {
+  id: string;                    // UUID
+  application_id: string;        // UUID, links to applications
+  created_by: string | null;     // UUID, links to auth.users
+  status: OfferStatus;
+  salary_amount: number;
+  salary_currency: string;       // ISO 4217
+  salary_period: SalaryPeriod;
+  signing_bonus: number | null;  // Same currency as the salary
+  equity: string | null;         // Free text, e.g. "0.1% over 4 years"
+  start_date: string;            // ISO date (YYYY-MM-DD)
+  expires_at: string;            // ISO timestamp
+  message: string | null;        // Note to the candidate
+  letter_path: string | null;    // Object in the private resumes bucket
+  letter_name: string | null;
+  letter_mime: string | null;
+  letter_size: number | null;
+  responded_at: string | null;   // ISO timestamp
+  response_note: string | null;  // Candidate's reason for declining
+  withdrawn_at: string | null;   // ISO timestamp
+  created_at: string;            // ISO timestamp
+  updated_at: string;            // ISO timestamp
+}
+
+// Type for inserting an offer (omits auto-generated fields)
+export interface OfferInsert {
+  application_id: string;
+  created_by: string;
+  salary_amount: number;
+  salary_currency: string;
+  salary_period: SalaryPeriod;
+  signing_bonus?: number | null;
+  equity?: string | null;
+  start_date: string;
+  expires_at: string;
+  message?: string | null;
+  letter_path?: string | null;
+  letter_name?: string | null;
+  letter_mime?: string | null;
+  letter_size?: number | null;
+}
+
+// =============================================
+// TABLE: application_tags
+// =============================================
+
+// Hiring team label on an application; candidates can't see tags
+export interface ApplicationTag {
+  application_id: string;        // UUID, links to applications
+  tag: string;                   // Lowercase, 1-30 characters
+  created_by: string | null;     // UUID, links to auth.users
+  created_at: string;            // ISO timestamp
+}
+
+// =============================================
+// TABLE: notification_preferences
+// =============================================
+
+export type NotificationType = 'application_received' | 'status_changed' | 'interview_scheduled' | 'job_closing_soon' | 'job_closed';
+
+// Opt-out for one notification type; a missing row means the email is on
+export interface NotificationPreference {
+  user_id: string;               // UUID, links to auth.users
+  event: NotificationType;
+  email_enabled: boolean;
+  updated_at: string;            // ISO timestamp
+}
+
+// =============================================
+// TABLE: email_outbox
+// =============================================
+
+export type EmailOutboxStatus = 'queued' | 'sent' | 'failed';
+
+// Rendered notification email waiting for delivery
+export interface EmailOutboxRow {
+  id: string;                    // UUID
+  recipient_id: string | null;   // UUID, links to auth.users
+  to_address: string;
+  event: NotificationType;
+  subject: string;
+  text_body: string;             // Markdown source, readable as plain text
+  html_body: string;
+  status: EmailOutboxStatus;
+  attempts: number;
+  last_error: string | null;
+  created_by: string | null;     // UUID, links to auth.users; null for scheduled jobs
+  created_at: string;            // ISO timestamp
+  sent_at: string | null;        // ISO timestamp
+}
+
+// =============================================
+// TABLE: notifications
+// =============================================
+
+// One in-app notification; the message is rendered from variables when listed
+export interface Notification {
+  id: string;                    // UUID
+  user_id: string;               // UUID, links to auth.users (recipient)
+  type: NotificationType;
+  variables: Record<string, string>;
+  link: string | null;           // App path, e.g. /recruiter/applications/<id>
+  application_id: string | null; // UUID, links to applications
+  job_id: string | null;         // UUID, links to jobs
+  actor_id: string | null;       // UUID, links to auth.users; null for scheduled jobs
+  read_at: string | null;        // ISO timestamp
+  created_at: string;            // ISO timestamp
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { JobUpdateSchema, canChangeJobStatus, parseJobSalary } from './job-schema';
+
+describe('job schema', () => {
+  it('validates partial job updates', () => {
+    expect(JobUpdateSchema.safeParse({ title: '  Staff Engineer ' }).data).toEqual({ title: 'Staff Engineer' });
+    expect(JobUpdateSchema.safeParse({ title: '   ' }).success).toBe(false);
+    expect(JobUpdateSchema.safeParse({ status: 'archived' }).success).toBe(false);
+    expect(JobUpdateSchema.safeParse({ deadline: 'soon' }).success).toBe(false);
+    expect(JobUpdateSchema.safeParse({ deadline: '' }).data).toEqual({ deadline: null });
+    expect(
+      JobUpdateSchema.safeParse({
+        supplementalQuestions: [{ id: 'q1', question: 'Pick one', type: 'select', options: [], required: true }],
+      }).success
+    ).toBe(false);
+    expect(JobUpdateSchema.safeParse({ pipelineStages: [] }).success).toBe(false);
+  });
+
+  it('allows publishing, closing and reopening only', () => {
+    expect(canChangeJobStatus('draft', 'open')).toBe(true);
+    expect(canChangeJobStatus('open', 'closed')).toBe(true);
+    expect(canChangeJobStatus('closed', 'open')).toBe(true);
+    expect(canChangeJobStatus('open', 'open')).toBe(true);
+    expect(canChangeJobStatus('open', 'draft')).toBe(false);
+    expect(canChangeJobStatus('draft', 'closed')).toBe(false);
+  });
+
+  it('derives the salary display text from structured fields', () => {
+    expect(
+      parseJobSalary({ salary_min: 100_000, salary_max: 120_000, salary_currency: 'USD', salary_period: 'yearly' })
+    ).toEqual({
+      success: true,
+      data: {
+        salary_min: 100_000,
+        salary_max: 120_000,
+        salary_currency: 'USD',
+        salary_period: 'yearly',
+        salary_range: '$100,000 – $120,000 per year',
+      },
+    });
+    expect(parseJobSalary({ salary_range: 'Competitive' })).toMatchObject({
+      success: true,
+      data: { salary_min: null, salary_range: 'Competitive' },
+    });
+    expect(parseJobSalary({ salary_min: 5, salary_max: 1, salary_currency: 'USD', salary_period: 'hourly' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,111 @@
+import { z } from 'zod';
+import type { JobStatus } from '@/lib/types/database';
+import { PipelineStagesSchema } from '@/lib/pipeline';
+import { SupplementalQuestionsSchema } from '@/lib/supplemental-questions';
+import { JobRequirementsSchema } from '@/lib/job-requirements';
+import { ScorecardCompetenciesSchema } from '@/lib/scorecards';
+import { JobSalarySchema, formatSalaryRange, parseSalaryRange, type JobSalary } from '@/lib/salary';
+
+/**
+ * Validation Schema for Job Postings
+ *
+ * Used by POST /api/jobs and PATCH /api/jobs/[id]. Salary is validated
+ * separately by parseJobSalary() because JobSalarySchema carries cross-field
+ * refinements.
+ */
+
+export const JOB_STATUSES: JobStatus[] = ['draft', 'open', 'closed'];
+
+// Drafts can only be published; published jobs can be closed and reopened
+export const JOB_STATUS_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  draft: ['open'],
+  open: ['closed'],
+  closed: ['open'],
+};
+
+// Statuses a recruiter can pick when creating a job
+export const NEW_JOB_STATUSES: JobStatus[] = ['draft', 'open'];
+
+const JobStatusSchema = z.enum(JOB_STATUSES as [JobStatus, ...JobStatus[]]);
+
+// Empty string clears the deadline
+const DeadlineSchema = z
+  .string()
+  .trim()
+  .refine((v) => v === '' || !Number.isNaN(Date.parse(v)), 'Invalid deadline date')
+  .transform((v) => v || null)
+  .nullable();
+
+// Fields a recruiter can edit; everything is optional so PATCH can send a subset
+export const JobUpdateSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200, 'Title too long').optional(),
+  company: z.string().trim().min(1, 'Company is required').max(200, 'Company too long').optional(),
+  location: z.string().trim().min(1, 'Location is required').max(200, 'Location too long').optional(),
+  description: z.string().trim().max(20000, 'Description too long').nullable().optional(),
+  deadline: DeadlineSchema.optional(),
+  requirements: JobRequirementsSchema.optional(),
+  supplementalQuestions: SupplementalQuestionsSchema.optional(),
+  pipelineStages: PipelineStagesSchema.optional(),
+  scorecardCompetencies: ScorecardCompetenciesSchema.optional(),
+  status: JobStatusSchema.optional(),
+});
+
+export type JobUpdateInput = z.infer<typeof JobUpdateSchema>;
+
+const SALARY_KEYS = ['salary_min', 'salary_max', 'salary_currency', 'salary_period'] as const;
+
+/**
+ * Check whether a job can move between two statuses
+ * @param from - Current status
+ * @param to - Requested status
+ * @returns true when the change is allowed (or is not a change)
+ */
+export function canChangeJobStatus(from: JobStatus, to: JobStatus): boolean {
+  return from === to || (JOB_STATUS_TRANSITIONS[from] ?? []).includes(to);
+}
+
+/**
+ * Check whether a request body touches the salary
+ */
+export function hasSalaryInput(body: Record<string, unknown>): boolean {
+  return SALARY_KEYS.some((key) => key in body) || 'salary_range' in body;
+}
+
+export type JobSalaryParseResult =
+  | { success: true; data: JobSalary & { salary_range: string | null } }
+  | { success: false; fieldErrors: Record<string, string[] | undefined> };
+
+/**
+ * Validate the salary fields of a job request body.
+ * Legacy clients that only send free text get a best-effort parse; unreadable
+ * text is kept as the display string with no structured amounts.
+ * @param body - Request body (snake_case salary fields and/or salary_range)
+ * @returns Structured salary plus the salary_range display string to store
+ */
+export function parseJobSalary(body: Record<string, unknown>): JobSalaryParseResult {
+  let salaryInput: Record<string, unknown> = Object.fromEntries(SALARY_KEYS.map((key) => [key, body[key] ?? null]));
+  const hasStructuredSalary = Object.values(salaryInput).some((v) => v !== null);
+  const text = typeof body.salary_range === 'string' ? body.salary_range.trim() : '';
+  if (!hasStructuredSalary && text) {
+    const parsed = parseSalaryRange(text);
+    if (parsed.ok) salaryInput = parsed.salary;
+  }
+
+  const salaryCheck = JobSalarySchema.safeParse(salaryInput);
+  if (!salaryCheck.success) {
+    return { success: false, fieldErrors: salaryCheck.error.flatten().fieldErrors };
+  }
+  const salary: JobSalary = {
+    salary_min: salaryCheck.data.salary_min ?? null,
+    salary_max: salaryCheck.data.salary_max ?? null,
+    salary_currency: salaryCheck.data.salary_currency ?? null,
+    salary_period: salaryCheck.data.salary_period ?? null,
+  };
+  return {
+    success: true,
+    data: {
+      ...salary,
+      salary_range: (hasStructuredSalary && formatSalaryRange(salary)) || text || null,
+    },
+  };
+}